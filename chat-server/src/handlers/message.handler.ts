@@ -5,25 +5,62 @@
 
 import { Server } from 'socket.io';
 import { AuthenticatedSocket, checkConversationMembership, rateLimitMessages } from '../middleware/auth.middleware';
-import { firebaseService } from '../services/firebase.service';
+import { firebaseService, MessageContent, DeleteScope, ThreadSummary } from '../services/firebase.service';
+import { mediaService } from '../services/media.service';
 import { logger } from '../services/logger.service';
 
 export interface MessageData {
   conversationId: string;
-  type: 'text' | 'image' | 'file' | 'voice';
+  // Generated by the client and kept across retries and transports; saving
+  // the same one twice returns the first message
+  clientMessageId?: string;
+  type: 'text' | 'image' | 'file' | 'voice' | 'payment-request';
   text?: string;
   nonce?: string;
   senderText?: string;
   senderNonce?: string;
+  // Group sender key version the text is encrypted with
+  keyVersion?: number;
+  // Device a direct message was sent from
+  senderDevice?: string;
+  // Direct message encrypted per recipient device, keyed by device ID
+  envelopes?: Record<string, {
+    header: {
+      dh: string;
+      pn: number;
+      n: number;
+      x3dh?: {
+        identityKey: string;
+        ephemeralKey: string;
+        oneTimePreKey: string | null;
+      };
+    };
+    content: string;
+    nonce: string;
+  }>;
   replyTo?: string;
+  // Root message of the thread this is a reply in
+  threadId?: string;
   metadata?: {
     fileName?: string;
     fileSize?: number;
     mimeType?: string;
     duration?: number;
+    // PXL payment request shown as an actionable card
+    requestId?: string;
   };
 }
 
+export type DisappearingTimer = 'off' | '1h' | '24h' | '7d';
+
+// How long messages live in conversations with disappearing messages on
+const DISAPPEARING_TIMER_MS: Record<DisappearingTimer, number | null> = {
+  off: null,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000
+};
+
 export interface DeliveryData {
   messageId: string;
   conversationId: string;
@@ -34,6 +71,42 @@ export interface ReadData {
   messageIds: string[];
 }
 
+export interface AckData {
+  conversationId: string;
+  // Highest sequence number received without gaps
+  seq: number;
+}
+
+export interface SyncData {
+  conversationId: string;
+  // Defaults to the user's last acknowledged sequence number
+  since?: number;
+  limit?: number;
+}
+
+export interface EditData extends MessageContent {
+  conversationId: string;
+  messageId: string;
+  editedAt: string;
+}
+
+export interface DeleteData {
+  conversationId: string;
+  messageId: string;
+  scope: DeleteScope;
+}
+
+export interface SendResult {
+  messageId: string;
+  seq: number;
+  duplicate: boolean;
+}
+
+const SYNC_PAGE_LIMIT = 200;
+
+// How long after sending a message its sender can delete it for everyone
+const DELETE_FOR_EVERYONE_WINDOW_MS = parseInt(process.env.DELETE_FOR_EVERYONE_WINDOW_MS || String(48 * 60 * 60 * 1000));
+
 export class MessageHandler {
   constructor(private io: Server) {}
 
@@ -43,9 +116,9 @@ export class MessageHandler {
   public handleMessageSend = async (
     socket: AuthenticatedSocket, 
     data: MessageData
-  ): Promise<string> => {
+  ): Promise<SendResult> => {
     try {
-      const { conversationId, type, text, nonce, senderText, senderNonce, replyTo, metadata } = data;
+      const { conversationId, clientMessageId, type, text, nonce, senderText, senderNonce, keyVersion, senderDevice, envelopes, replyTo, threadId, metadata } = data;
       
       // Validate required fields
       if (!conversationId || !type) {
@@ -95,25 +168,55 @@ export class MessageHandler {
       if (nonce) messageData.nonce = nonce;
       if (senderText) messageData.senderText = senderText;
       if (senderNonce) messageData.senderNonce = senderNonce;
+      if (typeof keyVersion === 'number') messageData.keyVersion = keyVersion;
+      if (senderDevice && envelopes) {
+        messageData.senderDevice = senderDevice;
+        messageData.envelopes = envelopes;
+      }
+      if (clientMessageId) messageData.clientMessageId = clientMessageId;
       
       // Only add replyTo if it exists
       if (replyTo) {
         messageData.replyTo = replyTo;
       }
+      if (threadId) {
+        messageData.threadId = threadId;
+      }
 
       // Save message to Firestore
       let messageId: string;
+      let seq = 0;
+      let thread: ThreadSummary | undefined;
       let members: string[] = [];
+      let expiresAt: Date | undefined;
       
       try {
-        messageId = await firebaseService.saveMessage(conversationId, messageData);
         const conversation = await firebaseService.getConversation(conversationId);
         members = conversation.members || [];
+
+        // Stamp the expiry here so clients cannot opt out of the conversation's timer
+        const timerMs = DISAPPEARING_TIMER_MS[conversation.disappearingMessages as DisappearingTimer];
+        if (timerMs) {
+          expiresAt = new Date(Date.now() + timerMs);
+          messageData.expiresAt = expiresAt;
+        }
+
+        const saved = await firebaseService.saveMessage(conversationId, messageData);
+        messageId = saved.messageId;
+        seq = saved.seq;
+        thread = saved.thread;
+
+        // A retry of a message already saved and broadcast; only confirm it again
+        if (saved.duplicate) {
+          logger.info(`🔁 Duplicate send of ${messageId} (seq ${seq}) from ${socket.data.userId}, not broadcasting again`);
+          socket.emit('message:sent', { messageId, clientMessageId, conversationId, seq, timestamp: new Date() });
+          return saved;
+        }
       } catch (error: any) {
         // If Firestore is unavailable, generate a temporary message ID and continue
         if (error.code === 7 || error.message?.includes('PERMISSION_DENIED')) {
           logger.warn(`⚠️ Firestore unavailable, using fallback for message handling`);
-          messageId = `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+          messageId = clientMessageId || `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
           
           // Extract members from conversation ID for direct messages
           if (conversationId.startsWith('direct_')) {
@@ -140,6 +243,7 @@ export class MessageHandler {
       const broadcastMessage: any = {
         id: messageId,
         conversationId,
+        seq,
         senderId: socket.data.userId,
         type: type || 'text',
         timestamp: new Date(),
@@ -158,11 +262,23 @@ export class MessageHandler {
       if (nonce) broadcastMessage.nonce = nonce;
       if (senderText) broadcastMessage.senderText = senderText;
       if (senderNonce) broadcastMessage.senderNonce = senderNonce;
+      if (typeof keyVersion === 'number') broadcastMessage.keyVersion = keyVersion;
+      if (senderDevice && envelopes) {
+        broadcastMessage.senderDevice = senderDevice;
+        broadcastMessage.envelopes = envelopes;
+      }
+      if (expiresAt) broadcastMessage.expiresAt = expiresAt;
+      if (clientMessageId) broadcastMessage.clientMessageId = clientMessageId;
       
       // Only add replyTo if it exists
       if (replyTo) {
         broadcastMessage.replyTo = replyTo;
       }
+      // Clients replace the root's thread summary with this one
+      if (threadId) {
+        broadcastMessage.threadId = threadId;
+        if (thread) broadcastMessage.threadSummary = thread;
+      }
 
       // Normalize conversation ID for room broadcasting
       const normalizeId = (id: string) => {
@@ -188,13 +304,15 @@ export class MessageHandler {
       // Send confirmation to sender
       socket.emit('message:sent', { 
         messageId, 
+        clientMessageId,
         conversationId,
+        seq,
         timestamp: new Date()
       });
 
-      logger.info(`💬 Message sent: ${messageId} from ${socket.data.userId} to conversation: ${conversationId}`);
+      logger.info(`💬 Message sent: ${messageId} (seq ${seq}) from ${socket.data.userId} to conversation: ${conversationId}`);
       
-      return messageId;
+      return { messageId, seq, duplicate: false };
 
     } catch (error) {
       logger.error('❌ Failed to handle message send:', error);
@@ -330,23 +448,83 @@ export class MessageHandler {
     }
   };
 
+  /**
+   * Handle a client acknowledging every message up to a sequence number
+   */
+  public handleMessageAck = async (
+    socket: AuthenticatedSocket,
+    data: AckData
+  ): Promise<void> => {
+    try {
+      const { conversationId, seq } = data;
+      if (!conversationId || typeof seq !== 'number' || seq < 1) {
+        return;
+      }
+
+      const isMember = await checkConversationMembership(socket, conversationId);
+      if (!isMember) {
+        return;
+      }
+
+      await firebaseService.saveAck(conversationId, socket.data.userId, seq);
+      logger.debug(`📭 ${socket.data.userId} acknowledged ${conversationId} up to seq ${seq}`);
+    } catch (error) {
+      logger.error('❌ Failed to handle message ack:', error);
+    }
+  };
+
+  /**
+   * Handle a client asking for the messages it missed, e.g. after reconnecting
+   */
+  public handleSyncSince = async (
+    socket: AuthenticatedSocket,
+    data: SyncData
+  ): Promise<{ messages: any[]; lastSeq: number; hasMore: boolean }> => {
+    const { conversationId } = data;
+    if (!conversationId) {
+      throw new Error('Conversation ID is required');
+    }
+
+    const isMember = await checkConversationMembership(socket, conversationId);
+    if (!isMember) {
+      throw new Error('Not a member of this conversation');
+    }
+
+    const since = typeof data.since === 'number'
+      ? data.since
+      : await firebaseService.getAckedSeq(conversationId, socket.data.userId);
+    const limit = Math.min(Math.max(data.limit || SYNC_PAGE_LIMIT, 1), SYNC_PAGE_LIMIT);
+
+    // One extra tells whether another page follows
+    const [messages, conversation] = await Promise.all([
+      firebaseService.getMessagesSince(conversationId, since, limit + 1),
+      firebaseService.getConversation(conversationId)
+    ]);
+    const hasMore = messages.length > limit;
+
+    logger.info(`🔄 Sync for ${socket.data.userId} in ${conversationId} since seq ${since}: ${Math.min(messages.length, limit)} messages`);
+    return {
+      messages: messages.slice(0, limit),
+      lastSeq: conversation.lastSeq || 0,
+      hasMore
+    };
+  };
+
   /**
    * Handle message edit
+   * The new content is encrypted like a new message; the previous content
+   * stays in the message's encrypted edit history.
    */
   public handleMessageEdit = async (
     socket: AuthenticatedSocket,
-    data: { 
-      conversationId: string; 
-      messageId: string; 
-      text: string;
-      editedAt: string;
-    },
+    data: EditData,
     callback?: Function
   ): Promise<void> => {
     try {
-      const { conversationId, messageId, text, editedAt } = data;
+      const { conversationId, messageId, text, nonce, senderText, senderNonce, keyVersion, senderDevice, envelopes } = data;
+      const editedAt = data.editedAt || new Date().toISOString();
 
-      if (!conversationId || !messageId || !text) {
+      if (!conversationId || !messageId || (!text && !envelopes)) {
         if (callback) callback('Missing required fields');
         return;
       }
@@ -360,68 +538,30 @@ export class MessageHandler {
 
       logger.info(`✏️ Message edit from ${socket.data.userId}: messageId=${messageId}`);
 
-      // Update in Firestore
-      try {
-        const updateData = {
-          text: text,
-          'metadata.edited': true,
-          'metadata.editedAt': editedAt,
-          'metadata.editedBy': socket.data.userId
-        };
-        await firebaseService.updateMessage(conversationId, messageId, updateData);
-        logger.info(`✅ Message edit persisted to Firestore`);
-      } catch (error: any) {
-        logger.error(`❌ Failed to persist edit to Firestore:`, error);
-        // Continue even if Firestore fails - allow real-time update
-      }
-
-      // Get conversation members for broadcast
-      let members: string[] = [];
-      try {
-        const conversation = await firebaseService.getConversation(conversationId);
-        members = conversation.members || [];
-      } catch (error) {
-        // Fallback: extract members from conversationId for direct messages
-        if (conversationId.startsWith('direct_')) {
-          const parts = conversationId.replace('direct_', '').split('_');
-          members = parts;
-        }
-      }
+      const content: MessageContent = { text, nonce, senderText, senderNonce, keyVersion, senderDevice, envelopes };
+      const revisions = await firebaseService.editMessage(conversationId, messageId, socket.data.userId, content, editedAt);
 
-      // Prepare broadcast message
       const broadcastMessage = {
         conversationId,
         messageId,
-        text,
+        ...content,
         editedAt,
         editedBy: socket.data.userId,
+        revisions,
         metadata: {
           edited: true,
           editedAt,
           editedBy: socket.data.userId
         }
       };
-
-      // Broadcast to all members in the conversation
-      socket.to(conversationId).emit('message:updated', broadcastMessage);
-      
-      // Also emit to sender to confirm the edit
-      socket.emit('message:updated', broadcastMessage);
-
-      // If members are known, also emit to their individual rooms
-      members.forEach(memberId => {
-        if (memberId !== socket.data.userId) {
-          this.io.to(`user:${memberId}`).emit('message:updated', broadcastMessage);
-        }
-      });
-
-      logger.info(`📤 Message edit broadcast to conversation ${conversationId} and ${members.length} members`);
+      await this.broadcastToConversation(socket, conversationId, 'message:updated', broadcastMessage);
 
       if (callback) {
         callback(null, { 
           success: true, 
           messageId,
           editedAt,
+          revisions,
           broadcast: true
         });
       }
@@ -433,6 +573,104 @@ export class MessageHandler {
     }
   };
 
+  /**
+   * Handle message delete
+   * Deleting for me hides the message on the user's own devices; deleting for
+   * everyone leaves a tombstone and is only allowed within a time window.
+   */
+  public handleMessageDelete = async (
+    socket: AuthenticatedSocket,
+    data: DeleteData,
+    callback?: Function
+  ): Promise<void> => {
+    try {
+      const { conversationId, messageId, scope } = data;
+
+      if (!conversationId || !messageId || (scope !== 'me' && scope !== 'everyone')) {
+        if (callback) callback('Missing required fields');
+        return;
+      }
+
+      // Verify conversation membership
+      const isMember = await checkConversationMembership(socket, conversationId);
+      if (!isMember) {
+        if (callback) callback('Not a member of this conversation');
+        return;
+      }
+
+      const userId = socket.data.userId;
+      logger.info(`🗑️ Message delete from ${userId}: messageId=${messageId}, scope=${scope}`);
+
+      const downloadUrl = await firebaseService.deleteMessage(
+        conversationId,
+        messageId,
+        userId,
+        scope,
+        DELETE_FOR_EVERYONE_WINDOW_MS
+      );
+
+      const deletedAt = new Date().toISOString();
+      const broadcastMessage = { conversationId, messageId, scope, deletedAt, deletedBy: userId };
+
+      if (scope === 'me') {
+        // Only the user's own devices hide the message
+        this.io.to(`user:${userId}`).emit('message:deleted', broadcastMessage);
+        socket.emit('message:deleted', broadcastMessage);
+      } else {
+        await this.broadcastToConversation(socket, conversationId, 'message:deleted', broadcastMessage);
+      }
+
+      if (downloadUrl) {
+        try {
+          await mediaService.deleteMedia(downloadUrl);
+        } catch (error) {
+          logger.warn(`⚠️ Failed to delete media of deleted message ${messageId}:`, error);
+        }
+      }
+
+      if (callback) {
+        callback(null, { success: true, messageId, scope, deletedAt });
+      }
+    } catch (error: any) {
+      logger.error(`❌ Failed to handle message delete:`, error);
+      if (callback) {
+        callback(error.message || 'Failed to delete message');
+      }
+    }
+  };
+
+  /**
+   * Emit an event to a conversation's room, the sender and each member's own room
+   */
+  private async broadcastToConversation(
+    socket: AuthenticatedSocket,
+    conversationId: string,
+    event: string,
+    payload: any
+  ): Promise<void> {
+    // Get conversation members for broadcast
+    let members: string[] = [];
+    try {
+      const conversation = await firebaseService.getConversation(conversationId);
+      members = conversation.members || [];
+    } catch (error) {
+      // Fallback: extract members from conversationId for direct messages
+      if (conversationId.startsWith('direct_')) {
+        members = conversationId.replace('direct_', '').split('_');
+      }
+    }
+
+    socket.to(conversationId).emit(event, payload);
+    socket.emit(event, payload);
+    members.forEach(memberId => {
+      if (memberId !== socket.data.userId) {
+        this.io.to(`user:${memberId}`).emit(event, payload);
+      }
+    });
+
+    logger.info(`📤 ${event} broadcast to conversation ${conversationId} and ${members.length} members`);
+  }
+
   /**
    * Register all message event handlers
    */
@@ -443,7 +681,10 @@ export class MessageHandler {
         if (callback) {
           callback(null, { 
             success: true, 
-            messageId: result,
+            messageId: result.messageId,
+            clientMessageId: data.clientMessageId,
+            seq: result.seq,
+            duplicate: result.duplicate,
             timestamp: new Date().toISOString()
           });
         }
@@ -460,9 +701,26 @@ export class MessageHandler {
         callback(null, { success: true });
       }
     });
-    socket.on('message:edit', (data: any, callback?: Function) => 
+    socket.on('message:edit', (data: EditData, callback?: Function) => 
       this.handleMessageEdit(socket, data, callback)
     );
+    socket.on('message:delete', (data: DeleteData, callback?: Function) => 
+      this.handleMessageDelete(socket, data, callback)
+    );
+    socket.on('message:ack', (data: AckData) => this.handleMessageAck(socket, data));
+    socket.on('sync:since', async (data: SyncData, callback?: Function) => {
+      try {
+        const result = await this.handleSyncSince(socket, data);
+        if (callback) {
+          callback(null, result);
+        }
+      } catch (error: any) {
+        logger.error('❌ Failed to handle sync:', error);
+        if (callback) {
+          callback(error.message || 'Failed to sync messages');
+        }
+      }
+    });
     
     logger.debug(`📝 Message handlers registered for socket: ${socket.id}`);
   }
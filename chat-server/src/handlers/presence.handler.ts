@@ -1,12 +1,19 @@
 /**
  * Presence handler for Socket.io events
  * Handles typing indicators, online/offline status, and user presence
+ * State lives in the shared presence store, so it is the same on every node
  */
 
 import { Server } from 'socket.io';
 import { AuthenticatedSocket, checkConversationMembership } from '../middleware/auth.middleware';
+import { PresenceStore, PRESENCE_TTL_MS } from '../services/presence-store.service';
 import { logger } from '../services/logger.service';
 
+const TYPING_TTL_MS = 10000;
+const RECORDING_TTL_MS = 60000;
+// Refresh well within the TTL so live connections never lapse
+const HEARTBEAT_INTERVAL_MS = Math.floor(PRESENCE_TTL_MS / 3);
+
 export interface TypingData {
   conversationId: string;
   typing: boolean;
@@ -18,29 +25,63 @@ export interface RecordingData {
 }
 
 export class PresenceHandler {
-  private typingUsers = new Map<string, Set<string>>(); // conversationId -> Set of userIds
-  private recordingUsers = new Map<string, Set<string>>(); // conversationId -> Set of userIds recording
-  private onlineUsers = new Set<string>(); // Set of online userIds
+  // Auto-stop timers for sockets on this node; the store expires the rest
   private typingTimeouts = new Map<string, NodeJS.Timeout>(); // userId:conversationId -> timeout
   private recordingTimeouts = new Map<string, NodeJS.Timeout>(); // userId:conversationId -> timeout for recording
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(private io: Server, private presence: PresenceStore) {}
+
+  /**
+   * Keep this node's connections alive and take users offline whose
+   * connections lapsed, e.g. because their node died
+   */
+  public start(): void {
+    if (this.heartbeat) return;
+
+    this.heartbeat = setInterval(() => {
+      this.refreshPresence().catch(error => logger.error('❌ Presence heartbeat failed:', error));
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the heartbeat
+   */
+  public stop(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
 
-  constructor(private io: Server) {}
+  /**
+   * Run one heartbeat
+   */
+  private async refreshPresence(): Promise<void> {
+    await this.presence.refreshConnections();
+
+    const expiredUsers = await this.presence.reapExpiredUsers();
+    expiredUsers.forEach(userId => this.broadcastOffline(userId));
+    if (expiredUsers.length > 0) {
+      logger.info(`🧹 Presence expired for ${expiredUsers.length} users`);
+    }
+  }
 
   /**
    * Handle user coming online
    */
-  public handleUserOnline = (socket: AuthenticatedSocket): void => {
+  public handleUserOnline = async (socket: AuthenticatedSocket): Promise<void> => {
     const userId = socket.data.userId;
     
-    // Add to online users
-    this.onlineUsers.add(userId);
-    
     // Join user's personal room for direct messaging
     socket.join(`user:${userId}`);
     
     // Join tier-based room
     socket.join(`tier:${socket.data.tier}`);
     
+    // Add to online users
+    await this.presence.addConnection(userId, socket.id);
+    
     // Send auth success with user data to the client
     socket.emit('auth:success', {
       userId: socket.data.userId,
@@ -65,7 +106,7 @@ export class PresenceHandler {
     });
 
     // Send current online users to the newly connected user
-    const onlineUsersList = this.getOnlineUsers();
+    const onlineUsersList = await this.getOnlineUsers();
     socket.emit('presence:online-users', {
       users: onlineUsersList
     });
@@ -76,18 +117,30 @@ export class PresenceHandler {
   /**
    * Handle user going offline
    */
-  public handleUserOffline = (socket: AuthenticatedSocket): void => {
+  public handleUserOffline = async (socket: AuthenticatedSocket): Promise<void> => {
     const userId = socket.data.userId;
     
-    // Remove from online users
-    this.onlineUsers.delete(userId);
-    
     // Clear any typing indicators
-    this.clearAllTypingForUser(userId);
+    await this.clearAllTypingForUser(userId);
     
     // Clear any recording indicators
-    this.clearAllRecordingForUser(userId);
+    await this.clearAllRecordingForUser(userId);
     
+    // Remove from online users; other tabs or devices may still be connected
+    const wentOffline = await this.presence.removeConnection(userId, socket.id);
+    if (!wentOffline) {
+      logger.info(`🔌 Socket closed, user still online elsewhere: ${userId} - Socket: ${socket.id}`);
+      return;
+    }
+
+    this.broadcastOffline(userId);
+    logger.info(`🔴 User offline: ${userId} - Socket: ${socket.id}`);
+  };
+
+  /**
+   * Tell every node's clients that a user went offline
+   */
+  private broadcastOffline(userId: string): void {
     // Broadcast offline status
     this.io.emit('presence:update', {
       userId,
@@ -99,9 +152,7 @@ export class PresenceHandler {
     this.io.emit('user:offline', {
       userId
     });
-
-    logger.info(`🔴 User offline: ${userId} - Socket: ${socket.id}`);
-  };
+  }
 
   /**
    * Handle typing indicator start/stop
@@ -141,10 +192,7 @@ export class PresenceHandler {
 
       if (typing) {
         // User started typing
-        if (!this.typingUsers.has(conversationId)) {
-          this.typingUsers.set(conversationId, new Set());
-        }
-        this.typingUsers.get(conversationId)!.add(userId);
+        await this.presence.setActivity('typing', conversationId, userId, TYPING_TTL_MS);
 
         // Clear existing timeout
         const existingTimeout = this.typingTimeouts.get(typingKey);
@@ -154,15 +202,16 @@ export class PresenceHandler {
 
         // Set auto-stop timeout (10 seconds)
         const timeout = setTimeout(() => {
-          this.stopTyping(userId, conversationId);
-        }, 10000);
+          this.stopTyping(userId, conversationId)
+            .catch(error => logger.error('❌ Failed to stop typing indicator:', error));
+        }, TYPING_TTL_MS);
         
         this.typingTimeouts.set(typingKey, timeout);
 
         logger.debug(`⌨️ User ${userId} started typing in ${conversationId}`);
       } else {
         // User stopped typing
-        this.stopTyping(userId, conversationId);
+        await this.stopTyping(userId, conversationId);
         logger.debug(`⌨️ User ${userId} stopped typing in ${conversationId}`);
       }
 
@@ -230,10 +279,7 @@ export class PresenceHandler {
 
       if (recording) {
         // User started recording
-        if (!this.recordingUsers.has(conversationId)) {
-          this.recordingUsers.set(conversationId, new Set());
-        }
-        this.recordingUsers.get(conversationId)!.add(userId);
+        await this.presence.setActivity('recording', conversationId, userId, RECORDING_TTL_MS);
 
         // Clear existing timeout
         const existingTimeout = this.recordingTimeouts.get(recordingKey);
@@ -243,15 +289,16 @@ export class PresenceHandler {
 
         // Set auto-stop timeout (60 seconds for recording)
         const timeout = setTimeout(() => {
-          this.stopRecording(userId, conversationId);
-        }, 60000);
+          this.stopRecording(userId, conversationId)
+            .catch(error => logger.error('❌ Failed to stop recording indicator:', error));
+        }, RECORDING_TTL_MS);
         
         this.recordingTimeouts.set(recordingKey, timeout);
 
         logger.debug(`🎤 User ${userId} started recording in ${conversationId}`);
       } else {
         // User stopped recording
-        this.stopRecording(userId, conversationId);
+        await this.stopRecording(userId, conversationId);
         logger.debug(`🎤 User ${userId} stopped recording in ${conversationId}`);
       }
 
@@ -308,10 +355,10 @@ export class PresenceHandler {
       // Join conversation room
       socket.join(`conversation:${conversationId}`);
       
-      // Send current typing users in this conversation
-      const typingUsers = this.typingUsers.get(conversationId);
-      if (typingUsers && typingUsers.size > 0) {
-        const typingList = Array.from(typingUsers).filter(uid => uid !== socket.data.userId);
+      // Send current typing users in this conversation, whichever node they are on
+      const typingUsers = await this.presence.getActivity('typing', conversationId);
+      if (typingUsers.length > 0) {
+        const typingList = typingUsers.filter(uid => uid !== socket.data.userId);
         if (typingList.length > 0) {
           socket.emit('typing:current', {
             conversationId,
@@ -334,10 +381,10 @@ export class PresenceHandler {
   /**
    * Handle leaving a conversation room
    */
-  public handleLeaveConversation = (
+  public handleLeaveConversation = async (
     socket: AuthenticatedSocket, 
     conversationId: string
-  ): void => {
+  ): Promise<void> => {
     if (!conversationId) {
       return;
     }
@@ -346,7 +393,7 @@ export class PresenceHandler {
     socket.leave(`conversation:${conversationId}`);
     
     // Stop typing in this conversation
-    this.stopTyping(socket.data.userId, conversationId);
+    await this.stopTyping(socket.data.userId, conversationId);
 
     logger.debug(`👥 User ${socket.data.userId} left conversation: ${conversationId}`);
   };
@@ -354,7 +401,7 @@ export class PresenceHandler {
   /**
    * Stop typing for a user in a conversation
    */
-  private stopTyping(userId: string, conversationId: string): void {
+  private async stopTyping(userId: string, conversationId: string): Promise<void> {
     const typingKey = `${userId}:${conversationId}`;
     
     // Clear timeout
@@ -365,13 +412,7 @@ export class PresenceHandler {
     }
 
     // Remove from typing users
-    const conversationTyping = this.typingUsers.get(conversationId);
-    if (conversationTyping) {
-      conversationTyping.delete(userId);
-      if (conversationTyping.size === 0) {
-        this.typingUsers.delete(conversationId);
-      }
-    }
+    await this.presence.clearActivity('typing', conversationId, userId);
 
     // Broadcast stop typing
     this.io.to(`conversation:${conversationId}`).emit('typing:update', {
@@ -384,7 +425,7 @@ export class PresenceHandler {
   /**
    * Stop recording for a user in a conversation
    */
-  private stopRecording(userId: string, conversationId: string): void {
+  private async stopRecording(userId: string, conversationId: string): Promise<void> {
     const recordingKey = `${userId}:${conversationId}`;
     
     // Clear timeout
@@ -395,13 +436,7 @@ export class PresenceHandler {
     }
 
     // Remove from recording users
-    const conversationRecording = this.recordingUsers.get(conversationId);
-    if (conversationRecording) {
-      conversationRecording.delete(userId);
-      if (conversationRecording.size === 0) {
-        this.recordingUsers.delete(conversationId);
-      }
-    }
+    await this.presence.clearActivity('recording', conversationId, userId);
 
     // Broadcast stop recording
     this.io.to(`conversation:${conversationId}`).emit('recording:update', {
@@ -414,44 +449,50 @@ export class PresenceHandler {
   /**
    * Clear all typing indicators for a user (when they disconnect)
    */
-  private clearAllTypingForUser(userId: string): void {
-    for (const [conversationId, typingUsers] of this.typingUsers.entries()) {
-      if (typingUsers.has(userId)) {
-        this.stopTyping(userId, conversationId);
-      }
+  private async clearAllTypingForUser(userId: string): Promise<void> {
+    for (const conversationId of this.conversationsWithTimeouts(this.typingTimeouts, userId)) {
+      await this.stopTyping(userId, conversationId);
     }
   }
 
   /**
    * Clear all recording indicators for a user (when they disconnect)
    */
-  private clearAllRecordingForUser(userId: string): void {
-    for (const [conversationId, recordingUsers] of this.recordingUsers.entries()) {
-      if (recordingUsers.has(userId)) {
-        this.stopRecording(userId, conversationId);
-      }
+  private async clearAllRecordingForUser(userId: string): Promise<void> {
+    for (const conversationId of this.conversationsWithTimeouts(this.recordingTimeouts, userId)) {
+      await this.stopRecording(userId, conversationId);
     }
   }
 
+  /**
+   * Conversations a user has a pending auto-stop timer in on this node
+   */
+  private conversationsWithTimeouts(timeouts: Map<string, NodeJS.Timeout>, userId: string): string[] {
+    const prefix = `${userId}:`;
+    return Array.from(timeouts.keys())
+      .filter(key => key.startsWith(prefix))
+      .map(key => key.slice(prefix.length));
+  }
+
   /**
    * Get online users count
    */
-  public getOnlineUsersCount(): number {
-    return this.onlineUsers.size;
+  public getOnlineUsersCount(): Promise<number> {
+    return this.presence.getOnlineUsersCount();
   }
 
   /**
    * Get all online users
    */
-  public getOnlineUsers(): string[] {
-    return Array.from(this.onlineUsers.keys());
+  public getOnlineUsers(): Promise<string[]> {
+    return this.presence.getOnlineUsers();
   }
 
   /**
    * Check if user is online
    */
-  public isUserOnline(userId: string): boolean {
-    return this.onlineUsers.has(userId);
+  public isUserOnline(userId: string): Promise<boolean> {
+    return this.presence.isUserOnline(userId);
   }
 
   /**
@@ -459,7 +500,8 @@ export class PresenceHandler {
    */
   public registerHandlers(socket: AuthenticatedSocket): void {
     // Connection events
-    this.handleUserOnline(socket);
+    this.handleUserOnline(socket)
+      .catch(error => logger.error('❌ Failed to handle user online:', error));
     
     // Typing events
     socket.on('typing:start', (data: TypingData) => {
@@ -513,10 +555,14 @@ export class PresenceHandler {
     });
     socket.on('conversation:leave', (conversationId: string) => 
       this.handleLeaveConversation(socket, conversationId)
+        .catch(error => logger.error('❌ Failed to leave conversation:', error))
     );
     
     // Disconnection
-    socket.on('disconnect', () => this.handleUserOffline(socket));
+    socket.on('disconnect', () => 
+      this.handleUserOffline(socket)
+        .catch(error => logger.error('❌ Failed to handle user offline:', error))
+    );
     
     logger.debug(`👥 Presence handlers registered for socket: ${socket.id}`);
   }
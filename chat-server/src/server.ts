@@ -6,8 +6,6 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
-import { createAdapter } from '@socket.io/redis-adapter';
-import { createClient } from 'redis';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
@@ -16,6 +14,8 @@ import path from 'path';
 import { authenticateSocket, AuthenticatedSocket } from './middleware/auth.middleware';
 import { MessageHandler } from './handlers/message.handler';
 import { PresenceHandler } from './handlers/presence.handler';
+import { MessageSweeper } from './services/message-sweeper.service';
+import { PubSubAdapter, createPubSubAdapter } from './services/pubsub.service';
 import { logger } from './services/logger.service';
 
 // Load environment variables
@@ -27,6 +27,8 @@ class ChatServer {
   private io!: Server;
   private messageHandler!: MessageHandler;
   private presenceHandler!: PresenceHandler;
+  private messageSweeper!: MessageSweeper;
+  private pubSub!: PubSubAdapter;
   
   private readonly port: number;
   private readonly corsOrigin: string;
@@ -82,7 +84,7 @@ class ChatServer {
   }
 
   /**
-   * Setup Socket.io server with authentication and Redis adapter
+   * Setup Socket.io server with authentication and the pub/sub adapter
    */
   private async setupSocketIO(): Promise<void> {
     this.io = new Server(this.server, {
@@ -98,23 +100,9 @@ class ChatServer {
       allowEIO3: true
     });
 
-    // Setup Redis adapter for horizontal scaling (if Redis URL is provided)
-    const redisUrl = process.env.REDIS_URL;
-    if (redisUrl) {
-      try {
-        const pubClient = createClient({ url: redisUrl });
-        const subClient = pubClient.duplicate();
-        
-        await Promise.all([pubClient.connect(), subClient.connect()]);
-        
-        this.io.adapter(createAdapter(pubClient, subClient));
-        logger.info('🔴 Redis adapter configured for horizontal scaling');
-      } catch (error) {
-        logger.warn('⚠️ Redis connection failed, using default in-memory adapter:', error);
-      }
-    } else {
-      logger.info('💾 Using in-memory adapter (single instance mode)');
-    }
+    // Room broadcasts and presence go through Redis when running several nodes
+    this.pubSub = await createPubSubAdapter(process.env.REDIS_URL);
+    this.pubSub.attach(this.io);
 
     // Authentication middleware
     this.io.use(authenticateSocket);
@@ -127,7 +115,12 @@ class ChatServer {
    */
   private setupHandlers(): void {
     this.messageHandler = new MessageHandler(this.io);
-    this.presenceHandler = new PresenceHandler(this.io);
+    this.presenceHandler = new PresenceHandler(this.io, this.pubSub.presence);
+    this.presenceHandler.start();
+
+    // Deletes disappearing messages once their timer runs out
+    this.messageSweeper = new MessageSweeper(this.io);
+    this.messageSweeper.start();
 
     // Handle new connections
     this.io.on('connection', (socket: AuthenticatedSocket) => {
@@ -174,14 +167,23 @@ class ChatServer {
     this.app.use(express.static(staticPath));
     
     // Health check endpoint
-    this.app.get('/health', (req, res) => {
+    this.app.get('/health', async (req, res) => {
+      let onlineUsers: number | null = null;
+      try {
+        onlineUsers = await this.presenceHandler.getOnlineUsersCount();
+      } catch (error) {
+        logger.warn('⚠️ Could not read online users for health check:', error);
+      }
+
       const stats = {
         status: 'healthy',
         timestamp: new Date().toISOString(),
         uptime: process.uptime(),
         memory: process.memoryUsage(),
-        connections: this.io.engine.clientsCount,
-        onlineUsers: this.presenceHandler.getOnlineUsersCount(),
+        node: this.pubSub.nodeId,
+        adapter: this.pubSub.kind,
+        connections: this.io.engine.clientsCount, // This node only
+        onlineUsers, // All nodes
         version: '1.0.0'
       };
       
@@ -199,6 +201,7 @@ class ChatServer {
           'End-to-end encryption support',
           'Typing indicators',
           'Presence system',
+          'Horizontal scaling via Redis pub/sub',
           'Message delivery receipts',
           'Rate limiting',
           'Firebase authentication'
@@ -326,15 +329,24 @@ class ChatServer {
    */
   private gracefulShutdown(signal: string): void {
     logger.info(`🔄 Graceful shutdown initiated by: ${signal}`);
+    this.messageSweeper?.stop();
+    this.presenceHandler?.stop();
     
     // Close Socket.io server
     this.io.close(() => {
       logger.info('🔌 Socket.io server closed');
       
       // Close HTTP server
-      this.server.close(() => {
+      this.server.close(async () => {
         logger.info('🌐 HTTP server closed');
         
+        // Release this node's presence and Redis connections
+        try {
+          await this.pubSub?.close();
+        } catch (error) {
+          logger.warn('⚠️ Failed to close pub/sub adapter:', error);
+        }
+        
         // Exit process
         process.exit(0);
       });
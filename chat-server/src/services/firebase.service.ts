@@ -7,6 +7,51 @@ import admin from 'firebase-admin';
 import * as path from 'path';
 import { logger } from './logger.service';
 
+// Client message IDs become document IDs, so only allow safe ones
+const CLIENT_MESSAGE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export interface ThreadSummary {
+  replyCount: number;
+  lastReplyId: string;
+  lastReplySenderId: string;
+  lastReplyAt: Date;
+  // The root's sender and everyone who replied
+  participants: string[];
+}
+
+export interface SavedMessage {
+  messageId: string;
+  // Per-conversation sequence number, 0 if not persisted
+  seq: number;
+  // True if this client message ID was already saved
+  duplicate: boolean;
+  // Updated summary of the thread, for thread replies
+  thread?: ThreadSummary;
+}
+
+// Fields holding a message's encrypted content, replaced on edit and cleared on delete
+const CONTENT_FIELDS = ['text', 'nonce', 'senderText', 'senderNonce', 'keyVersion', 'senderDevice', 'envelopes'];
+
+// Each revision keeps a full encrypted copy, so cap them to stay within the document size limit
+const MAX_EDIT_HISTORY = 20;
+
+export interface MessageContent {
+  text?: string;
+  nonce?: string;
+  senderText?: string;
+  senderNonce?: string;
+  keyVersion?: number;
+  senderDevice?: string;
+  envelopes?: Record<string, any>;
+}
+
+export interface MessageRevision extends MessageContent {
+  // When this content was written
+  editedAt: string;
+}
+
+export type DeleteScope = 'me' | 'everyone';
+
 export class FirebaseService {
   private static instance: FirebaseService;
   private db: admin.firestore.Firestore | null = null;
@@ -110,27 +155,27 @@ export class FirebaseService {
   }
 
   /**
-   * Save message to Firestore
+   * Save message to Firestore with the conversation's next sequence number
+   * Saving is idempotent per client message ID, which becomes the document ID,
+   * so a retried send returns the message saved the first time. Thread replies
+   * (with a `threadId`) also update the root message's thread summary.
    */
-  public async saveMessage(conversationId: string, messageData: any): Promise<string> {
+  public async saveMessage(conversationId: string, messageData: any): Promise<SavedMessage> {
     // TEMP: Return mock message ID if Firebase is not initialized
     if (!this.db) {
-      const mockId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const mockId = messageData.clientMessageId || `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       logger.debug(`🔧 TEMP: Mock message saved: ${mockId} in conversation: ${conversationId}`);
-      return mockId;
+      return { messageId: mockId, seq: 0, duplicate: false };
     }
     
     try {
-      const messageRef = await this.db
-        .collection('conversations')
-        .doc(conversationId)
-        .collection('messages')
-        .add({
-          ...messageData,
-          timestamp: admin.firestore.FieldValue.serverTimestamp(),
-          delivered: [messageData.senderId],
-          read: []
-        });
+      const conversationRef = this.db.collection('conversations').doc(conversationId);
+      const messagesRef = conversationRef.collection('messages');
+      const clientMessageId = CLIENT_MESSAGE_ID_PATTERN.test(messageData.clientMessageId || '')
+        ? messageData.clientMessageId
+        : undefined;
+      const messageRef = clientMessageId ? messagesRef.doc(clientMessageId) : messagesRef.doc();
+      const rootRef = messageData.threadId ? messagesRef.doc(messageData.threadId) : null;
 
       // Extract members from conversation ID for direct messages
       let members: string[] = [];
@@ -141,32 +186,170 @@ export class FirebaseService {
         }
       }
 
-      // Update conversation's last message (use set with merge to create if doesn't exist)
-      const conversationUpdate: any = {
-        lastMessage: {
-          text: messageData.text || messageData.senderText,
-          senderId: messageData.senderId,
-          timestamp: admin.firestore.FieldValue.serverTimestamp()
-        },
-        updatedAt: admin.firestore.FieldValue.serverTimestamp()
-      };
+      const saved = await this.db.runTransaction(async (transaction) => {
+        const [conversationDoc, existingDoc, rootDoc] = await Promise.all([
+          transaction.get(conversationRef),
+          transaction.get(messageRef),
+          rootRef ? transaction.get(rootRef) : Promise.resolve(null)
+        ]);
 
-      // Add members and type if this is a new conversation
-      if (members.length > 0) {
-        conversationUpdate.members = members;
-        conversationUpdate.type = 'direct';
-        conversationUpdate.createdAt = admin.firestore.FieldValue.serverTimestamp();
-      }
+        // Retried send: keep the first copy and its sequence number
+        if (existingDoc.exists) {
+          return { messageId: messageRef.id, seq: existingDoc.get('seq') || 0, duplicate: true };
+        }
 
-      await this.db
+        // Threads are one level deep and start from a message that still exists
+        let thread: ThreadSummary | undefined;
+        if (rootRef) {
+          const root = rootDoc?.data();
+          if (!root || root.deleted || root.threadId) {
+            throw new Error('Thread not found');
+          }
+          const participants: string[] = root.threadSummary?.participants || [root.senderId];
+          thread = {
+            replyCount: (root.threadSummary?.replyCount || 0) + 1,
+            lastReplyId: messageRef.id,
+            lastReplySenderId: messageData.senderId,
+            lastReplyAt: new Date(),
+            participants: participants.includes(messageData.senderId)
+              ? participants
+              : [...participants, messageData.senderId]
+          };
+          transaction.update(rootRef, {
+            threadSummary: { ...thread, lastReplyAt: admin.firestore.FieldValue.serverTimestamp() }
+          });
+        }
+
+        const seq = (conversationDoc.get('lastSeq') || 0) + 1;
+        transaction.set(messageRef, {
+          ...messageData,
+          ...(clientMessageId ? { clientMessageId } : {}),
+          seq,
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+          delivered: [messageData.senderId],
+          read: []
+        });
+
+        // Update conversation's last message (use set with merge to create if doesn't exist)
+        const conversationUpdate: any = {
+          lastSeq: seq,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        };
+        // Thread replies stay out of the conversation preview
+        if (!thread) {
+          conversationUpdate.lastMessage = {
+            text: messageData.text || messageData.senderText,
+            senderId: messageData.senderId,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+            // Lets the sweeper clear the preview once the message is gone
+            ...(messageData.expiresAt ? { expiresAt: messageData.expiresAt } : {})
+          };
+        }
+
+        // Add members and type if this is a new conversation
+        if (members.length > 0) {
+          conversationUpdate.members = members;
+          conversationUpdate.type = 'direct';
+          conversationUpdate.createdAt = admin.firestore.FieldValue.serverTimestamp();
+        }
+
+        transaction.set(conversationRef, conversationUpdate, { merge: true });
+        return { messageId: messageRef.id, seq, duplicate: false, thread };
+      });
+
+      logger.debug(`💬 Message ${saved.duplicate ? 'already saved' : 'saved'}: ${saved.messageId} (seq ${saved.seq}) in conversation: ${conversationId}`);
+      return saved;
+    } catch (error) {
+      logger.error(`❌ Failed to save message to ${conversationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get messages with a sequence number above `since`, oldest first
+   */
+  public async getMessagesSince(conversationId: string, since: number, limit: number): Promise<any[]> {
+    // TEMP: Nothing to sync if Firebase is not initialized
+    if (!this.db) {
+      return [];
+    }
+
+    try {
+      const snapshot = await this.db
         .collection('conversations')
         .doc(conversationId)
-        .set(conversationUpdate, { merge: true });
+        .collection('messages')
+        .where('seq', '>', since)
+        .orderBy('seq')
+        .limit(limit)
+        .get();
 
-      logger.debug(`💬 Message saved: ${messageRef.id} in conversation: ${conversationId}`);
-      return messageRef.id;
+      return snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          conversationId,
+          timestamp: data.timestamp?.toDate?.() || new Date(),
+          ...(data.expiresAt ? { expiresAt: data.expiresAt.toDate() } : {}),
+          ...(data.deletedAt ? { deletedAt: data.deletedAt.toDate() } : {}),
+          ...(data.threadSummary ? {
+            threadSummary: { ...data.threadSummary, lastReplyAt: data.threadSummary.lastReplyAt?.toDate?.() || new Date() }
+          } : {})
+        };
+      });
     } catch (error) {
-      logger.error(`❌ Failed to save message to ${conversationId}:`, error);
+      logger.error(`❌ Failed to get messages since ${since} in ${conversationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the highest sequence number a user acknowledged in a conversation
+   */
+  public async getAckedSeq(conversationId: string, userId: string): Promise<number> {
+    // TEMP: Nothing acknowledged if Firebase is not initialized
+    if (!this.db) {
+      return 0;
+    }
+
+    const ackDoc = await this.db
+      .collection('conversations')
+      .doc(conversationId)
+      .collection('syncState')
+      .doc(userId)
+      .get();
+    return ackDoc.get('ackedSeq') || 0;
+  }
+
+  /**
+   * Record the highest sequence number a user received in a conversation
+   * Acks never move backwards, so late or reordered acks are harmless.
+   */
+  public async saveAck(conversationId: string, userId: string, seq: number): Promise<void> {
+    // TEMP: Skip if Firebase is not initialized
+    if (!this.db) {
+      return;
+    }
+
+    const ackRef = this.db
+      .collection('conversations')
+      .doc(conversationId)
+      .collection('syncState')
+      .doc(userId);
+
+    try {
+      await this.db.runTransaction(async (transaction) => {
+        const ackDoc = await transaction.get(ackRef);
+        if ((ackDoc.get('ackedSeq') || 0) >= seq) return;
+
+        transaction.set(ackRef, {
+          ackedSeq: seq,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        }, { merge: true });
+      });
+    } catch (error) {
+      logger.error(`❌ Failed to save ack for ${userId} in ${conversationId}:`, error);
       throw error;
     }
   }
@@ -305,6 +488,248 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Replace a message's content with an edit, keeping the previous content
+   * in its encrypted edit history
+   * @returns The number of earlier revisions
+   */
+  public async editMessage(
+    conversationId: string,
+    messageId: string,
+    editorId: string,
+    content: MessageContent,
+    editedAt: string
+  ): Promise<number> {
+    // TEMP: Skip if Firebase is not initialized
+    if (!this.db) {
+      logger.debug(`🔧 TEMP: Mock message edit for ${messageId}`);
+      return 0;
+    }
+
+    const messageRef = this.db
+      .collection('conversations')
+      .doc(conversationId)
+      .collection('messages')
+      .doc(messageId);
+
+    try {
+      const revisions = await this.db.runTransaction(async (transaction) => {
+        const messageDoc = await transaction.get(messageRef);
+        const data = messageDoc.data();
+        if (!data) {
+          throw new Error('Message not found');
+        }
+        if (data.senderId !== editorId) {
+          throw new Error('Only the sender can edit a message');
+        }
+        if (data.deleted) {
+          throw new Error('Message was deleted');
+        }
+
+        const history: MessageRevision[] = data.editHistory || [];
+        if (history.length >= MAX_EDIT_HISTORY) {
+          throw new Error('Message was edited too many times');
+        }
+
+        const previous: MessageRevision = {
+          editedAt: data.metadata?.editedAt || data.timestamp?.toDate?.().toISOString() || editedAt
+        };
+        const update: any = {
+          editHistory: [...history, previous],
+          'metadata.edited': true,
+          'metadata.editedAt': editedAt,
+          'metadata.editedBy': editorId
+        };
+        CONTENT_FIELDS.forEach(field => {
+          if (data[field] !== undefined) {
+            (previous as any)[field] = data[field];
+          }
+          const value = (content as any)[field];
+          update[field] = value !== undefined ? value : admin.firestore.FieldValue.delete();
+        });
+
+        transaction.update(messageRef, update);
+        return history.length + 1;
+      });
+
+      logger.info(`✅ Message ${messageId} edited (${revisions} earlier revisions)`);
+      return revisions;
+    } catch (error) {
+      logger.error(`❌ Failed to edit message ${messageId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a message for one user, or for everyone by leaving a tombstone
+   * that keeps its place and sequence number but none of its content
+   * @returns The message's media URL when deleted for everyone, so it can be removed
+   */
+  public async deleteMessage(
+    conversationId: string,
+    messageId: string,
+    userId: string,
+    scope: DeleteScope,
+    windowMs: number
+  ): Promise<string | undefined> {
+    // TEMP: Skip if Firebase is not initialized
+    if (!this.db) {
+      logger.debug(`🔧 TEMP: Mock message delete for ${messageId} (${scope})`);
+      return undefined;
+    }
+
+    const conversationRef = this.db.collection('conversations').doc(conversationId);
+    const messageRef = conversationRef.collection('messages').doc(messageId);
+
+    try {
+      const downloadUrl = await this.db.runTransaction(async (transaction) => {
+        const [conversationDoc, messageDoc] = await Promise.all([
+          transaction.get(conversationRef),
+          transaction.get(messageRef)
+        ]);
+        const data = messageDoc.data();
+        if (!data) {
+          throw new Error('Message not found');
+        }
+
+        if (scope === 'me') {
+          transaction.update(messageRef, {
+            hiddenFor: admin.firestore.FieldValue.arrayUnion(userId)
+          });
+          return undefined;
+        }
+
+        if (data.senderId !== userId) {
+          throw new Error('Only the sender can delete a message for everyone');
+        }
+        if (data.deleted) {
+          return undefined;
+        }
+        const sentAt = data.timestamp?.toMillis?.() || 0;
+        if (Date.now() - sentAt > windowMs) {
+          throw new Error('Too late to delete this message for everyone');
+        }
+
+        const tombstone: any = {
+          deleted: true,
+          deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+          deletedBy: userId,
+          editHistory: admin.firestore.FieldValue.delete(),
+          metadata: admin.firestore.FieldValue.delete(),
+          reactions: {}
+        };
+        CONTENT_FIELDS.forEach(field => {
+          tombstone[field] = admin.firestore.FieldValue.delete();
+        });
+        transaction.update(messageRef, tombstone);
+
+        // Don't leave the deleted content as the conversation preview
+        if (data.seq && !data.threadId && conversationDoc.get('lastSeq') === data.seq) {
+          transaction.update(conversationRef, {
+            'lastMessage.text': '',
+            'lastMessage.deleted': true
+          });
+        }
+
+        return data.metadata?.downloadUrl
+          || (['image', 'file', 'voice'].includes(data.type) ? data.text : undefined);
+      });
+
+      logger.info(`🗑️ Message ${messageId} deleted for ${scope === 'me' ? userId : 'everyone'}`);
+      return downloadUrl;
+    } catch (error) {
+      logger.error(`❌ Failed to delete message ${messageId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get messages whose disappearing-message timer has run out, oldest first
+   */
+  public async getExpiredMessages(limit: number): Promise<Array<{
+    conversationId: string;
+    messageId: string;
+    type: string;
+    text?: string;
+    metadata?: any;
+  }>> {
+    // TEMP: Nothing expires if Firebase is not initialized
+    if (!this.db) {
+      return [];
+    }
+
+    try {
+      const snapshot = await this.db
+        .collectionGroup('messages')
+        .where('expiresAt', '<=', admin.firestore.Timestamp.now())
+        .orderBy('expiresAt')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map(doc => ({
+        conversationId: doc.ref.parent.parent!.id,
+        messageId: doc.id,
+        type: doc.get('type'),
+        text: doc.get('text'),
+        metadata: doc.get('metadata')
+      }));
+    } catch (error) {
+      logger.error('❌ Failed to query expired messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete messages of a conversation
+   */
+  public async deleteMessages(conversationId: string, messageIds: string[]): Promise<void> {
+    // TEMP: Skip if Firebase is not initialized
+    if (!this.db) {
+      logger.debug(`🔧 TEMP: Mock delete of ${messageIds.length} messages`);
+      return;
+    }
+
+    try {
+      const batch = this.db.batch();
+      messageIds.forEach(messageId => {
+        batch.delete(this.db!
+          .collection('conversations')
+          .doc(conversationId)
+          .collection('messages')
+          .doc(messageId));
+      });
+      await batch.commit();
+      logger.debug(`🗑️ Deleted ${messageIds.length} messages from ${conversationId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to delete messages from ${conversationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove last-message previews of messages that have expired
+   */
+  public async clearExpiredLastMessages(): Promise<void> {
+    // TEMP: Skip if Firebase is not initialized
+    if (!this.db) {
+      return;
+    }
+
+    try {
+      const snapshot = await this.db
+        .collection('conversations')
+        .where('lastMessage.expiresAt', '<=', admin.firestore.Timestamp.now())
+        .get();
+
+      await Promise.all(snapshot.docs.map(doc => doc.ref.update({
+        lastMessage: admin.firestore.FieldValue.delete()
+      })));
+    } catch (error) {
+      logger.error('❌ Failed to clear expired last messages:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get Firestore instance
    */
@@ -0,0 +1,59 @@
+/**
+ * Media service for server-side cleanup of encrypted chat media
+ * Mirrors the client MediaService for the operations the server performs
+ */
+
+import admin from 'firebase-admin';
+import { logger } from './logger.service';
+
+export class MediaService {
+  private static instance: MediaService;
+
+  private constructor() {}
+
+  public static getInstance(): MediaService {
+    if (!MediaService.instance) {
+      MediaService.instance = new MediaService();
+    }
+    return MediaService.instance;
+  }
+
+  /**
+   * Delete a media file from storage by its download URL
+   */
+  public async deleteMedia(downloadUrl: string): Promise<void> {
+    const location = this.parseDownloadUrl(downloadUrl);
+    if (!location) {
+      logger.warn(`⚠️ Not a Firebase Storage URL, skipping delete: ${downloadUrl}`);
+      return;
+    }
+
+    try {
+      await admin.storage().bucket(location.bucket).file(location.path).delete({ ignoreNotFound: true });
+      logger.debug(`🗑️ Media file deleted from storage: ${location.path}`);
+    } catch (error) {
+      logger.error('❌ Failed to delete media file:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the bucket and object path from a download or gs:// URL
+   */
+  private parseDownloadUrl(downloadUrl: string): { bucket: string; path: string } | null {
+    const gsMatch = downloadUrl.match(/^gs:\/\/([^/]+)\/(.+)$/);
+    if (gsMatch) {
+      return { bucket: gsMatch[1], path: gsMatch[2] };
+    }
+
+    // https://firebasestorage.googleapis.com/v0/b/{bucket}/o/{encoded path}?alt=media&token=...
+    const httpMatch = downloadUrl.match(/\/v0\/b\/([^/]+)\/o\/([^?]+)/);
+    if (httpMatch) {
+      return { bucket: httpMatch[1], path: decodeURIComponent(httpMatch[2]) };
+    }
+
+    return null;
+  }
+}
+
+export const mediaService = MediaService.getInstance();
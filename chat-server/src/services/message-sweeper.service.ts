@@ -0,0 +1,115 @@
+/**
+ * Message sweeper for disappearing messages
+ * Periodically deletes expired messages and their media, and tells
+ * connected clients to purge their local copies
+ */
+
+import { Server } from 'socket.io';
+import { firebaseService } from './firebase.service';
+import { mediaService } from './media.service';
+import { logger } from './logger.service';
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.MESSAGE_SWEEP_INTERVAL_MS || '60000');
+const SWEEP_BATCH_SIZE = 200;
+const MEDIA_TYPES = ['image', 'file', 'voice', 'media'];
+
+export class MessageSweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private isSweeping = false;
+
+  constructor(private io: Server) {}
+
+  /**
+   * Start sweeping on an interval
+   */
+  public start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => logger.error('❌ Message sweep failed:', error));
+    }, SWEEP_INTERVAL_MS);
+    logger.info(`🧹 Message sweeper started (every ${SWEEP_INTERVAL_MS / 1000}s)`);
+  }
+
+  /**
+   * Stop sweeping
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Delete every message whose timer has run out, in batches
+   */
+  public async sweep(): Promise<void> {
+    // Skip if the previous sweep is still running
+    if (this.isSweeping) return;
+    this.isSweeping = true;
+
+    try {
+      let expired = await firebaseService.getExpiredMessages(SWEEP_BATCH_SIZE);
+
+      while (expired.length > 0) {
+        let deletedCount = 0;
+        const byConversation = new Map<string, typeof expired>();
+        expired.forEach(message => {
+          const messages = byConversation.get(message.conversationId) || [];
+          messages.push(message);
+          byConversation.set(message.conversationId, messages);
+        });
+
+        for (const [conversationId, messages] of byConversation) {
+          // Media goes first, so a failed delete leaves the message to retry next sweep
+          const deletable: string[] = [];
+          for (const message of messages) {
+            const downloadUrl = message.metadata?.downloadUrl
+              || (MEDIA_TYPES.includes(message.type) ? message.text : undefined);
+            try {
+              if (downloadUrl) {
+                await mediaService.deleteMedia(downloadUrl);
+              }
+              deletable.push(message.messageId);
+            } catch (error) {
+              logger.warn(`⚠️ Keeping expired message ${message.messageId} until its media is deleted`);
+            }
+          }
+
+          if (deletable.length === 0) continue;
+
+          await firebaseService.deleteMessages(conversationId, deletable);
+          deletedCount += deletable.length;
+          await this.notifyMembers(conversationId, deletable);
+          logger.info(`🧹 Deleted ${deletable.length} expired messages from ${conversationId}`);
+        }
+
+        // A batch of undeletable media would otherwise be fetched again forever
+        if (expired.length < SWEEP_BATCH_SIZE || deletedCount === 0) break;
+        expired = await firebaseService.getExpiredMessages(SWEEP_BATCH_SIZE);
+      }
+
+      await firebaseService.clearExpiredLastMessages();
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  /**
+   * Tell members' clients to drop the messages from their stores and caches
+   */
+  private async notifyMembers(conversationId: string, messageIds: string[]): Promise<void> {
+    const payload = { conversationId, messageIds };
+    this.io.to(`conversation:${conversationId}`).emit('message:expired', payload);
+
+    try {
+      const conversation = await firebaseService.getConversation(conversationId);
+      (conversation.members || []).forEach((memberId: string) => {
+        this.io.to(`user:${memberId}`).emit('message:expired', payload);
+      });
+    } catch (error) {
+      logger.warn(`⚠️ Could not notify members of ${conversationId} about expired messages`);
+    }
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * Presence store shared by all chat server nodes
+ * Tracks connections, typing and recording with expiry times, so state
+ * left behind by a node that died lapses on its own
+ */
+
+import { createClient } from 'redis';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+export type PresenceActivity = 'typing' | 'recording';
+
+// Connections not refreshed within this time are considered gone
+export const PRESENCE_TTL_MS = parseInt(process.env.PRESENCE_TTL_MS || '30000');
+
+export interface PresenceStore {
+  addConnection(userId: string, socketId: string): Promise<void>;
+  /**
+   * @returns True if it was the user's last connection on any node; only one
+   * node gets true for the same user going offline
+   */
+  removeConnection(userId: string, socketId: string): Promise<boolean>;
+  /** Extend the expiry of every connection on this node */
+  refreshConnections(): Promise<void>;
+  /**
+   * Remove users whose connections all lapsed, e.g. because their node died
+   * @returns The removed users; each one is returned to a single node
+   */
+  reapExpiredUsers(): Promise<string[]>;
+  getOnlineUsers(): Promise<string[]>;
+  getOnlineUsersCount(): Promise<number>;
+  isUserOnline(userId: string): Promise<boolean>;
+  setActivity(activity: PresenceActivity, conversationId: string, userId: string, ttlMs: number): Promise<void>;
+  clearActivity(activity: PresenceActivity, conversationId: string, userId: string): Promise<void>;
+  getActivity(activity: PresenceActivity, conversationId: string): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process presence store for a single node
+ */
+export class MemoryPresenceStore implements PresenceStore {
+  private connections = new Map<string, Map<string, number>>(); // userId -> socketId -> expiresAt
+  private activities = new Map<string, Map<string, number>>(); // activity:conversationId -> userId -> expiresAt
+
+  public async addConnection(userId: string, socketId: string): Promise<void> {
+    if (!this.connections.has(userId)) {
+      this.connections.set(userId, new Map());
+    }
+    this.connections.get(userId)!.set(socketId, Date.now() + PRESENCE_TTL_MS);
+  }
+
+  public async removeConnection(userId: string, socketId: string): Promise<boolean> {
+    const sockets = this.connections.get(userId);
+    if (!sockets) return false;
+
+    sockets.delete(socketId);
+    if (this.liveSockets(sockets) > 0) return false;
+
+    this.connections.delete(userId);
+    return true;
+  }
+
+  public async refreshConnections(): Promise<void> {
+    const expiresAt = Date.now() + PRESENCE_TTL_MS;
+    this.connections.forEach(sockets => {
+      sockets.forEach((_, socketId) => sockets.set(socketId, expiresAt));
+    });
+  }
+
+  public async reapExpiredUsers(): Promise<string[]> {
+    const expired: string[] = [];
+    this.connections.forEach((sockets, userId) => {
+      if (this.liveSockets(sockets) === 0) {
+        expired.push(userId);
+      }
+    });
+    expired.forEach(userId => this.connections.delete(userId));
+    return expired;
+  }
+
+  public async getOnlineUsers(): Promise<string[]> {
+    return Array.from(this.connections.entries())
+      .filter(([, sockets]) => this.liveSockets(sockets) > 0)
+      .map(([userId]) => userId);
+  }
+
+  public async getOnlineUsersCount(): Promise<number> {
+    return (await this.getOnlineUsers()).length;
+  }
+
+  public async isUserOnline(userId: string): Promise<boolean> {
+    const sockets = this.connections.get(userId);
+    return !!sockets && this.liveSockets(sockets) > 0;
+  }
+
+  public async setActivity(activity: PresenceActivity, conversationId: string, userId: string, ttlMs: number): Promise<void> {
+    const key = `${activity}:${conversationId}`;
+    if (!this.activities.has(key)) {
+      this.activities.set(key, new Map());
+    }
+    this.activities.get(key)!.set(userId, Date.now() + ttlMs);
+  }
+
+  public async clearActivity(activity: PresenceActivity, conversationId: string, userId: string): Promise<void> {
+    const key = `${activity}:${conversationId}`;
+    const users = this.activities.get(key);
+    if (!users) return;
+
+    users.delete(userId);
+    if (users.size === 0) {
+      this.activities.delete(key);
+    }
+  }
+
+  public async getActivity(activity: PresenceActivity, conversationId: string): Promise<string[]> {
+    const now = Date.now();
+    const users = this.activities.get(`${activity}:${conversationId}`);
+    return users
+      ? Array.from(users.entries()).filter(([, expiresAt]) => expiresAt > now).map(([userId]) => userId)
+      : [];
+  }
+
+  public async close(): Promise<void> {
+    this.connections.clear();
+    this.activities.clear();
+  }
+
+  private liveSockets(sockets: Map<string, number>): number {
+    const now = Date.now();
+    return Array.from(sockets.values()).filter(expiresAt => expiresAt > now).length;
+  }
+}
+
+/**
+ * Presence store in Redis, shared by all nodes
+ *
+ * Keys:
+ * - chat:presence:online                        zset userId -> expiresAt
+ * - chat:presence:connections:{userId}          zset nodeId/socketId -> expiresAt
+ * - chat:presence:{activity}:{conversationId}   zset userId -> expiresAt
+ */
+export class RedisPresenceStore implements PresenceStore {
+  private static readonly PREFIX = 'chat:presence';
+  private static readonly ONLINE_KEY = `${RedisPresenceStore.PREFIX}:online`;
+
+  // Connections of this node, refreshed on every heartbeat
+  private localConnections = new Map<string, string>(); // socketId -> userId
+
+  constructor(private client: RedisClient, private nodeId: string) {}
+
+  public async addConnection(userId: string, socketId: string): Promise<void> {
+    this.localConnections.set(socketId, userId);
+    await this.touchConnections([[socketId, userId]]);
+  }
+
+  public async removeConnection(userId: string, socketId: string): Promise<boolean> {
+    this.localConnections.delete(socketId);
+
+    const key = this.connectionsKey(userId);
+    await this.client.zRem(key, this.connectionMember(socketId));
+    return this.removeIfNoConnections(userId);
+  }
+
+  public async refreshConnections(): Promise<void> {
+    if (this.localConnections.size === 0) return;
+    await this.touchConnections(Array.from(this.localConnections.entries()));
+  }
+
+  public async reapExpiredUsers(): Promise<string[]> {
+    const candidates = await this.client.zRangeByScore(RedisPresenceStore.ONLINE_KEY, '-inf', Date.now());
+
+    const reaped: string[] = [];
+    for (const userId of candidates) {
+      if (await this.removeIfNoConnections(userId)) {
+        reaped.push(userId);
+      }
+    }
+    return reaped;
+  }
+
+  public async getOnlineUsers(): Promise<string[]> {
+    return this.client.zRangeByScore(RedisPresenceStore.ONLINE_KEY, Date.now(), '+inf');
+  }
+
+  public async getOnlineUsersCount(): Promise<number> {
+    return this.client.zCount(RedisPresenceStore.ONLINE_KEY, Date.now(), '+inf');
+  }
+
+  public async isUserOnline(userId: string): Promise<boolean> {
+    const expiresAt = await this.client.zScore(RedisPresenceStore.ONLINE_KEY, userId);
+    return expiresAt !== null && expiresAt > Date.now();
+  }
+
+  public async setActivity(activity: PresenceActivity, conversationId: string, userId: string, ttlMs: number): Promise<void> {
+    const key = this.activityKey(activity, conversationId);
+    await this.client
+      .multi()
+      .zAdd(key, { score: Date.now() + ttlMs, value: userId })
+      .pExpire(key, ttlMs)
+      .exec();
+  }
+
+  public async clearActivity(activity: PresenceActivity, conversationId: string, userId: string): Promise<void> {
+    await this.client.zRem(this.activityKey(activity, conversationId), userId);
+  }
+
+  public async getActivity(activity: PresenceActivity, conversationId: string): Promise<string[]> {
+    return this.client.zRangeByScore(this.activityKey(activity, conversationId), Date.now(), '+inf');
+  }
+
+  public async close(): Promise<void> {
+    // Drop this node's connections now rather than waiting for them to lapse
+    const connections = Array.from(this.localConnections.entries());
+    this.localConnections.clear();
+    for (const [socketId, userId] of connections) {
+      await this.client.zRem(this.connectionsKey(userId), this.connectionMember(socketId));
+    }
+  }
+
+  private async touchConnections(connections: Array<[string, string]>): Promise<void> {
+    const expiresAt = Date.now() + PRESENCE_TTL_MS;
+    const transaction = this.client.multi();
+    connections.forEach(([socketId, userId]) => {
+      const key = this.connectionsKey(userId);
+      transaction
+        .zAdd(key, { score: expiresAt, value: this.connectionMember(socketId) })
+        .pExpire(key, PRESENCE_TTL_MS)
+        .zAdd(RedisPresenceStore.ONLINE_KEY, { score: expiresAt, value: userId });
+    });
+    await transaction.exec();
+  }
+
+  /**
+   * Drop lapsed connections and take the user offline if none are left
+   * @returns True if this call took the user offline
+   */
+  private async removeIfNoConnections(userId: string): Promise<boolean> {
+    const key = this.connectionsKey(userId);
+    await this.client.zRemRangeByScore(key, '-inf', Date.now());
+    if (await this.client.zCard(key) > 0) {
+      return false;
+    }
+
+    // ZREM succeeds on one node only, so the user goes offline once
+    return (await this.client.zRem(RedisPresenceStore.ONLINE_KEY, userId)) === 1;
+  }
+
+  private connectionsKey(userId: string): string {
+    return `${RedisPresenceStore.PREFIX}:connections:${userId}`;
+  }
+
+  private connectionMember(socketId: string): string {
+    return `${this.nodeId}/${socketId}`;
+  }
+
+  private activityKey(activity: PresenceActivity, conversationId: string): string {
+    return `${RedisPresenceStore.PREFIX}:${activity}:${conversationId}`;
+  }
+}
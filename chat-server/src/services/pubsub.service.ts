@@ -0,0 +1,107 @@
+/**
+ * Pub/sub adapters for running one or more chat server nodes
+ * The in-memory adapter serves a single node; the Redis adapter relays room
+ * broadcasts between nodes and shares presence through Redis
+ */
+
+import os from 'os';
+import { Server } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createClient } from 'redis';
+import {
+  PresenceStore,
+  MemoryPresenceStore,
+  RedisPresenceStore,
+  RedisClient
+} from './presence-store.service';
+import { logger } from './logger.service';
+
+export interface PubSubAdapter {
+  readonly kind: 'memory' | 'redis';
+  readonly nodeId: string;
+  readonly presence: PresenceStore;
+  /** Route the Socket.io server's broadcasts through this adapter */
+  attach(io: Server): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Single node: Socket.io's default adapter and in-process presence
+ */
+export class MemoryPubSubAdapter implements PubSubAdapter {
+  public readonly kind = 'memory' as const;
+  public readonly presence: PresenceStore = new MemoryPresenceStore();
+
+  constructor(public readonly nodeId: string) {}
+
+  public attach(): void {
+    // Socket.io's default in-memory adapter already covers a single node
+  }
+
+  public async close(): Promise<void> {
+    await this.presence.close();
+  }
+}
+
+/**
+ * Any number of nodes sharing a Redis server (or anything speaking its protocol)
+ */
+export class RedisPubSubAdapter implements PubSubAdapter {
+  public readonly kind = 'redis' as const;
+  public readonly presence: PresenceStore;
+
+  private constructor(
+    public readonly nodeId: string,
+    private pubClient: RedisClient,
+    private subClient: RedisClient
+  ) {
+    this.presence = new RedisPresenceStore(pubClient, nodeId);
+  }
+
+  public static async connect(redisUrl: string, nodeId: string): Promise<RedisPubSubAdapter> {
+    const pubClient = createClient({ url: redisUrl });
+    const subClient = pubClient.duplicate();
+
+    pubClient.on('error', (error) => logger.error('❌ Redis pub client error:', error));
+    subClient.on('error', (error) => logger.error('❌ Redis sub client error:', error));
+
+    try {
+      await Promise.all([pubClient.connect(), subClient.connect()]);
+    } catch (error) {
+      // Stop the clients from reconnecting in the background
+      await Promise.allSettled([pubClient.disconnect(), subClient.disconnect()]);
+      throw error;
+    }
+    return new RedisPubSubAdapter(nodeId, pubClient, subClient);
+  }
+
+  public attach(io: Server): void {
+    io.adapter(createAdapter(this.pubClient, this.subClient));
+  }
+
+  public async close(): Promise<void> {
+    await this.presence.close();
+    await Promise.all([this.pubClient.quit(), this.subClient.quit()]);
+  }
+}
+
+/**
+ * Create the Redis adapter when a Redis URL is given, falling back to the
+ * in-memory adapter if Redis cannot be reached
+ */
+export async function createPubSubAdapter(redisUrl?: string): Promise<PubSubAdapter> {
+  const nodeId = process.env.CHAT_NODE_ID || `${os.hostname()}-${process.pid}`;
+
+  if (redisUrl) {
+    try {
+      const adapter = await RedisPubSubAdapter.connect(redisUrl, nodeId);
+      logger.info(`🔴 Redis pub/sub adapter connected (node ${nodeId})`);
+      return adapter;
+    } catch (error) {
+      logger.warn('⚠️ Redis connection failed, using in-memory pub/sub adapter:', error);
+    }
+  }
+
+  logger.info('💾 Using in-memory pub/sub adapter (single instance mode)');
+  return new MemoryPubSubAdapter(nodeId);
+}
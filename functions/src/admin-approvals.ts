@@ -0,0 +1,582 @@
+/**
+ * Firebase Cloud Functions for maker-checker approvals
+ * Exchange rate and rate model changes, tier overrides, balance adjustments,
+ * giftcard code batches and catalog imports are proposed by one admin and applied here only
+ * after another admin with the same permission approves them. Every step is
+ * recorded in admin-actions.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { isTierName, TierName } from './utils/tier-rules';
+import { toHttpsError } from './utils/errors';
+import { AdminPermission, requirePermission } from './utils/admin-roles';
+import { changedSinceProposal, ApprovedChange, DiffLine } from './utils/approvals';
+import { normalizeRateModel, RateModelConfig, validateRateModel } from './utils/rate-models';
+import { applyExchangeRate } from './pxl-currency';
+import { activeModel, applyRateModel } from './rate-engine';
+import { applyTierOverride } from './tier-engine';
+import { applyBalanceAdjustment } from './ledger';
+import { prepareGiftcardCodes, stockGiftcardCodes, PreparedCode } from './giftcard-vault';
+import { isReceivable, outstandingQuantity, PurchaseOrder, PURCHASE_ORDERS } from './utils/purchase-orders';
+import { CATALOG_IMPORTS } from './utils/catalog-import';
+import { describeCatalogImport, queueCatalogImport } from './catalog-import';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const ADMIN_APPROVALS = 'admin-approvals';
+// Proposed payloads may hold sealed codes, so they live apart from the listed proposals
+const ADMIN_APPROVAL_PAYLOADS = 'admin-approval-payloads';
+
+const DEFAULT_EXPIRY_HOURS = 24;
+const MAX_EXPIRY_HOURS = 7 * 24;
+const BATCH_SIZE = 400;
+// Code hints shown in a giftcard batch diff
+const MAX_DIFF_HINTS = 5;
+
+export type AdminChangeType = 'exchange-rate' | 'rate-model' | 'tier-override' | 'balance-adjustment' | 'giftcard-codes' | 'catalog-import';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'failed';
+
+interface ChangeHandler<P> {
+  // Needed both to propose and to approve
+  permission: AdminPermission;
+  // Validate a proposed payload into what is stored
+  parse(payload: unknown): P;
+  // Document the change targets and its live values against the proposed ones
+  describe(payload: P): Promise<{ target: string; diff: DiffLine[] }>;
+  // Refuse approval when the live values moved since the proposal
+  checkStale: boolean;
+  apply(payload: P, reason: string, approval: ApprovedChange): Promise<{ actionId: string; result: Record<string, unknown> }>;
+}
+
+interface ExchangeRatePayload {
+  newRate: number;
+}
+
+interface RateModelPayload {
+  model: RateModelConfig;
+}
+
+interface TierOverridePayload {
+  userId: string;
+  tier: TierName | null;
+  expiresAt: number | null;
+}
+
+interface BalanceAdjustmentPayload {
+  userId: string;
+  amount: number;
+}
+
+interface GiftcardCodesPayload {
+  productId: string;
+  denomination: number;
+  codes: PreparedCode[];
+  // Receive the batch against this purchase order's line
+  purchaseOrderId: string | null;
+}
+
+interface CatalogImportPayload {
+  jobId: string;
+}
+
+interface ChangePayloads {
+  'exchange-rate': ExchangeRatePayload;
+  'rate-model': RateModelPayload;
+  'tier-override': TierOverridePayload;
+  'balance-adjustment': BalanceAdjustmentPayload;
+  'giftcard-codes': GiftcardCodesPayload;
+  'catalog-import': CatalogImportPayload;
+}
+
+type AnyChangeHandler = ChangeHandler<ChangePayloads[AdminChangeType]>;
+
+/**
+ * Proposed payloads come from the client; read them as objects, empty when they are not
+ */
+function payloadFields(payload: unknown): Record<string, unknown> {
+  return typeof payload === 'object' && payload !== null && !Array.isArray(payload)
+    ? payload as Record<string, unknown>
+    : {};
+}
+
+function requireString(value: unknown, message: string): string {
+  if (typeof value !== 'string' || !value) {
+    throw new functions.https.HttpsError('invalid-argument', message);
+  }
+  return value;
+}
+
+async function getUserData(userId: string): Promise<admin.firestore.DocumentData> {
+  const userDoc = await db.collection('users').doc(userId).get();
+  if (!userDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'User not found');
+  }
+  return userDoc.data()!;
+}
+
+function describeOverride(override: { tier: string; expiresAt: admin.firestore.Timestamp } | null | undefined): string | null {
+  return override ? `${override.tier} until ${override.expiresAt.toDate().toISOString()}` : null;
+}
+
+const exchangeRateChange: ChangeHandler<ExchangeRatePayload> = {
+  permission: 'finance:write',
+  checkStale: true,
+  parse(payload) {
+    const newRate = Number(payloadFields(payload).newRate);
+    if (!Number.isFinite(newRate) || newRate <= 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'Invalid exchange rate');
+    }
+    return { newRate };
+  },
+  // Diffed against the rate the model is anchored on; currentRate moves with every
+  // rate engine run, so a stale check on it would refuse almost every approval
+  async describe({ newRate }) {
+    const currencyDoc = await db.collection('pxl-currency').doc('main').get();
+    if (!currencyDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Currency data not found');
+    }
+    return {
+      target: 'pxl-currency/main',
+      diff: [{ field: 'rateModel.baseRate', from: activeModel(currencyDoc.data()!).baseRate ?? null, to: newRate }],
+    };
+  },
+  async apply({ newRate }, reason, approval) {
+    const { actionId, ...result } = await applyExchangeRate(newRate, reason, approval);
+    return { actionId, result };
+  },
+};
+
+// Every model parameter, so the diff lines (and the stale check) line up whatever the model type
+const RATE_MODEL_FIELDS: Array<[string, (model: RateModelConfig) => string | number | undefined]> = [
+  ['type', model => model.type],
+  ['baseRate', model => model.baseRate],
+  ['maxStepPercent', model => model.maxStepPercent],
+  ['bandPercent', model => model.bandPercent],
+  ['circuitBreaker.maxMovePercent', model => model.circuitBreaker.maxMovePercent],
+  ['circuitBreaker.windowHours', model => model.circuitBreaker.windowHours],
+  ['circuitBreaker.haltMinutes', model => model.circuitBreaker.haltMinutes],
+  ['sensitivityPercent', model => model.sensitivityPercent],
+  ['windowHours', model => model.windowHours],
+  ['targetRate', model => model.targetRate],
+  ['driftPercentPerRun', model => model.driftPercentPerRun],
+];
+
+const rateModelChange: ChangeHandler<RateModelPayload> = {
+  permission: 'finance:write',
+  checkStale: true,
+  parse(payload) {
+    const model = payloadFields(payload).model as Partial<RateModelConfig> | undefined;
+    const errors = validateRateModel(model);
+    if (errors.length > 0) {
+      throw new functions.https.HttpsError('invalid-argument', errors.join('; '));
+    }
+    return { model: normalizeRateModel(model as RateModelConfig) };
+  },
+  async describe({ model }) {
+    const currencyDoc = await db.collection('pxl-currency').doc('main').get();
+    if (!currencyDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Currency data not found');
+    }
+    const live = activeModel(currencyDoc.data()!);
+    return {
+      target: 'pxl-currency/main',
+      diff: RATE_MODEL_FIELDS.map(([field, read]) => ({
+        field: `rateModel.${field}`,
+        from: read(live) ?? null,
+        to: read(model) ?? null,
+      })),
+    };
+  },
+  async apply({ model }, reason, approval) {
+    const { actionId, ...result } = await applyRateModel(model, reason, approval);
+    return { actionId, result };
+  },
+};
+
+const tierOverrideChange: ChangeHandler<TierOverridePayload> = {
+  permission: 'users:write',
+  checkStale: true,
+  parse(payload) {
+    const fields = payloadFields(payload);
+    const userId = requireString(fields.userId, 'User ID is required');
+    const tier = fields.tier ?? null;
+    const { expiresAt } = fields;
+
+    if (tier === null) {
+      return { userId, tier, expiresAt: null };
+    }
+
+    if (!isTierName(tier)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Invalid tier');
+    }
+
+    if (typeof expiresAt !== 'number' || expiresAt <= Date.now()) {
+      throw new functions.https.HttpsError('invalid-argument', 'Override expiry must be in the future');
+    }
+
+    return { userId, tier, expiresAt };
+  },
+  async describe({ userId, tier, expiresAt }) {
+    const user = await getUserData(userId);
+    return {
+      target: `users/${userId}`,
+      diff: [{
+        field: 'tier.override',
+        from: describeOverride(user.tier?.override),
+        to: tier === null ? null : describeOverride({ tier, expiresAt: admin.firestore.Timestamp.fromMillis(expiresAt!) }),
+      }],
+    };
+  },
+  async apply({ userId, tier, expiresAt }, reason, approval) {
+    const { actionId, evaluation } = await applyTierOverride(userId, tier, expiresAt, reason, approval);
+    return { actionId, result: { tier: evaluation.tier, changed: evaluation.changed } };
+  },
+};
+
+const balanceAdjustmentChange: ChangeHandler<BalanceAdjustmentPayload> = {
+  permission: 'finance:write',
+  // Balances move all the time; the adjustment is a delta, not a new value
+  checkStale: false,
+  parse(payload) {
+    const fields = payloadFields(payload);
+    const userId = requireString(fields.userId, 'User ID is required');
+    const amount = Number(fields.amount);
+    if (!Number.isFinite(amount) || amount === 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'Invalid adjustment amount');
+    }
+    return { userId, amount };
+  },
+  async describe({ userId, amount }) {
+    const balance = (await getUserData(userId)).wallets?.pxl?.balance || 0;
+    return {
+      target: `users/${userId}`,
+      diff: [{ field: 'wallets.pxl.balance', from: balance, to: balance + amount }],
+    };
+  },
+  async apply({ userId, amount }, reason, approval) {
+    const { actionId, ...result } = await applyBalanceAdjustment(userId, amount, reason, approval);
+    return { actionId, result };
+  },
+};
+
+const giftcardCodesChange: ChangeHandler<GiftcardCodesPayload> = {
+  permission: 'catalog:write',
+  // Stock moves with every sale; the batch only ever adds to it
+  checkStale: false,
+  parse(payload) {
+    const fields = payloadFields(payload);
+    const productId = requireString(fields.productId, 'Product and denomination are required');
+    const denomination = Number(fields.denomination);
+    if (!Number.isFinite(denomination) || denomination <= 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'Product and denomination are required');
+    }
+    const purchaseOrderId = fields.purchaseOrderId
+      ? requireString(fields.purchaseOrderId, 'Invalid purchase order ID')
+      : null;
+    return { productId, denomination, codes: prepareGiftcardCodes(fields.codes), purchaseOrderId };
+  },
+  async describe({ productId, denomination, codes, purchaseOrderId }) {
+    const productDoc = await db.collection('products').doc(productId).get();
+    const denominations: Array<{ value: number; stock: number }> = productDoc.data()?.denominations || [];
+    const target = denominations.find(d => d.value === denomination);
+
+    if (!productDoc.exists || !target) {
+      throw new functions.https.HttpsError('not-found', 'Product denomination not found');
+    }
+
+    const hints = codes.slice(0, MAX_DIFF_HINTS).map(code => code.hint).join(', ');
+    const diff: DiffLine[] = [
+      { field: `denominations.${denomination}.stock`, from: target.stock || 0, to: (target.stock || 0) + codes.length },
+      { field: 'codes', from: null, to: codes.length > MAX_DIFF_HINTS ? `${hints} and ${codes.length - MAX_DIFF_HINTS} more` : hints },
+    ];
+
+    if (purchaseOrderId) {
+      const orderDoc = await db.collection(PURCHASE_ORDERS).doc(purchaseOrderId).get();
+      const order = orderDoc.data() as PurchaseOrder | undefined;
+      const outstanding = order ? outstandingQuantity(order, productId, denomination) : null;
+
+      if (!order || outstanding === null) {
+        throw new functions.https.HttpsError('not-found', 'Purchase order line not found');
+      }
+      if (!isReceivable(order)) {
+        throw new functions.https.HttpsError('failed-precondition', `Purchase order is ${order.status}`);
+      }
+      if (codes.length > outstanding) {
+        throw new functions.https.HttpsError('invalid-argument', `Only ${outstanding} codes are outstanding on this line`);
+      }
+
+      diff.push({ field: `purchase-orders/${purchaseOrderId} outstanding`, from: outstanding, to: outstanding - codes.length });
+    }
+
+    return { target: `products/${productId}`, diff };
+  },
+  async apply({ productId, denomination, codes, purchaseOrderId }, _reason, approval) {
+    const { actionId, ...result } = await stockGiftcardCodes(productId, denomination, codes, approval, purchaseOrderId ?? null);
+    return { actionId, result };
+  },
+};
+
+const catalogImportChange: ChangeHandler<CatalogImportPayload> = {
+  permission: 'catalog:write',
+  // The import is checked against the catalog again when it is applied
+  checkStale: false,
+  parse(payload) {
+    return { jobId: requireString(payloadFields(payload).jobId, 'Import ID is required') };
+  },
+  async describe({ jobId }) {
+    const { fileName, summary } = await describeCatalogImport(jobId);
+    return {
+      target: `${CATALOG_IMPORTS}/${jobId}`,
+      diff: [
+        { field: 'file', from: null, to: fileName },
+        { field: 'products', from: null, to: summary.products },
+        { field: 'codes', from: null, to: summary.codes },
+      ],
+    };
+  },
+  async apply({ jobId }, _reason, approval) {
+    const { actionId, ...result } = await queueCatalogImport(jobId, approval);
+    return { actionId, result };
+  },
+};
+
+const CHANGE_HANDLERS: { [T in AdminChangeType]: ChangeHandler<ChangePayloads[T]> } = {
+  'exchange-rate': exchangeRateChange,
+  'rate-model': rateModelChange,
+  'tier-override': tierOverrideChange,
+  'balance-adjustment': balanceAdjustmentChange,
+  'giftcard-codes': giftcardCodesChange,
+  'catalog-import': catalogImportChange,
+};
+
+function handlerFor(type: unknown): AnyChangeHandler {
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(CHANGE_HANDLERS, type)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Unknown change type');
+  }
+  return CHANGE_HANDLERS[type as AdminChangeType];
+}
+
+async function logApprovalAction(
+  type: string,
+  adminId: string,
+  approvalId: string,
+  fields: Record<string, unknown>
+): Promise<string> {
+  const action = await db.collection('admin-actions').add({
+    type,
+    adminId,
+    approvalId,
+    ...fields,
+    timestamp: admin.firestore.Timestamp.now(),
+  });
+  return action.id;
+}
+
+/**
+ * Propose a sensitive change for another admin to approve
+ * Nothing is applied until reviewAdminChange approves it before it expires.
+ */
+export const proposeAdminChange = functions.https.onCall(async (data, context) => {
+  const handler = handlerFor(data?.type);
+  const proposedBy = requirePermission(context, handler.permission);
+  const { type, reason } = data;
+
+  if (!reason) {
+    throw new functions.https.HttpsError('invalid-argument', 'A reason is required');
+  }
+
+  const expiresInHours = Number(data.expiresInHours ?? DEFAULT_EXPIRY_HOURS);
+  if (!Number.isFinite(expiresInHours) || expiresInHours <= 0 || expiresInHours > MAX_EXPIRY_HOURS) {
+    throw new functions.https.HttpsError('invalid-argument', `Expiry must be between 1 and ${MAX_EXPIRY_HOURS} hours`);
+  }
+
+  try {
+    const payload = handler.parse(data.payload);
+    const { target, diff } = await handler.describe(payload);
+    const approvalRef = db.collection(ADMIN_APPROVALS).doc();
+    const now = admin.firestore.Timestamp.now();
+    const expiresAt = admin.firestore.Timestamp.fromMillis(now.toMillis() + expiresInHours * 60 * 60 * 1000);
+    const trimmedReason = String(reason).slice(0, 200);
+
+    const actionId = await logApprovalAction('admin_change_proposed', proposedBy, approvalRef.id, {
+      changeType: type,
+      target,
+      reason: trimmedReason,
+    });
+
+    const batch = db.batch();
+    batch.set(approvalRef, {
+      type,
+      permission: handler.permission,
+      target,
+      diff,
+      reason: trimmedReason,
+      status: 'pending' as ApprovalStatus,
+      proposedBy,
+      proposedByEmail: context.auth!.token.email || null,
+      proposedAt: now,
+      expiresAt,
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewNote: null,
+      result: null,
+      error: null,
+      auditActionIds: [actionId],
+    });
+    batch.set(db.collection(ADMIN_APPROVAL_PAYLOADS).doc(approvalRef.id), { type, payload });
+    await batch.commit();
+
+    return { approvalId: approvalRef.id, status: 'pending', target, diff, expiresAt: expiresAt.toMillis() };
+  } catch (error) {
+    console.error('Error proposing admin change:', error);
+    throw toHttpsError(error, 'Failed to propose change');
+  }
+});
+
+/**
+ * Approve or reject a pending change
+ * Approvals need a different admin with the change's permission and apply the
+ * change immediately; proposers may only reject (withdraw) their own proposals.
+ */
+export const reviewAdminChange = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const approvalId = requireString(data?.approvalId, 'Approval ID is required');
+  const { decision, note } = data;
+
+  if (decision !== 'approve' && decision !== 'reject') {
+    throw new functions.https.HttpsError('invalid-argument', 'Decision must be approve or reject');
+  }
+
+  const approvalRef = db.collection(ADMIN_APPROVALS).doc(approvalId);
+
+  try {
+    const now = admin.firestore.Timestamp.now();
+
+    // Claim the proposal so it can only ever be decided (and applied) once
+    const claimed = await db.runTransaction(async (transaction) => {
+      const approvalDoc = await transaction.get(approvalRef);
+      if (!approvalDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Approval not found');
+      }
+
+      const approval = approvalDoc.data()!;
+      const handler = handlerFor(approval.type);
+      const reviewerId = requirePermission(context, handler.permission);
+
+      if (approval.status !== 'pending') {
+        throw new functions.https.HttpsError('failed-precondition', `Change is already ${approval.status}`);
+      }
+
+      if (decision === 'approve' && reviewerId === approval.proposedBy) {
+        throw new functions.https.HttpsError('permission-denied', 'Changes must be approved by a different admin');
+      }
+
+      if (approval.expiresAt.toMillis() <= now.toMillis()) {
+        transaction.update(approvalRef, { status: 'expired' as ApprovalStatus });
+        return { expired: true, approval, handler, reviewerId };
+      }
+
+      transaction.update(approvalRef, {
+        status: (decision === 'approve' ? 'approved' : 'rejected') as ApprovalStatus,
+        reviewedBy: reviewerId,
+        reviewedAt: now,
+        reviewNote: note ? String(note).slice(0, 200) : null,
+      });
+      return { expired: false, approval, handler, reviewerId };
+    });
+
+    if (claimed.expired) {
+      throw new functions.https.HttpsError('failed-precondition', 'Change has expired');
+    }
+
+    const { approval, handler, reviewerId } = claimed;
+    const decisionActionId = await logApprovalAction(
+      decision === 'approve' ? 'admin_change_approved' : 'admin_change_rejected',
+      reviewerId,
+      approvalId,
+      { changeType: approval.type, target: approval.target, proposedBy: approval.proposedBy, note: note || null }
+    );
+
+    if (decision === 'reject') {
+      await approvalRef.update({ auditActionIds: admin.firestore.FieldValue.arrayUnion(decisionActionId) });
+      return { approvalId, status: 'rejected' };
+    }
+
+    try {
+      const payloadDoc = await db.collection(ADMIN_APPROVAL_PAYLOADS).doc(approvalId).get();
+      const payload = payloadDoc.data()?.payload;
+
+      if (handler.checkStale) {
+        const { diff } = await handler.describe(payload);
+        if (changedSinceProposal(approval.diff, diff)) {
+          throw new functions.https.HttpsError('failed-precondition', 'The current value changed since this was proposed');
+        }
+      }
+
+      const applied = await handler.apply(payload, approval.reason, {
+        approvalId,
+        proposedBy: approval.proposedBy,
+        approvedBy: reviewerId,
+      });
+
+      await approvalRef.update({
+        result: applied.result,
+        auditActionIds: admin.firestore.FieldValue.arrayUnion(decisionActionId, applied.actionId),
+      });
+
+      return { approvalId, status: 'approved', result: applied.result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to apply change';
+      const failedActionId = await logApprovalAction('admin_change_failed', reviewerId, approvalId, {
+        changeType: approval.type,
+        target: approval.target,
+        error: message,
+      });
+      await approvalRef.update({
+        status: 'failed' as ApprovalStatus,
+        error: message,
+        auditActionIds: admin.firestore.FieldValue.arrayUnion(decisionActionId, failedActionId),
+      });
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error reviewing admin change:', error);
+    throw toHttpsError(error, 'Failed to review change');
+  }
+});
+
+/**
+ * Scheduled job that expires proposals nobody reviewed in time
+ */
+export const expireAdminChanges = functions.pubsub
+  .schedule('every 1 hours')
+  .onRun(async () => {
+    try {
+      const now = admin.firestore.Timestamp.now();
+      const snapshot = await db.collection(ADMIN_APPROVALS)
+        .where('status', '==', 'pending')
+        .where('expiresAt', '<=', now)
+        .limit(BATCH_SIZE)
+        .get();
+
+      const batch = db.batch();
+      snapshot.docs.forEach((doc) => {
+        batch.update(doc.ref, { status: 'expired' as ApprovalStatus });
+      });
+      await batch.commit();
+
+      console.log(`Expired ${snapshot.size} admin change proposals`);
+    } catch (error) {
+      console.error('Error expiring admin changes:', error);
+    }
+  });
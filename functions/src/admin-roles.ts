@@ -0,0 +1,143 @@
+/**
+ * Firebase Cloud Functions for admin role assignment
+ * Roles are custom claims, so only these functions can grant them. Every
+ * change is mirrored to admin-users for listing and recorded in admin-actions.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { adminRoleOf, isAdminRole, requirePermission, AdminRole } from './utils/admin-roles';
+import { toHttpsError } from './utils/errors';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const ADMIN_USERS = 'admin-users';
+
+function bootstrapEmails(): string[] {
+  return (process.env.SUPER_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Set or clear a user's admin role claim and mirror it to admin-users
+ * Returns the previous role
+ */
+async function applyAdminRole(userId: string, role: AdminRole | null, changedBy: string): Promise<AdminRole | null> {
+  const user = await admin.auth().getUser(userId);
+  const claims = { ...(user.customClaims || {}) };
+  const previous = isAdminRole(claims.adminRole) ? claims.adminRole : null;
+
+  if (role) {
+    claims.adminRole = role;
+  } else {
+    delete claims.adminRole;
+  }
+
+  await admin.auth().setCustomUserClaims(userId, claims);
+
+  const mirrorRef = db.collection(ADMIN_USERS).doc(userId);
+  if (role) {
+    await mirrorRef.set({
+      email: user.email || null,
+      role,
+      updatedBy: changedBy,
+      updatedAt: admin.firestore.Timestamp.now(),
+    }, { merge: true });
+  } else {
+    await mirrorRef.delete();
+  }
+
+  return previous;
+}
+
+/**
+ * Assign, change or remove a user's admin role (roles:manage)
+ * Admins cannot change their own role, so the last super-admin cannot lock everyone out.
+ * The user's refresh tokens are revoked, so they sign in again under the new role.
+ */
+export const setAdminRole = functions.https.onCall(async (data, context) => {
+  const adminId = requirePermission(context, 'roles:manage');
+  const { userId, role, reason } = data || {};
+
+  if (typeof userId !== 'string' || !userId) {
+    throw new functions.https.HttpsError('invalid-argument', 'User ID is required');
+  }
+
+  if (role !== null && !isAdminRole(role)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid role');
+  }
+
+  if (!reason) {
+    throw new functions.https.HttpsError('invalid-argument', 'A reason is required');
+  }
+
+  if (userId === adminId) {
+    throw new functions.https.HttpsError('failed-precondition', 'Admins cannot change their own role');
+  }
+
+  try {
+    const previous = await applyAdminRole(userId, role, adminId);
+    // Sessions keep the old claim until their token refreshes; end them now
+    await admin.auth().revokeRefreshTokens(userId);
+
+    await db.collection('admin-actions').add({
+      type: 'admin_role_changed',
+      adminId,
+      userId,
+      fromRole: previous,
+      toRole: role,
+      reason: String(reason).slice(0, 200),
+      timestamp: admin.firestore.Timestamp.now(),
+    });
+
+    return { userId, role, previousRole: previous };
+  } catch (error) {
+    console.error('Error setting admin role:', error);
+    throw toHttpsError(error, 'Failed to set admin role');
+  }
+});
+
+/**
+ * Grant super-admin to the caller if their verified email is listed in SUPER_ADMIN_EMAILS
+ * Used once to set up the first admin; everyone else is assigned a role by setAdminRole
+ */
+export const claimSuperAdmin = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const email = String(context.auth.token.email || '').toLowerCase();
+
+  if (!email || !context.auth.token.email_verified || !bootstrapEmails().includes(email)) {
+    throw new functions.https.HttpsError('permission-denied', 'This account cannot claim super-admin');
+  }
+
+  if (adminRoleOf(context) === 'super-admin') {
+    return { role: 'super-admin', duplicate: true };
+  }
+
+  try {
+    const previous = await applyAdminRole(context.auth.uid, 'super-admin', context.auth.uid);
+
+    await db.collection('admin-actions').add({
+      type: 'admin_role_bootstrapped',
+      adminId: context.auth.uid,
+      userId: context.auth.uid,
+      fromRole: previous,
+      toRole: 'super-admin',
+      timestamp: admin.firestore.Timestamp.now(),
+    });
+
+    return { role: 'super-admin', duplicate: false };
+  } catch (error) {
+    console.error('Error claiming super-admin:', error);
+    throw toHttpsError(error, 'Failed to claim super-admin');
+  }
+});
@@ -0,0 +1,341 @@
+/**
+ * Firebase Cloud Functions for cashback accrual
+ * Cashback is held in a pending state for a per-tier hold period before it
+ * vests into the wallet, and is clawed back when its order is refunded or
+ * charged back.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  entryIdForKey,
+  postJournalEntries,
+  userAccountId,
+  JournalEntryInput,
+  SYSTEM_ACCOUNTS,
+} from './utils/ledger';
+import { notifyUser } from './utils/notifications';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+// One document per cashback award, keyed by its accrual ledger entry ID
+export const CASHBACK_ACCRUALS = 'cashback-accruals';
+
+export type CashbackStatus = 'pending' | 'vested' | 'clawed-back';
+
+// Used when pxl-currency/main has no cashbackHoldDays for a tier
+export const DEFAULT_CASHBACK_HOLD_DAYS: Record<string, number> = {
+  starter: 30,
+  rising: 21,
+  pro: 14,
+  pixlbeast: 7,
+  pixlionaire: 7,
+};
+
+const VEST_BATCH_SIZE = 200;
+
+// Order statuses that take back the cashback they earned
+const REVERSED_ORDER_STATUSES = ['refunded', 'charged-back'];
+
+export interface CashbackAccrualInput {
+  userId: string;
+  amount: number;
+  tier: string;
+  holdDays: number;
+  // Order or purchase key the cashback was earned on
+  sourceKey: string;
+  orderId?: string | null;
+  relatedTransactionId: string;
+  exchangeRate: number;
+}
+
+/**
+ * Hold period for a tier from the pxl-currency/main document
+ */
+export function cashbackHoldDays(currencyData: admin.firestore.DocumentData | undefined, tier: string): number {
+  const configured = currencyData?.cashbackHoldDays?.[tier];
+  if (typeof configured === 'number' && configured >= 0) {
+    return configured;
+  }
+  return DEFAULT_CASHBACK_HOLD_DAYS[tier] ?? DEFAULT_CASHBACK_HOLD_DAYS.starter;
+}
+
+/**
+ * Journal entry that moves cashback into the pending account
+ * Post it alongside the spend it was earned on, then call recordCashbackAccrual
+ */
+export function cashbackAccrualEntry(input: CashbackAccrualInput): JournalEntryInput {
+  return {
+    type: 'cashback',
+    idempotencyKey: `cashback:${input.userId}:${input.sourceKey}`,
+    description: `Cashback pending for ${input.holdDays} days`,
+    legs: [
+      { accountId: SYSTEM_ACCOUNTS.cashback, direction: 'debit', amount: input.amount },
+      { accountId: SYSTEM_ACCOUNTS.cashbackPending, direction: 'credit', amount: input.amount },
+    ],
+    metadata: { userId: input.userId, orderId: input.orderId || null },
+  };
+}
+
+/**
+ * Write the accrual, its pending transaction and the wallet projection
+ * Writes only, so it can follow postJournalEntries in the same transaction
+ */
+export function recordCashbackAccrual(
+  transaction: admin.firestore.Transaction,
+  input: CashbackAccrualInput,
+  now: admin.firestore.Timestamp
+): string {
+  const accrualId = entryIdForKey(`cashback:${input.userId}:${input.sourceKey}`);
+  const vestsAt = admin.firestore.Timestamp.fromMillis(now.toMillis() + input.holdDays * 24 * 60 * 60 * 1000);
+  const transactionRef = db.collection('transactions').doc();
+
+  transaction.set(db.collection(CASHBACK_ACCRUALS).doc(accrualId), {
+    userId: input.userId,
+    amount: input.amount,
+    tier: input.tier,
+    holdDays: input.holdDays,
+    orderId: input.orderId || null,
+    transactionId: transactionRef.id,
+    status: 'pending',
+    accrualEntryId: accrualId,
+    vestsAt,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  transaction.set(transactionRef, {
+    userId: input.userId,
+    type: 'cashback',
+    amounts: { pxl: input.amount, usd: 0, exchangeRate: input.exchangeRate },
+    relatedTo: 'giftcard-purchase',
+    relatedTransactionId: input.relatedTransactionId,
+    ledgerEntryId: accrualId,
+    cashback: { accrualId, vestsAt },
+    status: 'pending',
+    timestamps: { created: now, updated: now },
+  });
+
+  transaction.update(db.doc(`users/${input.userId}`), {
+    'wallets.pxl.pendingCashback': admin.firestore.FieldValue.increment(input.amount),
+  });
+
+  return accrualId;
+}
+
+/**
+ * Move a pending accrual into the user's wallet once its hold period is over
+ */
+async function vestAccrual(accrualRef: admin.firestore.DocumentReference): Promise<boolean> {
+  return db.runTransaction(async (transaction) => {
+    const accrualDoc = await transaction.get(accrualRef);
+    const accrual = accrualDoc.data();
+
+    if (!accrual || accrual.status !== 'pending' || accrual.vestsAt.toMillis() > Date.now()) {
+      return false;
+    }
+
+    const [entry] = await postJournalEntries(transaction, [{
+      type: 'cashback-vesting',
+      idempotencyKey: `cashback-vesting:${accrualRef.id}`,
+      description: 'Cashback vested',
+      legs: [
+        { accountId: SYSTEM_ACCOUNTS.cashbackPending, direction: 'debit', amount: accrual.amount },
+        { accountId: userAccountId(accrual.userId), direction: 'credit', amount: accrual.amount },
+      ],
+      metadata: { userId: accrual.userId, accrualId: accrualRef.id },
+    }]);
+
+    const now = admin.firestore.Timestamp.now();
+
+    transaction.update(accrualRef, {
+      status: 'vested',
+      vestingEntryId: entry.entryId,
+      vestedAt: now,
+      updatedAt: now,
+    });
+    transaction.update(db.doc(`users/${accrual.userId}`), {
+      'wallets.pxl.pendingCashback': admin.firestore.FieldValue.increment(-accrual.amount),
+      'wallets.pxl.vestedCashback': admin.firestore.FieldValue.increment(accrual.amount),
+    });
+    transaction.update(db.collection('transactions').doc(accrual.transactionId), {
+      status: 'completed',
+      'timestamps.updated': now,
+      'timestamps.completed': now,
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Take back an accrual's cashback
+ * Pending cashback is cancelled outright; vested cashback is recovered from
+ * the wallet as far as the balance allows and any shortfall is recorded.
+ */
+async function clawbackAccrual(
+  accrualRef: admin.firestore.DocumentReference,
+  reason: string
+): Promise<{ amount: number; recovered: number; shortfall: number } | null> {
+  return db.runTransaction(async (transaction) => {
+    const accrualDoc = await transaction.get(accrualRef);
+    const accrual = accrualDoc.data();
+
+    if (!accrual || accrual.status === 'clawed-back') {
+      return null;
+    }
+
+    const userRef = db.doc(`users/${accrual.userId}`);
+    const wasVested = accrual.status === 'vested';
+    let recovered = accrual.amount;
+
+    if (wasVested) {
+      const userDoc = await transaction.get(userRef);
+      const balance = userDoc.data()?.wallets?.pxl?.balance || 0;
+      recovered = Math.min(accrual.amount, Math.max(0, balance));
+    }
+
+    let clawbackEntryId: string | null = null;
+    if (recovered > 0) {
+      const [entry] = await postJournalEntries(transaction, [{
+        type: 'cashback-clawback',
+        idempotencyKey: `cashback-clawback:${accrualRef.id}`,
+        description: `Cashback clawed back: ${reason}`,
+        legs: [
+          {
+            accountId: wasVested ? userAccountId(accrual.userId) : SYSTEM_ACCOUNTS.cashbackPending,
+            direction: 'debit',
+            amount: recovered,
+          },
+          { accountId: SYSTEM_ACCOUNTS.cashback, direction: 'credit', amount: recovered },
+        ],
+        metadata: { userId: accrual.userId, accrualId: accrualRef.id, orderId: accrual.orderId || null },
+      }]);
+      clawbackEntryId = entry.entryId;
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const shortfall = accrual.amount - recovered;
+
+    transaction.update(accrualRef, {
+      status: 'clawed-back',
+      clawbackReason: reason,
+      clawbackEntryId,
+      recovered,
+      shortfall,
+      clawedBackAt: now,
+      updatedAt: now,
+    });
+    transaction.update(userRef, wasVested
+      ? { 'wallets.pxl.vestedCashback': admin.firestore.FieldValue.increment(-accrual.amount) }
+      : { 'wallets.pxl.pendingCashback': admin.firestore.FieldValue.increment(-accrual.amount) });
+    transaction.update(db.collection('transactions').doc(accrual.transactionId), {
+      status: 'reversed',
+      'timestamps.updated': now,
+    });
+
+    // Vested cashback had already reached the wallet, so its removal is a movement of its own
+    if (wasVested && recovered > 0) {
+      transaction.set(db.collection('transactions').doc(), {
+        userId: accrual.userId,
+        type: 'cashback-clawback',
+        amounts: { pxl: -recovered, usd: 0 },
+        relatedTransactionId: accrual.transactionId,
+        ledgerEntryId: clawbackEntryId,
+        description: reason,
+        status: 'completed',
+        timestamps: { created: now, updated: now, completed: now },
+      });
+    }
+
+    return { amount: accrual.amount, recovered, shortfall };
+  });
+}
+
+/**
+ * Claw back all cashback earned on an order
+ */
+export async function clawbackOrderCashback(orderId: string, reason: string): Promise<number> {
+  const snapshot = await db.collection(CASHBACK_ACCRUALS)
+    .where('orderId', '==', orderId)
+    .get();
+
+  let clawedBack = 0;
+  for (const accrualDoc of snapshot.docs) {
+    const result = await clawbackAccrual(accrualDoc.ref, reason);
+    if (!result) continue;
+
+    clawedBack += result.amount;
+
+    if (result.shortfall > 0) {
+      console.warn(`Cashback clawback for ${accrualDoc.id} is short ${result.shortfall} PXL`);
+    }
+
+    await notifyUser(accrualDoc.data().userId, {
+      type: 'cashback-clawback',
+      title: 'Cashback reversed',
+      body: `${result.amount} PXL cashback was reversed because the order was ${reason}.`,
+      data: { orderId, accrualId: accrualDoc.id },
+    });
+  }
+
+  return clawedBack;
+}
+
+/**
+ * Vest pending cashback whose hold period is over
+ */
+export const vestCashback = functions.pubsub
+  .schedule('every 1 hours')
+  .onRun(async () => {
+    const snapshot = await db.collection(CASHBACK_ACCRUALS)
+      .where('status', '==', 'pending')
+      .where('vestsAt', '<=', admin.firestore.Timestamp.now())
+      .orderBy('vestsAt')
+      .limit(VEST_BATCH_SIZE)
+      .get();
+
+    let vested = 0;
+    for (const accrualDoc of snapshot.docs) {
+      try {
+        if (await vestAccrual(accrualDoc.ref)) {
+          vested++;
+        }
+      } catch (error) {
+        console.error(`Error vesting cashback ${accrualDoc.id}:`, error);
+      }
+    }
+
+    console.log(`Vested ${vested} of ${snapshot.size} cashback accruals`);
+    return null;
+  });
+
+/**
+ * Claw back cashback when an order is refunded or charged back
+ * Retried on failure; clawbacks are idempotent per accrual
+ */
+export const onOrderReversed = functions
+  .runWith({ failurePolicy: true })
+  .firestore.document('orders/{orderId}')
+  .onUpdate(async (change, context) => {
+    const before = change.before.data().status;
+    const after = change.after.data().status;
+
+    if (before === after || !REVERSED_ORDER_STATUSES.includes(after)) {
+      return null;
+    }
+
+    try {
+      await clawbackOrderCashback(context.params.orderId, after);
+    } catch (error) {
+      console.error(`Error clawing back cashback for order ${context.params.orderId}:`, error);
+      throw error;
+    }
+
+    return null;
+  });
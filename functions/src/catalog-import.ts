@@ -0,0 +1,793 @@
+/**
+ * Firebase Cloud Functions for bulk catalog imports
+ * A catalog admin uploads a CSV, XLSX or JSON file to Storage and runs a
+ * dry-run that validates every row against the live catalog. A validated
+ * import is proposed through the catalog-import approval; once approved it is
+ * written in chunks, each recorded on the job so the whole import can be
+ * reverted later. Imported products stay inactive until every chunk is in.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import * as readline from 'readline';
+import { fingerprintCode, codeHint } from './utils/code-vault';
+import { toHttpsError } from './utils/errors';
+import { requirePermission } from './utils/admin-roles';
+import { ApprovedChange, approvalAuditFields } from './utils/approvals';
+import { readXlsxRows, XlsxError } from './utils/xlsx';
+import {
+  CATALOG_IMPORTS,
+  CatalogImportFormat,
+  CatalogImportStatus,
+  chunkImportProducts,
+  csvRecordReader,
+  ImportCollector,
+  importFormatOf,
+  importPreview,
+  isImportObject,
+  ImportPreview,
+  ImportProduct,
+  ImportRowError,
+  ImportSummary,
+  MAX_REPORTED_ERRORS,
+  productKey,
+  readImportHeader,
+  recordFromCells,
+} from './utils/catalog-import';
+import { GIFTCARD_VAULT, newVaultSerial } from './giftcard-vault';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+// Writes per chunk; each chunk also records itself and the job's progress
+const CHUNK_SIZE = 400;
+const READ_BATCH_SIZE = 500;
+const COUNT_CONCURRENCY = 25;
+const DEFAULT_COMMISSION = 10;
+
+const LONG_RUNNING: functions.RuntimeOptions = { timeoutSeconds: 540, memory: '1GB' };
+
+export interface CatalogImportProgress {
+  appliedChunks: number;
+  totalChunks: number;
+  products: number;
+  codes: number;
+}
+
+export interface CatalogImportJob {
+  fileName: string;
+  format: CatalogImportFormat;
+  storagePath: string;
+  // Storage generation of the file the dry-run read; applying needs the same one
+  fileGeneration: string | null;
+  status: CatalogImportStatus;
+  summary: ImportSummary | null;
+  // The first MAX_REPORTED_ERRORS problems, by row
+  errors: ImportRowError[];
+  errorCount: number;
+  preview: ImportPreview[];
+  progress: CatalogImportProgress;
+  createdBy: string;
+  createdAt: admin.firestore.Timestamp;
+  validatedAt: admin.firestore.Timestamp | null;
+  approvalId: string | null;
+  proposedBy: string | null;
+  approvedBy: string | null;
+  appliedAt: admin.firestore.Timestamp | null;
+  revertedBy: string | null;
+  revertedAt: admin.firestore.Timestamp | null;
+  revertReason: string | null;
+  failure: string | null;
+  updatedAt: admin.firestore.Timestamp;
+}
+
+// What each applied chunk wrote, so it can be deleted again
+interface CatalogImportChunk {
+  index: number;
+  productIds: string[];
+  serialIds: string[];
+  appliedAt: admin.firestore.Timestamp;
+}
+
+const EMPTY_PROGRESS: CatalogImportProgress = { appliedChunks: 0, totalChunks: 0, products: 0, codes: 0 };
+
+function jobRef(jobId: string): admin.firestore.DocumentReference {
+  return db.collection(CATALOG_IMPORTS).doc(jobId);
+}
+
+function safeFileName(fileName: string): string {
+  return fileName.replace(/[^\w.-]+/g, '_').slice(-100);
+}
+
+function inChunks<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// The uploaded file holds plain codes, so it is removed once the job is done with it
+async function deleteUpload(storagePath: string): Promise<void> {
+  try {
+    await admin.storage().bucket().file(storagePath).delete({ ignoreNotFound: true });
+  } catch (error) {
+    console.error(`Error deleting catalog import upload ${storagePath}:`, error);
+  }
+}
+
+function readCsvUpload(storagePath: string, collector: ImportCollector): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const stream = admin.storage().bucket().file(storagePath).createReadStream();
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    let columns: Array<string | null> | null = null;
+
+    const reader = csvRecordReader((row, cells) => {
+      if (!columns) {
+        const header = readImportHeader(cells);
+        columns = header.columns;
+        collector.addErrors(header.errors);
+        if (!header.complete) lines.close();
+        return;
+      }
+
+      collector.addRecord(row, recordFromCells(columns, cells));
+      if (collector.exceeded) lines.close();
+    });
+
+    let closed = false;
+    lines.on('line', line => {
+      if (!closed) reader.line(line);
+    });
+    lines.on('close', () => {
+      closed = true;
+      reader.end();
+      stream.destroy();
+      resolve();
+    });
+    stream.on('error', reject);
+  });
+}
+
+function readXlsxUpload(buffer: Buffer, collector: ImportCollector): void {
+  const [header, ...rows] = readXlsxRows(buffer);
+  if (!header) return;
+
+  const { columns, errors, complete } = readImportHeader(header.cells);
+  collector.addErrors(errors);
+  if (!complete) return;
+
+  for (const { row, cells } of rows) {
+    collector.addRecord(row, recordFromCells(columns, cells));
+    if (collector.exceeded) return;
+  }
+}
+
+// A JSON upload is an array of products, or { products: [...] }
+function readJsonUpload(buffer: Buffer, collector: ImportCollector): void {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(buffer.toString('utf8'));
+  } catch (error) {
+    collector.addErrors([{ row: 0, field: null, message: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}` }]);
+    return;
+  }
+
+  const records: unknown = Array.isArray(parsed) ? parsed : isImportObject(parsed) ? parsed.products : undefined;
+  if (!Array.isArray(records)) {
+    collector.addErrors([{ row: 0, field: null, message: 'Expected an array of products' }]);
+    return;
+  }
+
+  for (let i = 0; i < records.length; i++) {
+    const record: unknown = records[i];
+    if (!isImportObject(record)) {
+      collector.addErrors([{ row: i + 1, field: null, message: 'Expected a product object' }]);
+    } else {
+      collector.addRecord(i + 1, record);
+    }
+    if (collector.exceeded) return;
+  }
+}
+
+/**
+ * Check valid products against the live catalog
+ * Products already listed, unknown suppliers and serials already in the vault
+ * are reported on the rows that listed them.
+ */
+async function checkAgainstCatalog(products: ImportProduct[]): Promise<ImportRowError[]> {
+  const errors: ImportRowError[] = [];
+
+  const catalogSnapshot = await db.collection('products').select('brand', 'name').get();
+  const listed = new Set(catalogSnapshot.docs.map(doc => productKey(String(doc.get('brand') || ''), String(doc.get('name') || ''))));
+  products.forEach(product => {
+    if (listed.has(productKey(product.brand, product.name))) {
+      errors.push({ row: product.row, field: 'name', message: `${product.brand} - ${product.name} is already in the catalog` });
+    }
+  });
+
+  const supplierIds = [...new Set(products.map(product => product.supplierId).filter((id): id is string => !!id))];
+  for (const ids of inChunks(supplierIds, READ_BATCH_SIZE)) {
+    const supplierDocs = await db.getAll(...ids.map(id => db.collection('suppliers').doc(id)), { fieldMask: ['name'] });
+    const missing = new Set(supplierDocs.filter(doc => !doc.exists).map(doc => doc.id));
+    products.filter(product => product.supplierId && missing.has(product.supplierId)).forEach(product => {
+      errors.push({ row: product.row, field: 'supplierId', message: `Unknown supplier ${product.supplierId}` });
+    });
+  }
+
+  const serials = products.reduce<Array<{ id: string; row: number; hint: string }>>((all, product) => {
+    product.denominations.forEach(denomination => {
+      denomination.codes.forEach(code => all.push({ id: fingerprintCode(code), row: product.row, hint: codeHint(code) }));
+    });
+    return all;
+  }, []);
+  for (const batch of inChunks(serials, READ_BATCH_SIZE)) {
+    const serialDocs = await db.getAll(...batch.map(serial => db.collection(GIFTCARD_VAULT).doc(serial.id)), { fieldMask: ['status'] });
+    serialDocs.forEach((doc, i) => {
+      if (doc.exists) {
+        errors.push({ row: batch[i].row, field: 'denominations', message: `Serial ${batch[i].hint} is already in the catalog` });
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Read and validate an uploaded import file
+ * This is the dry-run; applying runs it again against the same file generation.
+ */
+async function validateUpload(job: CatalogImportJob): Promise<{
+  products: ImportProduct[];
+  summary: ImportSummary;
+  errors: ImportRowError[];
+  generation: string;
+}> {
+  const file = admin.storage().bucket().file(job.storagePath);
+  const [exists] = await file.exists();
+  if (!exists) {
+    throw new functions.https.HttpsError('failed-precondition', 'The import file has not been uploaded');
+  }
+
+  const [metadata] = await file.getMetadata();
+  if (Number(metadata.size) > MAX_FILE_BYTES) {
+    throw new functions.https.HttpsError('invalid-argument', 'Import files are limited to 20MB');
+  }
+
+  const collector = new ImportCollector();
+  if (job.format === 'csv') {
+    await readCsvUpload(job.storagePath, collector);
+  } else {
+    const [buffer] = await file.download();
+    if (job.format === 'json') {
+      readJsonUpload(buffer, collector);
+    } else {
+      try {
+        readXlsxUpload(buffer, collector);
+      } catch (error) {
+        if (!(error instanceof XlsxError)) throw error;
+        collector.addErrors([{ row: 0, field: null, message: error.message }]);
+      }
+    }
+  }
+
+  if (collector.rows === 0 && collector.errors.length === 0) {
+    collector.addErrors([{ row: 0, field: null, message: 'The file has no products' }]);
+  }
+
+  const errors = [...collector.errors];
+  if (!collector.exceeded) {
+    errors.push(...await checkAgainstCatalog(collector.products));
+  }
+  errors.sort((a, b) => a.row - b.row);
+
+  return { products: collector.products, summary: collector.summary(), errors, generation: String(metadata.generation) };
+}
+
+/**
+ * Delete applied chunks, newest first
+ * Each chunk is removed in one transaction that first checks none of its codes
+ * were reserved or sold. Deleted chunks come off the job's progress, so a
+ * revert that stops part way can be run again.
+ */
+async function revertChunks(ref: admin.firestore.DocumentReference): Promise<{ products: number; codes: number }> {
+  const chunksSnapshot = await ref.collection('chunks').orderBy('index', 'desc').get();
+  let products = 0;
+  let codes = 0;
+
+  for (const chunkDoc of chunksSnapshot.docs) {
+    const chunk = chunkDoc.data() as CatalogImportChunk;
+
+    await db.runTransaction(async (transaction) => {
+      const serialDocs = chunk.serialIds.length > 0
+        ? await transaction.getAll(...chunk.serialIds.map(id => db.collection(GIFTCARD_VAULT).doc(id)))
+        : [];
+      const taken = serialDocs.filter(doc => doc.exists && doc.get('status') !== 'available');
+      if (taken.length > 0) {
+        throw new functions.https.HttpsError('failed-precondition', `${taken.length} imported codes have been reserved or sold`);
+      }
+
+      chunk.productIds.forEach(id => transaction.delete(db.collection('products').doc(id)));
+      serialDocs.filter(doc => doc.exists).forEach(doc => transaction.delete(doc.ref));
+      transaction.delete(chunkDoc.ref);
+      transaction.update(ref, {
+        'progress.appliedChunks': admin.firestore.FieldValue.increment(-1),
+        'progress.products': admin.firestore.FieldValue.increment(-chunk.productIds.length),
+        'progress.codes': admin.firestore.FieldValue.increment(-chunk.serialIds.length),
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+    });
+
+    products += chunk.productIds.length;
+    codes += chunk.serialIds.length;
+  }
+
+  return { products, codes };
+}
+
+/**
+ * Refuse a revert that would take codes out from under customers or admins
+ * Every imported code must still be available, and no codes may have been
+ * stocked onto the imported products since.
+ */
+async function checkRevertable(ref: admin.firestore.DocumentReference): Promise<void> {
+  const chunksSnapshot = await ref.collection('chunks').get();
+  const chunks = chunksSnapshot.docs.map(doc => doc.data() as CatalogImportChunk);
+  const serialIds = chunks.reduce<string[]>((all, chunk) => all.concat(chunk.serialIds), []);
+  const productIds = chunks.reduce<string[]>((all, chunk) => all.concat(chunk.productIds), []);
+
+  const imported = new Map<string, number>();
+  let taken = 0;
+  for (const ids of inChunks(serialIds, READ_BATCH_SIZE)) {
+    const serialDocs = await db.getAll(...ids.map(id => db.collection(GIFTCARD_VAULT).doc(id)), { fieldMask: ['status', 'productId'] });
+    serialDocs.filter(doc => doc.exists).forEach(doc => {
+      if (doc.get('status') !== 'available') taken++;
+      imported.set(doc.get('productId'), (imported.get(doc.get('productId')) || 0) + 1);
+    });
+  }
+
+  if (taken > 0) {
+    throw new functions.https.HttpsError('failed-precondition', `${taken} imported codes have been reserved or sold`);
+  }
+
+  let restocked = 0;
+  for (const ids of inChunks(productIds, COUNT_CONCURRENCY)) {
+    const counts = await Promise.all(ids.map(id => db.collection(GIFTCARD_VAULT).where('productId', '==', id).count().get()));
+    counts.forEach((count, i) => {
+      if (count.data().count > (imported.get(ids[i]) || 0)) restocked++;
+    });
+  }
+
+  if (restocked > 0) {
+    throw new functions.https.HttpsError('failed-precondition', `Codes were stocked onto ${restocked} imported products since the import`);
+  }
+}
+
+function productData(
+  product: ImportProduct,
+  jobId: string,
+  supplierName: string,
+  now: admin.firestore.Timestamp
+): admin.firestore.DocumentData {
+  const totalStock = product.denominations.reduce((sum, d) => sum + d.codes.length, 0);
+
+  return {
+    brand: product.brand,
+    name: product.name,
+    description: product.description,
+    category: product.category,
+    featured: product.featured,
+    // Published once the whole import is in
+    status: 'inactive',
+    defaultArtworkUrl: '',
+    artwork: product.artwork,
+    denominations: product.denominations.map(d => ({ value: d.value, stock: d.codes.length })),
+    totalSold: product.totalSold,
+    totalStock,
+    popularity: product.totalSold,
+    createdAt: product.createdAt !== null ? admin.firestore.Timestamp.fromMillis(product.createdAt) : now,
+    updatedAt: now,
+    supplierId: product.supplierId || '',
+    supplierName,
+    commission: DEFAULT_COMMISSION,
+    bgColor: '#000000',
+    importJobId: jobId,
+  };
+}
+
+function publishedStatus(product: ImportProduct): string {
+  return product.denominations.some(d => d.codes.length > 0) ? product.status : 'out_of_stock';
+}
+
+/**
+ * Write a queued import in chunks and publish its products
+ * Any failure reverts what was written and leaves the job failed.
+ */
+async function applyCatalogImport(ref: admin.firestore.DocumentReference, job: CatalogImportJob): Promise<void> {
+  const approval: ApprovedChange = { approvalId: job.approvalId!, proposedBy: job.proposedBy!, approvedBy: job.approvedBy! };
+
+  try {
+    const { products, summary, errors, generation } = await validateUpload(job);
+    if (generation !== job.fileGeneration) {
+      throw new Error('The import file changed since its dry-run');
+    }
+    if (errors.length > 0) {
+      throw new Error(`The import no longer validates: row ${errors[0].row}: ${errors[0].message}`);
+    }
+
+    const supplierIds = [...new Set(products.map(product => product.supplierId).filter((id): id is string => !!id))];
+    const supplierDocs = supplierIds.length > 0 ? await db.getAll(...supplierIds.map(id => db.collection('suppliers').doc(id))) : [];
+    const supplierNames = new Map(supplierDocs.map(doc => [doc.id, String(doc.get('name') || doc.id)]));
+
+    const productRefs = products.map(() => db.collection('products').doc());
+    const chunks = chunkImportProducts(products, CHUNK_SIZE);
+    await ref.update({ summary, progress: { ...EMPTY_PROGRESS, totalChunks: chunks.length }, updatedAt: admin.firestore.Timestamp.now() });
+
+    for (let index = 0; index < chunks.length; index++) {
+      const { serials, products: productIndexes } = chunks[index];
+      const now = admin.firestore.Timestamp.now();
+      const batch = db.batch();
+
+      const serialIds = serials.map(serial => {
+        const product = products[serial.product];
+        const serialRef = db.collection(GIFTCARD_VAULT).doc(fingerprintCode(serial.code));
+        batch.create(serialRef, {
+          ...newVaultSerial(productRefs[serial.product].id, serial.denomination, { code: serial.code }, product.supplierId, now),
+          importJobId: ref.id,
+        });
+        return serialRef.id;
+      });
+
+      productIndexes.forEach(i => {
+        const product = products[i];
+        batch.create(productRefs[i], productData(product, ref.id, product.supplierId ? supplierNames.get(product.supplierId) || '' : '', now));
+      });
+
+      const chunk: CatalogImportChunk = {
+        index,
+        productIds: productIndexes.map(i => productRefs[i].id),
+        serialIds,
+        appliedAt: now,
+      };
+      batch.set(ref.collection('chunks').doc(String(index)), chunk);
+      batch.update(ref, {
+        'progress.appliedChunks': admin.firestore.FieldValue.increment(1),
+        'progress.products': admin.firestore.FieldValue.increment(productIndexes.length),
+        'progress.codes': admin.firestore.FieldValue.increment(serialIds.length),
+        updatedAt: now,
+      });
+      await batch.commit();
+    }
+
+    for (const indexes of inChunks(products.map((_, i) => i), CHUNK_SIZE)) {
+      const batch = db.batch();
+      indexes.forEach(i => batch.update(productRefs[i], { status: publishedStatus(products[i]) }));
+      await batch.commit();
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    await ref.update({ status: 'applied' as CatalogImportStatus, appliedAt: now, updatedAt: now });
+    await db.collection('admin-actions').add({
+      type: 'catalog_import_applied',
+      ...approvalAuditFields(approval),
+      importJobId: ref.id,
+      fileName: job.fileName,
+      products: summary.products,
+      codes: summary.codes,
+      chunks: chunks.length,
+      timestamp: now,
+    });
+  } catch (error) {
+    console.error(`Error applying catalog import ${ref.id}:`, error);
+    const failure = error instanceof Error ? error.message : 'Failed to apply import';
+
+    let revertError: string | null = null;
+    try {
+      await revertChunks(ref);
+    } catch (revertFailure) {
+      console.error(`Error reverting failed catalog import ${ref.id}:`, revertFailure);
+      revertError = revertFailure instanceof Error ? revertFailure.message : 'Failed to revert import';
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    await ref.update({
+      status: 'failed' as CatalogImportStatus,
+      failure: revertError ? `${failure} (revert incomplete: ${revertError})` : failure,
+      updatedAt: now,
+    });
+    await db.collection('admin-actions').add({
+      type: 'catalog_import_failed',
+      ...approvalAuditFields(approval),
+      importJobId: ref.id,
+      fileName: job.fileName,
+      error: failure,
+      reverted: !revertError,
+      timestamp: now,
+    });
+  }
+
+  await deleteUpload(job.storagePath);
+}
+
+/**
+ * Queue a validated import once its approval is granted
+ * The admin who uploaded the file cannot be the one to approve it.
+ */
+export async function queueCatalogImport(
+  jobId: string,
+  approval: ApprovedChange
+): Promise<{ jobId: string; status: CatalogImportStatus; actionId: string }> {
+  const ref = jobRef(jobId);
+
+  const job = await db.runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(ref);
+    if (!jobDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Import not found');
+    }
+
+    const data = jobDoc.data() as CatalogImportJob;
+    if (data.status !== 'validated') {
+      throw new functions.https.HttpsError('failed-precondition', `Import is ${data.status}`);
+    }
+    if (data.createdBy === approval.approvedBy) {
+      throw new functions.https.HttpsError('permission-denied', 'Imports must be approved by an admin other than the uploader');
+    }
+
+    transaction.update(ref, {
+      status: 'queued' as CatalogImportStatus,
+      approvalId: approval.approvalId,
+      proposedBy: approval.proposedBy,
+      approvedBy: approval.approvedBy,
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+    return data;
+  });
+
+  const action = await db.collection('admin-actions').add({
+    type: 'catalog_import_queued',
+    ...approvalAuditFields(approval),
+    importJobId: jobId,
+    fileName: job.fileName,
+    products: job.summary?.products || 0,
+    codes: job.summary?.codes || 0,
+    timestamp: admin.firestore.Timestamp.now(),
+  });
+
+  return { jobId, status: 'queued', actionId: action.id };
+}
+
+/**
+ * What the catalog-import approval shows reviewers
+ */
+export async function describeCatalogImport(jobId: string): Promise<{ fileName: string; summary: ImportSummary }> {
+  const jobDoc = await jobRef(jobId).get();
+  if (!jobDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'Import not found');
+  }
+
+  const job = jobDoc.data() as CatalogImportJob;
+  if (job.status !== 'validated' || !job.summary) {
+    throw new functions.https.HttpsError('failed-precondition', 'Only imports that passed their dry-run can be proposed');
+  }
+
+  return { fileName: job.fileName, summary: job.summary };
+}
+
+/**
+ * Start an import job (catalog:write)
+ * Returns the Storage path the file is uploaded to before the dry-run.
+ */
+export const createCatalogImport = functions.https.onCall(async (data, context) => {
+  const uid = requirePermission(context, 'catalog:write');
+  const fileName = typeof data?.fileName === 'string' ? data.fileName.trim() : '';
+  const format = importFormatOf(fileName);
+
+  if (!format) {
+    throw new functions.https.HttpsError('invalid-argument', 'Import files must be .csv, .xlsx or .json');
+  }
+
+  try {
+    const ref = db.collection(CATALOG_IMPORTS).doc();
+    const now = admin.firestore.Timestamp.now();
+    const job: CatalogImportJob = {
+      fileName: fileName.slice(0, 200),
+      format,
+      storagePath: `${CATALOG_IMPORTS}/${ref.id}/${safeFileName(fileName)}`,
+      fileGeneration: null,
+      status: 'uploading',
+      summary: null,
+      errors: [],
+      errorCount: 0,
+      preview: [],
+      progress: EMPTY_PROGRESS,
+      createdBy: uid,
+      createdAt: now,
+      validatedAt: null,
+      approvalId: null,
+      proposedBy: null,
+      approvedBy: null,
+      appliedAt: null,
+      revertedBy: null,
+      revertedAt: null,
+      revertReason: null,
+      failure: null,
+      updatedAt: now,
+    };
+    await ref.set(job);
+
+    return { jobId: ref.id, storagePath: job.storagePath };
+  } catch (error) {
+    console.error('Error creating catalog import:', error);
+    throw toHttpsError(error, 'Failed to create import');
+  }
+});
+
+/**
+ * Dry-run an uploaded import (catalog:write)
+ * Nothing is written to the catalog. Validated imports can be dry-run again
+ * before they are proposed; the file of an invalid one is discarded.
+ */
+export const validateCatalogImport = functions
+  .runWith(LONG_RUNNING)
+  .https.onCall(async (data, context) => {
+    requirePermission(context, 'catalog:write');
+    const jobId = typeof data?.jobId === 'string' ? data.jobId : '';
+    if (!jobId) {
+      throw new functions.https.HttpsError('invalid-argument', 'Import ID is required');
+    }
+
+    const ref = jobRef(jobId);
+
+    try {
+      const { job, previousStatus } = await db.runTransaction(async (transaction) => {
+        const jobDoc = await transaction.get(ref);
+        if (!jobDoc.exists) {
+          throw new functions.https.HttpsError('not-found', 'Import not found');
+        }
+
+        const current = jobDoc.data() as CatalogImportJob;
+        if (current.status !== 'uploading' && current.status !== 'validated') {
+          throw new functions.https.HttpsError('failed-precondition', `Import is ${current.status}`);
+        }
+
+        transaction.update(ref, { status: 'validating' as CatalogImportStatus, updatedAt: admin.firestore.Timestamp.now() });
+        return { job: current, previousStatus: current.status };
+      });
+
+      let validation: Awaited<ReturnType<typeof validateUpload>>;
+      try {
+        validation = await validateUpload(job);
+      } catch (error) {
+        await ref.update({ status: previousStatus, updatedAt: admin.firestore.Timestamp.now() });
+        throw error;
+      }
+
+      const { products, summary, errors, generation } = validation;
+      const status: CatalogImportStatus = errors.length > 0 ? 'invalid' : 'validated';
+      const now = admin.firestore.Timestamp.now();
+
+      await ref.update({
+        status,
+        summary,
+        errors: errors.slice(0, MAX_REPORTED_ERRORS),
+        errorCount: errors.length,
+        preview: importPreview(products),
+        fileGeneration: generation,
+        validatedAt: now,
+        updatedAt: now,
+      });
+
+      if (status === 'invalid') {
+        await deleteUpload(job.storagePath);
+      }
+
+      return { jobId, status, summary, errorCount: errors.length };
+    } catch (error) {
+      console.error('Error validating catalog import:', error);
+      throw toHttpsError(error, 'Failed to validate import');
+    }
+  });
+
+/**
+ * Trigger that applies an import once its approval queues it
+ */
+export const onCatalogImportQueued = functions
+  .runWith(LONG_RUNNING)
+  .firestore.document(`${CATALOG_IMPORTS}/{jobId}`)
+  .onUpdate(async (change) => {
+    if (change.before.data().status === 'queued' || change.after.data().status !== 'queued') {
+      return;
+    }
+
+    const ref = change.after.ref;
+    const job = await db.runTransaction(async (transaction) => {
+      const jobDoc = await transaction.get(ref);
+      if (jobDoc.data()?.status !== 'queued') return null;
+
+      transaction.update(ref, { status: 'applying' as CatalogImportStatus, updatedAt: admin.firestore.Timestamp.now() });
+      return jobDoc.data() as CatalogImportJob;
+    });
+
+    if (job) {
+      await applyCatalogImport(ref, job);
+    }
+  });
+
+/**
+ * Revert an applied import, or what is left of a failed one (catalog:write)
+ * Refused while any imported code is reserved or sold.
+ */
+export const revertCatalogImport = functions
+  .runWith(LONG_RUNNING)
+  .https.onCall(async (data, context) => {
+    const uid = requirePermission(context, 'catalog:write');
+    const jobId = typeof data?.jobId === 'string' ? data.jobId : '';
+    const reason = typeof data?.reason === 'string' ? data.reason.trim() : '';
+
+    if (!jobId) {
+      throw new functions.https.HttpsError('invalid-argument', 'Import ID is required');
+    }
+    if (!reason) {
+      throw new functions.https.HttpsError('invalid-argument', 'A reason is required');
+    }
+
+    const ref = jobRef(jobId);
+
+    try {
+      const previousStatus = await db.runTransaction(async (transaction) => {
+        const jobDoc = await transaction.get(ref);
+        if (!jobDoc.exists) {
+          throw new functions.https.HttpsError('not-found', 'Import not found');
+        }
+
+        const job = jobDoc.data() as CatalogImportJob;
+        const leftover = job.status === 'failed' && job.progress.appliedChunks > 0;
+        if (job.status !== 'applied' && !leftover) {
+          throw new functions.https.HttpsError('failed-precondition', `Import is ${job.status}`);
+        }
+
+        transaction.update(ref, { status: 'reverting' as CatalogImportStatus, updatedAt: admin.firestore.Timestamp.now() });
+        return job.status;
+      });
+
+      let reverted: { products: number; codes: number };
+      try {
+        await checkRevertable(ref);
+        reverted = await revertChunks(ref);
+      } catch (error) {
+        await ref.update({
+          status: previousStatus,
+          failure: error instanceof Error ? `Revert stopped: ${error.message}` : 'Revert stopped',
+          updatedAt: admin.firestore.Timestamp.now(),
+        });
+        throw error;
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      await ref.update({
+        status: 'reverted' as CatalogImportStatus,
+        revertedBy: uid,
+        revertedAt: now,
+        revertReason: reason.slice(0, 200),
+        updatedAt: now,
+      });
+      await db.collection('admin-actions').add({
+        type: 'catalog_import_reverted',
+        adminId: uid,
+        importJobId: jobId,
+        reason: reason.slice(0, 200),
+        ...reverted,
+        timestamp: now,
+      });
+
+      return { jobId, status: 'reverted', ...reverted };
+    } catch (error) {
+      console.error('Error reverting catalog import:', error);
+      throw toHttpsError(error, 'Failed to revert import');
+    }
+  });
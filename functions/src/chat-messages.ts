@@ -0,0 +1,619 @@
+/**
+ * Firebase Cloud Functions for chat messages
+ * Messages are written only by the chat server and these functions, so
+ * expiry, edit history and tombstones cannot be rewritten by clients.
+ * Clients use these when the chat server is unreachable.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { toHttpsError } from './utils/errors';
+import {
+  applyReaction,
+  changeGroupMembers,
+  groupChangeMessages,
+  messageExpiry,
+  pickContent,
+  pickGroupUpdate,
+  ConversationState,
+  MessageContent,
+  Reactions,
+  CLIENT_MESSAGE_ID_PATTERN,
+  CONTENT_FIELDS,
+  CONVERSATIONS,
+  DELETE_FOR_EVERYONE_WINDOW_MS,
+  MAX_EDIT_HISTORY,
+  MESSAGES,
+} from './utils/chat-messages';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const PREVIEW_LENGTH = 50;
+const MAX_EMOJI_LENGTH = 16;
+const MAX_RECEIPTS = 100;
+const BATCH_SIZE = 400;
+
+type MessageRevision = MessageContent & { editedAt: string };
+
+function requireAuth(context: functions.https.CallableContext): string {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  return context.auth.uid;
+}
+
+function requireId(value: unknown, name: string): string {
+  if (typeof value !== 'string' || value.length === 0 || value.includes('/')) {
+    throw new functions.https.HttpsError('invalid-argument', `A ${name} is required`);
+  }
+  return value;
+}
+
+function conversationRef(conversationId: string): admin.firestore.DocumentReference {
+  return db.collection(CONVERSATIONS).doc(conversationId);
+}
+
+function assertMember(conversation: admin.firestore.DocumentSnapshot, userId: string): void {
+  const members: string[] = conversation.get('members') || [];
+  if (!conversation.exists || !members.includes(userId)) {
+    throw new functions.https.HttpsError('not-found', 'Conversation not found');
+  }
+}
+
+/**
+ * Load a group inside a transaction, checking the caller is one of its admins
+ */
+async function loadAdminGroup(
+  transaction: admin.firestore.Transaction,
+  conversationId: string,
+  userId: string
+): Promise<ConversationState> {
+  const conversation = await transaction.get(conversationRef(conversationId));
+  assertMember(conversation, userId);
+
+  const state = conversation.data() as ConversationState;
+  if (state.type !== 'group') {
+    throw new functions.https.HttpsError('failed-precondition', 'Conversation is not a group');
+  }
+  if (!(state.groupInfo?.admins || []).includes(userId)) {
+    throw new functions.https.HttpsError('permission-denied', 'Only group admins can change the group');
+  }
+  return state;
+}
+
+function requireIds(value: unknown, name: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new functions.https.HttpsError('invalid-argument', `A list of ${name}s is required`);
+  }
+  return value.map((id) => requireId(id, name));
+}
+
+async function loadMemberConversation(conversationId: string, userId: string): Promise<admin.firestore.DocumentSnapshot> {
+  const conversation = await conversationRef(conversationId).get();
+  assertMember(conversation, userId);
+  return conversation;
+}
+
+/**
+ * Save a message the way the chat server does: idempotent per client message
+ * ID, numbered with the conversation's next sequence number, and stamped with
+ * the conversation's disappearing-messages expiry
+ */
+export const sendChatMessage = functions.https.onCall(async (data, context) => {
+  const senderId = requireAuth(context);
+  const conversationId = requireId(data?.conversationId, 'conversation ID');
+  const content = pickContent(data);
+  const { clientMessageId, threadId, type = 'text', metadata, preview } = data;
+
+  if (!content) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid message content');
+  }
+
+  if (clientMessageId !== undefined && (typeof clientMessageId !== 'string' || !CLIENT_MESSAGE_ID_PATTERN.test(clientMessageId))) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid client message ID');
+  }
+
+  if (threadId !== undefined) {
+    requireId(threadId, 'thread ID');
+  }
+
+  // System messages come from group changes only
+  if (typeof type !== 'string' || type === 'system' || type.length > 20) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid message type');
+  }
+
+  if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid message metadata');
+  }
+
+  try {
+    const convRef = conversationRef(conversationId);
+    const messagesRef = convRef.collection(MESSAGES);
+    const messageRef = clientMessageId ? messagesRef.doc(clientMessageId) : messagesRef.doc();
+    const rootRef = threadId ? messagesRef.doc(threadId) : null;
+    const previewText = typeof preview === 'string'
+      ? (preview.length > PREVIEW_LENGTH ? preview.substring(0, PREVIEW_LENGTH) + '...' : preview)
+      : '';
+
+    return await db.runTransaction(async (transaction) => {
+      const [conversationDoc, existingDoc, rootDoc] = await Promise.all([
+        transaction.get(convRef),
+        transaction.get(messageRef),
+        rootRef ? transaction.get(rootRef) : Promise.resolve(null),
+      ]);
+      assertMember(conversationDoc, senderId);
+
+      // Retried send: keep the first copy and its sequence number
+      if (existingDoc.exists) {
+        return { messageId: messageRef.id, seq: existingDoc.get('seq') || 0, duplicate: true };
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      const expiresAtMs = messageExpiry(conversationDoc.get('disappearingMessages'), now.toMillis());
+      const expiresAt = expiresAtMs ? admin.firestore.Timestamp.fromMillis(expiresAtMs) : null;
+
+      // Threads are one level deep and start from a message that still exists
+      let thread: { replyCount: number; lastReplyId: string; lastReplySenderId: string; participants: string[] } | null = null;
+      if (rootRef) {
+        const root = rootDoc?.data();
+        if (!root || root.deleted || root.threadId) {
+          throw new functions.https.HttpsError('not-found', 'Thread not found');
+        }
+        const participants: string[] = root.threadSummary?.participants || [root.senderId];
+        thread = {
+          replyCount: (root.threadSummary?.replyCount || 0) + 1,
+          lastReplyId: messageRef.id,
+          lastReplySenderId: senderId,
+          participants: participants.includes(senderId) ? participants : [...participants, senderId],
+        };
+        transaction.update(rootRef, { threadSummary: { ...thread, lastReplyAt: now } });
+      }
+
+      const seq = (conversationDoc.get('lastSeq') || 0) + 1;
+      transaction.set(messageRef, {
+        senderId,
+        ...content,
+        // Per-device messages carry their ciphertexts in `envelopes` only
+        text: content.text ?? '',
+        type,
+        timestamp: now,
+        reactions: {},
+        deliveredTo: [],
+        readBy: [],
+        seq,
+        ...(metadata ? { metadata } : {}),
+        ...(clientMessageId ? { clientMessageId } : {}),
+        ...(threadId ? { threadId } : {}),
+        ...(expiresAt ? { expiresAt } : {}),
+      });
+      transaction.update(convRef, {
+        lastSeq: seq,
+        // Thread replies stay out of the conversation preview
+        ...(thread ? {} : {
+          lastMessage: {
+            text: previewText,
+            senderId,
+            timestamp: now,
+            ...(expiresAt ? { expiresAt } : {}),
+          },
+        }),
+        updatedAt: now,
+      });
+
+      return {
+        messageId: messageRef.id,
+        seq,
+        duplicate: false,
+        thread: thread ? { ...thread, lastReplyAt: now.toMillis() } : null,
+      };
+    });
+  } catch (error) {
+    console.error('Error sending chat message:', error);
+    throw toHttpsError(error, 'Failed to send message');
+  }
+});
+
+/**
+ * Replace a message's content with an edit, keeping the previous content in
+ * its encrypted edit history. Only the sender can edit.
+ */
+export const editChatMessage = functions.https.onCall(async (data, context) => {
+  const editorId = requireAuth(context);
+  const conversationId = requireId(data?.conversationId, 'conversation ID');
+  const messageId = requireId(data?.messageId, 'message ID');
+  const content = typeof data.content === 'object' && data.content !== null ? pickContent(data.content) : null;
+
+  if (!content) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid message content');
+  }
+
+  try {
+    await loadMemberConversation(conversationId, editorId);
+    const messageRef = conversationRef(conversationId).collection(MESSAGES).doc(messageId);
+    const editedAt = new Date().toISOString();
+
+    const revisions = await db.runTransaction(async (transaction) => {
+      const messageDoc = await transaction.get(messageRef);
+      const message = messageDoc.data();
+      if (!message) {
+        throw new functions.https.HttpsError('not-found', 'Message not found');
+      }
+      if (message.senderId !== editorId) {
+        throw new functions.https.HttpsError('permission-denied', 'Only the sender can edit a message');
+      }
+      if (message.deleted) {
+        throw new functions.https.HttpsError('failed-precondition', 'Message was deleted');
+      }
+
+      const history: MessageRevision[] = message.editHistory || [];
+      if (history.length >= MAX_EDIT_HISTORY) {
+        throw new functions.https.HttpsError('failed-precondition', 'Message was edited too many times');
+      }
+
+      const previous: MessageRevision = {
+        editedAt: message.metadata?.editedAt || message.timestamp?.toDate().toISOString() || editedAt,
+      };
+      const update: Record<string, unknown> = {
+        'metadata.edited': true,
+        'metadata.editedAt': editedAt,
+        'metadata.editedBy': editorId,
+      };
+      CONTENT_FIELDS.forEach((field) => {
+        if (message[field] !== undefined) {
+          previous[field] = message[field];
+        }
+        update[field] = content[field] !== undefined ? content[field] : admin.firestore.FieldValue.delete();
+      });
+      update.editHistory = [...history, previous];
+
+      transaction.update(messageRef, update);
+      return history.length + 1;
+    });
+
+    return { revisions, editedAt };
+  } catch (error) {
+    console.error('Error editing chat message:', error);
+    throw toHttpsError(error, 'Failed to edit message');
+  }
+});
+
+/**
+ * Delete a message for the caller, or for everyone by leaving a tombstone
+ * that keeps its place and sequence number but none of its content
+ */
+export const deleteChatMessage = functions.https.onCall(async (data, context) => {
+  const userId = requireAuth(context);
+  const conversationId = requireId(data?.conversationId, 'conversation ID');
+  const messageId = requireId(data?.messageId, 'message ID');
+  const { scope } = data;
+
+  if (scope !== 'me' && scope !== 'everyone') {
+    throw new functions.https.HttpsError('invalid-argument', 'Scope must be me or everyone');
+  }
+
+  try {
+    const convRef = conversationRef(conversationId);
+    const messageRef = convRef.collection(MESSAGES).doc(messageId);
+
+    await db.runTransaction(async (transaction) => {
+      const [conversationDoc, messageDoc] = await Promise.all([
+        transaction.get(convRef),
+        transaction.get(messageRef),
+      ]);
+      assertMember(conversationDoc, userId);
+
+      const message = messageDoc.data();
+      if (!message) {
+        throw new functions.https.HttpsError('not-found', 'Message not found');
+      }
+
+      if (scope === 'me') {
+        transaction.update(messageRef, { hiddenFor: admin.firestore.FieldValue.arrayUnion(userId) });
+        return;
+      }
+
+      if (message.senderId !== userId) {
+        throw new functions.https.HttpsError('permission-denied', 'Only the sender can delete a message for everyone');
+      }
+      if (message.deleted) return;
+      if (Date.now() - (message.timestamp?.toMillis() || 0) > DELETE_FOR_EVERYONE_WINDOW_MS) {
+        throw new functions.https.HttpsError('failed-precondition', 'Too late to delete this message for everyone');
+      }
+
+      const tombstone: Record<string, unknown> = {
+        deleted: true,
+        deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+        deletedBy: userId,
+        editHistory: admin.firestore.FieldValue.delete(),
+        metadata: admin.firestore.FieldValue.delete(),
+        reactions: {},
+      };
+      CONTENT_FIELDS.forEach((field) => {
+        tombstone[field] = admin.firestore.FieldValue.delete();
+      });
+      transaction.update(messageRef, tombstone);
+
+      // Don't leave the deleted content as the conversation preview
+      if (message.seq && !message.threadId && conversationDoc.get('lastSeq') === message.seq) {
+        transaction.update(convRef, {
+          'lastMessage.text': '',
+          'lastMessage.deleted': true,
+        });
+      }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting chat message:', error);
+    throw toHttpsError(error, 'Failed to delete message');
+  }
+});
+
+/**
+ * Set or remove the caller's reaction to a message; each user has at most one
+ */
+export const reactToChatMessage = functions.https.onCall(async (data, context) => {
+  const userId = requireAuth(context);
+  const conversationId = requireId(data?.conversationId, 'conversation ID');
+  const messageId = requireId(data?.messageId, 'message ID');
+  const { emoji, remove = false } = data;
+
+  if (typeof emoji !== 'string' || emoji.length === 0 || emoji.length > MAX_EMOJI_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid reaction');
+  }
+
+  try {
+    await loadMemberConversation(conversationId, userId);
+    const messageRef = conversationRef(conversationId).collection(MESSAGES).doc(messageId);
+
+    const reactions = await db.runTransaction(async (transaction) => {
+      const messageDoc = await transaction.get(messageRef);
+      const message = messageDoc.data();
+      if (!message || message.deleted) {
+        throw new functions.https.HttpsError('not-found', 'Message not found');
+      }
+
+      const current: Reactions = message.reactions || {};
+      const next = remove ? applyReaction(current, userId, null, emoji) : applyReaction(current, userId, emoji);
+      transaction.update(messageRef, { reactions: next });
+      return next;
+    });
+
+    return { reactions };
+  } catch (error) {
+    console.error('Error reacting to chat message:', error);
+    throw toHttpsError(error, 'Failed to update reaction');
+  }
+});
+
+/**
+ * Record that the caller received or read messages; reading implies receiving
+ */
+export const markChatMessages = functions.https.onCall(async (data, context) => {
+  const userId = requireAuth(context);
+  const conversationId = requireId(data?.conversationId, 'conversation ID');
+  const { receipt } = data;
+  const messageIds: unknown[] = Array.isArray(data.messageIds) ? data.messageIds : [];
+
+  if (receipt !== 'delivered' && receipt !== 'read') {
+    throw new functions.https.HttpsError('invalid-argument', 'Receipt must be delivered or read');
+  }
+
+  if (messageIds.length === 0 || messageIds.length > MAX_RECEIPTS) {
+    throw new functions.https.HttpsError('invalid-argument', `Between 1 and ${MAX_RECEIPTS} message IDs are required`);
+  }
+
+  try {
+    await loadMemberConversation(conversationId, userId);
+    const messagesRef = conversationRef(conversationId).collection(MESSAGES);
+    const messageDocs = await db.getAll(...messageIds.map((id) => messagesRef.doc(requireId(id, 'message ID'))));
+
+    const update: Record<string, admin.firestore.FieldValue> = {
+      deliveredTo: admin.firestore.FieldValue.arrayUnion(userId),
+    };
+    if (receipt === 'read') {
+      update.readBy = admin.firestore.FieldValue.arrayUnion(userId);
+    }
+
+    const batch = db.batch();
+    const existing = messageDocs.filter((messageDoc) => messageDoc.exists);
+    existing.forEach((messageDoc) => batch.update(messageDoc.ref, update));
+    await batch.commit();
+
+    return { updated: existing.length };
+  } catch (error) {
+    console.error('Error marking chat messages:', error);
+    throw toHttpsError(error, 'Failed to update receipts');
+  }
+});
+
+/**
+ * Delete a conversation's messages for a member. A direct conversation is
+ * kept, marked as deleted by the caller, so it is not recreated with its
+ * history; a group conversation is deleted.
+ */
+export const deleteChatConversation = functions
+  .runWith({ timeoutSeconds: 300 })
+  .https.onCall(async (data, context) => {
+    const userId = requireAuth(context);
+    const conversationId = requireId(data?.conversationId, 'conversation ID');
+
+    try {
+      const conversation = await conversationRef(conversationId).get();
+      if (!conversation.exists) {
+        return { deleted: 0 };
+      }
+      assertMember(conversation, userId);
+
+      const messagesRef = conversation.ref.collection(MESSAGES);
+      let deleted = 0;
+      for (;;) {
+        const snapshot = await messagesRef.limit(BATCH_SIZE).get();
+        if (snapshot.empty) break;
+
+        const batch = db.batch();
+        snapshot.docs.forEach((messageDoc) => batch.delete(messageDoc.ref));
+        await batch.commit();
+        deleted += snapshot.size;
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      if (conversation.get('type') === 'direct') {
+        await conversation.ref.update({
+          [`deletedBy.${userId}`]: now,
+          lastMessage: null,
+          lastMessageTime: now,
+        });
+      } else {
+        await conversation.ref.delete();
+      }
+
+      return { deleted };
+    } catch (error) {
+      console.error('Error deleting chat conversation:', error);
+      throw toHttpsError(error, 'Failed to delete conversation');
+    }
+  });
+
+/**
+ * Change a group's name, description, photo or disappearing-messages timer
+ * Group admins only; onConversationUpdated announces the changes
+ */
+export const updateChatGroup = functions.https.onCall(async (data, context) => {
+  const userId = requireAuth(context);
+  const conversationId = requireId(data?.conversationId, 'conversation ID');
+  const update = pickGroupUpdate(data);
+
+  if (!update || Object.keys(update).length === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid group update');
+  }
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      await loadAdminGroup(transaction, conversationId, userId);
+      transaction.update(conversationRef(conversationId), {
+        ...update,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating chat group:', error);
+    throw toHttpsError(error, 'Failed to update group');
+  }
+});
+
+/**
+ * Add or remove group members. Group admins only, and the creator cannot be
+ * removed. The caller rotates the group key afterwards, as only members hold it.
+ */
+export const changeChatGroupMembers = functions.https.onCall(async (data, context) => {
+  const userId = requireAuth(context);
+  const conversationId = requireId(data?.conversationId, 'conversation ID');
+  const add = requireIds(data.add, 'member ID');
+  const remove = requireIds(data.remove, 'member ID');
+
+  if (add.length + remove.length === 0 || add.some((id) => remove.includes(id))) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid member change');
+  }
+
+  try {
+    const members = await db.runTransaction(async (transaction) => {
+      const state = await loadAdminGroup(transaction, conversationId, userId);
+      if (state.groupInfo?.createdBy && remove.includes(state.groupInfo.createdBy)) {
+        throw new functions.https.HttpsError('failed-precondition', 'Cannot remove group creator');
+      }
+
+      const changed = changeGroupMembers(state, add, remove);
+      transaction.update(conversationRef(conversationId), {
+        members: changed.members,
+        'groupInfo.admins': changed.admins,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+      return changed.members;
+    });
+
+    return { members };
+  } catch (error) {
+    console.error('Error changing chat group members:', error);
+    throw toHttpsError(error, 'Failed to change group members');
+  }
+});
+
+/**
+ * Leave a group. Its creator cannot leave; the caller revokes the group key
+ * before leaving, while still a member.
+ */
+export const leaveChatGroup = functions.https.onCall(async (data, context) => {
+  const userId = requireAuth(context);
+  const conversationId = requireId(data?.conversationId, 'conversation ID');
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const conversation = await transaction.get(conversationRef(conversationId));
+      assertMember(conversation, userId);
+
+      const state = conversation.data() as ConversationState;
+      if (state.type !== 'group') {
+        throw new functions.https.HttpsError('failed-precondition', 'Conversation is not a group');
+      }
+      if (state.groupInfo?.createdBy === userId) {
+        throw new functions.https.HttpsError('failed-precondition', 'Group creator cannot leave. Transfer ownership first.');
+      }
+
+      const changed = changeGroupMembers(state, [], [userId]);
+      transaction.update(conversation.ref, {
+        members: changed.members,
+        'groupInfo.admins': changed.admins,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error leaving chat group:', error);
+    throw toHttpsError(error, 'Failed to leave group');
+  }
+});
+
+/**
+ * Announce member, name and disappearing-message changes in a group
+ */
+export const onConversationUpdated = functions.firestore
+  .document(`${CONVERSATIONS}/{conversationId}`)
+  .onUpdate(async (change) => {
+    const texts = groupChangeMessages(
+      change.before.data() as ConversationState,
+      change.after.data() as ConversationState
+    );
+    if (texts.length === 0) {
+      return null;
+    }
+
+    try {
+      const batch = db.batch();
+      const now = admin.firestore.Timestamp.now();
+      texts.forEach((text) => {
+        batch.set(change.after.ref.collection(MESSAGES).doc(), {
+          senderId: 'system',
+          text,
+          timestamp: now,
+          type: 'system',
+        });
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error(`Error announcing changes to ${change.after.id}:`, error);
+    }
+
+    return null;
+  });
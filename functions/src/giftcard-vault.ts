@@ -0,0 +1,453 @@
+/**
+ * Firebase Cloud Functions for the giftcard code vault
+ * Codes are stored sealed in their own collection, away from the product
+ * catalog, and are only ever decrypted here for the owner of a paid order or
+ * an admin with the reveal permission. Every reveal is logged.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { codeHint, fingerprintCode, normaliseCode, openCode, sealCode, SealedCode } from './utils/code-vault';
+import { toHttpsError } from './utils/errors';
+import { requirePermission } from './utils/admin-roles';
+import { ApprovedChange, approvalAuditFields } from './utils/approvals';
+import { PURCHASE_ORDERS, PurchaseOrder, receivePurchaseOrderBatch } from './utils/purchase-orders';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+export const GIFTCARD_VAULT = 'giftcard-vault';
+const GIFTCARD_REVEALS = 'giftcard-reveals';
+
+// Codes are added in one transaction, which is capped at 500 writes
+const MAX_CODES_PER_CALL = 400;
+const MIGRATION_PAGE_SIZE = 100;
+
+export interface VaultSerial {
+  productId: string;
+  denomination: number;
+  status: 'available' | 'reserved' | 'sold';
+  orderId?: string;
+  reservedUntil?: admin.firestore.Timestamp;
+  soldAt?: admin.firestore.Timestamp;
+  sealed: SealedCode;
+  hint: string;
+  // Who supplied the code, for supplier stats and settlement statements
+  supplierId: string | null;
+  purchaseOrderId: string | null;
+  // Set on codes written by a catalog import, which can revert them
+  importJobId?: string;
+  createdAt: admin.firestore.Timestamp;
+}
+
+// What an order item holds for each of its codes
+export interface CodeRef {
+  serialId: string;
+  hint: string;
+}
+
+// A plaintext serial as product documents stored it before the vault
+interface LegacySerial {
+  code: string;
+  pin?: unknown;
+  status?: VaultSerial['status'];
+  orderId?: string;
+  reservedUntil?: admin.firestore.Timestamp;
+  soldAt?: admin.firestore.Timestamp;
+}
+
+// A sealed code waiting in an approval proposal to be stocked
+export interface PreparedCode {
+  serialId: string;
+  sealed: SealedCode;
+  hint: string;
+}
+
+function validateCodes(codes: unknown): Array<{ code: string; pin?: string }> {
+  if (!Array.isArray(codes) || codes.length === 0 || codes.length > MAX_CODES_PER_CALL) {
+    throw new functions.https.HttpsError('invalid-argument', `Between 1 and ${MAX_CODES_PER_CALL} codes are required`);
+  }
+
+  return codes.map((entry: unknown) => {
+    const fields = (typeof entry === 'object' && entry !== null ? entry : {}) as { code?: unknown; pin?: unknown };
+    const code = typeof entry === 'string' ? entry : fields.code;
+    const pin = typeof entry === 'string' ? undefined : fields.pin;
+
+    if (typeof code !== 'string' || !normaliseCode(code)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Invalid code');
+    }
+
+    return { code: code.trim(), ...(typeof pin === 'string' && pin ? { pin: pin.trim() } : {}) };
+  });
+}
+
+function isLegacySerial(serial: unknown): serial is LegacySerial {
+  const code = typeof serial === 'object' && serial !== null ? (serial as { code?: unknown }).code : undefined;
+  return typeof code === 'string' && !!normaliseCode(code);
+}
+
+export function newVaultSerial(
+  productId: string,
+  denomination: number,
+  secret: { code: string; pin?: string },
+  supplierId: string | null,
+  now: admin.firestore.Timestamp
+): VaultSerial {
+  return {
+    productId,
+    denomination,
+    status: 'available',
+    sealed: sealCode(secret),
+    hint: codeHint(secret.code),
+    supplierId,
+    purchaseOrderId: null,
+    createdAt: now,
+  };
+}
+
+/**
+ * Validate and seal codes for a stocking proposal
+ * Proposals only ever hold sealed codes; repeated codes within one upload count once
+ */
+export function prepareGiftcardCodes(codes: unknown): PreparedCode[] {
+  const unique = new Map(validateCodes(codes).map(secret => [fingerprintCode(secret.code), secret]));
+
+  return [...unique].map(([serialId, secret]) => ({
+    serialId,
+    sealed: sealCode(secret),
+    hint: codeHint(secret.code),
+  }));
+}
+
+/**
+ * Add sealed codes to the vault and to a denomination's stock once approved
+ * Codes already in the vault are skipped and reported back by their hint.
+ * With a purchase order the added codes are received against its line and
+ * credited to its supplier; otherwise the product's supplier is credited.
+ * Batches are proposed and approved through proposeAdminChange and reviewAdminChange.
+ */
+export async function stockGiftcardCodes(
+  productId: string,
+  denomination: number,
+  codes: PreparedCode[],
+  approval: ApprovedChange,
+  purchaseOrderId: string | null = null
+): Promise<{ added: number; duplicates: string[]; actionId: string }> {
+  const productRef = db.collection('products').doc(productId);
+  const orderRef = purchaseOrderId ? db.collection(PURCHASE_ORDERS).doc(purchaseOrderId) : null;
+  const now = admin.firestore.Timestamp.now();
+
+  const result = await db.runTransaction(async (transaction) => {
+    const [productDoc, orderDoc, ...serialDocs] = await Promise.all([
+      transaction.get(productRef),
+      orderRef ? transaction.get(orderRef) : Promise.resolve(null),
+      ...codes.map(code => transaction.get(db.collection(GIFTCARD_VAULT).doc(code.serialId))),
+    ]);
+
+    const denominations: Array<{ value: number; stock: number }> = productDoc.data()?.denominations || [];
+    const target = denominations.find(d => d.value === denomination);
+
+    if (!productDoc.exists || !target) {
+      throw new functions.https.HttpsError('not-found', 'Product denomination not found');
+    }
+
+    if (orderDoc && !orderDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Purchase order not found');
+    }
+
+    const order = orderDoc?.data() as PurchaseOrder | undefined;
+    const supplierId = order ? order.supplierId : productDoc.data()?.supplierId || null;
+
+    const duplicates: string[] = [];
+    let added = 0;
+
+    serialDocs.forEach((serialDoc, i) => {
+      if (serialDoc.exists) {
+        duplicates.push(codes[i].hint);
+        return;
+      }
+      const serial: VaultSerial = {
+        productId,
+        denomination,
+        status: 'available',
+        sealed: codes[i].sealed,
+        hint: codes[i].hint,
+        supplierId,
+        purchaseOrderId,
+        createdAt: now,
+      };
+      transaction.create(serialDoc.ref, serial);
+      added++;
+    });
+
+    if (order && added > 0) {
+      transaction.update(orderRef!, receivePurchaseOrderBatch(order, {
+        approvalId: approval.approvalId,
+        productId,
+        denomination,
+        quantity: added,
+        receivedAt: now,
+      }));
+    }
+
+    if (added > 0) {
+      target.stock = (target.stock || 0) + added;
+      transaction.update(productRef, {
+        denominations,
+        ...(productDoc.data()?.status === 'out_of_stock' ? { status: 'active' } : {}),
+        updatedAt: now,
+      });
+    }
+
+    return { added, duplicates };
+  });
+
+  const action = await db.collection('admin-actions').add({
+    type: 'giftcard_codes_added',
+    ...approvalAuditFields(approval),
+    productId,
+    denomination,
+    purchaseOrderId,
+    added: result.added,
+    duplicates: result.duplicates.length,
+    timestamp: now,
+  });
+
+  return { ...result, actionId: action.id };
+}
+
+/**
+ * Decrypt one code of an order
+ * Owners can reveal the codes of their completed orders. Admins need the reveal
+ * permission and a reason. Every reveal is logged before the code is returned.
+ */
+export const revealGiftcardCode = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  const { orderId, serialId, reason } = data || {};
+
+  if (typeof orderId !== 'string' || !orderId || typeof serialId !== 'string' || !serialId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Order ID and serial ID are required');
+  }
+
+  try {
+    const [orderDoc, serialDoc] = await Promise.all([
+      db.collection('orders').doc(orderId).get(),
+      db.collection(GIFTCARD_VAULT).doc(serialId).get(),
+    ]);
+
+    const order = orderDoc.data();
+    const serial = serialDoc.data() as VaultSerial | undefined;
+    const inOrder = (order?.items || []).some((item: { codeRefs?: CodeRef[] }) =>
+      (item.codeRefs || []).some(ref => ref.serialId === serialId)
+    );
+
+    if (!order || !serial || !inOrder || serial.status !== 'sold' || serial.orderId !== orderId) {
+      throw new functions.https.HttpsError('not-found', 'Code not found');
+    }
+
+    let role: 'owner' | 'admin';
+
+    if (order.userId === userId) {
+      if (order.status !== 'completed') {
+        throw new functions.https.HttpsError('failed-precondition', `Order is ${order.status}`);
+      }
+      role = 'owner';
+    } else {
+      requirePermission(context, 'giftcard-codes:reveal');
+      if (!reason) {
+        throw new functions.https.HttpsError('invalid-argument', 'A reason is required to reveal a customer code');
+      }
+      role = 'admin';
+    }
+
+    await db.collection(GIFTCARD_REVEALS).add({
+      serialId,
+      orderId,
+      userId,
+      role,
+      reason: role === 'admin' ? String(reason).slice(0, 200) : null,
+      revealedAt: admin.firestore.Timestamp.now(),
+    });
+
+    const secret = openCode(serial.sealed);
+    return { serialId, code: secret.code, pin: secret.pin || null };
+  } catch (error) {
+    console.error('Error revealing giftcard code:', error);
+    throw toHttpsError(error, 'Failed to reveal giftcard code');
+  }
+});
+
+/**
+ * Vault stock per product and denomination (admin only)
+ * With a product ID the product's serials are listed too, redacted to their hints
+ */
+export const getGiftcardInventory = functions.https.onCall(async (data, context) => {
+  requirePermission(context, 'catalog:read');
+  const { productId } = data || {};
+
+  try {
+    let query: admin.firestore.Query = db.collection(GIFTCARD_VAULT);
+    if (typeof productId === 'string' && productId) {
+      query = query.where('productId', '==', productId);
+    }
+
+    // The sealed code never leaves the vault on this path
+    const snapshot = await query.select('productId', 'denomination', 'status', 'orderId', 'hint').get();
+    const counts = new Map<string, { productId: string; denomination: number; available: number; reserved: number; sold: number }>();
+
+    snapshot.docs.forEach(doc => {
+      const { productId: id, denomination, status } = doc.data();
+      const key = `${id}:${denomination}`;
+      const count = counts.get(key) || { productId: id, denomination, available: 0, reserved: 0, sold: 0 };
+      if (status === 'available' || status === 'reserved' || status === 'sold') {
+        count[status as 'available' | 'reserved' | 'sold']++;
+      }
+      counts.set(key, count);
+    });
+
+    return {
+      denominations: [...counts.values()],
+      serials: productId
+        ? snapshot.docs.map(doc => ({
+          serialId: doc.id,
+          denomination: doc.get('denomination'),
+          status: doc.get('status'),
+          orderId: doc.get('orderId') || null,
+          hint: doc.get('hint'),
+        }))
+        : [],
+    };
+  } catch (error) {
+    console.error('Error loading giftcard inventory:', error);
+    throw toHttpsError(error, 'Failed to load giftcard inventory');
+  }
+});
+
+/**
+ * Move plaintext serials out of product documents into the vault (admin only)
+ * Also rewrites orders and open reservations to reference vault serials.
+ * Safe to run more than once; already migrated documents are left alone.
+ */
+export const migrateSerialsToVault = functions
+  .runWith({ timeoutSeconds: 540 })
+  .https.onCall(async (data, context) => {
+    const uid = requirePermission(context, 'catalog:write');
+
+    try {
+      const now = admin.firestore.Timestamp.now();
+      let serials = 0;
+      let products = 0;
+      let orders = 0;
+
+      const productsSnapshot = await db.collection('products').get();
+
+      for (const productDoc of productsSnapshot.docs) {
+        const denominations: Array<{ value: number; serials?: unknown[]; [field: string]: unknown }> =
+          productDoc.data().denominations || [];
+        if (!denominations.some(d => Array.isArray(d.serials))) continue;
+        const supplierId: string | null = productDoc.data().supplierId || null;
+
+        const writes: Array<{ ref: admin.firestore.DocumentReference; data: VaultSerial }> = [];
+
+        const migrated = denominations.map(({ serials: legacy, ...denomination }) => {
+          for (const serial of (legacy || []).filter(isLegacySerial)) {
+            const vaultSerial: VaultSerial = {
+              ...newVaultSerial(productDoc.id, denomination.value, {
+                code: serial.code,
+                ...(typeof serial.pin === 'string' && serial.pin ? { pin: serial.pin } : {}),
+              }, supplierId, now),
+              status: serial.status || 'available',
+              ...(serial.orderId ? { orderId: serial.orderId } : {}),
+              ...(serial.reservedUntil ? { reservedUntil: serial.reservedUntil } : {}),
+              ...(serial.soldAt ? { soldAt: serial.soldAt } : {}),
+            };
+            writes.push({ ref: db.collection(GIFTCARD_VAULT).doc(fingerprintCode(serial.code)), data: vaultSerial });
+          }
+          const available = (legacy || []).filter((serial: unknown) =>
+            typeof serial === 'object' && serial !== null && (serial as { status?: unknown }).status === 'available').length;
+          return { ...denomination, stock: available };
+        });
+
+        for (let i = 0; i < writes.length; i += MAX_CODES_PER_CALL) {
+          const batch = db.batch();
+          writes.slice(i, i + MAX_CODES_PER_CALL).forEach(write => batch.set(write.ref, write.data));
+          await batch.commit();
+        }
+
+        // Only strip the product once every code is safely in the vault
+        await productDoc.ref.update({ denominations: migrated, updatedAt: now });
+        serials += writes.length;
+        products++;
+      }
+
+      let lastDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+      let page: admin.firestore.QuerySnapshot;
+
+      do {
+        let query = db.collection('orders').orderBy(admin.firestore.FieldPath.documentId()).limit(MIGRATION_PAGE_SIZE);
+        if (lastDoc) query = query.startAfter(lastDoc);
+        page = await query.get();
+
+        const batch = db.batch();
+        let changed = 0;
+
+        for (const orderDoc of page.docs) {
+          const items: Array<Record<string, any>> = orderDoc.data().items || [];
+          if (!items.some(item => Array.isArray(item.codes))) continue;
+
+          batch.update(orderDoc.ref, {
+            items: items.map(({ codes, ...item }) => ({
+              ...item,
+              codeRefs: [
+                ...(item.codeRefs || []),
+                ...(codes || []).map((code: string) => ({ serialId: fingerprintCode(code), hint: codeHint(code) })),
+              ],
+            })),
+            updatedAt: now,
+          });
+
+          const reservationRef = db.collection('order-reservations').doc(orderDoc.id);
+          const reservation = await reservationRef.get();
+          const lines: Array<Record<string, any>> = reservation.data()?.lines || [];
+          if (lines.some(line => Array.isArray(line.codes))) {
+            batch.update(reservationRef, {
+              lines: lines.map(({ codes, ...line }) => ({
+                ...line,
+                serialIds: (codes || []).map((code: string) => fingerprintCode(code)),
+              })),
+            });
+          }
+          changed++;
+        }
+
+        if (changed > 0) {
+          await batch.commit();
+          orders += changed;
+        }
+
+        lastDoc = page.docs[page.docs.length - 1];
+      } while (page.size === MIGRATION_PAGE_SIZE);
+
+      await db.collection('admin-actions').add({
+        type: 'giftcard_serials_migrated',
+        adminId: uid,
+        products,
+        serials,
+        orders,
+        timestamp: now,
+      });
+
+      return { success: true, products, serials, orders };
+    } catch (error) {
+      console.error('Error migrating serials to the vault:', error);
+      throw toHttpsError(error, 'Failed to migrate serials to the vault');
+    }
+  });
@@ -8,19 +8,138 @@ import * as admin from 'firebase-admin';
 // Initialize Firebase Admin
 admin.initializeApp();
 
-// Export PXL Currency Functions
+// Export PXL exchange-rate engine
+export {
+  runRateEngine,
+  previewRateModel
+} from './rate-engine';
+
+// Export tier engine
+export {
+  onUserWalletChange,
+  evaluateTiers,
+  recalculateTier
+} from './tier-engine';
+
+// Export PXL purchase processing
 export {
   processPXLPurchase,
-  updateExchangeRate,
-  simulateRateFluctuation
-} from './pxl-currency';
+  createPXLPurchase,
+  quotePXLPurchase,
+  expirePXLPurchases
+} from './process-pxl-purchase';
+
+// Export PXL ledger functions
+export {
+  getLedgerStatement,
+  reconcileLedgerBalances
+} from './ledger';
+
+// Export PXL transfer functions
+export {
+  transferPXL,
+  reviewPXLTransferHold
+} from './pxl-transfer';
+
+// Export scheduled PXL transfer functions
+export {
+  createScheduledTransfer,
+  updateScheduledTransfer,
+  cancelScheduledTransfer,
+  executeScheduledTransfers
+} from './scheduled-transfers';
+
+// Export PXL payment request functions
+export {
+  createPaymentRequest,
+  payPaymentRequest,
+  declinePaymentRequest,
+  cancelPaymentRequest,
+  expirePaymentRequests
+} from './payment-requests';
+
+// Export giftcard order functions
+export {
+  quoteOrder,
+  createOrder,
+  confirmOrderPayment,
+  cancelOrder,
+  refundOrder,
+  releaseExpiredReservations
+} from './orders';
+
+// Export admin role functions
+export {
+  setAdminRole,
+  claimSuperAdmin
+} from './admin-roles';
 
-// Export secure PXL purchase processing
-export { processPXLPurchase as processSecurePXLPurchase } from './process-pxl-purchase';
+// Export maker-checker approval functions
+export {
+  proposeAdminChange,
+  reviewAdminChange,
+  expireAdminChanges
+} from './admin-approvals';
+
+// Export giftcard code vault functions
+export {
+  revealGiftcardCode,
+  getGiftcardInventory,
+  migrateSerialsToVault
+} from './giftcard-vault';
+
+// Export supplier purchase order and settlement functions
+export {
+  createPurchaseOrder,
+  cancelPurchaseOrder,
+  onPurchaseOrderWritten,
+  refreshSupplierStats,
+  generateSupplierStatement,
+  settleSupplierStatement
+} from './purchase-orders';
+
+// Export bulk catalog import functions
+export {
+  createCatalogImport,
+  validateCatalogImport,
+  onCatalogImportQueued,
+  revertCatalogImport
+} from './catalog-import';
+
+// Export cashback vesting and clawback functions
+export {
+  vestCashback,
+  onOrderReversed
+} from './cashback';
+
+// Export payment provider webhooks
+export {
+  myfatoorahWebhook,
+  stripeWebhook,
+  paypalWebhook,
+  replayPaymentWebhook
+} from './payment-webhooks';
+
+// Export hosted payment invoices
+export {
+  createPaymentInvoice
+} from './payment-invoices';
+
+// Export chat message functions
+export {
+  sendChatMessage,
+  editChatMessage,
+  deleteChatMessage,
+  reactToChatMessage,
+  markChatMessages,
+  deleteChatConversation,
+  updateChatGroup,
+  changeChatGroupMembers,
+  leaveChatGroup,
+  onConversationUpdated
+} from './chat-messages';
 
 // TODO: Add more function exports as they are created:
-// - Payment processing functions (Stripe/PayPal webhooks)
 // - Giftcard purchase functions
-// - PXL transfer functions
 // - User tier progression functions
 // - Admin functions
@@ -0,0 +1,176 @@
+/**
+ * Firebase Cloud Functions for the PXL ledger
+ * Approved balance adjustments, statements and balance reconciliation
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  postJournalEntries,
+  replayAccountBalance,
+  userAccountId,
+  LEDGER_ACCOUNTS,
+  LEDGER_ENTRIES,
+  SYSTEM_ACCOUNTS,
+} from './utils/ledger';
+import { toHttpsError } from './utils/errors';
+import { ApprovedChange, approvalAuditFields } from './utils/approvals';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+// Drift smaller than this is treated as rounding noise
+const DRIFT_TOLERANCE = 0.000001;
+
+/**
+ * Credit (positive amount) or debit (negative amount) a user's PXL wallet once approved
+ * Posted against the adjustments system account; one approval posts at most once.
+ * Adjustments are proposed and approved through proposeAdminChange and reviewAdminChange.
+ */
+export async function applyBalanceAdjustment(
+  userId: string,
+  amount: number,
+  reason: string,
+  approval: ApprovedChange
+): Promise<{ entryId: string; balance: number; actionId: string }> {
+  if (!Number.isFinite(amount) || amount === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid adjustment amount');
+  }
+
+  const userAccount = userAccountId(userId);
+  const magnitude = Math.abs(amount);
+
+  const entry = await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(db.collection('users').doc(userId));
+    if (!userDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'User not found');
+    }
+
+    const [result] = await postJournalEntries(transaction, [{
+      type: 'adjustment',
+      legs: [
+        { accountId: SYSTEM_ACCOUNTS.adjustments, direction: amount > 0 ? 'debit' : 'credit', amount: magnitude },
+        { accountId: userAccount, direction: amount > 0 ? 'credit' : 'debit', amount: magnitude },
+      ],
+      idempotencyKey: `adjustment:${approval.approvalId}`,
+      description: reason,
+      metadata: { approvalId: approval.approvalId },
+    }]);
+    return result;
+  });
+
+  const action = await db.collection('admin-actions').add({
+    type: 'pxl_balance_adjusted',
+    ...approvalAuditFields(approval),
+    userId,
+    amount,
+    entryId: entry.entryId,
+    reason,
+    timestamp: admin.firestore.Timestamp.now(),
+  });
+
+  return { entryId: entry.entryId, balance: entry.balances[userAccount], actionId: action.id };
+}
+
+/**
+ * Get ledger entries for the calling user's PXL account
+ */
+export const getLedgerStatement = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const accountId = userAccountId(context.auth.uid);
+  const limitCount = Math.min(data?.limit || 50, 200);
+
+  try {
+    const [accountDoc, entries] = await Promise.all([
+      db.collection(LEDGER_ACCOUNTS).doc(accountId).get(),
+      db.collection(LEDGER_ENTRIES)
+        .where('accountIds', 'array-contains', accountId)
+        .orderBy('createdAt', 'desc')
+        .limit(limitCount)
+        .get(),
+    ]);
+
+    return {
+      accountId,
+      balance: accountDoc.exists ? accountDoc.data()!.balance : 0,
+      entries: entries.docs.map(doc => {
+        const entry = doc.data();
+        const leg = (entry.legs || []).find((l: { accountId: string }) => l.accountId === accountId);
+        return {
+          id: doc.id,
+          type: entry.type,
+          description: entry.description,
+          direction: leg?.direction,
+          amount: leg?.amount || 0,
+          balanceAfter: leg?.balanceAfter,
+          createdAt: entry.createdAt.toMillis(),
+        };
+      }),
+    };
+  } catch (error) {
+    console.error('Error loading ledger statement:', error);
+    throw toHttpsError(error, 'Failed to load ledger statement');
+  }
+});
+
+/**
+ * Scheduled reconciliation of user wallets against the ledger
+ * Replays each user account, compares it with the stored running balance and
+ * the users document projection, and records any drift for review
+ */
+export const reconcileLedgerBalances = functions.pubsub
+  .schedule('every 24 hours')
+  .onRun(async () => {
+    try {
+      const accounts = await db.collection(LEDGER_ACCOUNTS).where('type', '==', 'user').get();
+      const drifts: Array<Record<string, unknown>> = [];
+
+      for (const accountDoc of accounts.docs) {
+        const account = accountDoc.data();
+        const replayed = await replayAccountBalance(accountDoc.id);
+        const userDoc = await db.collection('users').doc(account.ownerId).get();
+        const projected = userDoc.data()?.wallets?.pxl?.balance ?? null;
+
+        const ledgerDrift = Math.abs(replayed.balance - account.balance) > DRIFT_TOLERANCE;
+        const projectionDrift = projected === null || Math.abs(replayed.balance - projected) > DRIFT_TOLERANCE;
+
+        if (ledgerDrift || projectionDrift) {
+          drifts.push({
+            accountId: accountDoc.id,
+            userId: account.ownerId,
+            replayedBalance: replayed.balance,
+            accountBalance: account.balance,
+            projectedBalance: projected,
+            entryCount: replayed.entryCount,
+          });
+        }
+
+        await accountDoc.ref.update({
+          drift: ledgerDrift || projectionDrift,
+          lastReconciledAt: admin.firestore.Timestamp.now(),
+        });
+      }
+
+      await db.collection('ledger-reconciliations').add({
+        accountsChecked: accounts.size,
+        driftCount: drifts.length,
+        drifts,
+        timestamp: admin.firestore.Timestamp.now(),
+      });
+
+      if (drifts.length > 0) {
+        console.warn(`Ledger reconciliation found ${drifts.length} drifted accounts`);
+      } else {
+        console.log(`Ledger reconciliation clean (${accounts.size} accounts)`);
+      }
+    } catch (error) {
+      console.error('Error in ledger reconciliation:', error);
+    }
+  });
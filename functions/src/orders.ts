@@ -0,0 +1,1008 @@
+/**
+ * Firebase Cloud Functions for giftcard orders
+ * Reserves serial codes inside a transaction so no code is ever sold twice.
+ * Codes live sealed in the giftcard vault; orders only hold references to them.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  entryIdForKey,
+  postJournalEntries,
+  userAccountId,
+  SYSTEM_ACCOUNTS,
+} from './utils/ledger';
+import { calculateGiftcardPricing } from './utils/pxl-calculations';
+import { cashbackAccrualEntry, cashbackHoldDays, recordCashbackAccrual } from './cashback';
+import {
+  fetchPaymentStatus,
+  paymentMatchesExpectation,
+  PaymentExpectation,
+  PaymentProvider,
+} from './utils/payment-providers';
+import { hashOrderLines, signQuote, verifyQuote, QuoteError, QuoteTerms, QUOTE_TTL_SECONDS } from './utils/quotes';
+import { notifyUser } from './utils/notifications';
+import { toHttpsError } from './utils/errors';
+import { hasPermission, requirePermission } from './utils/admin-roles';
+import { GIFTCARD_VAULT, CodeRef, VaultSerial } from './giftcard-vault';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const ORDERS = 'orders';
+// Codes held by unpaid orders; only copied onto the order once it is paid
+const ORDER_RESERVATIONS = 'order-reservations';
+// One document per provider payment, so a payment can only ever settle one order
+const ORDER_PAYMENTS = 'order-payments';
+
+const RESERVATION_MINUTES = 15;
+const MAX_ORDER_LINES = 20;
+const MAX_LINE_QUANTITY = 10;
+
+export type OrderPaymentMethod = 'pxl' | 'stripe' | 'paypal' | 'myfatoorah';
+
+const PAYMENT_METHODS: OrderPaymentMethod[] = ['pxl', 'stripe', 'paypal', 'myfatoorah'];
+
+interface OrderLineInput {
+  productId: string;
+  denomination: number;
+  quantity: number;
+}
+
+interface Denomination {
+  value: number;
+  stock: number;
+  [key: string]: unknown;
+}
+
+interface ReservedLine {
+  productId: string;
+  denomination: number;
+  serialIds: string[];
+}
+
+// A line a paid order must be filled with, and the serials it may still hold for it
+interface FillLine extends ReservedLine {
+  quantity: number;
+}
+
+function orderIdForKey(userId: string, idempotencyKey: string): string {
+  return `ord_${entryIdForKey(`order:${userId}:${idempotencyKey}`)}`;
+}
+
+function validateOrderLines(items: unknown): OrderLineInput[] {
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_ORDER_LINES) {
+    throw new functions.https.HttpsError('invalid-argument', `Orders must have between 1 and ${MAX_ORDER_LINES} items`);
+  }
+
+  const merged = new Map<string, OrderLineInput>();
+
+  items.forEach((entry: unknown) => {
+    const item = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    const { productId } = item;
+    const quantity = Number(item.quantity);
+    const denomination = Number(item.denomination);
+
+    if (typeof productId !== 'string' || !productId) {
+      throw new functions.https.HttpsError('invalid-argument', 'Invalid product');
+    }
+    if (!Number.isFinite(denomination) || denomination <= 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'Invalid denomination');
+    }
+
+    // Codes are matched back to lines by denomination, so each product/value pair appears once
+    const key = `${productId}:${denomination}`;
+    const total = (merged.get(key)?.quantity || 0) + quantity;
+
+    if (!Number.isInteger(quantity) || quantity < 1 || total > MAX_LINE_QUANTITY) {
+      throw new functions.https.HttpsError('invalid-argument', `Quantity must be between 1 and ${MAX_LINE_QUANTITY}`);
+    }
+
+    merged.set(key, { productId, denomination, quantity: total });
+  });
+
+  return [...merged.values()];
+}
+
+function lineKey(productId: string, denomination: number): string {
+  return `${productId}:${denomination}`;
+}
+
+/**
+ * Find vault serials that can be reserved for a cart line inside a transaction
+ * Serials already held by excludeOrderId are never returned
+ */
+async function findReservableSerials(
+  transaction: admin.firestore.Transaction,
+  productId: string,
+  denomination: number,
+  quantity: number,
+  now: admin.firestore.Timestamp,
+  excludeOrderId?: string
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const serials = db.collection(GIFTCARD_VAULT)
+    .where('productId', '==', productId)
+    .where('denomination', '==', denomination);
+
+  const available = await transaction.get(serials.where('status', '==', 'available').limit(quantity));
+  if (available.size >= quantity) return available.docs;
+
+  // Reservations left behind by abandoned checkouts can be taken over once they lapse
+  const lapsed = await transaction.get(serials
+    .where('status', '==', 'reserved')
+    .where('reservedUntil', '<=', now)
+    .limit(quantity - available.size + (excludeOrderId ? MAX_LINE_QUANTITY : 0)));
+  const takeable = lapsed.docs.filter(serial => !excludeOrderId || serial.get('orderId') !== excludeOrderId);
+
+  return [...available.docs, ...takeable.slice(0, quantity - available.size)];
+}
+
+/**
+ * Serials that leave stock when they are reserved
+ * A lapsed reservation taken over from another order already left stock with
+ * that order, which no longer releases it
+ */
+function countFromStock(serials: admin.firestore.DocumentSnapshot[]): number {
+  return serials.filter(serial => serial.get('status') === 'available').length;
+}
+
+/**
+ * Load the vault serials held by a reservation inside a transaction
+ */
+async function getReservedSerials(
+  transaction: admin.firestore.Transaction,
+  lines: ReservedLine[]
+): Promise<admin.firestore.DocumentSnapshot[]> {
+  const serialIds = lines.reduce<string[]>((ids, line) => ids.concat(line.serialIds || []), []);
+  return Promise.all(serialIds.map(id => transaction.get(db.collection(GIFTCARD_VAULT).doc(id))));
+}
+
+/**
+ * Mark an order's reserved serials as sold and return the code references per line
+ * Serials no longer reserved for the order are skipped
+ */
+function markSerialsSold(
+  transaction: admin.firestore.Transaction,
+  serials: admin.firestore.DocumentSnapshot[],
+  orderId: string,
+  now: admin.firestore.Timestamp
+): Map<string, CodeRef[]> {
+  const codes = new Map<string, CodeRef[]>();
+
+  for (const serial of serials) {
+    const data = serial.data() as VaultSerial | undefined;
+    if (!data || data.status !== 'reserved' || data.orderId !== orderId) continue;
+
+    const key = lineKey(data.productId, data.denomination);
+    codes.set(key, [...(codes.get(key) || []), { serialId: serial.id, hint: data.hint }]);
+    transaction.update(serial.ref, {
+      status: 'sold',
+      soldAt: now,
+      reservedUntil: admin.firestore.FieldValue.delete(),
+    });
+  }
+
+  return codes;
+}
+
+/**
+ * Return an order's reserved serials to stock
+ * Returns the number released per line
+ */
+function releaseSerials(
+  transaction: admin.firestore.Transaction,
+  serials: admin.firestore.DocumentSnapshot[],
+  orderId: string
+): Map<string, number> {
+  const released = new Map<string, number>();
+
+  for (const serial of serials) {
+    const data = serial.data() as VaultSerial | undefined;
+    if (!data || data.status !== 'reserved' || data.orderId !== orderId) continue;
+
+    const key = lineKey(data.productId, data.denomination);
+    released.set(key, (released.get(key) || 0) + 1);
+    transaction.update(serial.ref, {
+      status: 'available',
+      orderId: admin.firestore.FieldValue.delete(),
+      reservedUntil: admin.firestore.FieldValue.delete(),
+    });
+  }
+
+  return released;
+}
+
+/**
+ * Load the products referenced by a reservation inside a transaction
+ */
+async function getReservedProducts(
+  transaction: admin.firestore.Transaction,
+  lines: ReservedLine[]
+): Promise<Map<string, admin.firestore.DocumentSnapshot>> {
+  const productIds = [...new Set(lines.map(line => line.productId))];
+  const docs = await Promise.all(productIds.map(id => transaction.get(db.collection('products').doc(id))));
+  return new Map(docs.map(doc => [doc.id, doc]));
+}
+
+/**
+ * Move denomination stock by a count per line, keyed by lineKey
+ */
+function adjustStock(
+  transaction: admin.firestore.Transaction,
+  products: Map<string, admin.firestore.DocumentSnapshot>,
+  changes: Map<string, number>,
+  now: admin.firestore.Timestamp
+): void {
+  for (const productDoc of products.values()) {
+    const denominations: Denomination[] = productDoc.data()?.denominations || [];
+    let changed = false;
+
+    denominations.forEach(denomination => {
+      const change = changes.get(lineKey(productDoc.id, denomination.value)) || 0;
+      if (change === 0) return;
+      denomination.stock = Math.max(0, (denomination.stock || 0) + change);
+      changed = true;
+    });
+
+    if (changed) {
+      transaction.update(productDoc.ref, { denominations, updatedAt: now });
+    }
+  }
+}
+
+/**
+ * Lock the price of a cart for a short window
+ * createOrder charges the quoted totals when it is given the quote ID
+ */
+export const quoteOrder = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  const lines = validateOrderLines(data?.items);
+  const productIds = [...new Set(lines.map(line => line.productId))];
+
+  try {
+    const [currencyDoc, userDoc, ...productDocs] = await Promise.all([
+      db.doc('pxl-currency/main').get(),
+      db.doc(`users/${userId}`).get(),
+      ...productIds.map(id => db.collection('products').doc(id).get()),
+    ]);
+
+    if (!userDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'User not found');
+    }
+
+    const products = new Map(productDocs.map(doc => [doc.id, doc.data()]));
+    let usdTotal = 0;
+    let pxlSubtotal = 0;
+    let pxlTotal = 0;
+    let cashbackTotal = 0;
+
+    for (const line of lines) {
+      const product = products.get(line.productId);
+
+      if (!product || product.status === 'inactive') {
+        throw new functions.https.HttpsError('not-found', 'Product is no longer available');
+      }
+
+      const pricing = calculateGiftcardPricing(line.denomination, !!product.featured);
+      usdTotal += pricing.usd * line.quantity;
+      pxlSubtotal += pricing.basePxl * line.quantity;
+      pxlTotal += pricing.pxl * line.quantity;
+      cashbackTotal += pricing.cashbackPxl * line.quantity;
+    }
+
+    const issuedAt = Date.now();
+    const terms: QuoteTerms = {
+      kind: 'giftcard-order',
+      userId,
+      tier: userDoc.data()?.tier?.current || 'starter',
+      exchangeRate: currencyDoc.data()?.currentRate || 100,
+      usdAmount: usdTotal,
+      pxlAmount: pxlTotal,
+      bonusPxl: pxlSubtotal - pxlTotal,
+      cashbackPxl: cashbackTotal,
+      itemsHash: hashOrderLines(lines),
+      issuedAt,
+      expiresAt: issuedAt + QUOTE_TTL_SECONDS * 1000,
+    };
+
+    return {
+      quoteId: signQuote(terms),
+      totals: { usd: usdTotal, pxlSubtotal, discount: pxlSubtotal - pxlTotal, pxl: pxlTotal, cashback: cashbackTotal },
+      exchangeRate: terms.exchangeRate,
+      tier: terms.tier,
+      expiresAt: terms.expiresAt,
+    };
+  } catch (error) {
+    console.error('Error quoting order:', error);
+    throw toHttpsError(error, 'Failed to quote order');
+  }
+});
+
+/**
+ * Create an order and reserve serial codes for every cart line
+ * PXL orders are charged and fulfilled in the same transaction;
+ * card and wallet orders hold their codes until the payment is confirmed.
+ * With a quote ID the quoted totals are charged instead of live prices.
+ */
+export const createOrder = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  const { paymentMethod, idempotencyKey, quoteId } = data || {};
+  const lines = validateOrderLines(data?.items);
+
+  if (!PAYMENT_METHODS.includes(paymentMethod)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid payment method');
+  }
+
+  if (!idempotencyKey) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing idempotency key');
+  }
+
+  const orderId = orderIdForKey(userId, idempotencyKey);
+  const orderRef = db.collection(ORDERS).doc(orderId);
+  const productIds = [...new Set(lines.map(line => line.productId))];
+
+  try {
+    const currencyDoc = await db.doc('pxl-currency/main').get();
+    const currencyData = currencyDoc.data();
+    const exchangeRate = currencyData?.currentRate || 100;
+
+    return await db.runTransaction(async (transaction) => {
+      const existing = await transaction.get(orderRef);
+
+      // Retried checkouts resolve to the order created by the first attempt
+      if (existing.exists) {
+        const order = existing.data()!;
+        return { orderId, status: order.status, duplicate: true, reservedUntil: order.reservedUntil?.toMillis() || null };
+      }
+
+      // Checked after the duplicate lookup so a retried checkout still resolves once the quote lapses
+      const quote = quoteId ? verifyQuote(quoteId, { kind: 'giftcard-order', userId }) : null;
+      if (quote && quote.itemsHash !== hashOrderLines(lines)) {
+        throw new QuoteError('mismatch', 'Cart has changed since it was quoted');
+      }
+
+      const userRef = db.doc(`users/${userId}`);
+      const [userDoc, ...productDocs] = await Promise.all([
+        transaction.get(userRef),
+        ...productIds.map(id => transaction.get(db.collection('products').doc(id))),
+      ]);
+
+      if (!userDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'User not found');
+      }
+
+      const products = new Map(productDocs.map(doc => [doc.id, doc]));
+      const denominationsByProduct = new Map<string, Denomination[]>();
+      const now = admin.firestore.Timestamp.now();
+      const reservedUntil = admin.firestore.Timestamp.fromMillis(now.toMillis() + RESERVATION_MINUTES * 60 * 1000);
+
+      const items: Array<Record<string, unknown>> = [];
+      const reservedLines: ReservedLine[] = [];
+      const picked: admin.firestore.QueryDocumentSnapshot[] = [];
+      let usdTotal = 0;
+      let pxlSubtotal = 0;
+      let pxlTotal = 0;
+      let cashbackTotal = 0;
+
+      for (const line of lines) {
+        const productDoc = products.get(line.productId)!;
+        const product = productDoc.data();
+
+        if (!productDoc.exists || !product || product.status === 'inactive') {
+          throw new functions.https.HttpsError('not-found', 'Product is no longer available');
+        }
+
+        if (!denominationsByProduct.has(line.productId)) {
+          denominationsByProduct.set(line.productId, product.denominations || []);
+        }
+
+        const denomination = denominationsByProduct.get(line.productId)!
+          .find(d => d.value === line.denomination);
+        const candidates = denomination
+          ? await findReservableSerials(transaction, line.productId, line.denomination, line.quantity, now)
+          : [];
+
+        if (!denomination || candidates.length < line.quantity) {
+          throw new functions.https.HttpsError(
+            'resource-exhausted',
+            `${product.brand} $${line.denomination} only has ${candidates.length} codes left`
+          );
+        }
+
+        picked.push(...candidates);
+        denomination.stock = Math.max(0, (denomination.stock || 0) - countFromStock(candidates));
+
+        const pricing = calculateGiftcardPricing(line.denomination, !!product.featured);
+        usdTotal += pricing.usd * line.quantity;
+        pxlSubtotal += pricing.basePxl * line.quantity;
+        pxlTotal += pricing.pxl * line.quantity;
+        cashbackTotal += pricing.cashbackPxl * line.quantity;
+
+        items.push({
+          productId: line.productId,
+          brand: product.brand,
+          productName: product.name,
+          denomination: line.denomination,
+          quantity: line.quantity,
+          unitPrice: { usd: pricing.usd, pxl: pricing.pxl },
+          codeRefs: [],
+        });
+        reservedLines.push({
+          productId: line.productId,
+          denomination: line.denomination,
+          serialIds: candidates.map(serial => serial.id),
+        });
+      }
+
+      if (quote) {
+        usdTotal = quote.usdAmount;
+        pxlTotal = quote.pxlAmount;
+        cashbackTotal = quote.cashbackPxl;
+      }
+
+      const isPXL = paymentMethod === 'pxl';
+      const brands = [...new Set(items.map(item => item.brand as string))];
+      let ledgerEntryId: string | null = null;
+
+      if (isPXL) {
+        const accountId = userAccountId(userId);
+        const userTier = userDoc.data()?.tier?.current || 'starter';
+        const purchaseTxRef = db.collection('transactions').doc();
+        const cashbackAccrual = {
+          userId,
+          amount: cashbackTotal,
+          tier: userTier,
+          holdDays: cashbackHoldDays(currencyData, userTier),
+          sourceKey: orderId,
+          orderId,
+          relatedTransactionId: purchaseTxRef.id,
+          exchangeRate: quote?.exchangeRate || exchangeRate,
+        };
+
+        const [spend] = await postJournalEntries(transaction, [
+          {
+            type: 'giftcard-purchase',
+            idempotencyKey: `giftcard-purchase:${userId}:${orderId}`,
+            description: `Giftcard order ${orderId}`,
+            legs: [
+              { accountId, direction: 'debit', amount: pxlTotal },
+              { accountId: SYSTEM_ACCOUNTS.giftcardSales, direction: 'credit', amount: pxlTotal },
+            ],
+            metadata: { userId, orderId, usdAmount: usdTotal, brands },
+          },
+          // Cashback is held as pending until the hold period for the tier is over
+          ...(cashbackTotal > 0 ? [cashbackAccrualEntry(cashbackAccrual)] : []),
+        ]);
+        ledgerEntryId = spend.entryId;
+
+        transaction.set(purchaseTxRef, {
+          userId,
+          type: 'giftcard-purchase',
+          amounts: { pxl: -pxlTotal, usd: usdTotal, exchangeRate: quote?.exchangeRate || exchangeRate },
+          payment: { method: 'pxl', provider: 'ledger' },
+          giftcard: { orderId, itemCount: items.length, brands },
+          tier: { userTier, cashbackEarned: cashbackTotal },
+          ledgerEntryId: spend.entryId,
+          status: 'completed',
+          timestamps: { created: now, updated: now, completed: now },
+        });
+
+        if (cashbackTotal > 0) {
+          recordCashbackAccrual(transaction, cashbackAccrual, now);
+        }
+
+        transaction.update(userRef, {
+          'wallets.pxl.totalSpent': admin.firestore.FieldValue.increment(pxlTotal),
+        });
+
+        // Paid from the ledger, so the picked codes are sold straight away
+        items.forEach(item => {
+          item.codeRefs = picked
+            .filter(serial => serial.get('productId') === item.productId && serial.get('denomination') === item.denomination)
+            .map(serial => ({ serialId: serial.id, hint: serial.get('hint') }));
+        });
+      } else {
+        transaction.set(db.collection(ORDER_RESERVATIONS).doc(orderId), {
+          orderId,
+          userId,
+          lines: reservedLines,
+          reservedUntil,
+          createdAt: now,
+        });
+      }
+
+      picked.forEach(serial => {
+        transaction.update(serial.ref, isPXL
+          ? { status: 'sold', orderId, soldAt: now, reservedUntil: admin.firestore.FieldValue.delete() }
+          : { status: 'reserved', orderId, reservedUntil });
+      });
+
+      for (const [productId, denominations] of denominationsByProduct) {
+        const soldCount = isPXL
+          ? lines.filter(line => line.productId === productId).reduce((sum, line) => sum + line.quantity, 0)
+          : 0;
+        transaction.update(db.collection('products').doc(productId), {
+          denominations,
+          ...(soldCount > 0 ? { totalSold: admin.firestore.FieldValue.increment(soldCount) } : {}),
+          updatedAt: now,
+        });
+      }
+
+      transaction.set(orderRef, {
+        userId,
+        items,
+        payment: {
+          method: paymentMethod,
+          amount: isPXL ? pxlTotal : usdTotal,
+          currency: isPXL ? 'PXL' : 'USD',
+          paymentId: null,
+          ledgerEntryId,
+        },
+        totals: isPXL
+          ? { subtotal: pxlSubtotal, discount: pxlSubtotal - pxlTotal, cashback: cashbackTotal, total: pxlTotal }
+          : { subtotal: usdTotal, discount: 0, cashback: 0, total: usdTotal },
+        status: isPXL ? 'completed' : 'pending-payment',
+        reservedUntil: isPXL ? null : reservedUntil,
+        quote: quote ? { issuedAt: quote.issuedAt, expiresAt: quote.expiresAt, exchangeRate: quote.exchangeRate } : null,
+        idempotencyKey,
+        createdAt: now,
+        updatedAt: now,
+        completedAt: isPXL ? now : null,
+      });
+
+      return {
+        orderId,
+        status: isPXL ? 'completed' : 'pending-payment',
+        duplicate: false,
+        reservedUntil: isPXL ? null : reservedUntil.toMillis(),
+      };
+    });
+  } catch (error) {
+    console.error('Error creating order:', error);
+    throw toHttpsError(error, 'Failed to create order');
+  }
+});
+
+/**
+ * The amount and currency a payment for an order must be for
+ * Once an invoice has been created, it is what the customer pays
+ */
+export function orderPaymentExpectation(order: admin.firestore.DocumentData): PaymentExpectation {
+  return order.payment.invoice || { amount: order.payment.amount, currency: order.payment.currency };
+}
+
+/**
+ * Sell the reserved codes of a pending order once its payment has cleared
+ * Codes lost to another checkout after the reservation lapsed are replaced
+ * from stock; when stock has run out the order is left refund-due with the
+ * payment recorded and the codes it still held returned to stock.
+ * A payment that clears after the order expired or was cancelled is filled
+ * from stock the same way, since the customer has been charged for it.
+ * Safe to call more than once for the same order and payment.
+ */
+export async function fulfilOrder(
+  orderId: string,
+  payment: { provider: string; paymentId: string }
+): Promise<{ status: string; duplicate: boolean }> {
+  const orderRef = db.collection(ORDERS).doc(orderId);
+  const reservationRef = db.collection(ORDER_RESERVATIONS).doc(orderId);
+  const paymentRef = db.collection(ORDER_PAYMENTS).doc(entryIdForKey(`order-payment:${payment.provider}:${payment.paymentId}`));
+
+  const result = await db.runTransaction(async (transaction) => {
+    const [orderDoc, reservationDoc, paymentDoc] = await Promise.all([
+      transaction.get(orderRef),
+      transaction.get(reservationRef),
+      transaction.get(paymentRef),
+    ]);
+
+    if (!orderDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Order not found');
+    }
+
+    const order = orderDoc.data()!;
+
+    if (paymentDoc.exists) {
+      if (paymentDoc.data()!.orderId !== orderId) {
+        throw new functions.https.HttpsError('failed-precondition', 'Payment has already been applied to another order');
+      }
+      return { status: order.status, duplicate: true, userId: order.userId };
+    }
+
+    if (order.status === 'completed') {
+      return { status: 'completed', duplicate: true, userId: order.userId };
+    }
+
+    // Expired and cancelled orders returned their codes to stock, so every line is filled afresh
+    const released = order.status === 'expired' || order.status === 'cancelled';
+
+    if (!released && (order.status !== 'pending-payment' || !reservationDoc.exists)) {
+      throw new functions.https.HttpsError('failed-precondition', `Order is ${order.status}`);
+    }
+
+    const lines: FillLine[] = released
+      ? order.items.map((item: Record<string, unknown>) => ({
+        productId: item.productId as string,
+        denomination: item.denomination as number,
+        serialIds: [],
+        quantity: item.quantity as number,
+      }))
+      : reservationDoc.data()!.lines.map((line: ReservedLine) => ({ ...line, quantity: line.serialIds.length }));
+    const now = admin.firestore.Timestamp.now();
+    const [serials, products] = await Promise.all([
+      getReservedSerials(transaction, lines),
+      getReservedProducts(transaction, lines),
+    ]);
+    const held = serials.filter(serial => serial.get('status') === 'reserved' && serial.get('orderId') === orderId);
+
+    // The reservation lapsed and another checkout took some of the codes; replace them from stock
+    const replacements: admin.firestore.QueryDocumentSnapshot[] = [];
+    let short = false;
+
+    for (const line of lines) {
+      const missing = line.quantity - held.filter(serial => line.serialIds.includes(serial.id)).length;
+      if (missing === 0) continue;
+
+      const found = await findReservableSerials(transaction, line.productId, line.denomination, missing, now, orderId);
+      replacements.push(...found);
+      short = short || found.length < missing;
+    }
+
+    transaction.set(paymentRef, {
+      orderId,
+      userId: order.userId,
+      provider: payment.provider,
+      paymentId: payment.paymentId,
+      createdAt: now,
+    });
+    transaction.delete(reservationRef);
+
+    if (short) {
+      adjustStock(transaction, products, releaseSerials(transaction, held, orderId), now);
+      transaction.update(orderRef, {
+        'payment.provider': payment.provider,
+        'payment.paymentId': payment.paymentId,
+        status: 'refund-due',
+        statusReason: 'Codes sold out before the payment completed',
+        reservedUntil: null,
+        updatedAt: now,
+      });
+      return { status: 'refund-due', duplicate: false, userId: order.userId };
+    }
+
+    const codes = markSerialsSold(transaction, held, orderId, now);
+    const fromStock = new Map<string, number>();
+
+    for (const serial of replacements) {
+      const key = lineKey(serial.get('productId'), serial.get('denomination'));
+      codes.set(key, [...(codes.get(key) || []), { serialId: serial.id, hint: serial.get('hint') }]);
+      if (serial.get('status') === 'available') {
+        fromStock.set(key, (fromStock.get(key) || 0) - 1);
+      }
+      transaction.update(serial.ref, {
+        status: 'sold',
+        orderId,
+        soldAt: now,
+        reservedUntil: admin.firestore.FieldValue.delete(),
+      });
+    }
+
+    const items = order.items.map((item: Record<string, unknown>) => ({
+      ...item,
+      codeRefs: codes.get(lineKey(item.productId as string, item.denomination as number)) || [],
+    }));
+
+    adjustStock(transaction, products, fromStock, now);
+
+    for (const productId of new Set(lines.map(line => line.productId))) {
+      const sold = lines
+        .filter(line => line.productId === productId)
+        .reduce((sum, line) => sum + line.quantity, 0);
+      transaction.update(db.collection('products').doc(productId), {
+        totalSold: admin.firestore.FieldValue.increment(sold),
+        updatedAt: now,
+      });
+    }
+
+    transaction.update(orderRef, {
+      items,
+      'payment.provider': payment.provider,
+      'payment.paymentId': payment.paymentId,
+      status: 'completed',
+      ...(released ? { statusReason: admin.firestore.FieldValue.delete() } : {}),
+      reservedUntil: null,
+      updatedAt: now,
+      completedAt: now,
+    });
+
+    return { status: 'completed', duplicate: false, userId: order.userId };
+  });
+
+  if (result.status === 'refund-due' && !result.duplicate) {
+    await db.collection('admin-actions').add({
+      type: 'order_refund_due',
+      orderId,
+      provider: payment.provider,
+      paymentId: payment.paymentId,
+      timestamp: admin.firestore.Timestamp.now(),
+    });
+    await notifyUser(result.userId, {
+      type: 'order-refund-due',
+      title: 'Your order could not be completed',
+      body: 'The giftcards sold out before your payment completed. Your payment will be refunded.',
+      data: { orderId },
+    });
+  }
+
+  return { status: result.status, duplicate: result.duplicate };
+}
+
+/**
+ * Return a pending order's codes to stock
+ * Used for cancellations, failed payments and lapsed reservations
+ */
+export async function releaseOrder(orderId: string, status: 'cancelled' | 'expired', reason: string): Promise<boolean> {
+  const orderRef = db.collection(ORDERS).doc(orderId);
+  const reservationRef = db.collection(ORDER_RESERVATIONS).doc(orderId);
+
+  return db.runTransaction(async (transaction) => {
+    const [orderDoc, reservationDoc] = await Promise.all([
+      transaction.get(orderRef),
+      transaction.get(reservationRef),
+    ]);
+
+    if (!orderDoc.exists || orderDoc.data()!.status !== 'pending-payment') {
+      return false;
+    }
+
+    const lines: ReservedLine[] = reservationDoc.exists ? reservationDoc.data()!.lines : [];
+    const [serials, products] = await Promise.all([
+      getReservedSerials(transaction, lines),
+      getReservedProducts(transaction, lines),
+    ]);
+    const now = admin.firestore.Timestamp.now();
+    adjustStock(transaction, products, releaseSerials(transaction, serials, orderId), now);
+
+    transaction.update(orderRef, {
+      status,
+      statusReason: reason,
+      reservedUntil: null,
+      updatedAt: now,
+    });
+    if (reservationDoc.exists) {
+      transaction.delete(reservationRef);
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Mark a completed or refund-due order as refunded or charged back
+ * Refunds of PXL orders return the PXL to the wallet. Delivered codes are not
+ * returned to stock. Cashback is clawed back by the onOrderReversed trigger.
+ */
+export async function reverseOrder(
+  orderId: string,
+  status: 'refunded' | 'charged-back',
+  reason: string
+): Promise<boolean> {
+  const orderRef = db.collection(ORDERS).doc(orderId);
+
+  return db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+
+    if (!orderDoc.exists || !['completed', 'refund-due'].includes(orderDoc.data()!.status)) {
+      return false;
+    }
+
+    const order = orderDoc.data()!;
+    const now = admin.firestore.Timestamp.now();
+    const refundsPXL = status === 'refunded' && order.payment.method === 'pxl';
+
+    if (refundsPXL) {
+      const [refund] = await postJournalEntries(transaction, [{
+        type: 'giftcard-refund',
+        idempotencyKey: `giftcard-refund:${order.userId}:${orderId}`,
+        description: `Refund of giftcard order ${orderId}`,
+        legs: [
+          { accountId: SYSTEM_ACCOUNTS.giftcardSales, direction: 'debit', amount: order.payment.amount },
+          { accountId: userAccountId(order.userId), direction: 'credit', amount: order.payment.amount },
+        ],
+        metadata: { userId: order.userId, orderId, reason },
+      }]);
+
+      transaction.set(db.collection('transactions').doc(), {
+        userId: order.userId,
+        type: 'giftcard-refund',
+        amounts: { pxl: order.payment.amount, usd: 0 },
+        giftcard: { orderId },
+        ledgerEntryId: refund.entryId,
+        description: reason,
+        status: 'completed',
+        timestamps: { created: now, updated: now, completed: now },
+      });
+
+      transaction.update(db.doc(`users/${order.userId}`), {
+        'wallets.pxl.totalSpent': admin.firestore.FieldValue.increment(-order.payment.amount),
+      });
+    }
+
+    transaction.update(orderRef, {
+      status,
+      statusReason: reason,
+      reversedAt: now,
+      updatedAt: now,
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Refund a completed or refund-due order (admin only)
+ * Card payments must also be refunded with the provider; its refund webhook
+ * then resolves to this same order and is a no-op
+ */
+export const refundOrder = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  requirePermission(context, 'orders:write');
+
+  const { orderId, reason } = data || {};
+
+  if (!orderId || !reason) {
+    throw new functions.https.HttpsError('invalid-argument', 'Order ID and reason are required');
+  }
+
+  try {
+    const refunded = await reverseOrder(orderId, 'refunded', String(reason).slice(0, 200));
+
+    if (!refunded) {
+      throw new functions.https.HttpsError('failed-precondition', 'Only completed or refund-due orders can be refunded');
+    }
+
+    await db.collection('admin-actions').add({
+      type: 'order_refunded',
+      adminId: context.auth.uid,
+      orderId,
+      reason: String(reason).slice(0, 200),
+      timestamp: admin.firestore.Timestamp.now(),
+    });
+
+    return { success: true, orderId };
+  } catch (error) {
+    console.error('Error refunding order:', error);
+    throw toHttpsError(error, 'Failed to refund order');
+  }
+});
+
+/**
+ * Confirm a card or wallet payment for the caller's pending order
+ * Covers the return from the payment page; the provider webhook does the same
+ */
+export const confirmOrderPayment = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { orderId, paymentId } = data || {};
+
+  if (!orderId || !paymentId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Order ID and payment ID are required');
+  }
+
+  try {
+    const orderDoc = await db.collection(ORDERS).doc(orderId).get();
+
+    if (!orderDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Order not found');
+    }
+
+    const order = orderDoc.data()!;
+
+    if (order.userId !== context.auth.uid && !hasPermission(context, 'orders:write')) {
+      throw new functions.https.HttpsError('permission-denied', 'Not your order');
+    }
+
+    if (order.payment.method === 'pxl') {
+      throw new functions.https.HttpsError('failed-precondition', 'PXL orders are paid when they are created');
+    }
+
+    // Never take the client's word for it; ask the provider
+    const provider = order.payment.method as PaymentProvider;
+    const payment = await fetchPaymentStatus(provider, String(paymentId), {
+      reference: orderId,
+      amount: order.payment.amount,
+    });
+
+    if (!payment || payment.status !== 'paid') {
+      throw new functions.https.HttpsError('failed-precondition', 'Payment has not been completed');
+    }
+
+    if (payment.reference !== orderId || !paymentMatchesExpectation(payment, orderPaymentExpectation(order))) {
+      throw new functions.https.HttpsError('failed-precondition', 'Payment does not match this order');
+    }
+
+    const result = await fulfilOrder(orderId, { provider, paymentId: String(paymentId) });
+    return { orderId, ...result };
+  } catch (error) {
+    console.error('Error confirming order payment:', error);
+    throw toHttpsError(error, 'Failed to confirm order payment');
+  }
+});
+
+/**
+ * Cancel the caller's pending order and release its codes
+ */
+export const cancelOrder = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { orderId, reason } = data || {};
+
+  if (!orderId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Order ID is required');
+  }
+
+  try {
+    const orderDoc = await db.collection(ORDERS).doc(orderId).get();
+
+    if (!orderDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Order not found');
+    }
+
+    if (orderDoc.data()!.userId !== context.auth.uid && !hasPermission(context, 'orders:write')) {
+      throw new functions.https.HttpsError('permission-denied', 'Not your order');
+    }
+
+    const released = await releaseOrder(orderId, 'cancelled', String(reason || 'Cancelled by user').slice(0, 200));
+    return { success: true, released };
+  } catch (error) {
+    console.error('Error cancelling order:', error);
+    throw toHttpsError(error, 'Failed to cancel order');
+  }
+});
+
+/**
+ * Scheduled function to release codes held by abandoned checkouts
+ * Runs every 5 minutes
+ */
+export const releaseExpiredReservations = functions.pubsub
+  .schedule('every 5 minutes')
+  .onRun(async () => {
+    const expired = await db.collection(ORDERS)
+      .where('status', '==', 'pending-payment')
+      .where('reservedUntil', '<=', admin.firestore.Timestamp.now())
+      .limit(100)
+      .get();
+
+    let released = 0;
+
+    for (const orderDoc of expired.docs) {
+      try {
+        if (await releaseOrder(orderDoc.id, 'expired', 'Payment was not completed in time')) {
+          released++;
+        }
+      } catch (error) {
+        console.error(`Error releasing reservation for order ${orderDoc.id}:`, error);
+      }
+    }
+
+    console.log(`Released ${released} expired order reservations`);
+    return null;
+  });
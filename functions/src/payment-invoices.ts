@@ -0,0 +1,143 @@
+/**
+ * Firebase Cloud Functions for hosted payment invoices
+ * Invoices are only created from a pending order or PXL purchase, for the
+ * amount recorded on it, and the invoice's amount and currency are stored
+ * with it so the payment can be matched back exactly.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { createHostedInvoice, HostedInvoiceRequest, PaymentProvider } from './utils/payment-providers';
+import { toHttpsError } from './utils/errors';
+import { isPurchaseExpired, PXL_PURCHASES } from './process-pxl-purchase';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+interface InvoiceTarget {
+  ref: admin.firestore.DocumentReference;
+  provider: PaymentProvider;
+  // Where the invoice is stored on the record
+  field: string;
+  request: Omit<HostedInvoiceRequest, 'customer'>;
+}
+
+async function orderInvoiceTarget(orderId: string, userId: string): Promise<InvoiceTarget> {
+  const ref = db.collection('orders').doc(orderId);
+  const orderDoc = await ref.get();
+
+  if (!orderDoc.exists || orderDoc.data()!.userId !== userId) {
+    throw new functions.https.HttpsError('not-found', 'Order not found');
+  }
+
+  const order = orderDoc.data()!;
+
+  if (order.status !== 'pending-payment' || order.payment.method !== 'myfatoorah') {
+    throw new functions.https.HttpsError('failed-precondition', `Order is ${order.status}`);
+  }
+
+  if (!order.reservedUntil || order.reservedUntil.toMillis() <= Date.now()) {
+    throw new functions.https.HttpsError('failed-precondition', 'Order reservation has expired');
+  }
+
+  const count = order.items.reduce((sum: number, item: { quantity: number }) => sum + item.quantity, 0);
+
+  return {
+    ref,
+    provider: 'myfatoorah',
+    field: 'payment.invoice',
+    request: {
+      reference: orderId,
+      amount: order.payment.amount,
+      currency: order.payment.currency,
+      description: `Giftcard order (${count} ${count === 1 ? 'card' : 'cards'})`,
+    },
+  };
+}
+
+async function purchaseInvoiceTarget(purchaseId: string, userId: string): Promise<InvoiceTarget> {
+  const ref = db.collection(PXL_PURCHASES).doc(purchaseId);
+  const purchaseDoc = await ref.get();
+
+  if (!purchaseDoc.exists || purchaseDoc.data()!.userId !== userId) {
+    throw new functions.https.HttpsError('not-found', 'Purchase not found');
+  }
+
+  const purchase = purchaseDoc.data()!;
+
+  if (purchase.status !== 'pending' || purchase.paymentMethod !== 'myfatoorah') {
+    throw new functions.https.HttpsError('failed-precondition', `Purchase is ${purchase.status}`);
+  }
+
+  if (isPurchaseExpired(purchase)) {
+    throw new functions.https.HttpsError('failed-precondition', 'Purchase has expired');
+  }
+
+  return {
+    ref,
+    provider: 'myfatoorah',
+    field: 'invoice',
+    request: {
+      reference: purchaseId,
+      amount: purchase.usdAmount,
+      currency: 'USD',
+      description: purchase.quote ? `${purchase.quote.pxlAmount} PXL` : 'PXL purchase',
+    },
+  };
+}
+
+/**
+ * Create the provider invoice for the caller's pending order (ord_*) or PXL
+ * purchase (pxp_*) and return the page to pay it on
+ * Calling again creates a fresh invoice, e.g. after the first one was abandoned
+ */
+export const createPaymentInvoice = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  const reference = typeof data?.reference === 'string' ? data.reference : '';
+
+  if (!reference.startsWith('ord_') && !reference.startsWith('pxp_')) {
+    throw new functions.https.HttpsError('invalid-argument', 'An order or PXL purchase ID is required');
+  }
+
+  try {
+    const [target, userDoc] = await Promise.all([
+      reference.startsWith('ord_') ? orderInvoiceTarget(reference, userId) : purchaseInvoiceTarget(reference, userId),
+      db.doc(`users/${userId}`).get(),
+    ]);
+
+    const profile = userDoc.data()?.profile || {};
+    const email = context.auth.token.email || userDoc.data()?.email || '';
+    const name = [profile.firstName, profile.lastName].filter(Boolean).join(' ') || email.split('@')[0] || 'Customer';
+    const mobile = typeof profile.phone === 'string' ? profile.phone.replace(/[^0-9]/g, '').slice(-8) : '';
+
+    const invoice = await createHostedInvoice(target.provider, {
+      ...target.request,
+      customer: { name, email, mobile: mobile || null },
+    });
+
+    const now = admin.firestore.Timestamp.now();
+    await target.ref.update({
+      [target.field]: {
+        provider: invoice.provider,
+        paymentId: invoice.paymentId,
+        amount: invoice.amount,
+        currency: invoice.currency,
+        createdAt: now,
+      },
+      updatedAt: now,
+    });
+
+    return { reference, invoiceId: invoice.paymentId, paymentUrl: invoice.paymentUrl };
+  } catch (error) {
+    console.error('Error creating payment invoice:', error);
+    throw toHttpsError(error, 'Failed to create payment invoice');
+  }
+});
@@ -0,0 +1,422 @@
+/**
+ * Firebase Cloud Functions for PXL payment requests
+ * A requester asks one or more payers for PXL, optionally splitting the
+ * total; each payer settles their share through executePXLTransfer
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { executePXLTransfer, validateTransferParams } from './pxl-transfer';
+import { notifyUser } from './utils/notifications';
+import { toHttpsError } from './utils/errors';
+import {
+  resolveStatus,
+  splitAmount,
+  PaymentShare,
+  PAYMENT_REQUESTS,
+} from './utils/payment-requests';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+interface PayerInput {
+  userId?: string;
+  username?: string;
+  amount?: number;
+}
+
+const MAX_PAYERS = 20;
+const MAX_MEMO_LENGTH = 200;
+const DEFAULT_EXPIRY_HOURS = 72;
+const MAX_EXPIRY_HOURS = 30 * 24;
+const BATCH_SIZE = 200;
+
+async function resolvePayer(payer: PayerInput): Promise<{ userId: string; username: string }> {
+  if (payer.userId) {
+    const userDoc = await db.doc(`users/${payer.userId}`).get();
+    if (userDoc.exists) {
+      return { userId: userDoc.id, username: userDoc.data()!.username };
+    }
+  } else if (payer.username) {
+    const snapshot = await db.collection('users').where('username', '==', payer.username).limit(1).get();
+    if (!snapshot.empty) {
+      return { userId: snapshot.docs[0].id, username: snapshot.docs[0].data().username };
+    }
+  }
+
+  throw new functions.https.HttpsError('not-found', `User ${payer.username || payer.userId} not found`);
+}
+
+/**
+ * Create a payment request addressed to payers or as a shareable link
+ */
+export const createPaymentRequest = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const requesterId = context.auth.uid;
+  const { amount, memo, expiresInHours = DEFAULT_EXPIRY_HOURS, conversationId = null } = data;
+  const payers: PayerInput[] = Array.isArray(data.payers) ? data.payers : [];
+
+  if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < 1) {
+    throw new functions.https.HttpsError('invalid-argument', 'Amount must be a whole number of PXL');
+  }
+
+  if (memo && (typeof memo !== 'string' || memo.length > MAX_MEMO_LENGTH)) {
+    throw new functions.https.HttpsError('invalid-argument', `Memo must be at most ${MAX_MEMO_LENGTH} characters`);
+  }
+
+  if (typeof expiresInHours !== 'number' || expiresInHours <= 0 || expiresInHours > MAX_EXPIRY_HOURS) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid expiry');
+  }
+
+  if (payers.length > MAX_PAYERS) {
+    throw new functions.https.HttpsError('invalid-argument', `A request can have at most ${MAX_PAYERS} payers`);
+  }
+
+  try {
+    const requesterDoc = await db.doc(`users/${requesterId}`).get();
+    if (!requesterDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'User not found');
+    }
+
+    const resolved = await Promise.all(payers.map(resolvePayer));
+    const payerIds = resolved.map((payer) => payer.userId);
+
+    if (payerIds.includes(requesterId)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Cannot request PXL from yourself');
+    }
+
+    if (new Set(payerIds).size !== payerIds.length) {
+      throw new functions.https.HttpsError('invalid-argument', 'Each payer can only appear once');
+    }
+
+    // Explicit share amounts must add up; otherwise split the total evenly
+    const explicit = payers.every((payer) => typeof payer.amount === 'number');
+    const amounts = payers.length === 0
+      ? [amount]
+      : explicit ? payers.map((payer) => payer.amount as number) : splitAmount(amount, payers.length);
+
+    if (amounts.some((share) => !Number.isInteger(share) || share < 1) ||
+        amounts.reduce((sum, share) => sum + share, 0) !== amount) {
+      throw new functions.https.HttpsError('invalid-argument', 'Shares must be whole PXL amounts that add up to the total');
+    }
+
+    const shares: PaymentShare[] = amounts.map((shareAmount, i) => ({
+      userId: resolved[i]?.userId || null,
+      username: resolved[i]?.username || null,
+      amount: shareAmount,
+      status: 'pending',
+      transferId: null,
+      paidAt: null,
+    }));
+
+    const now = admin.firestore.Timestamp.now();
+    const requestRef = await db.collection(PAYMENT_REQUESTS).add({
+      requesterId,
+      requesterUsername: requesterDoc.data()!.username,
+      amount,
+      memo: memo || null,
+      shares,
+      payerIds,
+      shareable: payers.length === 0,
+      amountPaid: 0,
+      status: 'open',
+      conversationId,
+      expiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + expiresInHours * 60 * 60 * 1000),
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await Promise.all(shares.filter((share) => share.userId).map((share) =>
+      notifyUser(share.userId!, {
+        type: 'payment-request',
+        title: 'PXL request',
+        body: `${requesterDoc.data()!.username} requested ${share.amount} PXL${memo ? ` for "${memo}"` : ''}`,
+        data: { paymentRequestId: requestRef.id },
+      })
+    ));
+
+    return { success: true, paymentRequestId: requestRef.id, shares };
+  } catch (error) {
+    console.error('Error creating payment request:', error);
+    throw toHttpsError(error, 'Failed to create payment request');
+  }
+});
+
+/**
+ * Pay the caller's share of a payment request
+ */
+export const payPaymentRequest = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { paymentRequestId } = data;
+  if (!paymentRequestId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing payment request');
+  }
+
+  const payerId = context.auth.uid;
+  const requestRef = db.collection(PAYMENT_REQUESTS).doc(paymentRequestId);
+
+  try {
+    // Claim the share first so a shareable link cannot be paid twice
+    const claim = await db.runTransaction(async (transaction) => {
+      const requestDoc = await transaction.get(requestRef);
+      if (!requestDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Payment request not found');
+      }
+
+      const request = requestDoc.data()!;
+      if (request.status !== 'open' && request.status !== 'partially-paid') {
+        throw new functions.https.HttpsError('failed-precondition', `Payment request is ${request.status}`);
+      }
+
+      if (request.expiresAt.toMillis() <= Date.now()) {
+        throw new functions.https.HttpsError('failed-precondition', 'Payment request has expired');
+      }
+
+      const shares: PaymentShare[] = request.shares;
+      let index = shares.findIndex((share) => share.userId === payerId);
+
+      if (index === -1 && request.shareable) {
+        index = shares.findIndex((share) => share.userId === null && share.status === 'pending');
+      }
+
+      if (index === -1) {
+        throw new functions.https.HttpsError('permission-denied', 'There is nothing for you to pay on this request');
+      }
+
+      // A share left processing by an interrupted attempt can be retried by
+      // the same payer; the transfer idempotency key prevents a double charge
+      const retrying = shares[index].status === 'processing' && shares[index].userId === payerId;
+      if (shares[index].status !== 'pending' && !retrying) {
+        throw new functions.https.HttpsError('failed-precondition', `Your share is already ${shares[index].status}`);
+      }
+
+      validateTransferParams({
+        senderUserId: payerId,
+        recipientUserId: request.requesterId,
+        amount: shares[index].amount,
+        message: request.memo,
+      });
+
+      const payerDoc = await transaction.get(db.doc(`users/${payerId}`));
+
+      shares[index] = {
+        ...shares[index],
+        userId: payerId,
+        username: payerDoc.data()?.username || null,
+        status: 'processing',
+      };
+
+      transaction.update(requestRef, {
+        shares,
+        payerIds: admin.firestore.FieldValue.arrayUnion(payerId),
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+
+      return { index, request, share: shares[index] };
+    });
+
+    let outcome;
+    try {
+      outcome = await executePXLTransfer({
+        senderUserId: payerId,
+        recipientUserId: claim.request.requesterId,
+        amount: claim.share.amount,
+        message: claim.request.memo,
+        idempotencyKey: `payment-request:${paymentRequestId}:${claim.index}`,
+        paymentRequestId,
+      });
+    } catch (error) {
+      // Release the claim so the payer (or another link payer) can try again
+      await db.runTransaction(async (transaction) => {
+        const requestDoc = await transaction.get(requestRef);
+        const shares: PaymentShare[] = requestDoc.data()!.shares;
+        shares[claim.index] = claim.request.shareable
+          ? { ...shares[claim.index], userId: null, username: null, status: 'pending' }
+          : { ...shares[claim.index], status: 'pending' };
+        transaction.update(requestRef, { shares, updatedAt: admin.firestore.Timestamp.now() });
+      });
+      throw error;
+    }
+
+    // A held transfer only pays the share once reviewPXLTransferHold releases it
+    const held = outcome.status !== 'completed';
+
+    const result = await db.runTransaction(async (transaction) => {
+      const requestDoc = await transaction.get(requestRef);
+      const request = requestDoc.data()!;
+      const shares: PaymentShare[] = request.shares;
+
+      shares[claim.index] = held
+        ? { ...shares[claim.index], status: 'held', transferId: outcome.transferId }
+        : { ...shares[claim.index], status: 'paid', transferId: outcome.transferId, paidAt: admin.firestore.Timestamp.now() };
+
+      const status = resolveStatus(shares);
+      const amountPaid = request.amountPaid + (held ? 0 : claim.share.amount);
+
+      transaction.update(requestRef, {
+        shares,
+        status,
+        amountPaid,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+
+      return { status, amountPaid };
+    });
+
+    if (!held) {
+      await notifyUser(claim.request.requesterId, {
+        type: 'payment-request-paid',
+        title: 'PXL request paid',
+        body: `${claim.share.username || 'Someone'} paid ${claim.share.amount} PXL of your ${claim.request.amount} PXL request`,
+        data: { paymentRequestId, transferId: outcome.transferId },
+      });
+    }
+
+    return {
+      success: true,
+      paymentRequestId,
+      transferId: outcome.transferId,
+      transferStatus: outcome.status,
+      status: result.status,
+      amountPaid: result.amountPaid,
+    };
+  } catch (error) {
+    console.error('Error paying payment request:', error);
+    throw toHttpsError(error, 'Failed to pay payment request');
+  }
+});
+
+/**
+ * Decline the caller's share of a payment request
+ */
+export const declinePaymentRequest = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { paymentRequestId } = data;
+  if (!paymentRequestId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing payment request');
+  }
+
+  try {
+    const requestRef = db.collection(PAYMENT_REQUESTS).doc(paymentRequestId);
+
+    const status = await db.runTransaction(async (transaction) => {
+      const requestDoc = await transaction.get(requestRef);
+      if (!requestDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Payment request not found');
+      }
+
+      const request = requestDoc.data()!;
+      const shares: PaymentShare[] = request.shares;
+      const index = shares.findIndex((share) => share.userId === context.auth!.uid);
+
+      if (index === -1 || shares[index].status !== 'pending') {
+        throw new functions.https.HttpsError('failed-precondition', 'There is nothing for you to decline on this request');
+      }
+
+      shares[index] = { ...shares[index], status: 'declined' };
+      const nextStatus = resolveStatus(shares);
+
+      transaction.update(requestRef, {
+        shares,
+        status: nextStatus,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+
+      return nextStatus;
+    });
+
+    return { success: true, paymentRequestId, status };
+  } catch (error) {
+    console.error('Error declining payment request:', error);
+    throw toHttpsError(error, 'Failed to decline payment request');
+  }
+});
+
+/**
+ * Cancel a payment request; shares that were already paid stay paid
+ */
+export const cancelPaymentRequest = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { paymentRequestId } = data;
+  if (!paymentRequestId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing payment request');
+  }
+
+  try {
+    const requestRef = db.collection(PAYMENT_REQUESTS).doc(paymentRequestId);
+
+    await db.runTransaction(async (transaction) => {
+      const requestDoc = await transaction.get(requestRef);
+
+      if (!requestDoc.exists || requestDoc.data()!.requesterId !== context.auth!.uid) {
+        throw new functions.https.HttpsError('not-found', 'Payment request not found');
+      }
+
+      const request = requestDoc.data()!;
+      if (request.status !== 'open' && request.status !== 'partially-paid') {
+        throw new functions.https.HttpsError('failed-precondition', `Payment request is ${request.status}`);
+      }
+
+      if ((request.shares as PaymentShare[]).some((share) => share.status === 'processing')) {
+        throw new functions.https.HttpsError('failed-precondition', 'A payment is in progress, try again shortly');
+      }
+
+      transaction.update(requestRef, {
+        status: 'cancelled',
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+    });
+
+    return { success: true, paymentRequestId };
+  } catch (error) {
+    console.error('Error cancelling payment request:', error);
+    throw toHttpsError(error, 'Failed to cancel payment request');
+  }
+});
+
+/**
+ * Scheduled job that expires unpaid requests
+ */
+export const expirePaymentRequests = functions.pubsub
+  .schedule('every 1 hours')
+  .onRun(async () => {
+    try {
+      const now = admin.firestore.Timestamp.now();
+      let expired = 0;
+
+      for (const status of ['open', 'partially-paid']) {
+        const snapshot = await db.collection(PAYMENT_REQUESTS)
+          .where('status', '==', status)
+          .where('expiresAt', '<=', now)
+          .limit(BATCH_SIZE)
+          .get();
+
+        const batch = db.batch();
+        snapshot.docs.forEach((doc) => {
+          batch.update(doc.ref, { status: 'expired', updatedAt: now });
+        });
+        await batch.commit();
+        expired += snapshot.size;
+      }
+
+      console.log(`Expired ${expired} payment requests`);
+    } catch (error) {
+      console.error('Error expiring payment requests:', error);
+    }
+  });
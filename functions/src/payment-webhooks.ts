@@ -0,0 +1,301 @@
+/**
+ * Firebase Cloud Functions for payment provider webhooks
+ * Verifies each delivery, records it in the webhook inbox and reconciles the
+ * payment against the pending order or PXL purchase it was made for.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { entryIdForKey } from './utils/ledger';
+import {
+  fetchPaymentStatus,
+  isFakeProviderMode,
+  parseWebhookEvent,
+  paymentMatchesExpectation,
+  paymentReversalForEvent,
+  recordFakePayment,
+  verifyWebhookSignature,
+  PaymentProvider,
+  ProviderPayment,
+} from './utils/payment-providers';
+import { notifyUser } from './utils/notifications';
+import { toHttpsError } from './utils/errors';
+import { requirePermission } from './utils/admin-roles';
+import { fulfilOrder, orderPaymentExpectation, releaseOrder, reverseOrder } from './orders';
+import { creditPurchasePayment, purchasePaymentExpectation, PXL_PURCHASES } from './process-pxl-purchase';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+// Every webhook delivery, kept for auditing and replay
+const PAYMENT_WEBHOOKS = 'payment-webhooks';
+
+type ReconcileOutcome =
+  | 'order-fulfilled'
+  | 'order-refund-due'
+  | 'order-released'
+  | 'order-reversed'
+  | 'purchase-credited'
+  | 'purchase-failed'
+  | 'already-processed'
+  | 'pending'
+  | 'unmatched';
+
+async function reconcileOrder(payment: ProviderPayment, orderId: string): Promise<ReconcileOutcome> {
+  const orderDoc = await db.collection('orders').doc(orderId).get();
+  if (!orderDoc.exists) return 'unmatched';
+
+  if (payment.status === 'failed') {
+    return await releaseOrder(orderId, 'cancelled', 'Payment failed') ? 'order-released' : 'already-processed';
+  }
+
+  if (!paymentMatchesExpectation(payment, orderPaymentExpectation(orderDoc.data()!))) {
+    throw new Error(`Paid amount ${payment.amount} ${payment.currency} does not match order ${orderId}`);
+  }
+
+  const result = await fulfilOrder(orderId, { provider: payment.provider, paymentId: payment.paymentId });
+  if (result.duplicate) return 'already-processed';
+  return result.status === 'refund-due' ? 'order-refund-due' : 'order-fulfilled';
+}
+
+async function reconcilePurchase(payment: ProviderPayment, purchaseId: string): Promise<ReconcileOutcome> {
+  const purchaseRef = db.collection(PXL_PURCHASES).doc(purchaseId);
+  const purchaseDoc = await purchaseRef.get();
+  if (!purchaseDoc.exists) return 'unmatched';
+
+  const purchase = purchaseDoc.data()!;
+
+  if (payment.status === 'failed') {
+    if (purchase.status !== 'pending') return 'already-processed';
+    await purchaseRef.update({ status: 'failed', paymentId: payment.paymentId, updatedAt: admin.firestore.Timestamp.now() });
+    return 'purchase-failed';
+  }
+
+  if (!paymentMatchesExpectation(payment, purchasePaymentExpectation(purchase))) {
+    throw new Error(`Paid amount ${payment.amount} ${payment.currency} does not match purchase ${purchaseId}`);
+  }
+
+  const result = await creditPurchasePayment(purchaseId, purchase, payment);
+
+  if (result.duplicate) return 'already-processed';
+
+  await notifyUser(purchase.userId, {
+    type: 'pxl-purchase',
+    title: 'PXL added to your wallet',
+    body: `${result.pxlReceived} PXL from your $${purchase.usdAmount} purchase`,
+    data: { purchaseId, transactionId: result.transactionId },
+  });
+
+  return 'purchase-credited';
+}
+
+/**
+ * Look the payment up with the provider and apply it to what it paid for
+ * Orders are referenced as ord_*, PXL purchases as pxp_*
+ */
+async function reconcilePayment(
+  provider: PaymentProvider,
+  paymentId: string,
+  eventType: string
+): Promise<{ outcome: ReconcileOutcome; reference: string | null }> {
+  const payment = await fetchPaymentStatus(provider, paymentId);
+
+  if (!payment) {
+    throw new Error(`Payment ${paymentId} was not found at ${provider}`);
+  }
+
+  const reference = payment.reference;
+  const reversal = paymentReversalForEvent(provider, eventType);
+
+  if (reversal) {
+    if (!reference?.startsWith('ord_')) {
+      // PXL already minted for a purchase is not recovered automatically
+      console.warn(`Payment ${paymentId} was ${reversal} for ${reference}; needs manual review`);
+      return { outcome: 'unmatched', reference };
+    }
+    const reversed = await reverseOrder(reference, reversal, `Payment ${reversal} at ${provider}`);
+    return { outcome: reversed ? 'order-reversed' : 'already-processed', reference };
+  }
+
+  if (payment.status === 'pending') {
+    return { outcome: 'pending', reference };
+  }
+
+  if (reference?.startsWith('ord_')) {
+    return { outcome: await reconcileOrder(payment, reference), reference };
+  }
+
+  if (reference?.startsWith('pxp_')) {
+    return { outcome: await reconcilePurchase(payment, reference), reference };
+  }
+
+  return { outcome: 'unmatched', reference };
+}
+
+/**
+ * Reconcile the payment behind an inbox entry and record the outcome
+ */
+async function processWebhook(inboxRef: admin.firestore.DocumentReference): Promise<ReconcileOutcome | null> {
+  const webhook = (await inboxRef.get()).data()!;
+
+  if (!webhook.paymentId) {
+    await inboxRef.update({ status: 'ignored', processedAt: admin.firestore.Timestamp.now() });
+    return null;
+  }
+
+  try {
+    const { outcome, reference } = await reconcilePayment(webhook.provider, webhook.paymentId, webhook.eventType || '');
+
+    await inboxRef.update({
+      status: outcome === 'pending' ? 'pending' : 'processed',
+      outcome,
+      reference,
+      error: null,
+      attempts: admin.firestore.FieldValue.increment(1),
+      processedAt: admin.firestore.Timestamp.now(),
+    });
+
+    if (outcome === 'unmatched') {
+      console.warn(`Webhook ${inboxRef.id} paid for an unknown reference ${reference}`);
+    }
+
+    return outcome;
+  } catch (error) {
+    await inboxRef.update({
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      attempts: admin.firestore.FieldValue.increment(1),
+      processedAt: admin.firestore.Timestamp.now(),
+    });
+    throw error;
+  }
+}
+
+function createWebhookHandler(provider: PaymentProvider) {
+  return functions.https.onRequest(async (req, res) => {
+    if (req.method !== 'POST') {
+      res.status(405).send('Method not allowed');
+      return;
+    }
+
+    // Signatures are computed over the exact bytes the provider sent
+    const rawBody = req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(req.body || {});
+    const now = admin.firestore.Timestamp.now();
+
+    let verified = false;
+    try {
+      verified = await verifyWebhookSignature(provider, rawBody, req.body, req.headers);
+    } catch (error) {
+      console.error(`Error verifying ${provider} webhook:`, error);
+    }
+
+    if (!verified) {
+      await db.collection(PAYMENT_WEBHOOKS).add({
+        provider,
+        status: 'rejected',
+        rawBody,
+        receivedAt: now,
+      });
+      res.status(401).send('Invalid signature');
+      return;
+    }
+
+    if (isFakeProviderMode()) {
+      await recordFakePayment(req.body);
+    }
+
+    const event = parseWebhookEvent(provider, req.body, rawBody);
+    const inboxRef = db.collection(PAYMENT_WEBHOOKS).doc(`${provider}_${entryIdForKey(event.eventId)}`);
+
+    // Providers redeliver until they get a 2xx; processed events are acknowledged as-is
+    const alreadyProcessed = await db.runTransaction(async (transaction) => {
+      const existing = await transaction.get(inboxRef);
+
+      if (existing.exists) {
+        transaction.update(inboxRef, {
+          deliveries: admin.firestore.FieldValue.increment(1),
+          lastDeliveredAt: now,
+        });
+        return existing.data()!.status === 'processed' || existing.data()!.status === 'ignored';
+      }
+
+      transaction.set(inboxRef, {
+        provider,
+        eventId: event.eventId,
+        eventType: event.eventType,
+        paymentId: event.paymentId,
+        rawBody,
+        status: 'received',
+        outcome: null,
+        reference: null,
+        error: null,
+        attempts: 0,
+        deliveries: 1,
+        receivedAt: now,
+        lastDeliveredAt: now,
+        processedAt: null,
+      });
+      return false;
+    });
+
+    if (alreadyProcessed) {
+      res.status(200).json({ received: true, duplicate: true });
+      return;
+    }
+
+    try {
+      const outcome = await processWebhook(inboxRef);
+      res.status(200).json({ received: true, outcome });
+    } catch (error) {
+      console.error(`Error processing ${provider} webhook ${inboxRef.id}:`, error);
+      // A non-2xx response makes the provider retry the delivery
+      res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  });
+}
+
+export const myfatoorahWebhook = createWebhookHandler('myfatoorah');
+export const stripeWebhook = createWebhookHandler('stripe');
+export const paypalWebhook = createWebhookHandler('paypal');
+
+/**
+ * Re-run reconciliation for a stored webhook (admin only)
+ * Used after fixing whatever made the original delivery fail
+ */
+export const replayPaymentWebhook = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  requirePermission(context, 'finance:write');
+
+  const { webhookId } = data || {};
+
+  if (!webhookId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Webhook ID is required');
+  }
+
+  try {
+    const inboxRef = db.collection(PAYMENT_WEBHOOKS).doc(webhookId);
+    const webhookDoc = await inboxRef.get();
+
+    if (!webhookDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Webhook not found');
+    }
+
+    // Rejected deliveries were never verified, so they are not trusted for replay
+    if (webhookDoc.data()!.status === 'rejected') {
+      throw new functions.https.HttpsError('failed-precondition', 'Webhook failed signature verification');
+    }
+
+    const outcome = await processWebhook(inboxRef);
+    return { webhookId, outcome };
+  } catch (error) {
+    console.error('Error replaying payment webhook:', error);
+    throw toHttpsError(error, 'Failed to replay payment webhook');
+  }
+});
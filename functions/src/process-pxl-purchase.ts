@@ -1,6 +1,15 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { calculatePXLFromUSD } from './utils/pxl-calculations';
+import { calculatePXLFromUSD, PURCHASE_DISCOUNTS } from './utils/pxl-calculations';
+import { entryIdForKey, postJournalEntry, userAccountId, SYSTEM_ACCOUNTS } from './utils/ledger';
+import {
+  fetchPaymentStatus,
+  paymentMatchesExpectation,
+  PaymentExpectation,
+  PaymentProvider,
+} from './utils/payment-providers';
+import { signQuote, verifyQuote, QuoteError, QuoteTerms, QUOTE_TTL_SECONDS } from './utils/quotes';
+import { isAlreadyExists, toHttpsError } from './utils/errors';
 
 // Initialize admin if not already done
 if (admin.apps.length === 0) {
@@ -9,102 +18,416 @@ if (admin.apps.length === 0) {
 
 const db = admin.firestore();
 
+// Pending PXL purchases paid through a redirect or webhook flow
+export const PXL_PURCHASES = 'pxl-purchases';
+
+const PAYMENT_PROVIDERS: PaymentProvider[] = ['myfatoorah', 'stripe', 'paypal'];
+
+// Time to finish paying once the quote (or, without one, the purchase) is issued
+const PAYMENT_WINDOW_MINUTES = 30;
+const BATCH_SIZE = 400;
+
+export interface CreditPXLPurchaseInput {
+  userId: string;
+  usdAmount: number;
+  paymentMethod: PaymentProvider;
+  paymentId: string;
+  purchaseId?: string;
+  // Locked rate and tier; the live rate and stored tier are used without one
+  quote?: QuoteTerms;
+  // The purchase had a quote but was paid after it expired
+  repriced?: boolean;
+}
+
+export interface CreditPXLPurchaseResult {
+  duplicate: boolean;
+  transactionId: string | null;
+  pxlReceived: number;
+  bonusPxl: number;
+  effectiveRate: number;
+  newBalance: number;
+}
+
 /**
- * Process PXL purchase and update user balance
- * This should be called after successful payment verification
+ * Verify a purchase quote against the amount being paid
  */
-export const processPXLPurchase = functions.https.onCall(async (data, context) => {
-  // Check authentication
+function verifyPurchaseQuote(quoteId: unknown, userId: string, usdAmount: number): QuoteTerms {
+  const terms = verifyQuote(quoteId, { kind: 'pxl-purchase', userId });
+
+  if (terms.usdAmount !== usdAmount) {
+    throw new QuoteError('mismatch', 'Quote is for a different amount');
+  }
+
+  return terms;
+}
+
+/**
+ * The amount and currency a payment for a PXL purchase must be for
+ * Once an invoice has been created, it is what the customer pays
+ */
+export function purchasePaymentExpectation(purchase: admin.firestore.DocumentData): PaymentExpectation {
+  return purchase.invoice || { amount: purchase.usdAmount, currency: 'USD' };
+}
+
+/**
+ * Whether a purchase is past the time its quote and payment window allow
+ */
+export function isPurchaseExpired(purchase: admin.firestore.DocumentData, atMs = Date.now()): boolean {
+  return !purchase.expiresAt || purchase.expiresAt.toMillis() <= atMs;
+}
+
+/**
+ * Credit a verified payment to the purchase it references
+ * Payments landing after the purchase expired are re-priced at the live rate
+ * and tier rather than the quote they were started with
+ */
+export async function creditPurchasePayment(
+  purchaseId: string,
+  purchase: admin.firestore.DocumentData,
+  payment: { provider: PaymentProvider; paymentId: string }
+): Promise<CreditPXLPurchaseResult> {
+  const late = isPurchaseExpired(purchase);
+
+  return creditPXLPurchase({
+    userId: purchase.userId,
+    usdAmount: purchase.usdAmount,
+    paymentMethod: payment.provider,
+    paymentId: payment.paymentId,
+    purchaseId,
+    quote: late ? undefined : purchase.quote || undefined,
+    repriced: late && !!purchase.quote,
+  });
+}
+
+async function getCurrentRate(): Promise<number> {
+  const currencyDoc = await db.doc('pxl-currency/main').get();
+  if (!currencyDoc.exists) {
+    throw new functions.https.HttpsError('failed-precondition', 'Currency data not found');
+  }
+
+  return currencyDoc.data()?.currentRate || 100;
+}
+
+/**
+ * Credit PXL for a verified payment
+ * The payment ID is the ledger idempotency key, so a payment is only ever credited once
+ */
+export async function creditPXLPurchase(input: CreditPXLPurchaseInput): Promise<CreditPXLPurchaseResult> {
+  const { userId, usdAmount, paymentMethod, paymentId, purchaseId, quote, repriced } = input;
+
+  const currentRate = quote ? quote.exchangeRate : await getCurrentRate();
+
+  // Start a transaction to ensure atomicity
+  return db.runTransaction(async (transaction) => {
+    // Get user document
+    const userRef = db.doc(`users/${userId}`);
+    const userDoc = await transaction.get(userRef);
+
+    if (!userDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'User not found');
+    }
+
+    // Tier comes from the signed quote or the user document, never from the caller
+    const userData = userDoc.data();
+    const currentTier = quote ? quote.tier : userData?.tier?.current || 'starter';
+
+    // Calculate PXL amount with tier discount
+    const calculation = calculatePXLFromUSD(usdAmount, currentRate, currentTier as keyof typeof PURCHASE_DISCOUNTS);
+
+    // Credit the wallet through the ledger; the payment ID makes retries no-ops
+    const entry = await postJournalEntry(transaction, {
+      type: 'pxl-purchase',
+      idempotencyKey: `pxl-purchase:${paymentMethod}:${paymentId}`,
+      description: `USD to PXL purchase - $${usdAmount}`,
+      legs: [
+        { accountId: SYSTEM_ACCOUNTS.issuance, direction: 'debit', amount: calculation.totalPxl },
+        { accountId: userAccountId(userId), direction: 'credit', amount: calculation.totalPxl },
+      ],
+      metadata: { userId, usdAmount, paymentMethod, paymentId, purchaseId: purchaseId || null },
+    });
+
+    const newBalance = entry.balances[userAccountId(userId)];
+
+    if (entry.duplicate) {
+      return {
+        duplicate: true,
+        transactionId: null,
+        pxlReceived: calculation.totalPxl,
+        bonusPxl: calculation.bonusPxl,
+        effectiveRate: calculation.effectiveRate,
+        newBalance,
+      };
+    }
+
+    // Create transaction record
+    const transactionRef = db.collection('transactions').doc();
+    transaction.set(transactionRef, {
+      userId,
+      type: 'pxl-purchase',
+      amounts: {
+        usd: usdAmount,
+        pxl: calculation.totalPxl,
+        exchangeRate: currentRate,
+        bonusPxl: calculation.bonusPxl,
+        effectiveRate: calculation.effectiveRate,
+      },
+      payment: {
+        method: paymentMethod,
+        provider: paymentMethod,
+        externalId: paymentId,
+      },
+      tier: {
+        userTier: currentTier,
+        purchaseDiscountPercentage: calculation.appliedDiscount,
+      },
+      quote: quote ? { issuedAt: quote.issuedAt, expiresAt: quote.expiresAt } : null,
+      ledgerEntryId: entry.entryId,
+      status: 'completed',
+      timestamps: {
+        created: admin.firestore.FieldValue.serverTimestamp(),
+        updated: admin.firestore.FieldValue.serverTimestamp(),
+        completed: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    });
+
+    // Balance is projected by the ledger; only lifetime stats are updated here
+    transaction.update(userRef, {
+      'wallets.pxl.totalEarned': admin.firestore.FieldValue.increment(calculation.totalPxl),
+    });
+
+    if (purchaseId) {
+      transaction.update(db.collection(PXL_PURCHASES).doc(purchaseId), {
+        status: 'completed',
+        paymentId,
+        pxlAmount: calculation.totalPxl,
+        transactionId: transactionRef.id,
+        ledgerEntryId: entry.entryId,
+        repriced: !!repriced,
+        updatedAt: admin.firestore.Timestamp.now(),
+        completedAt: admin.firestore.Timestamp.now(),
+      });
+    }
+
+    return {
+      duplicate: false,
+      transactionId: transactionRef.id,
+      pxlReceived: calculation.totalPxl,
+      bonusPxl: calculation.bonusPxl,
+      effectiveRate: calculation.effectiveRate,
+      newBalance,
+    };
+  });
+}
+
+/**
+ * Lock the exchange rate and tier bonus for a PXL purchase
+ * The returned quote ID is passed to the purchase endpoints, which credit
+ * exactly the quoted amount as long as the quote has not expired
+ */
+export const quotePXLPurchase = functions.https.onCall(async (data, context) => {
   if (!context.auth) {
     throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
   }
 
-  const { usdAmount, paymentMethod, paymentId, userTier } = data;
+  const usdAmount = Number(data?.usdAmount);
   const userId = context.auth.uid;
 
-  // Validate input
-  if (!usdAmount || usdAmount <= 0) {
+  if (!Number.isFinite(usdAmount) || usdAmount <= 0) {
     throw new functions.https.HttpsError('invalid-argument', 'Invalid USD amount');
   }
 
-  if (!paymentMethod || !paymentId) {
-    throw new functions.https.HttpsError('invalid-argument', 'Missing payment information');
+  try {
+    const [exchangeRate, userDoc] = await Promise.all([getCurrentRate(), db.doc(`users/${userId}`).get()]);
+
+    if (!userDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'User not found');
+    }
+
+    const tier = userDoc.data()?.tier?.current || 'starter';
+    const calculation = calculatePXLFromUSD(usdAmount, exchangeRate, tier);
+    const issuedAt = Date.now();
+    const terms: QuoteTerms = {
+      kind: 'pxl-purchase',
+      userId,
+      tier,
+      exchangeRate,
+      usdAmount,
+      pxlAmount: calculation.totalPxl,
+      bonusPxl: calculation.bonusPxl,
+      cashbackPxl: 0,
+      itemsHash: null,
+      issuedAt,
+      expiresAt: issuedAt + QUOTE_TTL_SECONDS * 1000,
+    };
+
+    return {
+      quoteId: signQuote(terms),
+      exchangeRate,
+      tier,
+      usdAmount,
+      basePxl: calculation.basePxl,
+      bonusPxl: calculation.bonusPxl,
+      totalPxl: calculation.totalPxl,
+      appliedDiscount: calculation.appliedDiscount,
+      effectiveRate: calculation.effectiveRate,
+      expiresAt: terms.expiresAt,
+    };
+  } catch (error) {
+    console.error('Error quoting PXL purchase:', error);
+    throw toHttpsError(error, 'Failed to quote PXL purchase');
+  }
+});
+
+/**
+ * Start a PXL purchase that is paid on the provider's page
+ * The returned purchase ID is sent to the provider as the customer reference
+ * and the payment webhook credits the wallet once the invoice is paid.
+ * The purchase expires PAYMENT_WINDOW_MINUTES after its quote does.
+ */
+export const createPXLPurchase = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { usdAmount, paymentMethod, idempotencyKey, quoteId } = data || {};
+  const userId = context.auth.uid;
+
+  if (typeof usdAmount !== 'number' || !Number.isFinite(usdAmount) || usdAmount <= 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid USD amount');
   }
 
+  if (!PAYMENT_PROVIDERS.includes(paymentMethod)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid payment method');
+  }
+
+  if (!idempotencyKey) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing idempotency key');
+  }
+
+  const purchaseId = `pxp_${entryIdForKey(`pxl-purchase:${userId}:${idempotencyKey}`)}`;
+  const now = admin.firestore.Timestamp.now();
+
   try {
-    // Get current exchange rate
-    const currencyDoc = await db.doc('pxl-currency/main').get();
-    if (!currencyDoc.exists) {
-      throw new functions.https.HttpsError('failed-precondition', 'Currency data not found');
+    // The lock is checked when checkout starts and holds until the purchase expires
+    const quote = quoteId ? verifyPurchaseQuote(quoteId, userId, usdAmount) : null;
+    const expiresAt = admin.firestore.Timestamp.fromMillis(
+      (quote ? quote.expiresAt : now.toMillis()) + PAYMENT_WINDOW_MINUTES * 60 * 1000
+    );
+
+    await db.collection(PXL_PURCHASES).doc(purchaseId).create({
+      userId,
+      usdAmount,
+      paymentMethod,
+      quote,
+      paymentId: null,
+      status: 'pending',
+      expiresAt,
+      createdAt: now,
+      updatedAt: now,
+    });
+  } catch (error) {
+    // Same checkout retried; the first purchase record stands
+    if (!isAlreadyExists(error)) {
+      console.error('Error creating PXL purchase:', error);
+      throw toHttpsError(error, 'Failed to create PXL purchase');
     }
+  }
 
-    const currencyData = currencyDoc.data();
-    const currentRate = currencyData?.currentRate || 100;
+  return { purchaseId };
+});
 
-    // Calculate PXL amount with tier discount
-    const calculation = calculatePXLFromUSD(usdAmount, currentRate, userTier);
-
-    // Start a transaction to ensure atomicity
-    const result = await db.runTransaction(async (transaction) => {
-      // Get user document
-      const userRef = db.doc(`users/${userId}`);
-      const userDoc = await transaction.get(userRef);
-
-      if (!userDoc.exists) {
-        throw new functions.https.HttpsError('not-found', 'User not found');
-      }
-
-      const userData = userDoc.data();
-      const currentBalance = userData?.wallets?.pxl?.balance || 0;
-      const currentTotalEarned = userData?.wallets?.pxl?.totalEarned || 0;
-
-      // Create transaction record
-      const transactionRef = db.collection('transactions').doc();
-      transaction.set(transactionRef, {
-        userId,
-        type: 'pxl-purchase',
-        amounts: {
-          usd: usdAmount,
-          pxl: calculation.totalPxl,
-          exchangeRate: currentRate,
-          bonusPxl: calculation.bonusPxl,
-          effectiveRate: calculation.effectiveRate,
-        },
-        payment: {
-          method: paymentMethod,
-          provider: paymentMethod === 'paypal' ? 'paypal' : 'stripe',
-          externalId: paymentId,
-        },
-        tier: {
-          userTier,
-          purchaseDiscountPercentage: calculation.appliedDiscount,
-        },
-        status: 'completed',
-        timestamps: {
-          created: admin.firestore.FieldValue.serverTimestamp(),
-          updated: admin.firestore.FieldValue.serverTimestamp(),
-          completed: admin.firestore.FieldValue.serverTimestamp(),
-        },
-      });
+/**
+ * Scheduled job that expires purchases nobody paid in time
+ * A payment that still arrives later is credited at the live rate and tier
+ */
+export const expirePXLPurchases = functions.pubsub
+  .schedule('every 15 minutes')
+  .onRun(async () => {
+    try {
+      const now = admin.firestore.Timestamp.now();
+      const snapshot = await db.collection(PXL_PURCHASES)
+        .where('status', '==', 'pending')
+        .where('expiresAt', '<=', now)
+        .limit(BATCH_SIZE)
+        .get();
 
-      // Update user balance
-      transaction.update(userRef, {
-        'wallets.pxl.balance': currentBalance + calculation.totalPxl,
-        'wallets.pxl.totalEarned': currentTotalEarned + calculation.totalPxl,
-        'timestamps.updated': admin.firestore.FieldValue.serverTimestamp(),
+      const batch = db.batch();
+      snapshot.docs.forEach((doc) => {
+        batch.update(doc.ref, { status: 'expired', updatedAt: now });
       });
+      await batch.commit();
 
-      return {
-        transactionId: transactionRef.id,
-        pxlReceived: calculation.totalPxl,
-        bonusPxl: calculation.bonusPxl,
-        effectiveRate: calculation.effectiveRate,
-      };
+      console.log(`Expired ${snapshot.size} PXL purchases`);
+    } catch (error) {
+      console.error('Error expiring PXL purchases:', error);
+    }
+  });
+
+/**
+ * Credit the caller's pending PXL purchase once its card or PayPal payment has cleared
+ * The payment is looked up with the provider and must carry the purchase ID as
+ * its reference; the amount, rate and tier bonus all come from the purchase,
+ * or from the live rate and tier once it has expired.
+ * Safe to call again once the payment webhook has credited the same payment.
+ */
+export const processPXLPurchase = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { purchaseId, paymentId } = data || {};
+  const userId = context.auth.uid;
+
+  if (typeof purchaseId !== 'string' || !purchaseId.startsWith('pxp_') || !paymentId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Purchase ID and payment ID are required');
+  }
+
+  try {
+    const purchaseDoc = await db.collection(PXL_PURCHASES).doc(purchaseId).get();
+
+    if (!purchaseDoc.exists || purchaseDoc.data()!.userId !== userId) {
+      throw new functions.https.HttpsError('not-found', 'Purchase not found');
+    }
+
+    const purchase = purchaseDoc.data()!;
+
+    const creditedByPayment = purchase.status === 'completed' && purchase.paymentId === String(paymentId);
+
+    if (purchase.status !== 'pending' && purchase.status !== 'expired' && !creditedByPayment) {
+      throw new functions.https.HttpsError('failed-precondition', `Purchase is ${purchase.status}`);
+    }
+
+    // Never take the client's word for it; ask the provider
+    const payment = await fetchPaymentStatus(purchase.paymentMethod, String(paymentId), {
+      reference: purchaseId,
+      amount: purchase.usdAmount,
+    });
+
+    if (!payment || payment.status !== 'paid') {
+      throw new functions.https.HttpsError('failed-precondition', 'Payment has not been completed');
+    }
+
+    if (payment.reference !== purchaseId || !paymentMatchesExpectation(payment, purchasePaymentExpectation(purchase))) {
+      throw new functions.https.HttpsError('failed-precondition', 'Payment does not match this purchase');
+    }
+
+    const result = await creditPurchasePayment(purchaseId, purchase, {
+      provider: purchase.paymentMethod,
+      paymentId: String(paymentId),
     });
 
-    return result;
+    // A payment referencing this purchase can only ever have been credited to it
+    return {
+      purchaseId,
+      usdAmount: purchase.usdAmount,
+      transactionId: result.transactionId || purchase.transactionId || null,
+      pxlReceived: result.pxlReceived,
+      bonusPxl: result.bonusPxl,
+      effectiveRate: result.effectiveRate,
+      newBalance: result.newBalance,
+    };
   } catch (error) {
     console.error('Error processing PXL purchase:', error);
-    throw new functions.https.HttpsError('internal', 'Failed to process PXL purchase');
+    throw toHttpsError(error, 'Failed to process PXL purchase');
   }
 });
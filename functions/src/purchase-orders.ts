@@ -0,0 +1,430 @@
+/**
+ * Firebase Cloud Functions for supplier purchase orders and settlement
+ * Catalog admins order codes from suppliers and receive them in batches through
+ * the giftcard-codes approval. Supplier stats are derived from those orders and
+ * from the supplier's sold codes, and finance generates commission statements
+ * per month from the codes sold in it.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { toHttpsError } from './utils/errors';
+import { requirePermission } from './utils/admin-roles';
+import {
+  isReceivable,
+  purchaseOrderStats,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PURCHASE_ORDERS,
+  SupplierStats,
+} from './utils/purchase-orders';
+import { GIFTCARD_VAULT } from './giftcard-vault';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const SUPPLIERS = 'suppliers';
+const SUPPLIER_STATEMENTS = 'supplier-statements';
+
+const MAX_LINES_PER_ORDER = 50;
+const MAX_QUANTITY_PER_LINE = 10000;
+// Statements cover one calendar month (UTC)
+const PERIOD_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+export type SupplierStatementStatus = 'issued' | 'settled';
+
+export interface SupplierStatementLine {
+  productId: string;
+  productName: string;
+  denomination: number;
+  quantity: number;
+  faceValue: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function productName(product: admin.firestore.DocumentData | undefined, fallback: string): string {
+  return product ? [product.brand, product.name].filter(Boolean).join(' - ') || fallback : fallback;
+}
+
+/**
+ * Recompute a supplier's order and sales stats from its purchase orders and sold codes
+ */
+async function updateSupplierStats(supplierId: string): Promise<void> {
+  const supplierRef = db.collection(SUPPLIERS).doc(supplierId);
+  const [supplierDoc, ordersSnapshot, soldSnapshot] = await Promise.all([
+    supplierRef.get(),
+    db.collection(PURCHASE_ORDERS).where('supplierId', '==', supplierId).get(),
+    db.collection(GIFTCARD_VAULT)
+      .where('supplierId', '==', supplierId)
+      .where('status', '==', 'sold')
+      .select('denomination')
+      .get(),
+  ]);
+
+  if (!supplierDoc.exists) return;
+
+  const stats: SupplierStats = {
+    ...purchaseOrderStats(ordersSnapshot.docs.map(doc => doc.data() as PurchaseOrder), Date.now()),
+    totalRevenue: roundCents(soldSnapshot.docs.reduce((sum, doc) => sum + (Number(doc.get('denomination')) || 0), 0)),
+  };
+
+  await supplierRef.update({ ...stats, statsUpdatedAt: admin.firestore.Timestamp.now() });
+}
+
+/**
+ * Order codes from a supplier (catalog:write)
+ * Lines for the same product and denomination are merged.
+ */
+export const createPurchaseOrder = functions.https.onCall(async (data, context) => {
+  const uid = requirePermission(context, 'catalog:write');
+  const { supplierId, lines, expectedAt, notes } = data || {};
+
+  if (typeof supplierId !== 'string' || !supplierId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Supplier ID is required');
+  }
+
+  if (!Array.isArray(lines) || lines.length === 0 || lines.length > MAX_LINES_PER_ORDER) {
+    throw new functions.https.HttpsError('invalid-argument', `Between 1 and ${MAX_LINES_PER_ORDER} lines are required`);
+  }
+
+  if (expectedAt != null && (typeof expectedAt !== 'number' || expectedAt <= Date.now())) {
+    throw new functions.https.HttpsError('invalid-argument', 'Expected delivery must be in the future');
+  }
+
+  const quantities = new Map<string, { productId: string; denomination: number; quantity: number }>();
+  for (const line of lines) {
+    const denomination = Number(line?.denomination);
+    const quantity = Number(line?.quantity);
+
+    if (typeof line?.productId !== 'string' || !line.productId || !Number.isFinite(denomination) || denomination <= 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'Each line needs a product and denomination');
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0 || quantity > MAX_QUANTITY_PER_LINE) {
+      throw new functions.https.HttpsError('invalid-argument', `Quantities must be between 1 and ${MAX_QUANTITY_PER_LINE}`);
+    }
+
+    const key = `${line.productId}:${denomination}`;
+    const merged = quantities.get(key);
+    quantities.set(key, { productId: line.productId, denomination, quantity: (merged?.quantity || 0) + quantity });
+  }
+
+  try {
+    const supplierDoc = await db.collection(SUPPLIERS).doc(supplierId).get();
+    if (!supplierDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Supplier not found');
+    }
+    if (supplierDoc.data()!.status === 'inactive') {
+      throw new functions.https.HttpsError('failed-precondition', 'Supplier is inactive');
+    }
+
+    const productIds = [...new Set([...quantities.values()].map(line => line.productId))];
+    const productDocs = await db.getAll(...productIds.map(id => db.collection('products').doc(id)));
+    const products = new Map(productDocs.map(doc => [doc.id, doc.data()]));
+
+    const orderLines: PurchaseOrderLine[] = [...quantities.values()].map(line => {
+      const product = products.get(line.productId);
+      const denominations: Array<{ value: number }> = product?.denominations || [];
+
+      if (!product || !denominations.some(d => d.value === line.denomination)) {
+        throw new functions.https.HttpsError('not-found', `Product denomination not found: ${line.productId} $${line.denomination}`);
+      }
+
+      return { ...line, productName: productName(product, line.productId), received: 0 };
+    });
+
+    const now = admin.firestore.Timestamp.now();
+    const order: PurchaseOrder = {
+      supplierId,
+      supplierName: supplierDoc.data()!.name || supplierId,
+      status: 'open',
+      lines: orderLines,
+      receipts: [],
+      notes: notes ? String(notes).slice(0, 500) : null,
+      orderedBy: uid,
+      orderedAt: now,
+      expectedAt: expectedAt != null ? admin.firestore.Timestamp.fromMillis(expectedAt) : null,
+      receivedAt: null,
+      cancelledAt: null,
+      updatedAt: now,
+    };
+
+    const orderRef = await db.collection(PURCHASE_ORDERS).add(order);
+
+    await db.collection('admin-actions').add({
+      type: 'purchase_order_created',
+      adminId: uid,
+      purchaseOrderId: orderRef.id,
+      supplierId,
+      lines: orderLines.length,
+      quantity: orderLines.reduce((sum, line) => sum + line.quantity, 0),
+      timestamp: now,
+    });
+
+    return { purchaseOrderId: orderRef.id, status: order.status };
+  } catch (error) {
+    console.error('Error creating purchase order:', error);
+    throw toHttpsError(error, 'Failed to create purchase order');
+  }
+});
+
+/**
+ * Cancel what is still outstanding on a purchase order (catalog:write)
+ * Batches already received stay in stock; pending batches for the order fail on approval.
+ */
+export const cancelPurchaseOrder = functions.https.onCall(async (data, context) => {
+  const uid = requirePermission(context, 'catalog:write');
+  const { purchaseOrderId, reason } = data || {};
+
+  if (typeof purchaseOrderId !== 'string' || !purchaseOrderId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Purchase order ID is required');
+  }
+
+  if (!reason) {
+    throw new functions.https.HttpsError('invalid-argument', 'A reason is required');
+  }
+
+  try {
+    const orderRef = db.collection(PURCHASE_ORDERS).doc(purchaseOrderId);
+    const now = admin.firestore.Timestamp.now();
+
+    await db.runTransaction(async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      const order = orderDoc.data() as PurchaseOrder | undefined;
+
+      if (!order) {
+        throw new functions.https.HttpsError('not-found', 'Purchase order not found');
+      }
+      if (!isReceivable(order)) {
+        throw new functions.https.HttpsError('failed-precondition', `Purchase order is ${order.status}`);
+      }
+
+      transaction.update(orderRef, {
+        status: 'cancelled',
+        cancelledAt: now,
+        cancelReason: String(reason).slice(0, 200),
+        updatedAt: now,
+      });
+    });
+
+    await db.collection('admin-actions').add({
+      type: 'purchase_order_cancelled',
+      adminId: uid,
+      purchaseOrderId,
+      reason: String(reason).slice(0, 200),
+      timestamp: now,
+    });
+
+    return { purchaseOrderId, status: 'cancelled' };
+  } catch (error) {
+    console.error('Error cancelling purchase order:', error);
+    throw toHttpsError(error, 'Failed to cancel purchase order');
+  }
+});
+
+/**
+ * Keep the supplier's stats current as its purchase orders are placed, received or cancelled
+ */
+export const onPurchaseOrderWritten = functions.firestore
+  .document(`${PURCHASE_ORDERS}/{purchaseOrderId}`)
+  .onWrite(async (change, context) => {
+    const supplierId = (change.after.data() || change.before.data())?.supplierId;
+    if (!supplierId) return null;
+
+    try {
+      await updateSupplierStats(supplierId);
+    } catch (error) {
+      console.error(`Error updating stats for purchase order ${context.params.purchaseOrderId}:`, error);
+    }
+
+    return null;
+  });
+
+/**
+ * Refresh every supplier's stats so revenue follows sales and late orders count against the score
+ */
+export const refreshSupplierStats = functions.pubsub
+  .schedule('every 24 hours')
+  .onRun(async () => {
+    const snapshot = await db.collection(SUPPLIERS).get();
+    let updated = 0;
+
+    for (const supplierDoc of snapshot.docs) {
+      try {
+        await updateSupplierStats(supplierDoc.id);
+        updated++;
+      } catch (error) {
+        console.error(`Error updating stats for supplier ${supplierDoc.id}:`, error);
+      }
+    }
+
+    console.log(`Refreshed stats for ${updated} of ${snapshot.size} suppliers`);
+    return null;
+  });
+
+/**
+ * Build a supplier's commission statement for a closed month (finance:write)
+ * Covers the supplier's codes sold in the month at face value. The platform keeps
+ * the supplier's commission rate and the rest is payable to the supplier.
+ * Statements can be regenerated until they are settled.
+ */
+export const generateSupplierStatement = functions.https.onCall(async (data, context) => {
+  const uid = requirePermission(context, 'finance:write');
+  const { supplierId, period } = data || {};
+
+  if (typeof supplierId !== 'string' || !supplierId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Supplier ID is required');
+  }
+
+  const match = typeof period === 'string' ? PERIOD_PATTERN.exec(period) : null;
+  if (!match) {
+    throw new functions.https.HttpsError('invalid-argument', 'Period must be a month (YYYY-MM)');
+  }
+
+  const periodStart = Date.UTC(Number(match[1]), Number(match[2]) - 1, 1);
+  const periodEnd = Date.UTC(Number(match[1]), Number(match[2]), 1);
+  if (periodEnd > Date.now()) {
+    throw new functions.https.HttpsError('failed-precondition', 'Statements can only be generated for closed months');
+  }
+
+  try {
+    const statementRef = db.collection(SUPPLIER_STATEMENTS).doc(`${supplierId}_${period}`);
+    const [supplierDoc, statementDoc, soldSnapshot] = await Promise.all([
+      db.collection(SUPPLIERS).doc(supplierId).get(),
+      statementRef.get(),
+      db.collection(GIFTCARD_VAULT)
+        .where('supplierId', '==', supplierId)
+        .where('status', '==', 'sold')
+        .where('soldAt', '>=', admin.firestore.Timestamp.fromMillis(periodStart))
+        .where('soldAt', '<', admin.firestore.Timestamp.fromMillis(periodEnd))
+        .select('productId', 'denomination')
+        .get(),
+    ]);
+
+    if (!supplierDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Supplier not found');
+    }
+    if (statementDoc.data()?.status === 'settled') {
+      throw new functions.https.HttpsError('failed-precondition', 'Statement is already settled');
+    }
+
+    const lines = new Map<string, SupplierStatementLine>();
+    soldSnapshot.docs.forEach(doc => {
+      const productId: string = doc.get('productId');
+      const denomination = Number(doc.get('denomination')) || 0;
+      const key = `${productId}:${denomination}`;
+      const line = lines.get(key) || { productId, productName: productId, denomination, quantity: 0, faceValue: 0 };
+      line.quantity++;
+      line.faceValue = roundCents(line.faceValue + denomination);
+      lines.set(key, line);
+    });
+
+    const productIds = [...new Set([...lines.values()].map(line => line.productId))];
+    if (productIds.length > 0) {
+      const productDocs = await db.getAll(...productIds.map(id => db.collection('products').doc(id)));
+      const names = new Map(productDocs.map(doc => [doc.id, productName(doc.data(), doc.id)]));
+      lines.forEach(line => { line.productName = names.get(line.productId) || line.productId; });
+    }
+
+    const commissionRate = Number(supplierDoc.data()!.commission) || 0;
+    const grossSales = roundCents([...lines.values()].reduce((sum, line) => sum + line.faceValue, 0));
+    const commission = roundCents(grossSales * commissionRate / 100);
+    const now = admin.firestore.Timestamp.now();
+
+    const statement = {
+      supplierId,
+      supplierName: supplierDoc.data()!.name || supplierId,
+      period,
+      periodStart: admin.firestore.Timestamp.fromMillis(periodStart),
+      periodEnd: admin.firestore.Timestamp.fromMillis(periodEnd),
+      lines: [...lines.values()].sort((a, b) => a.productName.localeCompare(b.productName) || a.denomination - b.denomination),
+      codesSold: soldSnapshot.size,
+      grossSales,
+      commissionRate,
+      commission,
+      payable: roundCents(grossSales - commission),
+      status: 'issued' as SupplierStatementStatus,
+      generatedBy: uid,
+      generatedAt: now,
+      settledBy: null,
+      settledAt: null,
+      settlementReference: null,
+    };
+
+    await statementRef.set(statement);
+
+    await db.collection('admin-actions').add({
+      type: 'supplier_statement_generated',
+      adminId: uid,
+      statementId: statementRef.id,
+      supplierId,
+      period,
+      grossSales,
+      payable: statement.payable,
+      timestamp: now,
+    });
+
+    return { statementId: statementRef.id, codesSold: statement.codesSold, grossSales, commission, payable: statement.payable };
+  } catch (error) {
+    console.error('Error generating supplier statement:', error);
+    throw toHttpsError(error, 'Failed to generate supplier statement');
+  }
+});
+
+/**
+ * Record that an issued statement was paid out to the supplier (finance:write)
+ */
+export const settleSupplierStatement = functions.https.onCall(async (data, context) => {
+  const uid = requirePermission(context, 'finance:write');
+  const { statementId, reference } = data || {};
+
+  if (typeof statementId !== 'string' || !statementId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Statement ID is required');
+  }
+
+  if (!reference) {
+    throw new functions.https.HttpsError('invalid-argument', 'A payment reference is required');
+  }
+
+  try {
+    const statementRef = db.collection(SUPPLIER_STATEMENTS).doc(statementId);
+    const now = admin.firestore.Timestamp.now();
+
+    await db.runTransaction(async (transaction) => {
+      const statementDoc = await transaction.get(statementRef);
+
+      if (!statementDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Statement not found');
+      }
+      if (statementDoc.data()!.status !== 'issued') {
+        throw new functions.https.HttpsError('failed-precondition', 'Statement is already settled');
+      }
+
+      transaction.update(statementRef, {
+        status: 'settled' as SupplierStatementStatus,
+        settledBy: uid,
+        settledAt: now,
+        settlementReference: String(reference).slice(0, 100),
+      });
+    });
+
+    await db.collection('admin-actions').add({
+      type: 'supplier_statement_settled',
+      adminId: uid,
+      statementId,
+      reference: String(reference).slice(0, 100),
+      timestamp: now,
+    });
+
+    return { statementId, status: 'settled' };
+  } catch (error) {
+    console.error('Error settling supplier statement:', error);
+    throw toHttpsError(error, 'Failed to settle supplier statement');
+  }
+});
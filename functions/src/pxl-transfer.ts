@@ -0,0 +1,461 @@
+/**
+ * Firebase Cloud Functions for peer-to-peer PXL transfers
+ * Transfers run in a single Firestore transaction through the PXL ledger,
+ * enforce tier-based limits and hold large transfers for admin review
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { postJournalEntry, userAccountId, entryIdForKey, SYSTEM_ACCOUNTS } from './utils/ledger';
+import { getTransferLimits } from './utils/pxl-calculations';
+import { toHttpsError } from './utils/errors';
+import { requirePermission } from './utils/admin-roles';
+import { notifyUser } from './utils/notifications';
+import { PAYMENT_REQUESTS, settleHeldShare } from './utils/payment-requests';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const MAX_MESSAGE_LENGTH = 200;
+
+/**
+ * UTC day and month keys used to bucket transfer usage
+ */
+function usagePeriodKeys(date: Date): { dayKey: string; monthKey: string } {
+  const iso = date.toISOString();
+  return { dayKey: iso.slice(0, 10), monthKey: iso.slice(0, 7) };
+}
+
+export interface TransferParams {
+  senderUserId: string;
+  recipientUserId: string;
+  amount: number;
+  message?: string | null;
+  idempotencyKey: string;
+  // Set when the transfer was executed from a scheduled transfer
+  scheduledTransferId?: string;
+  // Set when the transfer pays a share of a payment request
+  paymentRequestId?: string;
+}
+
+export interface TransferOutcome {
+  success: boolean;
+  duplicate: boolean;
+  transferId: string;
+  status: 'completed' | 'on-hold';
+  amount: number;
+  newBalance?: number;
+}
+
+/**
+ * Validate transfer parameters, throwing invalid-argument errors
+ */
+export function validateTransferParams(params: Omit<TransferParams, 'idempotencyKey'>): void {
+  const { senderUserId, recipientUserId, amount, message } = params;
+
+  if (!recipientUserId || typeof recipientUserId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing recipient');
+  }
+
+  if (recipientUserId === senderUserId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Cannot transfer to yourself');
+  }
+
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 1) {
+    throw new functions.https.HttpsError('invalid-argument', 'Minimum transfer is 1 PXL');
+  }
+
+  if (message && (typeof message !== 'string' || message.length > MAX_MESSAGE_LENGTH)) {
+    throw new functions.https.HttpsError('invalid-argument', `Message must be at most ${MAX_MESSAGE_LENGTH} characters`);
+  }
+}
+
+/**
+ * Transfer PXL to another user
+ * The same idempotency key always resolves to the same transfer
+ */
+export const transferPXL = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { recipientUserId, amount, message, idempotencyKey } = data;
+  const params = { senderUserId: context.auth.uid, recipientUserId, amount, message };
+
+  validateTransferParams(params);
+
+  if (!idempotencyKey) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing idempotency key');
+  }
+
+  try {
+    return await executePXLTransfer({ ...params, idempotencyKey });
+  } catch (error) {
+    console.error('Error transferring PXL:', error);
+    throw toHttpsError(error, 'Failed to complete transfer');
+  }
+});
+
+/**
+ * Execute a validated transfer in a single Firestore transaction.
+ * Throws HttpsError or LedgerError when limits or balance do not allow it.
+ */
+export async function executePXLTransfer(params: TransferParams): Promise<TransferOutcome> {
+  const { senderUserId, recipientUserId, amount, message, idempotencyKey, scheduledTransferId, paymentRequestId } = params;
+
+  const currencyDoc = await db.doc('pxl-currency/main').get();
+  const exchangeRate = currencyDoc.data()?.currentRate || 100;
+
+  return await db.runTransaction(async (transaction) => {
+    const transferRef = db.collection('pxl-transfers').doc(`trf_${entryIdForKey(`${senderUserId}:${idempotencyKey}`)}`);
+    const senderRef = db.doc(`users/${senderUserId}`);
+    const recipientRef = db.doc(`users/${recipientUserId}`);
+    const usageRef = db.doc(`transfer-usage/${senderUserId}`);
+
+    const [transferDoc, senderDoc, recipientDoc, usageDoc] = await Promise.all([
+      transaction.get(transferRef),
+      transaction.get(senderRef),
+      transaction.get(recipientRef),
+      transaction.get(usageRef),
+    ]);
+
+    // Replayed request: return the original outcome
+    if (transferDoc.exists) {
+      const existing = transferDoc.data()!;
+      return {
+        success: true,
+        duplicate: true,
+        transferId: transferRef.id,
+        status: existing.status,
+        amount: existing.amount,
+      };
+    }
+
+    if (!senderDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Sender not found');
+    }
+
+    if (!recipientDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Recipient not found');
+    }
+
+    const sender = senderDoc.data()!;
+    const recipient = recipientDoc.data()!;
+    const senderTier = sender.tier?.current || 'starter';
+    const limits = getTransferLimits(senderTier);
+
+    if (amount > limits.perTransfer) {
+      throw new functions.https.HttpsError(
+        'resource-exhausted',
+        `Maximum transfer for ${senderTier} tier is ${limits.perTransfer} PXL`
+      );
+    }
+
+    // Enforce rolling daily and monthly limits
+    const now = admin.firestore.Timestamp.now();
+    const { dayKey, monthKey } = usagePeriodKeys(now.toDate());
+    const usage = usageDoc.exists ? usageDoc.data()! : {};
+    const dailyTotal = (usage.dayKey === dayKey ? usage.dailyTotal || 0 : 0) + amount;
+    const monthlyTotal = (usage.monthKey === monthKey ? usage.monthlyTotal || 0 : 0) + amount;
+
+    if (dailyTotal > limits.daily) {
+      throw new functions.https.HttpsError(
+        'resource-exhausted',
+        `Daily transfer limit of ${limits.daily} PXL reached`
+      );
+    }
+
+    if (monthlyTotal > limits.monthly) {
+      throw new functions.https.HttpsError(
+        'resource-exhausted',
+        `Monthly transfer limit of ${limits.monthly} PXL reached`
+      );
+    }
+
+    // Large transfers leave the sender's wallet but wait in the holds account
+    const held = amount > limits.holdThreshold;
+    const senderAccount = userAccountId(senderUserId);
+
+    const entry = await postJournalEntry(transaction, {
+      type: 'pxl-transfer',
+      idempotencyKey: `pxl-transfer:${transferRef.id}`,
+      description: held
+        ? `Transfer to ${recipient.username} held for review`
+        : `Transfer to ${recipient.username}`,
+      legs: [
+        { accountId: senderAccount, direction: 'debit', amount },
+        {
+          accountId: held ? SYSTEM_ACCOUNTS.transferHolds : userAccountId(recipientUserId),
+          direction: 'credit',
+          amount,
+        },
+      ],
+      metadata: { transferId: transferRef.id, senderUserId, recipientUserId },
+    });
+
+    const status = held ? 'on-hold' : 'completed';
+    const senderTxnRef = db.collection('transactions').doc();
+    const recipientTxnRef = db.collection('transactions').doc();
+
+    transaction.set(transferRef, {
+      senderUserId,
+      senderUsername: sender.username,
+      recipientUserId,
+      recipientUsername: recipient.username,
+      recipientEmail: recipient.email || null,
+      amount,
+      message: message || null,
+      status,
+      idempotencyKey,
+      scheduledTransferId: scheduledTransferId || null,
+      paymentRequestId: paymentRequestId || null,
+      ledgerEntryId: entry.entryId,
+      createdAt: now,
+      completedAt: held ? null : now,
+      senderTransactionId: senderTxnRef.id,
+      recipientTransactionId: held ? null : recipientTxnRef.id,
+    });
+
+    transaction.set(senderTxnRef, {
+      userId: senderUserId,
+      type: 'pxl-transfer-sent',
+      amounts: {
+        pxl: -amount,
+        usd: 0,
+        exchangeRate,
+      },
+      transfer: {
+        transferId: transferRef.id,
+        recipientUserId,
+        recipientUsername: recipient.username,
+        recipientEmail: recipient.email || null,
+        message: message || null,
+        transferStatus: status,
+      },
+      ledgerEntryId: entry.entryId,
+      status: held ? 'pending' : 'completed',
+      timestamps: {
+        created: now,
+        updated: now,
+        ...(held ? {} : { completed: now }),
+      },
+    });
+
+    if (!held) {
+      transaction.set(recipientTxnRef, {
+        userId: recipientUserId,
+        type: 'pxl-transfer-received',
+        amounts: {
+          pxl: amount,
+          usd: 0,
+          exchangeRate,
+        },
+        transfer: {
+          transferId: transferRef.id,
+          senderUserId,
+          senderUsername: sender.username,
+          message: message || null,
+          transferStatus: status,
+        },
+        ledgerEntryId: entry.entryId,
+        status: 'completed',
+        timestamps: {
+          created: now,
+          updated: now,
+          completed: now,
+        },
+      });
+
+      transaction.update(recipientRef, {
+        'wallets.pxl.totalReceived': admin.firestore.FieldValue.increment(amount),
+      });
+    }
+
+    transaction.update(senderRef, {
+      'wallets.pxl.totalSent': admin.firestore.FieldValue.increment(amount),
+      ...(held ? { 'wallets.pxl.lockedBalance': admin.firestore.FieldValue.increment(amount) } : {}),
+    });
+
+    transaction.set(usageRef, {
+      dayKey,
+      dailyTotal,
+      monthKey,
+      monthlyTotal,
+      updatedAt: now,
+    });
+
+    return {
+      success: true,
+      duplicate: false,
+      transferId: transferRef.id,
+      status,
+      amount,
+      newBalance: entry.balances[senderAccount],
+    };
+  });
+}
+
+/**
+ * Release or reject a held transfer (admin only)
+ * Released transfers are credited to the recipient, rejected ones are refunded.
+ * A payment request share paid by the transfer is settled in the same transaction.
+ */
+export const reviewPXLTransferHold = functions.https.onCall(async (data, context) => {
+  const adminId = requirePermission(context, 'finance:write');
+
+  const { transferId, decision, reason } = data;
+
+  if (!transferId || (decision !== 'release' && decision !== 'reject')) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid review decision');
+  }
+
+  try {
+    const currencyDoc = await db.doc('pxl-currency/main').get();
+    const exchangeRate = currencyDoc.data()?.currentRate || 100;
+
+    const result = await db.runTransaction(async (transaction) => {
+      const transferRef = db.collection('pxl-transfers').doc(transferId);
+      const transferDoc = await transaction.get(transferRef);
+
+      if (!transferDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Transfer not found');
+      }
+
+      const transfer = transferDoc.data()!;
+      if (transfer.status !== 'on-hold') {
+        throw new functions.https.HttpsError('failed-precondition', `Transfer is ${transfer.status}`);
+      }
+
+      const requestRef = transfer.paymentRequestId
+        ? db.collection(PAYMENT_REQUESTS).doc(transfer.paymentRequestId)
+        : null;
+      const requestDoc = requestRef ? await transaction.get(requestRef) : null;
+
+      const released = decision === 'release';
+      const creditUserId = released ? transfer.recipientUserId : transfer.senderUserId;
+
+      const entry = await postJournalEntry(transaction, {
+        type: 'pxl-transfer',
+        idempotencyKey: `pxl-transfer-hold:${transferId}`,
+        description: released
+          ? `Held transfer released to ${transfer.recipientUsername}`
+          : 'Held transfer refunded',
+        legs: [
+          { accountId: SYSTEM_ACCOUNTS.transferHolds, direction: 'debit', amount: transfer.amount },
+          { accountId: userAccountId(creditUserId), direction: 'credit', amount: transfer.amount },
+        ],
+        metadata: { transferId, decision, adminId },
+      });
+
+      const now = admin.firestore.Timestamp.now();
+      const status = released ? 'completed' : 'rejected';
+      const recipientTxnRef = db.collection('transactions').doc();
+      const settled = requestDoc?.exists ? settleHeldShare(requestDoc.data()!, transferId, released, now) : null;
+
+      if (requestRef && settled) {
+        transaction.update(requestRef, {
+          shares: settled.shares,
+          status: settled.status,
+          amountPaid: settled.amountPaid,
+          updatedAt: now,
+        });
+      }
+
+      transaction.update(transferRef, {
+        status,
+        completedAt: released ? now : null,
+        review: {
+          decision,
+          reason: reason || null,
+          adminId,
+          reviewedAt: now,
+          ledgerEntryId: entry.entryId,
+        },
+        ...(released ? { recipientTransactionId: recipientTxnRef.id } : {}),
+      });
+
+      transaction.update(db.collection('transactions').doc(transfer.senderTransactionId), {
+        'transfer.transferStatus': status,
+        status: released ? 'completed' : 'cancelled',
+        'timestamps.updated': now,
+        ...(released ? { 'timestamps.completed': now } : {}),
+      });
+
+      transaction.update(db.doc(`users/${transfer.senderUserId}`), {
+        'wallets.pxl.lockedBalance': admin.firestore.FieldValue.increment(-transfer.amount),
+        ...(released ? {} : { 'wallets.pxl.totalSent': admin.firestore.FieldValue.increment(-transfer.amount) }),
+      });
+
+      if (released) {
+        transaction.set(recipientTxnRef, {
+          userId: transfer.recipientUserId,
+          type: 'pxl-transfer-received',
+          amounts: {
+            pxl: transfer.amount,
+            usd: 0,
+            exchangeRate,
+          },
+          transfer: {
+            transferId,
+            senderUserId: transfer.senderUserId,
+            senderUsername: transfer.senderUsername,
+            message: transfer.message || null,
+            transferStatus: status,
+          },
+          ledgerEntryId: entry.entryId,
+          status: 'completed',
+          timestamps: {
+            created: now,
+            updated: now,
+            completed: now,
+          },
+        });
+
+        transaction.update(db.doc(`users/${transfer.recipientUserId}`), {
+          'wallets.pxl.totalReceived': admin.firestore.FieldValue.increment(transfer.amount),
+        });
+      }
+
+      return {
+        transferId,
+        status,
+        amount: transfer.amount,
+        paidRequest: released && settled ? {
+          paymentRequestId: transfer.paymentRequestId as string,
+          requesterId: requestDoc!.data()!.requesterId as string,
+          requestAmount: requestDoc!.data()!.amount as number,
+          username: settled.share.username,
+        } : null,
+      };
+    });
+
+    if (result.paidRequest) {
+      const { paymentRequestId, requesterId, requestAmount, username } = result.paidRequest;
+      await notifyUser(requesterId, {
+        type: 'payment-request-paid',
+        title: 'PXL request paid',
+        body: `${username || 'Someone'} paid ${result.amount} PXL of your ${requestAmount} PXL request`,
+        data: { paymentRequestId, transferId },
+      });
+    }
+
+    await db.collection('admin-actions').add({
+      type: 'pxl_transfer_hold_reviewed',
+      adminId,
+      transferId,
+      decision,
+      amount: result.amount,
+      reason: reason || null,
+      timestamp: admin.firestore.Timestamp.now(),
+    });
+
+    return { success: true, transferId, status: result.status, amount: result.amount };
+  } catch (error) {
+    console.error('Error reviewing held transfer:', error);
+    throw toHttpsError(error, 'Failed to review transfer');
+  }
+});
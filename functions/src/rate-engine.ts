@@ -0,0 +1,395 @@
+/**
+ * Firebase Cloud Functions for the PXL exchange-rate engine
+ * Computes the rate from the active pricing model, records OHLC candles and
+ * lets admins preview a model against recent volume before proposing it.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  computeRate,
+  validateRateModel,
+  DEFAULT_RATE_MODEL,
+  FlowVolumes,
+  RateComputation,
+  RateModelConfig,
+} from './utils/rate-models';
+import {
+  LEDGER_ENTRIES,
+  LedgerEntryRecord,
+  LedgerEntryType,
+  LedgerLeg,
+  SYSTEM_ACCOUNTS,
+} from './utils/ledger';
+import { toHttpsError } from './utils/errors';
+import { requirePermission } from './utils/admin-roles';
+import { ApprovedChange, approvalAuditFields } from './utils/approvals';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const RATE_CANDLES = 'pxl-rate-candles';
+
+// The engine runs every 15 minutes, so that is the finest candle
+export const CANDLE_RESOLUTIONS = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+} as const;
+
+export type CandleResolution = keyof typeof CANDLE_RESOLUTIONS;
+
+const ENGINE_INTERVAL_MS = CANDLE_RESOLUTIONS['15m'];
+const HOURLY_POINTS_KEPT = 24;
+const DAILY_POINTS_KEPT = 365;
+const MAX_PREVIEW_HOURS = 168;
+
+interface TransactionFlow {
+  at: number;
+  pxl: number;
+  usd: number;
+  type: string;
+}
+
+/**
+ * The active model, falling back to a peg on the stored base rate
+ */
+export function activeModel(currencyData: admin.firestore.DocumentData): RateModelConfig {
+  return currencyData.rateModel || { ...DEFAULT_RATE_MODEL, baseRate: currencyData.baseRate || DEFAULT_RATE_MODEL.baseRate };
+}
+
+/**
+ * Load PXL purchase and giftcard spend flows since a point in time
+ * Flows come from the ledger, where only Cloud Functions post, read through the
+ * system account each flow moves: PXL issued against payments and PXL spent on giftcards
+ */
+async function loadFlows(sinceMs: number): Promise<TransactionFlow[]> {
+  const since = admin.firestore.Timestamp.fromMillis(sinceMs);
+  const sources: Array<[string, LedgerEntryType, LedgerLeg['direction']]> = [
+    [SYSTEM_ACCOUNTS.issuance, 'pxl-purchase', 'debit'],
+    [SYSTEM_ACCOUNTS.giftcardSales, 'giftcard-purchase', 'credit'],
+  ];
+
+  const flows = await Promise.all(sources.map(async ([accountId, type, direction]) => {
+    const snapshot = await db.collection(LEDGER_ENTRIES)
+      .where('accountIds', 'array-contains', accountId)
+      .where('createdAt', '>=', since)
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    return snapshot.docs
+      .map(doc => doc.data() as LedgerEntryRecord)
+      .filter(entry => entry.type === type)
+      .map(entry => ({
+        at: entry.createdAt.toMillis(),
+        pxl: entry.legs
+          .filter(leg => leg.accountId === accountId && leg.direction === direction)
+          .reduce((sum, leg) => sum + leg.amount, 0),
+        usd: Math.abs(Number(entry.metadata?.usdAmount) || 0),
+        type,
+      }));
+  }));
+
+  return flows.flat();
+}
+
+function sumVolumes(flows: TransactionFlow[], fromMs: number, toMs: number): FlowVolumes {
+  const volumes: FlowVolumes = { purchasedPxl: 0, spentPxl: 0, purchaseUsd: 0, transactionCount: 0 };
+
+  for (const flow of flows) {
+    if (flow.at <= fromMs || flow.at > toMs) continue;
+    volumes.transactionCount++;
+    if (flow.type === 'pxl-purchase') {
+      volumes.purchasedPxl += flow.pxl;
+      volumes.purchaseUsd += flow.usd;
+    } else {
+      volumes.spentPxl += flow.pxl;
+    }
+  }
+
+  return volumes;
+}
+
+/**
+ * Opening rate of the circuit-breaker window, from the 15 minute candles
+ */
+async function getReferenceRate(windowHours: number, nowMs: number, fallback: number): Promise<number> {
+  const snapshot = await db.collection(RATE_CANDLES)
+    .where('resolution', '==', '15m')
+    .where('bucketStart', '>=', admin.firestore.Timestamp.fromMillis(nowMs - windowHours * 60 * 60 * 1000))
+    .orderBy('bucketStart', 'asc')
+    .limit(1)
+    .get();
+
+  return snapshot.empty ? fallback : snapshot.docs[0].data().open;
+}
+
+/**
+ * Fold a rate observation into the candle of every resolution
+ */
+export async function recordRateCandles(rate: number, volumes: FlowVolumes | null, atMs: number): Promise<void> {
+  const resolutions = Object.entries(CANDLE_RESOLUTIONS) as Array<[CandleResolution, number]>;
+  const refs = resolutions.map(([resolution, size]) => {
+    const bucketStart = Math.floor(atMs / size) * size;
+    return { resolution, bucketStart, ref: db.collection(RATE_CANDLES).doc(`${resolution}_${bucketStart}`) };
+  });
+
+  await db.runTransaction(async (transaction) => {
+    const docs = await Promise.all(refs.map(({ ref }) => transaction.get(ref)));
+    const now = admin.firestore.Timestamp.now();
+
+    docs.forEach((doc, index) => {
+      const { resolution, bucketStart, ref } = refs[index];
+      const volumePxl = volumes ? volumes.purchasedPxl + volumes.spentPxl : 0;
+      const volumeUsd = volumes ? volumes.purchaseUsd : 0;
+
+      if (!doc.exists) {
+        transaction.set(ref, {
+          resolution,
+          bucketStart: admin.firestore.Timestamp.fromMillis(bucketStart),
+          open: rate,
+          high: rate,
+          low: rate,
+          close: rate,
+          volumePxl,
+          volumeUsd,
+          samples: 1,
+          updatedAt: now,
+        });
+        return;
+      }
+
+      const candle = doc.data()!;
+      transaction.update(ref, {
+        high: Math.max(candle.high, rate),
+        low: Math.min(candle.low, rate),
+        close: rate,
+        volumePxl: admin.firestore.FieldValue.increment(volumePxl),
+        volumeUsd: admin.firestore.FieldValue.increment(volumeUsd),
+        samples: admin.firestore.FieldValue.increment(1),
+        updatedAt: now,
+      });
+    });
+  });
+}
+
+/**
+ * Append a point to a rate series, replacing the point for the same period
+ */
+function upsertRatePoint(
+  points: Array<{ timestamp: admin.firestore.Timestamp; rate: number; volume?: number }>,
+  point: { timestamp: admin.firestore.Timestamp; rate: number; volume: number },
+  periodMs: number,
+  keep: number
+) {
+  const last = points[points.length - 1];
+  const samePeriod = last &&
+    Math.floor(last.timestamp.toMillis() / periodMs) === Math.floor(point.timestamp.toMillis() / periodMs);
+
+  const next = samePeriod
+    ? [...points.slice(0, -1), { ...point, volume: (last.volume || 0) + point.volume }]
+    : [...points, point];
+
+  return next.slice(-keep);
+}
+
+/**
+ * Scheduled rate engine
+ * Runs every 15 minutes
+ */
+export const runRateEngine = functions.pubsub
+  .schedule('every 15 minutes')
+  .onRun(async () => {
+    const currencyRef = db.collection('pxl-currency').doc('main');
+    const currencyDoc = await currencyRef.get();
+
+    if (!currencyDoc.exists) {
+      console.error('Currency document not found');
+      return null;
+    }
+
+    const currencyData = currencyDoc.data()!;
+    const model = activeModel(currencyData);
+    const currentRate = currencyData.currentRate || model.baseRate;
+    const nowMs = Date.now();
+    const now = admin.firestore.Timestamp.fromMillis(nowMs);
+    const haltedUntil: admin.firestore.Timestamp | undefined = currencyData.rateEngine?.haltedUntil;
+
+    // Halted by the circuit breaker; keep the candles continuous at the frozen rate
+    if (haltedUntil && haltedUntil.toMillis() > nowMs) {
+      await recordRateCandles(currentRate, null, nowMs);
+      await currencyRef.update({ 'rateEngine.lastRunAt': now, 'rateEngine.lastStatus': 'halted' });
+      console.log(`Rate engine halted until ${haltedUntil.toDate().toISOString()}`);
+      return null;
+    }
+
+    try {
+      const windowHours = model.windowHours || 1;
+      const flows = await loadFlows(nowMs - Math.max(windowHours * 60 * 60 * 1000, ENGINE_INTERVAL_MS));
+      const volumes = sumVolumes(flows, nowMs - windowHours * 60 * 60 * 1000, nowMs);
+      const intervalVolumes = sumVolumes(flows, nowMs - ENGINE_INTERVAL_MS, nowMs);
+      const referenceRate = await getReferenceRate(model.circuitBreaker.windowHours, nowMs, currentRate);
+      const computation = computeRate(model, currentRate, volumes, referenceRate);
+      const rate = computation.rate;
+
+      const marketData = currencyData.marketData || {};
+      const point = { timestamp: now, rate, volume: intervalVolumes.purchaseUsd };
+      const hourlyRates = upsertRatePoint(marketData.hourlyRates || [], point, CANDLE_RESOLUTIONS['1h'], HOURLY_POINTS_KEPT);
+      const dailyRates = upsertRatePoint(marketData.dailyRates || [], point, CANDLE_RESOLUTIONS['1d'], DAILY_POINTS_KEPT);
+
+      // Trend and volatility over the last 24 hourly points
+      const oldest = hourlyRates[0]?.rate || rate;
+      const trend = rate > oldest ? 'up' : rate < oldest ? 'down' : 'stable';
+      const rates = hourlyRates.map(p => p.rate);
+      const avg = rates.reduce((a, b) => a + b, 0) / rates.length;
+      const variance = rates.reduce((sum, r) => sum + Math.pow(r - avg, 2), 0) / rates.length;
+      const volatility = Math.sqrt(variance) / avg * 100;
+
+      await currencyRef.update({
+        currentRate: rate,
+        'marketData.hourlyRates': hourlyRates,
+        'marketData.dailyRates': dailyRates,
+        'marketData.trend': trend,
+        'marketData.volatility': volatility,
+        'rateEngine.lastRunAt': now,
+        'rateEngine.lastStatus': computation.circuitBreakerTripped ? 'tripped' : 'ok',
+        'rateEngine.lastComputation': { ...computation, volumes },
+        'rateEngine.haltedUntil': computation.circuitBreakerTripped
+          ? admin.firestore.Timestamp.fromMillis(nowMs + model.circuitBreaker.haltMinutes * 60 * 1000)
+          : null,
+        lastUpdated: now,
+      });
+
+      await recordRateCandles(rate, intervalVolumes, nowMs);
+
+      if (computation.circuitBreakerTripped) {
+        await db.collection('admin-actions').add({
+          type: 'rate_circuit_breaker',
+          model: model.type,
+          rate: currentRate,
+          rejectedRate: computation.targetRate,
+          referenceRate,
+          haltMinutes: model.circuitBreaker.haltMinutes,
+          timestamp: now,
+        });
+      }
+
+      console.log(`Rate ${currentRate.toFixed(4)} → ${rate.toFixed(4)} (${model.type}, ${computation.clampedBy})`);
+    } catch (error) {
+      console.error('Error running rate engine:', error);
+    }
+
+    return null;
+  });
+
+/**
+ * Replay recent volume through a model without activating it (admin only)
+ * Starts from today's rate and steps at the engine's 15 minute interval
+ */
+export const previewRateModel = functions.https.onCall(async (data, context) => {
+  requirePermission(context, 'finance:read');
+
+  const model: RateModelConfig = data?.model;
+  const hours = Math.min(Math.max(Number(data?.hours) || 24, 1), MAX_PREVIEW_HOURS);
+  const errors = validateRateModel(model);
+
+  if (errors.length > 0) {
+    throw new functions.https.HttpsError('invalid-argument', errors.join('; '));
+  }
+
+  try {
+    const currencyDoc = await db.collection('pxl-currency').doc('main').get();
+    const startRate = currencyDoc.data()?.currentRate || model.baseRate;
+    const nowMs = Date.now();
+    const startMs = nowMs - hours * 60 * 60 * 1000;
+    const windowMs = (model.windowHours || 1) * 60 * 60 * 1000;
+    const breakerWindowMs = model.circuitBreaker.windowHours * 60 * 60 * 1000;
+    const flows = await loadFlows(startMs - windowMs);
+
+    const points: Array<RateComputation & { at: number; halted: boolean }> = [];
+    let rate = startRate;
+    let haltedUntilMs = 0;
+
+    for (let at = startMs + ENGINE_INTERVAL_MS; at <= nowMs; at += ENGINE_INTERVAL_MS) {
+      const windowStart = points.find(p => p.at >= at - breakerWindowMs);
+      const referenceRate = windowStart ? windowStart.previousRate : startRate;
+      const computation = computeRate(model, rate, sumVolumes(flows, at - windowMs, at), referenceRate);
+      const halted = at < haltedUntilMs;
+
+      if (!halted) {
+        rate = computation.rate;
+        if (computation.circuitBreakerTripped) {
+          haltedUntilMs = at + model.circuitBreaker.haltMinutes * 60 * 1000;
+        }
+      }
+
+      points.push({ ...computation, rate, at, halted });
+    }
+
+    const rates = points.map(p => p.rate);
+    return {
+      startRate,
+      finalRate: rate,
+      minRate: Math.min(startRate, ...rates),
+      maxRate: Math.max(startRate, ...rates),
+      changePercent: (rate - startRate) / startRate * 100,
+      clampedSteps: points.filter(p => p.clampedBy !== 'none').length,
+      circuitBreakerTrips: points.filter(p => p.circuitBreakerTripped && !p.halted).length,
+      transactionCount: sumVolumes(flows, startMs, nowMs).transactionCount,
+      points: points.map(p => ({ at: p.at, rate: p.rate, targetRate: p.targetRate, clampedBy: p.clampedBy, halted: p.halted })),
+    };
+  } catch (error) {
+    console.error('Error previewing rate model:', error);
+    throw toHttpsError(error, 'Failed to preview rate model');
+  }
+});
+
+/**
+ * Make a model the one the engine runs once an admin approval for it has been granted
+ * Model changes are proposed and approved through proposeAdminChange and reviewAdminChange
+ */
+export async function applyRateModel(
+  model: RateModelConfig,
+  reason: string,
+  approval: ApprovedChange
+): Promise<{ previousModel: RateModelConfig; model: RateModelConfig; actionId: string }> {
+  const errors = validateRateModel(model);
+
+  if (errors.length > 0) {
+    throw new functions.https.HttpsError('invalid-argument', errors.join('; '));
+  }
+
+  const currencyRef = db.collection('pxl-currency').doc('main');
+  const currencyDoc = await currencyRef.get();
+
+  if (!currencyDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'Currency data not found');
+  }
+
+  const previousModel = activeModel(currencyDoc.data()!);
+  const now = admin.firestore.Timestamp.now();
+
+  await currencyRef.update({
+    rateModel: model,
+    baseRate: model.baseRate,
+    'rateEngine.haltedUntil': null,
+    'rateEngine.activatedAt': now,
+    'rateEngine.activatedBy': approval.approvedBy,
+    lastUpdated: now,
+  });
+
+  const action = await db.collection('admin-actions').add({
+    type: 'rate_model_activated',
+    ...approvalAuditFields(approval),
+    previousModel,
+    model,
+    reason: reason || 'Model change',
+    timestamp: now,
+  });
+
+  return { previousModel, model, actionId: action.id };
+}
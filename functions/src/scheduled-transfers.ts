@@ -0,0 +1,432 @@
+/**
+ * Firebase Cloud Functions for scheduled and recurring PXL transfers
+ * Users schedule one-off or recurring transfers; a scheduled job executes
+ * due transfers through executePXLTransfer and retries recoverable failures
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { executePXLTransfer, validateTransferParams } from './pxl-transfer';
+import { notifyUser } from './utils/notifications';
+import { toHttpsError } from './utils/errors';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const SCHEDULED_TRANSFERS = 'scheduled-transfers';
+
+export type TransferFrequency = 'once' | 'weekly' | 'monthly';
+
+const FREQUENCIES: TransferFrequency[] = ['once', 'weekly', 'monthly'];
+
+// Delay before each retry of a failed occurrence
+const RETRY_DELAYS_HOURS = [1, 6, 24];
+
+// Errors worth retrying: the sender may top up or limits may reset
+const RETRYABLE_CODES = ['failed-precondition', 'resource-exhausted'];
+
+// How long a claimed run may take before another job run picks the schedule up again
+const RUN_LEASE_MS = 10 * 60 * 1000;
+
+const MAX_ACTIVE_SCHEDULES = 20;
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 100;
+
+/**
+ * Compute the occurrence after `from` for a recurring frequency
+ */
+export function nextOccurrence(from: Date, frequency: TransferFrequency): Date | null {
+  const next = new Date(from.getTime());
+
+  switch (frequency) {
+    case 'weekly':
+      next.setUTCDate(next.getUTCDate() + 7);
+      return next;
+    case 'monthly': {
+      // Clamp to the last day of shorter months (Jan 31 -> Feb 28)
+      const day = next.getUTCDate();
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+      next.setUTCDate(Math.min(day, lastDay));
+      return next;
+    }
+    default:
+      return null;
+  }
+}
+
+function validateSchedule(runAt: unknown, frequency: unknown, endAfter: unknown): void {
+  if (typeof runAt !== 'number' || !Number.isFinite(runAt)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid run date');
+  }
+
+  const now = Date.now();
+  if (runAt < now - 60 * 1000 || runAt > now + MAX_SCHEDULE_AHEAD_MS) {
+    throw new functions.https.HttpsError('invalid-argument', 'Run date must be within the next year');
+  }
+
+  if (!FREQUENCIES.includes(frequency as TransferFrequency)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid frequency');
+  }
+
+  if (endAfter !== undefined && endAfter !== null &&
+      (typeof endAfter !== 'number' || !Number.isInteger(endAfter) || endAfter < 1)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid number of occurrences');
+  }
+}
+
+/**
+ * Schedule a one-off or recurring transfer
+ */
+export const createScheduledTransfer = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { recipientUserId, amount, message, runAt, frequency = 'once', endAfter = null } = data;
+  const senderUserId = context.auth.uid;
+
+  validateTransferParams({ senderUserId, recipientUserId, amount, message });
+  validateSchedule(runAt, frequency, endAfter);
+
+  try {
+    const [senderDoc, recipientDoc, activeSchedules] = await Promise.all([
+      db.doc(`users/${senderUserId}`).get(),
+      db.doc(`users/${recipientUserId}`).get(),
+      db.collection(SCHEDULED_TRANSFERS)
+        .where('senderUserId', '==', senderUserId)
+        .where('status', 'in', ['active', 'running'])
+        .count()
+        .get(),
+    ]);
+
+    if (!senderDoc.exists || !recipientDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'User not found');
+    }
+
+    if (activeSchedules.data().count >= MAX_ACTIVE_SCHEDULES) {
+      throw new functions.https.HttpsError(
+        'resource-exhausted',
+        `You can have at most ${MAX_ACTIVE_SCHEDULES} scheduled transfers`
+      );
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const scheduledFor = admin.firestore.Timestamp.fromMillis(runAt);
+    const scheduleRef = await db.collection(SCHEDULED_TRANSFERS).add({
+      senderUserId,
+      senderUsername: senderDoc.data()!.username,
+      recipientUserId,
+      recipientUsername: recipientDoc.data()!.username,
+      amount,
+      message: message || null,
+      frequency,
+      endAfter,
+      scheduledFor,
+      nextRunAt: scheduledFor,
+      runCount: 0,
+      skippedCount: 0,
+      attempt: 0,
+      status: 'active',
+      lastRun: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { success: true, scheduledTransferId: scheduleRef.id };
+  } catch (error) {
+    console.error('Error scheduling transfer:', error);
+    throw toHttpsError(error, 'Failed to schedule transfer');
+  }
+});
+
+/**
+ * Edit the amount, message or timing of an active scheduled transfer
+ */
+export const updateScheduledTransfer = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { scheduledTransferId } = data;
+  if (!scheduledTransferId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing scheduled transfer');
+  }
+
+  try {
+    const scheduleRef = db.collection(SCHEDULED_TRANSFERS).doc(scheduledTransferId);
+
+    await db.runTransaction(async (transaction) => {
+      const scheduleDoc = await transaction.get(scheduleRef);
+
+      if (!scheduleDoc.exists || scheduleDoc.data()!.senderUserId !== context.auth!.uid) {
+        throw new functions.https.HttpsError('not-found', 'Scheduled transfer not found');
+      }
+
+      const schedule = scheduleDoc.data()!;
+      if (schedule.status === 'running') {
+        throw new functions.https.HttpsError('failed-precondition', 'The transfer is being sent, try again shortly');
+      }
+      if (schedule.status !== 'active') {
+        throw new functions.https.HttpsError('failed-precondition', `Scheduled transfer is ${schedule.status}`);
+      }
+
+      const amount = data.amount ?? schedule.amount;
+      const message = data.message !== undefined ? data.message : schedule.message;
+      const frequency = data.frequency ?? schedule.frequency;
+      const endAfter = data.endAfter !== undefined ? data.endAfter : schedule.endAfter;
+      const runAt = data.runAt ?? schedule.scheduledFor.toMillis();
+
+      validateTransferParams({
+        senderUserId: schedule.senderUserId,
+        recipientUserId: schedule.recipientUserId,
+        amount,
+        message,
+      });
+      validateSchedule(data.runAt === undefined ? Date.now() : runAt, frequency, endAfter);
+
+      const update: Record<string, unknown> = {
+        amount,
+        message: message || null,
+        frequency,
+        endAfter,
+        updatedAt: admin.firestore.Timestamp.now(),
+      };
+
+      // A new date replaces the current occurrence and clears pending retries
+      if (data.runAt !== undefined) {
+        const scheduledFor = admin.firestore.Timestamp.fromMillis(runAt);
+        update.scheduledFor = scheduledFor;
+        update.nextRunAt = scheduledFor;
+        update.attempt = 0;
+      }
+
+      transaction.update(scheduleRef, update);
+    });
+
+    return { success: true, scheduledTransferId };
+  } catch (error) {
+    console.error('Error updating scheduled transfer:', error);
+    throw toHttpsError(error, 'Failed to update scheduled transfer');
+  }
+});
+
+/**
+ * Cancel an active scheduled transfer
+ */
+export const cancelScheduledTransfer = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { scheduledTransferId } = data;
+  if (!scheduledTransferId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing scheduled transfer');
+  }
+
+  try {
+    const scheduleRef = db.collection(SCHEDULED_TRANSFERS).doc(scheduledTransferId);
+
+    await db.runTransaction(async (transaction) => {
+      const scheduleDoc = await transaction.get(scheduleRef);
+
+      if (!scheduleDoc.exists || scheduleDoc.data()!.senderUserId !== context.auth!.uid) {
+        throw new functions.https.HttpsError('not-found', 'Scheduled transfer not found');
+      }
+
+      if (scheduleDoc.data()!.status === 'running') {
+        throw new functions.https.HttpsError('failed-precondition', 'The transfer is being sent, try again shortly');
+      }
+      if (scheduleDoc.data()!.status !== 'active') {
+        throw new functions.https.HttpsError('failed-precondition', 'Scheduled transfer is no longer active');
+      }
+
+      transaction.update(scheduleRef, {
+        status: 'cancelled',
+        cancelledAt: admin.firestore.Timestamp.now(),
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+    });
+
+    return { success: true, scheduledTransferId };
+  } catch (error) {
+    console.error('Error cancelling scheduled transfer:', error);
+    throw toHttpsError(error, 'Failed to cancel scheduled transfer');
+  }
+});
+
+/**
+ * Claim a due schedule by moving it from active to running
+ * Returns the claimed schedule, or null when it was cancelled, edited or
+ * claimed by an overlapping job run in the meantime. A run that never
+ * finishes is claimed again once its lease has passed.
+ */
+async function claimScheduledTransfer(
+  scheduleRef: admin.firestore.DocumentReference,
+  now: admin.firestore.Timestamp
+): Promise<admin.firestore.DocumentData | null> {
+  return db.runTransaction(async (transaction) => {
+    const scheduleDoc = await transaction.get(scheduleRef);
+    const schedule = scheduleDoc.data();
+
+    if (!schedule || (schedule.status !== 'active' && schedule.status !== 'running') ||
+        !schedule.nextRunAt || schedule.nextRunAt.toMillis() > now.toMillis()) {
+      return null;
+    }
+
+    transaction.update(scheduleRef, {
+      status: 'running',
+      nextRunAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + RUN_LEASE_MS),
+      updatedAt: now,
+    });
+
+    return schedule;
+  });
+}
+
+/**
+ * Run one due scheduled transfer and advance its schedule
+ */
+async function runScheduledTransfer(scheduleRef: admin.firestore.DocumentReference): Promise<boolean> {
+  const now = admin.firestore.Timestamp.now();
+  const schedule = await claimScheduledTransfer(scheduleRef, now);
+
+  if (!schedule) {
+    return false;
+  }
+
+  const occurrence = schedule.runCount + schedule.skippedCount;
+
+  // Advance to the next occurrence, or complete the schedule
+  const advance = (extra: Record<string, unknown>, countsAsRun: boolean) => {
+    const runCount = schedule.runCount + (countsAsRun ? 1 : 0);
+    const skippedCount = schedule.skippedCount + (countsAsRun ? 0 : 1);
+    const next = nextOccurrence(schedule.scheduledFor.toDate(), schedule.frequency);
+    const finished = !next || (schedule.endAfter && runCount + skippedCount >= schedule.endAfter);
+
+    return scheduleRef.update({
+      ...extra,
+      runCount,
+      skippedCount,
+      attempt: 0,
+      updatedAt: now,
+      ...(finished
+        ? { status: 'completed', nextRunAt: null }
+        : {
+            status: 'active',
+            scheduledFor: admin.firestore.Timestamp.fromDate(next),
+            nextRunAt: admin.firestore.Timestamp.fromDate(next),
+          }),
+    });
+  };
+
+  try {
+    const outcome = await executePXLTransfer({
+      senderUserId: schedule.senderUserId,
+      recipientUserId: schedule.recipientUserId,
+      amount: schedule.amount,
+      message: schedule.message,
+      // One key per occurrence so overlapping runs never execute it twice
+      idempotencyKey: `scheduled:${scheduleRef.id}:${occurrence}`,
+      scheduledTransferId: scheduleRef.id,
+    });
+
+    await advance({
+      lastRun: { at: now, status: outcome.status, transferId: outcome.transferId, error: null },
+    }, true);
+
+    if (!outcome.duplicate) {
+      if (outcome.status === 'completed') {
+        await notifyUser(schedule.recipientUserId, {
+          type: 'pxl-received',
+          title: 'PXL received',
+          body: `${schedule.senderUsername} sent you ${schedule.amount} PXL`,
+          data: { transferId: outcome.transferId },
+        });
+      }
+      await notifyUser(schedule.senderUserId, {
+        type: 'scheduled-transfer-sent',
+        title: 'Scheduled transfer sent',
+        body: `${schedule.amount} PXL was sent to ${schedule.recipientUsername}`,
+        data: { scheduledTransferId: scheduleRef.id, transferId: outcome.transferId },
+      });
+    }
+  } catch (error) {
+    const httpsError = toHttpsError(error, 'Transfer failed');
+    const retryable = RETRYABLE_CODES.includes(httpsError.code);
+    const lastRun = { at: now, status: 'failed', transferId: null, error: httpsError.message };
+
+    if (retryable && schedule.attempt < RETRY_DELAYS_HOURS.length) {
+      const delayMs = RETRY_DELAYS_HOURS[schedule.attempt] * 60 * 60 * 1000;
+      await scheduleRef.update({
+        status: 'active',
+        attempt: schedule.attempt + 1,
+        nextRunAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + delayMs),
+        lastRun,
+        updatedAt: now,
+      });
+
+      await notifyUser(schedule.senderUserId, {
+        type: 'scheduled-transfer-retry',
+        title: 'Scheduled transfer delayed',
+        body: `Your transfer of ${schedule.amount} PXL to ${schedule.recipientUsername} failed (${httpsError.message}). We will retry in ${RETRY_DELAYS_HOURS[schedule.attempt]}h.`,
+        data: { scheduledTransferId: scheduleRef.id },
+      });
+      return true;
+    }
+
+    if (retryable && schedule.frequency !== 'once') {
+      // Out of retries: skip this occurrence and keep the recurring schedule
+      await advance({ lastRun }, false);
+    } else {
+      await scheduleRef.update({
+        status: 'failed',
+        nextRunAt: null,
+        lastRun,
+        updatedAt: now,
+      });
+    }
+
+    await notifyUser(schedule.senderUserId, {
+      type: 'scheduled-transfer-failed',
+      title: 'Scheduled transfer failed',
+      body: `Your transfer of ${schedule.amount} PXL to ${schedule.recipientUsername} could not be completed: ${httpsError.message}`,
+      data: { scheduledTransferId: scheduleRef.id },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Scheduled job that executes due transfers
+ * Each transfer is claimed before it runs, so overlapping job runs never send it twice
+ */
+export const executeScheduledTransfers = functions.pubsub
+  .schedule('every 15 minutes')
+  .onRun(async () => {
+    try {
+      const due = await db.collection(SCHEDULED_TRANSFERS)
+        .where('status', 'in', ['active', 'running'])
+        .where('nextRunAt', '<=', admin.firestore.Timestamp.now())
+        .orderBy('nextRunAt', 'asc')
+        .limit(BATCH_SIZE)
+        .get();
+
+      let executed = 0;
+      for (const scheduleDoc of due.docs) {
+        if (await runScheduledTransfer(scheduleDoc.ref)) {
+          executed++;
+        }
+      }
+
+      console.log(`Executed ${executed} scheduled transfers`);
+    } catch (error) {
+      console.error('Error executing scheduled transfers:', error);
+    }
+  });
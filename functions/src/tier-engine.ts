@@ -0,0 +1,315 @@
+/**
+ * Firebase Cloud Functions for the tier engine
+ * The single place user tiers are computed. Re-evaluates a user whenever
+ * their wallet changes, sweeps daily for lapsed grace periods, overrides and
+ * rolling spend, and records every change in tier.progressHistory.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  isTierName,
+  nextTierBalance,
+  resolveTier,
+  resolveTierConfig,
+  TierChangeReason,
+  TierConfig,
+  TierMetrics,
+  TierName,
+  TierOverride,
+  tierRank,
+} from './utils/tier-rules';
+import { giftcardSpend, userAccountId, LedgerEntryRecord, LEDGER_ENTRIES } from './utils/ledger';
+import { notifyUser } from './utils/notifications';
+import { toHttpsError } from './utils/errors';
+import { requirePermission } from './utils/admin-roles';
+import { ApprovedChange, approvalAuditFields } from './utils/approvals';
+
+// Initialize admin if not already done
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+// Tier changes, for analytics and anything else that reacts to them
+const TIER_EVENTS = 'tier-events';
+
+const SPEND_WINDOW_DAYS = 90;
+const SWEEP_PAGE_SIZE = 200;
+
+export interface TierEvaluation {
+  userId: string;
+  fromTier: TierName;
+  tier: TierName;
+  qualifiedTier: TierName;
+  changed: boolean;
+  reason: TierChangeReason | null;
+  graceUntil: number | null;
+}
+
+export async function getTierConfig(): Promise<TierConfig> {
+  const currencyDoc = await db.doc('pxl-currency/main').get();
+  return resolveTierConfig(currencyDoc.data()?.tierConfig);
+}
+
+/**
+ * Balance, lifetime earned and giftcard spend over the rolling window
+ * Spend is read from the ledger, which only Cloud Functions write
+ */
+async function getTierMetrics(userId: string, userData: admin.firestore.DocumentData): Promise<TierMetrics> {
+  const since = admin.firestore.Timestamp.fromMillis(Date.now() - SPEND_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const accountId = userAccountId(userId);
+  const snapshot = await db.collection(LEDGER_ENTRIES)
+    .where('accountIds', 'array-contains', accountId)
+    .where('createdAt', '>=', since)
+    .orderBy('createdAt', 'desc')
+    .get();
+
+  return {
+    balance: userData.wallets?.pxl?.balance || 0,
+    spend90d: giftcardSpend(snapshot.docs.map(doc => doc.data() as LedgerEntryRecord), accountId),
+    lifetimeEarned: userData.wallets?.pxl?.totalEarned || 0,
+  };
+}
+
+function toMillis(value: admin.firestore.Timestamp | null | undefined): number | null {
+  return value ? value.toMillis() : null;
+}
+
+/**
+ * Re-evaluate a user's tier and persist the result
+ * Safe to run concurrently; only the run that changes the stored tier records it
+ */
+export async function evaluateUserTier(
+  userId: string,
+  trigger: string,
+  config?: TierConfig
+): Promise<TierEvaluation> {
+  const tierConfig = config || await getTierConfig();
+  const userRef = db.collection('users').doc(userId);
+  const userSnapshot = await userRef.get();
+
+  if (!userSnapshot.exists) {
+    throw new functions.https.HttpsError('not-found', 'User not found');
+  }
+
+  const metrics = await getTierMetrics(userId, userSnapshot.data()!);
+
+  const evaluation = await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const tier = userDoc.data()!.tier || {};
+    const fromTier: TierName = isTierName(tier.current) ? tier.current : 'starter';
+    const storedOverride = tier.override
+      ? { ...tier.override, expiresAt: tier.override.expiresAt.toMillis() } as TierOverride
+      : null;
+    const now = Date.now();
+
+    const resolution = resolveTier(tierConfig, {
+      current: fromTier,
+      graceUntil: toMillis(tier.graceUntil),
+      override: storedOverride,
+    }, metrics, now);
+
+    const update: Record<string, unknown> = {
+      'tier.current': resolution.tier,
+      'tier.qualifiedTier': resolution.qualifiedTier,
+      'tier.pxlBalance': metrics.balance,
+      'tier.metrics': metrics,
+      'tier.nextTierThreshold': nextTierBalance(tierConfig, resolution.tier),
+      'tier.graceUntil': resolution.graceUntil ? admin.firestore.Timestamp.fromMillis(resolution.graceUntil) : null,
+      'tier.evaluatedAt': admin.firestore.Timestamp.fromMillis(now),
+    };
+
+    if (storedOverride && !resolution.override) {
+      update['tier.override'] = null;
+    }
+
+    if (resolution.changed) {
+      update['tier.progressHistory'] = admin.firestore.FieldValue.arrayUnion({
+        fromTier,
+        toTier: resolution.tier,
+        reason: resolution.reason,
+        trigger,
+        metrics,
+        timestamp: admin.firestore.Timestamp.fromMillis(now),
+      });
+      update['timestamps.updated'] = admin.firestore.Timestamp.fromMillis(now);
+    }
+
+    transaction.update(userRef, update);
+
+    return {
+      userId,
+      fromTier,
+      tier: resolution.tier,
+      qualifiedTier: resolution.qualifiedTier,
+      changed: resolution.changed,
+      reason: resolution.reason,
+      graceUntil: resolution.graceUntil,
+    };
+  });
+
+  if (evaluation.changed) {
+    await publishTierChange(evaluation, trigger);
+  }
+
+  return evaluation;
+}
+
+async function publishTierChange(evaluation: TierEvaluation, trigger: string): Promise<void> {
+  const upgraded = tierRank(evaluation.tier) > tierRank(evaluation.fromTier);
+
+  await db.collection(TIER_EVENTS).add({
+    type: upgraded ? 'tier-upgraded' : 'tier-downgraded',
+    userId: evaluation.userId,
+    fromTier: evaluation.fromTier,
+    toTier: evaluation.tier,
+    reason: evaluation.reason,
+    trigger,
+    timestamp: admin.firestore.Timestamp.now(),
+  });
+
+  await notifyUser(evaluation.userId, {
+    type: 'tier-change',
+    title: upgraded ? `Welcome to ${evaluation.tier}!` : `Your tier is now ${evaluation.tier}`,
+    body: upgraded
+      ? `You moved up from ${evaluation.fromTier} and unlocked new benefits.`
+      : `Your tier changed from ${evaluation.fromTier} to ${evaluation.tier}.`,
+    data: { fromTier: evaluation.fromTier, toTier: evaluation.tier, reason: evaluation.reason },
+  });
+}
+
+/**
+ * Re-evaluate when a wallet changes
+ * Tier writes do not touch wallets, so this never re-triggers itself
+ */
+export const onUserWalletChange = functions.firestore
+  .document('users/{userId}')
+  .onUpdate(async (change, context) => {
+    const before = change.before.data().wallets?.pxl || {};
+    const after = change.after.data().wallets?.pxl || {};
+
+    if (before.balance === after.balance &&
+        before.totalEarned === after.totalEarned &&
+        before.totalSpent === after.totalSpent) {
+      return null;
+    }
+
+    try {
+      await evaluateUserTier(context.params.userId, 'wallet-change');
+    } catch (error) {
+      console.error(`Error evaluating tier for ${context.params.userId}:`, error);
+    }
+
+    return null;
+  });
+
+/**
+ * Daily sweep for lapsed grace periods, expired overrides and rolling spend
+ */
+export const evaluateTiers = functions
+  .runWith({ timeoutSeconds: 540 })
+  .pubsub.schedule('every 24 hours')
+  .onRun(async () => {
+    const config = await getTierConfig();
+    let lastDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    let page: admin.firestore.QuerySnapshot;
+    let evaluated = 0;
+    let changed = 0;
+
+    do {
+      let query = db.collection('users').orderBy(admin.firestore.FieldPath.documentId()).limit(SWEEP_PAGE_SIZE);
+      if (lastDoc) query = query.startAfter(lastDoc);
+      page = await query.get();
+
+      for (const userDoc of page.docs) {
+        try {
+          const result = await evaluateUserTier(userDoc.id, 'daily-sweep', config);
+          evaluated++;
+          if (result.changed) changed++;
+        } catch (error) {
+          console.error(`Error evaluating tier for ${userDoc.id}:`, error);
+        }
+      }
+
+      lastDoc = page.docs[page.docs.length - 1];
+    } while (page.size === SWEEP_PAGE_SIZE);
+
+    console.log(`Evaluated ${evaluated} tiers, ${changed} changed`);
+    return null;
+  });
+
+/**
+ * Re-evaluate the caller's tier, or any user's tier for admins
+ */
+export const recalculateTier = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  let userId = context.auth.uid;
+
+  if (data?.userId && data.userId !== userId) {
+    requirePermission(context, 'users:write');
+    userId = data.userId;
+  }
+
+  try {
+    return await evaluateUserTier(userId, 'manual');
+  } catch (error) {
+    console.error('Error recalculating tier:', error);
+    throw toHttpsError(error, 'Failed to recalculate tier');
+  }
+});
+
+/**
+ * Pin a user to a tier until a given time, or clear the pin, once approved
+ * The normal rules and grace period take over once the override expires.
+ * Overrides are proposed and approved through proposeAdminChange and reviewAdminChange.
+ */
+export async function applyTierOverride(
+  userId: string,
+  tier: TierName | null,
+  expiresAt: number | null,
+  reason: string,
+  approval: ApprovedChange
+): Promise<{ evaluation: TierEvaluation; actionId: string }> {
+  if (tier !== null && (typeof expiresAt !== 'number' || expiresAt <= Date.now())) {
+    throw new functions.https.HttpsError('failed-precondition', 'Override expiry must be in the future');
+  }
+
+  const userRef = db.collection('users').doc(userId);
+  const userDoc = await userRef.get();
+
+  if (!userDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'User not found');
+  }
+
+  const now = admin.firestore.Timestamp.now();
+
+  await userRef.update({
+    'tier.override': tier === null ? null : {
+      tier,
+      expiresAt: admin.firestore.Timestamp.fromMillis(expiresAt!),
+      reason,
+      setBy: approval.proposedBy,
+      setAt: now,
+    },
+    // An override replaces any running grace period
+    'tier.graceUntil': null,
+  });
+
+  const action = await db.collection('admin-actions').add({
+    type: tier === null ? 'tier_override_cleared' : 'tier_override_set',
+    ...approvalAuditFields(approval),
+    userId,
+    tier,
+    expiresAt: tier === null ? null : admin.firestore.Timestamp.fromMillis(expiresAt!),
+    reason: reason || null,
+    timestamp: now,
+  });
+
+  const evaluation = await evaluateUserTier(userId, tier === null ? 'override-cleared' : 'override-set');
+  return { evaluation, actionId: action.id };
+}
@@ -0,0 +1,79 @@
+/**
+ * Admin roles and permissions
+ * An admin's role is stored as the adminRole custom claim on their auth token;
+ * permissions are derived from the role. The same table lives in the client
+ * (src/services/admin-role-service.ts) and in firestore.rules.
+ */
+
+import * as functions from 'firebase-functions';
+
+export type AdminRole = 'super-admin' | 'catalog-manager' | 'finance' | 'support-agent' | 'auditor';
+
+export type AdminPermission =
+  | 'catalog:read'
+  | 'catalog:write'
+  | 'giftcard-codes:reveal'
+  | 'orders:read'
+  | 'orders:write'
+  | 'finance:read'
+  | 'finance:write'
+  | 'users:read'
+  | 'users:write'
+  | 'support:read'
+  | 'support:write'
+  | 'audit:read'
+  | 'settings:read'
+  | 'settings:write'
+  | 'roles:manage';
+
+export const ADMIN_ROLES: AdminRole[] = ['super-admin', 'catalog-manager', 'finance', 'support-agent', 'auditor'];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  'super-admin': [
+    'catalog:read', 'catalog:write', 'giftcard-codes:reveal',
+    'orders:read', 'orders:write', 'finance:read', 'finance:write',
+    'users:read', 'users:write', 'support:read', 'support:write',
+    'audit:read', 'settings:read', 'settings:write', 'roles:manage',
+  ],
+  'catalog-manager': ['catalog:read', 'catalog:write', 'orders:read'],
+  'finance': ['finance:read', 'finance:write', 'orders:read', 'orders:write', 'users:read', 'audit:read'],
+  'support-agent': ['support:read', 'support:write', 'users:read', 'orders:read'],
+  'auditor': ['catalog:read', 'orders:read', 'finance:read', 'users:read', 'support:read', 'audit:read', 'settings:read'],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as string[]).includes(value);
+}
+
+/**
+ * The caller's admin role, from their token's custom claims
+ */
+export function adminRoleOf(context: functions.https.CallableContext): AdminRole | null {
+  const role = context.auth?.token?.adminRole;
+  return isAdminRole(role) ? role : null;
+}
+
+export function hasPermission(context: functions.https.CallableContext, permission: AdminPermission): boolean {
+  const role = adminRoleOf(context);
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Require an authenticated admin whose role grants a permission
+ * Returns the admin's user ID
+ */
+export function requirePermission(context: functions.https.CallableContext, permission: AdminPermission): string {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  if (!adminRoleOf(context)) {
+    throw new functions.https.HttpsError('permission-denied', 'User is not an admin');
+  }
+
+  if (!hasPermission(context, permission)) {
+    throw new functions.https.HttpsError('permission-denied', `Missing permission ${permission}`);
+  }
+
+  return context.auth.uid;
+}
@@ -0,0 +1,39 @@
+/**
+ * Maker-checker approvals
+ * Sensitive admin changes are proposed by one admin and applied only after
+ * another admin approves them. Appliers receive the approval so the audit
+ * entries they write can be traced back to both admins.
+ */
+
+// One changed value, live against proposed
+export interface DiffLine {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface ApprovedChange {
+  approvalId: string;
+  proposedBy: string;
+  approvedBy: string;
+}
+
+/**
+ * Fields every admin-actions entry written by an applier carries
+ */
+export function approvalAuditFields(approval: ApprovedChange): { adminId: string; proposedBy: string; approvalId: string } {
+  return {
+    adminId: approval.approvedBy,
+    proposedBy: approval.proposedBy,
+    approvalId: approval.approvalId,
+  };
+}
+
+/**
+ * Whether the live values moved since a change was proposed
+ * Compares the current diff's `from` values with the ones shown to the approver
+ */
+export function changedSinceProposal(proposed: DiffLine[], live: DiffLine[]): boolean {
+  return live.length !== proposed.length
+    || live.some((line, i) => line.field !== proposed[i].field || line.from !== proposed[i].from);
+}
@@ -0,0 +1,545 @@
+/**
+ * Catalog import parsing and validation
+ * Import files are read row by row into products with their serial codes.
+ * Every problem is reported against its row (and field) instead of failing on
+ * the first one, so a whole file can be fixed from one dry-run report.
+ */
+
+import { codeHint, fingerprintCode, normaliseCode } from './code-vault';
+
+export const CATALOG_IMPORTS = 'catalog-imports';
+
+export type CatalogImportFormat = 'csv' | 'xlsx' | 'json';
+
+export type CatalogImportStatus =
+  | 'uploading'
+  | 'validating'
+  | 'validated'
+  | 'invalid'
+  | 'queued'
+  | 'applying'
+  | 'applied'
+  | 'failed'
+  | 'reverting'
+  | 'reverted';
+
+export const PRODUCT_CATEGORIES = [
+  'shopping', 'technology', 'food', 'entertainment', 'transportation', 'gaming', 'fashion',
+  'beauty', 'home', 'health', 'travel', 'payment', 'outdoor', 'sports',
+];
+
+export const PRODUCT_STATUSES = ['active', 'inactive', 'out_of_stock'];
+
+export const IMPORT_COLUMNS = [
+  'brand', 'name', 'description', 'category', 'featured', 'status', 'artwork',
+  'denominations', 'totalSold', 'createdAt', 'supplierId',
+];
+
+const REQUIRED_COLUMNS = ['brand', 'name', 'category', 'denominations'];
+
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_CODES = 50000;
+export const MAX_RANGE_SIZE = 10000;
+// Errors kept on the job; the total is always counted
+export const MAX_REPORTED_ERRORS = 200;
+export const MAX_PREVIEW_PRODUCTS = 20;
+
+// Spreadsheet dates are days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ImportRowError {
+  // 1-based line (CSV), sheet row (XLSX) or array position (JSON); 0 for the file itself
+  row: number;
+  field: string | null;
+  message: string;
+}
+
+export interface ImportDenomination {
+  value: number;
+  codes: string[];
+}
+
+export interface ImportProduct {
+  row: number;
+  brand: string;
+  name: string;
+  description: string;
+  category: string;
+  featured: boolean;
+  status: string;
+  artwork: string;
+  denominations: ImportDenomination[];
+  totalSold: number;
+  createdAt: number | null;
+  supplierId: string | null;
+}
+
+export interface ImportPreview {
+  row: number;
+  brand: string;
+  name: string;
+  category: string;
+  status: string;
+  denominations: Array<{ value: number; quantity: number }>;
+}
+
+export interface ImportSummary {
+  rows: number;
+  products: number;
+  codes: number;
+}
+
+export class ImportFieldError extends Error {
+  constructor(public field: string | null, message: string) {
+    super(message);
+    this.name = 'ImportFieldError';
+  }
+}
+
+// Uploaded JSON is untrusted; products and denominations must be plain objects
+export function isImportObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function importFormatOf(fileName: string): CatalogImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'csv' || extension === 'xlsx' || extension === 'json' ? extension : null;
+}
+
+export function productKey(brand: string, name: string): string {
+  return `${brand.trim().toLowerCase()}\u0000${name.trim().toLowerCase()}`;
+}
+
+/**
+ * Expand a serial or a START-END range into its serials
+ * A range's ends share a prefix and a zero-padded number, e.g.
+ * AMZN10XXX001-AMZN10XXX015. Anything else is taken as a single serial.
+ */
+export function expandSerialRange(range: string): string[] {
+  const trimmed = range.trim();
+  if (!trimmed) return [];
+
+  const parts = trimmed.split('-');
+  const start = parts.length === 2 ? /^(.*?)(\d+)$/.exec(parts[0].trim()) : null;
+  const end = parts.length === 2 ? /^(.*?)(\d+)$/.exec(parts[1].trim()) : null;
+  if (!start || !end) return [trimmed];
+
+  if (start[1] !== end[1]) {
+    throw new ImportFieldError('denominations', `Range ${trimmed} starts and ends with different prefixes`);
+  }
+
+  const first = parseInt(start[2], 10);
+  const last = parseInt(end[2], 10);
+  if (last < first) {
+    throw new ImportFieldError('denominations', `Range ${trimmed} ends before it starts`);
+  }
+  if (last - first + 1 > MAX_RANGE_SIZE) {
+    throw new ImportFieldError('denominations', `Range ${trimmed} is longer than ${MAX_RANGE_SIZE} serials`);
+  }
+
+  const digits = start[2].length;
+  const serials: string[] = [];
+  for (let i = first; i <= last; i++) {
+    serials.push(start[1] + i.toString().padStart(digits, '0'));
+  }
+  return serials;
+}
+
+// Serials separated by ';', each a single serial or a range
+function expandSerials(serials: string): string[] {
+  return serials.split(';').reduce<string[]>((all, part) => all.concat(expandSerialRange(part)), []);
+}
+
+function denominationFrom(value: unknown, quantity: unknown, codes: string[]): ImportDenomination {
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new ImportFieldError('denominations', `Invalid denomination value ${String(value)}`);
+  }
+
+  if (quantity !== undefined && quantity !== '') {
+    const count = Number(quantity);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new ImportFieldError('denominations', `Invalid quantity ${String(quantity)} for $${amount}`);
+    }
+    if (count !== codes.length) {
+      throw new ImportFieldError('denominations', `$${amount} lists ${codes.length} serials but its quantity is ${count}`);
+    }
+  }
+
+  if (codes.some(code => !normaliseCode(code))) {
+    throw new ImportFieldError('denominations', `$${amount} has an empty serial`);
+  }
+
+  return { value: amount, codes };
+}
+
+/**
+ * Parse denominations from "value:quantity:serials|..." or, in JSON, an array
+ * of { value, quantity?, serialRange?, codes? }
+ */
+export function parseDenominations(input: unknown): ImportDenomination[] {
+  let denominations: ImportDenomination[];
+
+  if (typeof input === 'string') {
+    denominations = input.split('|').filter(part => part.trim()).map(part => {
+      const [value, quantity, ...serials] = part.trim().split(':');
+      return denominationFrom(value, quantity ?? '', expandSerials(serials.join(':')));
+    });
+  } else if (Array.isArray(input)) {
+    denominations = input.map((entry: unknown) => {
+      const fields = isImportObject(entry) ? entry : {};
+      const codes = Array.isArray(fields.codes)
+        ? fields.codes.map((code: unknown) => String(code).trim())
+        : expandSerials(typeof fields.serialRange === 'string' ? fields.serialRange : '');
+      return denominationFrom(fields.value, fields.quantity, codes);
+    });
+  } else {
+    denominations = [];
+  }
+
+  if (denominations.length === 0) {
+    throw new ImportFieldError('denominations', 'At least one denomination is required');
+  }
+
+  const values = new Set<number>();
+  denominations.forEach(({ value }) => {
+    if (values.has(value)) {
+      throw new ImportFieldError('denominations', `$${value} is listed more than once`);
+    }
+    values.add(value);
+  });
+
+  return denominations;
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function parseBoolean(value: unknown, field: string): boolean {
+  const normalised = text(value).toLowerCase();
+  if (value === true || ['true', '1', 'yes'].includes(normalised)) return true;
+  if (value === false || ['', 'false', '0', 'no'].includes(normalised)) return false;
+  throw new ImportFieldError(field, `Expected true or false, got ${normalised}`);
+}
+
+function parseCreatedAt(value: unknown): number | null {
+  const raw = text(value);
+  if (!raw) return null;
+
+  // Spreadsheet cells hold dates as day numbers
+  const millis = /^\d+(\.\d+)?$/.test(raw)
+    ? EXCEL_EPOCH_MS + Math.round(Number(raw) * DAY_MS)
+    : Date.parse(raw);
+
+  if (!Number.isFinite(millis)) {
+    throw new ImportFieldError('createdAt', `Invalid date ${raw}`);
+  }
+  return millis;
+}
+
+/**
+ * Validate one record, keyed by column name, into a product
+ * Returns every problem found in the row rather than just the first.
+ */
+export function validateImportRecord(
+  row: number,
+  record: Record<string, unknown>
+): { product: ImportProduct | null; errors: ImportRowError[] } {
+  const errors: ImportRowError[] = [];
+  const field = <T>(name: string, parse: () => T, fallback: T): T => {
+    try {
+      return parse();
+    } catch (error) {
+      errors.push({
+        row,
+        field: error instanceof ImportFieldError ? error.field : name,
+        message: error instanceof Error ? error.message : 'Invalid value',
+      });
+      return fallback;
+    }
+  };
+  const required = (name: string) => field(name, () => {
+    const value = text(record[name]);
+    if (!value) throw new ImportFieldError(name, `${name} is required`);
+    return value;
+  }, '');
+
+  const brand = required('brand');
+  const name = required('name');
+  const category = field('category', () => {
+    const value = text(record.category).toLowerCase();
+    if (!PRODUCT_CATEGORIES.includes(value)) {
+      throw new ImportFieldError('category', value ? `Unknown category ${value}` : 'category is required');
+    }
+    return value;
+  }, '');
+  const status = field('status', () => {
+    const value = text(record.status).toLowerCase() || 'active';
+    if (!PRODUCT_STATUSES.includes(value)) {
+      throw new ImportFieldError('status', `Unknown status ${value}`);
+    }
+    return value;
+  }, '');
+  const featured = field('featured', () => parseBoolean(record.featured, 'featured'), false);
+  const totalSold = field('totalSold', () => {
+    const raw = text(record.totalSold);
+    const value = raw ? Number(raw) : 0;
+    if (!Number.isInteger(value) || value < 0) {
+      throw new ImportFieldError('totalSold', `Invalid totalSold ${raw}`);
+    }
+    return value;
+  }, 0);
+  const createdAt = field('createdAt', () => parseCreatedAt(record.createdAt), null);
+  const denominations = field('denominations', () => parseDenominations(
+    Array.isArray(record.denominations) ? record.denominations : text(record.denominations)
+  ), []);
+
+  if (errors.length > 0) {
+    return { product: null, errors };
+  }
+
+  return {
+    product: {
+      row,
+      brand,
+      name,
+      description: text(record.description),
+      category,
+      featured,
+      status,
+      artwork: text(record.artwork),
+      denominations,
+      totalSold,
+      createdAt,
+      supplierId: text(record.supplierId) || null,
+    },
+    errors,
+  };
+}
+
+/**
+ * Map a header row to column names
+ * Header cells match case-insensitively; unknown columns are reported and ignored.
+ */
+export function readImportHeader(cells: string[]): {
+  columns: Array<string | null>;
+  errors: ImportRowError[];
+  // False when a required column is missing and the rows cannot be read
+  complete: boolean;
+} {
+  const errors: ImportRowError[] = [];
+  const columns = cells.map(cell => {
+    const heading = cell.trim();
+    const column = IMPORT_COLUMNS.find(name => name.toLowerCase() === heading.toLowerCase()) || null;
+    if (heading && !column) {
+      errors.push({ row: 1, field: heading, message: `Unknown column ${heading}` });
+    }
+    return column;
+  });
+
+  const missing = REQUIRED_COLUMNS.filter(name => !columns.includes(name));
+  missing.forEach(name => {
+    errors.push({ row: 1, field: name, message: `Missing column ${name}` });
+  });
+
+  return { columns, errors, complete: missing.length === 0 };
+}
+
+export function recordFromCells(columns: Array<string | null>, cells: string[]): Record<string, unknown> {
+  return columns.reduce<Record<string, unknown>>((record, column, i) => {
+    if (column) record[column] = cells[i] ?? '';
+    return record;
+  }, {});
+}
+
+/**
+ * Assemble CSV records from lines as they are read
+ * Quoted fields may hold commas, doubled quotes and line breaks. Each record is
+ * passed on with the line it started on.
+ */
+export function csvRecordReader(onRecord: (row: number, cells: string[]) => void): {
+  line(text: string): void;
+  end(): void;
+} {
+  let lineNumber = 0;
+  let startLine = 0;
+  let cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  const finishRecord = () => {
+    cells.push(current);
+    if (cells.some(cell => cell.trim())) {
+      onRecord(startLine, cells.map(cell => cell.trim()));
+    }
+    cells = [];
+    current = '';
+  };
+
+  return {
+    line(text) {
+      lineNumber++;
+      if (!inQuotes) {
+        startLine = lineNumber;
+      } else {
+        current += '\n';
+      }
+
+      // Strip a byte order mark and Windows line endings
+      const input = (lineNumber === 1 ? text.replace(/^\uFEFF/, '') : text).replace(/\r$/, '');
+      for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+          if (char === '"' && input[i + 1] === '"') {
+            current += '"';
+            i++;
+          } else if (char === '"') {
+            inQuotes = false;
+          } else {
+            current += char;
+          }
+        } else if (char === '"') {
+          inQuotes = true;
+        } else if (char === ',') {
+          cells.push(current);
+          current = '';
+        } else {
+          current += char;
+        }
+      }
+
+      if (!inQuotes) finishRecord();
+    },
+    end() {
+      if (inQuotes) {
+        onRecord(startLine, [...cells, current].map(cell => cell.trim()));
+        inQuotes = false;
+      }
+    },
+  };
+}
+
+/**
+ * Collects valid products and row errors across a whole file
+ * Serials are checked for repeats across every row; the caller then checks
+ * the products and serials against the live catalog.
+ */
+export class ImportCollector {
+  readonly products: ImportProduct[] = [];
+  readonly errors: ImportRowError[] = [];
+  rows = 0;
+  codes = 0;
+  // Fingerprint of each serial and the row that first listed it
+  readonly serials = new Map<string, number>();
+  private readonly productRows = new Map<string, number>();
+
+  // Past a limit, so the rest of the file need not be read
+  get exceeded(): boolean {
+    return this.rows > MAX_IMPORT_ROWS || this.codes > MAX_IMPORT_CODES;
+  }
+
+  addErrors(errors: ImportRowError[]): void {
+    this.errors.push(...errors);
+  }
+
+  addRecord(row: number, record: Record<string, unknown>): void {
+    this.rows++;
+    if (this.rows > MAX_IMPORT_ROWS) {
+      this.errors.push({ row, field: null, message: `Files are limited to ${MAX_IMPORT_ROWS} products` });
+      return;
+    }
+
+    const { product, errors } = validateImportRecord(row, record);
+    this.errors.push(...errors);
+    if (!product) return;
+
+    const key = productKey(product.brand, product.name);
+    const firstRow = this.productRows.get(key);
+    if (firstRow !== undefined) {
+      this.errors.push({ row, field: 'name', message: `${product.brand} - ${product.name} is also on row ${firstRow}` });
+      return;
+    }
+    this.productRows.set(key, row);
+
+    let repeated = false;
+    product.denominations.forEach(denomination => {
+      denomination.codes.forEach(code => {
+        const fingerprint = fingerprintCode(code);
+        const seenOn = this.serials.get(fingerprint);
+        if (seenOn !== undefined) {
+          this.errors.push({ row, field: 'denominations', message: `Serial ${codeHint(code)} is also on row ${seenOn}` });
+          repeated = true;
+        } else {
+          this.serials.set(fingerprint, row);
+        }
+      });
+    });
+
+    this.codes += product.denominations.reduce((sum, d) => sum + d.codes.length, 0);
+    if (this.codes > MAX_IMPORT_CODES) {
+      this.errors.push({ row, field: 'denominations', message: `Files are limited to ${MAX_IMPORT_CODES} serials` });
+      return;
+    }
+
+    if (!repeated) {
+      this.products.push(product);
+    }
+  }
+
+  summary(): ImportSummary {
+    return { rows: this.rows, products: this.products.length, codes: this.codes };
+  }
+}
+
+export function importPreview(products: ImportProduct[]): ImportPreview[] {
+  return products.slice(0, MAX_PREVIEW_PRODUCTS).map(product => ({
+    row: product.row,
+    brand: product.brand,
+    name: product.name,
+    category: product.category,
+    status: product.status,
+    denominations: product.denominations.map(d => ({ value: d.value, quantity: d.codes.length })),
+  }));
+}
+
+export interface ImportChunk {
+  // Indexes into the product list
+  serials: Array<{ product: number; denomination: number; code: string }>;
+  products: number[];
+}
+
+/**
+ * Split the writes of an import into chunks of at most `size`
+ * Each serial and each product is one write. A product is written in the
+ * chunk holding its last serial, so stock never counts codes not yet written.
+ */
+export function chunkImportProducts(products: ImportProduct[], size: number): ImportChunk[] {
+  const chunks: ImportChunk[] = [];
+  let chunk: ImportChunk = { serials: [], products: [] };
+  let writes = 0;
+
+  const flush = () => {
+    if (writes > 0) chunks.push(chunk);
+    chunk = { serials: [], products: [] };
+    writes = 0;
+  };
+
+  products.forEach((product, index) => {
+    product.denominations.forEach(denomination => {
+      denomination.codes.forEach(code => {
+        if (writes >= size) flush();
+        chunk.serials.push({ product: index, denomination: denomination.value, code });
+        writes++;
+      });
+    });
+
+    if (writes >= size) flush();
+    chunk.products.push(index);
+    writes++;
+  });
+
+  flush();
+  return chunks;
+}
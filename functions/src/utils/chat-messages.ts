@@ -0,0 +1,201 @@
+/**
+ * Chat message rules shared by the chat message functions
+ * They match the chat server's, so a message is the same whichever path saved it
+ */
+
+export const CONVERSATIONS = 'conversations';
+export const MESSAGES = 'messages';
+
+export type DisappearingTimer = 'off' | '1h' | '24h' | '7d';
+
+// How long messages live with each disappearing-messages setting
+export const DISAPPEARING_TIMER_MS: Record<DisappearingTimer, number | null> = {
+  off: null,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+const DISAPPEARING_TIMER_LABELS: Record<DisappearingTimer, string> = {
+  off: 'off',
+  '1h': '1 hour',
+  '24h': '24 hours',
+  '7d': '7 days',
+};
+
+// How long after sending a message its sender can delete it for everyone
+export const DELETE_FOR_EVERYONE_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+// Each revision keeps a full encrypted copy, so cap them to stay within the document size limit
+export const MAX_EDIT_HISTORY = 20;
+
+// Fields holding a message's encrypted content, replaced on edit and cleared on delete
+export const CONTENT_FIELDS = ['text', 'nonce', 'senderText', 'senderNonce', 'keyVersion', 'senderDevice', 'envelopes'] as const;
+
+export type ContentField = typeof CONTENT_FIELDS[number];
+export type MessageContent = Partial<Record<ContentField, unknown>>;
+
+export const CLIENT_MESSAGE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export type Reactions = Record<string, string[]>;
+
+// Group display fields admins can change, with their longest allowed values
+const GROUP_INFO_MAX_LENGTHS = {
+  name: 100,
+  description: 500,
+  photoURL: 2048,
+};
+
+export interface ConversationState {
+  type?: string;
+  members?: string[];
+  groupInfo?: { name?: string; createdBy?: string; admins?: string[] };
+  disappearingMessages?: DisappearingTimer;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Timers come from requests and stored conversations, so they are untrusted
+export function isDisappearingTimer(value: unknown): value is DisappearingTimer {
+  return Object.keys(DISAPPEARING_TIMER_MS).includes(value as string);
+}
+
+/**
+ * When a message sent at `atMs` disappears under a conversation's timer, or null
+ */
+export function messageExpiry(timer: unknown, atMs: number): number | null {
+  const timerMs = isDisappearingTimer(timer) ? DISAPPEARING_TIMER_MS[timer] : null;
+  return timerMs ? atMs + timerMs : null;
+}
+
+/**
+ * Take the encrypted content fields from a request, rejecting any of the wrong type
+ * @returns The content, or null if a field is malformed
+ */
+export function pickContent(data: Record<string, unknown>): MessageContent | null {
+  const content: MessageContent = {};
+
+  for (const field of CONTENT_FIELDS) {
+    const value = data[field];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+
+    const valid = field === 'keyVersion'
+      ? Number.isInteger(value)
+      : field === 'envelopes' ? isPlainObject(value) : typeof value === 'string';
+    if (!valid) {
+      return null;
+    }
+    content[field] = value;
+  }
+
+  return content;
+}
+
+/**
+ * Set a user's reaction, replacing any other: each user has at most one
+ * @param emoji - The new reaction, or null to remove it
+ * @param only - Remove the user's reaction only if it is this emoji
+ */
+export function applyReaction(reactions: Reactions, userId: string, emoji: string | null, only?: string): Reactions {
+  const next: Reactions = {};
+
+  Object.entries(reactions).forEach(([key, users]) => {
+    const kept = Array.isArray(users) && (only === undefined || key === only)
+      ? users.filter((id) => id !== userId)
+      : users;
+    if (Array.isArray(kept) && kept.length > 0) {
+      next[key] = kept;
+    }
+  });
+
+  if (emoji) {
+    next[emoji] = [...(next[emoji] || []), userId];
+  }
+
+  return next;
+}
+
+/**
+ * The system messages announcing a change to a group
+ */
+export function groupChangeMessages(before: ConversationState, after: ConversationState): string[] {
+  if (after.type !== 'group') {
+    return [];
+  }
+
+  const beforeMembers = before.members || [];
+  const afterMembers = after.members || [];
+  const added = afterMembers.filter((id) => !beforeMembers.includes(id));
+  const removed = beforeMembers.filter((id) => !afterMembers.includes(id));
+  const texts: string[] = [];
+
+  if (added.length > 0) {
+    texts.push(`${added.join(', ')} joined the group`);
+  }
+  if (removed.length > 0) {
+    texts.push(`${removed.join(', ')} left the group`);
+  }
+
+  const name = after.groupInfo?.name;
+  if (name && name !== before.groupInfo?.name) {
+    texts.push(`Group name changed to "${name}"`);
+  }
+
+  const timer = after.disappearingMessages || 'off';
+  if (timer !== (before.disappearingMessages || 'off') && isDisappearingTimer(timer)) {
+    texts.push(timer === 'off'
+      ? 'Disappearing messages turned off'
+      : `New messages will disappear after ${DISAPPEARING_TIMER_LABELS[timer]}`);
+  }
+
+  return texts;
+}
+
+/**
+ * Take a group's display fields and disappearing-messages timer from a request
+ * as a conversation update, rejecting any of the wrong type or too long
+ * @returns The update, or null if a field is malformed
+ */
+export function pickGroupUpdate(data: Record<string, unknown>): Record<string, unknown> | null {
+  const update: Record<string, unknown> = {};
+
+  for (const [field, maxLength] of Object.entries(GROUP_INFO_MAX_LENGTHS)) {
+    const value = data[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string' || value.length > maxLength || (field === 'name' && !value.trim())) {
+      return null;
+    }
+    update[`groupInfo.${field}`] = value;
+  }
+
+  if (data.disappearingMessages !== undefined) {
+    if (!isDisappearingTimer(data.disappearingMessages)) {
+      return null;
+    }
+    update.disappearingMessages = data.disappearingMessages;
+  }
+
+  return update;
+}
+
+/**
+ * A group's members and admins after adding and removing members
+ * Removed members lose their admin rights with their membership
+ */
+export function changeGroupMembers(
+  state: ConversationState,
+  add: string[],
+  remove: string[]
+): { members: string[]; admins: string[] } {
+  const kept = (state.members || []).filter((id) => !remove.includes(id));
+  return {
+    members: [...new Set([...kept, ...add])],
+    admins: (state.groupInfo?.admins || []).filter((id) => !remove.includes(id)),
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Envelope encryption for giftcard codes
+ * Every code is sealed with its own data key; the data key is wrapped with the
+ * vault key, which only Cloud Functions hold. Rotating the vault key means
+ * rewrapping data keys, never re-encrypting codes.
+ */
+
+import * as crypto from 'crypto';
+
+export interface SealedCode {
+  ciphertext: string;
+  iv: string;
+  tag: string;
+  wrappedKey: string;
+  wrapIv: string;
+  wrapTag: string;
+  keyId: string;
+}
+
+export interface GiftcardSecret {
+  code: string;
+  pin?: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_ID = 'kek1';
+
+function vaultKey(): Buffer {
+  const encoded = process.env.GIFTCARD_VAULT_KEK ||
+    (process.env.FUNCTIONS_EMULATOR === 'true' ? Buffer.alloc(32, 'emulator-vault-key').toString('base64') : '');
+
+  if (!encoded) {
+    throw new Error('GIFTCARD_VAULT_KEK is not configured');
+  }
+
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== 32) {
+    throw new Error('GIFTCARD_VAULT_KEK must be 32 bytes, base64 encoded');
+  }
+
+  return key;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): { ciphertext: Buffer; iv: Buffer; tag: Buffer } {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { ciphertext, iv, tag: cipher.getAuthTag() };
+}
+
+function decrypt(key: Buffer, ciphertext: Buffer, iv: Buffer, tag: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Normalise a code for comparison; spaces and dashes are only formatting
+ */
+export function normaliseCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Stable, keyed fingerprint of a code
+ * Used as the vault document ID so the same code cannot be stocked twice
+ * without storing anything that could be reversed to the code.
+ */
+export function fingerprintCode(code: string): string {
+  const fingerprintKey = crypto.createHmac('sha256', vaultKey()).update('fingerprint').digest();
+  return crypto.createHmac('sha256', fingerprintKey).update(normaliseCode(code)).digest('hex');
+}
+
+/**
+ * Redacted form of a code that is safe to show in admin views
+ */
+export function codeHint(code: string): string {
+  return `••••${normaliseCode(code).slice(-4)}`;
+}
+
+/**
+ * Encrypt a code (and PIN) under a fresh data key
+ */
+export function sealCode(secret: GiftcardSecret): SealedCode {
+  const dataKey = crypto.randomBytes(32);
+  const sealed = encrypt(dataKey, Buffer.from(JSON.stringify(secret)));
+  const wrapped = encrypt(vaultKey(), dataKey);
+
+  return {
+    ciphertext: sealed.ciphertext.toString('base64'),
+    iv: sealed.iv.toString('base64'),
+    tag: sealed.tag.toString('base64'),
+    wrappedKey: wrapped.ciphertext.toString('base64'),
+    wrapIv: wrapped.iv.toString('base64'),
+    wrapTag: wrapped.tag.toString('base64'),
+    keyId: KEY_ID,
+  };
+}
+
+/**
+ * Decrypt a sealed code
+ * Only the reveal path may call this; nothing else needs the plaintext.
+ */
+export function openCode(sealed: SealedCode): GiftcardSecret {
+  if (sealed.keyId !== KEY_ID) {
+    throw new Error(`Unknown vault key ${sealed.keyId}`);
+  }
+
+  const dataKey = decrypt(
+    vaultKey(),
+    Buffer.from(sealed.wrappedKey, 'base64'),
+    Buffer.from(sealed.wrapIv, 'base64'),
+    Buffer.from(sealed.wrapTag, 'base64')
+  );
+  const plaintext = decrypt(
+    dataKey,
+    Buffer.from(sealed.ciphertext, 'base64'),
+    Buffer.from(sealed.iv, 'base64'),
+    Buffer.from(sealed.tag, 'base64')
+  );
+
+  return JSON.parse(plaintext.toString('utf8'));
+}
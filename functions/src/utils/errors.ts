@@ -0,0 +1,44 @@
+/**
+ * Error helpers for callable functions
+ */
+
+import * as functions from 'firebase-functions';
+import { LedgerError } from './ledger';
+import { QuoteError } from './quotes';
+
+// gRPC status Firestore reports when create() finds the document already there
+const ALREADY_EXISTS = 6;
+
+/**
+ * Whether a Firestore create() failed because the document already exists
+ */
+export function isAlreadyExists(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === ALREADY_EXISTS;
+}
+
+/**
+ * Map an error thrown inside a callable to an HttpsError.
+ * HttpsErrors pass through untouched, ledger and quote errors keep their meaning,
+ * anything else becomes an opaque internal error.
+ */
+export function toHttpsError(error: unknown, fallbackMessage: string): functions.https.HttpsError {
+  if (error instanceof functions.https.HttpsError) {
+    return error;
+  }
+
+  if (error instanceof LedgerError) {
+    return new functions.https.HttpsError(
+      error.code === 'insufficient-funds' ? 'failed-precondition' : 'invalid-argument',
+      error.message
+    );
+  }
+
+  if (error instanceof QuoteError) {
+    return new functions.https.HttpsError(
+      error.code === 'expired' ? 'failed-precondition' : 'invalid-argument',
+      error.message
+    );
+  }
+
+  return new functions.https.HttpsError('internal', fallbackMessage);
+}
@@ -0,0 +1,358 @@
+/**
+ * Double-entry PXL ledger
+ * Every PXL balance change is recorded as a balanced journal entry.
+ * Wallet balances on the users document are a projection of the ledger.
+ */
+
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+
+// Collections
+export const LEDGER_ACCOUNTS = 'ledger-accounts';
+export const LEDGER_ENTRIES = 'ledger-entries';
+
+// System accounts that balance user wallet movements
+export const SYSTEM_ACCOUNTS = {
+  issuance: 'system:pxl-issuance',           // PXL minted against USD payments
+  giftcardSales: 'system:giftcard-sales',    // PXL spent on giftcards
+  cashback: 'system:cashback',               // Cashback rewards paid out
+  cashbackPending: 'system:cashback-pending', // Cashback accrued but not yet vested
+  transferHolds: 'system:transfer-holds',    // Transfers held for review
+  openingBalances: 'system:opening-balances', // Balances migrated from user documents
+  adjustments: 'system:adjustments',         // Approved manual balance corrections
+} as const;
+
+export type LedgerEntryType =
+  | 'opening-balance'
+  | 'pxl-purchase'
+  | 'giftcard-purchase'
+  | 'cashback'
+  | 'cashback-vesting'
+  | 'cashback-clawback'
+  | 'giftcard-refund'
+  | 'pxl-transfer'
+  | 'adjustment';
+
+export interface LedgerLeg {
+  accountId: string;
+  direction: 'debit' | 'credit';
+  amount: number;
+}
+
+export interface JournalEntryInput {
+  type: LedgerEntryType;
+  legs: LedgerLeg[];
+  // Same key always resolves to the same entry; replays are no-ops
+  idempotencyKey: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// A posted journal entry as stored in LEDGER_ENTRIES
+export interface LedgerEntryRecord {
+  type: LedgerEntryType;
+  legs: Array<LedgerLeg & { balanceAfter: number }>;
+  accountIds: string[];
+  userIds: string[];
+  idempotencyKey: string;
+  description: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: admin.firestore.Timestamp;
+}
+
+export interface JournalEntryResult {
+  entryId: string;
+  // True when the idempotency key had already been posted
+  duplicate: boolean;
+  // Account balances after the entry, keyed by account ID
+  balances: Record<string, number>;
+}
+
+export class LedgerError extends Error {
+  constructor(public code: 'unbalanced' | 'invalid-leg' | 'insufficient-funds', message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+/**
+ * Ledger account ID for a user's PXL wallet
+ */
+export function userAccountId(userId: string): string {
+  return `user:${userId}:pxl`;
+}
+
+function userIdFromAccountId(accountId: string): string | null {
+  const match = /^user:(.+):pxl$/.exec(accountId);
+  return match ? match[1] : null;
+}
+
+/**
+ * Deterministic entry ID derived from the idempotency key
+ */
+export function entryIdForKey(idempotencyKey: string): string {
+  return crypto.createHash('sha256').update(idempotencyKey).digest('hex').slice(0, 40);
+}
+
+/**
+ * Signed effect of a leg on an account balance.
+ * Balances are credit-normal: credits increase, debits decrease.
+ */
+function legDelta(leg: LedgerLeg): number {
+  return leg.direction === 'credit' ? leg.amount : -leg.amount;
+}
+
+function validateLegs(legs: LedgerLeg[]): void {
+  if (legs.length < 2) {
+    throw new LedgerError('invalid-leg', 'Journal entry needs at least two legs');
+  }
+
+  let debits = 0;
+  let credits = 0;
+  for (const leg of legs) {
+    if (!Number.isFinite(leg.amount) || leg.amount <= 0) {
+      throw new LedgerError('invalid-leg', `Invalid leg amount for ${leg.accountId}`);
+    }
+    if (leg.direction === 'debit') {
+      debits += leg.amount;
+    } else {
+      credits += leg.amount;
+    }
+  }
+
+  // Compare in integer micro-units to avoid floating point drift
+  if (Math.round(debits * 1e6) !== Math.round(credits * 1e6)) {
+    throw new LedgerError('unbalanced', `Debits (${debits}) do not equal credits (${credits})`);
+  }
+}
+
+/**
+ * Post a journal entry inside a Firestore transaction.
+ *
+ * Firestore transactions require all reads before any write, so callers must
+ * finish their own reads before calling this and do their writes afterwards.
+ * Use postJournalEntries when one transaction needs several entries.
+ */
+export async function postJournalEntry(
+  tx: admin.firestore.Transaction,
+  input: JournalEntryInput
+): Promise<JournalEntryResult> {
+  const [result] = await postJournalEntries(tx, [input]);
+  return result;
+}
+
+/**
+ * Post several journal entries atomically inside a Firestore transaction.
+ *
+ * User wallet accounts may never go negative; system accounts may.
+ * The users document `wallets.pxl.balance` projection is updated for every
+ * user account touched by the entries.
+ */
+export async function postJournalEntries(
+  tx: admin.firestore.Transaction,
+  inputs: JournalEntryInput[]
+): Promise<JournalEntryResult[]> {
+  const db = admin.firestore();
+  inputs.forEach(input => validateLegs(input.legs));
+
+  const entryRefs = inputs.map(input => db.collection(LEDGER_ENTRIES).doc(entryIdForKey(input.idempotencyKey)));
+  const accountIds = Array.from(new Set(
+    inputs.reduce<string[]>((ids, input) => ids.concat(input.legs.map(leg => leg.accountId)), [])
+  ));
+  const accountRefs = accountIds.map(id => db.collection(LEDGER_ACCOUNTS).doc(id));
+  const userIds = accountIds.map(userIdFromAccountId).filter((id): id is string => !!id);
+  const userRefs = userIds.map(id => db.collection('users').doc(id));
+
+  // Reads
+  const entryDocs = await Promise.all(entryRefs.map(ref => tx.get(ref)));
+  const accountDocs = await Promise.all(accountRefs.map(ref => tx.get(ref)));
+  const userDocs = await Promise.all(userRefs.map(ref => tx.get(ref)));
+
+  const balances: Record<string, number> = {};
+  accountDocs.forEach((doc, i) => {
+    balances[accountIds[i]] = doc.exists ? doc.data()!.balance || 0 : 0;
+  });
+
+  const now = admin.firestore.Timestamp.now();
+
+  // Open missing user accounts with the balance currently projected on the
+  // users document so pre-ledger balances carry over into the journal.
+  // Users cannot write their wallets (see firestore.rules), so the projection
+  // only ever holds balances written by Cloud Functions.
+  const openings: Array<{ accountId: string; userId: string; amount: number }> = [];
+  accountDocs.forEach((doc, i) => {
+    const accountId = accountIds[i];
+    const userId = userIdFromAccountId(accountId);
+    if (doc.exists || !userId) return;
+
+    const userDoc = userDocs[userIds.indexOf(userId)];
+    const existingBalance = userDoc?.exists ? userDoc.data()?.wallets?.pxl?.balance || 0 : 0;
+    balances[accountId] = existingBalance;
+
+    if (existingBalance > 0) {
+      openings.push({ accountId, userId, amount: existingBalance });
+    }
+  });
+
+  // Opening balances are issued from their system account like any other entry
+  const openingAccountRef = db.collection(LEDGER_ACCOUNTS).doc(SYSTEM_ACCOUNTS.openingBalances);
+  const openingAccountDoc = openings.length > 0 && !accountIds.includes(SYSTEM_ACCOUNTS.openingBalances)
+    ? await tx.get(openingAccountRef)
+    : null;
+  if (openingAccountDoc) {
+    balances[SYSTEM_ACCOUNTS.openingBalances] = openingAccountDoc.exists ? openingAccountDoc.data()!.balance || 0 : 0;
+  }
+
+  const openingEntries = openings.map(({ accountId, userId, amount }) => {
+    balances[SYSTEM_ACCOUNTS.openingBalances] -= amount;
+    return {
+      ref: db.collection(LEDGER_ENTRIES).doc(entryIdForKey(`opening-balance:${accountId}`)),
+      data: {
+        type: 'opening-balance',
+        legs: [
+          {
+            accountId: SYSTEM_ACCOUNTS.openingBalances,
+            direction: 'debit',
+            amount,
+            balanceAfter: balances[SYSTEM_ACCOUNTS.openingBalances],
+          },
+          { accountId, direction: 'credit', amount, balanceAfter: amount },
+        ],
+        accountIds: [SYSTEM_ACCOUNTS.openingBalances, accountId],
+        userIds: [userId],
+        idempotencyKey: `opening-balance:${accountId}`,
+        description: 'Opening balance migrated from user wallet',
+        metadata: {},
+        createdAt: now,
+      },
+    };
+  });
+
+  // Apply legs of every entry that has not been posted before
+  const entryWrites: Array<{ ref: admin.firestore.DocumentReference; data: admin.firestore.DocumentData }> = [];
+  const results: JournalEntryResult[] = inputs.map((input, i) => {
+    if (entryDocs[i].exists) {
+      return { entryId: entryRefs[i].id, duplicate: true, balances: { ...balances } };
+    }
+
+    const legsWithBalances = input.legs.map(leg => {
+      balances[leg.accountId] = (balances[leg.accountId] || 0) + legDelta(leg);
+      return { ...leg, balanceAfter: balances[leg.accountId] };
+    });
+    const entryAccountIds = Array.from(new Set(input.legs.map(leg => leg.accountId)));
+
+    entryWrites.push({
+      ref: entryRefs[i],
+      data: {
+        type: input.type,
+        legs: legsWithBalances,
+        accountIds: entryAccountIds,
+        userIds: entryAccountIds.map(userIdFromAccountId).filter(id => !!id),
+        idempotencyKey: input.idempotencyKey,
+        description: input.description || null,
+        metadata: input.metadata || {},
+        createdAt: now,
+      },
+    });
+
+    return { entryId: entryRefs[i].id, duplicate: false, balances: { ...balances } };
+  });
+
+  // Enforce non-negative user balances
+  for (const accountId of accountIds) {
+    if (userIdFromAccountId(accountId) && balances[accountId] < 0) {
+      throw new LedgerError('insufficient-funds', 'Insufficient PXL balance');
+    }
+  }
+
+  if (entryWrites.length === 0) {
+    return results;
+  }
+
+  // Writes
+  for (const write of [...openingEntries, ...entryWrites]) {
+    tx.set(write.ref, write.data);
+  }
+
+  const lastEntryId = entryWrites[entryWrites.length - 1].ref.id;
+  accountRefs.forEach((ref, i) => {
+    const accountId = accountIds[i];
+    const userId = userIdFromAccountId(accountId);
+    tx.set(ref, {
+      type: userId ? 'user' : 'system',
+      ownerId: userId,
+      currency: 'PXL',
+      balance: balances[accountId],
+      lastEntryId,
+      updatedAt: now,
+      ...(accountDocs[i].exists ? {} : { createdAt: now }),
+    }, { merge: true });
+  });
+
+  if (openingAccountDoc) {
+    tx.set(openingAccountRef, {
+      type: 'system',
+      ownerId: null,
+      currency: 'PXL',
+      balance: balances[SYSTEM_ACCOUNTS.openingBalances],
+      lastEntryId: openingEntries[openingEntries.length - 1].ref.id,
+      updatedAt: now,
+      ...(openingAccountDoc.exists ? {} : { createdAt: now }),
+    }, { merge: true });
+  }
+
+  userRefs.forEach((ref, i) => {
+    if (!userDocs[i].exists) return;
+    tx.update(ref, {
+      'wallets.pxl.balance': balances[userAccountId(userIds[i])],
+      'timestamps.updated': now,
+    });
+  });
+
+  return results;
+}
+
+/**
+ * PXL a wallet spent on giftcards across a set of journal entries
+ * Refunds are netted off when the order they refund is among the entries, so
+ * a refund of an order outside the set does not reduce the spend
+ */
+export function giftcardSpend(
+  entries: Array<Pick<LedgerEntryRecord, 'type' | 'legs' | 'metadata'>>,
+  accountId: string
+): number {
+  const amountFor = (entry: { legs: LedgerLeg[] }, direction: LedgerLeg['direction']) => entry.legs
+    .filter(leg => leg.accountId === accountId && leg.direction === direction)
+    .reduce((sum, leg) => sum + leg.amount, 0);
+
+  const purchases = entries.filter(entry => entry.type === 'giftcard-purchase');
+  const orderIds = new Set(purchases.map(entry => entry.metadata?.orderId).filter(id => !!id));
+  const spent = purchases.reduce((sum, entry) => sum + amountFor(entry, 'debit'), 0);
+  const refunded = entries
+    .filter(entry => entry.type === 'giftcard-refund' && orderIds.has(entry.metadata?.orderId))
+    .reduce((sum, entry) => sum + amountFor(entry, 'credit'), 0);
+
+  return Math.max(0, spent - refunded);
+}
+
+/**
+ * Recompute an account balance by replaying every journal entry that touches it
+ */
+export async function replayAccountBalance(accountId: string): Promise<{ balance: number; entryCount: number }> {
+  const db = admin.firestore();
+  const snapshot = await db.collection(LEDGER_ENTRIES)
+    .where('accountIds', 'array-contains', accountId)
+    .get();
+
+  let balance = 0;
+  snapshot.forEach(doc => {
+    const legs: LedgerLeg[] = doc.data().legs || [];
+    for (const leg of legs) {
+      if (leg.accountId === accountId) {
+        balance += legDelta(leg);
+      }
+    }
+  });
+
+  return { balance, entryCount: snapshot.size };
+}
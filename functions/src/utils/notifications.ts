@@ -0,0 +1,34 @@
+/**
+ * In-app user notifications written by Cloud Functions
+ */
+
+import * as admin from 'firebase-admin';
+
+export const USER_NOTIFICATIONS = 'user-notifications';
+
+export interface UserNotification {
+  type: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Store a notification for a user; the client listens on user-notifications
+ */
+export async function notifyUser(userId: string, notification: UserNotification): Promise<void> {
+  try {
+    await admin.firestore().collection(USER_NOTIFICATIONS).add({
+      userId,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data || {},
+      read: false,
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+  } catch (error) {
+    // Notifications are best effort and must never fail the calling operation
+    console.error(`Failed to notify user ${userId}:`, error);
+  }
+}
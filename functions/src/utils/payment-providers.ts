@@ -0,0 +1,565 @@
+/**
+ * Payment provider adapters
+ * Webhook signature checks and server-side payment status lookups for
+ * MyFatoorah, Stripe and PayPal, plus a fake provider for offline testing.
+ */
+
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+
+export type PaymentProvider = 'myfatoorah' | 'stripe' | 'paypal';
+
+export type ProviderPaymentStatus = 'paid' | 'pending' | 'failed';
+
+export type PaymentReversal = 'refunded' | 'charged-back';
+
+export interface ProviderPayment {
+  provider: PaymentProvider;
+  paymentId: string;
+  status: ProviderPaymentStatus;
+  // Our order or purchase ID as stored on the provider's side
+  reference: string | null;
+  amount: number;
+  currency: string;
+}
+
+// What a payment must be for: the amount on the order or purchase, or the invoice created for it
+export interface PaymentExpectation {
+  amount: number;
+  currency: string;
+}
+
+export interface HostedInvoiceRequest extends PaymentExpectation {
+  // Order or purchase ID, stored on the invoice as the customer reference
+  reference: string;
+  description: string;
+  customer: { name: string; email: string; mobile: string | null };
+}
+
+// An invoice the customer pays on the provider's page
+export interface HostedInvoice extends PaymentExpectation {
+  provider: PaymentProvider;
+  paymentId: string;
+  paymentUrl: string;
+}
+
+export interface WebhookEvent {
+  eventId: string;
+  eventType: string;
+  // ID to query the provider with
+  paymentId: string | null;
+}
+
+// Headers vary in case between providers; Express lowercases them
+type Headers = Record<string, string | string[] | undefined>;
+
+type JsonObject = Record<string, unknown>;
+
+// The parts of each provider's API responses read here
+interface MyFatoorahResponse<T> {
+  IsSuccess?: boolean;
+  Message?: string;
+  Data?: T;
+}
+
+interface MyFatoorahPaymentStatus {
+  InvoiceStatus?: string;
+  CustomerReference?: string | null;
+  InvoiceValue?: number | string;
+}
+
+interface MyFatoorahInvoice {
+  InvoiceId?: number | string;
+  InvoiceURL?: string;
+}
+
+interface StripePaymentIntent {
+  status?: string;
+  metadata?: { reference?: string };
+  amount_received?: number;
+  currency?: string;
+}
+
+interface PayPalOrder {
+  status?: string;
+  purchase_units?: Array<{
+    custom_id?: string;
+    reference_id?: string;
+    amount?: { value?: string; currency_code?: string };
+  }>;
+}
+
+// Stripe rejects signatures older than this by default
+const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const config = {
+  myfatoorah: {
+    apiUrl: process.env.MYFATOORAH_API_URL || 'https://apitest.myfatoorah.com',
+    apiKey: process.env.MYFATOORAH_API_KEY || '',
+    webhookSecret: process.env.MYFATOORAH_WEBHOOK_SECRET || '',
+    // Currency of the MyFatoorah account; invoice values and paid amounts are in it
+    currency: (process.env.MYFATOORAH_CURRENCY || 'USD').toUpperCase(),
+  },
+  stripe: {
+    secretKey: process.env.STRIPE_SECRET_KEY || '',
+    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
+  },
+  paypal: {
+    apiUrl: process.env.PAYPAL_API_URL || 'https://api-m.sandbox.paypal.com',
+    clientId: process.env.PAYPAL_CLIENT_ID || '',
+    clientSecret: process.env.PAYPAL_CLIENT_SECRET || '',
+    webhookId: process.env.PAYPAL_WEBHOOK_ID || '',
+  },
+  fake: {
+    secret: process.env.FAKE_PROVIDER_SECRET || 'fake-provider-secret',
+  },
+  // Where the provider sends the customer back to after paying
+  appUrl: (process.env.APP_URL || 'http://localhost:3009').replace(/\/+$/, ''),
+};
+
+/**
+ * Fake provider mode replaces every provider with a local simulation.
+ * Only honoured inside the Functions emulator so it can never reach production.
+ */
+export function isFakeProviderMode(): boolean {
+  return process.env.PAYMENT_PROVIDER_MODE === 'fake' && process.env.FUNCTIONS_EMULATOR === 'true';
+}
+
+/**
+ * Webhook bodies are untrusted JSON; read them as objects, empty when they are not
+ */
+function asObject(value: unknown): JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as JsonObject : {};
+}
+
+function idOrNull(value: unknown): string | null {
+  return (typeof value === 'string' || typeof value === 'number') && value !== '' ? String(value) : null;
+}
+
+function header(headers: Headers, name: string): string {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] || '' : value || '';
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function hmac(secret: string, payload: string, encoding: 'hex' | 'base64'): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest(encoding);
+}
+
+/**
+ * MyFatoorah signs the event's Data fields, sorted by name, as "key=value" pairs
+ */
+function verifyMyFatoorahSignature(body: unknown, headers: Headers): boolean {
+  const signature = header(headers, 'myfatoorah-signature');
+  const data = asObject(body).Data;
+  if (!config.myfatoorah.webhookSecret || !signature || typeof data !== 'object' || data === null) return false;
+
+  const fields = data as JsonObject;
+  const payload = Object.keys(fields)
+    .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
+    .map(key => `${key}=${fields[key] ?? ''}`)
+    .join(',');
+
+  return safeEqual(hmac(config.myfatoorah.webhookSecret, payload, 'base64'), signature);
+}
+
+/**
+ * Stripe signs "<timestamp>.<raw body>" and sends "t=...,v1=..." in Stripe-Signature
+ */
+function verifyStripeSignature(rawBody: string, headers: Headers): boolean {
+  const signature = header(headers, 'stripe-signature');
+  if (!config.stripe.webhookSecret || !signature) return false;
+
+  const parts = signature.split(',').map(part => part.split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || Math.abs(Date.now() / 1000 - Number(timestamp)) > STRIPE_SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = hmac(config.stripe.webhookSecret, `${timestamp}.${rawBody}`, 'hex');
+  return signatures.some(value => safeEqual(expected, value));
+}
+
+async function getPayPalAccessToken(): Promise<string> {
+  const credentials = Buffer.from(`${config.paypal.clientId}:${config.paypal.clientSecret}`).toString('base64');
+  const response = await fetch(`${config.paypal.apiUrl}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${credentials}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  });
+
+  if (!response.ok) {
+    throw new Error(`PayPal authentication failed (${response.status})`);
+  }
+
+  const data = await response.json() as { access_token: string };
+  return data.access_token;
+}
+
+/**
+ * PayPal signatures are certificate based, so they are checked through PayPal's verify API
+ */
+async function verifyPayPalSignature(body: unknown, headers: Headers): Promise<boolean> {
+  if (!config.paypal.webhookId || !header(headers, 'paypal-transmission-sig')) return false;
+
+  const response = await fetch(`${config.paypal.apiUrl}/v1/notifications/verify-webhook-signature`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await getPayPalAccessToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      auth_algo: header(headers, 'paypal-auth-algo'),
+      cert_url: header(headers, 'paypal-cert-url'),
+      transmission_id: header(headers, 'paypal-transmission-id'),
+      transmission_sig: header(headers, 'paypal-transmission-sig'),
+      transmission_time: header(headers, 'paypal-transmission-time'),
+      webhook_id: config.paypal.webhookId,
+      webhook_event: body,
+    }),
+  });
+
+  if (!response.ok) return false;
+
+  const data = await response.json() as { verification_status: string };
+  return data.verification_status === 'SUCCESS';
+}
+
+/**
+ * Check that a webhook really came from the provider
+ */
+export async function verifyWebhookSignature(
+  provider: PaymentProvider,
+  rawBody: string,
+  body: unknown,
+  headers: Headers
+): Promise<boolean> {
+  if (isFakeProviderMode()) {
+    const signature = header(headers, 'x-fake-signature');
+    return !!signature && safeEqual(hmac(config.fake.secret, rawBody, 'hex'), signature);
+  }
+
+  switch (provider) {
+    case 'myfatoorah':
+      return verifyMyFatoorahSignature(body, headers);
+    case 'stripe':
+      return verifyStripeSignature(rawBody, headers);
+    case 'paypal':
+      return verifyPayPalSignature(body, headers);
+  }
+}
+
+/**
+ * Pull the event ID and the payment to look up out of a verified webhook body
+ */
+export function parseWebhookEvent(provider: PaymentProvider, body: unknown, rawBody: string): WebhookEvent {
+  // Providers without event IDs are deduplicated on the exact payload
+  const payloadId = crypto.createHash('sha256').update(rawBody).digest('hex').slice(0, 40);
+  const event = asObject(body);
+
+  if (isFakeProviderMode()) {
+    return {
+      eventId: idOrNull(event.id) || payloadId,
+      eventType: idOrNull(event.type) || 'payment.updated',
+      paymentId: idOrNull(event.paymentId),
+    };
+  }
+
+  switch (provider) {
+    case 'myfatoorah':
+      return {
+        eventId: payloadId,
+        eventType: idOrNull(event.Event) || idOrNull(event.EventType) || 'unknown',
+        paymentId: idOrNull(asObject(event.Data).InvoiceId),
+      };
+    case 'stripe': {
+      const object = asObject(asObject(event.data).object);
+      const paymentId = object.object === 'payment_intent' ? object.id : object.payment_intent;
+      return {
+        eventId: idOrNull(event.id) || payloadId,
+        eventType: idOrNull(event.type) || 'unknown',
+        paymentId: idOrNull(paymentId),
+      };
+    }
+    case 'paypal': {
+      const resource = asObject(event.resource);
+      // Capture events point back at the checkout order they belong to
+      const relatedIds = asObject(asObject(resource.supplementary_data).related_ids);
+      return {
+        eventId: idOrNull(event.id) || payloadId,
+        eventType: idOrNull(event.event_type) || 'unknown',
+        paymentId: idOrNull(relatedIds.order_id) || idOrNull(resource.id),
+      };
+    }
+  }
+}
+
+// Webhook events that take money back after a payment succeeded
+const REVERSAL_EVENTS: Record<PaymentProvider | 'fake', Record<string, PaymentReversal>> = {
+  myfatoorah: { RefundStatusChanged: 'refunded' },
+  stripe: { 'charge.refunded': 'refunded', 'charge.dispute.created': 'charged-back' },
+  paypal: { 'PAYMENT.CAPTURE.REFUNDED': 'refunded', 'PAYMENT.CAPTURE.REVERSED': 'charged-back' },
+  fake: { 'payment.refunded': 'refunded', 'payment.charged_back': 'charged-back' },
+};
+
+/**
+ * Whether a webhook event reports a refund or chargeback
+ * Payment status lookups still report these payments as paid, so the event
+ * type is the only signal
+ */
+export function paymentReversalForEvent(provider: PaymentProvider, eventType: string): PaymentReversal | null {
+  return REVERSAL_EVENTS[isFakeProviderMode() ? 'fake' : provider][eventType] || null;
+}
+
+async function fetchMyFatoorahPayment(paymentId: string): Promise<ProviderPayment | null> {
+  const response = await fetch(`${config.myfatoorah.apiUrl}/v2/GetPaymentStatus`, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${config.myfatoorah.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ Key: paymentId, KeyType: 'InvoiceId' }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`MyFatoorah status lookup failed (${response.status})`);
+  }
+
+  const data = await response.json() as MyFatoorahResponse<MyFatoorahPaymentStatus>;
+  if (!data.IsSuccess || !data.Data) return null;
+
+  const invoiceStatus = data.Data.InvoiceStatus;
+  return {
+    provider: 'myfatoorah',
+    paymentId,
+    status: invoiceStatus === 'Paid' ? 'paid' : invoiceStatus === 'Pending' ? 'pending' : 'failed',
+    reference: data.Data.CustomerReference || null,
+    amount: Number(data.Data.InvoiceValue) || 0,
+    currency: config.myfatoorah.currency,
+  };
+}
+
+async function fetchStripePayment(paymentId: string): Promise<ProviderPayment | null> {
+  const response = await fetch(`https://api.stripe.com/v1/payment_intents/${encodeURIComponent(paymentId)}`, {
+    headers: { 'Authorization': `Bearer ${config.stripe.secretKey}` },
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Stripe status lookup failed (${response.status})`);
+  }
+
+  const intent = await response.json() as StripePaymentIntent;
+  return {
+    provider: 'stripe',
+    paymentId,
+    status: intent.status === 'succeeded'
+      ? 'paid'
+      : intent.status === 'canceled' ? 'failed' : 'pending',
+    reference: intent.metadata?.reference || null,
+    amount: (intent.amount_received || 0) / 100,
+    currency: String(intent.currency || 'usd').toUpperCase(),
+  };
+}
+
+async function fetchPayPalPayment(paymentId: string): Promise<ProviderPayment | null> {
+  const response = await fetch(`${config.paypal.apiUrl}/v2/checkout/orders/${encodeURIComponent(paymentId)}`, {
+    headers: { 'Authorization': `Bearer ${await getPayPalAccessToken()}` },
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`PayPal status lookup failed (${response.status})`);
+  }
+
+  const order = await response.json() as PayPalOrder;
+  const unit = order.purchase_units?.[0];
+  return {
+    provider: 'paypal',
+    paymentId,
+    status: order.status === 'COMPLETED'
+      ? 'paid'
+      : order.status === 'VOIDED' ? 'failed' : 'pending',
+    reference: unit?.custom_id || unit?.reference_id || null,
+    amount: Number(unit?.amount?.value) || 0,
+    currency: String(unit?.amount?.currency_code || 'USD').toUpperCase(),
+  };
+}
+
+/**
+ * Fake payments live in Firestore so tests can set any outcome.
+ * Unknown payment IDs are approved for the expected amount, which keeps the
+ * sandbox card and PayPal forms working offline.
+ */
+async function fetchFakePayment(
+  provider: PaymentProvider,
+  paymentId: string,
+  expected?: { reference: string; amount: number }
+): Promise<ProviderPayment | null> {
+  const doc = await admin.firestore().collection('fake-payments').doc(paymentId).get();
+
+  if (!doc.exists) {
+    return expected
+      ? { provider, paymentId, status: 'paid', reference: expected.reference, amount: expected.amount, currency: 'USD' }
+      : null;
+  }
+
+  const data = doc.data()!;
+  return {
+    provider,
+    paymentId,
+    status: data.status || 'paid',
+    reference: data.reference || null,
+    amount: Number(data.amount) || 0,
+    currency: String(data.currency || 'USD').toUpperCase(),
+  };
+}
+
+/**
+ * Record the payment described by a verified fake webhook
+ */
+export async function recordFakePayment(body: unknown): Promise<void> {
+  const payment = asObject(body);
+  const paymentId = idOrNull(payment.paymentId);
+  if (!paymentId) return;
+
+  await admin.firestore().collection('fake-payments').doc(paymentId).set({
+    status: payment.status || 'paid',
+    reference: payment.reference || null,
+    amount: Number(payment.amount) || 0,
+    currency: payment.currency || 'USD',
+    updatedAt: admin.firestore.Timestamp.now(),
+  }, { merge: true });
+}
+
+/**
+ * Ask the provider for the current state of a payment
+ * Returns null when the provider does not know the payment
+ */
+export async function fetchPaymentStatus(
+  provider: PaymentProvider,
+  paymentId: string,
+  expected?: { reference: string; amount: number }
+): Promise<ProviderPayment | null> {
+  if (isFakeProviderMode()) {
+    return fetchFakePayment(provider, paymentId, expected);
+  }
+
+  switch (provider) {
+    case 'myfatoorah':
+      return fetchMyFatoorahPayment(paymentId);
+    case 'stripe':
+      return fetchStripePayment(paymentId);
+    case 'paypal':
+      return fetchPayPalPayment(paymentId);
+  }
+}
+
+async function createMyFatoorahInvoice(request: HostedInvoiceRequest): Promise<HostedInvoice> {
+  if (request.currency.toUpperCase() !== config.myfatoorah.currency) {
+    throw new Error(`MyFatoorah invoices are in ${config.myfatoorah.currency}, not ${request.currency}`);
+  }
+
+  const response = await fetch(`${config.myfatoorah.apiUrl}/v2/SendPayment`, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${config.myfatoorah.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      NotificationOption: 'LNK',
+      InvoiceValue: request.amount,
+      DisplayCurrencyIso: config.myfatoorah.currency,
+      CustomerName: request.customer.name,
+      CustomerEmail: request.customer.email,
+      ...(request.customer.mobile ? { CustomerMobile: request.customer.mobile } : {}),
+      CustomerReference: request.reference,
+      CallBackUrl: `${config.appUrl}/api/payment/callback`,
+      ErrorUrl: `${config.appUrl}/api/payment/error`,
+      Language: 'en',
+      InvoiceItems: [{ ItemName: request.description, Quantity: 1, UnitPrice: request.amount }],
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`MyFatoorah invoice creation failed (${response.status})`);
+  }
+
+  const data = await response.json() as MyFatoorahResponse<MyFatoorahInvoice>;
+  if (!data.IsSuccess || !data.Data?.InvoiceId) {
+    throw new Error(`MyFatoorah invoice creation failed: ${data.Message || 'no invoice returned'}`);
+  }
+
+  return {
+    provider: 'myfatoorah',
+    paymentId: String(data.Data.InvoiceId),
+    paymentUrl: String(data.Data.InvoiceURL),
+    amount: request.amount,
+    currency: config.myfatoorah.currency,
+  };
+}
+
+/**
+ * Fake invoices start out pending; a fake webhook then settles them
+ */
+async function createFakeInvoice(provider: PaymentProvider, request: HostedInvoiceRequest): Promise<HostedInvoice> {
+  const paymentId = `fake_${crypto.randomBytes(12).toString('hex')}`;
+
+  await admin.firestore().collection('fake-payments').doc(paymentId).set({
+    status: 'pending',
+    reference: request.reference,
+    amount: request.amount,
+    currency: request.currency.toUpperCase(),
+    updatedAt: admin.firestore.Timestamp.now(),
+  });
+
+  return {
+    provider,
+    paymentId,
+    paymentUrl: `${config.appUrl}/api/payment/callback?paymentId=${paymentId}`,
+    amount: request.amount,
+    currency: request.currency.toUpperCase(),
+  };
+}
+
+/**
+ * Create an invoice to pay on the provider's page
+ * Only MyFatoorah payments are hosted; card and PayPal payments are made in
+ * the browser against the order or purchase ID
+ */
+export async function createHostedInvoice(
+  provider: PaymentProvider,
+  request: HostedInvoiceRequest
+): Promise<HostedInvoice> {
+  if (isFakeProviderMode()) {
+    return createFakeInvoice(provider, request);
+  }
+
+  if (provider !== 'myfatoorah') {
+    throw new Error(`${provider} payments are not invoiced`);
+  }
+
+  return createMyFatoorahInvoice(request);
+}
+
+/**
+ * Whether a payment is for exactly the expected amount and currency
+ * Invoices are only created for the amount recorded on the order or purchase,
+ * so a payment in another currency or for another amount was not made for it.
+ */
+export function paymentMatchesExpectation(payment: ProviderPayment, expected: PaymentExpectation): boolean {
+  return payment.currency === expected.currency.toUpperCase()
+    && Math.round(payment.amount * 100) === Math.round(expected.amount * 100);
+}
@@ -0,0 +1,78 @@
+/**
+ * PXL payment requests
+ * Shares and the request status derived from them, shared by the payment
+ * request functions and the transfer hold review that settles held shares.
+ */
+
+import * as admin from 'firebase-admin';
+
+export const PAYMENT_REQUESTS = 'payment-requests';
+
+export type PaymentRequestStatus = 'open' | 'partially-paid' | 'paid' | 'cancelled' | 'expired';
+
+// held: paid with a transfer that is waiting for admin review
+export type PaymentShareStatus = 'pending' | 'processing' | 'held' | 'paid' | 'declined';
+
+export interface PaymentShare {
+  // Null for a shareable link share until someone pays it
+  userId: string | null;
+  username: string | null;
+  amount: number;
+  status: PaymentShareStatus;
+  transferId: string | null;
+  paidAt: admin.firestore.Timestamp | null;
+}
+
+/**
+ * Split a total into whole-PXL shares; the remainder goes to the first shares
+ */
+export function splitAmount(total: number, parts: number): number[] {
+  const base = Math.floor(total / parts);
+  const remainder = total - base * parts;
+  return Array.from({ length: parts }, (_, i) => base + (i < remainder ? 1 : 0));
+}
+
+/**
+ * Derive the request status from its shares
+ */
+export function resolveStatus(shares: PaymentShare[]): PaymentRequestStatus {
+  const open = shares.filter((share) => share.status !== 'declined');
+  const paid = open.filter((share) => share.status === 'paid');
+
+  if (open.length > 0 && paid.length === open.length) return 'paid';
+  if (open.length === 0) return 'cancelled';
+  return paid.length > 0 ? 'partially-paid' : 'open';
+}
+
+/**
+ * Settle the share paid by a held transfer once the hold has been reviewed
+ * Released transfers pay the share; rejected ones were refunded, so the share
+ * counts as declined. Returns null when no held share used the transfer.
+ */
+export function settleHeldShare(
+  request: admin.firestore.DocumentData,
+  transferId: string,
+  released: boolean,
+  now: admin.firestore.Timestamp
+): { shares: PaymentShare[]; status: PaymentRequestStatus; amountPaid: number; share: PaymentShare } | null {
+  const shares: PaymentShare[] = request.shares.map((share: PaymentShare) => ({ ...share }));
+  const index = shares.findIndex((share) => share.transferId === transferId && share.status === 'held');
+
+  if (index === -1) {
+    return null;
+  }
+
+  shares[index] = released
+    ? { ...shares[index], status: 'paid', paidAt: now }
+    : { ...shares[index], status: 'declined' };
+
+  // Cancelled and expired requests keep their status; the share still records the outcome
+  const active = request.status === 'open' || request.status === 'partially-paid';
+
+  return {
+    shares,
+    status: active ? resolveStatus(shares) : request.status,
+    amountPaid: request.amountPaid + (released ? shares[index].amount : 0),
+    share: shares[index],
+  };
+}
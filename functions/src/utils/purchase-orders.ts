@@ -0,0 +1,146 @@
+/**
+ * Supplier purchase orders
+ * A purchase order asks a supplier for codes per product and denomination.
+ * Codes arrive in batches that are stocked through the giftcard-codes approval
+ * and recorded here as receipts, which also feed the supplier's delivery stats.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+export const PURCHASE_ORDERS = 'purchase-orders';
+
+export type PurchaseOrderStatus = 'open' | 'partially-received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  denomination: number;
+  quantity: number;
+  received: number;
+}
+
+export interface PurchaseOrderReceipt {
+  // The giftcard-codes approval that stocked the batch
+  approvalId: string;
+  productId: string;
+  denomination: number;
+  quantity: number;
+  receivedAt: admin.firestore.Timestamp;
+}
+
+export interface PurchaseOrder {
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseOrderReceipt[];
+  notes: string | null;
+  orderedBy: string;
+  orderedAt: admin.firestore.Timestamp;
+  expectedAt: admin.firestore.Timestamp | null;
+  // Set once every line is received in full
+  receivedAt: admin.firestore.Timestamp | null;
+  cancelledAt: admin.firestore.Timestamp | null;
+  updatedAt: admin.firestore.Timestamp;
+}
+
+export interface SupplierStats {
+  // Share of ordered codes received by the expected date, over orders that are due
+  performanceScore: number | null;
+  // Mean hours from ordering to each received batch
+  deliveryTimeAvg: number | null;
+  totalOrders: number;
+  // Face value of the supplier's sold codes
+  totalRevenue: number;
+}
+
+export function isReceivable(order: PurchaseOrder): boolean {
+  return order.status === 'open' || order.status === 'partially-received';
+}
+
+/**
+ * Codes still to come for one line, or null when the order has no such line
+ */
+export function outstandingQuantity(order: PurchaseOrder, productId: string, denomination: number): number | null {
+  const line = order.lines.find(l => l.productId === productId && l.denomination === denomination);
+  return line ? line.quantity - line.received : null;
+}
+
+/**
+ * Fields to update on an order when a batch is received against one of its lines
+ * Batches larger than what is still outstanding are refused.
+ */
+export function receivePurchaseOrderBatch(
+  order: PurchaseOrder,
+  receipt: PurchaseOrderReceipt
+): Pick<PurchaseOrder, 'lines' | 'receipts' | 'status' | 'receivedAt' | 'updatedAt'> {
+  if (!isReceivable(order)) {
+    throw new functions.https.HttpsError('failed-precondition', `Purchase order is ${order.status}`);
+  }
+
+  const outstanding = outstandingQuantity(order, receipt.productId, receipt.denomination);
+  if (outstanding === null) {
+    throw new functions.https.HttpsError('not-found', 'Purchase order has no line for this denomination');
+  }
+  if (receipt.quantity > outstanding) {
+    throw new functions.https.HttpsError('failed-precondition', `Only ${outstanding} codes are outstanding on this line`);
+  }
+
+  const lines = order.lines.map(line =>
+    line.productId === receipt.productId && line.denomination === receipt.denomination
+      ? { ...line, received: line.received + receipt.quantity }
+      : line
+  );
+  const complete = lines.every(line => line.received >= line.quantity);
+
+  return {
+    lines,
+    receipts: [...order.receipts, receipt],
+    status: complete ? 'received' : 'partially-received',
+    receivedAt: complete ? receipt.receivedAt : null,
+    updatedAt: receipt.receivedAt,
+  };
+}
+
+/**
+ * Delivery stats from a supplier's purchase orders
+ * Orders count towards the score once they are received, cancelled or past their
+ * expected date; orders without an expected date only count once closed.
+ * Cancelled orders only count what was delivered before they were cancelled.
+ */
+export function purchaseOrderStats(
+  orders: PurchaseOrder[],
+  now: number
+): Pick<SupplierStats, 'performanceScore' | 'deliveryTimeAvg' | 'totalOrders'> {
+  let ordered = 0;
+  let onTime = 0;
+  let deliveryHours = 0;
+  let batches = 0;
+
+  const placed = orders.filter(order => order.status !== 'cancelled' || order.receipts.length > 0);
+
+  placed.forEach(order => {
+    const orderedAt = order.orderedAt.toMillis();
+    const expectedAt = order.expectedAt?.toMillis() ?? null;
+
+    order.receipts.forEach(receipt => {
+      deliveryHours += (receipt.receivedAt.toMillis() - orderedAt) / (60 * 60 * 1000);
+      batches++;
+    });
+
+    const due = order.status === 'received' || order.status === 'cancelled' || (expectedAt !== null && expectedAt <= now);
+    if (!due) return;
+
+    ordered += order.lines.reduce((sum, line) => sum + (order.status === 'cancelled' ? line.received : line.quantity), 0);
+    onTime += order.receipts
+      .filter(receipt => expectedAt === null || receipt.receivedAt.toMillis() <= expectedAt)
+      .reduce((sum, receipt) => sum + receipt.quantity, 0);
+  });
+
+  return {
+    performanceScore: ordered > 0 ? Math.round((onTime / ordered) * 100) : null,
+    deliveryTimeAvg: batches > 0 ? Math.round((deliveryHours / batches) * 10) / 10 : null,
+    totalOrders: placed.length,
+  };
+}
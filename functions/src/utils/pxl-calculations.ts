@@ -59,3 +59,55 @@ export function calculatePXLFromUSD(
     effectiveRate,
   };
 }
+
+export interface TransferLimits {
+  perTransfer: number;
+  daily: number;
+  monthly: number;
+  // Transfers above this amount are held for admin review
+  holdThreshold: number;
+}
+
+// Peer-to-peer transfer limits by tier (in PXL)
+export const TRANSFER_LIMITS: Record<keyof typeof TIER_THRESHOLDS, TransferLimits> = {
+  starter: { perTransfer: 1000, daily: 2500, monthly: 10000, holdThreshold: 500 },
+  rising: { perTransfer: 2500, daily: 5000, monthly: 25000, holdThreshold: 2000 },
+  pro: { perTransfer: 5000, daily: 10000, monthly: 50000, holdThreshold: 4000 },
+  pixlbeast: { perTransfer: 10000, daily: 25000, monthly: 100000, holdThreshold: 8000 },
+  pixlionaire: { perTransfer: 10000, daily: 50000, monthly: 250000, holdThreshold: 10000 },
+};
+
+/**
+ * Get transfer limits for a tier, falling back to starter for unknown tiers
+ */
+export function getTransferLimits(tier: string): TransferLimits {
+  return TRANSFER_LIMITS[tier as keyof typeof TRANSFER_LIMITS] || TRANSFER_LIMITS.starter;
+}
+
+// Giftcard prices in PXL per USD of face value (slight advantage over USD)
+export const GIFTCARD_PXL_PER_USD = 98;
+
+export interface GiftcardPricing {
+  usd: number;
+  basePxl: number;
+  pxl: number;
+  discountPercentage: number;
+  cashbackPxl: number;
+}
+
+/**
+ * Unit price of a giftcard denomination, matching the marketplace cards
+ * Featured products carry a larger discount and cashback
+ */
+export function calculateGiftcardPricing(denomination: number, featured: boolean): GiftcardPricing {
+  const discountPercentage = featured ? 5 : 2;
+  const basePxl = Math.floor(denomination * GIFTCARD_PXL_PER_USD);
+
+  return {
+    usd: denomination,
+    basePxl,
+    pxl: basePxl - Math.floor(basePxl * discountPercentage / 100),
+    discountPercentage,
+    cashbackPxl: featured ? 3 : 1,
+  };
+}
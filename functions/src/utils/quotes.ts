@@ -0,0 +1,106 @@
+/**
+ * Signed rate-lock quotes
+ * A quote fixes the exchange rate, tier and resulting amounts for a short
+ * window. The terms travel inside the quote ID and are HMAC-signed, so any
+ * endpoint can check them without a lookup and edited quotes are rejected.
+ */
+
+import * as crypto from 'crypto';
+
+export type QuoteKind = 'pxl-purchase' | 'giftcard-order';
+
+export interface QuoteTerms {
+  kind: QuoteKind;
+  userId: string;
+  tier: string;
+  exchangeRate: number;
+  usdAmount: number;
+  // PXL credited for purchases, PXL charged for giftcard orders
+  pxlAmount: number;
+  bonusPxl: number;
+  cashbackPxl: number;
+  // Giftcard orders only; ties the quote to the cart it was priced for
+  itemsHash: string | null;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export const QUOTE_TTL_SECONDS = 120;
+
+const QUOTE_VERSION = 'q1';
+
+export class QuoteError extends Error {
+  constructor(public code: 'invalid' | 'expired' | 'mismatch', message: string) {
+    super(message);
+    this.name = 'QuoteError';
+  }
+}
+
+function signingSecret(): string {
+  const secret = process.env.QUOTE_SIGNING_SECRET ||
+    (process.env.FUNCTIONS_EMULATOR === 'true' ? 'emulator-quote-secret' : '');
+
+  if (!secret) {
+    throw new Error('QUOTE_SIGNING_SECRET is not configured');
+  }
+
+  return secret;
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', signingSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Stable hash of order lines, independent of their order in the cart
+ */
+export function hashOrderLines(lines: Array<{ productId: string; denomination: number; quantity: number }>): string {
+  const canonical = lines
+    .map(line => `${line.productId}:${line.denomination}:${line.quantity}`)
+    .sort()
+    .join('|');
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Encode and sign quote terms into a quote ID
+ */
+export function signQuote(terms: QuoteTerms): string {
+  const payload = Buffer.from(JSON.stringify(terms)).toString('base64url');
+  return `${QUOTE_VERSION}.${payload}.${sign(payload)}`;
+}
+
+/**
+ * Check a quote's signature, owner, kind and expiry and return its terms
+ */
+export function verifyQuote(
+  quoteId: unknown,
+  expected: { kind: QuoteKind; userId: string },
+  now: number = Date.now()
+): QuoteTerms {
+  const parts = typeof quoteId === 'string' ? quoteId.split('.') : [];
+
+  if (parts.length !== 3 || parts[0] !== QUOTE_VERSION) {
+    throw new QuoteError('invalid', 'Invalid quote');
+  }
+
+  const [, payload, signature] = parts;
+  const expectedSignature = Buffer.from(sign(payload));
+  const givenSignature = Buffer.from(signature);
+
+  if (expectedSignature.length !== givenSignature.length || !crypto.timingSafeEqual(expectedSignature, givenSignature)) {
+    throw new QuoteError('invalid', 'Quote signature does not match');
+  }
+
+  const terms: QuoteTerms = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+
+  if (terms.kind !== expected.kind || terms.userId !== expected.userId) {
+    throw new QuoteError('mismatch', 'Quote was issued for a different request');
+  }
+
+  if (terms.expiresAt <= now) {
+    throw new QuoteError('expired', 'Quote has expired');
+  }
+
+  return terms;
+}
@@ -0,0 +1,219 @@
+/**
+ * PXL exchange-rate models
+ * Pure rate computations shared by the scheduled rate engine and the admin preview.
+ * Rates are PXL per USD, so demand for PXL pushes the rate down.
+ */
+
+export type RateModelType = 'fixed-peg' | 'supply-demand' | 'bounded-drift';
+
+export interface CircuitBreakerConfig {
+  // Halt when the rate moves more than this within the window
+  maxMovePercent: number;
+  windowHours: number;
+  haltMinutes: number;
+}
+
+export interface RateModelConfig {
+  type: RateModelType;
+  // Anchor the rate is pegged to or banded around
+  baseRate: number;
+  // Largest change allowed in one engine run
+  maxStepPercent: number;
+  // Largest deviation allowed from baseRate
+  bandPercent: number;
+  circuitBreaker: CircuitBreakerConfig;
+  // supply-demand: rate change for a fully one-sided flow, and the flow window
+  sensitivityPercent?: number;
+  windowHours?: number;
+  // bounded-drift: rate to move towards and how fast
+  targetRate?: number;
+  driftPercentPerRun?: number;
+}
+
+export interface FlowVolumes {
+  // PXL bought with USD
+  purchasedPxl: number;
+  // PXL spent on giftcards
+  spentPxl: number;
+  purchaseUsd: number;
+  transactionCount: number;
+}
+
+export type RateClamp = 'none' | 'step' | 'band';
+
+export interface RateComputation {
+  model: RateModelType;
+  previousRate: number;
+  // What the model asked for before the guards
+  targetRate: number;
+  rate: number;
+  clampedBy: RateClamp;
+  circuitBreakerTripped: boolean;
+}
+
+export const DEFAULT_RATE_MODEL: RateModelConfig = {
+  type: 'fixed-peg',
+  baseRate: 100,
+  maxStepPercent: 0.5,
+  bandPercent: 5,
+  circuitBreaker: {
+    maxMovePercent: 3,
+    windowHours: 1,
+    haltMinutes: 60,
+  },
+};
+
+const MODEL_TYPES: RateModelType[] = ['fixed-peg', 'supply-demand', 'bounded-drift'];
+
+function isPercent(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max;
+}
+
+/**
+ * Validate an admin-supplied model, returning a list of problems
+ */
+export function validateRateModel(model: Partial<RateModelConfig> | undefined): string[] {
+  const errors: string[] = [];
+
+  if (!model || !MODEL_TYPES.includes(model.type as RateModelType)) {
+    return ['Unknown model type'];
+  }
+  if (typeof model.baseRate !== 'number' || !(model.baseRate > 0)) {
+    errors.push('Base rate must be positive');
+  }
+  if (!isPercent(model.maxStepPercent, 100)) {
+    errors.push('Max step must be between 0 and 100%');
+  }
+  if (!isPercent(model.bandPercent, 100)) {
+    errors.push('Band must be between 0 and 100%');
+  }
+
+  const breaker = model.circuitBreaker;
+  if (!breaker || !isPercent(breaker.maxMovePercent, 100) || !(breaker.windowHours > 0) || !(breaker.haltMinutes >= 0)) {
+    errors.push('Circuit breaker needs a move limit, window and halt duration');
+  }
+
+  if (model.type === 'supply-demand') {
+    if (!isPercent(model.sensitivityPercent, 100)) {
+      errors.push('Sensitivity must be between 0 and 100%');
+    }
+    if (!(typeof model.windowHours === 'number' && model.windowHours > 0 && model.windowHours <= 168)) {
+      errors.push('Volume window must be between 1 and 168 hours');
+    }
+  }
+
+  if (model.type === 'bounded-drift') {
+    if (typeof model.targetRate !== 'number' || !(model.targetRate > 0)) {
+      errors.push('Target rate must be positive');
+    }
+    if (!isPercent(model.driftPercentPerRun, 100)) {
+      errors.push('Drift must be between 0 and 100%');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Copy of a validated model with only the parameters its type uses
+ * Stored models never carry stray keys or undefined values, which Firestore rejects
+ */
+export function normalizeRateModel(model: RateModelConfig): RateModelConfig {
+  const { maxMovePercent, windowHours, haltMinutes } = model.circuitBreaker;
+  const normalized: RateModelConfig = {
+    type: model.type,
+    baseRate: model.baseRate,
+    maxStepPercent: model.maxStepPercent,
+    bandPercent: model.bandPercent,
+    circuitBreaker: { maxMovePercent, windowHours, haltMinutes },
+  };
+
+  if (model.type === 'supply-demand') {
+    normalized.sensitivityPercent = model.sensitivityPercent;
+    normalized.windowHours = model.windowHours;
+  }
+
+  if (model.type === 'bounded-drift') {
+    normalized.targetRate = model.targetRate;
+    normalized.driftPercentPerRun = model.driftPercentPerRun;
+  }
+
+  return normalized;
+}
+
+/**
+ * Rate the model asks for, before step and band limits
+ */
+export function computeTargetRate(model: RateModelConfig, currentRate: number, volumes: FlowVolumes): number {
+  switch (model.type) {
+    case 'fixed-peg':
+      return model.baseRate;
+
+    case 'supply-demand': {
+      const total = volumes.purchasedPxl + volumes.spentPxl;
+      if (total <= 0) return currentRate;
+      // +1 when users only buy PXL, -1 when they only spend it
+      const imbalance = (volumes.purchasedPxl - volumes.spentPxl) / total;
+      return currentRate * (1 - imbalance * (model.sensitivityPercent || 0) / 100);
+    }
+
+    case 'bounded-drift': {
+      const target = model.targetRate || model.baseRate;
+      const maxMove = currentRate * (model.driftPercentPerRun || 0) / 100;
+      return currentRate + Math.max(-maxMove, Math.min(maxMove, target - currentRate));
+    }
+  }
+}
+
+/**
+ * Run a model for one engine step with step, band and circuit-breaker guards
+ * referenceRate is the rate at the start of the circuit-breaker window
+ */
+export function computeRate(
+  model: RateModelConfig,
+  currentRate: number,
+  volumes: FlowVolumes,
+  referenceRate: number
+): RateComputation {
+  const targetRate = computeTargetRate(model, currentRate, volumes);
+  let rate = targetRate;
+  let clampedBy: RateClamp = 'none';
+
+  const maxStep = currentRate * model.maxStepPercent / 100;
+  if (Math.abs(rate - currentRate) > maxStep) {
+    rate = currentRate + Math.sign(rate - currentRate) * maxStep;
+    clampedBy = 'step';
+  }
+
+  const bandLow = model.baseRate * (1 - model.bandPercent / 100);
+  const bandHigh = model.baseRate * (1 + model.bandPercent / 100);
+  if (rate < bandLow || rate > bandHigh) {
+    rate = Math.max(bandLow, Math.min(bandHigh, rate));
+    clampedBy = 'band';
+  }
+
+  // A move this large within the window freezes the rate instead of applying it
+  const windowMove = referenceRate > 0 ? Math.abs(rate - referenceRate) / referenceRate * 100 : 0;
+  const circuitBreakerTripped = windowMove > model.circuitBreaker.maxMovePercent;
+
+  return {
+    model: model.type,
+    previousRate: currentRate,
+    targetRate,
+    rate: circuitBreakerTripped ? currentRate : Math.round(rate * 10000) / 10000,
+    clampedBy,
+    circuitBreakerTripped,
+  };
+}
+
+/**
+ * Re-anchor a model on a manually set rate so the engine carries on from it
+ * instead of pulling the rate back to the old base or drift target
+ */
+export function anchorRateModel(model: RateModelConfig, rate: number): RateModelConfig {
+  return {
+    ...model,
+    baseRate: rate,
+    ...(model.type === 'bounded-drift' ? { targetRate: rate } : {}),
+  };
+}
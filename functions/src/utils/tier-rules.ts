@@ -0,0 +1,184 @@
+/**
+ * Tier rules
+ * Pure tier evaluation shared by the tier engine's triggers, callables and
+ * scheduled sweep. Rules are edited in admin/pxl-config and stored on
+ * pxl-currency/main as `tierConfig`.
+ */
+
+import { TIER_THRESHOLDS } from './pxl-calculations';
+
+export type TierName = keyof typeof TIER_THRESHOLDS;
+
+// Lowest to highest
+export const TIER_ORDER: TierName[] = ['starter', 'rising', 'pro', 'pixlbeast', 'pixlionaire'];
+
+export interface TierRule {
+  minBalance: number;
+  // PXL spent on giftcards over the last 90 days
+  minSpend90d: number;
+  minLifetimeEarned: number;
+  // 'any' qualifies on one met requirement, 'all' needs every non-zero one
+  match: 'any' | 'all';
+}
+
+export interface TierConfig {
+  // Days a user keeps a tier after dropping below it
+  graceDays: number;
+  rules: Record<TierName, TierRule>;
+}
+
+export interface TierMetrics {
+  balance: number;
+  spend90d: number;
+  lifetimeEarned: number;
+}
+
+export interface TierOverride {
+  tier: TierName;
+  // Milliseconds since epoch
+  expiresAt: number;
+  reason: string;
+  setBy: string;
+}
+
+export interface TierState {
+  current: TierName;
+  // Milliseconds since epoch the current tier is kept until, while in grace
+  graceUntil: number | null;
+  override: TierOverride | null;
+}
+
+export type TierChangeReason = 'qualified' | 'grace-expired' | 'override' | 'override-expired';
+
+export interface TierResolution {
+  tier: TierName;
+  qualifiedTier: TierName;
+  graceUntil: number | null;
+  override: TierOverride | null;
+  changed: boolean;
+  reason: TierChangeReason | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TIER_CONFIG: TierConfig = {
+  graceDays: 30,
+  rules: TIER_ORDER.reduce((rules, tier) => ({
+    ...rules,
+    [tier]: { minBalance: TIER_THRESHOLDS[tier], minSpend90d: 0, minLifetimeEarned: 0, match: 'any' },
+  }), {} as Record<TierName, TierRule>),
+};
+
+export function isTierName(value: unknown): value is TierName {
+  return TIER_ORDER.includes(value as TierName);
+}
+
+export function tierRank(tier: TierName): number {
+  return TIER_ORDER.indexOf(tier);
+}
+
+/**
+ * Stored config merged over the defaults, so partially edited configs still work
+ */
+export function resolveTierConfig(stored: Partial<TierConfig> | undefined): TierConfig {
+  const rules = { ...DEFAULT_TIER_CONFIG.rules };
+
+  for (const tier of TIER_ORDER) {
+    rules[tier] = { ...rules[tier], ...(stored?.rules?.[tier] || {}) };
+  }
+
+  return {
+    graceDays: typeof stored?.graceDays === 'number' && stored.graceDays >= 0 ? stored.graceDays : DEFAULT_TIER_CONFIG.graceDays,
+    rules,
+  };
+}
+
+function meetsRule(rule: TierRule, metrics: TierMetrics): boolean {
+  const checks = [
+    { required: rule.minBalance, actual: metrics.balance },
+    { required: rule.minSpend90d, actual: metrics.spend90d },
+    { required: rule.minLifetimeEarned, actual: metrics.lifetimeEarned },
+  ].filter(check => check.required > 0);
+
+  // A tier without requirements (starter) is always met
+  if (checks.length === 0) return true;
+
+  return rule.match === 'all'
+    ? checks.every(check => check.actual >= check.required)
+    : checks.some(check => check.actual >= check.required);
+}
+
+/**
+ * Highest tier whose rule the metrics meet
+ */
+export function evaluateTier(config: TierConfig, metrics: TierMetrics): TierName {
+  for (let i = TIER_ORDER.length - 1; i >= 0; i--) {
+    if (meetsRule(config.rules[TIER_ORDER[i]], metrics)) {
+      return TIER_ORDER[i];
+    }
+  }
+  return 'starter';
+}
+
+/**
+ * Balance needed for the tier above the given one, or null at the top
+ */
+export function nextTierBalance(config: TierConfig, tier: TierName): number | null {
+  const next = TIER_ORDER[tierRank(tier) + 1];
+  return next ? config.rules[next].minBalance : null;
+}
+
+/**
+ * Decide a user's tier from their metrics, grace period and override
+ * Upgrades apply at once; downgrades wait out the grace period first
+ */
+export function resolveTier(
+  config: TierConfig,
+  state: TierState,
+  metrics: TierMetrics,
+  now: number
+): TierResolution {
+  const qualifiedTier = evaluateTier(config, metrics);
+  const activeOverride = state.override && state.override.expiresAt > now ? state.override : null;
+
+  if (activeOverride) {
+    return {
+      tier: activeOverride.tier,
+      qualifiedTier,
+      graceUntil: null,
+      override: activeOverride,
+      changed: activeOverride.tier !== state.current,
+      reason: activeOverride.tier !== state.current ? 'override' : null,
+    };
+  }
+
+  const overrideExpired = !!state.override;
+
+  if (tierRank(qualifiedTier) >= tierRank(state.current)) {
+    const changed = qualifiedTier !== state.current;
+    return {
+      tier: qualifiedTier,
+      qualifiedTier,
+      graceUntil: null,
+      override: null,
+      changed,
+      reason: changed ? (overrideExpired ? 'override-expired' : 'qualified') : null,
+    };
+  }
+
+  // Below the current tier: start or continue the grace period
+  const graceUntil = state.graceUntil ?? now + config.graceDays * DAY_MS;
+
+  if (graceUntil > now) {
+    return { tier: state.current, qualifiedTier, graceUntil, override: null, changed: false, reason: null };
+  }
+
+  return {
+    tier: qualifiedTier,
+    qualifiedTier,
+    graceUntil: null,
+    override: null,
+    changed: true,
+    reason: overrideExpired && state.graceUntil === null ? 'override-expired' : 'grace-expired',
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Minimal XLSX reader
+ * Reads the cell text of the first worksheet of a workbook. An XLSX file is a
+ * zip of XML parts, so this walks the zip's central directory, inflates the
+ * parts it needs and reads cells from the sheet XML. Formatting, formulas and
+ * other sheets are ignored; numeric cells (including dates) come back as the
+ * number's text.
+ */
+
+import * as zlib from 'zlib';
+
+export class XlsxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxError';
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Inflate every entry of a zip archive, keyed by path
+ */
+function readZip(buffer: Buffer): Map<string, () => Buffer> {
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new XlsxError('Not an XLSX file');
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new XlsxError('Corrupt XLSX file');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new XlsxError('Corrupt XLSX file');
+      }
+      const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return zlib.inflateRawSync(data);
+      throw new XlsxError('Unsupported XLSX compression');
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readPart(entries: Map<string, () => Buffer>, path: string): string | null {
+  const entry = entries.get(path);
+  return entry ? entry().toString('utf8') : null;
+}
+
+// Text of a shared string or inline string, joining rich-text runs
+function runText(xml: string): string {
+  const runs = xml.match(/<t(?:\s[^>]*)?>[\s\S]*?<\/t>/g) || [];
+  return runs.map(run => decodeXml(run.replace(/^<t(?:\s[^>]*)?>/, '').replace(/<\/t>$/, ''))).join('');
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function firstSheetPath(entries: Map<string, () => Buffer>): string {
+  const workbook = readPart(entries, 'xl/workbook.xml');
+  const relations = readPart(entries, 'xl/_rels/workbook.xml.rels');
+  const sheetId = workbook && /<sheet\s[^>]*r:id="([^"]+)"/.exec(workbook)?.[1];
+
+  if (sheetId && relations) {
+    const relation = new RegExp(`<Relationship\\s[^>]*Id="${sheetId}"[^>]*>`).exec(relations)?.[0];
+    const target = relation && /Target="([^"]+)"/.exec(relation)?.[1];
+    if (target) {
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+}
+
+/**
+ * Rows of the first worksheet as cell text, in sheet order
+ * Empty rows are skipped; each row is paired with its 1-based sheet row number.
+ */
+export function readXlsxRows(buffer: Buffer): Array<{ row: number; cells: string[] }> {
+  const entries = readZip(buffer);
+  const sheet = readPart(entries, firstSheetPath(entries));
+  if (!sheet) {
+    throw new XlsxError('XLSX file has no worksheet');
+  }
+
+  const sharedXml = readPart(entries, 'xl/sharedStrings.xml') || '';
+  const shared = (sharedXml.match(/<si>[\s\S]*?<\/si>/g) || []).map(runText);
+
+  const rows: Array<{ row: number; cells: string[] }> = [];
+  const rowPattern = /<row\s([^>]*)>([\s\S]*?)<\/row>/g;
+  let rowMatch: RegExpExecArray | null;
+
+  while ((rowMatch = rowPattern.exec(sheet)) !== null) {
+    const rowNumber = Number(/r="(\d+)"/.exec(rowMatch[1])?.[1]) || rows.length + 1;
+    const cells: string[] = [];
+    const cellPattern = /<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+    let cellMatch: RegExpExecArray | null;
+
+    while ((cellMatch = cellPattern.exec(rowMatch[2])) !== null) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const reference = /r="([A-Z]+\d+)"/i.exec(attributes)?.[1];
+      const type = /t="([^"]+)"/.exec(attributes)?.[1];
+      const value = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let text = '';
+      if (type === 's' && value !== undefined) {
+        text = shared[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = runText(body);
+      } else if (type === 'b') {
+        text = value === '1' ? 'true' : 'false';
+      } else if (value !== undefined) {
+        text = decodeXml(value);
+      }
+
+      cells[reference ? columnIndex(reference) : cells.length] = text;
+    }
+
+    const filled = Array.from(cells, cell => cell ?? '');
+    if (filled.some(cell => cell.trim())) {
+      rows.push({ row: rowNumber, cells: filled });
+    }
+  }
+
+  return rows;
+}
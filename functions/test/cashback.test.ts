@@ -0,0 +1,188 @@
+import type { firestore } from 'firebase-admin';
+import { runTransaction, store, FakeTimestamp, FakeTransaction } from './fake-firestore';
+import {
+  cashbackAccrualEntry,
+  cashbackHoldDays,
+  clawbackOrderCashback,
+  recordCashbackAccrual,
+  vestCashback,
+  CashbackAccrualInput,
+  CASHBACK_ACCRUALS,
+} from '../src/cashback';
+import { postJournalEntries, userAccountId, SYSTEM_ACCOUNTS } from '../src/utils/ledger';
+
+jest.mock('firebase-admin', () => require('./fake-firestore').fakeAdmin);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const asTransaction = (transaction: FakeTransaction) => transaction as unknown as firestore.Transaction;
+
+const accrualInput = (holdDays: number, orderId = 'ord_1'): CashbackAccrualInput => ({
+  userId: 'alice',
+  amount: 5,
+  tier: 'pro',
+  holdDays,
+  sourceKey: orderId,
+  orderId,
+  relatedTransactionId: 'tx_purchase',
+  exchangeRate: 100,
+});
+
+// Accrue cashback the way order creation does
+const accrue = (input: CashbackAccrualInput) => runTransaction(async (transaction) => {
+  await postJournalEntries(asTransaction(transaction), [cashbackAccrualEntry(input)]);
+  return recordCashbackAccrual(asTransaction(transaction), input,
+    FakeTimestamp.now() as unknown as firestore.Timestamp);
+});
+
+const spend = (amount: number) => runTransaction((transaction) => postJournalEntries(asTransaction(transaction), [{
+  type: 'giftcard-purchase',
+  idempotencyKey: `spend:${amount}`,
+  legs: [
+    { accountId: userAccountId('alice'), direction: 'debit', amount },
+    { accountId: SYSTEM_ACCOUNTS.giftcardSales, direction: 'credit', amount },
+  ],
+}]));
+
+const vest = () => vestCashback.run({}, {});
+
+const wallet = () => (store.get('users/alice')!.wallets as { pxl: Record<string, number> }).pxl;
+const accrual = (accrualId: string) => store.get(`${CASHBACK_ACCRUALS}/${accrualId}`)!;
+
+beforeEach(() => {
+  store.clear();
+  store.set('users/alice', { wallets: { pxl: { balance: 0 } } });
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('cashbackHoldDays', () => {
+  it('uses the hold period configured for the tier', () => {
+    expect(cashbackHoldDays({ cashbackHoldDays: { pro: 10 } }, 'pro')).toBe(10);
+    expect(cashbackHoldDays({ cashbackHoldDays: { pro: 0 } }, 'pro')).toBe(0);
+  });
+
+  it('falls back to the default for the tier, then to the starter default', () => {
+    expect(cashbackHoldDays(undefined, 'pro')).toBe(14);
+    expect(cashbackHoldDays({ cashbackHoldDays: { pro: -1 } }, 'pro')).toBe(14);
+    expect(cashbackHoldDays({}, 'legendary')).toBe(30);
+  });
+});
+
+describe('cashbackAccrualEntry', () => {
+  it('moves the cashback into the pending account, once per user and source', () => {
+    const entry = cashbackAccrualEntry(accrualInput(14));
+
+    expect(entry.idempotencyKey).toBe('cashback:alice:ord_1');
+    expect(entry.legs).toEqual([
+      { accountId: SYSTEM_ACCOUNTS.cashback, direction: 'debit', amount: 5 },
+      { accountId: SYSTEM_ACCOUNTS.cashbackPending, direction: 'credit', amount: 5 },
+    ]);
+  });
+});
+
+describe('recordCashbackAccrual', () => {
+  it('records a pending accrual that vests after the hold period', async () => {
+    const before = Date.now();
+    const accrualId = await accrue(accrualInput(14));
+
+    expect(accrual(accrualId)).toMatchObject({ userId: 'alice', amount: 5, status: 'pending', orderId: 'ord_1' });
+    expect((accrual(accrualId).vestsAt as FakeTimestamp).toMillis()).toBeGreaterThanOrEqual(before + 14 * DAY_MS);
+    expect(wallet()).toMatchObject({ balance: 0, pendingCashback: 5 });
+  });
+});
+
+describe('vestCashback', () => {
+  it('moves cashback whose hold period is over into the wallet', async () => {
+    const accrualId = await accrue(accrualInput(0));
+
+    await vest();
+
+    expect(accrual(accrualId).status).toBe('vested');
+    expect(wallet()).toMatchObject({ balance: 5, pendingCashback: 0, vestedCashback: 5 });
+    expect(store.get(`transactions/${accrual(accrualId).transactionId}`)!.status).toBe('completed');
+  });
+
+  it('leaves cashback that is still on hold', async () => {
+    const accrualId = await accrue(accrualInput(7));
+
+    await vest();
+
+    expect(accrual(accrualId).status).toBe('pending');
+    expect(wallet()).toMatchObject({ balance: 0, pendingCashback: 5 });
+  });
+
+  it('vests each accrual once', async () => {
+    await accrue(accrualInput(0));
+
+    await vest();
+    await vest();
+
+    expect(wallet().balance).toBe(5);
+  });
+});
+
+describe('clawbackOrderCashback', () => {
+  it('cancels pending cashback without touching the balance', async () => {
+    const accrualId = await accrue(accrualInput(14));
+
+    await expect(clawbackOrderCashback('ord_1', 'refunded')).resolves.toBe(5);
+
+    expect(accrual(accrualId)).toMatchObject({ status: 'clawed-back', recovered: 5, shortfall: 0 });
+    expect(wallet()).toMatchObject({ balance: 0, pendingCashback: 0 });
+  });
+
+  it('recovers vested cashback from the wallet', async () => {
+    const accrualId = await accrue(accrualInput(0));
+    await vest();
+
+    await clawbackOrderCashback('ord_1', 'charged-back');
+
+    expect(accrual(accrualId)).toMatchObject({ status: 'clawed-back', recovered: 5, shortfall: 0 });
+    expect(wallet()).toMatchObject({ balance: 0, vestedCashback: 0 });
+  });
+
+  it('records a shortfall when the cashback was already spent', async () => {
+    const accrualId = await accrue(accrualInput(0));
+    await vest();
+    await spend(3);
+
+    await clawbackOrderCashback('ord_1', 'refunded');
+
+    expect(accrual(accrualId)).toMatchObject({ recovered: 2, shortfall: 3 });
+    expect(wallet().balance).toBe(0);
+
+    const clawbacks = Array.from(store.entries())
+      .filter(([path, data]) => path.startsWith('transactions/') && data.type === 'cashback-clawback');
+    expect(clawbacks).toHaveLength(1);
+    expect(clawbacks[0][1].amounts).toEqual({ pxl: -2, usd: 0 });
+  });
+
+  it('claws back each accrual once', async () => {
+    await accrue(accrualInput(14));
+
+    await clawbackOrderCashback('ord_1', 'refunded');
+    await expect(clawbackOrderCashback('ord_1', 'refunded')).resolves.toBe(0);
+  });
+
+  it('only claws back cashback earned on the order', async () => {
+    const otherId = await accrue(accrualInput(14, 'ord_2'));
+
+    await expect(clawbackOrderCashback('ord_1', 'refunded')).resolves.toBe(0);
+    expect(accrual(otherId).status).toBe('pending');
+  });
+
+  it('tells the user their cashback was reversed', async () => {
+    await accrue(accrualInput(14));
+
+    await clawbackOrderCashback('ord_1', 'refunded');
+
+    const notifications = Array.from(store.entries()).filter(([path]) => path.startsWith('user-notifications/'));
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0][1]).toMatchObject({ userId: 'alice', type: 'cashback-clawback' });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * In-memory stand-in for the parts of firebase-admin's Firestore the
+ * functions use, so transactional helpers can be tested without the emulator.
+ * Use it with jest.mock('firebase-admin', () => require('../fake-firestore').fakeAdmin).
+ */
+
+type Data = Record<string, unknown>;
+
+export interface FakeRef {
+  id: string;
+  path: string;
+}
+
+// Documents by path
+export const store = new Map<string, Data>();
+
+export class FakeTimestamp {
+  constructor(private readonly ms: number) {}
+
+  static now(): FakeTimestamp {
+    return new FakeTimestamp(Date.now());
+  }
+
+  static fromMillis(ms: number): FakeTimestamp {
+    return new FakeTimestamp(ms);
+  }
+
+  toMillis(): number {
+    return this.ms;
+  }
+
+  toDate(): Date {
+    return new Date(this.ms);
+  }
+}
+
+export class FakeIncrement {
+  constructor(readonly by: number) {}
+}
+
+export class FakeDelete {}
+
+let nextId = 0;
+
+function ref(path: string): FakeRef {
+  return { id: path.split('/').pop()!, path };
+}
+
+function snapshot(docRef: FakeRef) {
+  const data = store.get(docRef.path);
+  return {
+    id: docRef.id,
+    ref: docRef,
+    exists: data !== undefined,
+    data: () => (data === undefined ? undefined : { ...data }),
+    get: (field: string) => data?.[field],
+  };
+}
+
+// Timestamps compare by their millisecond value
+function comparable(value: unknown): unknown {
+  return value instanceof FakeTimestamp ? value.toMillis() : value;
+}
+
+type Query = ReturnType<typeof query>;
+
+type Filter = { field: string; op: '==' | '<=' | '<' | '>=' | '>'; value: unknown };
+
+function matches(data: Data, { field, op, value }: Filter): boolean {
+  const actual = comparable(data[field]) as number;
+  const expected = comparable(value) as number;
+  switch (op) {
+    case '==': return actual === expected;
+    case '<=': return actual <= expected;
+    case '<': return actual < expected;
+    case '>=': return actual >= expected;
+    case '>': return actual > expected;
+  }
+}
+
+/**
+ * Queries support where() on top-level fields, orderBy() and limit()
+ */
+function query(name: string, filters: Filter[] = [], order: string | null = null, max = Infinity) {
+  return {
+    where: (field: string, op: Filter['op'], value: unknown) =>
+      query(name, [...filters, { field, op, value }], order, max),
+    orderBy: (field: string) => query(name, filters, field, max),
+    limit: (count: number) => query(name, filters, order, count),
+    get: async () => {
+      const docs = Array.from(store.entries())
+        .filter(([path, data]) => path.startsWith(`${name}/`) && !path.slice(name.length + 1).includes('/')
+          && filters.every((filter) => matches(data, filter)))
+        .sort(([, a], [, b]) => (order === null ? 0 : (comparable(a[order]) as number) - (comparable(b[order]) as number)))
+        .slice(0, max)
+        .map(([path]) => snapshot(ref(path)));
+      return { docs, size: docs.length, empty: docs.length === 0 };
+    },
+  };
+}
+
+const db = {
+  collection: (name: string) => ({
+    ...query(name),
+    doc: (id: string = `auto${++nextId}`) => ref(`${name}/${id}`),
+    add: async (data: Data) => {
+      const docRef = ref(`${name}/auto${++nextId}`);
+      store.set(docRef.path, { ...data });
+      return docRef;
+    },
+  }),
+  doc: (path: string) => ref(path),
+  runTransaction: <T>(fn: (transaction: FakeTransaction) => Promise<T>) => runTransaction(fn),
+};
+
+// Apply an update() field path such as 'wallets.pxl.balance'
+function setField(target: Data, fieldPath: string, value: unknown): void {
+  const keys = fieldPath.split('.');
+  const last = keys[keys.length - 1];
+  let node = target;
+  keys.slice(0, -1).forEach((key) => {
+    if (typeof node[key] !== 'object' || node[key] === null) {
+      node[key] = {};
+    }
+    node = node[key] as Data;
+  });
+  if (value instanceof FakeDelete) {
+    delete node[last];
+    return;
+  }
+  node[last] = value instanceof FakeIncrement
+    ? (typeof node[last] === 'number' ? node[last] as number : 0) + value.by
+    : value;
+}
+
+/**
+ * Reads see the store as it was when the transaction started; writes land on commit
+ */
+export class FakeTransaction {
+  private writes: Array<() => void> = [];
+
+  async get(target: FakeRef): Promise<ReturnType<typeof snapshot>>;
+  async get(target: Query): ReturnType<Query['get']>;
+  async get(target: FakeRef | Query) {
+    return 'get' in target ? target.get() : snapshot(target);
+  }
+
+  set(docRef: FakeRef, data: Data, options?: { merge?: boolean }): this {
+    this.writes.push(() => {
+      store.set(docRef.path, options?.merge ? { ...(store.get(docRef.path) || {}), ...data } : { ...data });
+    });
+    return this;
+  }
+
+  update(docRef: FakeRef, data: Data): this {
+    this.writes.push(() => {
+      const existing = store.get(docRef.path);
+      if (!existing) {
+        throw new Error(`No document to update: ${docRef.path}`);
+      }
+      Object.entries(data).forEach(([fieldPath, value]) => setField(existing, fieldPath, value));
+    });
+    return this;
+  }
+
+  delete(docRef: FakeRef): this {
+    this.writes.push(() => store.delete(docRef.path));
+    return this;
+  }
+
+  commit(): void {
+    this.writes.forEach((write) => write());
+  }
+}
+
+/**
+ * Run a function in a transaction and commit its writes if it succeeds
+ */
+export async function runTransaction<T>(fn: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+  const transaction = new FakeTransaction();
+  const result = await fn(transaction);
+  transaction.commit();
+  return result;
+}
+
+export const fakeAdmin = {
+  apps: [{}],
+  initializeApp: () => undefined,
+  firestore: Object.assign(() => db, {
+    Timestamp: FakeTimestamp,
+    FieldValue: {
+      increment: (by: number) => new FakeIncrement(by),
+      delete: () => new FakeDelete(),
+    },
+  }),
+};
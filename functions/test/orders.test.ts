@@ -0,0 +1,108 @@
+import { store, FakeTimestamp } from './fake-firestore';
+import { fulfilOrder, releaseExpiredReservations, releaseOrder } from '../src/orders';
+import { GIFTCARD_VAULT } from '../src/giftcard-vault';
+
+jest.mock('firebase-admin', () => require('./fake-firestore').fakeAdmin);
+
+const MINUTE_MS = 60 * 1000;
+const payment = { provider: 'stripe', paymentId: 'pi_1' };
+
+const serial = (id: string) => store.get(`${GIFTCARD_VAULT}/${id}`)!;
+const order = () => store.get('orders/ord_1')!;
+const stock = () => (store.get('products/steam')!.denominations as Array<{ stock: number }>)[0].stock;
+const paymentRecords = () => Array.from(store.keys()).filter((path) => path.startsWith('order-payments/'));
+
+const seedSerial = (id: string, fields: Record<string, unknown> = {}) => store.set(`${GIFTCARD_VAULT}/${id}`, {
+  productId: 'steam',
+  denomination: 50,
+  status: 'available',
+  hint: `••••${id}`,
+  ...fields,
+});
+
+// A checkout for two $50 codes whose reservation lapsed a minute ago
+beforeEach(() => {
+  store.clear();
+  const reservedUntil = FakeTimestamp.fromMillis(Date.now() - MINUTE_MS);
+
+  store.set('products/steam', { denominations: [{ value: 50, stock: 1 }], totalSold: 0 });
+  store.set('orders/ord_1', {
+    userId: 'alice',
+    items: [{ productId: 'steam', denomination: 50, quantity: 2, codeRefs: [] }],
+    payment: { method: 'stripe', amount: 100, currency: 'USD' },
+    status: 'pending-payment',
+    reservedUntil,
+  });
+  store.set('order-reservations/ord_1', { lines: [{ productId: 'steam', denomination: 50, serialIds: ['S1', 'S2'] }] });
+  seedSerial('S1', { status: 'reserved', orderId: 'ord_1', reservedUntil });
+  seedSerial('S2', { status: 'reserved', orderId: 'ord_1', reservedUntil });
+  seedSerial('S3');
+});
+
+describe('fulfilOrder', () => {
+  it('sells the codes a pending order holds', async () => {
+    await expect(fulfilOrder('ord_1', payment)).resolves.toEqual({ status: 'completed', duplicate: false });
+
+    expect(order().items).toEqual([expect.objectContaining({
+      codeRefs: [{ serialId: 'S1', hint: '••••S1' }, { serialId: 'S2', hint: '••••S2' }],
+    })]);
+    expect([serial('S1').status, serial('S2').status, serial('S3').status]).toEqual(['sold', 'sold', 'available']);
+    expect(stock()).toBe(1);
+    expect(store.has('order-reservations/ord_1')).toBe(false);
+  });
+
+  it('fills a payment that clears after the order expired from stock', async () => {
+    await releaseExpiredReservations.run({}, {});
+    expect(order().status).toBe('expired');
+    expect(stock()).toBe(3);
+
+    await expect(fulfilOrder('ord_1', payment)).resolves.toEqual({ status: 'completed', duplicate: false });
+
+    expect(order()).toMatchObject({ status: 'completed', payment: { paymentId: 'pi_1' } });
+    expect(order()).not.toHaveProperty('statusReason');
+    expect((order().items as Array<{ codeRefs: unknown[] }>)[0].codeRefs).toHaveLength(2);
+    expect(stock()).toBe(1);
+    expect(store.get('products/steam')!.totalSold).toBe(2);
+    expect(paymentRecords()).toHaveLength(1);
+  });
+
+  it('leaves a late payment refund-due when the codes sold out after the order expired', async () => {
+    await releaseOrder('ord_1', 'expired', 'Payment was not completed in time');
+    seedSerial('S1', { status: 'sold', orderId: 'ord_2' });
+    seedSerial('S2', { status: 'sold', orderId: 'ord_2' });
+
+    await expect(fulfilOrder('ord_1', payment)).resolves.toEqual({ status: 'refund-due', duplicate: false });
+
+    expect(order()).toMatchObject({ status: 'refund-due', statusReason: 'Codes sold out before the payment completed' });
+    expect(serial('S3').status).toBe('available');
+    expect(paymentRecords()).toHaveLength(1);
+    expect(Array.from(store.values()).some((doc) => doc.type === 'order-refund-due' && doc.userId === 'alice')).toBe(true);
+  });
+
+  it('settles a payment that raced a cancellation instead of failing', async () => {
+    await releaseOrder('ord_1', 'cancelled', 'Cancelled by user');
+    seedSerial('S3', { status: 'sold', orderId: 'ord_2' });
+
+    await expect(fulfilOrder('ord_1', payment)).resolves.toEqual({ status: 'completed', duplicate: false });
+    expect([serial('S1').status, serial('S2').status]).toEqual(['sold', 'sold']);
+    expect(serial('S1').orderId).toBe('ord_1');
+    expect(paymentRecords()).toHaveLength(1);
+  });
+
+  it('treats a replayed payment as a duplicate', async () => {
+    await releaseOrder('ord_1', 'cancelled', 'Cancelled by user');
+    await fulfilOrder('ord_1', payment);
+    const settled = { ...order() };
+
+    await expect(fulfilOrder('ord_1', payment)).resolves.toEqual({ status: 'completed', duplicate: true });
+    expect(order()).toEqual(settled);
+    expect(paymentRecords()).toHaveLength(1);
+  });
+
+  it('still refuses orders in any other state', async () => {
+    store.set('orders/ord_1', { ...order(), status: 'refunded' });
+
+    await expect(fulfilOrder('ord_1', payment)).rejects.toThrow('Order is refunded');
+    expect(paymentRecords()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,67 @@
+import type * as functions from 'firebase-functions';
+import {
+  adminRoleOf,
+  hasPermission,
+  isAdminRole,
+  requirePermission,
+  ADMIN_ROLES,
+  ROLE_PERMISSIONS,
+} from '../../src/utils/admin-roles';
+
+const context = (adminRole?: unknown, uid = 'admin_1') => ({
+  auth: { uid, token: adminRole === undefined ? {} : { adminRole } },
+}) as unknown as functions.https.CallableContext;
+
+const anonymous = {} as functions.https.CallableContext;
+
+describe('isAdminRole and adminRoleOf', () => {
+  it('accepts only the known roles', () => {
+    ADMIN_ROLES.forEach((role) => expect(isAdminRole(role)).toBe(true));
+    expect(isAdminRole('admin')).toBe(false);
+    expect(isAdminRole(undefined)).toBe(false);
+  });
+
+  it('reads the role from the token claims', () => {
+    expect(adminRoleOf(context('finance'))).toBe('finance');
+    expect(adminRoleOf(context('root'))).toBeNull();
+    expect(adminRoleOf(context())).toBeNull();
+    expect(adminRoleOf(anonymous)).toBeNull();
+  });
+});
+
+describe('hasPermission', () => {
+  it('grants what the role lists', () => {
+    expect(hasPermission(context('finance'), 'finance:write')).toBe(true);
+    expect(hasPermission(context('catalog-manager'), 'finance:write')).toBe(false);
+  });
+
+  it('keeps auditors read-only', () => {
+    expect(ROLE_PERMISSIONS.auditor.every((permission) => permission.endsWith(':read'))).toBe(true);
+  });
+
+  it('reserves role management and code reveals for super admins', () => {
+    const holders = (permission: string) => ADMIN_ROLES.filter((role) =>
+      (ROLE_PERMISSIONS[role] as string[]).includes(permission));
+
+    expect(holders('roles:manage')).toEqual(['super-admin']);
+    expect(holders('giftcard-codes:reveal')).toEqual(['super-admin']);
+  });
+});
+
+describe('requirePermission', () => {
+  it('returns the admin\'s user ID when the role grants the permission', () => {
+    expect(requirePermission(context('support-agent', 'agent_7'), 'support:write')).toBe('agent_7');
+  });
+
+  it('rejects unauthenticated callers', () => {
+    expect(() => requirePermission(anonymous, 'orders:read')).toThrow(expect.objectContaining({ code: 'unauthenticated' }));
+  });
+
+  it('rejects users without an admin role', () => {
+    expect(() => requirePermission(context(), 'orders:read')).toThrow('User is not an admin');
+  });
+
+  it('rejects admins whose role lacks the permission', () => {
+    expect(() => requirePermission(context('auditor'), 'orders:write')).toThrow('Missing permission orders:write');
+  });
+});
@@ -0,0 +1,43 @@
+import { approvalAuditFields, changedSinceProposal, DiffLine } from '../../src/utils/approvals';
+
+const proposed: DiffLine[] = [
+  { field: 'baseRate', from: 100, to: 102 },
+  { field: 'targetRate', from: null, to: 104 },
+];
+
+describe('changedSinceProposal', () => {
+  it('is false while the live values match the proposal', () => {
+    expect(changedSinceProposal(proposed, proposed.map((line) => ({ ...line })))).toBe(false);
+  });
+
+  it('only compares the live values, not the proposed ones', () => {
+    expect(changedSinceProposal(proposed, [{ ...proposed[0], to: 999 }, proposed[1]])).toBe(false);
+  });
+
+  it('is true when a live value moved', () => {
+    expect(changedSinceProposal(proposed, [{ ...proposed[0], from: 101 }, proposed[1]])).toBe(true);
+    expect(changedSinceProposal(proposed, [proposed[0], { ...proposed[1], from: 104 }])).toBe(true);
+  });
+
+  it('tells a missing value apart from zero', () => {
+    const balance: DiffLine[] = [{ field: 'wallets.pxl.balance', from: 0, to: 50 }];
+
+    expect(changedSinceProposal(balance, [{ ...balance[0], from: null }])).toBe(true);
+  });
+
+  it('is true when lines were added, removed or reordered', () => {
+    expect(changedSinceProposal(proposed, proposed.slice(0, 1))).toBe(true);
+    expect(changedSinceProposal(proposed.slice(0, 1), proposed)).toBe(true);
+    expect(changedSinceProposal(proposed, [...proposed].reverse())).toBe(true);
+  });
+});
+
+describe('approvalAuditFields', () => {
+  it('attributes the applied change to the approver and keeps the proposer', () => {
+    expect(approvalAuditFields({ approvalId: 'apr_1', proposedBy: 'maker', approvedBy: 'checker' })).toEqual({
+      adminId: 'checker',
+      proposedBy: 'maker',
+      approvalId: 'apr_1',
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  chunkImportProducts,
+  csvRecordReader,
+  expandSerialRange,
+  importFormatOf,
+  parseDenominations,
+  readImportHeader,
+  recordFromCells,
+  validateImportRecord,
+  ImportCollector,
+  ImportProduct,
+} from '../../src/utils/catalog-import';
+
+const record = (overrides: Record<string, unknown> = {}) => ({
+  brand: 'Steam',
+  name: 'Steam Wallet',
+  category: 'gaming',
+  denominations: '50:2:STM001-STM002',
+  ...overrides,
+});
+
+// Read CSV text the way the import job streams it, line by line
+const readCsv = (text: string) => {
+  const records: Array<[number, string[]]> = [];
+  const reader = csvRecordReader((row, cells) => records.push([row, cells]));
+  text.split('\n').forEach((line) => reader.line(line));
+  reader.end();
+  return records;
+};
+
+beforeEach(() => {
+  process.env.GIFTCARD_VAULT_KEK = Buffer.alloc(32, 'test-vault-key').toString('base64');
+});
+
+afterEach(() => {
+  delete process.env.GIFTCARD_VAULT_KEK;
+});
+
+describe('importFormatOf', () => {
+  it('reads the format from the file extension', () => {
+    expect(importFormatOf('catalog.CSV')).toBe('csv');
+    expect(importFormatOf('catalog.v2.xlsx')).toBe('xlsx');
+    expect(importFormatOf('catalog.xls')).toBeNull();
+  });
+});
+
+describe('expandSerialRange', () => {
+  it('expands a range, keeping the zero padding', () => {
+    expect(expandSerialRange('AMZN10XXX009-AMZN10XXX011')).toEqual(['AMZN10XXX009', 'AMZN10XXX010', 'AMZN10XXX011']);
+  });
+
+  it('takes anything that is not a range as a single serial', () => {
+    expect(expandSerialRange(' ABCD-EFGH-1234 ')).toEqual(['ABCD-EFGH-1234']);
+    expect(expandSerialRange('')).toEqual([]);
+  });
+
+  it('refuses ranges with different prefixes, reversed ends or too many serials', () => {
+    expect(() => expandSerialRange('AAA1-BBB5')).toThrow('starts and ends with different prefixes');
+    expect(() => expandSerialRange('AAA5-AAA1')).toThrow('ends before it starts');
+    expect(() => expandSerialRange('A00001-A20000')).toThrow('longer than 10000 serials');
+  });
+});
+
+describe('parseDenominations', () => {
+  it('parses the CSV form with ranges and single serials', () => {
+    expect(parseDenominations('25:3:C01-C02;X9|50:1:D1')).toEqual([
+      { value: 25, codes: ['C01', 'C02', 'X9'] },
+      { value: 50, codes: ['D1'] },
+    ]);
+  });
+
+  it('parses the JSON form with codes or a serial range', () => {
+    expect(parseDenominations([{ value: 10, codes: ['A', 'B'] }, { value: 20, serialRange: 'R1-R2', quantity: 2 }]))
+      .toEqual([{ value: 10, codes: ['A', 'B'] }, { value: 20, codes: ['R1', 'R2'] }]);
+  });
+
+  it('checks the quantity against the serials', () => {
+    expect(() => parseDenominations('25:3:C01-C02')).toThrow('$25 lists 2 serials but its quantity is 3');
+  });
+
+  it('refuses repeated and invalid values, and empty lists', () => {
+    expect(() => parseDenominations('25:1:A|25:1:B')).toThrow('$25 is listed more than once');
+    expect(() => parseDenominations('-5:1:A')).toThrow('Invalid denomination value -5');
+    expect(() => parseDenominations('')).toThrow('At least one denomination is required');
+    expect(() => parseDenominations([null])).toThrow('Invalid denomination value undefined');
+  });
+});
+
+describe('validateImportRecord', () => {
+  it('builds a product with defaults for optional fields', () => {
+    const { product, errors } = validateImportRecord(2, record());
+
+    expect(errors).toEqual([]);
+    expect(product).toMatchObject({
+      row: 2,
+      brand: 'Steam',
+      status: 'active',
+      featured: false,
+      totalSold: 0,
+      createdAt: null,
+      supplierId: null,
+    });
+  });
+
+  it('reads spreadsheet day numbers as dates', () => {
+    const { product } = validateImportRecord(2, record({ createdAt: '45292' }));
+
+    expect(new Date(product!.createdAt!).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('reports every problem in the row', () => {
+    const { product, errors } = validateImportRecord(7, record({
+      brand: '',
+      category: 'weapons',
+      featured: 'maybe',
+      totalSold: '-1',
+      denominations: '',
+    }));
+
+    expect(product).toBeNull();
+    expect(errors.map((error) => error.field)).toEqual(['brand', 'category', 'featured', 'totalSold', 'denominations']);
+    expect(errors.every((error) => error.row === 7)).toBe(true);
+  });
+});
+
+describe('readImportHeader and recordFromCells', () => {
+  it('matches columns case-insensitively and reports unknown ones', () => {
+    const { columns, errors, complete } = readImportHeader(['Brand', 'NAME', 'category', 'denominations', 'price']);
+
+    expect(columns).toEqual(['brand', 'name', 'category', 'denominations', null]);
+    expect(errors).toEqual([{ row: 1, field: 'price', message: 'Unknown column price' }]);
+    expect(complete).toBe(true);
+    expect(recordFromCells(columns, ['Steam', 'Wallet', 'gaming', '50:1:A', '9.99']))
+      .toEqual({ brand: 'Steam', name: 'Wallet', category: 'gaming', denominations: '50:1:A' });
+  });
+
+  it('is incomplete when a required column is missing', () => {
+    const { errors, complete } = readImportHeader(['brand', 'name', 'category']);
+
+    expect(complete).toBe(false);
+    expect(errors).toEqual([{ row: 1, field: 'denominations', message: 'Missing column denominations' }]);
+  });
+});
+
+describe('csvRecordReader', () => {
+  it('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    expect(readCsv('\uFEFFbrand,description\r\nSteam,"Games, ""and"" more\nfor PC"\n\nXbox,plain')).toEqual([
+      [1, ['brand', 'description']],
+      [2, ['Steam', 'Games, "and" more\nfor PC']],
+      [5, ['Xbox', 'plain']],
+    ]);
+  });
+
+  it('passes on a record left open at the end of the file', () => {
+    expect(readCsv('Steam,"unterminated')).toEqual([[1, ['Steam', 'unterminated']]]);
+  });
+});
+
+describe('ImportCollector', () => {
+  it('collects valid products and counts their serials', () => {
+    const collector = new ImportCollector();
+    collector.addRecord(2, record());
+    collector.addRecord(3, record({ brand: 'Xbox', name: 'Xbox Card', denominations: '25:1:XB1' }));
+
+    expect(collector.summary()).toEqual({ rows: 2, products: 2, codes: 3 });
+    expect(collector.errors).toEqual([]);
+  });
+
+  it('reports products listed twice', () => {
+    const collector = new ImportCollector();
+    collector.addRecord(2, record());
+    collector.addRecord(3, record({ brand: ' steam ', denominations: '25:1:OTHER1' }));
+
+    expect(collector.products).toHaveLength(1);
+    expect(collector.errors).toEqual([{ row: 3, field: 'name', message: 'steam - Steam Wallet is also on row 2' }]);
+  });
+
+  it('reports serials repeated across rows, whatever their formatting', () => {
+    const collector = new ImportCollector();
+    collector.addRecord(2, record());
+    collector.addRecord(3, record({ name: 'Steam Card', denominations: '25:1:stm-002' }));
+
+    expect(collector.products).toHaveLength(1);
+    expect(collector.errors).toEqual([
+      { row: 3, field: 'denominations', message: 'Serial ••••M002 is also on row 2' },
+    ]);
+  });
+});
+
+describe('chunkImportProducts', () => {
+  const product = (codes: number): ImportProduct => ({
+    ...validateImportRecord(2, record()).product!,
+    denominations: [{ value: 10, codes: Array.from({ length: codes }, (_, i) => `C${i}`) }],
+  });
+
+  it('keeps each chunk within the size', () => {
+    const chunks = chunkImportProducts([product(5), product(3)], 4);
+
+    chunks.forEach((chunk) => expect(chunk.serials.length + chunk.products.length).toBeLessThanOrEqual(4));
+    expect(chunks.reduce((sum, chunk) => sum + chunk.serials.length, 0)).toBe(8);
+  });
+
+  it('writes a product no earlier than its last serial', () => {
+    const chunks = chunkImportProducts([product(5), product(3)], 4);
+
+    [0, 1].forEach((index) => {
+      const productChunk = chunks.findIndex((chunk) => chunk.products.includes(index));
+      const lastSerialChunk = chunks.reduce((last, chunk, i) =>
+        (chunk.serials.some((serial) => serial.product === index) ? i : last), -1);
+      expect(productChunk).toBeGreaterThanOrEqual(lastSerialChunk);
+    });
+  });
+});
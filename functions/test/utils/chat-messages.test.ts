@@ -0,0 +1,140 @@
+import {
+  applyReaction,
+  changeGroupMembers,
+  groupChangeMessages,
+  messageExpiry,
+  pickContent,
+  pickGroupUpdate,
+  ConversationState,
+  DISAPPEARING_TIMER_MS,
+} from '../../src/utils/chat-messages';
+
+const sentAt = 1_700_000_000_000;
+
+describe('messageExpiry', () => {
+  it('adds the conversation timer to the send time', () => {
+    expect(messageExpiry('1h', sentAt)).toBe(sentAt + DISAPPEARING_TIMER_MS['1h']!);
+    expect(messageExpiry('7d', sentAt)).toBe(sentAt + 7 * 24 * 60 * 60 * 1000);
+  });
+
+  it('returns null when messages do not disappear', () => {
+    expect(messageExpiry('off', sentAt)).toBeNull();
+    expect(messageExpiry(undefined, sentAt)).toBeNull();
+    expect(messageExpiry('forever', sentAt)).toBeNull();
+    expect(messageExpiry('toString', sentAt)).toBeNull();
+  });
+});
+
+describe('pickContent', () => {
+  it('keeps only the content fields', () => {
+    expect(pickContent({ text: 'c2VjcmV0', nonce: 'bm9uY2U=', keyVersion: 2, senderId: 'mallory', seq: 99 }))
+      .toEqual({ text: 'c2VjcmV0', nonce: 'bm9uY2U=', keyVersion: 2 });
+  });
+
+  it('skips empty fields', () => {
+    expect(pickContent({ text: 'c2VjcmV0', senderText: '', envelopes: null })).toEqual({ text: 'c2VjcmV0' });
+  });
+
+  it('rejects fields of the wrong type', () => {
+    expect(pickContent({ text: 42 })).toBeNull();
+    expect(pickContent({ keyVersion: 1.5 })).toBeNull();
+    expect(pickContent({ envelopes: ['device'] })).toBeNull();
+  });
+});
+
+describe('applyReaction', () => {
+  it('adds a reaction', () => {
+    expect(applyReaction({}, 'alice', '👍')).toEqual({ '👍': ['alice'] });
+  });
+
+  it('replaces the user\'s previous reaction', () => {
+    expect(applyReaction({ '👍': ['alice', 'bob'] }, 'alice', '❤️')).toEqual({ '👍': ['bob'], '❤️': ['alice'] });
+  });
+
+  it('removes the user\'s reaction and drops emptied emoji', () => {
+    expect(applyReaction({ '👍': ['alice'], '❤️': ['bob'] }, 'alice', null)).toEqual({ '❤️': ['bob'] });
+  });
+
+  it('only removes the given emoji when asked to', () => {
+    expect(applyReaction({ '👍': ['alice'] }, 'alice', null, '❤️')).toEqual({ '👍': ['alice'] });
+    expect(applyReaction({ '👍': ['alice'] }, 'alice', null, '👍')).toEqual({});
+  });
+
+  it('does not change the reactions it was given', () => {
+    const reactions = { '👍': ['alice'] };
+    applyReaction(reactions, 'alice', '❤️');
+
+    expect(reactions).toEqual({ '👍': ['alice'] });
+  });
+});
+
+describe('groupChangeMessages', () => {
+  const group: ConversationState = { type: 'group', members: ['alice', 'bob'], groupInfo: { name: 'Team' } };
+
+  it('announces members who joined or left', () => {
+    expect(groupChangeMessages(group, { ...group, members: ['alice', 'carol', 'dave'] })).toEqual([
+      'carol, dave joined the group',
+      'bob left the group',
+    ]);
+  });
+
+  it('announces a new group name', () => {
+    expect(groupChangeMessages(group, { ...group, groupInfo: { name: 'Squad' } }))
+      .toEqual(['Group name changed to "Squad"']);
+  });
+
+  it('announces disappearing message changes', () => {
+    const disappearing = { ...group, disappearingMessages: '24h' as const };
+
+    expect(groupChangeMessages(group, disappearing)).toEqual(['New messages will disappear after 24 hours']);
+    expect(groupChangeMessages(disappearing, group)).toEqual(['Disappearing messages turned off']);
+  });
+
+  it('ignores unknown timers', () => {
+    expect(groupChangeMessages(group, { ...group, disappearingMessages: 'toString' as ConversationState['disappearingMessages'] }))
+      .toEqual([]);
+  });
+
+  it('says nothing for unrelated updates or direct conversations', () => {
+    expect(groupChangeMessages(group, { ...group })).toEqual([]);
+    expect(groupChangeMessages({ type: 'direct', members: ['alice'] }, { type: 'direct', members: ['alice', 'bob'] }))
+      .toEqual([]);
+  });
+});
+
+describe('pickGroupUpdate', () => {
+  it('sets display fields under groupInfo and the timer on the conversation', () => {
+    expect(pickGroupUpdate({ conversationId: 'group_1', name: 'Squad', disappearingMessages: '7d', members: ['mallory'] }))
+      .toEqual({ 'groupInfo.name': 'Squad', disappearingMessages: '7d' });
+  });
+
+  it('rejects unknown timers, including inherited keys', () => {
+    expect(pickGroupUpdate({ disappearingMessages: 'forever' })).toBeNull();
+    expect(pickGroupUpdate({ disappearingMessages: 'toString' })).toBeNull();
+  });
+
+  it('rejects blank names and fields of the wrong type or too long', () => {
+    expect(pickGroupUpdate({ name: '  ' })).toBeNull();
+    expect(pickGroupUpdate({ description: 42 })).toBeNull();
+    expect(pickGroupUpdate({ photoURL: 'x'.repeat(2049) })).toBeNull();
+  });
+});
+
+describe('changeGroupMembers', () => {
+  const group: ConversationState = {
+    type: 'group',
+    members: ['alice', 'bob', 'carol'],
+    groupInfo: { createdBy: 'alice', admins: ['alice', 'bob'] },
+  };
+
+  it('adds members once', () => {
+    expect(changeGroupMembers(group, ['dave', 'bob', 'dave'], [])).toEqual({
+      members: ['alice', 'bob', 'carol', 'dave'],
+      admins: ['alice', 'bob'],
+    });
+  });
+
+  it('takes admin rights away with the membership', () => {
+    expect(changeGroupMembers(group, [], ['bob'])).toEqual({ members: ['alice', 'carol'], admins: ['alice'] });
+  });
+});
@@ -0,0 +1,81 @@
+import { codeHint, fingerprintCode, normaliseCode, openCode, sealCode } from '../../src/utils/code-vault';
+
+const vaultKey = Buffer.alloc(32, 'test-vault-key').toString('base64');
+
+beforeEach(() => {
+  process.env.GIFTCARD_VAULT_KEK = vaultKey;
+});
+
+afterEach(() => {
+  delete process.env.GIFTCARD_VAULT_KEK;
+});
+
+describe('sealCode and openCode', () => {
+  it('round-trips a code and PIN', () => {
+    const secret = { code: 'ABCD-1234-EFGH', pin: '9876' };
+
+    expect(openCode(sealCode(secret))).toEqual(secret);
+  });
+
+  it('never stores the code in the clear', () => {
+    const sealed = sealCode({ code: 'ABCD-1234-EFGH' });
+
+    expect(JSON.stringify(sealed)).not.toContain('ABCD');
+  });
+
+  it('seals the same code differently each time', () => {
+    const first = sealCode({ code: 'ABCD-1234-EFGH' });
+    const second = sealCode({ code: 'ABCD-1234-EFGH' });
+
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+    expect(first.wrappedKey).not.toBe(second.wrappedKey);
+  });
+
+  it('refuses tampered ciphertext', () => {
+    const sealed = sealCode({ code: 'ABCD-1234-EFGH' });
+    const ciphertext = Buffer.from(sealed.ciphertext, 'base64');
+    ciphertext[0] ^= 1;
+
+    expect(() => openCode({ ...sealed, ciphertext: ciphertext.toString('base64') })).toThrow();
+  });
+
+  it('refuses codes sealed under another vault key', () => {
+    const sealed = sealCode({ code: 'ABCD-1234-EFGH' });
+    process.env.GIFTCARD_VAULT_KEK = Buffer.alloc(32, 'another-key').toString('base64');
+
+    expect(() => openCode(sealed)).toThrow();
+    expect(() => openCode({ ...sealed, keyId: 'kek0' })).toThrow('Unknown vault key kek0');
+  });
+
+  it('requires a 32-byte vault key', () => {
+    process.env.GIFTCARD_VAULT_KEK = Buffer.alloc(16).toString('base64');
+    expect(() => sealCode({ code: 'ABCD' })).toThrow('GIFTCARD_VAULT_KEK must be 32 bytes, base64 encoded');
+
+    delete process.env.GIFTCARD_VAULT_KEK;
+    expect(() => sealCode({ code: 'ABCD' })).toThrow('GIFTCARD_VAULT_KEK is not configured');
+  });
+});
+
+describe('fingerprintCode', () => {
+  it('ignores formatting, so reformatted duplicates are caught', () => {
+    expect(fingerprintCode('abcd-1234 efgh')).toBe(fingerprintCode('ABCD1234EFGH'));
+  });
+
+  it('differs between codes and between vault keys', () => {
+    const fingerprint = fingerprintCode('ABCD1234EFGH');
+
+    expect(fingerprintCode('ABCD1234EFGI')).not.toBe(fingerprint);
+    process.env.GIFTCARD_VAULT_KEK = Buffer.alloc(32, 'another-key').toString('base64');
+    expect(fingerprintCode('ABCD1234EFGH')).not.toBe(fingerprint);
+  });
+});
+
+describe('normaliseCode and codeHint', () => {
+  it('strips spaces and dashes and upper-cases the code', () => {
+    expect(normaliseCode(' abcd-1234 efgh ')).toBe('ABCD1234EFGH');
+  });
+
+  it('shows only the last four characters', () => {
+    expect(codeHint('abcd-1234-efgh')).toBe('••••EFGH');
+  });
+});
@@ -0,0 +1,177 @@
+import type { firestore } from 'firebase-admin';
+import { runTransaction, store, FakeTransaction } from '../fake-firestore';
+import {
+  entryIdForKey,
+  giftcardSpend,
+  postJournalEntries,
+  postJournalEntry,
+  userAccountId,
+  JournalEntryInput,
+  LedgerError,
+  LEDGER_ACCOUNTS,
+  LEDGER_ENTRIES,
+  SYSTEM_ACCOUNTS,
+} from '../../src/utils/ledger';
+
+jest.mock('firebase-admin', () => require('../fake-firestore').fakeAdmin);
+
+const asTransaction = (transaction: FakeTransaction) => transaction as unknown as firestore.Transaction;
+
+const post = (input: JournalEntryInput) =>
+  runTransaction((transaction) => postJournalEntry(asTransaction(transaction), input));
+
+const purchase = (userId: string, amount: number, key = `purchase:${userId}:${amount}`): JournalEntryInput => ({
+  type: 'pxl-purchase',
+  idempotencyKey: key,
+  legs: [
+    { accountId: SYSTEM_ACCOUNTS.issuance, direction: 'debit', amount },
+    { accountId: userAccountId(userId), direction: 'credit', amount },
+  ],
+});
+
+const spend = (userId: string, amount: number, key: string): JournalEntryInput => ({
+  type: 'giftcard-purchase',
+  idempotencyKey: key,
+  legs: [
+    { accountId: userAccountId(userId), direction: 'debit', amount },
+    { accountId: SYSTEM_ACCOUNTS.giftcardSales, direction: 'credit', amount },
+  ],
+});
+
+const accountBalance = (accountId: string) => store.get(`${LEDGER_ACCOUNTS}/${accountId}`)?.balance;
+
+beforeEach(() => {
+  store.clear();
+});
+
+describe('entryIdForKey', () => {
+  it('derives the same 40-character ID from the same key', () => {
+    expect(entryIdForKey('transfer:abc')).toBe(entryIdForKey('transfer:abc'));
+    expect(entryIdForKey('transfer:abc')).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('derives different IDs from different keys', () => {
+    expect(entryIdForKey('transfer:abc')).not.toBe(entryIdForKey('transfer:abd'));
+  });
+});
+
+describe('postJournalEntry', () => {
+  it('posts a balanced entry and updates both account balances', async () => {
+    const result = await post(purchase('alice', 100));
+
+    expect(result.duplicate).toBe(false);
+    expect(result.balances[userAccountId('alice')]).toBe(100);
+    expect(result.balances[SYSTEM_ACCOUNTS.issuance]).toBe(-100);
+    expect(accountBalance(userAccountId('alice'))).toBe(100);
+    expect(accountBalance(SYSTEM_ACCOUNTS.issuance)).toBe(-100);
+
+    const entry = store.get(`${LEDGER_ENTRIES}/${result.entryId}`);
+    expect(entry).toMatchObject({
+      type: 'pxl-purchase',
+      accountIds: [SYSTEM_ACCOUNTS.issuance, userAccountId('alice')],
+      userIds: ['alice'],
+    });
+  });
+
+  it('treats a replayed idempotency key as a duplicate and changes nothing', async () => {
+    const first = await post(purchase('alice', 100, 'purchase:1'));
+    const second = await post(purchase('alice', 100, 'purchase:1'));
+
+    expect(second.duplicate).toBe(true);
+    expect(second.entryId).toBe(first.entryId);
+    expect(accountBalance(userAccountId('alice'))).toBe(100);
+  });
+
+  it('rejects entries whose debits and credits differ', async () => {
+    const input = purchase('alice', 100);
+    input.legs[1].amount = 90;
+
+    await expect(post(input)).rejects.toMatchObject({ code: 'unbalanced' });
+    expect(store.size).toBe(0);
+  });
+
+  it('rejects single-leg entries and non-positive amounts', async () => {
+    await expect(post({ ...purchase('alice', 100), legs: purchase('alice', 100).legs.slice(0, 1) }))
+      .rejects.toBeInstanceOf(LedgerError);
+
+    const input = purchase('alice', 0);
+    await expect(post(input)).rejects.toMatchObject({ code: 'invalid-leg' });
+  });
+
+  it('refuses to take a user account below zero', async () => {
+    await post(purchase('alice', 50));
+
+    await expect(post(spend('alice', 80, 'order:1'))).rejects.toMatchObject({ code: 'insufficient-funds' });
+    expect(accountBalance(userAccountId('alice'))).toBe(50);
+  });
+
+  it('carries a pre-ledger wallet balance over as an opening balance', async () => {
+    store.set('users/bob', { wallets: { pxl: { balance: 40 } } });
+
+    const result = await post(spend('bob', 30, 'order:2'));
+
+    expect(result.balances[userAccountId('bob')]).toBe(10);
+    expect(accountBalance(SYSTEM_ACCOUNTS.openingBalances)).toBe(-40);
+    expect(store.get(`${LEDGER_ENTRIES}/${entryIdForKey(`opening-balance:${userAccountId('bob')}`)}`))
+      .toMatchObject({ type: 'opening-balance' });
+    expect(store.get('users/bob')).toMatchObject({ wallets: { pxl: { balance: 10 } } });
+  });
+});
+
+describe('postJournalEntries', () => {
+  it('applies several entries in order within one transaction', async () => {
+    const results = await runTransaction((transaction) => postJournalEntries(asTransaction(transaction), [
+      purchase('alice', 100),
+      spend('alice', 60, 'order:3'),
+    ]));
+
+    expect(results.map((result) => result.balances[userAccountId('alice')])).toEqual([100, 40]);
+    expect(accountBalance(userAccountId('alice'))).toBe(40);
+  });
+
+  it('requires user balances to be covered once all the entries are applied', async () => {
+    await expect(runTransaction((transaction) => postJournalEntries(asTransaction(transaction), [
+      spend('alice', 60, 'order:4'),
+      purchase('alice', 100),
+    ]))).resolves.toHaveLength(2);
+
+    store.clear();
+    await expect(runTransaction((transaction) => postJournalEntries(asTransaction(transaction), [
+      purchase('alice', 50),
+      spend('alice', 60, 'order:5'),
+    ]))).rejects.toMatchObject({ code: 'insufficient-funds' });
+  });
+});
+
+describe('giftcardSpend', () => {
+  const account = userAccountId('alice');
+  const entry = (type: 'giftcard-purchase' | 'giftcard-refund', amount: number, orderId: string) => ({
+    type,
+    metadata: { orderId },
+    legs: [{
+      accountId: account,
+      direction: type === 'giftcard-purchase' ? 'debit' as const : 'credit' as const,
+      amount,
+      balanceAfter: 0,
+    }],
+  });
+
+  it('sums giftcard purchases net of refunds for the same orders', () => {
+    expect(giftcardSpend([
+      entry('giftcard-purchase', 100, 'ord_1'),
+      entry('giftcard-purchase', 50, 'ord_2'),
+      entry('giftcard-refund', 50, 'ord_2'),
+    ], account)).toBe(100);
+  });
+
+  it('ignores refunds of orders outside the entries', () => {
+    expect(giftcardSpend([
+      entry('giftcard-purchase', 100, 'ord_1'),
+      entry('giftcard-refund', 80, 'ord_0'),
+    ], account)).toBe(100);
+  });
+
+  it('only counts legs on the given account', () => {
+    expect(giftcardSpend([entry('giftcard-purchase', 100, 'ord_1')], userAccountId('bob'))).toBe(0);
+  });
+});
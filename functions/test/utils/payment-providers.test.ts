@@ -0,0 +1,131 @@
+import * as crypto from 'crypto';
+import type * as Providers from '../../src/utils/payment-providers';
+
+// The provider config is read when the module loads
+process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test';
+process.env.MYFATOORAH_WEBHOOK_SECRET = 'myfatoorah_test';
+
+const {
+  parseWebhookEvent,
+  paymentMatchesExpectation,
+  paymentReversalForEvent,
+  verifyWebhookSignature,
+} = require('../../src/utils/payment-providers') as typeof Providers;
+
+const payment = (amount: number, currency: string): Providers.ProviderPayment => ({
+  provider: 'stripe',
+  paymentId: 'pi_1',
+  status: 'paid',
+  reference: 'ord_1',
+  amount,
+  currency,
+});
+
+const stripeSignature = (rawBody: string, timestamp = Math.floor(Date.now() / 1000), secret = 'whsec_test') => {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+};
+
+describe('verifyWebhookSignature', () => {
+  const rawBody = JSON.stringify({ id: 'evt_1', type: 'payment_intent.succeeded' });
+
+  it('accepts a Stripe event signed with the webhook secret', async () => {
+    const headers = { 'stripe-signature': stripeSignature(rawBody) };
+    await expect(verifyWebhookSignature('stripe', rawBody, JSON.parse(rawBody), headers)).resolves.toBe(true);
+  });
+
+  it('rejects a Stripe event signed with another secret or for another body', async () => {
+    const wrongSecret = { 'stripe-signature': stripeSignature(rawBody, undefined, 'whsec_other') };
+    const wrongBody = { 'stripe-signature': stripeSignature(`${rawBody} `) };
+
+    await expect(verifyWebhookSignature('stripe', rawBody, {}, wrongSecret)).resolves.toBe(false);
+    await expect(verifyWebhookSignature('stripe', rawBody, {}, wrongBody)).resolves.toBe(false);
+  });
+
+  it('rejects a replayed Stripe event outside the timestamp tolerance', async () => {
+    const headers = { 'stripe-signature': stripeSignature(rawBody, Math.floor(Date.now() / 1000) - 600) };
+    await expect(verifyWebhookSignature('stripe', rawBody, {}, headers)).resolves.toBe(false);
+  });
+
+  it('checks MyFatoorah signatures over the sorted Data fields', async () => {
+    const body = { Event: 'TransactionsStatusChanged', Data: { InvoiceId: 42, CustomerReference: 'ord_1' } };
+    const signature = crypto.createHmac('sha256', 'myfatoorah_test')
+      .update('CustomerReference=ord_1,InvoiceId=42')
+      .digest('base64');
+
+    await expect(verifyWebhookSignature('myfatoorah', '', body, { 'myfatoorah-signature': signature }))
+      .resolves.toBe(true);
+    await expect(verifyWebhookSignature('myfatoorah', '', { ...body, Data: { InvoiceId: 43 } },
+      { 'myfatoorah-signature': signature })).resolves.toBe(false);
+  });
+
+  it('rejects events without a signature header', async () => {
+    await expect(verifyWebhookSignature('stripe', rawBody, {}, {})).resolves.toBe(false);
+    await expect(verifyWebhookSignature('myfatoorah', rawBody, { Data: {} }, {})).resolves.toBe(false);
+  });
+});
+
+describe('parseWebhookEvent', () => {
+  it('reads the payment intent from Stripe payment intent and charge events', () => {
+    const intent = { id: 'evt_1', type: 'payment_intent.succeeded', data: { object: { object: 'payment_intent', id: 'pi_1' } } };
+    const charge = { id: 'evt_2', type: 'charge.refunded', data: { object: { object: 'charge', id: 'ch_1', payment_intent: 'pi_1' } } };
+
+    expect(parseWebhookEvent('stripe', intent, JSON.stringify(intent)))
+      .toEqual({ eventId: 'evt_1', eventType: 'payment_intent.succeeded', paymentId: 'pi_1' });
+    expect(parseWebhookEvent('stripe', charge, JSON.stringify(charge)).paymentId).toBe('pi_1');
+  });
+
+  it('prefers the related order ID on PayPal capture events', () => {
+    const body = {
+      id: 'WH-1',
+      event_type: 'PAYMENT.CAPTURE.COMPLETED',
+      resource: { id: 'CAP-1', supplementary_data: { related_ids: { order_id: 'ORDER-1' } } },
+    };
+
+    expect(parseWebhookEvent('paypal', body, JSON.stringify(body)).paymentId).toBe('ORDER-1');
+  });
+
+  it('derives MyFatoorah event IDs from the payload, since it sends none', () => {
+    const body = { Event: 'TransactionsStatusChanged', Data: { InvoiceId: 42 } };
+    const first = parseWebhookEvent('myfatoorah', body, JSON.stringify(body));
+    const replay = parseWebhookEvent('myfatoorah', body, JSON.stringify(body));
+
+    expect(first).toMatchObject({ eventType: 'TransactionsStatusChanged', paymentId: '42' });
+    expect(replay.eventId).toBe(first.eventId);
+  });
+
+  it('tolerates malformed bodies', () => {
+    expect(parseWebhookEvent('stripe', 'not an object', 'not an object'))
+      .toMatchObject({ eventType: 'unknown', paymentId: null });
+    expect(parseWebhookEvent('paypal', null, 'null').paymentId).toBeNull();
+  });
+});
+
+describe('paymentReversalForEvent', () => {
+  it('maps refund and chargeback events per provider', () => {
+    expect(paymentReversalForEvent('stripe', 'charge.refunded')).toBe('refunded');
+    expect(paymentReversalForEvent('stripe', 'charge.dispute.created')).toBe('charged-back');
+    expect(paymentReversalForEvent('paypal', 'PAYMENT.CAPTURE.REVERSED')).toBe('charged-back');
+    expect(paymentReversalForEvent('myfatoorah', 'RefundStatusChanged')).toBe('refunded');
+  });
+
+  it('returns null for other events and other providers\' event names', () => {
+    expect(paymentReversalForEvent('stripe', 'payment_intent.succeeded')).toBeNull();
+    expect(paymentReversalForEvent('paypal', 'charge.refunded')).toBeNull();
+  });
+});
+
+describe('paymentMatchesExpectation', () => {
+  it('matches the same amount in the same currency, whatever its case', () => {
+    expect(paymentMatchesExpectation(payment(49.99, 'USD'), { amount: 49.99, currency: 'usd' })).toBe(true);
+  });
+
+  it('compares amounts to the cent', () => {
+    expect(paymentMatchesExpectation(payment(0.1 + 0.2, 'USD'), { amount: 0.3, currency: 'USD' })).toBe(true);
+    expect(paymentMatchesExpectation(payment(49.98, 'USD'), { amount: 49.99, currency: 'USD' })).toBe(false);
+  });
+
+  it('rejects a payment in another currency', () => {
+    expect(paymentMatchesExpectation(payment(49.99, 'KWD'), { amount: 49.99, currency: 'USD' })).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import type { firestore } from 'firebase-admin';
+import { FakeTimestamp } from '../fake-firestore';
+import { resolveStatus, settleHeldShare, splitAmount, PaymentShare, PaymentShareStatus } from '../../src/utils/payment-requests';
+
+const share = (status: PaymentShareStatus, amount = 100, transferId: string | null = null): PaymentShare => ({
+  userId: 'alice',
+  username: 'alice',
+  amount,
+  status,
+  transferId,
+  paidAt: null,
+});
+
+const now = FakeTimestamp.fromMillis(1_700_000_000_000) as unknown as firestore.Timestamp;
+
+describe('splitAmount', () => {
+  it('splits evenly when the total divides', () => {
+    expect(splitAmount(300, 3)).toEqual([100, 100, 100]);
+  });
+
+  it('gives the remainder to the first shares, one PXL each', () => {
+    expect(splitAmount(101, 3)).toEqual([34, 34, 33]);
+    expect(splitAmount(5, 4)).toEqual([2, 1, 1, 1]);
+  });
+
+  it('always adds up to the total', () => {
+    const shares = splitAmount(1237, 7);
+    expect(shares.reduce((sum, amount) => sum + amount, 0)).toBe(1237);
+  });
+});
+
+describe('resolveStatus', () => {
+  it('is open until a share is paid', () => {
+    expect(resolveStatus([share('pending'), share('held')])).toBe('open');
+  });
+
+  it('is partially paid once some shares are paid', () => {
+    expect(resolveStatus([share('paid'), share('pending')])).toBe('partially-paid');
+  });
+
+  it('is paid when every share that was not declined is paid', () => {
+    expect(resolveStatus([share('paid'), share('declined')])).toBe('paid');
+  });
+
+  it('is cancelled when every share was declined', () => {
+    expect(resolveStatus([share('declined'), share('declined')])).toBe('cancelled');
+  });
+});
+
+describe('settleHeldShare', () => {
+  const request = (status: string) => ({
+    status,
+    amountPaid: 100,
+    shares: [share('paid', 100, 'tx_0'), share('held', 50, 'tx_1')],
+  });
+
+  it('pays the held share when the transfer is released', () => {
+    const result = settleHeldShare(request('partially-paid'), 'tx_1', true, now);
+
+    expect(result).not.toBeNull();
+    expect(result!.share).toMatchObject({ status: 'paid', paidAt: now });
+    expect(result!.status).toBe('paid');
+    expect(result!.amountPaid).toBe(150);
+  });
+
+  it('declines the held share when the transfer is rejected', () => {
+    const result = settleHeldShare(request('partially-paid'), 'tx_1', false, now);
+
+    expect(result!.share.status).toBe('declined');
+    expect(result!.status).toBe('paid');
+    expect(result!.amountPaid).toBe(100);
+  });
+
+  it('keeps the status of a cancelled or expired request', () => {
+    expect(settleHeldShare(request('expired'), 'tx_1', true, now)!.status).toBe('expired');
+    expect(settleHeldShare(request('cancelled'), 'tx_1', false, now)!.status).toBe('cancelled');
+  });
+
+  it('returns null when no held share used the transfer', () => {
+    expect(settleHeldShare(request('open'), 'tx_0', true, now)).toBeNull();
+    expect(settleHeldShare(request('open'), 'tx_9', true, now)).toBeNull();
+  });
+
+  it('does not change the request it was given', () => {
+    const original = request('partially-paid');
+    settleHeldShare(original, 'tx_1', true, now);
+
+    expect(original.shares[1].status).toBe('held');
+  });
+});
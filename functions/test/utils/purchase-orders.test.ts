@@ -0,0 +1,125 @@
+import type { firestore } from 'firebase-admin';
+import { FakeTimestamp } from '../fake-firestore';
+import {
+  outstandingQuantity,
+  purchaseOrderStats,
+  receivePurchaseOrderBatch,
+  PurchaseOrder,
+  PurchaseOrderReceipt,
+  PurchaseOrderStatus,
+} from '../../src/utils/purchase-orders';
+
+const HOUR_MS = 60 * 60 * 1000;
+const orderedAt = 1_700_000_000_000;
+
+const at = (ms: number) => FakeTimestamp.fromMillis(ms) as unknown as firestore.Timestamp;
+
+const receipt = (quantity: number, hoursAfterOrder: number, denomination = 50): PurchaseOrderReceipt => ({
+  approvalId: `apr_${hoursAfterOrder}`,
+  productId: 'steam',
+  denomination,
+  quantity,
+  receivedAt: at(orderedAt + hoursAfterOrder * HOUR_MS),
+});
+
+const order = (
+  status: PurchaseOrderStatus,
+  receipts: PurchaseOrderReceipt[] = [],
+  expectedHours: number | null = 48
+): PurchaseOrder => ({
+  supplierId: 'sup_1',
+  supplierName: 'Codes Inc',
+  status,
+  lines: [
+    { productId: 'steam', productName: 'Steam', denomination: 50, quantity: 10, received: 0 },
+    { productId: 'steam', productName: 'Steam', denomination: 100, quantity: 5, received: 0 },
+  ].map((line) => ({
+    ...line,
+    received: receipts.filter((r) => r.denomination === line.denomination).reduce((sum, r) => sum + r.quantity, 0),
+  })),
+  receipts,
+  notes: null,
+  orderedBy: 'admin_1',
+  orderedAt: at(orderedAt),
+  expectedAt: expectedHours === null ? null : at(orderedAt + expectedHours * HOUR_MS),
+  receivedAt: null,
+  cancelledAt: null,
+  updatedAt: at(orderedAt),
+});
+
+describe('outstandingQuantity', () => {
+  it('returns what is still to come on a line', () => {
+    expect(outstandingQuantity(order('partially-received', [receipt(4, 1)]), 'steam', 50)).toBe(6);
+  });
+
+  it('returns null when the order has no such line', () => {
+    expect(outstandingQuantity(order('open'), 'steam', 25)).toBeNull();
+    expect(outstandingQuantity(order('open'), 'xbox', 50)).toBeNull();
+  });
+});
+
+describe('receivePurchaseOrderBatch', () => {
+  it('records a partial delivery', () => {
+    const update = receivePurchaseOrderBatch(order('open'), receipt(4, 1));
+
+    expect(update.lines[0].received).toBe(4);
+    expect(update.receipts).toHaveLength(1);
+    expect(update).toMatchObject({ status: 'partially-received', receivedAt: null });
+  });
+
+  it('marks the order received once every line is complete', () => {
+    const batch = receipt(5, 30, 100);
+    const update = receivePurchaseOrderBatch(order('partially-received', [receipt(10, 1)]), batch);
+
+    expect(update).toMatchObject({ status: 'received', receivedAt: batch.receivedAt, updatedAt: batch.receivedAt });
+  });
+
+  it('refuses batches larger than what is outstanding', () => {
+    expect(() => receivePurchaseOrderBatch(order('partially-received', [receipt(8, 1)]), receipt(3, 2)))
+      .toThrow('Only 2 codes are outstanding on this line');
+  });
+
+  it('refuses batches for lines the order does not have', () => {
+    expect(() => receivePurchaseOrderBatch(order('open'), receipt(1, 1, 25)))
+      .toThrow(expect.objectContaining({ code: 'not-found' }));
+  });
+
+  it('refuses batches for closed orders', () => {
+    expect(() => receivePurchaseOrderBatch(order('cancelled'), receipt(1, 1))).toThrow('Purchase order is cancelled');
+    expect(() => receivePurchaseOrderBatch(order('received'), receipt(1, 1))).toThrow('Purchase order is received');
+  });
+});
+
+describe('purchaseOrderStats', () => {
+  const now = orderedAt + 100 * HOUR_MS;
+
+  it('scores the share of ordered codes delivered by the expected date', () => {
+    // 10 of 15 codes on time, 5 late
+    const stats = purchaseOrderStats([order('received', [receipt(10, 24), receipt(5, 72, 100)])], now);
+
+    expect(stats).toEqual({ performanceScore: 67, deliveryTimeAvg: 48, totalOrders: 1 });
+  });
+
+  it('does not score orders that are not due yet', () => {
+    const stats = purchaseOrderStats([order('partially-received', [receipt(4, 1)], 200)], now);
+
+    expect(stats.performanceScore).toBeNull();
+    expect(stats.deliveryTimeAvg).toBe(1);
+  });
+
+  it('counts undelivered codes against orders past their expected date', () => {
+    expect(purchaseOrderStats([order('open')], now).performanceScore).toBe(0);
+  });
+
+  it('only scores orders without an expected date once they are closed', () => {
+    expect(purchaseOrderStats([order('open', [], null)], now).performanceScore).toBeNull();
+    expect(purchaseOrderStats([order('received', [receipt(10, 500), receipt(5, 500, 100)], null)], now)
+      .performanceScore).toBe(100);
+  });
+
+  it('scores cancelled orders on what was delivered and ignores ones that delivered nothing', () => {
+    const stats = purchaseOrderStats([order('cancelled', [receipt(4, 1)]), order('cancelled')], now);
+
+    expect(stats).toMatchObject({ performanceScore: 100, totalOrders: 1 });
+  });
+});
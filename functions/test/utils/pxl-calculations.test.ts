@@ -0,0 +1,64 @@
+import {
+  calculateGiftcardPricing,
+  calculatePXLFromUSD,
+  getTransferLimits,
+  GIFTCARD_PXL_PER_USD,
+  TRANSFER_LIMITS,
+} from '../../src/utils/pxl-calculations';
+
+describe('calculateGiftcardPricing', () => {
+  it('prices a regular card at a 2% discount with 1 PXL cashback', () => {
+    expect(calculateGiftcardPricing(50, false)).toEqual({
+      usd: 50,
+      basePxl: 50 * GIFTCARD_PXL_PER_USD,
+      pxl: 4802,
+      discountPercentage: 2,
+      cashbackPxl: 1,
+    });
+  });
+
+  it('prices a featured card at a 5% discount with 3 PXL cashback', () => {
+    expect(calculateGiftcardPricing(100, true)).toEqual({
+      usd: 100,
+      basePxl: 9800,
+      pxl: 9310,
+      discountPercentage: 5,
+      cashbackPxl: 3,
+    });
+  });
+
+  it('rounds fractional denominations and discounts in the customer\'s favour', () => {
+    // 12.5 * 98 = 1225; 2% of that is 24.5, rounded down
+    const pricing = calculateGiftcardPricing(12.5, false);
+
+    expect(pricing.basePxl).toBe(1225);
+    expect(pricing.pxl).toBe(1201);
+    expect(Number.isInteger(pricing.pxl)).toBe(true);
+  });
+});
+
+describe('calculatePXLFromUSD', () => {
+  it('adds the tier bonus on top of the base amount', () => {
+    expect(calculatePXLFromUSD(10, 100, 'pro')).toEqual({
+      basePxl: 1000,
+      bonusPxl: 70,
+      totalPxl: 1070,
+      appliedDiscount: 0.07,
+      effectiveRate: 107,
+    });
+  });
+
+  it('gives starter users no bonus', () => {
+    expect(calculatePXLFromUSD(10, 100, 'starter').bonusPxl).toBe(0);
+  });
+});
+
+describe('getTransferLimits', () => {
+  it('returns the limits of a known tier', () => {
+    expect(getTransferLimits('pixlbeast')).toBe(TRANSFER_LIMITS.pixlbeast);
+  });
+
+  it('falls back to the starter limits for an unknown tier', () => {
+    expect(getTransferLimits('legendary')).toBe(TRANSFER_LIMITS.starter);
+  });
+});
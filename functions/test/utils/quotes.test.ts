@@ -0,0 +1,98 @@
+import { hashOrderLines, signQuote, verifyQuote, QuoteError, QuoteTerms, QUOTE_TTL_SECONDS } from '../../src/utils/quotes';
+
+const issuedAt = 1_700_000_000_000;
+
+const terms: QuoteTerms = {
+  kind: 'pxl-purchase',
+  userId: 'alice',
+  tier: 'pro',
+  exchangeRate: 100,
+  usdAmount: 10,
+  pxlAmount: 1070,
+  bonusPxl: 70,
+  cashbackPxl: 0,
+  itemsHash: null,
+  issuedAt,
+  expiresAt: issuedAt + QUOTE_TTL_SECONDS * 1000,
+};
+
+const expected = { kind: 'pxl-purchase' as const, userId: 'alice' };
+
+// Replace the middle (payload) part of a quote ID
+const withPayload = (quoteId: string, changes: Partial<QuoteTerms>) => {
+  const [version, , signature] = quoteId.split('.');
+  const payload = Buffer.from(JSON.stringify({ ...terms, ...changes })).toString('base64url');
+  return `${version}.${payload}.${signature}`;
+};
+
+beforeEach(() => {
+  process.env.QUOTE_SIGNING_SECRET = 'test-quote-secret';
+});
+
+afterEach(() => {
+  delete process.env.QUOTE_SIGNING_SECRET;
+});
+
+describe('signQuote and verifyQuote', () => {
+  it('round-trips the terms of a valid quote', () => {
+    expect(verifyQuote(signQuote(terms), expected, issuedAt + 1000)).toEqual(terms);
+  });
+
+  it('rejects quotes whose terms were edited', () => {
+    const quoteId = withPayload(signQuote(terms), { pxlAmount: 99999 });
+
+    expect(() => verifyQuote(quoteId, expected, issuedAt)).toThrow('Quote signature does not match');
+  });
+
+  it('rejects quotes signed with another secret', () => {
+    const quoteId = signQuote(terms);
+    process.env.QUOTE_SIGNING_SECRET = 'another-secret';
+
+    expect(() => verifyQuote(quoteId, expected, issuedAt)).toThrow(QuoteError);
+  });
+
+  it('rejects malformed quote IDs as invalid', () => {
+    [undefined, 42, '', 'q1.abc', `q0.${signQuote(terms).split('.').slice(1).join('.')}`].forEach((quoteId) => {
+      expect(() => verifyQuote(quoteId, expected, issuedAt)).toThrow(expect.objectContaining({ code: 'invalid' }));
+    });
+  });
+
+  it('rejects quotes issued to another user or for another kind of request', () => {
+    const quoteId = signQuote(terms);
+
+    expect(() => verifyQuote(quoteId, { ...expected, userId: 'bob' }, issuedAt))
+      .toThrow(expect.objectContaining({ code: 'mismatch' }));
+    expect(() => verifyQuote(quoteId, { ...expected, kind: 'giftcard-order' }, issuedAt))
+      .toThrow(expect.objectContaining({ code: 'mismatch' }));
+  });
+
+  it('rejects quotes from their expiry time on', () => {
+    const quoteId = signQuote(terms);
+
+    expect(() => verifyQuote(quoteId, expected, terms.expiresAt - 1)).not.toThrow();
+    expect(() => verifyQuote(quoteId, expected, terms.expiresAt))
+      .toThrow(expect.objectContaining({ code: 'expired' }));
+  });
+
+  it('refuses to sign without a configured secret outside the emulator', () => {
+    delete process.env.QUOTE_SIGNING_SECRET;
+
+    expect(() => signQuote(terms)).toThrow('QUOTE_SIGNING_SECRET is not configured');
+  });
+});
+
+describe('hashOrderLines', () => {
+  const lines = [
+    { productId: 'steam', denomination: 50, quantity: 1 },
+    { productId: 'xbox', denomination: 25, quantity: 2 },
+  ];
+
+  it('does not depend on the order of the lines', () => {
+    expect(hashOrderLines([...lines].reverse())).toBe(hashOrderLines(lines));
+  });
+
+  it('changes when a quantity or denomination changes', () => {
+    expect(hashOrderLines([lines[0], { ...lines[1], quantity: 3 }])).not.toBe(hashOrderLines(lines));
+    expect(hashOrderLines([{ ...lines[0], denomination: 100 }, lines[1]])).not.toBe(hashOrderLines(lines));
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  anchorRateModel,
+  computeRate,
+  computeTargetRate,
+  normalizeRateModel,
+  validateRateModel,
+  FlowVolumes,
+  RateModelConfig,
+  DEFAULT_RATE_MODEL,
+} from '../../src/utils/rate-models';
+
+const volumes = (purchasedPxl: number, spentPxl: number): FlowVolumes => ({
+  purchasedPxl,
+  spentPxl,
+  purchaseUsd: purchasedPxl / 100,
+  transactionCount: 1,
+});
+
+const noFlow = volumes(0, 0);
+
+const supplyDemand: RateModelConfig = {
+  ...DEFAULT_RATE_MODEL,
+  type: 'supply-demand',
+  sensitivityPercent: 2,
+  windowHours: 24,
+};
+
+const boundedDrift: RateModelConfig = {
+  ...DEFAULT_RATE_MODEL,
+  type: 'bounded-drift',
+  targetRate: 104,
+  driftPercentPerRun: 0.25,
+};
+
+describe('validateRateModel', () => {
+  it('accepts the default model', () => {
+    expect(validateRateModel(DEFAULT_RATE_MODEL)).toEqual([]);
+  });
+
+  it('rejects unknown model types outright', () => {
+    expect(validateRateModel(undefined)).toEqual(['Unknown model type']);
+    expect(validateRateModel({ ...DEFAULT_RATE_MODEL, type: 'moon' as RateModelConfig['type'] }))
+      .toEqual(['Unknown model type']);
+  });
+
+  it('reports each invalid shared parameter', () => {
+    expect(validateRateModel({
+      ...DEFAULT_RATE_MODEL,
+      baseRate: 0,
+      maxStepPercent: 101,
+      bandPercent: -1,
+      circuitBreaker: { maxMovePercent: 3, windowHours: 0, haltMinutes: 60 },
+    })).toHaveLength(4);
+  });
+
+  it('requires the parameters of the chosen model type', () => {
+    expect(validateRateModel({ ...DEFAULT_RATE_MODEL, type: 'supply-demand' })).toEqual([
+      'Sensitivity must be between 0 and 100%',
+      'Volume window must be between 1 and 168 hours',
+    ]);
+    expect(validateRateModel({ ...DEFAULT_RATE_MODEL, type: 'bounded-drift' })).toEqual([
+      'Target rate must be positive',
+      'Drift must be between 0 and 100%',
+    ]);
+    expect(validateRateModel(supplyDemand)).toEqual([]);
+    expect(validateRateModel(boundedDrift)).toEqual([]);
+  });
+});
+
+describe('normalizeRateModel', () => {
+  it('drops the parameters of other model types', () => {
+    const normalized = normalizeRateModel({ ...boundedDrift, sensitivityPercent: 2, windowHours: 24 });
+
+    expect(normalized).toEqual({
+      type: 'bounded-drift',
+      baseRate: 100,
+      maxStepPercent: 0.5,
+      bandPercent: 5,
+      circuitBreaker: DEFAULT_RATE_MODEL.circuitBreaker,
+      targetRate: 104,
+      driftPercentPerRun: 0.25,
+    });
+  });
+
+  it('never stores undefined values', () => {
+    const normalized = normalizeRateModel(DEFAULT_RATE_MODEL);
+
+    expect(Object.values(normalized)).not.toContain(undefined);
+    expect(normalized).not.toHaveProperty('targetRate');
+  });
+});
+
+describe('computeTargetRate', () => {
+  it('pins a fixed peg to its base rate', () => {
+    expect(computeTargetRate(DEFAULT_RATE_MODEL, 102, noFlow)).toBe(100);
+  });
+
+  it('lowers the rate when users mostly buy PXL and raises it when they mostly spend', () => {
+    expect(computeTargetRate(supplyDemand, 100, volumes(1000, 0))).toBeCloseTo(98);
+    expect(computeTargetRate(supplyDemand, 100, volumes(0, 1000))).toBeCloseTo(102);
+    expect(computeTargetRate(supplyDemand, 100, volumes(750, 250))).toBeCloseTo(99);
+  });
+
+  it('holds the rate when there was no flow', () => {
+    expect(computeTargetRate(supplyDemand, 101, noFlow)).toBe(101);
+  });
+
+  it('drifts towards the target by at most the drift per run', () => {
+    expect(computeTargetRate(boundedDrift, 100, noFlow)).toBeCloseTo(100.25);
+    expect(computeTargetRate(boundedDrift, 103.9, noFlow)).toBeCloseTo(104);
+  });
+});
+
+describe('computeRate', () => {
+  it('applies a small move as is', () => {
+    const result = computeRate(boundedDrift, 100, noFlow, 100);
+
+    expect(result).toMatchObject({ rate: 100.25, clampedBy: 'none', circuitBreakerTripped: false });
+  });
+
+  it('limits each run to the max step', () => {
+    const result = computeRate({ ...supplyDemand, sensitivityPercent: 10 }, 100, volumes(1000, 0), 100);
+
+    expect(result.targetRate).toBeCloseTo(90);
+    expect(result).toMatchObject({ rate: 99.5, clampedBy: 'step' });
+  });
+
+  it('keeps the rate inside the band around the base rate', () => {
+    const result = computeRate({ ...boundedDrift, targetRate: 200, driftPercentPerRun: 5, maxStepPercent: 5 },
+      104, noFlow, 104);
+
+    expect(result).toMatchObject({ rate: 105, clampedBy: 'band' });
+  });
+
+  it('trips the circuit breaker and holds the rate when the window move is too large', () => {
+    // Each step is within limits, but the rate has already moved 2.8% in the window
+    const result = computeRate({ ...supplyDemand, sensitivityPercent: 10 }, 97.2, volumes(1000, 0), 100);
+
+    expect(result.circuitBreakerTripped).toBe(true);
+    expect(result.rate).toBe(97.2);
+  });
+
+  it('does not trip when the move stays within the limit', () => {
+    expect(computeRate(supplyDemand, 100, volumes(1000, 0), 100).circuitBreakerTripped).toBe(false);
+  });
+
+  it('rounds the rate to four decimal places', () => {
+    const result = computeRate({ ...supplyDemand, sensitivityPercent: 0.1 }, 100, volumes(1, 2), 100);
+
+    expect(result.targetRate).toBeCloseTo(100.033333, 6);
+    expect(result.rate).toBe(100.0333);
+  });
+});
+
+describe('anchorRateModel', () => {
+  it('moves the base rate to the manual rate', () => {
+    expect(anchorRateModel(DEFAULT_RATE_MODEL, 97)).toEqual({ ...DEFAULT_RATE_MODEL, baseRate: 97 });
+  });
+
+  it('also moves a drift target so the engine does not pull the rate back', () => {
+    expect(anchorRateModel(boundedDrift, 97)).toMatchObject({ baseRate: 97, targetRate: 97 });
+    expect(anchorRateModel(supplyDemand, 97)).not.toHaveProperty('targetRate');
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  evaluateTier,
+  nextTierBalance,
+  resolveTier,
+  resolveTierConfig,
+  TierConfig,
+  TierMetrics,
+  TierOverride,
+  TierState,
+  DEFAULT_TIER_CONFIG,
+} from '../../src/utils/tier-rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = 1_700_000_000_000;
+
+const metrics = (balance: number, spend90d = 0, lifetimeEarned = 0): TierMetrics => ({ balance, spend90d, lifetimeEarned });
+
+const state = (current: TierState['current'], graceUntil: number | null = null, override: TierOverride | null = null): TierState => ({
+  current,
+  graceUntil,
+  override,
+});
+
+const override = (tier: TierOverride['tier'], expiresAt: number): TierOverride => ({
+  tier,
+  expiresAt,
+  reason: 'Partner account',
+  setBy: 'admin',
+});
+
+describe('resolveTierConfig', () => {
+  it('returns the defaults when nothing is stored', () => {
+    expect(resolveTierConfig(undefined)).toEqual(DEFAULT_TIER_CONFIG);
+  });
+
+  it('merges partially edited rules over the defaults', () => {
+    const config = resolveTierConfig({
+      rules: { pro: { minSpend90d: 2000, match: 'all' } } as unknown as TierConfig['rules'],
+    });
+
+    expect(config.rules.pro).toEqual({ minBalance: 5000, minSpend90d: 2000, minLifetimeEarned: 0, match: 'all' });
+    expect(config.rules.rising).toEqual(DEFAULT_TIER_CONFIG.rules.rising);
+  });
+
+  it('keeps a zero grace period but ignores a negative one', () => {
+    expect(resolveTierConfig({ graceDays: -1 }).graceDays).toBe(30);
+    expect(resolveTierConfig({ graceDays: 0 }).graceDays).toBe(0);
+  });
+});
+
+describe('evaluateTier', () => {
+  it('picks the highest tier whose balance is met', () => {
+    expect(evaluateTier(DEFAULT_TIER_CONFIG, metrics(0))).toBe('starter');
+    expect(evaluateTier(DEFAULT_TIER_CONFIG, metrics(999))).toBe('starter');
+    expect(evaluateTier(DEFAULT_TIER_CONFIG, metrics(1000))).toBe('rising');
+    expect(evaluateTier(DEFAULT_TIER_CONFIG, metrics(75000))).toBe('pixlionaire');
+  });
+
+  it('qualifies on any one requirement for "any" rules', () => {
+    const config = resolveTierConfig({
+      rules: { pro: { minBalance: 5000, minSpend90d: 2000, minLifetimeEarned: 0, match: 'any' } } as TierConfig['rules'],
+    });
+
+    expect(evaluateTier(config, metrics(100, 2000))).toBe('pro');
+  });
+
+  it('needs every non-zero requirement for "all" rules', () => {
+    const config = resolveTierConfig({
+      rules: { pro: { minBalance: 5000, minSpend90d: 2000, minLifetimeEarned: 0, match: 'all' } } as TierConfig['rules'],
+    });
+
+    expect(evaluateTier(config, metrics(6000, 1999))).toBe('rising');
+    expect(evaluateTier(config, metrics(6000, 2000))).toBe('pro');
+  });
+});
+
+describe('nextTierBalance', () => {
+  it('returns the balance of the tier above', () => {
+    expect(nextTierBalance(DEFAULT_TIER_CONFIG, 'starter')).toBe(1000);
+    expect(nextTierBalance(DEFAULT_TIER_CONFIG, 'pixlbeast')).toBe(50000);
+  });
+
+  it('returns null at the top tier', () => {
+    expect(nextTierBalance(DEFAULT_TIER_CONFIG, 'pixlionaire')).toBeNull();
+  });
+});
+
+describe('resolveTier', () => {
+  it('upgrades at once', () => {
+    expect(resolveTier(DEFAULT_TIER_CONFIG, state('starter'), metrics(5000), now)).toEqual({
+      tier: 'pro',
+      qualifiedTier: 'pro',
+      graceUntil: null,
+      override: null,
+      changed: true,
+      reason: 'qualified',
+    });
+  });
+
+  it('leaves a qualifying user alone and clears any grace period', () => {
+    expect(resolveTier(DEFAULT_TIER_CONFIG, state('pro', now + DAY_MS), metrics(5000), now))
+      .toMatchObject({ tier: 'pro', graceUntil: null, changed: false, reason: null });
+  });
+
+  it('starts a grace period instead of downgrading', () => {
+    expect(resolveTier(DEFAULT_TIER_CONFIG, state('pro'), metrics(1000), now)).toMatchObject({
+      tier: 'pro',
+      qualifiedTier: 'rising',
+      graceUntil: now + 30 * DAY_MS,
+      changed: false,
+    });
+  });
+
+  it('keeps the tier until the grace period ends', () => {
+    expect(resolveTier(DEFAULT_TIER_CONFIG, state('pro', now + 1), metrics(1000), now))
+      .toMatchObject({ tier: 'pro', graceUntil: now + 1, changed: false });
+  });
+
+  it('downgrades once the grace period has ended', () => {
+    expect(resolveTier(DEFAULT_TIER_CONFIG, state('pro', now), metrics(1000), now)).toMatchObject({
+      tier: 'rising',
+      graceUntil: null,
+      changed: true,
+      reason: 'grace-expired',
+    });
+  });
+
+  it('downgrades at once when there is no grace period', () => {
+    const config = resolveTierConfig({ graceDays: 0 });
+
+    expect(resolveTier(config, state('pro'), metrics(0), now))
+      .toMatchObject({ tier: 'starter', changed: true, reason: 'grace-expired' });
+  });
+
+  it('applies an active override whatever the user qualifies for', () => {
+    const active = override('pixlbeast', now + DAY_MS);
+
+    expect(resolveTier(DEFAULT_TIER_CONFIG, state('starter', null, active), metrics(0), now)).toEqual({
+      tier: 'pixlbeast',
+      qualifiedTier: 'starter',
+      graceUntil: null,
+      override: active,
+      changed: true,
+      reason: 'override',
+    });
+  });
+
+  it('drops an expired override and returns to the qualified tier', () => {
+    const expired = override('starter', now);
+
+    expect(resolveTier(DEFAULT_TIER_CONFIG, state('starter', null, expired), metrics(5000), now))
+      .toMatchObject({ tier: 'pro', override: null, changed: true, reason: 'override-expired' });
+  });
+
+  it('gives a grace period when an override above the qualified tier expires', () => {
+    const expired = override('pixlbeast', now - 1);
+
+    expect(resolveTier(DEFAULT_TIER_CONFIG, state('pixlbeast', null, expired), metrics(0), now))
+      .toMatchObject({ tier: 'pixlbeast', override: null, graceUntil: now + 30 * DAY_MS, changed: false });
+  });
+});
@@ -25,7 +25,8 @@ async function resetEncryption() {
     const userKeysSnapshot = await db.collection('userKeys').get();
     const deletePromises = [];
     userKeysSnapshot.forEach((doc) => {
-      deletePromises.push(doc.ref.delete());
+      // Device keys live in a subcollection that deleting the user doc leaves behind
+      deletePromises.push(db.recursiveDelete(doc.ref));
       console.log(`   Deleting keys for user: ${doc.id}`);
     });
     await Promise.all(deletePromises);
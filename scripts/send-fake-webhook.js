@@ -0,0 +1,44 @@
+// Send a signed fake-provider webhook to the Functions emulator
+// Start the emulator with PAYMENT_PROVIDER_MODE=fake in functions/.env.local, then run:
+// node scripts/send-fake-webhook.js <stripe|paypal|myfatoorah> <ord_...|pxp_...> <amountUsd> [paid|failed|pending]
+
+const crypto = require('crypto');
+
+const [provider, reference, amount, status = 'paid'] = process.argv.slice(2);
+
+if (!['stripe', 'paypal', 'myfatoorah'].includes(provider) || !reference || !amount) {
+  console.error('Usage: node scripts/send-fake-webhook.js <stripe|paypal|myfatoorah> <reference> <amountUsd> [paid|failed|pending]');
+  process.exit(1);
+}
+
+const secret = process.env.FAKE_PROVIDER_SECRET || 'fake-provider-secret';
+const projectId = process.env.FIREBASE_PROJECT_ID || 'pxl-perfect-1';
+const baseUrl = process.env.FUNCTIONS_EMULATOR_URL || `http://127.0.0.1:5001/${projectId}/us-central1`;
+
+async function sendFakeWebhook() {
+  const body = JSON.stringify({
+    id: `evt_fake_${Date.now()}`,
+    type: `payment.${status}`,
+    paymentId: `fake_${crypto.createHash('sha256').update(`${provider}:${reference}`).digest('hex').slice(0, 16)}`,
+    reference,
+    amount: Number(amount),
+    currency: 'USD',
+    status,
+  });
+
+  const response = await fetch(`${baseUrl}/${provider}Webhook`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Fake-Signature': crypto.createHmac('sha256', secret).update(body).digest('hex'),
+    },
+    body,
+  });
+
+  console.log(`${response.status}:`, await response.text());
+}
+
+sendFakeWebhook().catch(error => {
+  console.error('Error sending fake webhook:', error);
+  process.exit(1);
+});
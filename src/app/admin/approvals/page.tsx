@@ -0,0 +1,244 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  ClipboardCheck,
+  Clock,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Filter,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  ADMIN_CHANGE_LABELS,
+  AdminApproval,
+  ApprovalStatus,
+  listAdminChanges,
+  reviewAdminChange,
+} from "@/services/admin-approval-service";
+
+const statusColors: Record<ApprovalStatus, string> = {
+  pending: "bg-yellow-500",
+  approved: "bg-green-500",
+  rejected: "bg-gray-500",
+  expired: "bg-gray-700",
+  failed: "bg-red-500",
+};
+
+const STATUS_FILTERS: Array<ApprovalStatus | "all"> = ["pending", "approved", "rejected", "expired", "failed", "all"];
+
+function formatDiffValue(value: string | number | null): string {
+  if (value === null || value === "") return "-";
+  return typeof value === "number" ? value.toLocaleString() : value;
+}
+
+export default function AdminApprovalsPage() {
+  const { user, hasPermission } = useAuth();
+  const [approvals, setApprovals] = useState<AdminApproval[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<ApprovalStatus | "all">("pending");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [workingId, setWorkingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadApprovals = useCallback(async () => {
+    setLoading(true);
+    try {
+      setApprovals(await listAdminChanges(filterStatus === "all" ? undefined : filterStatus));
+    } catch (err) {
+      console.error("Error loading approvals:", err);
+      setError("Failed to load approvals");
+    } finally {
+      setLoading(false);
+    }
+  }, [filterStatus]);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals]);
+
+  const handleReview = async (approval: AdminApproval, decision: "approve" | "reject") => {
+    const note = notes[approval.id]?.trim();
+    setWorkingId(approval.id);
+    setError(null);
+    try {
+      const result = await reviewAdminChange(approval.id, decision, note || undefined);
+      if (result.status === "failed") {
+        setError(`${ADMIN_CHANGE_LABELS[approval.type]} for ${approval.target} could not be applied`);
+      }
+      setNotes((prev) => {
+        const next = { ...prev };
+        delete next[approval.id];
+        return next;
+      });
+      await loadApprovals();
+    } catch (err) {
+      console.error("Error reviewing change:", err);
+      setError(err instanceof Error ? err.message : "Failed to review change");
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-white mb-2">Approvals</h2>
+        <p className="text-gray-400">Sensitive changes proposed by one admin and applied after another approves them</p>
+      </div>
+
+      {/* Status Filter */}
+      <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
+        <div className="flex items-center space-x-2">
+          <Filter className="h-4 w-4 text-gray-400" />
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value as ApprovalStatus | "all")}
+            className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-gray-600"
+            aria-label="Filter by status"
+          >
+            {STATUS_FILTERS.map((status) => (
+              <option key={status} value={status}>
+                {status === "all" ? "All Status" : status.charAt(0).toUpperCase() + status.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-400">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-white"></div>
+        </div>
+      ) : approvals.length === 0 ? (
+        <div className="bg-gray-900 rounded-xl p-8 border border-gray-800 text-center">
+          <ClipboardCheck className="h-8 w-8 text-gray-600 mx-auto mb-2" />
+          <p className="text-gray-400">No changes to show</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {approvals.map((approval) => {
+            // Proposers may withdraw (reject) their own change but never approve it
+            const canReview = approval.status === "pending" && hasPermission(approval.permission);
+            const isProposer = user?.uid === approval.proposedBy;
+
+            return (
+              <div key={approval.id} className="bg-gray-900 rounded-xl p-6 border border-gray-800">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium text-white ${statusColors[approval.status]}`}>
+                        {approval.status}
+                      </span>
+                      <h3 className="text-white font-medium">{ADMIN_CHANGE_LABELS[approval.type]}</h3>
+                    </div>
+                    <p className="text-sm text-gray-400 mt-1">{approval.target}</p>
+                  </div>
+                  <div className="text-right text-xs text-gray-500">
+                    <p>Proposed by {approval.proposedByEmail || approval.proposedBy}</p>
+                    <p>{formatDistanceToNow(approval.proposedAt.toDate(), { addSuffix: true })}</p>
+                    {approval.status === "pending" && (
+                      <p className="flex items-center justify-end space-x-1 mt-1 text-yellow-400">
+                        <Clock className="h-3 w-3" />
+                        <span>Expires {formatDistanceToNow(approval.expiresAt.toDate(), { addSuffix: true })}</span>
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {/* Diff */}
+                <table className="w-full text-sm mb-4">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="pb-2 font-medium">Field</th>
+                      <th className="pb-2 font-medium">Current</th>
+                      <th className="pb-2 font-medium">Proposed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {approval.diff.map((line) => (
+                      <tr key={line.field} className="border-t border-gray-800">
+                        <td className="py-2 text-gray-400">{line.field}</td>
+                        <td className="py-2 text-gray-300">{formatDiffValue(line.from)}</td>
+                        <td className="py-2 text-white">{formatDiffValue(line.to)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <p className="text-sm text-gray-300 mb-2">
+                  <span className="text-gray-500">Reason: </span>{approval.reason}
+                </p>
+
+                {approval.reviewedAt && (
+                  <p className="text-sm text-gray-300 mb-2">
+                    <span className="text-gray-500">Reviewed: </span>
+                    {formatDistanceToNow(approval.reviewedAt.toDate(), { addSuffix: true })}
+                    {approval.reviewNote && ` - ${approval.reviewNote}`}
+                  </p>
+                )}
+
+                {approval.error && (
+                  <p className="text-sm text-red-400 mb-2">{approval.error}</p>
+                )}
+
+                {approval.auditActionIds.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {approval.auditActionIds.map((actionId) => (
+                      <span key={actionId} className="px-2 py-0.5 bg-gray-800 rounded text-xs text-gray-400 font-mono">
+                        admin-actions/{actionId}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {canReview && (
+                  <div className="mt-4 pt-4 border-t border-gray-800">
+                    <input
+                      type="text"
+                      value={notes[approval.id] || ""}
+                      onChange={(e) => setNotes({ ...notes, [approval.id]: e.target.value })}
+                      placeholder="Review note"
+                      className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+                      aria-label="Review note"
+                    />
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {!isProposer && (
+                        <button
+                          onClick={() => handleReview(approval, "approve")}
+                          disabled={workingId === approval.id}
+                          className="flex items-center space-x-1 px-3 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 rounded-lg text-sm font-medium text-white transition-colors"
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                          <span>Approve</span>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleReview(approval, "reject")}
+                        disabled={workingId === approval.id}
+                        className="flex items-center space-x-1 px-3 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-700 rounded-lg text-sm font-medium text-white transition-colors"
+                      >
+                        <XCircle className="h-4 w-4" />
+                        <span>{isProposer ? "Withdraw" : "Reject"}</span>
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,368 +1,443 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { collection, addDoc, query, where, getDocs, Timestamp } from 'firebase/firestore';
-import { Upload, CheckCircle, Loader2, FileSpreadsheet } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  Send,
+  Upload,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { useAuth } from '@/contexts/auth-context';
-import { db } from '@/lib/firebase-config';
-
-interface ParsedProduct {
-  brand: string;
-  name: string;
-  description: string;
-  category: string;
-  featured: boolean;
-  status: string;
-  artwork: string;
-  denominations: any[];
-  totalSold: number;
-  createdAt: Date;
+import { useAdminGuard } from '@/hooks/use-admin-guard';
+import { proposeCatalogImport } from '@/services/admin-approval-service';
+import {
+  CatalogImport,
+  CatalogImportStatus,
+  catalogImportTemplate,
+  IMPORT_FILE_TYPES,
+  isRevertable,
+  listCatalogImports,
+  revertCatalogImport,
+  startCatalogImport,
+  subscribeToCatalogImport,
+  validateCatalogImport,
+} from '@/services/catalog-import-service';
+
+const statusColors: Record<CatalogImportStatus, string> = {
+  uploading: 'bg-gray-500',
+  validating: 'bg-blue-500',
+  validated: 'bg-green-500',
+  invalid: 'bg-red-500',
+  queued: 'bg-yellow-500',
+  applying: 'bg-blue-500',
+  applied: 'bg-green-600',
+  failed: 'bg-red-600',
+  reverting: 'bg-yellow-600',
+  reverted: 'bg-gray-500',
+};
+
+function downloadTemplate() {
+  const blob = new Blob([catalogImportTemplate()], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'catalog-import-template.csv';
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
 export default function CSVImportPage() {
-  const { user, platformUser } = useAuth();
+  const { allowed } = useAdminGuard('catalog:write');
   const router = useRouter();
-  const [isImporting, setIsImporting] = useState(false);
-  const [importStatus, setImportStatus] = useState<string[]>([]);
-  const [parsedProducts, setParsedProducts] = useState<ParsedProduct[]>([]);
-  const [isComplete, setIsComplete] = useState(false);
-  const [file, setFile] = useState<File | null>(null);
-
-  // Check if user is admin
-  const isAdmin = platformUser?.tier?.current === 'pixlionaire' || 
-                  platformUser?.email === 'admin@pxlgiftcard.com';
-
-  // Function to expand serial range (e.g., "AMZN10XXX001-AMZN10XXX015")
-  const expandSerialRange = (rangeStr: string): string[] => {
-    const [start, end] = rangeStr.split('-');
-    if (!start || !end) return [rangeStr]; // Single serial
-    
-    // Extract the numeric part
-    const startMatch = start.match(/(\d+)$/);
-    const endMatch = end.match(/(\d+)$/);
-    
-    if (!startMatch || !endMatch) return [rangeStr];
-    
-    const prefix = start.substring(0, startMatch.index!);
-    const startNum = parseInt(startMatch[1]);
-    const endNum = parseInt(endMatch[1]);
-    const numDigits = startMatch[1].length;
-    
-    const serials = [];
-    for (let i = startNum; i <= endNum; i++) {
-      const paddedNum = i.toString().padStart(numDigits, '0');
-      serials.push(prefix + paddedNum);
-    }
-    
-    return serials;
-  };
+  const [jobs, setJobs] = useState<CatalogImport[]>([]);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [activeJob, setActiveJob] = useState<CatalogImport | null>(null);
+  const [working, setWorking] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
-  // Parse denomination string format: "value:quantity:serialRange|..."
-  const parseDenominations = (denomStr: string) => {
-    const denominations = [];
-    const denomParts = denomStr.replace(/"/g, '').split('|');
-    
-    for (const part of denomParts) {
-      const [value, quantity, serialRange] = part.split(':');
-      const serials = expandSerialRange(serialRange);
-      
-      denominations.push({
-        value: parseInt(value),
-        stock: parseInt(quantity),
-        serials: serials.map(code => ({
-          code,
-          status: 'available'
-        }))
-      });
+  const loadJobs = useCallback(async () => {
+    try {
+      setJobs(await listCatalogImports());
+    } catch (err) {
+      console.error('Error loading imports:', err);
     }
-    
-    return denominations;
-  };
+  }, []);
+
+  useEffect(() => {
+    if (allowed) loadJobs();
+  }, [allowed, loadJobs]);
 
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = event.target.files?.[0];
-    if (!selectedFile) return;
-
-    setFile(selectedFile);
-    setImportStatus(['File selected: ' + selectedFile.name]);
-    
-    // Parse CSV
-    const text = await selectedFile.text();
-    const lines = text.split('\n').filter(line => line.trim());
-    
-    if (lines.length < 2) {
-      setImportStatus(prev => [...prev, '❌ CSV file is empty or invalid']);
+  // Follow the selected import live, so dry-run results and apply progress show as they land
+  useEffect(() => {
+    if (!activeJobId) {
+      setActiveJob(null);
       return;
     }
+    return subscribeToCatalogImport(activeJobId, setActiveJob, (err) => {
+      console.error('Error watching import:', err);
+    });
+  }, [activeJobId]);
 
-    setImportStatus(prev => [...prev, `Found ${lines.length - 1} products to import`]);
-
-    const products: ParsedProduct[] = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line.trim()) continue;
-      
-      // Parse CSV line (handles quotes in denominations field)
-      const values: string[] = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let j = 0; j < line.length; j++) {
-        const char = line[j];
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          values.push(current.trim());
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      values.push(current.trim()); // Add last value
-      
-      if (values.length >= 10) {
-        const product: ParsedProduct = {
-          brand: values[0],
-          name: values[1],
-          description: values[2],
-          category: values[3],
-          featured: values[4] === 'true',
-          status: values[5],
-          artwork: values[6],
-          denominations: parseDenominations(values[7]),
-          totalSold: parseInt(values[8]) || 0,
-          createdAt: values[9] ? new Date(values[9]) : new Date()
-        };
-        products.push(product);
-      }
-    }
-    
-    setParsedProducts(products);
-    setImportStatus(prev => [...prev, `✅ Parsed ${products.length} products successfully`]);
+  const selectJob = (jobId: string) => {
+    setActiveJobId(jobId);
+    setReason('');
+    setNotice(null);
+    setError(null);
   };
 
-  const handleImport = async () => {
-    if (!isAdmin) {
-      alert('Only administrators can import products');
-      return;
+  const run = async (label: string, action: () => Promise<void>) => {
+    setWorking(label);
+    setError(null);
+    try {
+      await action();
+      await loadJobs();
+    } catch (err) {
+      console.error(`Error during ${label}:`, err);
+      setError(err instanceof Error ? err.message : `Failed: ${label}`);
+    } finally {
+      setWorking(null);
     }
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    run('dry-run', async () => {
+      setNotice(null);
+      const result = await startCatalogImport(file);
+      selectJob(result.jobId);
+    });
+  };
 
-    if (parsedProducts.length === 0) {
-      alert('No products to import');
+  const handlePropose = (job: CatalogImport) => {
+    if (!reason.trim()) {
+      setError('A reason is required');
       return;
     }
 
-    setIsImporting(true);
-    setImportStatus(prev => [...prev, '', 'Starting import...']);
-
-    let successCount = 0;
-    let errorCount = 0;
-    let skipCount = 0;
-
-    for (const product of parsedProducts) {
-      try {
-        setImportStatus(prev => [...prev, `Processing: ${product.brand} - ${product.name}`]);
-        
-        // Check if product already exists
-        const existingQuery = await getDocs(
-          query(
-            collection(db, 'products'),
-            where('brand', '==', product.brand),
-            where('name', '==', product.name)
-          )
-        );
-        
-        if (!existingQuery.empty) {
-          setImportStatus(prev => [...prev, `  ⚠️ Product already exists, skipping...`]);
-          skipCount++;
-          continue;
-        }
-        
-        // Calculate total stock
-        const totalStock = product.denominations.reduce((sum, d) => sum + d.stock, 0);
-        
-        // Create product document
-        const productData = {
-          brand: product.brand,
-          name: product.name,
-          description: product.description,
-          category: product.category,
-          featured: product.featured,
-          status: (totalStock > 0 ? product.status : 'out_of_stock') as 'active' | 'out_of_stock' | 'inactive',
-          defaultArtworkUrl: '', // Will be set later if artwork exists
-          artwork: product.artwork, // Store artwork identifier for later mapping
-          denominations: product.denominations,
-          totalSold: product.totalSold,
-          totalStock,
-          popularity: product.totalSold, // Use totalSold as initial popularity
-          createdAt: Timestamp.fromDate(product.createdAt),
-          updatedAt: Timestamp.now(),
-          
-          // Additional fields
-          supplierId: 'default',
-          supplierName: 'Default Supplier',
-          commission: 10,
-          bgColor: '#000000'
-        };
-        
-        // Add to Firestore
-        await addDoc(collection(db, 'products'), productData);
-        setImportStatus(prev => [...prev, `  ✅ Created successfully`]);
-        successCount++;
-        
-        // Small delay to prevent rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-      } catch (error) {
-        console.error('Error importing product:', error);
-        setImportStatus(prev => [...prev, `  ❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`]);
-        errorCount++;
-      }
-    }
+    run('proposal', async () => {
+      await proposeCatalogImport(job.id, reason.trim());
+      setReason('');
+      setNotice('Submitted for approval. Another catalog admin can apply it from Approvals.');
+    });
+  };
+
+  const handleRevert = (job: CatalogImport) => {
+    const revertReason = prompt(`Reason for reverting the import of ${job.fileName}:`);
+    if (!revertReason?.trim()) return;
 
-    setImportStatus(prev => [...prev, 
-      '',
-      '='.repeat(60),
-      '📊 Import Summary:',
-      `  ✅ Successfully imported: ${successCount} products`,
-      `  ⚠️ Skipped (already exists): ${skipCount} products`,
-      `  ❌ Failed: ${errorCount} products`,
-      `  📦 Total processed: ${parsedProducts.length} products`,
-      '='.repeat(60)
-    ]);
-    
-    setIsComplete(true);
-    setIsImporting(false);
+    run('revert', async () => {
+      const result = await revertCatalogImport(job.id, revertReason.trim());
+      setNotice(`Reverted ${result.products} products and ${result.codes} codes`);
+    });
   };
 
-  if (!user || !isAdmin) {
+  if (!allowed) {
     return (
       <div className="container mx-auto p-6">
         <div className="bg-red-500/10 border border-red-500 rounded-lg p-6">
           <h1 className="text-2xl font-bold text-red-500 mb-2">Access Denied</h1>
-          <p className="text-gray-400">Only administrators can access this page.</p>
+          <p className="text-gray-400">Only catalog managers can access this page.</p>
         </div>
       </div>
     );
   }
 
+  const progress = activeJob?.progress;
+  const percent = progress && progress.totalChunks > 0
+    ? Math.round((progress.appliedChunks / progress.totalChunks) * 100)
+    : 0;
+
   return (
-    <div className="container mx-auto p-6 max-w-4xl">
+    <div className="container mx-auto p-6 max-w-5xl space-y-6">
       <div className="bg-gray-900 rounded-lg shadow-xl p-8">
-        <div className="flex items-center gap-3 mb-6">
-          <FileSpreadsheet className="h-8 w-8 text-blue-500" />
-          <h1 className="text-3xl font-bold text-white">CSV Product Import</h1>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="h-8 w-8 text-blue-500" />
+            <h1 className="text-3xl font-bold text-white">Catalog Import</h1>
+          </div>
+          <Button onClick={downloadTemplate} variant="outline">
+            <Download className="h-4 w-4 mr-2" />
+            Template
+          </Button>
         </div>
 
         <div className="bg-blue-500/10 border border-blue-500 rounded-lg p-4 mb-6">
-          <h2 className="text-lg font-semibold text-blue-500 mb-2">ℹ️ Import Information</h2>
+          <h2 className="text-lg font-semibold text-blue-500 mb-2">How imports work</h2>
           <p className="text-gray-300">
-            This tool imports products from the CSV file format created for the PXL Giftcard Platform.
-            It will parse denominations, expand serial number ranges, and create product entries.
+            Upload a CSV, XLSX or JSON file and a dry-run checks every row: columns, categories, serial
+            ranges, and serials already in the file or the catalog. An import that passes is submitted for
+            approval; once another catalog admin approves it, it is written in chunks and its products go
+            live together. An applied import can be reverted as long as none of its codes were sold.
           </p>
         </div>
 
-        {!file && (
-          <div className="bg-gray-800 rounded-lg p-6 mb-6">
-            <h3 className="text-lg font-semibold text-white mb-4">Select CSV File</h3>
-            <input
-              type="file"
-              accept=".csv"
-              onChange={handleFileSelect}
-              className="block w-full text-sm text-gray-400
-                file:mr-4 file:py-2 file:px-4
-                file:rounded-full file:border-0
-                file:text-sm file:font-semibold
-                file:bg-blue-600 file:text-white
-                hover:file:bg-blue-700"
-            />
-            <p className="text-sm text-gray-500 mt-2">
-              Recommended: Use data/sample-products-import.csv for 50 sample products
-            </p>
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Upload File</h3>
+          <input
+            type="file"
+            accept={IMPORT_FILE_TYPES}
+            onChange={handleFileSelect}
+            disabled={!!working}
+            className="block w-full text-sm text-gray-400
+              file:mr-4 file:py-2 file:px-4
+              file:rounded-full file:border-0
+              file:text-sm file:font-semibold
+              file:bg-blue-600 file:text-white
+              hover:file:bg-blue-700"
+          />
+          <p className="text-sm text-gray-500 mt-2">
+            See data/CSV_IMPORT_README.md for the columns and the denominations format
+          </p>
+        </div>
+
+        {working && (
+          <div className="flex items-center gap-2 text-blue-400 mt-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            <span>{working === 'dry-run' ? 'Uploading and validating...' : `Running ${working}...`}</span>
           </div>
         )}
 
-        {parsedProducts.length > 0 && !isImporting && !isComplete && (
-          <div className="bg-gray-800 rounded-lg p-6 mb-6">
-            <h3 className="text-lg font-semibold text-white mb-4">Ready to Import</h3>
-            <p className="text-gray-300 mb-4">
-              Found {parsedProducts.length} products ready to import.
-            </p>
-            <div className="max-h-40 overflow-y-auto bg-black rounded p-3 mb-4">
-              {parsedProducts.slice(0, 10).map((p, i) => (
-                <div key={i} className="text-sm text-gray-400">
-                  • {p.brand} - {p.name}
-                </div>
-              ))}
-              {parsedProducts.length > 10 && (
-                <div className="text-sm text-gray-500 mt-2">
-                  ... and {parsedProducts.length - 10} more
-                </div>
-              )}
-            </div>
-            <Button
-              onClick={handleImport}
-              className="bg-blue-600 hover:bg-blue-700 text-white"
-            >
-              <Upload className="h-4 w-4 mr-2" />
-              Import Products
-            </Button>
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-400 mt-4">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error}</span>
           </div>
         )}
 
-        {isImporting && (
-          <div className="flex items-center gap-2 text-blue-400 mb-4">
-            <Loader2 className="h-5 w-5 animate-spin" />
-            <span>Importing products...</span>
+        {notice && (
+          <div className="flex items-center gap-2 text-sm text-yellow-400 mt-4">
+            <Clock className="h-4 w-4" />
+            <span>{notice}</span>
           </div>
         )}
+      </div>
 
-        {importStatus.length > 0 && (
-          <div className="bg-black rounded-lg p-4 mb-6">
-            <h3 className="text-white font-semibold mb-2">Import Log:</h3>
-            <div className="font-mono text-sm text-gray-400 space-y-1 max-h-96 overflow-y-auto">
-              {importStatus.map((status, index) => (
-                <div key={index}>{status}</div>
-              ))}
+      {/* Selected import */}
+      {activeJob && (
+        <div className="bg-gray-900 rounded-lg shadow-xl p-8 space-y-6">
+          <div className="flex items-start justify-between">
+            <div>
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium text-white ${statusColors[activeJob.status]}`}>
+                  {activeJob.status}
+                </span>
+                <h2 className="text-xl font-semibold text-white">{activeJob.fileName}</h2>
+              </div>
+              <p className="text-xs text-gray-500 mt-1 font-mono">{activeJob.id}</p>
             </div>
+            {activeJob.summary && (
+              <div className="text-right text-sm text-gray-300">
+                <p>{activeJob.summary.rows} rows</p>
+                <p>{activeJob.summary.products} valid products</p>
+                <p>{activeJob.summary.codes} serials</p>
+              </div>
+            )}
           </div>
-        )}
 
-        {isComplete && (
-          <div className="space-y-4">
-            <div className="bg-green-500/10 border border-green-500 rounded-lg p-4">
-              <div className="flex items-center gap-2">
-                <CheckCircle className="h-5 w-5 text-green-500" />
-                <span className="text-green-500 font-semibold">Import Complete!</span>
+          {activeJob.status === 'invalid' && (
+            <div>
+              <h3 className="text-white font-semibold mb-2">
+                {activeJob.errorCount} problem{activeJob.errorCount === 1 ? '' : 's'} found
+              </h3>
+              <p className="text-sm text-gray-400 mb-3">
+                Nothing was imported. Fix the rows below and upload the file again.
+                {activeJob.errorCount > activeJob.errors.length && ` Showing the first ${activeJob.errors.length}.`}
+              </p>
+              <div className="max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="pb-2 font-medium">Row</th>
+                      <th className="pb-2 font-medium">Field</th>
+                      <th className="pb-2 font-medium">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {activeJob.errors.map((rowError, i) => (
+                      <tr key={i} className="border-t border-gray-800">
+                        <td className="py-2 text-gray-300">{rowError.row || 'File'}</td>
+                        <td className="py-2 text-gray-400 font-mono">{rowError.field || '-'}</td>
+                        <td className="py-2 text-red-400">{rowError.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {activeJob.status === 'validated' && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-green-400">
+                <CheckCircle className="h-5 w-5" />
+                <span>Dry-run passed. Nothing has been written yet.</span>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="pb-2 font-medium">Row</th>
+                    <th className="pb-2 font-medium">Product</th>
+                    <th className="pb-2 font-medium">Category</th>
+                    <th className="pb-2 font-medium">Denominations</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {activeJob.preview.map((product) => (
+                    <tr key={product.row} className="border-t border-gray-800">
+                      <td className="py-2 text-gray-400">{product.row}</td>
+                      <td className="py-2 text-white">{product.brand} - {product.name}</td>
+                      <td className="py-2 text-gray-300">{product.category}</td>
+                      <td className="py-2 text-gray-300">
+                        {product.denominations.map(d => `$${d.value} × ${d.quantity}`).join(', ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {activeJob.summary && activeJob.summary.products > activeJob.preview.length && (
+                <p className="text-sm text-gray-500">
+                  ... and {activeJob.summary.products - activeJob.preview.length} more
+                </p>
+              )}
+
+              <div className="flex flex-col md:flex-row gap-3">
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason for the import"
+                  className="flex-1 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-gray-600"
+                  aria-label="Reason for the import"
+                />
+                <Button
+                  onClick={() => run('dry-run', async () => { await validateCatalogImport(activeJob.id); })}
+                  disabled={!!working}
+                  variant="outline"
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Dry-Run Again
+                </Button>
+                <Button
+                  onClick={() => handlePropose(activeJob)}
+                  disabled={!!working}
+                  className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  Submit for Approval
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {(activeJob.status === 'queued' || activeJob.status === 'applying' || activeJob.status === 'reverting') && progress && (
+            <div>
+              <div className="flex items-center justify-between text-sm text-gray-300 mb-2">
+                <span>
+                  {activeJob.status === 'reverting' ? 'Reverting' : activeJob.status === 'queued' ? 'Waiting to start' : 'Applying'}
+                  {' '}- chunk {progress.appliedChunks} of {progress.totalChunks || '?'}
+                </span>
+                <span>{progress.products} products, {progress.codes} codes written</span>
+              </div>
+              <div className="w-full h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
               </div>
             </div>
-            
-            <div className="flex gap-4">
-              <Button
-                onClick={() => router.push('/admin/products')}
-                className="bg-blue-600 hover:bg-blue-700"
-              >
+          )}
+
+          {activeJob.status === 'applied' && (
+            <div className="flex items-center gap-2 text-green-400">
+              <CheckCircle className="h-5 w-5" />
+              <span>
+                Imported {progress?.products} products and {progress?.codes} codes
+                {activeJob.appliedAt && ` on ${format(activeJob.appliedAt.toDate(), 'MMM d, yyyy HH:mm')}`}
+              </span>
+            </div>
+          )}
+
+          {activeJob.failure && (
+            <div className="flex items-center gap-2 text-sm text-red-400">
+              <AlertTriangle className="h-4 w-4" />
+              <span>{activeJob.failure}</span>
+            </div>
+          )}
+
+          {activeJob.status === 'reverted' && (
+            <p className="text-sm text-gray-400">
+              Reverted{activeJob.revertedAt && ` on ${format(activeJob.revertedAt.toDate(), 'MMM d, yyyy HH:mm')}`}: {activeJob.revertReason}
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            {activeJob.status === 'applied' && (
+              <Button onClick={() => router.push('/admin/products')} className="bg-blue-600 hover:bg-blue-700">
                 View Products
               </Button>
-              <Button
-                onClick={() => router.push('/marketplace')}
-                variant="outline"
-              >
-                View Marketplace
-              </Button>
-              <Button
-                onClick={() => window.location.reload()}
-                variant="outline"
-              >
-                Import More
+            )}
+            {isRevertable(activeJob) && (
+              <Button onClick={() => handleRevert(activeJob)} disabled={!!working} variant="outline">
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Revert Import
               </Button>
-            </div>
+            )}
           </div>
+        </div>
+      )}
+
+      {/* Recent imports */}
+      <div className="bg-gray-900 rounded-lg shadow-xl p-8">
+        <h2 className="text-lg font-semibold text-white mb-4">Recent Imports</h2>
+        {jobs.length === 0 ? (
+          <div className="text-center py-6">
+            <Upload className="h-8 w-8 text-gray-600 mx-auto mb-2" />
+            <p className="text-gray-400">No imports yet</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="pb-2 font-medium">File</th>
+                <th className="pb-2 font-medium">Status</th>
+                <th className="pb-2 font-medium">Products</th>
+                <th className="pb-2 font-medium">Codes</th>
+                <th className="pb-2 font-medium">Started</th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map((job) => (
+                <tr
+                  key={job.id}
+                  onClick={() => selectJob(job.id)}
+                  className={`border-t border-gray-800 cursor-pointer hover:bg-gray-800 ${job.id === activeJobId ? 'bg-gray-800' : ''}`}
+                >
+                  <td className="py-2 text-white">{job.fileName}</td>
+                  <td className="py-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium text-white ${statusColors[job.status]}`}>
+                      {job.status}
+                    </span>
+                  </td>
+                  <td className="py-2 text-gray-300">{job.summary?.products ?? '-'}</td>
+                  <td className="py-2 text-gray-300">{job.summary?.codes ?? '-'}</td>
+                  <td className="py-2 text-gray-400">{format(job.createdAt.toDate(), 'MMM d, yyyy HH:mm')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -14,10 +14,24 @@ import {
   RefreshCw,
   Download,
   BarChart3,
-  Clock
+  Clock,
+  ClipboardList
 } from "lucide-react";
 import { useAuth } from "@/contexts/auth-context";
+import { useAdminGuard } from "@/hooks/use-admin-guard";
 import { db } from "@/lib/firebase-config";
+import {
+  getGiftcardInventory,
+  DenominationInventory,
+  VaultSerialSummary
+} from "@/services/giftcard-vault-service";
+import {
+  buildReorderSuggestions,
+  createPurchaseOrder,
+  listOpenPurchaseOrders,
+  PurchaseOrder,
+  ReorderSuggestion
+} from "@/services/purchase-order-service";
 import { getLowStockProducts, releaseExpiredReservations } from "@/lib/inventory-service";
 
 interface Product {
@@ -25,15 +39,10 @@ interface Product {
   brand: string;
   name: string;
   category: string;
+  supplierId?: string;
   denominations: Array<{
     value: number;
     stock: number;
-    serials: Array<{
-      code: string;
-      status: 'available' | 'reserved' | 'sold';
-      orderId?: string;
-      reservedUntil?: any;
-    }>;
   }>;
   status: 'active' | 'inactive' | 'out_of_stock';
   totalSold: number;
@@ -60,9 +69,14 @@ interface LowStockItem {
 }
 
 export default function InventoryPage() {
-  const { user } = useAuth();
+  const { allowed } = useAdminGuard('catalog:read');
+  const { hasPermission } = useAuth();
+  const canOrder = hasPermission('catalog:write');
   const router = useRouter();
   const [products, setProducts] = useState<Product[]>([]);
+  // Serial counts come from the giftcard vault, never from product documents
+  const [inventory, setInventory] = useState<DenominationInventory[]>([]);
+  const [productSerials, setProductSerials] = useState<VaultSerialSummary[]>([]);
   const [stats, setStats] = useState<InventoryStats>({
     totalProducts: 0,
     activeProducts: 0,
@@ -77,10 +91,14 @@ export default function InventoryPage() {
   const [loading, setLoading] = useState(true);
   const [selectedProduct, setSelectedProduct] = useState<string | null>(null);
   const [stockThreshold, setStockThreshold] = useState(10);
+  // Low-stock denominations are reordered up to this many codes
+  const [reorderTarget, setReorderTarget] = useState(50);
+  const [openOrders, setOpenOrders] = useState<PurchaseOrder[]>([]);
+  const [supplierNames, setSupplierNames] = useState<Record<string, string>>({});
+  const [orderingFor, setOrderingFor] = useState<string | null>(null);
 
   useEffect(() => {
-    if (!user) {
-      router.push('/admin/login');
+    if (!allowed) {
       return;
     }
 
@@ -95,7 +113,6 @@ export default function InventoryPage() {
           ...doc.data()
         } as Product));
         setProducts(productsData);
-        calculateStats(productsData);
       }
     );
 
@@ -108,20 +125,30 @@ export default function InventoryPage() {
       unsubscribe();
       clearInterval(interval);
     };
-  }, [user, router, stockThreshold]);
+  }, [allowed, stockThreshold]);
 
   const fetchInventoryData = async () => {
     setLoading(true);
     try {
       // Fetch all products
-      const snapshot = await getDocs(collection(db, 'products'));
+      const [snapshot, vault, orders, suppliersSnapshot] = await Promise.all([
+        getDocs(collection(db, 'products')),
+        getGiftcardInventory(),
+        listOpenPurchaseOrders(),
+        getDocs(collection(db, 'suppliers'))
+      ]);
       const productsData: Product[] = snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data()
       } as Product));
       
       setProducts(productsData);
-      calculateStats(productsData);
+      setInventory(vault.denominations);
+      setOpenOrders(orders);
+      setSupplierNames(suppliersSnapshot.docs.reduce<Record<string, string>>((names, supplier) => ({
+        ...names,
+        [supplier.id]: supplier.data().name || supplier.id
+      }), {}));
       
       // Get low stock items
       const lowStock = await getLowStockProducts(stockThreshold);
@@ -133,6 +160,25 @@ export default function InventoryPage() {
     }
   };
 
+  useEffect(() => {
+    calculateStats(products);
+  }, [products, inventory, stockThreshold]);
+
+  // Redacted serials of the product whose details are open
+  useEffect(() => {
+    setProductSerials([]);
+    if (!selectedProduct) return;
+
+    getGiftcardInventory(selectedProduct)
+      .then(result => setProductSerials(result.serials))
+      .catch(error => console.error('Error fetching product serials:', error));
+  }, [selectedProduct]);
+
+  const countsFor = (productId: string, value: number) => {
+    return inventory.find(entry => entry.productId === productId && entry.denomination === value) ||
+      { available: 0, reserved: 0, sold: 0 };
+  };
+
   const calculateStats = (products: Product[]) => {
     const stats: InventoryStats = {
       totalProducts: products.length,
@@ -152,11 +198,9 @@ export default function InventoryPage() {
       let productHasLowStock = false;
       
       product.denominations.forEach(denom => {
-        const available = denom.serials.filter(s => s.status === 'available').length;
-        const reserved = denom.serials.filter(s => s.status === 'reserved').length;
-        const sold = denom.serials.filter(s => s.status === 'sold').length;
+        const { available, reserved, sold } = countsFor(product.id, denom.value);
         
-        stats.totalSerials += denom.serials.length;
+        stats.totalSerials += available + reserved + sold;
         stats.availableSerials += available;
         stats.reservedSerials += reserved;
         stats.soldSerials += sold;
@@ -177,10 +221,8 @@ export default function InventoryPage() {
     
     products.forEach(product => {
       product.denominations.forEach(denom => {
-        const available = denom.serials.filter(s => s.status === 'available').length;
-        const reserved = denom.serials.filter(s => s.status === 'reserved').length;
-        const sold = denom.serials.filter(s => s.status === 'sold').length;
-        const total = denom.serials.length;
+        const { available, reserved, sold } = countsFor(product.id, denom.value);
+        const total = available + reserved + sold;
         
         csvData.push(
           `${product.brand},${product.name},${denom.value},${available},${reserved},${sold},${total}`
@@ -196,6 +238,29 @@ export default function InventoryPage() {
     a.click();
   };
 
+  const reorderSuggestions = buildReorderSuggestions(products, inventory, openOrders, stockThreshold, reorderTarget);
+
+  const handleCreatePurchaseOrder = async (suggestion: ReorderSuggestion) => {
+    if (!suggestion.supplierId) return;
+    const supplierName = supplierNames[suggestion.supplierId] || suggestion.supplierId;
+    const total = suggestion.lines.reduce((sum, line) => sum + line.quantity, 0);
+    if (!confirm(`Order ${total} codes from ${supplierName}?`)) return;
+
+    setOrderingFor(suggestion.supplierId);
+    try {
+      await createPurchaseOrder(
+        suggestion.supplierId,
+        suggestion.lines.map(({ productId, denomination, quantity }) => ({ productId, denomination, quantity }))
+      );
+      router.push('/admin/purchase-orders');
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create purchase order');
+    } finally {
+      setOrderingFor(null);
+    }
+  };
+
   const handleReleaseExpired = async () => {
     await releaseExpiredReservations();
     await fetchInventoryData();
@@ -369,6 +434,68 @@ export default function InventoryPage() {
             </div>
           )}
 
+          {/* Reorder Suggestions */}
+          {reorderSuggestions.length > 0 && (
+            <div className="bg-gray-900 border border-gray-800 rounded-xl p-6 mb-8">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-white">Reorder Suggestions</h2>
+                <div className="flex items-center gap-2">
+                  <label className="text-gray-400 text-sm">Reorder up to:</label>
+                  <input
+                    type="number"
+                    value={reorderTarget}
+                    onChange={(e) => setReorderTarget(parseInt(e.target.value) || 0)}
+                    className="w-20 px-2 py-1 bg-gray-800 text-white border border-gray-700 rounded"
+                    aria-label="Reorder target stock"
+                  />
+                </div>
+              </div>
+              <div className="space-y-4">
+                {reorderSuggestions.map(suggestion => (
+                  <div key={suggestion.supplierId || 'unassigned'} className="p-4 bg-gray-800 rounded-lg">
+                    <div className="flex items-center justify-between mb-3">
+                      <p className="text-white font-medium">
+                        {suggestion.supplierId
+                          ? supplierNames[suggestion.supplierId] || suggestion.supplierId
+                          : 'No supplier on file'}
+                      </p>
+                      {suggestion.supplierId && canOrder && (
+                        <button
+                          onClick={() => handleCreatePurchaseOrder(suggestion)}
+                          disabled={orderingFor !== null}
+                          className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2 text-sm"
+                        >
+                          <ClipboardList className="h-4 w-4" />
+                          {orderingFor === suggestion.supplierId ? 'Creating...' : 'Create Purchase Order'}
+                        </button>
+                      )}
+                    </div>
+                    <table className="w-full text-left text-sm">
+                      <thead>
+                        <tr className="text-gray-400">
+                          <th className="pb-2 font-medium">Product</th>
+                          <th className="pb-2 font-medium">Available</th>
+                          <th className="pb-2 font-medium">On Order</th>
+                          <th className="pb-2 font-medium">Suggested</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {suggestion.lines.map(line => (
+                          <tr key={`${line.productId}:${line.denomination}`} className="border-t border-gray-700">
+                            <td className="py-2 text-gray-300">{line.productName} ${line.denomination}</td>
+                            <td className="py-2 text-yellow-400">{line.available}</td>
+                            <td className="py-2 text-gray-300">{line.onOrder}</td>
+                            <td className="py-2 text-white font-medium">{line.quantity}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Product Inventory Table */}
           <div className="bg-gray-900 border border-gray-800 rounded-xl p-6">
             <h2 className="text-xl font-semibold text-white mb-4">Product Inventory</h2>
@@ -388,17 +515,18 @@ export default function InventoryPage() {
                 <tbody>
                   {products.map(product => {
                     const totalAvailable = product.denominations.reduce((sum, d) => 
-                      sum + d.serials.filter(s => s.status === 'available').length, 0
+                      sum + countsFor(product.id, d.value).available, 0
                     );
                     const totalReserved = product.denominations.reduce((sum, d) => 
-                      sum + d.serials.filter(s => s.status === 'reserved').length, 0
+                      sum + countsFor(product.id, d.value).reserved, 0
                     );
                     const totalSold = product.denominations.reduce((sum, d) => 
-                      sum + d.serials.filter(s => s.status === 'sold').length, 0
+                      sum + countsFor(product.id, d.value).sold, 0
                     );
                     
                     return (
-                      <tr key={product.id} className="border-b border-gray-800">
+                      <React.Fragment key={product.id}>
+                      <tr className="border-b border-gray-800">
                         <td className="py-4">
                           <div>
                             <p className="text-white font-medium">{product.brand}</p>
@@ -437,6 +565,34 @@ export default function InventoryPage() {
                           </button>
                         </td>
                       </tr>
+                      {product.id === selectedProduct && (
+                        <tr className="border-b border-gray-800">
+                          <td colSpan={7} className="py-4">
+                            {/* Codes stay sealed in the vault; only their hints are shown */}
+                            {productSerials.length === 0 ? (
+                              <p className="text-gray-500 text-sm">No serials in the vault</p>
+                            ) : (
+                              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                                {productSerials.map(serial => (
+                                  <div key={serial.serialId} className="flex items-center justify-between px-3 py-2 bg-gray-800 rounded-lg text-sm">
+                                    <span className="font-mono text-gray-300">${serial.denomination} {serial.hint}</span>
+                                    <span className={
+                                      serial.status === 'available'
+                                        ? 'text-green-400'
+                                        : serial.status === 'reserved'
+                                        ? 'text-yellow-400'
+                                        : 'text-blue-400'
+                                    }>
+                                      {serial.status}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                      </React.Fragment>
                     );
                   })}
                 </tbody>
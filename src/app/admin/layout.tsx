@@ -1,38 +1,54 @@
 // Admin layout with route protection
 "use client";
 
-import { useEffect } from "react";
 import Link from "next/link";
-import { useRouter, usePathname } from "next/navigation";
-import { LayoutDashboard, Users, TrendingUp, Package, Shield, Settings, MessageSquare, CreditCard } from "lucide-react";
+import { usePathname } from "next/navigation";
+import { LayoutDashboard, Users, TrendingUp, Package, Shield, Settings, MessageSquare, CreditCard, ClipboardCheck, ClipboardList, Receipt } from "lucide-react";
 import { useAuth } from "@/contexts/auth-context";
+import { useAdminGuard } from "@/hooks/use-admin-guard";
+import { ADMIN_ROLE_LABELS, permissionForAdminPath } from "@/services/admin-role-service";
 
 const navigation = [
   { name: 'Dashboard', href: '/admin', icon: LayoutDashboard },
   { name: 'Users', href: '/admin/users', icon: Users },
   { name: 'Products', href: '/admin/products', icon: CreditCard },
   { name: 'Suppliers', href: '/admin/suppliers', icon: Package },
+  { name: 'Purchase Orders', href: '/admin/purchase-orders', icon: ClipboardList },
+  { name: 'Settlements', href: '/admin/settlements', icon: Receipt },
   { name: 'PXL Config', href: '/admin/pxl-config', icon: TrendingUp },
+  { name: 'Approvals', href: '/admin/approvals', icon: ClipboardCheck },
   { name: 'Support', href: '/admin/support', icon: MessageSquare },
   { name: 'Security', href: '/admin/security', icon: Shield },
   { name: 'Settings', href: '/admin/settings', icon: Settings },
 ];
 
+// Open to signed-in users without a role so the first super-admin can be set up
+const SETUP_PATH = '/admin/setup-admin';
+
 export default function AdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const { user, platformUser, isAdmin, loading } = useAuth();
-  const router = useRouter();
   const pathname = usePathname();
 
-  useEffect(() => {
-    // Redirect non-admin users
-    if (!loading && (!user || !platformUser || !isAdmin)) {
-      router.replace("/");
-    }
-  }, [user, platformUser, isAdmin, loading, router]);
+  if (pathname === SETUP_PATH) {
+    return <>{children}</>;
+  }
+
+  return <GuardedAdminLayout pathname={pathname}>{children}</GuardedAdminLayout>;
+}
+
+function GuardedAdminLayout({
+  pathname,
+  children,
+}: {
+  pathname: string;
+  children: React.ReactNode;
+}) {
+  const { platformUser, adminRole, hasPermission } = useAuth();
+  // Every admin page requires the permission mapped to its route
+  const { allowed, loading } = useAdminGuard(permissionForAdminPath(pathname));
 
   // Show loading state
   if (loading) {
@@ -43,8 +59,8 @@ export default function AdminLayout({
     );
   }
 
-  // Don't render anything if not admin
-  if (!user || !platformUser || !isAdmin) {
+  // Don't render anything if not allowed
+  if (!allowed || !platformUser || !adminRole) {
     return null;
   }
 
@@ -56,7 +72,7 @@ export default function AdminLayout({
           <div className="flex items-center justify-between">
             <h1 className="text-xl font-semibold text-white">Admin Dashboard</h1>
             <div className="flex items-center space-x-2">
-              <span className="text-sm text-gray-400">Admin:</span>
+              <span className="text-sm text-gray-400">{ADMIN_ROLE_LABELS[adminRole]}:</span>
               <span className="text-sm text-white">{platformUser.email}</span>
             </div>
           </div>
@@ -67,7 +83,10 @@ export default function AdminLayout({
         {/* Sidebar Navigation */}
         <nav className="w-64 bg-gray-950 border-r border-gray-900 min-h-[calc(100vh-65px)]">
           <div className="p-4 space-y-2">
-            {navigation.map((item) => {
+            {navigation.filter((item) => {
+              const permission = permissionForAdminPath(item.href);
+              return !permission || hasPermission(permission);
+            }).map((item) => {
               const isActive = pathname === item.href;
               return (
                 <Link
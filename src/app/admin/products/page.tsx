@@ -12,15 +12,12 @@ import {
   deleteDoc,
   Timestamp,
   query,
-  orderBy,
-  getDoc,
-  where
+  orderBy
 } from "firebase/firestore";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { 
   Search, 
   Upload, 
-  Download, 
   Edit2, 
   Trash2, 
   Plus,
@@ -35,21 +32,16 @@ import {
 } from "lucide-react";
 import { ArtworkGalleryModal } from "@/components/admin/artwork-gallery-modal";
 import { useAuth } from "@/contexts/auth-context";
-import { addSerialCodes } from "@/lib/inventory-service";
+import { useAdminGuard } from "@/hooks/use-admin-guard";
 import { db, storage } from "@/lib/firebase-config";
 import { optimizeImage, validateImageFile, generateArtworkFilename, ARTWORK_DIMENSIONS } from "@/lib/image-optimizer";
+import { proposeGiftcardCodes } from "@/services/admin-approval-service";
+import { getGiftcardInventory, VaultSerialSummary } from "@/services/giftcard-vault-service";
 
-interface ProductSerial {
-  code: string;
-  status: 'available' | 'sold' | 'reserved';
-  soldAt?: Timestamp;
-  orderId?: string;
-}
-
+// Serial codes are sealed in the giftcard vault, never stored on the product
 interface ProductDenomination {
   value: number;
   stock: number;
-  serials: ProductSerial[];
   artworkUrl?: string; // Denomination-specific artwork
 }
 
@@ -77,16 +69,16 @@ interface Product {
 }
 
 export default function ProductsPage() {
-  const { loading: authLoading, isAdmin } = useAuth();
+  const { hasPermission } = useAuth();
+  const { allowed, loading: authLoading } = useAdminGuard('catalog:read');
+  const canEdit = hasPermission('catalog:write');
   const router = useRouter();
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const artworkInputRef = useRef<HTMLInputElement>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
   const [isArtworkModalOpen, setIsArtworkModalOpen] = useState(false);
   const [selectedDenomination, setSelectedDenomination] = useState<number | 'default'>('default');
   const [artworkPreview, setArtworkPreview] = useState<string | null>(null);
@@ -94,6 +86,8 @@ export default function ProductsPage() {
   const [showArtworkGallery, setShowArtworkGallery] = useState(false);
   const [selectedArtworkForProduct, setSelectedArtworkForProduct] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  // Redacted serials of the product being edited
+  const [vaultSerials, setVaultSerials] = useState<VaultSerialSummary[]>([]);
   const [formData, setFormData] = useState({
     brand: '',
     name: '',
@@ -107,16 +101,9 @@ export default function ProductsPage() {
     bgColor: '#000000',
     status: 'active' as 'active' | 'inactive' | 'out_of_stock',
     featured: false,
-    denominations: [{ value: 25, stock: 0, serials: [] }] as ProductDenomination[]
+    denominations: [{ value: 25, stock: 0 }] as ProductDenomination[]
   });
 
-  // Check admin access
-  useEffect(() => {
-    if (!authLoading && !isAdmin) {
-      router.push('/dashboard');
-    }
-  }, [authLoading, isAdmin, router]);
-
   // Load products from Firestore
   useEffect(() => {
     const loadProducts = async () => {
@@ -135,324 +122,26 @@ export default function ProductsPage() {
       }
     };
 
-    if (!authLoading && isAdmin) {
+    if (!authLoading && allowed) {
       loadProducts();
     }
-  }, [authLoading, isAdmin]);
-
-  const downloadCSVTemplate = () => {
-    // Create CSV template with headers and sample data
-    const headers = [
-      'brand',
-      'name', 
-      'category',
-      'description',
-      'logo_url',
-      'supplier_id',
-      'supplier_name',
-      'commission',
-      'denominations',
-      'serials',
-      'bg_color',
-      'status',
-      'artwork_mode', // New: auto, manual, or specific URL
-      'artwork_url' // New: optional, used when artwork_mode is manual
-    ];
-    
-    const sampleData = [
-      [
-        'Amazon',
-        'Amazon Gift Card',
-        'Shopping',
-        'Shop millions of products on Amazon',
-        'https://example.com/amazon-logo.png',
-        'supplier_001',
-        'Blackhawk Network',
-        '10',
-        '25;50;100;200', // Multiple denominations separated by semicolon
-        'AMZ25001:25;AMZ25002:25;AMZ50001:50;AMZ50002:50;AMZ100001:100', // Format: serial:denomination
-        '#FF9900',
-        'active',
-        'auto', // Will auto-match based on brand "Amazon"
-        '' // Leave empty for auto mode
-      ],
-      [
-        'iTunes',
-        'iTunes Gift Card',
-        'Entertainment',
-        'Music, movies, and more on iTunes',
-        'https://example.com/itunes-logo.png',
-        'supplier_002',
-        'InComm Payments',
-        '12',
-        '15;25;50;100',
-        'ITU15001:15;ITU15002:15;ITU25001:25;ITU50001:50',
-        '#FC3C44',
-        'active',
-        'auto', // Will auto-match based on brand "iTunes" and category "Entertainment"
-        ''
-      ],
-      [
-        'Steam',
-        'Steam Wallet Card',
-        'Gaming',
-        'Games and software on Steam',
-        'https://example.com/steam-logo.png',
-        'supplier_002',
-        'InComm Payments',
-        '8',
-        '20;50;100',
-        'STM20001:20;STM20002:20;STM50001:50;STM100001:100',
-        '#171A21',
-        'active',
-        'manual', // Use specific URL provided
-        'https://example.com/custom-steam-artwork.jpg' // Custom artwork URL
-      ],
-      [
-        'Starbucks',
-        'Starbucks Card',
-        'Dining',
-        'Coffee and treats at Starbucks',
-        'https://example.com/starbucks-logo.png',
-        'supplier_003',
-        'Blackhawk Network',
-        '8',
-        '10;25;50',
-        'SBX10001:10;SBX25001:25;SBX50001:50',
-        '#00704A',
-        'active',
-        'auto', // Will match based on "Starbucks" and "Dining" category
-        ''
-      ]
-    ];
-    
-    // Add instructions as comments
-    const instructions = [
-      '# CSV Import Instructions:',
-      '# artwork_mode options:',
-      '#   - auto: System will automatically match artwork based on brand/name/category',
-      '#   - manual: Use the URL provided in artwork_url column',
-      '#   - leave empty: No artwork will be assigned',
-      '# ',
-      '# The auto mode uses intelligent matching:',
-      '#   1. Exact brand match from artwork repository',
-      '#   2. Category-based matching (gaming, entertainment, shopping, etc.)',
-      '#   3. Tag-based fuzzy matching',
-      '#   4. Default/generic artwork as fallback',
-      '# ',
-      '# Tips for best results:',
-      '#   - Upload brand-specific artwork to the repository first',
-      '#   - Use consistent naming (e.g., "Amazon" not "AMZN")',
-      '#   - Set appropriate categories for better matching',
-      '# '
-    ];
-    
-    // Combine instructions, headers and sample data
-    const csvContent = [
-      ...instructions,
-      headers.join(','),
-      ...sampleData.map(row => row.join(','))
-    ].join('\n');
-    
-    // Create blob and download
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'product_import_template.csv');
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
-  // Function to expand serial range (e.g., "AMZN10XXX001-AMZN10XXX015")
-  const expandSerialRange = (rangeStr: string): string[] => {
-    const [start, end] = rangeStr.split('-');
-    if (!start || !end) return [rangeStr]; // Single serial
-    
-    const startMatch = start.match(/(\d+)$/);
-    const endMatch = end.match(/(\d+)$/);
-    
-    if (!startMatch || !endMatch) return [rangeStr];
-    
-    const prefix = start.substring(0, startMatch.index!);
-    const startNum = parseInt(startMatch[1]);
-    const endNum = parseInt(endMatch[1]);
-    const numDigits = startMatch[1].length;
-    
-    const serials = [];
-    for (let i = startNum; i <= endNum; i++) {
-      const paddedNum = i.toString().padStart(numDigits, '0');
-      serials.push(prefix + paddedNum);
-    }
-    
-    return serials;
-  };
+  }, [authLoading, allowed]);
 
-  // Parse denomination string format: "value:quantity:serialRange|..."
-  const parseDenominations = (denomStr: string) => {
-    const denominations: ProductDenomination[] = [];
-    const denomParts = denomStr.replace(/"/g, '').split('|');
-    
-    for (const part of denomParts) {
-      const [value, quantity, serialRange] = part.split(':');
-      const serials = expandSerialRange(serialRange);
-      
-      denominations.push({
-        value: parseInt(value),
-        stock: parseInt(quantity),
-        serials: serials.map(code => ({
-          code,
-          status: 'available' as const
-        }))
-      });
-    }
-    
-    return denominations;
-  };
-
-  const handleCSVUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Load the redacted vault serials of the product being edited
+  useEffect(() => {
+    setVaultSerials([]);
+    if (!isModalOpen || !selectedProduct) return;
 
-    setIsUploading(true);
-    try {
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      if (lines.length < 2) {
-        alert('CSV file is empty or invalid');
-        setIsUploading(false);
-        return;
-      }
-
-      console.log(`Processing ${lines.length - 1} products from CSV...`);
-      let successCount = 0;
-      let skipCount = 0;
-      let errorCount = 0;
-      
-      // Process each product (skip header row)
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i];
-        if (!line.trim()) continue;
-        
-        // Parse CSV line (handles quotes in denominations field)
-        const values: string[] = [];
-        let current = '';
-        let inQuotes = false;
-        
-        for (let j = 0; j < line.length; j++) {
-          const char = line[j];
-          if (char === '"') {
-            inQuotes = !inQuotes;
-          } else if (char === ',' && !inQuotes) {
-            values.push(current.trim());
-            current = '';
-          } else {
-            current += char;
-          }
-        }
-        values.push(current.trim()); // Add last value
-        
-        if (values.length < 10) {
-          console.warn(`Skipping row ${i + 1}: insufficient columns`);
-          continue;
-        }
-        
-        try {
-          const brand = values[0];
-          const name = values[1];
-          const description = values[2];
-          const category = values[3];
-          const featured = values[4] === 'true';
-          const status = values[5];
-          const artwork = values[6];
-          const denominationsStr = values[7];
-          const totalSold = parseInt(values[8]) || 0;
-          const createdAt = values[9] ? Timestamp.fromDate(new Date(values[9])) : Timestamp.now();
-        
-          // Check if product exists
-          const existingProducts = await getDocs(
-            query(
-              collection(db, 'products'),
-              where('brand', '==', brand),
-              where('name', '==', name)
-            )
-          );
-          
-          if (!existingProducts.empty) {
-            console.log(`Product ${brand} - ${name} already exists, skipping...`);
-            skipCount++;
-            continue;
-          }
-          
-          // Parse denominations with serials
-          const denominations = parseDenominations(denominationsStr);
-          
-          // Calculate total stock
-          const totalStock = denominations.reduce((sum, d) => sum + d.stock, 0);
-          
-          // Create product document
-          const productData: Omit<Product, 'id'> = {
-            brand,
-            name,
-            description,
-            category,
-            featured,
-            status: (totalStock > 0 ? status : 'out_of_stock') as 'active' | 'out_of_stock' | 'inactive',
-            defaultArtworkUrl: '', // Will be set later if artwork mapping exists
-            artwork, // Store artwork identifier for later mapping
-            denominations,
-            totalSold,
-            totalStock,
-            popularity: totalSold, // Use totalSold as initial popularity
-            createdAt,
-            updatedAt: Timestamp.now(),
-            
-            // Additional fields with defaults
-            supplierId: 'default',
-            supplierName: 'Default Supplier',
-            commission: 10,
-            bgColor: '#000000',
-            logo: '' // Can be updated later
-          };
-          
-          // Add to Firestore
-          await addDoc(collection(db, 'products'), productData);
-          console.log(`Created product: ${brand} - ${name}`);
-          successCount++;
-          
-        } catch (error) {
-          console.error(`Error processing row ${i + 1}:`, error);
-          errorCount++;
-        }
-      }
-      
-      // Refresh products list
-      const snapshot = await getDocs(collection(db, 'products'));
-      const productsData: Product[] = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as Product));
-      setProducts(productsData);
-      
-      // Show import results
-      const message = `CSV Import Complete!\n\n✅ Successfully imported: ${successCount} products\n⚠️ Skipped (already exists): ${skipCount} products\n❌ Failed: ${errorCount} products\n\nTotal processed: ${lines.length - 1} rows`;
-      console.log(message);
-      alert(message);
-    } catch (error) {
-      console.error('Error importing CSV:', error);
-      alert('Error importing CSV. Please check the file format.');
-    } finally {
-      setIsUploading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    }
-  };
+    getGiftcardInventory(selectedProduct.id)
+      .then(inventory => setVaultSerials(inventory.serials))
+      .catch(error => console.error('Error loading vault serials:', error));
+  }, [isModalOpen, selectedProduct?.id]);
 
   const handleDeleteProduct = async (productId: string) => {
+    if (!canEdit) {
+      alert('Only catalog managers can change products');
+      return;
+    }
     if (!confirm('Are you sure you want to delete this product?')) return;
     
     try {
@@ -465,6 +154,10 @@ export default function ProductsPage() {
   };
 
   const handleArtworkUpload = async () => {
+    if (!canEdit) {
+      alert('Only catalog managers can change products');
+      return;
+    }
     if (!selectedProduct || (!artworkPreview && !selectedArtworkForProduct)) return;
 
     setUploadingArtwork(true);
@@ -580,13 +273,17 @@ export default function ProductsPage() {
   };
 
   const handleSaveProduct = async () => {
+    if (!canEdit) {
+      alert('Only catalog managers can change products');
+      return;
+    }
     try {
       if (!formData.brand || !formData.name) {
         alert('Brand and Name are required');
         return;
       }
 
-      // Prepare product data - keep existing serials, don't override them
+      // Prepare product data - stock is managed through the giftcard vault
       const productData = {
         brand: formData.brand,
         name: formData.name,
@@ -607,7 +304,7 @@ export default function ProductsPage() {
       };
 
       if (selectedProduct) {
-        // Update existing product - DO NOT touch denominations/serials
+        // Update existing product - DO NOT touch denominations/stock
         await updateDoc(doc(db, 'products', selectedProduct.id), productData);
         
         // Update local state
@@ -625,7 +322,6 @@ export default function ProductsPage() {
           denominations: formData.denominations.map((d: ProductDenomination) => ({
             value: d.value,
             stock: 0,
-            serials: [],
             artworkUrl: d.artworkUrl || ''
           }))
         };
@@ -645,30 +341,26 @@ export default function ProductsPage() {
     }
   };
 
-  // Separate function to handle adding serial codes
+  // Separate function to handle adding serial codes; they are sealed into the vault
   const handleAddSerialCodes = async (productId: string, denomination: number, serialCodes: string[]) => {
+    if (!canEdit) {
+      alert('Only catalog managers can change products');
+      return;
+    }
+    const reason = prompt('Reason for adding these codes (another admin must approve them):');
+    if (!reason?.trim()) {
+      return false;
+    }
+
     try {
-      const result = await addSerialCodes(productId, denomination, serialCodes);
+      // Stock changes once another catalog admin approves the batch
+      const proposals = await proposeGiftcardCodes(productId, denomination, serialCodes, reason.trim());
       
-      if (result.success) {
-        // Refresh the product to get updated data
-        const productDoc = await getDoc(doc(db, 'products', productId));
-        if (productDoc.exists()) {
-          const updatedProduct = { ...productDoc.data(), id: productId } as Product;
-          setProducts(products.map(p => 
-            p.id === productId ? updatedProduct : p
-          ));
-        }
-        
-        alert(`Successfully added ${result.added} serial codes. Duplicates: ${result.duplicates.length}`);
-        return true;
-      } else {
-        alert(`Failed to add serial codes: ${result.error}`);
-        return false;
-      }
+      alert(`Submitted ${serialCodes.length} serial codes for approval in ${proposals.length} batch(es).`);
+      return true;
     } catch (error) {
-      console.error('Error adding serial codes:', error);
-      alert('Failed to add serial codes');
+      console.error('Error proposing serial codes:', error);
+      alert(error instanceof Error ? error.message : 'Failed to propose serial codes');
       return false;
     }
   };
@@ -687,7 +379,7 @@ export default function ProductsPage() {
       bgColor: '#000000',
       status: 'active',
       featured: false,
-      denominations: [{ value: 25, stock: 0, serials: [] }]
+      denominations: [{ value: 25, stock: 0 }]
     });
     setSelectedProduct(null);
   };
@@ -742,15 +434,6 @@ export default function ProductsPage() {
           <p className="text-gray-400 mt-1">Manage gift cards, denominations, and serial codes</p>
         </div>
         <div className="flex items-center space-x-3">
-          <input
-            type="file"
-            ref={fileInputRef}
-            onChange={handleCSVUpload}
-            accept=".csv"
-            className="hidden"
-            aria-label="CSV file upload"
-          />
-          
           {/* View Mode Toggle */}
           <div className="flex bg-gray-800 rounded-lg p-1">
             <button
@@ -797,20 +480,12 @@ export default function ProductsPage() {
           </button>
           
           <button
-            onClick={downloadCSVTemplate}
-            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors whitespace-nowrap"
-            title="Download CSV template with sample data"
-          >
-            <Download className="h-4 w-4 mr-2" />
-            <span className="text-sm">Template</span>
-          </button>
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            disabled={isUploading}
-            className="flex items-center px-4 py-2 bg-gray-800 text-gray-300 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+            onClick={() => router.push('/admin/csv-import')}
+            className="flex items-center px-4 py-2 bg-gray-800 text-gray-300 rounded-lg hover:bg-gray-700 transition-colors whitespace-nowrap"
+            title="Import products from a CSV, XLSX or JSON file"
           >
             <Upload className="h-4 w-4 mr-2" />
-            <span className="text-sm">{isUploading ? 'Uploading...' : 'Import'}</span>
+            <span className="text-sm">Import</span>
           </button>
           <button
             onClick={() => openProductModal()}
@@ -1296,7 +971,7 @@ export default function ProductsPage() {
                           <label className="text-xs text-gray-400">Current Stock</label>
                           <input
                             type="text"
-                            value={`${denom.serials?.filter((s: any) => s.status === 'available').length || 0} available`}
+                            value={`${denom.stock || 0} available`}
                             disabled
                             className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-gray-400"
                           />
@@ -1319,8 +994,8 @@ export default function ProductsPage() {
                         <div className="flex justify-between items-center">
                           <label className="text-xs text-gray-400">Serial Codes Management</label>
                           <span className="text-xs text-gray-500">
-                            {denom.serials?.length || 0} total, 
-                            {denom.serials?.filter((s: any) => s.status === 'available').length || 0} available
+                            {vaultSerials.filter(s => s.denomination === denom.value).length} total, 
+                            {vaultSerials.filter(s => s.denomination === denom.value && s.status === 'available').length} available
                           </span>
                         </div>
                         {selectedProduct ? (
@@ -1367,16 +1042,17 @@ export default function ProductsPage() {
                             </p>
                           </div>
                         )}
-                        {denom.serials && denom.serials.length > 0 && (
+                        {vaultSerials.some(s => s.denomination === denom.value) && (
                           <div className="text-xs text-gray-500">
                             <details>
                               <summary className="cursor-pointer hover:text-gray-400">
-                                View current serials ({denom.serials.length})
+                                View current serials ({vaultSerials.filter(s => s.denomination === denom.value).length})
                               </summary>
                               <div className="mt-2 max-h-32 overflow-y-auto bg-gray-900 p-2 rounded">
-                                {denom.serials.map((serial: any, sIdx: number) => (
-                                  <div key={sIdx} className="flex justify-between py-1">
-                                    <span className="font-mono">{serial.code}</span>
+                                {vaultSerials.filter(s => s.denomination === denom.value).map(serial => (
+                                  <div key={serial.serialId} className="flex justify-between py-1">
+                                    {/* Codes stay sealed in the vault; only their hints are shown */}
+                                    <span className="font-mono">{serial.hint}</span>
                                     <span className={`px-2 py-0.5 rounded text-xs ${
                                       serial.status === 'available' ? 'bg-green-900 text-green-300' :
                                       serial.status === 'reserved' ? 'bg-yellow-900 text-yellow-300' :
@@ -1397,7 +1073,7 @@ export default function ProductsPage() {
                     onClick={() => {
                       setFormData({
                         ...formData,
-                        denominations: [...formData.denominations, { value: 0, stock: 0, serials: [] }]
+                        denominations: [...formData.denominations, { value: 0, stock: 0 }]
                       });
                     }}
                     className="flex items-center px-3 py-2 bg-gray-800 text-gray-400 hover:text-white border border-gray-700 rounded-lg transition-colors"
@@ -0,0 +1,307 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import {
+  ClipboardList,
+  Clock,
+  Filter,
+  PackageCheck,
+  XCircle,
+  AlertTriangle,
+} from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/contexts/auth-context";
+import { proposePurchaseOrderReceipt } from "@/services/admin-approval-service";
+import {
+  cancelPurchaseOrder,
+  isReceivable,
+  listPurchaseOrders,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+} from "@/services/purchase-order-service";
+
+const statusColors: Record<PurchaseOrderStatus, string> = {
+  open: "bg-blue-500",
+  "partially-received": "bg-yellow-500",
+  received: "bg-green-500",
+  cancelled: "bg-gray-500",
+};
+
+const STATUS_FILTERS: Array<PurchaseOrderStatus | "all"> = ["open", "partially-received", "received", "cancelled", "all"];
+
+interface ReceiveFormProps {
+  order: PurchaseOrder;
+  line: PurchaseOrderLine;
+  onDone: (message: string) => void;
+  onCancel: () => void;
+}
+
+// Codes delivered against a line are stocked once another catalog admin approves them
+function ReceiveForm({ order, line, onDone, onCancel }: ReceiveFormProps) {
+  const [codes, setCodes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const outstanding = line.quantity - line.received;
+  const parsed = codes.split('\n').map(code => code.trim()).filter(code => code);
+
+  const handleSubmit = async () => {
+    if (parsed.length === 0) {
+      setError("Paste at least one code");
+      return;
+    }
+    if (parsed.length > outstanding) {
+      setError(`Only ${outstanding} codes are outstanding on this line`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const proposals = await proposePurchaseOrderReceipt(
+        order.id,
+        line.productId,
+        line.denomination,
+        parsed,
+        `Delivery from ${order.supplierName} for purchase order ${order.id}`
+      );
+      onDone(`Submitted ${parsed.length} codes for approval in ${proposals.length} batch(es)`);
+    } catch (err) {
+      console.error("Error proposing purchase order receipt:", err);
+      setError(err instanceof Error ? err.message : "Failed to submit codes");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-gray-800 rounded-lg">
+      <textarea
+        value={codes}
+        onChange={(e) => setCodes(e.target.value)}
+        rows={4}
+        placeholder="One code per line"
+        className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm font-mono focus:outline-none focus:border-gray-600"
+        aria-label={`Codes for ${line.productName} $${line.denomination}`}
+      />
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-xs text-gray-400">{parsed.length} of {outstanding} outstanding</span>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 text-white text-sm rounded-lg transition-colors"
+          >
+            {submitting ? "Submitting..." : "Submit for Approval"}
+          </button>
+        </div>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+export default function PurchaseOrdersPage() {
+  const { hasPermission } = useAuth();
+  const canEdit = hasPermission('catalog:write');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<PurchaseOrderStatus | "all">("all");
+  // `${orderId}:${productId}:${denomination}` of the line being received
+  const [receiving, setReceiving] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    setLoading(true);
+    try {
+      setOrders(await listPurchaseOrders(filterStatus === "all" ? undefined : filterStatus));
+    } catch (err) {
+      console.error("Error loading purchase orders:", err);
+      setError("Failed to load purchase orders");
+    } finally {
+      setLoading(false);
+    }
+  }, [filterStatus]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const handleCancel = async (order: PurchaseOrder) => {
+    const reason = prompt(`Reason for cancelling the rest of the order from ${order.supplierName}:`);
+    if (!reason?.trim()) return;
+
+    setError(null);
+    try {
+      await cancelPurchaseOrder(order.id, reason.trim());
+      await loadOrders();
+    } catch (err) {
+      console.error("Error cancelling purchase order:", err);
+      setError(err instanceof Error ? err.message : "Failed to cancel purchase order");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-white mb-2">Purchase Orders</h2>
+        <p className="text-gray-400">
+          Codes ordered from suppliers. New orders are created from the{" "}
+          <Link href="/admin/inventory" className="text-blue-400 hover:text-blue-300">reorder suggestions</Link>.
+        </p>
+      </div>
+
+      {/* Status Filter */}
+      <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
+        <div className="flex items-center space-x-2">
+          <Filter className="h-4 w-4 text-gray-400" />
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value as PurchaseOrderStatus | "all")}
+            className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-gray-600"
+            aria-label="Filter by status"
+          >
+            {STATUS_FILTERS.map((status) => (
+              <option key={status} value={status}>
+                {status === "all" ? "All Status" : status.charAt(0).toUpperCase() + status.slice(1).replace("-", " ")}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-400">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {notice && (
+        <div className="flex items-center space-x-2 text-sm text-yellow-400">
+          <Clock className="h-4 w-4" />
+          <span>{notice}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-white"></div>
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="bg-gray-900 rounded-xl p-8 border border-gray-800 text-center">
+          <ClipboardList className="h-8 w-8 text-gray-600 mx-auto mb-2" />
+          <p className="text-gray-400">No purchase orders to show</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => {
+            const ordered = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+            const received = order.lines.reduce((sum, line) => sum + line.received, 0);
+
+            return (
+              <div key={order.id} className="bg-gray-900 rounded-xl p-6 border border-gray-800">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium text-white ${statusColors[order.status]}`}>
+                        {order.status}
+                      </span>
+                      <h3 className="text-white font-medium">{order.supplierName}</h3>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1 font-mono">{order.id}</p>
+                  </div>
+                  <div className="text-right text-xs text-gray-500">
+                    <p>Ordered {format(order.orderedAt.toDate(), "MMM d, yyyy")}</p>
+                    {order.expectedAt && <p>Expected {format(order.expectedAt.toDate(), "MMM d, yyyy")}</p>}
+                    {order.receivedAt && <p className="text-green-400">Received {format(order.receivedAt.toDate(), "MMM d, yyyy")}</p>}
+                    <p className="mt-1 text-gray-300">{received} / {ordered} codes received</p>
+                  </div>
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="pb-2 font-medium">Product</th>
+                      <th className="pb-2 font-medium">Ordered</th>
+                      <th className="pb-2 font-medium">Received</th>
+                      <th className="pb-2 font-medium">Outstanding</th>
+                      <th className="pb-2 font-medium"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {order.lines.map((line) => {
+                      const key = `${order.id}:${line.productId}:${line.denomination}`;
+                      const outstanding = line.quantity - line.received;
+
+                      return (
+                        <tr key={key} className="border-t border-gray-800 align-top">
+                          <td className="py-2 text-gray-300">
+                            {line.productName} ${line.denomination}
+                            {receiving === key && (
+                              <ReceiveForm
+                                order={order}
+                                line={line}
+                                onDone={(message) => {
+                                  setReceiving(null);
+                                  setNotice(message);
+                                }}
+                                onCancel={() => setReceiving(null)}
+                              />
+                            )}
+                          </td>
+                          <td className="py-2 text-gray-300">{line.quantity}</td>
+                          <td className="py-2 text-green-400">{line.received}</td>
+                          <td className="py-2 text-yellow-400">{outstanding}</td>
+                          <td className="py-2 text-right">
+                            {canEdit && isReceivable(order) && outstanding > 0 && receiving !== key && (
+                              <button
+                                onClick={() => {
+                                  setReceiving(key);
+                                  setNotice(null);
+                                }}
+                                className="flex items-center gap-1 ml-auto text-blue-400 hover:text-blue-300"
+                              >
+                                <PackageCheck className="h-4 w-4" />
+                                Receive
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+
+                {order.notes && <p className="mt-3 text-sm text-gray-400">{order.notes}</p>}
+                {order.cancelReason && <p className="mt-3 text-sm text-gray-400">Cancelled: {order.cancelReason}</p>}
+
+                {canEdit && isReceivable(order) && (
+                  <div className="flex justify-end mt-4">
+                    <button
+                      onClick={() => handleCancel(order)}
+                      className="flex items-center gap-1 px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded-lg transition-colors"
+                    >
+                      <XCircle className="h-4 w-4" />
+                      Cancel Outstanding
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,7 +13,10 @@ import {
 } from "lucide-react";
 import { doc, updateDoc, Timestamp } from "firebase/firestore";
 import { usePXLCurrency } from "@/hooks/use-pxl-currency";
+import { RateModelPanel } from "@/components/admin/rate-model-panel";
 import { LoadingDots } from "@/components/ui/loader";
+import { proposeExchangeRate } from "@/services/admin-approval-service";
+import { resolveTierRules, TIER_ORDER, TierRule } from "@/services/tier-service";
 import { logAdminAction, AdminActionTypes } from "@/lib/admin-logging";
 import { db } from "@/lib/firebase-config";
 import { formatPXL } from "@/lib/pxl-currency";
@@ -21,8 +24,13 @@ import { useAuth } from "@/contexts/auth-context";
 
 interface TierConfig {
   threshold: number;
+  minSpend90d: number;
+  minLifetimeEarned: number;
+  match: TierRule['match'];
   discountPercentage: number;
   cashbackPercentage: number;
+  // Days cashback stays pending before it vests
+  cashbackHoldDays: number;
 }
 
 interface TierConfigs {
@@ -33,17 +41,27 @@ interface TierConfigs {
   pixlionaire: TierConfig;
 }
 
+function toTierFields(rule: TierRule) {
+  return {
+    threshold: rule.minBalance,
+    minSpend90d: rule.minSpend90d,
+    minLifetimeEarned: rule.minLifetimeEarned,
+    match: rule.match,
+  };
+}
+
 export default function PXLConfigPage() {
   const { user, platformUser } = useAuth();
   const { currencyData, loading: rateLoading } = usePXLCurrency();
   const [exchangeRate, setExchangeRate] = useState(100);
   const [tierConfigs, setTierConfigs] = useState<TierConfigs>({
-    starter: { threshold: 0, discountPercentage: 0, cashbackPercentage: 0 },
-    rising: { threshold: 1000, discountPercentage: 5, cashbackPercentage: 1 },
-    pro: { threshold: 5000, discountPercentage: 8, cashbackPercentage: 2 },
-    pixlbeast: { threshold: 10000, discountPercentage: 10, cashbackPercentage: 3 },
-    pixlionaire: { threshold: 50000, discountPercentage: 13, cashbackPercentage: 3 },
+    starter: { threshold: 0, minSpend90d: 0, minLifetimeEarned: 0, match: 'any', discountPercentage: 0, cashbackPercentage: 0, cashbackHoldDays: 30 },
+    rising: { threshold: 1000, minSpend90d: 0, minLifetimeEarned: 0, match: 'any', discountPercentage: 5, cashbackPercentage: 1, cashbackHoldDays: 21 },
+    pro: { threshold: 5000, minSpend90d: 0, minLifetimeEarned: 0, match: 'any', discountPercentage: 8, cashbackPercentage: 2, cashbackHoldDays: 14 },
+    pixlbeast: { threshold: 10000, minSpend90d: 0, minLifetimeEarned: 0, match: 'any', discountPercentage: 10, cashbackPercentage: 3, cashbackHoldDays: 7 },
+    pixlionaire: { threshold: 50000, minSpend90d: 0, minLifetimeEarned: 0, match: 'any', discountPercentage: 13, cashbackPercentage: 3, cashbackHoldDays: 7 },
   });
+  const [graceDays, setGraceDays] = useState(30);
   const [saving, setSaving] = useState(false);
   const [rateHistory, setRateHistory] = useState<number[]>([]);
   const [showImpactSimulation, setShowImpactSimulation] = useState(false);
@@ -53,37 +71,43 @@ export default function PXLConfigPage() {
     if (currencyData) {
       setExchangeRate(currencyData.currentRate);
       
-      // Set tier configs from currency data if available
-      if (currencyData.tierMultipliers) {
-        const configs: TierConfigs = {
-          starter: {
-            threshold: 0,
-            discountPercentage: (currencyData.tierMultipliers.starter?.discountPercentage || 0) * 100,
-            cashbackPercentage: (currencyData.tierMultipliers.starter?.cashbackPercentage || 0) * 100,
-          },
-          rising: {
-            threshold: 1000,
-            discountPercentage: (currencyData.tierMultipliers.rising?.discountPercentage || 0.05) * 100,
-            cashbackPercentage: (currencyData.tierMultipliers.rising?.cashbackPercentage || 0.01) * 100,
-          },
-          pro: {
-            threshold: 5000,
-            discountPercentage: (currencyData.tierMultipliers.pro?.discountPercentage || 0.08) * 100,
-            cashbackPercentage: (currencyData.tierMultipliers.pro?.cashbackPercentage || 0.02) * 100,
-          },
-          pixlbeast: {
-            threshold: 10000,
-            discountPercentage: (currencyData.tierMultipliers.pixlbeast?.discountPercentage || 0.10) * 100,
-            cashbackPercentage: (currencyData.tierMultipliers.pixlbeast?.cashbackPercentage || 0.03) * 100,
-          },
-          pixlionaire: {
-            threshold: 50000,
-            discountPercentage: (currencyData.tierMultipliers.pixlionaire?.discountPercentage || 0.13) * 100,
-            cashbackPercentage: (currencyData.tierMultipliers.pixlionaire?.cashbackPercentage || 0.03) * 100,
-          },
-        };
-        setTierConfigs(configs);
-      }
+      // Set tier configs from currency data, falling back to defaults
+      const tierRules = resolveTierRules(currencyData.tierConfig);
+      setGraceDays(tierRules.graceDays);
+
+      const configs: TierConfigs = {
+        starter: {
+          ...toTierFields(tierRules.rules.starter),
+          discountPercentage: (currencyData.tierMultipliers?.starter?.discountPercentage || 0) * 100,
+          cashbackPercentage: (currencyData.tierMultipliers?.starter?.cashbackPercentage || 0) * 100,
+          cashbackHoldDays: currencyData.cashbackHoldDays?.starter ?? 30,
+        },
+        rising: {
+          ...toTierFields(tierRules.rules.rising),
+          discountPercentage: (currencyData.tierMultipliers?.rising?.discountPercentage || 0.05) * 100,
+          cashbackPercentage: (currencyData.tierMultipliers?.rising?.cashbackPercentage || 0.01) * 100,
+          cashbackHoldDays: currencyData.cashbackHoldDays?.rising ?? 21,
+        },
+        pro: {
+          ...toTierFields(tierRules.rules.pro),
+          discountPercentage: (currencyData.tierMultipliers?.pro?.discountPercentage || 0.08) * 100,
+          cashbackPercentage: (currencyData.tierMultipliers?.pro?.cashbackPercentage || 0.02) * 100,
+          cashbackHoldDays: currencyData.cashbackHoldDays?.pro ?? 14,
+        },
+        pixlbeast: {
+          ...toTierFields(tierRules.rules.pixlbeast),
+          discountPercentage: (currencyData.tierMultipliers?.pixlbeast?.discountPercentage || 0.10) * 100,
+          cashbackPercentage: (currencyData.tierMultipliers?.pixlbeast?.cashbackPercentage || 0.03) * 100,
+          cashbackHoldDays: currencyData.cashbackHoldDays?.pixlbeast ?? 7,
+        },
+        pixlionaire: {
+          ...toTierFields(tierRules.rules.pixlionaire),
+          discountPercentage: (currencyData.tierMultipliers?.pixlionaire?.discountPercentage || 0.13) * 100,
+          cashbackPercentage: (currencyData.tierMultipliers?.pixlionaire?.cashbackPercentage || 0.03) * 100,
+          cashbackHoldDays: currencyData.cashbackHoldDays?.pixlionaire ?? 7,
+        },
+      };
+      setTierConfigs(configs);
 
       // Generate rate history
       const history = currencyData.marketData?.hourlyRates?.map(r => r.rate) || [];
@@ -91,18 +115,17 @@ export default function PXLConfigPage() {
     }
   }, [currencyData]);
 
+  // Rate changes take effect only once another finance admin approves them
   const handleRateUpdate = async () => {
-    if (!confirm('Are you sure you want to update the exchange rate? This will affect all users immediately.')) {
+    const reason = prompt('Reason for changing the exchange rate (another admin must approve it):');
+    if (!reason?.trim()) {
       return;
     }
 
     setSaving(true);
     try {
       const oldRate = currencyData?.currentRate || 100;
-      await updateDoc(doc(db, 'pxl-currency', 'main'), {
-        currentRate: exchangeRate,
-        lastUpdated: Timestamp.now(),
-      });
+      const proposal = await proposeExchangeRate(exchangeRate, reason.trim());
       
       // Log admin action
       if (user && platformUser) {
@@ -110,21 +133,29 @@ export default function PXLConfigPage() {
           AdminActionTypes.RATE_CHANGE,
           user.uid,
           platformUser.email,
-          'pxl-currency/main',
-          `Changed exchange rate from ${oldRate} to ${exchangeRate}`
+          `admin-approvals/${proposal.approvalId}`,
+          `Proposed exchange rate change from ${oldRate} to ${exchangeRate}`
         );
       }
       
-      alert('Exchange rate updated successfully! Changes will reflect shortly.');
+      alert('Exchange rate change submitted for approval.');
     } catch (error) {
-      console.error('Error updating exchange rate:', error);
-      alert('Failed to update exchange rate');
+      console.error('Error proposing exchange rate:', error);
+      alert(error instanceof Error ? error.message : 'Failed to propose exchange rate');
     } finally {
       setSaving(false);
     }
   };
 
   const handleTierConfigUpdate = async () => {
+    const outOfOrder = TIER_ORDER.slice(1).find((tier, i) =>
+      tierConfigs[tier].threshold < tierConfigs[TIER_ORDER[i]].threshold
+    );
+    if (outOfOrder) {
+      alert(`The ${outOfOrder} balance threshold must not be lower than the tier below it`);
+      return;
+    }
+
     if (!confirm('Are you sure you want to update tier configurations? This will affect all users immediately.')) {
       return;
     }
@@ -154,8 +185,29 @@ export default function PXLConfigPage() {
         },
       };
 
+      // Rules read by the tier engine; changes apply on each user's next evaluation
+      const tierConfig = {
+        graceDays,
+        rules: TIER_ORDER.reduce((rules, tier) => ({
+          ...rules,
+          [tier]: {
+            minBalance: tierConfigs[tier].threshold,
+            minSpend90d: tierConfigs[tier].minSpend90d,
+            minLifetimeEarned: tierConfigs[tier].minLifetimeEarned,
+            match: tierConfigs[tier].match,
+          },
+        }), {} as Record<string, TierRule>),
+      };
+
+      const cashbackHoldDays = TIER_ORDER.reduce((days, tier) => ({
+        ...days,
+        [tier]: Math.max(0, tierConfigs[tier].cashbackHoldDays),
+      }), {} as Record<string, number>);
+
       await updateDoc(doc(db, 'pxl-currency', 'main'), {
         tierMultipliers,
+        tierConfig,
+        cashbackHoldDays,
         lastUpdated: Timestamp.now(),
       });
       
@@ -255,7 +307,7 @@ export default function PXLConfigPage() {
                 ) : (
                   <Save className="h-4 w-4" />
                 )}
-                <span className="text-sm font-medium">Update</span>
+                <span className="text-sm font-medium">Propose</span>
               </button>
             </div>
           </div>
@@ -310,6 +362,12 @@ export default function PXLConfigPage() {
         )}
       </div>
 
+      {/* Rate Model */}
+      <RateModelPanel
+        activeModel={currencyData?.rateModel}
+        haltedUntil={currencyData?.rateEngine?.haltedUntil?.toDate?.() || null}
+      />
+
       {/* Tier Configuration */}
       <div className="bg-gray-900 rounded-xl p-6 border border-gray-800">
         <div className="flex items-center justify-between mb-6">
@@ -331,11 +389,31 @@ export default function PXLConfigPage() {
           </button>
         </div>
 
+        <div className="mb-4 max-w-xs">
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Downgrade Grace Period
+          </label>
+          <div className="relative">
+            <input
+              type="number"
+              value={graceDays}
+              onChange={(e) => setGraceDays(Math.max(0, Number(e.target.value)))}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+              min="0"
+              aria-label="Downgrade grace period in days"
+            />
+            <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-xs text-gray-500">days</span>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Users keep their tier this long after dropping below it
+          </p>
+        </div>
+
         <div className="space-y-4">
           {Object.entries(tierConfigs).map(([tier, config]) => (
             <div key={tier} className="border border-gray-800 rounded-lg p-4">
               <h4 className="text-base font-medium text-white capitalize mb-3">{tier} Tier</h4>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 {/* Balance Threshold */}
                 <div>
                   <label className="block text-xs font-medium text-gray-400 mb-1">
@@ -403,7 +481,93 @@ export default function PXLConfigPage() {
                     <Percent className="absolute right-3 top-1/2 transform -translate-y-1/2 h-3 w-3 text-gray-500" />
                   </div>
                 </div>
+
+                {/* Cashback Hold Period */}
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">
+                    Cashback Hold
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      value={config.cashbackHoldDays}
+                      onChange={(e) => setTierConfigs({
+                        ...tierConfigs,
+                        [tier]: { ...config, cashbackHoldDays: Number(e.target.value) }
+                      })}
+                      className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+                      min="0"
+                      aria-label={`${tier} tier cashback hold period in days`}
+                    />
+                    <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-xs text-gray-500">days</span>
+                  </div>
+                </div>
               </div>
+
+              {tier !== 'starter' && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                  {/* 90-day Spend */}
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 mb-1">
+                      Giftcard Spend (90 days)
+                    </label>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        value={config.minSpend90d}
+                        onChange={(e) => setTierConfigs({
+                          ...tierConfigs,
+                          [tier]: { ...config, minSpend90d: Number(e.target.value) }
+                        })}
+                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+                        min="0"
+                        aria-label={`${tier} tier 90-day spend requirement`}
+                      />
+                      <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-xs text-gray-500">PXL</span>
+                    </div>
+                  </div>
+
+                  {/* Lifetime Earned */}
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 mb-1">
+                      Lifetime Earned
+                    </label>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        value={config.minLifetimeEarned}
+                        onChange={(e) => setTierConfigs({
+                          ...tierConfigs,
+                          [tier]: { ...config, minLifetimeEarned: Number(e.target.value) }
+                        })}
+                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+                        min="0"
+                        aria-label={`${tier} tier lifetime earned requirement`}
+                      />
+                      <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-xs text-gray-500">PXL</span>
+                    </div>
+                  </div>
+
+                  {/* Match Mode */}
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 mb-1">
+                      Qualifies When
+                    </label>
+                    <select
+                      value={config.match}
+                      onChange={(e) => setTierConfigs({
+                        ...tierConfigs,
+                        [tier]: { ...config, match: e.target.value as TierRule['match'] }
+                      })}
+                      className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+                      aria-label={`${tier} tier requirement matching`}
+                    >
+                      <option value="any">Any requirement is met</option>
+                      <option value="all">All requirements are met</option>
+                    </select>
+                  </div>
+                </div>
+              )}
             </div>
           ))}
         </div>
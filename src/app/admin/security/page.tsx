@@ -1,7 +1,6 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
 import { 
   collection, 
   query, 
@@ -10,7 +9,7 @@ import {
   getDocs,
   Timestamp
 } from "firebase/firestore";
-import { useAuth } from "@/contexts/auth-context";
+import { useAdminGuard } from "@/hooks/use-admin-guard";
 import { db } from "@/lib/firebase-config";
 import { 
   Shield, 
@@ -70,8 +69,7 @@ interface AuditLog {
 }
 
 export default function SecurityPage() {
-  const { user, platformUser, loading: authLoading, isAdmin } = useAuth();
-  const router = useRouter();
+  const { allowed, loading: authLoading } = useAdminGuard('audit:read');
 
   const [activeTab, setActiveTab] = useState<'monitoring' | 'compliance' | 'audit' | 'system'>('monitoring');
   const [securityEvents, setSecurityEvents] = useState<SecurityEvent[]>([]);
@@ -82,16 +80,9 @@ export default function SecurityPage() {
   const [selectedSeverity, setSelectedSeverity] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
 
-  // Check admin access
-  useEffect(() => {
-    if (!authLoading && (!user || !platformUser || !isAdmin)) {
-      router.push('/auth/signin?redirect=/admin/security');
-    }
-  }, [user, platformUser, authLoading, isAdmin, router]);
-
   // Fetch security data
   useEffect(() => {
-    if (!user || !isAdmin) return;
+    if (!allowed) return;
 
     const fetchSecurityData = async () => {
       try {
@@ -254,7 +245,7 @@ export default function SecurityPage() {
     };
 
     fetchSecurityData();
-  }, [user, isAdmin]);
+  }, [allowed]);
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/auth-context";
-import { useRouter } from "next/navigation";
+import { useAdminGuard } from "@/hooks/use-admin-guard";
 import { db } from "@/lib/firebase-config";
 import { 
   doc, 
@@ -181,8 +181,9 @@ const defaultConfig: PlatformConfig = {
 };
 
 export default function SettingsPage() {
-  const { user, platformUser, loading: authLoading, isAdmin } = useAuth();
-  const router = useRouter();
+  const { user, platformUser, hasPermission } = useAuth();
+  const { allowed, loading: authLoading } = useAdminGuard('settings:read');
+  const canEdit = hasPermission('settings:write');
 
   const [activeTab, setActiveTab] = useState<
     'global' | 'email' | 'payment' | 'chat' | 'api' | 'branding' | 'tiers'
@@ -192,17 +193,10 @@ export default function SettingsPage() {
   const [saving, setSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
 
-  // Check admin access
-  useEffect(() => {
-    if (!authLoading && (!user || !platformUser || !isAdmin)) {
-      router.push('/auth/signin?redirect=/admin/settings');
-    }
-  }, [user, platformUser, authLoading, isAdmin, router]);
-
   // Fetch configuration
   useEffect(() => {
     const fetchConfig = async () => {
-      if (!user || !isAdmin) return;
+      if (!allowed) return;
 
       try {
         const configDoc = await getDoc(doc(db, 'system-config', 'platform'));
@@ -217,10 +211,10 @@ export default function SettingsPage() {
     };
 
     fetchConfig();
-  }, [user, isAdmin]);
+  }, [allowed]);
 
   const handleSave = async () => {
-    if (!user || !platformUser) return;
+    if (!user || !platformUser || !canEdit) return;
 
     setSaving(true);
     try {
@@ -323,7 +317,7 @@ export default function SettingsPage() {
           </button>
           <button
             onClick={handleSave}
-            disabled={saving || !hasChanges}
+            disabled={saving || !hasChanges || !canEdit}
             className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
           >
             <Save className="h-4 w-4 mr-2" />
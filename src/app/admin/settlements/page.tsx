@@ -0,0 +1,249 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { collection, getDocs, orderBy, query } from "firebase/firestore";
+import { Receipt, FileText, CheckCircle, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/contexts/auth-context";
+import { db } from "@/lib/firebase-config";
+import {
+  generateSupplierStatement,
+  listSupplierStatements,
+  settleSupplierStatement,
+  SupplierStatement,
+} from "@/services/supplier-statement-service";
+
+function previousMonth(): string {
+  const now = new Date();
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return month.toISOString().slice(0, 7);
+}
+
+function formatUSD(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export default function SettlementsPage() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission('finance:write');
+  const [suppliers, setSuppliers] = useState<Array<{ id: string; name: string }>>([]);
+  const [statements, setStatements] = useState<SupplierStatement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [supplierId, setSupplierId] = useState("");
+  const [period, setPeriod] = useState(previousMonth());
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSuppliers = async () => {
+      try {
+        const snapshot = await getDocs(query(collection(db, 'suppliers'), orderBy('name')));
+        setSuppliers(snapshot.docs.map(doc => ({ id: doc.id, name: doc.data().name || doc.id })));
+      } catch (err) {
+        console.error("Error fetching suppliers:", err);
+      }
+    };
+
+    fetchSuppliers();
+  }, []);
+
+  // The supplier picked for generating also filters the list
+  const loadStatements = useCallback(async () => {
+    setLoading(true);
+    try {
+      setStatements(await listSupplierStatements(supplierId || undefined));
+    } catch (err) {
+      console.error("Error loading statements:", err);
+      setError("Failed to load statements");
+    } finally {
+      setLoading(false);
+    }
+  }, [supplierId]);
+
+  useEffect(() => {
+    loadStatements();
+  }, [loadStatements]);
+
+  const handleGenerate = async () => {
+    if (!supplierId) {
+      setError("Choose a supplier");
+      return;
+    }
+
+    setWorking(true);
+    setError(null);
+    try {
+      await generateSupplierStatement(supplierId, period);
+      await loadStatements();
+    } catch (err) {
+      console.error("Error generating statement:", err);
+      setError(err instanceof Error ? err.message : "Failed to generate statement");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSettle = async (statement: SupplierStatement) => {
+    const reference = prompt(`Payment reference for ${formatUSD(statement.payable)} to ${statement.supplierName}:`);
+    if (!reference?.trim()) return;
+
+    setError(null);
+    try {
+      await settleSupplierStatement(statement.id, reference.trim());
+      await loadStatements();
+    } catch (err) {
+      console.error("Error settling statement:", err);
+      setError(err instanceof Error ? err.message : "Failed to settle statement");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-white mb-2">Supplier Settlements</h2>
+        <p className="text-gray-400">Monthly commission statements built from each supplier&apos;s sold codes</p>
+      </div>
+
+      {/* Generate */}
+      <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
+        <div className="flex flex-col md:flex-row gap-4">
+          <select
+            value={supplierId}
+            onChange={(e) => setSupplierId(e.target.value)}
+            className="flex-1 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-gray-600"
+            aria-label="Supplier"
+          >
+            <option value="">All suppliers</option>
+            {suppliers.map((supplier) => (
+              <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+            ))}
+          </select>
+          {canWrite && (
+            <>
+              <input
+                type="month"
+                value={period}
+                max={previousMonth()}
+                onChange={(e) => setPeriod(e.target.value)}
+                className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-gray-600"
+                aria-label="Statement month"
+              />
+              <button
+                onClick={handleGenerate}
+                disabled={working || !supplierId}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 text-white rounded-lg transition-colors"
+              >
+                <FileText className="h-4 w-4" />
+                {working ? "Generating..." : "Generate Statement"}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-400">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-white"></div>
+        </div>
+      ) : statements.length === 0 ? (
+        <div className="bg-gray-900 rounded-xl p-8 border border-gray-800 text-center">
+          <Receipt className="h-8 w-8 text-gray-600 mx-auto mb-2" />
+          <p className="text-gray-400">No statements yet</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {statements.map((statement) => (
+            <div key={statement.id} className="bg-gray-900 rounded-xl p-6 border border-gray-800">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium text-white ${
+                      statement.status === 'settled' ? 'bg-green-500' : 'bg-yellow-500'
+                    }`}>
+                      {statement.status}
+                    </span>
+                    <h3 className="text-white font-medium">{statement.supplierName}</h3>
+                  </div>
+                  <p className="text-sm text-gray-400 mt-1">{statement.period}</p>
+                </div>
+                <div className="text-right text-xs text-gray-500">
+                  <p>Generated {format(statement.generatedAt.toDate(), "MMM d, yyyy")}</p>
+                  {statement.settledAt && (
+                    <p className="text-green-400">
+                      Settled {format(statement.settledAt.toDate(), "MMM d, yyyy")} ({statement.settlementReference})
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div>
+                  <p className="text-xs text-gray-500">Codes Sold</p>
+                  <p className="text-white">{statement.codesSold}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Gross Sales</p>
+                  <p className="text-white">{formatUSD(statement.grossSales)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Commission ({statement.commissionRate}%)</p>
+                  <p className="text-white">{formatUSD(statement.commission)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Payable to Supplier</p>
+                  <p className="text-white font-medium">{formatUSD(statement.payable)}</p>
+                </div>
+              </div>
+
+              {statement.lines.length > 0 && (
+                <details className="text-sm">
+                  <summary className="cursor-pointer text-gray-400 hover:text-gray-300">
+                    {statement.lines.length} product lines
+                  </summary>
+                  <table className="w-full mt-2">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="pb-2 font-medium">Product</th>
+                        <th className="pb-2 font-medium">Sold</th>
+                        <th className="pb-2 font-medium">Face Value</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {statement.lines.map((line) => (
+                        <tr key={`${line.productId}:${line.denomination}`} className="border-t border-gray-800">
+                          <td className="py-2 text-gray-300">{line.productName} ${line.denomination}</td>
+                          <td className="py-2 text-gray-300">{line.quantity}</td>
+                          <td className="py-2 text-white">{formatUSD(line.faceValue)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </details>
+              )}
+
+              {canWrite && statement.status === 'issued' && (
+                <div className="flex justify-end mt-4">
+                  <button
+                    onClick={() => handleSettle(statement)}
+                    className="flex items-center gap-1 px-3 py-2 bg-green-600 hover:bg-green-700 text-white text-sm rounded-lg transition-colors"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    Mark Settled
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,15 +2,13 @@
 
 import { useEffect, useState } from "react";
 import { useAuth } from "@/contexts/auth-context";
-import { db } from "@/lib/firebase-config";
-import { doc, setDoc } from "firebase/firestore";
+import { claimSuperAdmin } from "@/services/admin-role-service";
 
-// BUG FIX: [2025-01-27] - Admin user document setup page
-// Problem: Admin rules check for admin-users collection but document doesn't exist
-// Solution: Create a one-time setup page to create admin document
-// Impact: Enables admin access to read all users/transactions
+// One-time setup of the first super-admin
+// Only accounts listed in the SUPER_ADMIN_EMAILS function config can claim the role;
+// every other admin is assigned a role from the Users page.
 export default function SetupAdminPage() {
-  const { user, isAdmin } = useAuth();
+  const { user, refreshUserData } = useAuth();
   const [status, setStatus] = useState<string>("");
   const [loading, setLoading] = useState(true);
 
@@ -22,30 +20,22 @@ export default function SetupAdminPage() {
         return;
       }
 
-      if (!isAdmin) {
-        setStatus("Not authorized - must be logged in as admin user");
-        setLoading(false);
-        return;
-      }
-
       try {
-        // Create admin-users document
-        await setDoc(doc(db, "admin-users", user.uid), {
-          email: user.email,
-          role: "admin",
-          createdAt: new Date(),
-        });
-        setStatus("Admin user document created successfully!");
+        const result = await claimSuperAdmin();
+        // Pick up the new role claim
+        await refreshUserData();
+        setStatus(result.duplicate ? "Super-admin role already set up successfully!" : "Super-admin role granted successfully!");
         setLoading(false);
       } catch (error) {
-        console.error("Error creating admin document:", error);
-        setStatus(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        console.error("Error claiming super-admin:", error);
+        setStatus(`Not authorized - ${error instanceof Error ? error.message : 'Unknown error'}`);
         setLoading(false);
       }
     };
 
     setupAdmin();
-  }, [user, isAdmin]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user]);
 
   return (
     <div className="min-h-screen bg-black flex items-center justify-center">
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/contexts/auth-context";
-import { useRouter } from "next/navigation";
+import { useAdminGuard } from "@/hooks/use-admin-guard";
 import { db } from "@/lib/firebase-config";
 import { 
   collection, 
@@ -36,20 +36,41 @@ interface Supplier {
   contactEmail: string;
   contactPhone: string;
   status: 'active' | 'inactive' | 'pending';
-  performanceScore: number; // 0-100
-  deliveryTimeAvg: number; // in hours
+  // Computed by Cloud Functions from purchase orders and sold codes
+  performanceScore: number | null; // 0-100, share of codes delivered on time
+  deliveryTimeAvg: number | null; // in hours
+  totalOrders: number;
+  totalRevenue: number; // face value of sold codes
+  statsUpdatedAt?: Timestamp;
   qualityScore: number; // 0-100
   contractStartDate: Timestamp;
   contractEndDate?: Timestamp;
   commission: number; // percentage
-  totalOrders: number;
-  totalRevenue: number;
   categories: string[];
   notes?: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+// Fields only Cloud Functions write
+type SupplierStats = Pick<Supplier, 'performanceScore' | 'deliveryTimeAvg' | 'totalOrders' | 'totalRevenue' | 'statsUpdatedAt'>;
+
+const READ_ONLY_FIELDS = ['id', 'performanceScore', 'deliveryTimeAvg', 'totalOrders', 'totalRevenue', 'statsUpdatedAt'];
+
+function withoutStats(supplier: Partial<Supplier>): Partial<Supplier> {
+  return Object.keys(supplier)
+    .filter(field => !READ_ONLY_FIELDS.includes(field))
+    .reduce((editable, field) => ({ ...editable, [field]: supplier[field as keyof Supplier] }), {} as Partial<Supplier>);
+}
+
+// Suppliers without purchase orders have no stats yet
+const EMPTY_STATS: SupplierStats = {
+  performanceScore: null,
+  deliveryTimeAvg: null,
+  totalOrders: 0,
+  totalRevenue: 0,
+};
+
 interface SupplierModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -264,8 +285,9 @@ function SupplierModal({ isOpen, onClose, supplier, onSave }: SupplierModalProps
 }
 
 export default function SuppliersPage() {
-  const { user, platformUser, loading: authLoading, isAdmin } = useAuth();
-  const router = useRouter();
+  const { hasPermission } = useAuth();
+  const { allowed, loading: authLoading } = useAdminGuard('catalog:read');
+  const canEdit = hasPermission('catalog:write');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
@@ -275,13 +297,6 @@ export default function SuppliersPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
 
-  // Check admin access
-  useEffect(() => {
-    if (!authLoading && (!user || !platformUser || !isAdmin)) {
-      router.push('/auth/signin?redirect=/admin/suppliers');
-    }
-  }, [user, platformUser, authLoading, isAdmin, router]);
-
   // Fetch suppliers
   useEffect(() => {
     const fetchSuppliers = async () => {
@@ -290,6 +305,7 @@ export default function SuppliersPage() {
         const snapshot = await getDocs(suppliersQuery);
         const suppliersData: Supplier[] = snapshot.docs.map(doc => ({
           id: doc.id,
+          ...EMPTY_STATS,
           ...doc.data()
         } as Supplier));
         setSuppliers(suppliersData);
@@ -300,39 +316,40 @@ export default function SuppliersPage() {
       }
     };
 
-    if (user && isAdmin) {
+    if (allowed) {
       fetchSuppliers();
     }
-  }, [user, isAdmin]);
+  }, [allowed]);
 
   const handleSaveSupplier = async (supplierData: Partial<Supplier>) => {
+    if (!canEdit) {
+      alert('Only catalog managers can change suppliers');
+      return;
+    }
     try {
       if (selectedSupplier) {
-        // Update existing supplier
+        // Update existing supplier; its stats are left to Cloud Functions
+        const editable = withoutStats(supplierData);
         await updateDoc(doc(db, 'suppliers', selectedSupplier.id), {
-          ...supplierData,
+          ...editable,
           updatedAt: Timestamp.now()
         });
         setSuppliers(suppliers.map(s => 
           s.id === selectedSupplier.id 
-            ? { ...s, ...supplierData, updatedAt: Timestamp.now() }
+            ? { ...s, ...editable, updatedAt: Timestamp.now() }
             : s
         ));
       } else {
-        // Create new supplier
+        // Create new supplier; stats fill in once it has purchase orders
         const newSupplier = {
-          ...supplierData,
-          performanceScore: 100,
-          deliveryTimeAvg: 24,
+          ...withoutStats(supplierData),
           qualityScore: 100,
-          totalOrders: 0,
-          totalRevenue: 0,
           createdAt: Timestamp.now(),
           updatedAt: Timestamp.now()
         };
         const docRef = doc(collection(db, 'suppliers'));
         await setDoc(docRef, newSupplier);
-        setSuppliers([...suppliers, { id: docRef.id, ...newSupplier } as Supplier]);
+        setSuppliers([...suppliers, { id: docRef.id, ...newSupplier, ...EMPTY_STATS } as Supplier]);
       }
     } catch (error) {
       console.error('Error saving supplier:', error);
@@ -341,6 +358,10 @@ export default function SuppliersPage() {
   };
 
   const handleDeleteSupplier = async (supplierId: string) => {
+    if (!canEdit) {
+      alert('Only catalog managers can change suppliers');
+      return;
+    }
     if (!confirm('Are you sure you want to delete this supplier?')) return;
 
     try {
@@ -381,6 +402,10 @@ export default function SuppliersPage() {
   const handleCSVUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    if (!canEdit) {
+      alert('Only catalog managers can change suppliers');
+      return;
+    }
 
     setIsUploading(true);
     try {
@@ -401,11 +426,7 @@ export default function SuppliersPage() {
           categories: values[4] ? values[4].split(';').map(c => c.trim()) : [],
           status: (values[5] === 'active' || values[5] === 'inactive' || values[5] === 'pending') ? values[5] : 'active' as const,
           notes: values[6] || '',
-          performanceScore: 100,
-          deliveryTimeAvg: 24,
           qualityScore: 100,
-          totalOrders: 0,
-          totalRevenue: 0,
           contractStartDate: Timestamp.now(),
           createdAt: Timestamp.now(),
           updatedAt: Timestamp.now()
@@ -419,6 +440,7 @@ export default function SuppliersPage() {
       const snapshot = await getDocs(collection(db, 'suppliers'));
       const suppliersData: Supplier[] = snapshot.docs.map(doc => ({
         id: doc.id,
+        ...EMPTY_STATS,
         ...doc.data()
       } as Supplier));
       setSuppliers(suppliersData);
@@ -517,6 +539,9 @@ export default function SuppliersPage() {
                 <th className="px-6 py-4 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                   Performance
                 </th>
+                <th className="px-6 py-4 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Orders
+                </th>
                 <th className="px-6 py-4 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                   Commission
                 </th>
@@ -546,15 +571,23 @@ export default function SuppliersPage() {
                   <td className="px-6 py-4">
                     <div className="flex items-center space-x-4">
                       <div>
-                        <div className="text-sm text-white">{supplier.performanceScore}%</div>
-                        <div className="text-xs text-gray-400">Performance</div>
+                        <div className="text-sm text-white">
+                          {supplier.performanceScore !== null ? `${supplier.performanceScore}%` : '-'}
+                        </div>
+                        <div className="text-xs text-gray-400">On Time</div>
                       </div>
                       <div>
-                        <div className="text-sm text-white">{supplier.deliveryTimeAvg}h</div>
+                        <div className="text-sm text-white">
+                          {supplier.deliveryTimeAvg !== null ? `${supplier.deliveryTimeAvg}h` : '-'}
+                        </div>
                         <div className="text-xs text-gray-400">Avg Delivery</div>
                       </div>
                     </div>
                   </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm text-white">{supplier.totalOrders}</div>
+                    <div className="text-xs text-gray-400">${supplier.totalRevenue.toLocaleString()} sold</div>
+                  </td>
                   <td className="px-6 py-4">
                     <span className="text-sm text-white">{supplier.commission}%</span>
                   </td>
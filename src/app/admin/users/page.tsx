@@ -16,8 +16,12 @@ import {
   Coins,
   Download
 } from "lucide-react";
+import { AdminRolePanel } from "@/components/admin/admin-role-panel";
+import { BalanceAdjustmentPanel } from "@/components/admin/balance-adjustment-panel";
+import { TierOverridePanel } from "@/components/admin/tier-override-panel";
+import { useAuth } from "@/contexts/auth-context";
 import { db } from "@/lib/firebase-config";
-import { collection, query, getDocs, orderBy, updateDoc, doc, where } from "firebase/firestore";
+import { collection, query, getDocs, getDoc, orderBy, updateDoc, doc, where } from "firebase/firestore";
 import { formatPXL } from "@/lib/pxl-currency";
 
 interface PlatformUser {
@@ -34,6 +38,13 @@ interface PlatformUser {
   };
   tier: {
     current: string;
+    qualifiedTier?: string;
+    graceUntil?: any;
+    override?: {
+      tier: string;
+      expiresAt: any;
+      reason: string;
+    } | null;
   };
   wallets: {
     pxl: {
@@ -47,6 +58,7 @@ interface PlatformUser {
 }
 
 export default function UserManagementPage() {
+  const { hasPermission } = useAuth();
   const [users, setUsers] = useState<PlatformUser[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<PlatformUser[]>([]);
   const [loading, setLoading] = useState(true);
@@ -143,6 +155,18 @@ export default function UserManagementPage() {
     }
   };
 
+  const reloadUser = async (userId: string) => {
+    try {
+      const userDoc = await getDoc(doc(db, 'users', userId));
+      if (!userDoc.exists()) return;
+      const updated = { id: userDoc.id, ...userDoc.data() } as PlatformUser;
+      setUsers(users.map(user => user.id === userId ? updated : user));
+      setSelectedUser(updated);
+    } catch (error) {
+      console.error('Error reloading user:', error);
+    }
+  };
+
   const exportUsers = () => {
     const csv = [
       ['Email', 'Username', 'Name', 'Tier', 'PXL Balance', 'KYC Status', 'Status', 'Created'],
@@ -468,6 +492,36 @@ export default function UserManagementPage() {
                   </div>
                 </div>
               </div>
+
+              {hasPermission('users:write') && (
+                <TierOverridePanel
+                  key={selectedUser.id}
+                  userId={selectedUser.id}
+                  qualifiedTier={selectedUser.tier.qualifiedTier}
+                  graceUntil={selectedUser.tier.graceUntil?.toDate?.() || null}
+                  override={selectedUser.tier.override ? {
+                    ...selectedUser.tier.override,
+                    expiresAt: selectedUser.tier.override.expiresAt.toDate(),
+                  } : null}
+                  onChange={() => reloadUser(selectedUser.id)}
+                />
+              )}
+
+              {hasPermission('finance:write') && (
+                <BalanceAdjustmentPanel
+                  key={selectedUser.id}
+                  userId={selectedUser.id}
+                  balance={selectedUser.wallets.pxl.balance}
+                />
+              )}
+
+              {hasPermission('roles:manage') && (
+                <AdminRolePanel
+                  key={selectedUser.id}
+                  userId={selectedUser.id}
+                  email={selectedUser.email}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -1,8 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedAdmin } from '@/lib/firebase-admin';
 import { db } from '@/lib/firebase-config';
 import { collection, getDocs, limit, query } from 'firebase/firestore';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  if (!(await getAuthenticatedAdmin(request, 'catalog:read'))) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+
   try {
     const q = query(collection(db, 'products'), limit(10));
     const snapshot = await getDocs(q);
@@ -11,17 +16,11 @@ export async function GET() {
       const data = doc.data();
       
       // Check stock for each denomination
-      const stockInfo = data.denominations?.map((denom: any) => {
-        const availableCount = denom.serials?.filter(
-          (serial: any) => serial.status === 'available'
-        ).length || 0;
-        
-        return {
-          value: denom.value,
-          totalSerials: denom.serials?.length || 0,
-          available: availableCount
-        };
-      }) || [];
+      // Codes are kept in the giftcard vault; products only carry their stock
+      const stockInfo = data.denominations?.map((denom: any) => ({
+        value: denom.value,
+        available: denom.stock || 0
+      })) || [];
       
       const hasStock = stockInfo.some((d: any) => d.available > 0);
       
@@ -1,8 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedAdmin } from '@/lib/firebase-admin';
 import { db } from '@/lib/firebase-config';
 import { collection, getDocs, updateDoc, doc } from 'firebase/firestore';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  if (!(await getAuthenticatedAdmin(request, 'catalog:write'))) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+
   try {
     const snapshot = await getDocs(collection(db, 'products'));
     
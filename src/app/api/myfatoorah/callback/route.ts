@@ -9,9 +9,19 @@ export async function GET(request: NextRequest) {
     // MyFatoorah sends the payment ID as 'paymentId' or 'Id' parameter
     const invoiceId = paymentId || Id;
     
-    // Redirect to success page with payment details
+    // The redirect itself proves nothing; check the invoice with MyFatoorah.
+    // The wallet is credited by the myfatoorahWebhook Cloud Function.
+    let paymentStatus = 'failed';
+    if (invoiceId) {
+      const statusUrl = new URL('/api/myfatoorah/status', request.url);
+      statusUrl.searchParams.set('sessionId', invoiceId);
+      const statusResponse = await fetch(statusUrl);
+      paymentStatus = (await statusResponse.json()).status || 'failed';
+    }
+
+    // Redirect to the PXL page with the verified outcome
     const redirectUrl = new URL('/pxl', request.url);
-    redirectUrl.searchParams.set('payment', 'success');
+    redirectUrl.searchParams.set('payment', paymentStatus === 'success' ? 'success' : paymentStatus === 'pending' ? 'pending' : 'error');
     redirectUrl.searchParams.set('provider', 'myfatoorah');
     if (invoiceId) {
       redirectUrl.searchParams.set('invoiceId', invoiceId);
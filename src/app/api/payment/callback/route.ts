@@ -4,8 +4,6 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { doc, updateDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase-config';
 import { myfatoorahService } from '@/lib/myfatoorah-service';
 
 export async function GET(request: NextRequest) {
@@ -64,40 +62,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
-  // Handle webhook notifications from MyFatoorah
-  try {
-    const body = await request.json();
-    
-    // Log webhook for debugging (remove in production)
-    console.log('MyFatoorah webhook received:', body);
-    
-    // Process webhook based on event type
-    if (body.Event === 'PaymentStatusChanged') {
-      const paymentStatus = await myfatoorahService.getPaymentStatus(
-        body.Data.InvoiceId,
-        'InvoiceId'
-      );
-      
-      if (paymentStatus) {
-        // Update order status based on payment status
-        const orderId = paymentStatus.customerReference;
-        if (orderId) {
-          const orderRef = doc(db, 'orders', orderId);
-          await updateDoc(orderRef, {
-            status: paymentStatus.invoiceStatus === 'Paid' ? 'completed' : 'failed',
-            updatedAt: new Date().toISOString(),
-          });
-        }
-      }
-    }
-    
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Webhook processing error:', error);
-    return NextResponse.json(
-      { error: 'Webhook processing failed' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+export async function POST() {
+  // Webhooks are verified and reconciled by the myfatoorahWebhook Cloud Function;
+  // this route never trusted the payload, so it no longer accepts them
+  return NextResponse.json(
+    { error: 'Send MyFatoorah webhooks to the myfatoorahWebhook Cloud Function' },
+    { status: 410 }
+  );
+}
@@ -1,15 +1,24 @@
-import { NextResponse } from 'next/server';
-import { auth } from '@/lib/firebase-config';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedAdmin, getAuthenticatedUser } from '@/lib/firebase-admin';
 import { db } from '@/lib/firebase-config';
 import { doc, deleteDoc } from 'firebase/firestore';
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     const { userId } = await request.json();
     
     if (!userId) {
       return NextResponse.json({ error: 'User ID required' }, { status: 400 });
     }
+
+    // Users can reset their own keys; support agents can reset anyone's
+    const authenticatedUser = await getAuthenticatedUser(request);
+    if (!authenticatedUser) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (authenticatedUser.uid !== userId && !(await getAuthenticatedAdmin(request, 'support:write'))) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
     
     // Delete the user's keys from Firestore to force regeneration
     await deleteDoc(doc(db, 'userKeys', userId));
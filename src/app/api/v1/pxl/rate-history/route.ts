@@ -42,7 +42,7 @@ export async function GET(request: NextRequest) {
           id: `rate_${rate.timestamp.seconds}`,
           rate: rate.rate,
           timestamp: rate.timestamp.toDate().toISOString(),
-          volume: Math.round(Math.random() * 15000 + 5000) // Mock volume for now
+          volume: rate.volume ?? 0
         }));
         break;
       case '7d':
@@ -57,7 +57,7 @@ export async function GET(request: NextRequest) {
           id: `rate_${rate.timestamp.seconds}`,
           rate: rate.rate,
           timestamp: rate.timestamp.toDate().toISOString(),
-          volume: Math.round(Math.random() * 15000 + 5000) // Mock volume for now
+          volume: rate.volume ?? 0
         }));
         break;
     }
@@ -7,6 +7,9 @@ import { useAuth } from '@/contexts/auth-context';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { ValidatedInput } from '@/components/ui/validated-input';
+import { KeyBackupRestore } from '@/components/chat/KeyBackupRestore';
+import { keyBackupService } from '@/services/chat/key-backup.service';
+import { auth } from '@/lib/firebase-config';
 import { Eye, EyeOff, Mail } from 'lucide-react';
 
 export default function SignInPage() {
@@ -22,6 +25,21 @@ export default function SignInPage() {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [resetEmailSent, setResetEmailSent] = useState(false);
+  const [restoreUserId, setRestoreUserId] = useState<string | null>(null);
+
+  // Offer to restore the key backup on a browser that has no keys yet
+  const continueAfterSignIn = async () => {
+    const userId = auth.currentUser?.uid;
+    try {
+      if (userId && await keyBackupService.needsRestore(userId)) {
+        setRestoreUserId(userId);
+        return;
+      }
+    } catch (err) {
+      console.warn('Failed to check key backup:', err);
+    }
+    router.push('/dashboard');
+  };
 
   // Handle email/password signin
   const handleEmailSignIn = async (e: React.FormEvent) => {
@@ -31,7 +49,7 @@ export default function SignInPage() {
     
     try {
       await signIn(formData.email, formData.password);
-      router.push('/dashboard');
+      await continueAfterSignIn();
     } catch (err: any) {
       setError(err.message || 'Failed to sign in');
     } finally {
@@ -56,7 +74,7 @@ export default function SignInPage() {
           await signInWithApple();
           break;
       }
-      router.push('/dashboard');
+      await continueAfterSignIn();
     } catch (err: any) {
       setError(err.message || `Failed to sign in with ${provider}`);
     } finally {
@@ -84,6 +102,18 @@ export default function SignInPage() {
     }
   };
 
+  if (restoreUserId) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-gray-900 border-gray-800">
+          <div className="p-6">
+            <KeyBackupRestore userId={restoreUserId} onDone={() => router.push('/dashboard')} />
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-black flex items-center justify-center p-4">
       <Card className="w-full max-w-md bg-gray-900 border-gray-800">
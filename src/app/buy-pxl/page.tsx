@@ -4,6 +4,9 @@ import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/auth-context';
+import { pxlCurrencyService } from '@/services/pxl-currency-service';
+import { quotePXLPurchase } from '@/services/quote-service';
+import { createPaymentInvoice } from '@/services/payment-invoice-service';
 import { 
   Coins, 
   CreditCard, 
@@ -84,54 +87,32 @@ export default function BuyPXLPage() {
     setError('');
 
     try {
-      // Prepare customer info
-      const customerName = platformUser?.profile?.firstName && platformUser?.profile?.lastName
-        ? `${platformUser.profile.firstName} ${platformUser.profile.lastName}`
-        : user.email?.split('@')[0] || 'Customer';
-      
-      const customerEmail = user.email || 'customer@example.com';
-      const customerMobile = platformUser?.profile?.phone || '';
+      // Lock today's rate and tier bonus; the purchase keeps it while the customer pays
+      const quote = await quotePXLPurchase(selectedPackage.usd);
+      const totalPXL = quote.totalPxl;
 
-      // Calculate final PXL amount with bonus
-      const totalPXL = selectedPackage.pxl + selectedPackage.bonus;
+      // Register the purchase so the payment webhook can credit it
+      const purchaseId = await pxlCurrencyService.createPXLPurchase(
+        selectedPackage.usd,
+        'myfatoorah',
+        `buy-pxl_${Date.now()}_${selectedPackage.id}`,
+        quote.quoteId
+      );
 
-      // Call MyFatoorah API to initiate payment
-      const response = await fetch('/api/payment/initiate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          amount: selectedPackage.usd,
-          customerName,
-          customerEmail,
-          customerMobile: customerMobile.replace(/[^0-9]/g, '').slice(-8),
-          items: [{
-            name: `PXL ${selectedPackage.name} - ${formatPXL(totalPXL)} PXL`,
-            quantity: 1,
-            price: selectedPackage.usd
-          }],
-        }),
-      });
+      // The invoice is created from the purchase on the server, for the purchase's amount
+      const invoice = await createPaymentInvoice(purchaseId);
 
-      const data = await response.json();
+      // Store purchase info in session storage for callback
+      sessionStorage.setItem('pendingPXLPurchase', JSON.stringify({
+        packageId: selectedPackage.id,
+        pxlAmount: totalPXL,
+        usdAmount: selectedPackage.usd,
+        orderId: purchaseId,
+        invoiceId: invoice.invoiceId
+      }));
 
-      if (data.success && data.paymentUrl) {
-        // Store purchase info in session storage for callback
-        sessionStorage.setItem('pendingPXLPurchase', JSON.stringify({
-          packageId: selectedPackage.id,
-          pxlAmount: totalPXL,
-          usdAmount: selectedPackage.usd,
-          orderId: data.orderId,
-          invoiceId: data.invoiceId
-        }));
-
-        // Redirect to MyFatoorah payment page
-        window.location.href = data.paymentUrl;
-      } else {
-        setError(data.error || 'Failed to initiate payment');
-        setIsProcessing(false);
-      }
+      // Redirect to MyFatoorah payment page
+      window.location.href = invoice.paymentUrl;
     } catch (error) {
       console.error('Payment error:', error);
       setError('Failed to process payment. Please try again.');
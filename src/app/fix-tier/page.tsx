@@ -3,14 +3,14 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/auth-context';
-import { calculateTier, TIER_THRESHOLDS } from '@/lib/pxl-currency';
-import { doc, updateDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase-config';
+import { usePXLCurrency } from '@/hooks/use-pxl-currency';
+import { recalculateTier, resolveTierRules, TIER_ORDER } from '@/services/tier-service';
 import Link from 'next/link';
 import { AlertCircle, CheckCircle } from 'lucide-react';
 
 export default function FixTierPage() {
-  const { user, platformUser } = useAuth();
+  const { user, platformUser, refreshUserData } = useAuth();
+  const { currencyData } = usePXLCurrency();
   const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [message, setMessage] = useState<string>('');
 
@@ -25,24 +25,18 @@ export default function FixTierPage() {
     setMessage('Recalculating your tier...');
 
     try {
-      const currentBalance = platformUser.wallets?.pxl?.balance || 0;
-      const correctTier = calculateTier(currentBalance);
-      const currentTier = platformUser.tier?.current || 'starter';
+      const result = await recalculateTier();
 
-      if (currentTier === correctTier) {
-        setMessage(`Your tier is already correct: ${correctTier} (Balance: ${currentBalance} PXL)`);
+      if (!result.changed) {
+        setMessage(result.graceUntil
+          ? `Your tier is ${result.tier} until ${new Date(result.graceUntil).toLocaleDateString()}, then ${result.qualifiedTier}`
+          : `Your tier is already correct: ${result.tier}`);
         setStatus('success');
         return;
       }
 
-      // Update the tier in Firestore
-      const userRef = doc(db, 'users', user.uid);
-      await updateDoc(userRef, {
-        'tier.current': correctTier,
-        'timestamps.updated': new Date()
-      });
-
-      setMessage(`Tier updated from ${currentTier} to ${correctTier} based on your balance of ${currentBalance} PXL`);
+      await refreshUserData();
+      setMessage(`Tier updated from ${result.fromTier} to ${result.tier}`);
       setStatus('success');
     } catch (error: any) {
       console.error('Failed to fix tier:', error);
@@ -66,8 +60,10 @@ export default function FixTierPage() {
 
   const currentBalance = platformUser.wallets?.pxl?.balance || 0;
   const currentTier = platformUser.tier?.current || 'starter';
-  const expectedTier = calculateTier(currentBalance);
-  const needsFix = currentTier !== expectedTier;
+  const expectedTier = platformUser.tier?.qualifiedTier || currentTier;
+  const graceUntil = platformUser.tier?.graceUntil?.toDate?.() as Date | undefined;
+  const tierRules = resolveTierRules(currencyData?.tierConfig);
+  const needsFix = currentTier !== expectedTier && !graceUntil && !platformUser.tier?.override;
 
   return (
     <div className="min-h-screen bg-black flex items-center justify-center p-4">
@@ -85,14 +81,29 @@ export default function FixTierPage() {
           <div className="p-4 bg-gray-800 rounded-lg">
             <h2 className="text-sm font-medium text-gray-400 mb-2">Tier Requirements</h2>
             <div className="space-y-1 text-sm">
-              <p className="text-gray-300">Starter: 0 PXL</p>
-              <p className="text-gray-300">Rising: {TIER_THRESHOLDS.rising.toLocaleString()} PXL</p>
-              <p className="text-gray-300">Pro: {TIER_THRESHOLDS.pro.toLocaleString()} PXL</p>
-              <p className="text-gray-300">Pixlbeast: {TIER_THRESHOLDS.pixlbeast.toLocaleString()} PXL</p>
-              <p className="text-gray-300">Pixlionaire: {TIER_THRESHOLDS.pixlionaire.toLocaleString()} PXL</p>
+              {TIER_ORDER.map(tier => (
+                <p key={tier} className="text-gray-300 capitalize">
+                  {tier}: {tierRules.rules[tier].minBalance.toLocaleString()} PXL
+                  {tierRules.rules[tier].minSpend90d > 0 &&
+                    ` ${tierRules.rules[tier].match === 'all' ? 'and' : 'or'} ${tierRules.rules[tier].minSpend90d.toLocaleString()} PXL spent in 90 days`}
+                  {tierRules.rules[tier].minLifetimeEarned > 0 &&
+                    ` ${tierRules.rules[tier].match === 'all' ? 'and' : 'or'} ${tierRules.rules[tier].minLifetimeEarned.toLocaleString()} PXL earned`}
+                </p>
+              ))}
             </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Dropping below your tier keeps it for {tierRules.graceDays} days before it changes.
+            </p>
           </div>
 
+          {graceUntil && (
+            <div className="p-4 bg-blue-900/20 border border-blue-800 rounded-lg">
+              <p className="text-sm text-blue-400">
+                You keep <span className="capitalize">{currentTier}</span> until {graceUntil.toLocaleDateString()}.
+              </p>
+            </div>
+          )}
+
           {needsFix && (
             <div className="p-4 bg-yellow-900/20 border border-yellow-800 rounded-lg">
               <div className="flex items-start space-x-2">
@@ -100,7 +111,7 @@ export default function FixTierPage() {
                 <div>
                   <p className="text-sm text-yellow-400 font-medium">Tier Mismatch Detected</p>
                   <p className="text-xs text-yellow-300 mt-1">
-                    Your tier should be "{expectedTier}" based on your balance.
+                    Your tier should be "{expectedTier}" based on your activity.
                   </p>
                 </div>
               </div>
@@ -110,10 +121,10 @@ export default function FixTierPage() {
 
         <Button
           onClick={handleFixTier}
-          disabled={status === 'loading' || !needsFix}
+          disabled={status === 'loading'}
           className="w-full"
         >
-          {status === 'loading' ? 'Fixing...' : needsFix ? 'Fix My Tier' : 'Tier is Correct'}
+          {status === 'loading' ? 'Fixing...' : needsFix ? 'Fix My Tier' : 'Recalculate Tier'}
         </Button>
 
         {message && (
@@ -12,12 +12,16 @@ import { SimpleMessageList } from "@/components/chat/SimpleMessageList";
 import { NewConversationModal } from "@/components/chat/NewConversationModal";
 import { CreateGroupModal } from "@/components/chat/CreateGroupModal";
 import { ProfileSlider } from "@/components/chat/ProfileSlider";
+import { ThreadPanel } from "@/components/chat/ThreadPanel";
+import { SafetyNumberNotice } from "@/components/chat/SafetyNumberNotice";
 import { useAuth } from "@/contexts/auth-context";
 import type { SocketMessage } from "@/services/chat/socket.service";
+import type { DeleteScope } from "@/services/chat/firestore-chat.service";
 import type { Message } from "@/stores/chatStore";
 import { useChatStore } from "@/stores/chatStore";
 import { encryptionService } from "@/services/chat/encryption.service";
 import { keyExchangeService } from "@/services/chat/key-exchange.service";
+import { decryptMessage } from "@/services/chat/message-decryption.service";
 import { presenceService } from "@/services/chat/presence.service";
 import { socketService } from "@/services/chat/socket.service";
 import { offlineQueue } from "@/services/chat/offline-queue.service";
@@ -27,6 +31,7 @@ import { mediaService } from "@/services/chat/media.service";
 import { db } from "@/lib/firebase-config";
 import { authManager } from "@/lib/firebase-auth-manager";
 import { ForwardMessageModal } from "@/components/chat/ForwardMessageModal";
+import type { CreatedPaymentRequest } from "@/components/pxl/pxl-request-modal";
 
 export default function EnhancedMessagesPage() {
   const { user, platformUser } = useAuth();
@@ -92,9 +97,15 @@ export default function EnhancedMessagesPage() {
     deleteConversation,
     deleteMessage,
     editMessage,
+    getEditHistory,
     setReplyingTo,
+    activeThreadId,
+    threadUnread,
+    openThread,
+    closeThread,
     reset,
-    updatePresence
+    updatePresence,
+    purgeExpiredMessages
   } = useChatStore();
   
 
@@ -237,10 +248,20 @@ export default function EnhancedMessagesPage() {
           socketService.on('message:new', async (socketMessage: SocketMessage) => {
             console.log('📨 New message received via WebSocket in Messages page:', socketMessage);
             
+            // The store adds thread replies itself, counting them towards their thread
+            if (socketMessage.threadId) return;
+            
             // Decrypt the message if it's from another user
             let decryptedText = socketMessage.content || '';
             
-            if (socketMessage.senderId !== user?.uid && socketMessage.nonce) {
+            if (socketMessage.keyVersion !== undefined || socketMessage.envelopes) {
+              // Group and per-device messages are read the same way for our own and others' messages
+              const decryptionResult = await decryptMessage({
+                ...socketMessage,
+                text: socketMessage.text || socketMessage.content
+              }, user?.uid);
+              decryptedText = decryptionResult.text;
+            } else if (socketMessage.senderId !== user?.uid && socketMessage.nonce) {
               try {
                 const senderPublicKey = await keyExchangeService.getPublicKey(socketMessage.senderId);
                 if (senderPublicKey) {
@@ -264,6 +285,7 @@ export default function EnhancedMessagesPage() {
             const message: Message = {
               ...socketMessage,
               timestamp: Timestamp.fromDate(new Date(socketMessage.timestamp)),
+              expiresAt: socketMessage.expiresAt ? new Date(socketMessage.expiresAt).getTime() : undefined,
               text: decryptedText, // For display compatibility
               decryptedContent: decryptedText,
               content: socketMessage.content || ''
@@ -278,13 +300,19 @@ export default function EnhancedMessagesPage() {
             
             // Add message to the store and remove any temp messages from the same sender
             const messages = useChatStore.getState().messages.get(message.conversationId) || [];
-            const messageExists = messages.some(m => m.id === message.id);
+            const messageExists = messages.some(m => 
+              m.id === message.id || (!!message.clientMessageId && m.clientMessageId === message.clientMessageId && !m.id.startsWith('temp'))
+            );
             
             if (!messageExists) {
               useChatStore.setState((state) => {
                 const conversationMessages = state.messages.get(message.conversationId) || [];
                 // Remove any temp messages from the same sender (they're being replaced by the real message)
                 const filteredMessages = conversationMessages.filter(m => {
+                  // Replace only the temp message sent with the same client ID when there is one
+                  if (message.clientMessageId) {
+                    return m.clientMessageId !== message.clientMessageId;
+                  }
                   // Keep message if it's not a temp message or if it's from a different sender
                   return !m.id.startsWith('temp_') || m.senderId !== message.senderId;
                 });
@@ -315,6 +343,11 @@ export default function EnhancedMessagesPage() {
             // Reload conversations to get the new one
             await loadConversations();
           });
+          
+          // The chat server deleted disappearing messages; drop our copies too
+          socketService.on('message:expired', (data: { conversationId: string; messageIds: string[] }) => {
+            purgeExpiredMessages(data);
+          });
         } else {
           console.warn('Socket connection not available, using Firestore fallback');
           setConnectionStatus('fallback');
@@ -422,6 +455,13 @@ export default function EnhancedMessagesPage() {
     };
   }, [user, conversations]);
 
+  // Purge disappearing messages that expired while no sweep notice arrived, e.g. offline
+  useEffect(() => {
+    purgeExpiredMessages();
+    const intervalId = setInterval(() => purgeExpiredMessages(), 30000);
+    return () => clearInterval(intervalId);
+  }, [purgeExpiredMessages]);
+
   // Load messages for active conversation
   useEffect(() => {
     if (activeConversationId && user?.uid) {
@@ -496,7 +536,7 @@ export default function EnhancedMessagesPage() {
   }, [conversations, user]);
 
   const activeConversation = activeConversationId ? conversations.get(activeConversationId) : null;
-  const activeMessages = useMemo(() => {
+  const conversationMessages = useMemo(() => {
     if (!activeConversationId) return [];
     const msgs = messages.get(activeConversationId) || [];
     console.log(`📊 Active messages for ${activeConversationId}:`, msgs.length);
@@ -505,9 +545,31 @@ export default function EnhancedMessagesPage() {
       ...msg,
       text: msg.text || msg.decryptedContent || msg.content || '',
       readBy: msg.readBy || msg.read || [],
-      deliveredTo: msg.deliveredTo || msg.delivered || []
+      deliveredTo: msg.deliveredTo || msg.delivered || [],
+      expiresAt: msg.expiresAt ? Timestamp.fromMillis(msg.expiresAt) : undefined
     }));
   }, [activeConversationId, messages]);
+  // Thread replies are shown in the thread panel, summarised on their root message
+  const activeMessages = useMemo(() => {
+    const latestReplies = new Map<string, string>();
+    conversationMessages.forEach(msg => {
+      if (msg.threadId && !msg.deleted) {
+        latestReplies.set(msg.threadId, msg.text);
+      }
+    });
+    return conversationMessages
+      .filter(msg => !msg.threadId)
+      .map(msg => msg.threadSummary ? {
+        ...msg,
+        threadPreview: latestReplies.get(msg.id),
+        threadUnread: threadUnread.get(msg.id)
+      } : msg);
+  }, [conversationMessages, threadUnread]);
+  const threadRoot = activeThreadId ? conversationMessages.find(msg => msg.id === activeThreadId) : undefined;
+  const threadReplies = useMemo(
+    () => activeThreadId ? conversationMessages.filter(msg => msg.threadId === activeThreadId) : [],
+    [conversationMessages, activeThreadId]
+  );
   const typingUsers = activeConversationId ? typing.get(activeConversationId) || [] : [];
   const recordingUsers = activeConversationId ? recording.get(activeConversationId) || [] : [];
 
@@ -516,6 +578,11 @@ export default function EnhancedMessagesPage() {
     await sendMessage(text, 'text');
   };
 
+  const handleSendThreadReply = async (text: string) => {
+    if (!text.trim() || !activeConversationId || !activeThreadId) return;
+    await sendMessage(text, 'text', undefined, activeThreadId);
+  };
+
   // BUG FIX: 2025-01-30 - Fix media message delivery to recipients
   // Problem: Media messages not showing for recipients due to missing metadata
   // Solution: Ensure downloadUrl is both in text field and metadata
@@ -555,6 +622,14 @@ export default function EnhancedMessagesPage() {
     await sendMessage(mediaMessage.downloadUrl || mediaMessage.url || '', messageType, metadata);
   };
 
+  // Post a PXL payment request into the conversation as an actionable card
+  const handlePaymentRequest = async (request: CreatedPaymentRequest) => {
+    if (!activeConversationId) return;
+
+    const text = `Requested ${request.amount} PXL${request.memo ? `: ${request.memo}` : ''}`;
+    await sendMessage(text, 'payment-request', { requestId: request.paymentRequestId });
+  };
+
   const handleTyping = (isTyping: boolean) => {
     if (!activeConversationId) return;
     
@@ -711,6 +786,24 @@ export default function EnhancedMessagesPage() {
     };
   }, [userProfiles, user, platformUser]);
 
+  // Open a contact's profile to compare safety numbers after their keys changed
+  const handleReviewSafetyNumber = useCallback((contactId: string) => {
+    const userInfo = getUserInfo(contactId);
+    const profile = userProfiles.get(contactId);
+    setSelectedProfile({
+      uid: contactId,
+      displayName: userInfo.displayName,
+      email: profile?.email,
+      photoURL: userInfo.photoURL,
+      tier: userInfo.tier,
+      createdAt: profile?.createdAt,
+      lastSeen: profile?.lastSeen,
+      country: userInfo.country || profile?.country,
+      region: userInfo.region || profile?.region
+    });
+    setShowProfileSlider(true);
+  }, [getUserInfo, userProfiles]);
+
 
   // Load missing member profiles for the active conversation to show correct avatars/names
   useEffect(() => {
@@ -756,13 +849,15 @@ export default function EnhancedMessagesPage() {
     editMessage(messageId, newText);
   }, [editMessage]);
 
-  const handleDelete = useCallback((messageId: string) => {
-    deleteMessage(messageId);
+  const handleDelete = useCallback((messageId: string, scope: DeleteScope) => {
+    deleteMessage(messageId, scope).catch((error) => {
+      console.error('Failed to delete message:', error);
+    });
   }, [deleteMessage]);
 
   const handleReact = useCallback(async (messageId: string, emoji: string) => {
     // Find the message to check if user already reacted
-    const message = activeMessages.find(m => m.id === messageId);
+    const message = conversationMessages.find(m => m.id === messageId);
     if (message?.reactions?.[emoji]?.includes(user?.uid || '')) {
       // User already reacted, remove it
       await removeReaction(messageId, emoji);
@@ -770,7 +865,7 @@ export default function EnhancedMessagesPage() {
       // Add reaction
       await addReaction(messageId, emoji);
     }
-  }, [activeMessages, user, addReaction, removeReaction]);
+  }, [conversationMessages, user, addReaction, removeReaction]);
 
   // Handle message forwarding
   const handleForward = useCallback((messageId: string) => {
@@ -803,11 +898,11 @@ export default function EnhancedMessagesPage() {
 
   // Index messages when they're loaded
   useEffect(() => {
-    if (activeMessages.length > 0 && activeConversationId) {
+    if (conversationMessages.length > 0 && activeConversationId) {
       // Index messages for search in the background
-      messageSearchService.indexMessages(activeMessages, activeConversationId).catch(console.error);
+      messageSearchService.indexMessages(conversationMessages, activeConversationId).catch(console.error);
     }
-  }, [activeMessages, activeConversationId]);
+  }, [conversationMessages, activeConversationId]);
 
   if (!user) {
     return (
@@ -945,6 +1040,7 @@ export default function EnhancedMessagesPage() {
             setSelectedProfile(null);
           }}
           user={selectedProfile!}
+          currentUserId={user?.uid}
           isOnline={userPresenceData.get(selectedProfile?.uid || '')?.online || false}
           conversationId={activeConversationId || undefined}
           messages={activeMessages}
@@ -1370,6 +1466,14 @@ export default function EnhancedMessagesPage() {
 
               {/* Messages Area */}
               <div className="flex-1 overflow-hidden flex flex-col">
+                {user && (
+                  <SafetyNumberNotice
+                    currentUserId={user.uid}
+                    contactIds={activeConversation.members}
+                    getUserInfo={getUserInfo}
+                    onReview={handleReviewSafetyNumber}
+                  />
+                )}
                 {activeMessages.length > 0 ? (
                   <>
                     <div className="flex-1 overflow-hidden">
@@ -1380,8 +1484,10 @@ export default function EnhancedMessagesPage() {
                         onReply={handleReply}
                         onEdit={handleEdit}
                         onDelete={handleDelete}
+                        onViewHistory={getEditHistory}
                         onReact={handleReact}
                         onForward={handleForward}
+                        onOpenThread={openThread}
                       />
                     </div>
                   </>
@@ -1405,6 +1511,8 @@ export default function EnhancedMessagesPage() {
                 recipientId={activeConversation.type === 'direct' ? activeConversation.members.find(id => id !== user.uid) || undefined : undefined}
                 replyingTo={replyingTo}
                 onCancelReply={() => setReplyingTo(null)}
+                onPaymentRequest={handlePaymentRequest}
+                paymentRequestPayerIds={activeConversation.members.filter(id => id !== user.uid)}
               />
             </>
           ) : (
@@ -1418,6 +1526,23 @@ export default function EnhancedMessagesPage() {
           )}
         </div>
 
+        {/* Thread Panel */}
+        {activeConversationId && threadRoot && user && (
+          <ThreadPanel
+            root={threadRoot}
+            replies={threadReplies}
+            currentUserId={user.uid}
+            conversationId={activeConversationId}
+            getUserInfo={getUserInfo}
+            onSend={handleSendThreadReply}
+            onClose={closeThread}
+            onEdit={handleEdit}
+            onDelete={handleDelete}
+            onViewHistory={getEditHistory}
+            onReact={handleReact}
+          />
+        )}
+
         {/* Right Sidebar - Members for Groups Only */}
         {activeConversation && activeConversation.type === 'group' && showRightSidebar && (
           <div className="w-64 bg-[#0a0a0a] border-l border-[#262626] flex flex-col">
@@ -16,6 +16,7 @@ import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/auth-context';
 import { db } from '@/lib/firebase-config';
 import { doc, getDoc } from 'firebase/firestore';
+import { CodeRef } from '@/services/giftcard-vault-service';
 import { formatPXL, formatUSD } from '@/lib/pxl-currency';
 import GiftCardReveal from '@/components/ecommerce/gift-card-reveal';
 
@@ -29,7 +30,7 @@ interface OrderData {
     denomination: number;
     quantity: number;
     serials?: string[];
-    codes?: string[];
+    codeRefs?: CodeRef[];
   }>;
   payment: {
     method: 'pxl' | 'stripe' | 'paypal';
@@ -129,14 +130,15 @@ export default function OrderConfirmationPage() {
           <div className="space-y-4">
             {order.items.map((item, itemIndex) => {
               // If item has multiple serials/codes, show each separately
-              if (item.codes && item.codes.length > 0) {
-                return item.codes.map((code, codeIndex) => (
+              if (item.codeRefs && item.codeRefs.length > 0) {
+                return item.codeRefs.map((ref, codeIndex) => (
                   <GiftCardReveal
                     key={`${itemIndex}-${codeIndex}`}
                     brand={item.brand}
                     productName={item.productName}
                     denomination={item.denomination}
-                    code={code}
+                    serialId={ref.serialId}
+                    hint={ref.hint}
                     serialNumber={item.serials?.[codeIndex]}
                     orderId={order.id}
                     index={codeIndex}
@@ -198,7 +200,7 @@ export default function OrderConfirmationPage() {
             
             {order.totals.cashback && order.totals.cashback > 0 && (
               <div className="flex justify-between">
-                <span className="text-gray-400">Cashback Earned</span>
+                <span className="text-gray-400">Cashback (pending)</span>
                 <span className="text-blue-400">
                   +{formatPXL(order.totals.cashback)}
                 </span>
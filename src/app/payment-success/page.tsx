@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { CheckCircle, Download, ShoppingBag, ArrowRight, Loader2 } from 'lucide-react';
 import { formatUSD } from '@/lib/pxl-currency';
 import { useCart } from '@/contexts/cart-context';
+import { confirmOrderPayment } from '@/services/order-service';
 
 export default function PaymentSuccessPage() {
   const router = useRouter();
@@ -33,6 +34,13 @@ export default function PaymentSuccessPage() {
       sessionStorage.removeItem('pendingPXLPurchase');
       
       setOrderProcessed(true);
+
+      // Assign the reserved giftcard codes to the order
+      if (reference && invoiceId) {
+        confirmOrderPayment(reference, invoiceId).catch(error => {
+          console.error('Error confirming order payment:', error);
+        });
+      }
       
       // Log success for debugging
       console.log('Payment successful - cart cleared:', {
@@ -11,6 +11,8 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ValidatedInput } from '@/components/ui/validated-input';
 import { ProfilePictureUpload } from '@/components/ui/profile-picture-upload';
+import { LinkedDevices } from '@/components/chat/LinkedDevices';
+import { KeyBackup } from '@/components/chat/KeyBackup';
 import { FullPageLoader } from '@/components/ui/loader';
 import { User, Mail, Phone, MapPin, Calendar, Shield, Save, ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
@@ -441,6 +443,12 @@ export default function ProfilePage() {
                   </div>
                 </div>
               </Card>
+
+              {/* Devices that can read encrypted chats */}
+              <LinkedDevices userId={user.uid} />
+
+              {/* Encrypted backup of message keys */}
+              <KeyBackup userId={user.uid} />
             </div>
           </div>
         </div>
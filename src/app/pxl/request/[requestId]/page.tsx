@@ -0,0 +1,33 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { PaymentRequestCard } from "@/components/pxl/payment-request-card";
+
+/**
+ * Shareable landing page for a PXL payment request link.
+ */
+export default function PaymentRequestPage() {
+  const params = useParams<{ requestId: string }>();
+
+  return (
+    <div className="min-h-screen bg-black">
+      <main className="flex-1">
+        <div className="container mx-auto max-w-md px-4 py-8">
+          <div className="space-y-4">
+            {/* Page Header */}
+            <div className="text-center">
+              <h1 className="text-2xl font-bold text-white sm:text-3xl">
+                PXL Request
+              </h1>
+              <p className="mt-1 text-gray-400">
+                Review and pay this request from your PXL wallet
+              </p>
+            </div>
+
+            <PaymentRequestCard requestId={params.requestId} />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ShieldCheck, AlertTriangle } from "lucide-react";
+import { doc, getDoc } from "firebase/firestore";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  ADMIN_ROLES,
+  ADMIN_ROLE_LABELS,
+  AdminRole,
+  isAdminRole,
+  ROLE_PERMISSIONS,
+  setAdminRole,
+} from "@/services/admin-role-service";
+import { db } from "@/lib/firebase-config";
+import { logAdminAction, AdminActionTypes } from "@/lib/admin-logging";
+
+interface AdminRolePanelProps {
+  userId: string;
+  email: string;
+}
+
+// Select value for users without a role
+const NO_ROLE = "none";
+
+export function AdminRolePanel({ userId, email }: AdminRolePanelProps) {
+  const { user, platformUser } = useAuth();
+  const [currentRole, setCurrentRole] = useState<AdminRole | null>(null);
+  const [role, setRole] = useState<string>(NO_ROLE);
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The role claim is mirrored to admin-users so it can be listed here
+  useEffect(() => {
+    const loadRole = async () => {
+      try {
+        const mirror = await getDoc(doc(db, "admin-users", userId));
+        const mirrored = mirror.data()?.role;
+        const loaded = isAdminRole(mirrored) ? mirrored : null;
+        setCurrentRole(loaded);
+        setRole(loaded || NO_ROLE);
+      } catch (err) {
+        console.error("Failed to load admin role", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRole();
+  }, [userId]);
+
+  const isSelf = user?.uid === userId;
+  const nextRole = isAdminRole(role) ? role : null;
+
+  const handleSave = async () => {
+    if (!reason.trim()) {
+      setError("A reason is required");
+      return;
+    }
+
+    setWorking(true);
+    setError(null);
+    try {
+      const result = await setAdminRole(userId, nextRole, reason.trim());
+      setCurrentRole(result.role);
+      setReason("");
+
+      if (user && platformUser) {
+        await logAdminAction(
+          AdminActionTypes.ROLE_CHANGE,
+          user.uid,
+          platformUser.email,
+          `admin-users/${userId}`,
+          `Changed admin role of ${email} from ${result.previousRole || "none"} to ${result.role || "none"}: ${reason.trim()}`
+        );
+      }
+    } catch (err) {
+      console.error("Failed to set admin role", err);
+      setError(err instanceof Error ? err.message : "Failed to set admin role");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2 mb-3">
+        <ShieldCheck className="h-4 w-4 text-blue-400" />
+        <h4 className="text-sm font-medium text-gray-400">Admin Role</h4>
+      </div>
+
+      <div className="mb-3 text-sm">
+        <p className="text-xs text-gray-500">Current Role</p>
+        <p className="text-white">
+          {loading ? "Loading..." : currentRole ? ADMIN_ROLE_LABELS[currentRole] : "None"}
+        </p>
+        {nextRole && (
+          <p className="text-xs text-gray-500 mt-1">{ROLE_PERMISSIONS[nextRole].join(", ")}</p>
+        )}
+      </div>
+
+      {isSelf ? (
+        <p className="text-sm text-gray-500">You cannot change your own role.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value)}
+              disabled={loading}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+              aria-label="Admin role"
+            >
+              <option value={NO_ROLE}>No admin access</option>
+              {ADMIN_ROLES.map((name) => (
+                <option key={name} value={name}>{ADMIN_ROLE_LABELS[name]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason"
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+              aria-label="Role change reason"
+            />
+          </div>
+
+          {error && (
+            <div className="mt-3 flex items-center space-x-2 text-sm text-red-400">
+              <AlertTriangle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 mt-3">
+            <button
+              onClick={handleSave}
+              disabled={working || loading || nextRole === currentRole}
+              className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 rounded-lg text-sm font-medium text-white transition-colors"
+            >
+              Save Role
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import React, { useState } from "react";
+import { Coins, AlertTriangle, Clock } from "lucide-react";
+import { proposeBalanceAdjustment } from "@/services/admin-approval-service";
+
+interface BalanceAdjustmentPanelProps {
+  userId: string;
+  balance: number;
+}
+
+export function BalanceAdjustmentPanel({ userId, balance }: BalanceAdjustmentPanelProps) {
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const delta = Number(amount);
+
+  // Adjustments are posted to the ledger only once another admin approves them
+  const handlePropose = async () => {
+    if (!Number.isFinite(delta) || delta === 0) {
+      setError("Enter a non-zero amount");
+      return;
+    }
+    if (!reason.trim()) {
+      setError("A reason is required");
+      return;
+    }
+
+    setWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await proposeBalanceAdjustment(userId, delta, reason.trim());
+      setAmount("");
+      setReason("");
+      setNotice("Submitted for approval");
+    } catch (err) {
+      console.error("Failed to propose balance adjustment", err);
+      setError(err instanceof Error ? err.message : "Failed to propose balance adjustment");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2 mb-3">
+        <Coins className="h-4 w-4 text-yellow-400" />
+        <h4 className="text-sm font-medium text-gray-400">Balance Adjustment</h4>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-3 text-sm">
+        <div>
+          <p className="text-xs text-gray-500">Current Balance</p>
+          <p className="text-white">{balance.toLocaleString()} PXL</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">After Approval</p>
+          <p className="text-white">
+            {Number.isFinite(delta) && delta !== 0 ? `${(balance + delta).toLocaleString()} PXL` : "-"}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="number"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="Amount (negative to debit)"
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+          aria-label="Adjustment amount"
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason"
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+          aria-label="Adjustment reason"
+        />
+      </div>
+
+      {error && (
+        <div className="mt-3 flex items-center space-x-2 text-sm text-red-400">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mt-3 flex items-center space-x-2 text-sm text-yellow-400">
+          <Clock className="h-4 w-4" />
+          <span>{notice}</span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          onClick={handlePropose}
+          disabled={working}
+          className="px-3 py-2 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-700 rounded-lg text-sm font-medium text-white transition-colors"
+        >
+          Propose Adjustment
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Activity, Play, Save, RefreshCw, AlertTriangle } from "lucide-react";
+import {
+  previewRateModel,
+  DEFAULT_RATE_MODEL,
+  RateModelConfig,
+  RateModelType,
+  RatePreview,
+} from "@/services/rate-engine-service";
+import { proposeRateModel } from "@/services/admin-approval-service";
+
+interface RateModelPanelProps {
+  activeModel?: RateModelConfig;
+  haltedUntil?: Date | null;
+}
+
+const MODEL_LABELS: Record<RateModelType, string> = {
+  "fixed-peg": "Fixed peg",
+  "supply-demand": "Supply / demand",
+  "bounded-drift": "Bounded drift",
+};
+
+const PREVIEW_HOURS = [24, 72, 168];
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  step = "0.1",
+}: {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number) => void;
+  step?: string;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+      <input
+        type="number"
+        value={value ?? ""}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+        min="0"
+        step={step}
+        aria-label={label}
+      />
+    </div>
+  );
+}
+
+export function RateModelPanel({ activeModel, haltedUntil }: RateModelPanelProps) {
+  const [model, setModel] = useState<RateModelConfig>(activeModel || DEFAULT_RATE_MODEL);
+  const [hours, setHours] = useState(24);
+  const [preview, setPreview] = useState<RatePreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [proposing, setProposing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (activeModel) setModel(activeModel);
+  }, [activeModel]);
+
+  const update = (changes: Partial<RateModelConfig>) => {
+    setModel({ ...model, ...changes });
+    setPreview(null);
+  };
+
+  const updateBreaker = (changes: Partial<RateModelConfig["circuitBreaker"]>) => {
+    update({ circuitBreaker: { ...model.circuitBreaker, ...changes } });
+  };
+
+  const handleTypeChange = (type: RateModelType) => {
+    update({
+      type,
+      sensitivityPercent: type === "supply-demand" ? model.sensitivityPercent ?? 2 : undefined,
+      windowHours: type === "supply-demand" ? model.windowHours ?? 1 : undefined,
+      targetRate: type === "bounded-drift" ? model.targetRate ?? model.baseRate : undefined,
+      driftPercentPerRun: type === "bounded-drift" ? model.driftPercentPerRun ?? 0.1 : undefined,
+    });
+  };
+
+  // Firestore rejects undefined fields, so optional parameters are dropped before sending
+  const cleanModel = (): RateModelConfig =>
+    JSON.parse(JSON.stringify(model));
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    setError(null);
+    try {
+      setPreview(await previewRateModel(cleanModel(), hours));
+    } catch (err) {
+      console.error("Error previewing rate model:", err);
+      setError(err instanceof Error ? err.message : "Failed to preview model");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  // The engine only switches models once another finance admin approves the proposal
+  const handlePropose = async () => {
+    const reason = prompt("Reason for changing the rate model (another admin must approve it):");
+    if (!reason?.trim()) {
+      return;
+    }
+
+    setProposing(true);
+    setError(null);
+    try {
+      await proposeRateModel(cleanModel(), reason.trim());
+      alert("Rate model change submitted for approval.");
+    } catch (err) {
+      console.error("Error proposing rate model:", err);
+      setError(err instanceof Error ? err.message : "Failed to propose model");
+    } finally {
+      setProposing(false);
+    }
+  };
+
+  const previewRates = preview?.points.map((p) => p.rate) || [];
+  const chartMin = preview ? preview.minRate : 0;
+  const chartRange = preview ? preview.maxRate - preview.minRate || 1 : 1;
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <Activity className="h-6 w-6 text-green-400" />
+          <h3 className="text-lg font-semibold text-white">Rate Model</h3>
+        </div>
+        <span className="text-sm text-gray-400">
+          Active: {MODEL_LABELS[activeModel?.type || DEFAULT_RATE_MODEL.type]}
+        </span>
+      </div>
+
+      {haltedUntil && haltedUntil > new Date() && (
+        <div className="mb-6 p-4 bg-red-900/20 border border-red-800 rounded-lg flex items-start space-x-3">
+          <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-200">
+            Circuit breaker tripped. The rate is frozen until {haltedUntil.toLocaleTimeString()}.
+            Approving a model change lifts the halt.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Model</label>
+          <select
+            value={model.type}
+            onChange={(e) => handleTypeChange(e.target.value as RateModelType)}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+            aria-label="Rate model type"
+          >
+            {Object.entries(MODEL_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <NumberField label="Base rate (PXL per USD)" value={model.baseRate} onChange={(baseRate) => update({ baseRate })} />
+        <NumberField label="Band around base %" value={model.bandPercent} onChange={(bandPercent) => update({ bandPercent })} />
+        <NumberField label="Max step per run %" value={model.maxStepPercent} onChange={(maxStepPercent) => update({ maxStepPercent })} />
+
+        {model.type === "supply-demand" && (
+          <>
+            <NumberField label="Sensitivity %" value={model.sensitivityPercent} onChange={(sensitivityPercent) => update({ sensitivityPercent })} />
+            <NumberField label="Volume window (hours)" value={model.windowHours} onChange={(windowHours) => update({ windowHours })} step="1" />
+          </>
+        )}
+
+        {model.type === "bounded-drift" && (
+          <>
+            <NumberField label="Target rate" value={model.targetRate} onChange={(targetRate) => update({ targetRate })} />
+            <NumberField label="Drift per run %" value={model.driftPercentPerRun} onChange={(driftPercentPerRun) => update({ driftPercentPerRun })} step="0.01" />
+          </>
+        )}
+      </div>
+
+      <h4 className="text-sm font-medium text-gray-300 mt-6 mb-3">Circuit Breaker</h4>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <NumberField label="Max move %" value={model.circuitBreaker.maxMovePercent} onChange={(maxMovePercent) => updateBreaker({ maxMovePercent })} />
+        <NumberField label="Window (hours)" value={model.circuitBreaker.windowHours} onChange={(windowHours) => updateBreaker({ windowHours })} step="1" />
+        <NumberField label="Halt (minutes)" value={model.circuitBreaker.haltMinutes} onChange={(haltMinutes) => updateBreaker({ haltMinutes })} step="5" />
+      </div>
+
+      <div className="flex items-center justify-end space-x-3 mt-6">
+        <select
+          value={hours}
+          onChange={(e) => { setHours(Number(e.target.value)); setPreview(null); }}
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none"
+          aria-label="Preview period"
+        >
+          {PREVIEW_HOURS.map((h) => (
+            <option key={h} value={h}>Last {h}h</option>
+          ))}
+        </select>
+        <button
+          onClick={handlePreview}
+          disabled={previewing}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 rounded-lg transition-colors flex items-center space-x-2"
+        >
+          {previewing ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+          <span className="text-sm font-medium">Preview</span>
+        </button>
+        <button
+          onClick={handlePropose}
+          disabled={proposing || !preview}
+          title={preview ? undefined : "Preview the model before proposing it"}
+          className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 rounded-lg transition-colors flex items-center space-x-2"
+        >
+          {proposing ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          <span className="text-sm font-medium">Propose</span>
+        </button>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+
+      {preview && (
+        <div className="mt-6 p-4 bg-gray-800 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-300 mb-3">
+            Replay of the last {hours}h ({preview.transactionCount} transactions)
+          </h4>
+          <div className="flex items-end h-24 space-x-px mb-4" aria-label="Previewed rate series">
+            {previewRates.map((rate, index) => (
+              <div
+                key={index}
+                className={`flex-1 ${preview.points[index].halted ? "bg-red-500/60" : "bg-green-500/60"}`}
+                style={{ height: `${10 + ((rate - chartMin) / chartRange) * 90}%` }}
+                title={`${new Date(preview.points[index].at).toLocaleString()}: ${rate}`}
+              />
+            ))}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500">Start → End</p>
+              <p className="text-white">{preview.startRate.toFixed(2)} → {preview.finalRate.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Change</p>
+              <p className={preview.changePercent >= 0 ? "text-green-400" : "text-red-400"}>
+                {preview.changePercent >= 0 ? "+" : ""}{preview.changePercent.toFixed(2)}%
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Range</p>
+              <p className="text-white">{preview.minRate.toFixed(2)} – {preview.maxRate.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Clamped / Breaker trips</p>
+              <p className="text-white">{preview.clampedSteps} / {preview.circuitBreakerTrips}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useState } from "react";
+import { Award, RefreshCw, AlertTriangle, Clock } from "lucide-react";
+import { proposeTierOverride } from "@/services/admin-approval-service";
+import {
+  recalculateTier,
+  TIER_ORDER,
+  TierEvaluation,
+  TierName,
+} from "@/services/tier-service";
+
+interface TierOverridePanelProps {
+  userId: string;
+  qualifiedTier?: string;
+  graceUntil?: Date | null;
+  override?: {
+    tier: string;
+    expiresAt: Date;
+    reason: string;
+  } | null;
+  onChange: (evaluation: TierEvaluation) => void;
+}
+
+const DEFAULT_OVERRIDE_DAYS = 30;
+
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function TierOverridePanel({ userId, qualifiedTier, graceUntil, override, onChange }: TierOverridePanelProps) {
+  const [tier, setTier] = useState<TierName>((override?.tier as TierName) || "rising");
+  const [expiresOn, setExpiresOn] = useState(
+    toDateInput(override?.expiresAt || new Date(Date.now() + DEFAULT_OVERRIDE_DAYS * 24 * 60 * 60 * 1000))
+  );
+  const [reason, setReason] = useState("");
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(fallback, err);
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Overrides are applied only once another admin approves the proposal
+  const propose = (nextTier: TierName | null, expiresAt: number | null, fallback: string) => {
+    if (!reason.trim()) {
+      setError("A reason is required");
+      return;
+    }
+    run(async () => {
+      await proposeTierOverride(userId, nextTier, expiresAt, reason.trim());
+      setReason("");
+      setNotice("Submitted for approval");
+    }, fallback);
+  };
+
+  const handleSet = () => {
+    // End of the chosen day, local time
+    propose(tier, new Date(`${expiresOn}T23:59:59`).getTime(), "Failed to propose tier override");
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2 mb-3">
+        <Award className="h-4 w-4 text-purple-400" />
+        <h4 className="text-sm font-medium text-gray-400">Tier Override</h4>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-3 text-sm">
+        <div>
+          <p className="text-xs text-gray-500">Qualifies For</p>
+          <p className="text-white capitalize">{qualifiedTier || "Not evaluated"}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Grace Period</p>
+          <p className="text-white">{graceUntil ? `Until ${graceUntil.toLocaleDateString()}` : "None"}</p>
+        </div>
+      </div>
+
+      {override && (
+        <div className="mb-3 p-3 bg-purple-900/20 border border-purple-800 rounded-lg text-sm">
+          <p className="text-purple-300">
+            Pinned to <span className="capitalize font-medium">{override.tier}</span> until{" "}
+            {override.expiresAt.toLocaleDateString()}
+          </p>
+          <p className="text-xs text-purple-400 mt-1">{override.reason}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <select
+          value={tier}
+          onChange={(e) => setTier(e.target.value as TierName)}
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm capitalize focus:outline-none focus:border-gray-600"
+          aria-label="Override tier"
+        >
+          {TIER_ORDER.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={expiresOn}
+          min={toDateInput(new Date())}
+          onChange={(e) => setExpiresOn(e.target.value)}
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+          aria-label="Override expiry date"
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason"
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-gray-600"
+          aria-label="Override reason"
+        />
+      </div>
+
+      {error && (
+        <div className="mt-3 flex items-center space-x-2 text-sm text-red-400">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mt-3 flex items-center space-x-2 text-sm text-yellow-400">
+          <Clock className="h-4 w-4" />
+          <span>{notice}</span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          onClick={handleSet}
+          disabled={working}
+          className="px-3 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 rounded-lg text-sm font-medium text-white transition-colors"
+        >
+          Propose Override
+        </button>
+        {override && (
+          <button
+            onClick={() => propose(null, null, "Failed to propose clearing the tier override")}
+            disabled={working}
+            className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:bg-gray-700 rounded-lg text-sm text-gray-300 transition-colors"
+          >
+            Propose Clear
+          </button>
+        )}
+        <button
+          onClick={() => run(async () => onChange(await recalculateTier(userId)), "Failed to recalculate tier")}
+          disabled={working}
+          className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:bg-gray-700 rounded-lg text-sm text-gray-300 transition-colors flex items-center space-x-2"
+        >
+          <RefreshCw className={`h-4 w-4 ${working ? "animate-spin" : ""}`} />
+          <span>Recalculate</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import React, { useState, useEffect, useRef, useCallback, useMemo } from "react"
 import { ChatMessage, markMessageAsRead } from "@/services/chat/firestore-chat.service";
 import { VirtualMessageList } from "./VirtualMessageList";
 import { TypingIndicator } from "./TypingIndicator";
+import { SafetyNumberNotice } from "./SafetyNumberNotice";
 import { presenceService } from "@/services/chat/presence.service";
 
 interface ChatWindowProps {
@@ -12,6 +13,10 @@ interface ChatWindowProps {
   conversationId?: string;
   memberIds?: string[];
   onLoadMore?: () => void;
+  // Opens a contact's profile to compare safety numbers
+  onReviewSafetyNumber?: (userId: string) => void;
+  // Opens a message's thread beside the conversation
+  onOpenThread?: (messageId: string) => void;
   getUserInfo?: (userId: string) => {
     displayName?: string;
     photoURL?: string;
@@ -29,6 +34,8 @@ export const ChatWindow = React.memo<ChatWindowProps>(({
   conversationId,
   memberIds = [],
   onLoadMore,
+  onReviewSafetyNumber,
+  onOpenThread,
   getUserInfo
 }) => {
   const [typingUsers, setTypingUsers] = useState<Array<{
@@ -88,7 +95,7 @@ export const ChatWindow = React.memo<ChatWindowProps>(({
 
       for (const message of unreadMessages) {
         try {
-          await markMessageAsRead(conversationId, message.id, currentUserId);
+          await markMessageAsRead(conversationId, message.id);
         } catch (error) {
           console.error('Failed to mark message as read:', error);
         }
@@ -100,9 +107,19 @@ export const ChatWindow = React.memo<ChatWindowProps>(({
     return () => clearTimeout(timeoutId);
   }, [messages, conversationId, currentUserId]);
 
+  const safetyNumberNotice = (
+    <SafetyNumberNotice
+      currentUserId={currentUserId}
+      contactIds={memberIds}
+      getUserInfo={getUserInfo}
+      onReview={onReviewSafetyNumber}
+    />
+  );
+
   if (messages.length === 0) {
     return (
-      <div ref={containerRef} className="flex-1 flex items-center justify-center">
+      <div ref={containerRef} className="flex-1 flex flex-col items-center justify-center">
+        {safetyNumberNotice}
         <div className="text-center text-gray-500">
           <div className="text-6xl mb-4">💬</div>
           <h3 className="text-lg font-medium mb-2">No messages yet</h3>
@@ -114,6 +131,9 @@ export const ChatWindow = React.memo<ChatWindowProps>(({
 
   return (
     <div ref={containerRef} className="flex-1 flex flex-col">
+      {/* Key changes are shown as system messages above the conversation */}
+      {safetyNumberNotice}
+
       {/* Virtual scrolling message list */}
       <VirtualMessageList
         messages={messages}
@@ -121,6 +141,7 @@ export const ChatWindow = React.memo<ChatWindowProps>(({
         height={containerHeight - (typingUsers.length > 0 ? 50 : 0)}
         getUserInfo={getUserInfo}
         onLoadMore={onLoadMore}
+        onOpenThread={onOpenThread}
       />
       
       {/* Typing indicator */}
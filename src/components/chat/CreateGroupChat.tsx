@@ -140,10 +140,9 @@ export const CreateGroupChat: React.FC<CreateGroupChatProps> = ({
     try {
       const memberIds = selectedMembers.map(member => member.uid);
       
-      const conversation = await createGroupConversation(memberIds, {
+      const conversation = await createGroupConversation(currentUserId, memberIds, {
         name: groupName.trim(),
-        description: groupDescription.trim(),
-        createdBy: currentUserId
+        description: groupDescription.trim()
       });
 
       console.log('✅ Group chat created:', conversation.id);
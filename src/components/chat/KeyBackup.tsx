@@ -0,0 +1,226 @@
+/**
+ * Key Backup component
+ * Turns the encrypted message key backup on or off, shows the recovery code
+ * once for printing and reports whether this device's keys are backed up
+ */
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { UploadCloud, Printer, ShieldCheck, AlertTriangle, Lock } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { keyBackupService, KeyBackupHealth } from '@/services/chat/key-backup.service';
+
+interface KeyBackupProps {
+  userId: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Open the recovery code on its own page and print it
+ */
+const printRecoveryCode = (code: string) => {
+  const printWindow = window.open('', '_blank', 'width=600,height=400');
+  if (!printWindow) return;
+
+  printWindow.document.write(`
+    <html>
+      <head><title>PXL Message Recovery Code</title></head>
+      <body style="font-family: sans-serif; padding: 40px;">
+        <h2>PXL message recovery code</h2>
+        <p>Use this code to restore your encrypted messages if you forget your backup passphrase.</p>
+        <p style="font-family: monospace; font-size: 24px; letter-spacing: 2px;">${code}</p>
+        <p>Printed ${new Date().toLocaleDateString('en-US')}. Keep it somewhere safe.</p>
+      </body>
+    </html>
+  `);
+  printWindow.document.close();
+  printWindow.print();
+};
+
+export const KeyBackup: React.FC<KeyBackupProps> = ({ userId }) => {
+  const [health, setHealth] = useState<KeyBackupHealth | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHealth = useCallback(async () => {
+    try {
+      setHealth(await keyBackupService.getHealth(userId));
+    } catch (err) {
+      console.error('Failed to load key backup status:', err);
+      setError('Failed to load key backup status');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadHealth();
+  }, [loadHealth]);
+
+  const run = async (action: () => Promise<void>, fallbackError: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmPassphrase('');
+      await loadHealth();
+    } catch (err: any) {
+      setError(err.message || fallbackError);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+    run(async () => {
+      setRecoveryCode(await keyBackupService.enableBackup(userId, passphrase));
+    }, 'Failed to enable key backup');
+  };
+
+  const handleDisable = () => {
+    if (!confirm('Turn off key backup? Backed-up keys are deleted and history cannot be restored on new devices.')) {
+      return;
+    }
+    run(() => keyBackupService.disableBackup(userId), 'Failed to turn off key backup');
+  };
+
+  return (
+    <Card className="bg-gray-900 border-gray-800 p-6 mt-6">
+      <h3 className="text-lg font-semibold text-white mb-1">Key Backup</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Keep an encrypted copy of your message keys so you can read your history on a new device.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Shown once, right after backup is turned on */}
+      {recoveryCode && (
+        <div className="mb-4 p-4 bg-yellow-900/20 border border-yellow-800 rounded-lg">
+          <p className="text-yellow-400 font-medium mb-2">Save your recovery code</p>
+          <p className="text-sm text-gray-300 mb-3">
+            It restores your messages if you forget your passphrase. It will not be shown again.
+          </p>
+          <p className="text-xl font-mono tracking-wider text-white mb-3 break-all">{recoveryCode}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => printRecoveryCode(recoveryCode)}>
+              <Printer className="h-4 w-4 mr-1" />
+              Print
+            </Button>
+            <Button size="sm" onClick={() => setRecoveryCode(null)} className="bg-blue-600 hover:bg-blue-700">
+              I have saved it
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!health ? (
+        <p className="text-gray-400 text-sm">Loading backup status...</p>
+      ) : health.status === 'off' ? (
+        <div className="space-y-3">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Backup passphrase (at least 12 characters)"
+            autoComplete="new-password"
+            className={inputClassName}
+            aria-label="Backup passphrase"
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Confirm passphrase"
+            autoComplete="new-password"
+            className={inputClassName}
+            aria-label="Confirm backup passphrase"
+          />
+          <Button
+            onClick={handleEnable}
+            disabled={isBusy || !passphrase || !confirmPassphrase}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <UploadCloud className="h-4 w-4 mr-1" />
+            {isBusy ? 'Turning on...' : 'Turn on key backup'}
+          </Button>
+        </div>
+      ) : health.status === 'locked' ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-300 flex items-center gap-2">
+            <Lock className="h-4 w-4 text-yellow-400" />
+            Key backup is on, but this device is not backing up yet.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase or recovery code"
+            autoComplete="off"
+            className={inputClassName}
+            aria-label="Backup passphrase or recovery code"
+          />
+          <Button
+            onClick={() => run(() => keyBackupService.enableOnThisDevice(userId, passphrase), 'Failed to unlock key backup')}
+            disabled={isBusy || !passphrase}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isBusy ? 'Unlocking...' : 'Back up this device'}
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="p-3 bg-gray-800 rounded-lg">
+            <p className="text-white flex items-center gap-2">
+              {health.status === 'ok' ? (
+                <>
+                  <ShieldCheck className="h-4 w-4 text-green-400" />
+                  All keys on this device are backed up
+                </>
+              ) : (
+                <>
+                  <AlertTriangle className="h-4 w-4 text-yellow-400" />
+                  {health.pendingKeys > 0 ? `${health.pendingKeys} keys waiting to be backed up` : 'Backup out of date'}
+                </>
+              )}
+            </p>
+            <p className="text-xs text-gray-400 mt-1">
+              {health.backedUpKeys} keys backed up
+              {health.lastBackupAt && ` · Last backup ${health.lastBackupAt.toLocaleString('en-US')}`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => run(() => keyBackupService.backupNow(userId), 'Failed to back up keys')}
+              disabled={isBusy}
+            >
+              <UploadCloud className="h-4 w-4 mr-1" />
+              Back up now
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={handleDisable}
+              disabled={isBusy}
+              className="text-red-400 hover:text-red-300"
+            >
+              Turn off
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
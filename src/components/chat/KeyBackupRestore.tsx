@@ -0,0 +1,81 @@
+/**
+ * Key Backup Restore component
+ * Offered at sign-in on a browser without keys, restores the message keys
+ * of the user's key backup with their passphrase or recovery code
+ */
+
+"use client";
+
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { keyBackupService } from '@/services/chat/key-backup.service';
+
+interface KeyBackupRestoreProps {
+  userId: string;
+  onDone: () => void;
+}
+
+export const KeyBackupRestore: React.FC<KeyBackupRestoreProps> = ({ userId, onDone }) => {
+  const [secret, setSecret] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await keyBackupService.restore(userId, secret);
+      onDone();
+    } catch (err: any) {
+      setError(err.message || 'Failed to restore key backup');
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleRestore} className="space-y-4">
+      <div className="text-center">
+        <KeyRound className="h-8 w-8 text-blue-400 mx-auto mb-2" />
+        <h2 className="text-xl font-bold text-white mb-1">Restore your messages</h2>
+        <p className="text-sm text-gray-400">
+          Your encryption keys are backed up. Enter your backup passphrase or recovery code to read your message history on this device.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <input
+        type="password"
+        value={secret}
+        onChange={(e) => setSecret(e.target.value)}
+        placeholder="Passphrase or recovery code"
+        autoComplete="off"
+        className="w-full px-3 py-2 bg-black border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none"
+        aria-label="Backup passphrase or recovery code"
+      />
+
+      <Button
+        type="submit"
+        className="w-full bg-blue-600 hover:bg-blue-700"
+        disabled={isRestoring || !secret.trim()}
+      >
+        {isRestoring ? 'Restoring...' : 'Restore'}
+      </Button>
+
+      <button
+        type="button"
+        className="w-full text-sm text-gray-400 hover:text-gray-300"
+        onClick={onDone}
+        disabled={isRestoring}
+      >
+        Skip — older messages will not be readable on this device
+      </button>
+    </form>
+  );
+};
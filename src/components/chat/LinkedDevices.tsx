@@ -0,0 +1,203 @@
+/**
+ * Linked Devices component
+ * Lists the devices that can read the user's encrypted chats, links new
+ * devices by confirming the code they show and revokes old ones
+ */
+
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { Smartphone, Link2, Trash2, ShieldCheck, Clock } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { keyExchangeService, DeviceInfo } from '@/services/chat/key-exchange.service';
+
+interface LinkedDevicesProps {
+  userId: string;
+}
+
+/**
+ * Show a link code as two groups of three digits
+ */
+const formatLinkCode = (code: string) => `${code.slice(0, 3)} ${code.slice(3)}`;
+
+const formatDate = (value: any) => {
+  const date = value?.toDate ? value.toDate() : null;
+  return date ? date.toLocaleDateString('en-US') : 'Just now';
+};
+
+export const LinkedDevices: React.FC<LinkedDevicesProps> = ({ userId }) => {
+  const [devices, setDevices] = useState<DeviceInfo[]>([]);
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+  const [codes, setCodes] = useState<Record<string, string>>({});
+  const [busyDeviceId, setBusyDeviceId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        // Registers this browser as a pending device if it has no keys yet
+        await keyExchangeService.initializeUserKeys(userId);
+        const deviceId = await keyExchangeService.getCurrentDeviceId(userId);
+        if (cancelled) return;
+
+        setCurrentDeviceId(deviceId);
+        unsubscribe = keyExchangeService.subscribeDevices(userId, (updated) => {
+          setDevices(updated);
+          setIsLoading(false);
+        });
+      } catch (err) {
+        console.error('Failed to load linked devices:', err);
+        setError('Failed to load linked devices');
+        setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [userId]);
+
+  const currentDevice = devices.find(device => device.deviceId === currentDeviceId);
+  const isCurrentDeviceLinked = currentDevice?.status === 'active';
+
+  const handleLink = async (deviceId: string) => {
+    setBusyDeviceId(deviceId);
+    setError(null);
+    try {
+      await keyExchangeService.linkDevice(userId, deviceId, codes[deviceId] || '');
+      setCodes(prev => ({ ...prev, [deviceId]: '' }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to link device');
+    } finally {
+      setBusyDeviceId(null);
+    }
+  };
+
+  const handleRevoke = async (device: DeviceInfo) => {
+    if (!confirm(`Remove ${device.name}? It will no longer be able to read new messages.`)) {
+      return;
+    }
+
+    setBusyDeviceId(device.deviceId);
+    setError(null);
+    try {
+      await keyExchangeService.removeDevice(userId, device.deviceId);
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove device');
+    } finally {
+      setBusyDeviceId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900 border-gray-800 p-6 mt-6">
+      <h3 className="text-lg font-semibold text-white mb-1">Linked Devices</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Messages are encrypted separately for each linked device.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* This browser still has to be confirmed from a linked device */}
+      {currentDevice && !isCurrentDeviceLinked && (
+        <div className="mb-4 p-4 bg-yellow-900/20 border border-yellow-800 rounded-lg">
+          <p className="text-yellow-400 font-medium mb-2">This device is not linked yet</p>
+          <p className="text-sm text-gray-300 mb-3">
+            On a device that is already linked, open Profile → Linked Devices and enter this code:
+          </p>
+          <p className="text-3xl font-mono tracking-widest text-white">
+            {formatLinkCode(keyExchangeService.getLinkCode(currentDevice.publicKey))}
+          </p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-400 text-sm">Loading devices...</p>
+      ) : (
+        <div className="space-y-3">
+          {devices.map(device => {
+            const isCurrent = device.deviceId === currentDeviceId;
+            const isPending = device.status === 'pending';
+
+            return (
+              <div key={device.deviceId} className="p-3 bg-gray-800 rounded-lg">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Smartphone className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-white truncate">
+                        {device.name}
+                        {isCurrent && <span className="ml-2 text-xs text-blue-400">This device</span>}
+                      </p>
+                      <p className="text-xs text-gray-400 flex items-center gap-1">
+                        {isPending ? (
+                          <>
+                            <Clock className="h-3 w-3" />
+                            Waiting to be linked
+                          </>
+                        ) : (
+                          <>
+                            <ShieldCheck className="h-3 w-3 text-green-400" />
+                            Linked {formatDate(device.linkedAt || device.createdAt)}
+                          </>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+
+                  {!isCurrent && isCurrentDeviceLinked && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(device)}
+                      disabled={busyDeviceId === device.deviceId}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      {isPending ? 'Reject' : 'Revoke'}
+                    </Button>
+                  )}
+                </div>
+
+                {/* Confirm a new device with the code it shows */}
+                {isPending && !isCurrent && isCurrentDeviceLinked && (
+                  <div className="mt-3 flex gap-2">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={codes[device.deviceId] || ''}
+                      onChange={(e) => setCodes(prev => ({ ...prev, [device.deviceId]: e.target.value }))}
+                      placeholder="Code shown on the new device"
+                      className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      aria-label={`Link code for ${device.name}`}
+                    />
+                    <Button
+                      onClick={() => handleLink(device.deviceId)}
+                      disabled={busyDeviceId === device.deviceId || !codes[device.deviceId]?.trim()}
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      <Link2 className="h-4 w-4 mr-1" />
+                      Link
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -1,9 +1,10 @@
 "use client";
 
 import React, { useState, useMemo, useCallback, useEffect } from "react";
-import { ChatMessage } from "@/services/chat/firestore-chat.service";
+import { PaymentRequestCard } from "@/components/pxl/payment-request-card";
+import { ChatMessage, DeleteScope, DecryptedRevision, DELETE_FOR_EVERYONE_WINDOW_MS } from "@/services/chat/firestore-chat.service";
 import { MessageStatus } from "./MessageStatus";
-import { MoreVertical, Edit2, Reply, Trash2, Copy, Pin, Smile, Heart, ThumbsUp, ThumbsDown, Laugh, Forward } from "lucide-react";
+import { MoreVertical, Edit2, Reply, Trash2, Copy, Pin, Smile, Heart, ThumbsUp, ThumbsDown, Laugh, Forward, MessageSquare } from "lucide-react";
 
 interface MessageBubbleProps {
   message: ChatMessage & {
@@ -14,6 +15,8 @@ interface MessageBubbleProps {
     edited?: boolean;
     editedAt?: any;
     replyTo?: any;
+    threadPreview?: string; // Decrypted text of the thread's latest reply
+    threadUnread?: number;
   };
   isOwn: boolean;
   user?: {
@@ -24,9 +27,11 @@ interface MessageBubbleProps {
   showAvatar?: boolean;
   onReply?: (message: ChatMessage) => void;
   onEdit?: (messageId: string, newText: string) => void;
-  onDelete?: (messageId: string) => void;
+  onDelete?: (messageId: string, scope: DeleteScope) => void;
+  onViewHistory?: (messageId: string) => Promise<DecryptedRevision[]>;
   onReact?: (messageId: string, emoji: string) => void;
   onForward?: () => void;
+  onOpenThread?: (messageId: string) => void;
   currentUserId?: string;
 }
 
@@ -41,14 +46,18 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({
   onReply,
   onEdit,
   onDelete,
+  onViewHistory,
   onReact,
   onForward,
+  onOpenThread,
   currentUserId = ''
 }) => {
   const [showActions, setShowActions] = useState(false);
   const [showReactions, setShowReactions] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(message.text || '');
+  const [editHistory, setEditHistory] = useState<DecryptedRevision[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   
   // Sync editText when message.text changes (after an edit is completed)
   useEffect(() => {
@@ -86,6 +95,37 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({
 
   const messageType = useMemo(() => (message as any).type || 'text', [message]);
   const metadata = useMemo(() => (message as any).metadata, [message]);
+  const isEdited = !!(message.edited || metadata?.edited);
+  // Threads are one level deep, so replies cannot start their own
+  const canOpenThread = !!onOpenThread && !message.threadId && !message.id.startsWith('temp');
+  const replyCount = message.threadSummary?.replyCount || 0;
+  
+  // Senders can take a message back for everyone for a limited time
+  const canDeleteForEveryone = useMemo(() => {
+    if (!isOwn || message.id.startsWith('temp')) return false;
+    const sentAt = typeof message.timestamp?.toMillis === 'function'
+      ? message.timestamp.toMillis()
+      : new Date(message.timestamp as any).getTime();
+    return Date.now() - sentAt <= DELETE_FOR_EVERYONE_WINDOW_MS;
+  }, [isOwn, message.id, message.timestamp]);
+  
+  const toggleHistory = useCallback(async () => {
+    if (showHistory) {
+      setShowHistory(false);
+      return;
+    }
+    setShowHistory(true);
+    if (onViewHistory) {
+      // Load each time, as the message may have been edited again
+      setEditHistory(null);
+      try {
+        setEditHistory(await onViewHistory(message.id));
+      } catch (error) {
+        console.error('Failed to load edit history:', error);
+        setEditHistory([]);
+      }
+    }
+  }, [showHistory, onViewHistory, message.id]);
   
   // Show message ID when shift is held
   const [showId, setShowId] = React.useState(false);
@@ -250,6 +290,13 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({
                     </div>
                   </a>
                 );
+              } else if (messageType === 'payment-request' && metadata?.requestId) {
+                // PXL payment request - live card with pay/decline actions
+                return (
+                  <div className="inline-block">
+                    <PaymentRequestCard requestId={metadata.requestId} compact />
+                  </div>
+                );
               } else if (messageType === 'voice' || (metadata?.mediaType === 'voice')) {
                 // Display voice message with audio player
                 const audioUrl = metadata?.downloadUrl || message.text;
@@ -431,12 +478,65 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({
             ) : null;
           })()}
           
-          {/* Edited indicator only */}
-          {message.edited && (
+          {/* Edited indicator, showing earlier versions when clicked */}
+          {isEdited && (
             <div className={`text-xs mt-0.5 ${isOwn ? 'text-right' : 'text-left'}`}>
-              <span className="text-gray-500 italic">(edited)</span>
+              {onViewHistory ? (
+                <button
+                  type="button"
+                  onClick={toggleHistory}
+                  className="text-gray-500 italic hover:text-gray-300 transition-colors"
+                  title="Show edit history"
+                >
+                  (edited)
+                </button>
+              ) : (
+                <span className="text-gray-500 italic">(edited)</span>
+              )}
+              {showHistory && (
+                <div className="mt-1 space-y-1 border-l-2 border-[#262626] pl-2 text-left">
+                  {editHistory === null ? (
+                    <p className="text-gray-500">Loading edit history...</p>
+                  ) : editHistory.length === 0 ? (
+                    <p className="text-gray-500">No earlier versions</p>
+                  ) : (
+                    editHistory.map((revision, index) => (
+                      <div key={index} className="text-gray-400">
+                        <span className="text-[10px] text-gray-600 mr-2">{formatTime(revision.editedAt)}</span>
+                        <span className="whitespace-pre-wrap break-words">{revision.text}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
             </div>
           )}
+          
+          {/* Thread summary, opening the thread panel */}
+          {canOpenThread && replyCount > 0 && (
+            <button
+              type="button"
+              onClick={() => onOpenThread!(message.id)}
+              className={`mt-1 flex items-center gap-2 text-xs rounded-lg px-2 py-1 hover:bg-[#1a1a1a] transition-colors max-w-xs ${isOwn ? 'ml-auto' : ''}`}
+              title="Open thread"
+            >
+              <MessageSquare className="w-3 h-3 text-blue-400 flex-shrink-0" />
+              <span className="text-blue-400 font-medium flex-shrink-0">
+                {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+              </span>
+              {message.threadPreview && (
+                <span className="text-gray-400 truncate">{message.threadPreview}</span>
+              )}
+              <span className="text-[10px] text-gray-600 flex-shrink-0">
+                {formatTime(message.threadSummary?.lastReplyAt)}
+              </span>
+              {!!message.threadUnread && (
+                <span className="bg-blue-500 text-white text-[10px] rounded-full px-1.5 flex-shrink-0">
+                  {message.threadUnread}
+                </span>
+              )}
+            </button>
+          )}
         </div>
         
         {/* Combined Action Buttons - positioned next to message */}
@@ -467,6 +567,20 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({
                 Reply
               </button>
               
+              {canOpenThread && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    onOpenThread!(message.id);
+                    setShowActions(false);
+                  }}
+                  className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-[#262626] flex items-center gap-2"
+                >
+                  <MessageSquare className="w-3 h-3" />
+                  Reply in thread
+                </button>
+              )}
+              
               {onForward && (
                 <button
                   type="button"
@@ -507,17 +621,31 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({
                 Copy
               </button>
               
-              {isOwn && (
+              {onDelete && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    onDelete(message.id, 'me');
+                    setShowActions(false);
+                  }}
+                  className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-[#262626] flex items-center gap-2"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  Delete for me
+                </button>
+              )}
+              
+              {onDelete && canDeleteForEveryone && (
                 <button
                   type="button"
                   onClick={() => {
-                    onDelete?.(message.id);
+                    onDelete(message.id, 'everyone');
                     setShowActions(false);
                   }}
                   className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-[#262626] flex items-center gap-2"
                 >
                   <Trash2 className="w-3 h-3" />
-                  Delete
+                  Delete for everyone
                 </button>
               )}
             </div>
@@ -567,6 +695,10 @@ export const MessageBubble = React.memo(MessageBubbleComponent, (prevProps, next
   return (
     prevProps.message.id === nextProps.message.id &&
     prevProps.message.text === nextProps.message.text &&
+    prevProps.message.deleted === nextProps.message.deleted &&
+    prevProps.message.threadSummary?.replyCount === nextProps.message.threadSummary?.replyCount &&
+    prevProps.message.threadPreview === nextProps.message.threadPreview &&
+    prevProps.message.threadUnread === nextProps.message.threadUnread &&
     prevProps.message.status === nextProps.message.status &&
     JSON.stringify(prevProps.message.reactions) === JSON.stringify(nextProps.message.reactions) &&
     JSON.stringify(prevProps.message.delivered) === JSON.stringify(nextProps.message.delivered) &&
@@ -1,7 +1,8 @@
 "use client";
 
 import React, { useState, useRef } from "react";
-import { Send, Paperclip, Image, Mic, Smile, X, Reply } from "lucide-react";
+import { Send, Paperclip, Image, Mic, Smile, X, Reply, Receipt } from "lucide-react";
+import { PXLRequestModal, CreatedPaymentRequest } from "@/components/pxl/pxl-request-modal";
 import { VoiceRecorder } from './VoiceRecorder';
 
 interface Props {
@@ -17,6 +18,10 @@ interface Props {
     senderName?: string;
   };
   onCancelReply?: () => void;
+  conversationId?: string;
+  // Enables the "Request PXL" action; payers default to the other members
+  onPaymentRequest?: (request: CreatedPaymentRequest) => Promise<void> | void;
+  paymentRequestPayerIds?: string[];
 }
 
 export function MessageInput({ 
@@ -26,11 +31,15 @@ export function MessageInput({
   disabled = false, 
   placeholder = "Write a message...",
   replyingTo,
-  onCancelReply
+  onCancelReply,
+  conversationId,
+  onPaymentRequest,
+  paymentRequestPayerIds
 }: Props) {
   const [text, setText] = useState("");
   const [sending, setSending] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [isRequestOpen, setIsRequestOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
 
@@ -180,6 +189,17 @@ export function MessageInput({
             >
               <Smile className="w-4 h-4 text-gray-400 hover:text-gray-300" />
             </button>
+
+            {onPaymentRequest && (
+              <button
+                type="button"
+                onClick={() => setIsRequestOpen(true)}
+                className="p-1.5 hover:bg-[#262626] rounded transition-colors"
+                title="Request PXL"
+              >
+                <Receipt className="w-4 h-4 text-gray-400 hover:text-gray-300" />
+              </button>
+            )}
           </div>
 
           {/* Text input */}
@@ -239,6 +259,16 @@ export function MessageInput({
           aria-label="Upload file"
         />
       </div>
+
+      {onPaymentRequest && (
+        <PXLRequestModal
+          isOpen={isRequestOpen}
+          onClose={() => setIsRequestOpen(false)}
+          conversationId={conversationId}
+          defaultPayerIds={paymentRequestPayerIds}
+          onCreated={onPaymentRequest}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+/**
+ * Message Tombstone Component - Placeholder for a message deleted for everyone
+ * Keeps the message's place in the conversation without any of its content
+ */
+
+import React from 'react';
+import { Ban } from 'lucide-react';
+
+interface MessageTombstoneProps {
+  isOwn: boolean;
+}
+
+export const MessageTombstone: React.FC<MessageTombstoneProps> = ({ isOwn }) => {
+  return (
+    <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'} px-4 py-3`}>
+      <div className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl text-sm italic text-gray-500 border border-[#262626]">
+        <Ban className="w-3 h-3" />
+        {isOwn ? 'You deleted this message' : 'This message was deleted'}
+      </div>
+    </div>
+  );
+};
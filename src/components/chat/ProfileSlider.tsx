@@ -1,8 +1,9 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
-import { X, Mail, Calendar, Image as ImageIcon, File, Video, Link, MapPin } from 'lucide-react';
+import { X, Mail, Calendar, Image as ImageIcon, File, Video, Link, MapPin, ShieldCheck, ShieldAlert } from 'lucide-react';
 import { format } from 'date-fns';
+import { safetyNumberService, SafetyNumber, ContactIdentity } from '@/services/chat/safety-number.service';
 
 interface SharedMedia {
   images: Array<{ id: string; url: string; timestamp: Date }>;
@@ -26,6 +27,8 @@ interface ProfileSliderProps {
     region?: string;
   };
   isOnline?: boolean;
+  // Needed to show the safety number with this user
+  currentUserId?: string;
   messages?: Array<{
     id: string;
     type?: string;
@@ -40,6 +43,7 @@ export function ProfileSlider({
   onClose, 
   user, 
   isOnline = false,
+  currentUserId,
   messages = []
 }: ProfileSliderProps) {
   const [activeTab, setActiveTab] = useState<'media' | 'files' | 'links'>('media');
@@ -49,6 +53,50 @@ export function ProfileSlider({
     files: [],
     links: []
   });
+  const [safetyNumber, setSafetyNumber] = useState<SafetyNumber | null>(null);
+  const [identity, setIdentity] = useState<ContactIdentity | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // Load the safety number and this device's verification state
+  useEffect(() => {
+    if (!isOpen || !currentUserId || currentUserId === user.uid) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const [number, known] = await Promise.all([
+          safetyNumberService.getSafetyNumber(currentUserId, user.uid),
+          safetyNumberService.checkContactIdentity(currentUserId, user.uid)
+        ]);
+        if (!cancelled) {
+          setSafetyNumber(number);
+          setIdentity(known);
+        }
+      } catch (error) {
+        console.error('Failed to load safety number:', error);
+      }
+    };
+
+    load();
+    const unsubscribe = safetyNumberService.onIdentityChange((contactId) => {
+      if (contactId === user.uid) load();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [isOpen, currentUserId, user.uid]);
+
+  const handleMarkVerified = async () => {
+    if (!currentUserId || !safetyNumber) return;
+    setIsVerifying(true);
+    try {
+      await safetyNumberService.markVerified(currentUserId, user.uid, safetyNumber.contactIdentityHash);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
 
   // Extract shared media from messages
   useEffect(() => {
@@ -224,6 +272,59 @@ export function ProfileSlider({
               )}
             </div>
           </div>
+
+          {/* Safety number - compare in person or on a call to verify keys */}
+          {safetyNumber && (
+            <div className="mt-6 p-4 bg-[#1a1a1a] rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-white">Safety number</span>
+                {identity?.status === 'verified' ? (
+                  <span className="flex items-center gap-1 text-xs text-green-400">
+                    <ShieldCheck className="w-4 h-4" />
+                    Verified
+                  </span>
+                ) : identity?.status === 'changed' ? (
+                  <span className="flex items-center gap-1 text-xs text-yellow-400">
+                    <ShieldAlert className="w-4 h-4" />
+                    Changed
+                  </span>
+                ) : (
+                  <span className="text-xs text-gray-500">Not verified</span>
+                )}
+              </div>
+              <p className="grid grid-cols-4 gap-x-3 gap-y-1 font-mono text-sm text-gray-300 mb-3">
+                {safetyNumber.digits.split(' ').map((group, index) => (
+                  <span key={index}>{group}</span>
+                ))}
+              </p>
+              {identity?.status === 'changed' && (
+                <p className="text-xs text-yellow-400 mb-3">
+                  {user.displayName || 'This user'}&apos;s keys changed, for example because they linked a new device. Messages to them are on hold until you accept or verify the new number.
+                </p>
+              )}
+              <div className="flex gap-2">
+                {identity?.status !== 'verified' && (
+                  <button
+                    type="button"
+                    onClick={handleMarkVerified}
+                    disabled={isVerifying}
+                    className="flex-1 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Mark as verified
+                  </button>
+                )}
+                {identity?.status === 'changed' && currentUserId && (
+                  <button
+                    type="button"
+                    onClick={() => safetyNumberService.acknowledgeChange(currentUserId, user.uid)}
+                    className="flex-1 px-3 py-2 text-sm bg-[#262626] hover:bg-[#333] text-white rounded-lg transition-colors"
+                  >
+                    Accept new key
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Shared Media Section */}
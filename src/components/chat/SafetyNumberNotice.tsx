@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { ShieldAlert } from "lucide-react";
+import { keyExchangeService } from "@/services/chat/key-exchange.service";
+import { safetyNumberService, ContactIdentity } from "@/services/chat/safety-number.service";
+import { storageService } from "@/services/chat/storage.service";
+
+interface SafetyNumberNoticeProps {
+  currentUserId: string;
+  contactIds: string[];
+  getUserInfo?: (userId: string) => { displayName?: string };
+  onReview?: (contactId: string) => void;
+}
+
+/**
+ * System messages for contacts whose keys changed since they were last seen
+ * Direct messages to them stay blocked until the change is acknowledged
+ */
+export const SafetyNumberNotice: React.FC<SafetyNumberNoticeProps> = ({
+  currentUserId,
+  contactIds,
+  getUserInfo,
+  onReview
+}) => {
+  const [identities, setIdentities] = useState<Record<string, ContactIdentity | null>>({});
+  const contactKey = contactIds.filter(id => id !== currentUserId).sort().join(',');
+
+  useEffect(() => {
+    const contacts = contactKey ? contactKey.split(',') : [];
+
+    const update = (contactId: string, identity: ContactIdentity | null) => {
+      setIdentities(prev => ({ ...prev, [contactId]: identity }));
+    };
+
+    // Check again whenever a contact links, rotates or removes a device
+    const unsubscribes = contacts.map(contactId =>
+      keyExchangeService.subscribeDevices(contactId, async (devices) => {
+        try {
+          update(contactId, await safetyNumberService.checkContactIdentity(currentUserId, contactId, devices));
+        } catch (error) {
+          console.error('Failed to check contact keys:', error);
+        }
+      })
+    );
+
+    // Verified or acknowledged elsewhere, e.g. in the profile slider
+    const unsubscribeChanges = safetyNumberService.onIdentityChange(async (contactId) => {
+      if (contacts.includes(contactId)) {
+        update(contactId, await storageService.getContactIdentity(currentUserId, contactId));
+      }
+    });
+
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      unsubscribeChanges();
+    };
+  }, [currentUserId, contactKey]);
+
+  const changed = Object.values(identities).filter(
+    (identity): identity is ContactIdentity => identity?.status === 'changed'
+  );
+
+  if (changed.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="px-4 py-2 space-y-2">
+      {changed.map(identity => {
+        const name = getUserInfo?.(identity.contactId).displayName || 'this contact';
+
+        return (
+          <div
+            key={identity.contactId}
+            className="flex flex-wrap items-center justify-center gap-2 text-xs text-yellow-300 bg-yellow-900/20 border border-yellow-800 rounded-lg px-3 py-2"
+            role="status"
+          >
+            <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+            <span>Your safety number with {name} changed.</span>
+            {onReview && (
+              <button
+                type="button"
+                onClick={() => onReview(identity.contactId)}
+                className="underline hover:text-yellow-200"
+              >
+                Review
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => safetyNumberService.acknowledgeChange(currentUserId, identity.contactId)}
+              className="underline hover:text-yellow-200"
+            >
+              Acknowledge
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
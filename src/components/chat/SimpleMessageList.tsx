@@ -1,8 +1,9 @@
 "use client";
 
 import React, { useRef, useEffect } from 'react';
-import { ChatMessage } from '@/services/chat/firestore-chat.service';
+import { ChatMessage, DeleteScope, DecryptedRevision } from '@/services/chat/firestore-chat.service';
 import { MessageBubble } from './MessageBubble';
+import { MessageTombstone } from './MessageTombstone';
 
 interface SimpleMessageListProps {
   messages: ChatMessage[];
@@ -14,9 +15,11 @@ interface SimpleMessageListProps {
   };
   onReply?: (messageId: string) => void;
   onEdit?: (messageId: string, newText: string) => void;
-  onDelete?: (messageId: string) => void;
+  onDelete?: (messageId: string, scope: DeleteScope) => void;
+  onViewHistory?: (messageId: string) => Promise<DecryptedRevision[]>;
   onReact?: (messageId: string, emoji: string) => void;
   onForward?: (messageId: string) => void;
+  onOpenThread?: (messageId: string) => void;
 }
 
 /**
@@ -32,8 +35,10 @@ export const SimpleMessageList: React.FC<SimpleMessageListProps> = ({
   onReply,
   onEdit,
   onDelete,
+  onViewHistory,
   onReact,
-  onForward
+  onForward,
+  onOpenThread
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const lastMessageRef = useRef<HTMLDivElement>(null);
@@ -78,18 +83,24 @@ export const SimpleMessageList: React.FC<SimpleMessageListProps> = ({
             ref={isLast ? lastMessageRef : null}
             className="w-full"
           >
-            <MessageBubble
-              message={message}
-              isOwn={isOwn}
-              user={user}
-              showAvatar={!isOwn}
-              currentUserId={currentUserId}
-              onReply={onReply ? () => onReply(message.id) : undefined}
-              onEdit={onEdit}
-              onDelete={onDelete}
-              onReact={onReact}
-              onForward={onForward ? () => onForward(message.id) : undefined}
-            />
+            {message.deleted ? (
+              <MessageTombstone isOwn={isOwn} />
+            ) : (
+              <MessageBubble
+                message={message}
+                isOwn={isOwn}
+                user={user}
+                showAvatar={!isOwn}
+                currentUserId={currentUserId}
+                onReply={onReply ? () => onReply(message.id) : undefined}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                onViewHistory={onViewHistory}
+                onReact={onReact}
+                onForward={onForward ? () => onForward(message.id) : undefined}
+                onOpenThread={onOpenThread}
+              />
+            )}
           </div>
         );
       })}
@@ -0,0 +1,128 @@
+"use client";
+
+/**
+ * Thread Panel Component - Replies to one message, shown beside the conversation
+ * Replies are sent and stored like any message of the conversation, so they are
+ * encrypted, ordered and edited the same way
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { ChatMessage, DeleteScope, DecryptedRevision } from '@/services/chat/firestore-chat.service';
+import { MessageBubble } from './MessageBubble';
+import { MessageTombstone } from './MessageTombstone';
+import { VirtualMessageList } from './VirtualMessageList';
+import { MessageInput } from './MessageInput';
+
+interface ThreadPanelProps {
+  root: ChatMessage;
+  replies: ChatMessage[];
+  currentUserId: string;
+  conversationId: string;
+  getUserInfo?: (userId: string) => {
+    displayName?: string;
+    photoURL?: string;
+    tier?: 'starter' | 'rising' | 'pro' | 'pixlbeast' | 'pixlionaire';
+  };
+  onSend: (text: string) => Promise<void> | void;
+  onClose: () => void;
+  onEdit?: (messageId: string, newText: string) => void;
+  onDelete?: (messageId: string, scope: DeleteScope) => void;
+  onViewHistory?: (messageId: string) => Promise<DecryptedRevision[]>;
+  onReact?: (messageId: string, emoji: string) => void;
+}
+
+export const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  root,
+  replies,
+  currentUserId,
+  conversationId,
+  getUserInfo,
+  onSend,
+  onClose,
+  onEdit,
+  onDelete,
+  onViewHistory,
+  onReact
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerHeight, setContainerHeight] = useState(300);
+  const isOwnRoot = root.senderId === currentUserId;
+
+  // Update list height on resize
+  useEffect(() => {
+    const updateHeight = () => {
+      if (containerRef.current) {
+        setContainerHeight(containerRef.current.getBoundingClientRect().height);
+      }
+    };
+
+    updateHeight();
+    window.addEventListener('resize', updateHeight);
+    return () => window.removeEventListener('resize', updateHeight);
+  }, []);
+
+  return (
+    <div className="w-96 bg-[#0a0a0a] border-l border-[#262626] flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-[#262626] flex items-center justify-between">
+        <h3 className="font-semibold text-white">Thread</h3>
+        <button
+          type="button"
+          aria-label="Close thread"
+          onClick={onClose}
+          className="p-1 hover:bg-[#1a1a1a] rounded transition-colors"
+        >
+          <X className="w-4 h-4 text-gray-400" />
+        </button>
+      </div>
+
+      {/* Message the thread replies to */}
+      <div className="border-b border-[#262626] py-2">
+        {root.deleted ? (
+          <MessageTombstone isOwn={isOwnRoot} />
+        ) : (
+          <MessageBubble
+            message={root}
+            isOwn={isOwnRoot}
+            user={getUserInfo?.(root.senderId)}
+            showAvatar={!isOwnRoot}
+            currentUserId={currentUserId}
+            onViewHistory={onViewHistory}
+            onReact={onReact}
+          />
+        )}
+        <p className="px-4 text-xs text-gray-500">
+          {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+        </p>
+      </div>
+
+      {/* Replies */}
+      <div ref={containerRef} className="flex-1 overflow-hidden">
+        {replies.length > 0 ? (
+          <VirtualMessageList
+            messages={replies}
+            currentUserId={currentUserId}
+            height={containerHeight}
+            getUserInfo={getUserInfo}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onViewHistory={onViewHistory}
+            onReact={onReact}
+          />
+        ) : (
+          <div className="flex items-center justify-center h-full">
+            <p className="text-sm text-gray-500">No replies yet</p>
+          </div>
+        )}
+      </div>
+
+      <MessageInput
+        onSend={onSend}
+        placeholder="Reply in thread..."
+        conversationId={conversationId}
+        disabled={!!root.deleted}
+      />
+    </div>
+  );
+};
@@ -3,8 +3,9 @@
 /* eslint-disable react/forbid-dom-props */
 import React, { useMemo, useRef, useEffect, useCallback } from 'react';
 import { VariableSizeList as List } from 'react-window';
-import { ChatMessage } from '@/services/chat/firestore-chat.service';
+import { ChatMessage, DeleteScope, DecryptedRevision } from '@/services/chat/firestore-chat.service';
 import { MessageBubble } from './MessageBubble';
+import { MessageTombstone } from './MessageTombstone';
 
 interface VirtualMessageListProps {
   messages: ChatMessage[];
@@ -18,8 +19,10 @@ interface VirtualMessageListProps {
   onLoadMore?: () => void;
   onReply?: (message: ChatMessage) => void;
   onEdit?: (messageId: string, newText: string) => void;
-  onDelete?: (messageId: string) => void;
+  onDelete?: (messageId: string, scope: DeleteScope) => void;
+  onViewHistory?: (messageId: string) => Promise<DecryptedRevision[]>;
   onReact?: (messageId: string, emoji: string) => void;
+  onOpenThread?: (messageId: string) => void;
 }
 
 interface MessageItemData {
@@ -32,8 +35,10 @@ interface MessageItemData {
   };
   onReply?: (message: ChatMessage) => void;
   onEdit?: (messageId: string, newText: string) => void;
-  onDelete?: (messageId: string) => void;
+  onDelete?: (messageId: string, scope: DeleteScope) => void;
+  onViewHistory?: (messageId: string) => Promise<DecryptedRevision[]>;
   onReact?: (messageId: string, emoji: string) => void;
+  onOpenThread?: (messageId: string) => void;
 }
 
 interface MessageItemProps {
@@ -47,7 +52,7 @@ interface MessageItemProps {
  * As specified in chat-architecture.mdc using react-window
  */
 const MessageItem = React.memo<MessageItemProps>(({ index, style, data }) => {
-  const { messages, currentUserId, getUserInfo, onReply, onEdit, onDelete, onReact } = data;
+  const { messages, currentUserId, getUserInfo, onReply, onEdit, onDelete, onViewHistory, onReact, onOpenThread } = data;
   const message = messages[index];
   const isOwn = message.senderId === currentUserId;
   const user = useMemo(() => getUserInfo ? getUserInfo(message.senderId) : undefined, [getUserInfo, message.senderId]);
@@ -56,17 +61,23 @@ const MessageItem = React.memo<MessageItemProps>(({ index, style, data }) => {
     // Note: The style prop is required by react-window for virtual scrolling positioning
     // Use the exact style provided by react-window without modification
     <div className="w-full px-4 py-3" style={style}>
-      <MessageBubble
-        message={message}
-        isOwn={isOwn}
-        user={user}
-        showAvatar={!isOwn}
-        currentUserId={currentUserId}
-        onReply={onReply}
-        onEdit={onEdit}
-        onDelete={onDelete}
-        onReact={onReact}
-      />
+      {message.deleted ? (
+        <MessageTombstone isOwn={isOwn} />
+      ) : (
+        <MessageBubble
+          message={message}
+          isOwn={isOwn}
+          user={user}
+          showAvatar={!isOwn}
+          currentUserId={currentUserId}
+          onReply={onReply}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          onViewHistory={onViewHistory}
+          onReact={onReact}
+          onOpenThread={onOpenThread}
+        />
+      )}
     </div>
   );
 });
@@ -82,7 +93,9 @@ export const VirtualMessageList = React.memo<VirtualMessageListProps>(({
   onReply,
   onEdit,
   onDelete,
-  onReact
+  onViewHistory,
+  onReact,
+  onOpenThread
 }) => {
   const listRef = useRef<List>(null);
   const itemSizeMap = useRef<{ [index: number]: number }>({});
@@ -116,6 +129,12 @@ export const VirtualMessageList = React.memo<VirtualMessageListProps>(({
     const message = orderedMessages[index];
     if (!message) return 100;
     
+    // Tombstones are a single line
+    if (message.deleted) {
+      itemSizeMap.current[index] = 80;
+      return 80;
+    }
+    
     // Base height includes padding and margins
     let height = 80; // Base padding and UI elements
     
@@ -152,6 +171,11 @@ export const VirtualMessageList = React.memo<VirtualMessageListProps>(({
       height += 50;
     }
     
+    // Add height for thread summary
+    if (message.threadSummary?.replyCount) {
+      height += 32;
+    }
+    
     // Add universal spacing buffer to prevent any overlap
     height += 30;
     
@@ -187,8 +211,10 @@ export const VirtualMessageList = React.memo<VirtualMessageListProps>(({
     onReply,
     onEdit,
     onDelete,
-    onReact
-  }), [orderedMessages, currentUserId, getUserInfo, onReply, onEdit, onDelete, onReact]);
+    onViewHistory,
+    onReact,
+    onOpenThread
+  }), [orderedMessages, currentUserId, getUserInfo, onReply, onEdit, onDelete, onViewHistory, onReact, onOpenThread]);
 
   return (
     <div className="w-full" style={{ height: `${height}px` }}>
@@ -1,7 +1,8 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { FirebaseError } from 'firebase/app';
 import Image from 'next/image';
 import { 
   CreditCard, 
@@ -20,9 +21,24 @@ import { Button } from '@/components/ui/button';
 import { ValidatedInput } from '@/components/ui/validated-input';
 import { formatBalance } from '@/lib/validation';
 import { useAuth } from '@/contexts/auth-context';
-import { db } from '@/lib/firebase-config';
-import { collection, addDoc, serverTimestamp, doc, updateDoc, getDoc } from 'firebase/firestore';
-import { createOrder, processOrderPayment } from '@/lib/order-service';
+import { OrderPaymentMethod, cancelOrder, confirmOrderPayment, createOrder } from '@/services/order-service';
+import { createPaymentInvoice } from '@/services/payment-invoice-service';
+import { quoteOrder } from '@/services/quote-service';
+import { useQuote } from '@/hooks/use-quote';
+import { QuoteLockTimer } from '@/components/pxl/quote-lock-timer';
+
+// What a completed payment reports; the card and PayPal forms pass the provider's payment object
+interface PaymentDetails {
+  id: string;
+  [key: string]: unknown;
+}
+
+// Out-of-stock, expired-quote and validation errors carry a message meant for the customer
+const USER_FACING_ORDER_ERRORS = [
+  'functions/resource-exhausted',
+  'functions/invalid-argument',
+  'functions/failed-precondition',
+];
 
 export default function CheckoutForm() {
   const router = useRouter();
@@ -32,9 +48,15 @@ export default function CheckoutForm() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [success, setSuccess] = useState(false);
   const [errors, setErrors] = useState<string[]>([]);
-  const [paymentResult, setPaymentResult] = useState<any>(null);
+  const [paymentResult, setPaymentResult] = useState<PaymentDetails | null>(null);
   const [cancellationMessage, setCancellationMessage] = useState<string>('');
   const [orderId, setOrderId] = useState<string>('');
+  // Codes held for a card or PayPal payment, released if the payment does not complete
+  const [reservation, setReservation] = useState<{ orderId: string; method: OrderPaymentMethod; reservedUntil: number } | null>(null);
+  const [isReserving, setIsReserving] = useState(false);
+  // One key per checkout attempt so retries never charge twice
+  const [checkoutKey] = useState(() => `checkout_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`);
+  const [attempt, setAttempt] = useState(0);
 
   // Get user tier benefits
   const userTier = platformUser?.tier?.current || 'starter';
@@ -44,77 +66,132 @@ export default function CheckoutForm() {
     cashbackPercentage: 0
   };
 
+  const orderLines = useMemo(() => state.items.map(item => ({
+    productId: item.giftcardId, // Using giftcardId as productId
+    denomination: item.denomination,
+    quantity: item.quantity
+  })), [state.items]);
+
+  // Lock the cart price; a new quote is requested whenever the cart changes
+  const {
+    quote,
+    loading: quoteLoading,
+    error: quoteError,
+    secondsLeft,
+    expired: quoteExpired,
+    refresh: refreshQuote,
+  } = useQuote(
+    user && orderLines.length > 0 ? JSON.stringify(orderLines) : null,
+    () => quoteOrder(orderLines)
+  );
+  const hasValidQuote = !!quote && !quoteExpired;
+  const totals = {
+    usd: hasValidQuote ? quote.totals.usd : state.totals.usd,
+    pxl: hasValidQuote ? quote.totals.pxl : state.totals.pxl,
+  };
+
   // Calculate if user has sufficient PXL
-  const hasSufficientPXL = userPxlBalance >= state.totals.pxl;
+  const hasSufficientPXL = userPxlBalance >= totals.pxl;
+
+  // Create the order on the server, which reserves a serial code for every item
+  const placeOrder = (paymentMethod: OrderPaymentMethod) => createOrder({
+    items: orderLines,
+    paymentMethod,
+    idempotencyKey: `${checkoutKey}:${attempt}`,
+    quoteId: quote?.quoteId,
+  });
+
+  const getOrderErrorMessage = (error: unknown) =>
+    error instanceof FirebaseError && USER_FACING_ORDER_ERRORS.includes(error.code)
+      ? error.message
+      : 'Failed to create order. Please try again.';
+
+  // Release held codes and start a fresh attempt
+  const releaseReservation = async (reason: string) => {
+    if (!reservation) return;
+    setReservation(null);
+    setAttempt(prev => prev + 1);
+    try {
+      await cancelOrder(reservation.orderId, reason);
+    } catch (error) {
+      // Unreleased codes are returned to stock when the reservation expires
+      console.error('Error releasing reservation:', error);
+    }
+  };
+
+  const completeOrder = (completedOrderId: string, paymentDetails: PaymentDetails) => {
+    setOrderId(completedOrderId);
+    setPaymentResult(paymentDetails);
+    setSuccess(true);
+    setIsProcessing(false);
+    setErrors([]);
+    setCancellationMessage('');
+    
+    // Clear cart after successful payment
+    dispatch(cartActions.clearCart());
+    
+    console.log('Payment successful, order completed:', completedOrderId);
+    
+    // Redirect to order confirmation page
+    setTimeout(() => {
+      router.push(`/order-confirmation/${completedOrderId}`);
+    }, 2000);
+  };
+
+  // Reserve codes before showing the card or PayPal form
+  const handleReserve = async () => {
+    if (!user) {
+      setErrors(['Please sign in to complete your purchase']);
+      return;
+    }
+    if (selectedPaymentMethod !== 'stripe' && selectedPaymentMethod !== 'paypal') return;
+
+    setIsReserving(true);
+    setErrors([]);
+    setCancellationMessage('');
 
-  // Payment success handler
-  const handlePaymentSuccess = async (paymentDetails: any) => {
     try {
-      // Ensure user is authenticated
-      if (!user?.uid) {
-        throw new Error('User must be authenticated to place an order');
-      }
+      const order = await placeOrder(selectedPaymentMethod);
+      setReservation({
+        orderId: order.orderId,
+        method: selectedPaymentMethod,
+        reservedUntil: order.reservedUntil || Date.now(),
+      });
+    } catch (error) {
+      console.error('Error reserving order:', error);
+      setErrors([getOrderErrorMessage(error)]);
+    } finally {
+      setIsReserving(false);
+    }
+  };
 
-      // Create order with inventory reservation
-      const orderData = {
-        userId: user.uid,
-        items: state.items.map(item => ({
-          productId: item.giftcardId, // Using giftcardId as productId
-          brand: item.brand,
-          productName: item.productName,
-          denomination: item.denomination,
-          quantity: item.quantity
-        })),
-        payment: {
-          method: selectedPaymentMethod,
-          amount: selectedPaymentMethod === 'pxl' ? state.totals.pxl : state.totals.usd,
-          currency: selectedPaymentMethod === 'pxl' ? 'PXL' : 'USD'
-        },
-        totals: {
-          subtotal: state.totals.usd,
-          discount: state.totals.savings,
-          cashback: selectedPaymentMethod === 'pxl' ? state.totals.cashback : 0,
-          total: selectedPaymentMethod === 'pxl' ? state.totals.pxl : state.totals.usd
-        }
-      };
-
-      // Create order with inventory reservation
-      console.log('Creating order with data:', orderData);
-      const orderResult = await createOrder(orderData);
-      
-      if (!orderResult.success) {
-        console.error('Order creation failed:', orderResult.error);
-        throw new Error(orderResult.error || 'Failed to create order');
-      }
-      
-      const orderId = orderResult.orderId!;
-      setOrderId(orderId);
-      
-      // Process payment and confirm inventory
-      const paymentResult = await processOrderPayment(orderId, paymentDetails);
-      
-      if (!paymentResult.success) {
-        throw new Error(paymentResult.error || 'Failed to process payment');
+  const handleSelectPaymentMethod = (method: 'pxl' | 'stripe' | 'paypal' | 'myfatoorah') => {
+    if (reservation && reservation.method !== method) {
+      releaseReservation('Payment method changed');
+    }
+    setSelectedPaymentMethod(method);
+  };
+
+  // Payment success handler for card and PayPal payments
+  const handlePaymentSuccess = async (paymentDetails: PaymentDetails) => {
+    if (!reservation) {
+      handlePaymentError('Your reservation was lost. Please try again.');
+      return;
+    }
+
+    setIsProcessing(true);
+
+    try {
+      const confirmation = await confirmOrderPayment(reservation.orderId, paymentDetails.id);
+      if (confirmation.status === 'refund-due') {
+        setReservation(null);
+        handlePaymentError('These giftcards sold out before your payment completed. Your payment will be refunded.');
+        return;
       }
-      
-      setPaymentResult(paymentDetails);
-      setSuccess(true);
-      setIsProcessing(false);
-      setErrors([]);
-      setCancellationMessage('');
-      
-      // Clear cart after successful payment
-      dispatch(cartActions.clearCart());
-      
-      console.log('Payment successful, order created:', orderId);
-      
-      // Redirect to order confirmation page
-      setTimeout(() => {
-        router.push(`/order-confirmation/${orderId}`);
-      }, 2000);
+      completeOrder(reservation.orderId, paymentDetails);
     } catch (error) {
-      console.error('Error creating order:', error);
-      handlePaymentError('Failed to create order. Please contact support.');
+      console.error('Error confirming order:', error);
+      handlePaymentError('Payment received but the order could not be completed. Please contact support.');
     }
   };
 
@@ -133,6 +210,7 @@ export default function CheckoutForm() {
     setCancellationMessage('Payment was cancelled. You can try again or choose a different payment method.');
     setIsProcessing(false);
     setSuccess(false);
+    releaseReservation(reason);
     console.log('Payment cancelled:', reason); // Log as info, not error
   };
 
@@ -153,90 +231,15 @@ export default function CheckoutForm() {
     setCancellationMessage('');
 
     try {
-      // Deduct PXL from user's balance and add cashback
-      const userRef = doc(db, 'users', user.uid);
-      const userDoc = await getDoc(userRef);
-      
-      if (!userDoc.exists()) {
-        throw new Error('User document not found');
-      }
-      
-      const userData = userDoc.data();
-      const currentBalance = userData.wallets?.pxl?.balance || 0;
-      const totalSpent = userData.wallets?.pxl?.totalSpent || 0;
-      
-      // Calculate final amount after cashback
-      const pxlToDeduct = state.totals.pxl;
-      const cashbackAmount = state.totals.cashback || 0;
-      const netDeduction = pxlToDeduct - cashbackAmount;
-      
-      if (currentBalance < netDeduction) {
-        throw new Error('Insufficient PXL balance after calculation');
-      }
-      
-      // Update user's PXL balance
-      await updateDoc(userRef, {
-        'wallets.pxl.balance': currentBalance - netDeduction,
-        'wallets.pxl.totalSpent': totalSpent + pxlToDeduct,
-        'timestamps.updated': serverTimestamp()
-      });
-      
-      // Create PXL payment transaction record
-      await addDoc(collection(db, 'transactions'), {
-        userId: user.uid,
-        type: 'giftcard-purchase',
-        amounts: {
-          pxl: -pxlToDeduct,
-          usd: state.totals.usd,
-          exchangeRate: 100 // Current rate
-        },
-        payment: {
-          method: 'pxl',
-          provider: 'firebase'
-        },
-        giftcard: {
-          itemCount: state.items.length,
-          brands: [...new Set(state.items.map(item => item.brand))]
-        },
-        tier: {
-          userTier: userTier,
-          discountApplied: state.totals.savings,
-          cashbackEarned: cashbackAmount
-        },
-        status: 'completed',
-        timestamps: {
-          created: serverTimestamp(),
-          updated: serverTimestamp(),
-          completed: serverTimestamp()
-        }
-      });
-      
-      // If there's cashback, create a separate cashback transaction
-      if (cashbackAmount > 0) {
-        await addDoc(collection(db, 'transactions'), {
-          userId: user.uid,
-          type: 'cashback',
-          amounts: {
-            pxl: cashbackAmount,
-            usd: 0,
-            exchangeRate: 100
-          },
-          relatedTo: 'giftcard-purchase',
-          status: 'completed',
-          timestamps: {
-            created: serverTimestamp(),
-            updated: serverTimestamp(),
-            completed: serverTimestamp()
-          }
-        });
-      }
-      
-      // Process PXL payment by creating the order
-      await handlePaymentSuccess({
+      // Charges PXL, pays cashback and assigns codes in one server-side transaction
+      const order = await placeOrder('pxl');
+      console.log('PXL order completed:', order);
+
+      completeOrder(order.orderId, {
         method: 'pxl',
-        amount: state.totals.pxl,
+        amount: totals.pxl,
         currency: 'PXL',
-        id: `pxl_${Date.now()}`
+        id: order.orderId
       });
       
       // Refresh user data to show updated balance
@@ -245,7 +248,7 @@ export default function CheckoutForm() {
       }
     } catch (error) {
       console.error('PXL checkout error:', error);
-      setErrors(['Payment processing failed. Please try again.']);
+      setErrors([getOrderErrorMessage(error)]);
       setIsProcessing(false);
     }
   };
@@ -260,57 +263,33 @@ export default function CheckoutForm() {
     setIsProcessing(true);
     setErrors([]);
 
+    let pendingOrderId = '';
+
     try {
-      // Prepare customer info
-      const customerName = platformUser?.profile?.firstName && platformUser?.profile?.lastName
-        ? `${platformUser.profile.firstName} ${platformUser.profile.lastName}`
-        : user.email?.split('@')[0] || 'Customer';
-      
-      const customerEmail = user.email || 'customer@example.com';
-      const customerMobile = platformUser?.profile?.phone || '';
-
-      // Prepare items for MyFatoorah
-      const items = state.items.map(item => ({
-        name: `${item.brand} - ${item.productName}`,
-        quantity: item.quantity,
-        price: item.denomination
+      // Hold the codes while the customer pays on MyFatoorah
+      const order = await placeOrder('myfatoorah');
+      pendingOrderId = order.orderId;
+
+      // The invoice is created from the order on the server, for the order's amount
+      const invoice = await createPaymentInvoice(pendingOrderId);
+
+      // Store order info in session storage for callback
+      sessionStorage.setItem('pendingOrder', JSON.stringify({
+        items: state.items,
+        totals: state.totals,
+        orderId: pendingOrderId,
+        invoiceId: invoice.invoiceId
       }));
 
-      // Call MyFatoorah API to initiate payment
-      const response = await fetch('/api/payment/initiate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          amount: state.totals.usd,
-          customerName,
-          customerEmail,
-          customerMobile: customerMobile.replace(/[^0-9]/g, '').slice(-8), // Last 8 digits
-          items,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (data.success && data.paymentUrl) {
-        // Store order info in session storage for callback
-        sessionStorage.setItem('pendingOrder', JSON.stringify({
-          items: state.items,
-          totals: state.totals,
-          orderId: data.orderId,
-          invoiceId: data.invoiceId
-        }));
-
-        // Redirect to MyFatoorah payment page
-        window.location.href = data.paymentUrl;
-      } else {
-        setErrors([data.error || 'Failed to initiate payment']);
-        setIsProcessing(false);
-      }
+      // Redirect to MyFatoorah payment page
+      window.location.href = invoice.paymentUrl;
     } catch (error) {
       console.error('MyFatoorah payment error:', error);
-      setErrors(['Failed to process payment. Please try again.']);
+      if (pendingOrderId) {
+        cancelOrder(pendingOrderId, 'Payment could not be initiated').catch(() => undefined);
+        setAttempt(prev => prev + 1);
+      }
+      setErrors([pendingOrderId ? 'Failed to process payment. Please try again.' : getOrderErrorMessage(error)]);
       setIsProcessing(false);
     }
   };
@@ -400,7 +379,7 @@ export default function CheckoutForm() {
           <div className="border-t border-gray-700 pt-4 space-y-2">
             <div className="flex justify-between text-sm">
               <span className="text-gray-400">Subtotal</span>
-              <span className="text-white">${formatBalance(state.totals.usd)}</span>
+              <span className="text-white">${formatBalance(totals.usd)}</span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-gray-400">Tier Discount ({userTier})</span>
@@ -408,7 +387,7 @@ export default function CheckoutForm() {
             </div>
             <div className="flex justify-between text-lg font-semibold border-t border-gray-700 pt-2">
               <span className="text-white">Total</span>
-              <span className="text-white">${formatBalance(state.totals.usd)}</span>
+              <span className="text-white">${formatBalance(totals.usd)}</span>
             </div>
           </div>
         </div>
@@ -428,7 +407,16 @@ export default function CheckoutForm() {
 
         {/* Payment Method Selection - Aligned with Order Summary */}
         <div className="bg-gray-950 border border-gray-800 rounded-xl p-6 mt-8">
-          <h3 className="text-lg font-semibold text-white mb-4">Payment Method</h3>
+          <h3 className="text-lg font-semibold text-white mb-2">Payment Method</h3>
+          <div className="mb-4">
+            <QuoteLockTimer
+              secondsLeft={secondsLeft}
+              expired={quoteExpired}
+              loading={quoteLoading}
+              error={quoteError}
+              onRefresh={refreshQuote}
+            />
+          </div>
           <div className="grid grid-cols-1 gap-3">
             
             {/* PXL Payment Option */}
@@ -438,7 +426,7 @@ export default function CheckoutForm() {
                   ? 'border-blue-500 bg-blue-500/10' 
                   : 'border-gray-700 hover:border-gray-600'
               }`}
-              onClick={() => setSelectedPaymentMethod('pxl')}
+              onClick={() => handleSelectPaymentMethod('pxl')}
             >
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
@@ -451,7 +439,7 @@ export default function CheckoutForm() {
                   </div>
                 </div>
                 <div className="text-right">
-                  <p className="font-medium text-white">PXL {formatBalance(state.totals.pxl)}</p>
+                  <p className="font-medium text-white">PXL {formatBalance(totals.pxl)}</p>
                   <p className="text-xs text-green-400">Save ${formatBalance(state.totals.savings)}</p>
                 </div>
               </div>
@@ -470,7 +458,7 @@ export default function CheckoutForm() {
                   ? 'border-blue-500 bg-blue-500/10' 
                   : 'border-gray-700 hover:border-gray-600'
               }`}
-              onClick={() => setSelectedPaymentMethod('stripe')}
+              onClick={() => handleSelectPaymentMethod('stripe')}
             >
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
@@ -481,7 +469,7 @@ export default function CheckoutForm() {
                   </div>
                 </div>
                 <div className="text-right">
-                  <p className="font-medium text-white">${formatBalance(state.totals.usd)}</p>
+                  <p className="font-medium text-white">${formatBalance(totals.usd)}</p>
                 </div>
               </div>
             </div>
@@ -493,7 +481,7 @@ export default function CheckoutForm() {
                   ? 'border-blue-500 bg-blue-500/10' 
                   : 'border-gray-700 hover:border-gray-600'
               }`}
-              onClick={() => setSelectedPaymentMethod('paypal')}
+              onClick={() => handleSelectPaymentMethod('paypal')}
             >
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
@@ -506,7 +494,7 @@ export default function CheckoutForm() {
                   </div>
                 </div>
                 <div className="text-right">
-                  <p className="font-medium text-white">${formatBalance(state.totals.usd)}</p>
+                  <p className="font-medium text-white">${formatBalance(totals.usd)}</p>
                 </div>
               </div>
             </div>
@@ -518,7 +506,7 @@ export default function CheckoutForm() {
                   ? 'border-blue-500 bg-blue-500/10' 
                   : 'border-gray-700 hover:border-gray-600'
               }`}
-              onClick={() => setSelectedPaymentMethod('myfatoorah')}
+              onClick={() => handleSelectPaymentMethod('myfatoorah')}
             >
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
@@ -531,7 +519,7 @@ export default function CheckoutForm() {
                   </div>
                 </div>
                 <div className="text-right">
-                  <p className="font-medium text-white">${formatBalance(state.totals.usd)}</p>
+                  <p className="font-medium text-white">${formatBalance(totals.usd)}</p>
                   <div className="flex items-center justify-end space-x-1 mt-1">
                     <span className="text-xs text-gray-400">🇰🇼</span>
                     <span className="text-xs text-gray-400">🇸🇦</span>
@@ -546,10 +534,40 @@ export default function CheckoutForm() {
           </div>
 
           {/* Payment Forms */}
-          {selectedPaymentMethod === 'stripe' && (
+          {(selectedPaymentMethod === 'stripe' || selectedPaymentMethod === 'paypal') && !reservation && (
+            <div className="mt-6">
+              <Button
+                onClick={handleReserve}
+                disabled={isReserving || !hasValidQuote}
+                className="w-full"
+                size="lg"
+              >
+                {isReserving ? (
+                  <div className="flex items-center space-x-2">
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    <span>Reserving your giftcards...</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <Lock className="h-4 w-4" />
+                    <span>Continue to Payment</span>
+                  </div>
+                )}
+              </Button>
+            </div>
+          )}
+
+          {reservation && (
+            <p className="mt-6 text-xs text-gray-400 text-center">
+              Your giftcards are reserved until {new Date(reservation.reservedUntil).toLocaleTimeString('en-US')}
+            </p>
+          )}
+
+          {selectedPaymentMethod === 'stripe' && reservation?.method === 'stripe' && (
             <div className="mt-6">
               <StripePayment
-                amount={state.totals.usd}
+                amount={totals.usd}
+                reference={reservation.orderId}
                 onSuccess={handlePaymentSuccess}
                 onError={handlePaymentError}
                 loading={isProcessing}
@@ -557,10 +575,11 @@ export default function CheckoutForm() {
             </div>
           )}
 
-          {selectedPaymentMethod === 'paypal' && (
+          {selectedPaymentMethod === 'paypal' && reservation?.method === 'paypal' && (
             <div className="mt-6">
               <PayPalPayment
-                amount={state.totals.usd}
+                amount={totals.usd}
+                reference={reservation.orderId}
                 onSuccess={handlePaymentSuccess}
                 onError={handlePaymentError}
                 onCancel={handlePaymentCancellation}
@@ -573,7 +592,7 @@ export default function CheckoutForm() {
             <div className="mt-6">
               <Button
                 onClick={handleCheckout}
-                disabled={isProcessing || !hasSufficientPXL}
+                disabled={isProcessing || !hasSufficientPXL || !hasValidQuote}
                 className="w-full bg-green-600 hover:bg-green-700 text-white"
                 size="lg"
               >
@@ -585,7 +604,7 @@ export default function CheckoutForm() {
                 ) : (
                   <div className="flex items-center space-x-2">
                     <Zap className="h-4 w-4" />
-                    <span>Pay with PXL {formatBalance(state.totals.pxl)}</span>
+                    <span>Pay with PXL {formatBalance(totals.pxl)}</span>
                   </div>
                 )}
               </Button>
@@ -596,7 +615,7 @@ export default function CheckoutForm() {
             <div className="mt-6">
               <Button
                 onClick={handleMyFatoorahPayment}
-                disabled={isProcessing}
+                disabled={isProcessing || !hasValidQuote}
                 className="w-full bg-green-600 hover:bg-green-700 text-white"
                 size="lg"
               >
@@ -608,7 +627,7 @@ export default function CheckoutForm() {
                 ) : (
                   <div className="flex items-center space-x-2">
                     <Lock className="h-4 w-4" />
-                    <span>Pay ${formatBalance(state.totals.usd)} with MyFatoorah</span>
+                    <span>Pay ${formatBalance(totals.usd)} with MyFatoorah</span>
                   </div>
                 )}
               </Button>
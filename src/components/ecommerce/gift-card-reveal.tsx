@@ -12,16 +12,19 @@ import {
   CheckCircle,
   Lock,
   Gift,
-  ChevronRight
+  ChevronRight,
+  Loader2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { revealGiftcardCode, RevealedCode } from '@/services/giftcard-vault-service';
 
 interface GiftCardRevealProps {
   brand: string;
   productName: string;
   denomination: number;
-  code: string;
-  pin?: string;
+  // Vault reference; the code itself is fetched on reveal
+  serialId: string;
+  hint?: string;
   serialNumber?: string;
   orderId: string;
   index: number;
@@ -31,16 +34,42 @@ export default function GiftCardReveal({
   brand,
   productName,
   denomination,
-  code,
-  pin,
+  serialId,
+  hint,
   serialNumber,
   orderId,
   index
 }: GiftCardRevealProps) {
   const [isRevealed, setIsRevealed] = useState(false);
+  const [secret, setSecret] = useState<RevealedCode | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [revealError, setRevealError] = useState<string | null>(null);
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [showShareMenu, setShowShareMenu] = useState(false);
 
+  const code = secret?.code || '';
+  const pin = secret?.pin || undefined;
+
+  // Codes are decrypted server-side on first reveal and kept for this view only
+  const handleReveal = async () => {
+    if (secret) {
+      setIsRevealed(true);
+      return;
+    }
+
+    setIsRevealing(true);
+    setRevealError(null);
+    try {
+      setSecret(await revealGiftcardCode(orderId, serialId));
+      setIsRevealed(true);
+    } catch (error) {
+      console.error('Failed to reveal gift card:', error);
+      setRevealError('Could not reveal this gift card. Please try again.');
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
   // Copy to clipboard with feedback
   const copyToClipboard = async (text: string, field: string) => {
     try {
@@ -152,13 +181,24 @@ export default function GiftCardReveal({
             <p className="text-sm text-[#737373] mb-6 max-w-xs mx-auto">
               Click below to reveal your gift card details
             </p>
+            {hint && (
+              <p className="font-mono text-sm text-[#a1a1a1] mb-4">{hint}</p>
+            )}
             <button
-              onClick={() => setIsRevealed(true)}
-              className="inline-flex items-center gap-2 px-6 py-2.5 bg-[#0070f3] text-white rounded-lg hover:bg-[#0051cc] transition-colors duration-150 text-sm font-medium"
+              onClick={handleReveal}
+              disabled={isRevealing}
+              className="inline-flex items-center gap-2 px-6 py-2.5 bg-[#0070f3] text-white rounded-lg hover:bg-[#0051cc] transition-colors duration-150 text-sm font-medium disabled:opacity-50"
             >
-              <Eye className="h-4 w-4" />
+              {isRevealing ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Eye className="h-4 w-4" />
+              )}
               Reveal Gift Card
             </button>
+            {revealError && (
+              <p className="text-xs text-red-400 mt-3">{revealError}</p>
+            )}
           </div>
         ) : (
           // Revealed State - Vercel clean design
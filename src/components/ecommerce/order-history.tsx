@@ -9,6 +9,7 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { LoadingDots } from '@/components/ui/loader';
+import { CodeRef } from '@/services/giftcard-vault-service';
 import { formatBalance } from '@/lib/validation';
 import { formatPXL, formatUSD } from '@/lib/pxl-currency';
 import { 
@@ -42,7 +43,7 @@ interface Order {
     productName: string;
     denomination: number;
     quantity: number;
-    codes?: string[];
+    codeRefs?: CodeRef[];
     serials?: string[];
   }>;
   payment: {
@@ -268,14 +269,15 @@ export function OrderHistory() {
                 <div className="space-y-3">
                   {order.items.map((item, itemIndex) => {
                     // If item has multiple codes, show each separately
-                    if (item.codes && item.codes.length > 0) {
-                      return item.codes.map((code, codeIndex) => (
+                    if (item.codeRefs && item.codeRefs.length > 0) {
+                      return item.codeRefs.map((ref, codeIndex) => (
                         <GiftCardReveal
                           key={`${order.id}-${itemIndex}-${codeIndex}`}
                           brand={item.brand}
                           productName={item.productName}
                           denomination={item.denomination}
-                          code={code}
+                          serialId={ref.serialId}
+                          hint={ref.hint}
                           serialNumber={item.serials?.[codeIndex]}
                           orderId={order.id}
                           index={codeIndex}
@@ -14,7 +14,6 @@ interface Product {
   denominations: Array<{
     value: number;
     stock: number;
-    serials?: Array<{ status: string; }>;
   }>;
   defaultArtworkUrl?: string;
   artwork_url?: string;
@@ -17,8 +17,8 @@ interface Product {
   category: string;
   denominations: Array<{
     value: number;
+    // Codes themselves live in the giftcard vault
     stock: number;
-    serials: Array<{ status: string; }>;
   }>;
   defaultArtworkUrl?: string;
   artwork_url?: string;
@@ -63,7 +63,7 @@ export function GiftcardGrid() {
           hasArtwork: !!data.artwork_url
         });
         
-        // Check if denominations exist and have serials
+        // Check if denominations exist
         if (!data.denominations || data.denominations.length === 0) {
           console.log(`  - No denominations found`);
           return;
@@ -71,18 +71,9 @@ export function GiftcardGrid() {
         
         // Only include products that have at least one denomination with stock
         const hasStock = data.denominations?.some(denom => {
-          // Check if serials array exists
-          if (!denom.serials || !Array.isArray(denom.serials)) {
-            console.log(`  - Denomination $${denom.value} has no serials array`);
-            return false;
-          }
+          const availableCount = denom.stock || 0;
           
-          // Check if there are available serials
-          const availableCount = denom.serials.filter(
-            (serial: any) => serial.status === 'available'
-          ).length;
-          
-          console.log(`  - Denomination $${denom.value}: ${availableCount} available out of ${denom.serials.length} total`);
+          console.log(`  - Denomination $${denom.value}: ${availableCount} available`);
           return availableCount > 0;
         });
         
@@ -157,12 +148,7 @@ export function GiftcardGrid() {
   const giftcards = products.map(product => {
     // Get available denominations with stock
     const availableDenoms = product.denominations
-      .filter(denom => {
-        const availableCount = denom.serials?.filter(
-          (serial: any) => serial.status === 'available'
-        ).length || 0;
-        return availableCount > 0;
-      })
+      .filter(denom => (denom.stock || 0) > 0)
       .map(d => d.value)
       .sort((a, b) => a - b);
     
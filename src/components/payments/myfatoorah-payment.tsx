@@ -3,85 +3,57 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { myFatoorahConfig } from '@/lib/payment-config';
+import { createPaymentInvoice } from '@/services/payment-invoice-service';
 import { CreditCard, Lock, Globe, AlertCircle } from 'lucide-react';
 
 interface MyFatoorahPaymentProps {
   amount: number;
+  // Pending PXL purchase (pxp_*) or order (ord_*) to invoice; the invoice is
+  // created for the amount recorded on it, not for `amount`
+  reference: string;
   onSuccess: (details: any) => void;
   onError: (error: string) => void;
   onCancel?: (reason: string) => void;
   loading?: boolean;
   currency?: string;
-  description?: string;
 }
 
 export default function MyFatoorahPayment({ 
   amount, 
+  reference,
   onSuccess, 
   onError, 
   onCancel, 
   loading,
   currency = 'USD',
-  description = 'PXL Purchase'
 }: MyFatoorahPaymentProps) {
   const [processing, setProcessing] = useState(false);
   const [paymentUrl, setPaymentUrl] = useState<string | null>(null);
   const [sessionId, setSessionId] = useState<string | null>(null);
 
-  // Convert USD to KWD (approximate rate, should be fetched from API in production)
-  const getAmountInKWD = (usdAmount: number) => {
-    const conversionRate = 0.31; // 1 USD ≈ 0.31 KWD
-    return (usdAmount * conversionRate).toFixed(3);
-  };
-
   const initiatePayment = async () => {
     setProcessing(true);
     
     try {
-      // Create payment session with MyFatoorah API
-      const response = await fetch('/api/myfatoorah/initiate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          amount: currency === 'KWD' ? amount : getAmountInKWD(amount),
-          currency: 'KWD', // MyFatoorah works primarily with KWD
-          description: description,
-          customerName: 'Customer', // In production, get from user profile
-          customerEmail: 'customer@example.com', // In production, get from user profile
-          callbackUrl: myFatoorahConfig.callbackUrl,
-          errorUrl: myFatoorahConfig.errorUrl,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to initiate MyFatoorah payment');
-      }
-
-      const data = await response.json();
-      
-      if (data.success && data.paymentUrl) {
-        setPaymentUrl(data.paymentUrl);
-        setSessionId(data.sessionId);
-        
-        // Open MyFatoorah payment page in new window
-        const paymentWindow = window.open(
-          data.paymentUrl, 
-          'MyFatoorah Payment',
-          'width=600,height=700,left=200,top=100'
-        );
-
-        // Poll for payment status
-        const checkInterval = setInterval(async () => {
-          if (paymentWindow?.closed) {
-            clearInterval(checkInterval);
-            await checkPaymentStatus(data.sessionId);
-          }
-        }, 1000);
-      } else {
-        throw new Error(data.error || 'Failed to get payment URL');
-      }
+      // The webhook credits the purchase once MyFatoorah reports the invoice paid
+      const invoice = await createPaymentInvoice(reference);
+      setPaymentUrl(invoice.paymentUrl);
+      setSessionId(invoice.invoiceId);
+
+      // Open MyFatoorah payment page in new window
+      const paymentWindow = window.open(
+        invoice.paymentUrl, 
+        'MyFatoorah Payment',
+        'width=600,height=700,left=200,top=100'
+      );
+
+      // Poll for payment status
+      const checkInterval = setInterval(async () => {
+        if (paymentWindow?.closed) {
+          clearInterval(checkInterval);
+          await checkPaymentStatus(invoice.invoiceId);
+        }
+      }, 1000);
     } catch (error) {
       console.error('MyFatoorah payment error:', error);
       onError(error instanceof Error ? error.message : 'Payment failed');
@@ -169,7 +141,7 @@ export default function MyFatoorahPayment({
         <div className="text-xs text-gray-400 space-y-1">
           <p>• Secure payment processing for Middle East region</p>
           <p>• Supports local payment methods (KNET, etc.)</p>
-          <p>• Amount: {currency === 'KWD' ? `${amount} KWD` : `$${amount} USD (≈ ${getAmountInKWD(amount)} KWD)`}</p>
+          <p>• Amount: ${amount} {currency}</p>
         </div>
       </div>
 
@@ -6,13 +6,15 @@ import { paypalConfig } from '@/lib/payment-config';
 
 interface PayPalPaymentProps {
   amount: number;
+  // Order or purchase ID the payment is for, sent as the purchase unit's custom_id
+  reference?: string;
   onSuccess: (details: any) => void;
   onError: (error: string) => void;
   onCancel?: (reason: string) => void;
   loading?: boolean;
 }
 
-export default function PayPalPayment({ amount, onSuccess, onError, onCancel, loading }: PayPalPaymentProps) {
+export default function PayPalPayment({ amount, reference, onSuccess, onError, onCancel, loading }: PayPalPaymentProps) {
   const [processing, setProcessing] = useState(false);
 
   // Add global error handler for unhandled PayPal errors
@@ -54,6 +56,7 @@ export default function PayPalPayment({ amount, onSuccess, onError, onCancel, lo
             value: amount.toFixed(2),
           },
           description: 'Giftcard Purchase - PXL Platform',
+          ...(reference ? { custom_id: reference } : {}),
         },
       ],
       application_context: {
@@ -17,12 +17,14 @@ const stripePromise = loadStripe(stripeConfig.publishableKey);
 
 interface StripePaymentFormProps {
   amount: number;
+  // Order or purchase ID the payment is for
+  reference?: string;
   onSuccess: (paymentIntent: any) => void;
   onError: (error: string) => void;
   loading?: boolean;
 }
 
-function StripePaymentForm({ amount, onSuccess, onError, loading }: StripePaymentFormProps) {
+function StripePaymentForm({ amount, reference, onSuccess, onError, loading }: StripePaymentFormProps) {
   const stripe = useStripe();
   const elements = useElements();
   const [processing, setProcessing] = useState(false);
@@ -71,6 +73,7 @@ function StripePaymentForm({ amount, onSuccess, onError, loading }: StripePaymen
         currency: 'usd',
         status: 'succeeded',
         payment_method: paymentMethod.id,
+        metadata: { reference },
         created: Date.now(),
       };
 
@@ -169,16 +172,19 @@ function StripePaymentForm({ amount, onSuccess, onError, loading }: StripePaymen
 
 interface StripePaymentProps {
   amount: number;
+  // Order or purchase ID the payment is for
+  reference?: string;
   onSuccess: (paymentIntent: any) => void;
   onError: (error: string) => void;
   loading?: boolean;
 }
 
-export default function StripePayment({ amount, onSuccess, onError, loading }: StripePaymentProps) {
+export default function StripePayment({ amount, reference, onSuccess, onError, loading }: StripePaymentProps) {
   return (
     <Elements stripe={stripePromise}>
       <StripePaymentForm
         amount={amount}
+        reference={reference}
         onSuccess={onSuccess}
         onError={onError}
         loading={loading}
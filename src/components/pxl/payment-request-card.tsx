@@ -0,0 +1,177 @@
+"use client";
+
+import * as React from "react";
+import { Check, Clock, Copy, Receipt, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  PaymentRequest,
+  cancelPaymentRequest,
+  declinePaymentRequest,
+  getPaymentRequestLink,
+  payPaymentRequest,
+  subscribeToPaymentRequest,
+} from "@/services/payment-request-service";
+import { formatPXL } from "@/lib/pxl-currency";
+
+interface PaymentRequestCardProps {
+  requestId: string;
+  // Tighter layout for chat bubbles
+  compact?: boolean;
+}
+
+const STATUS_LABELS: Record<PaymentRequest["status"], string> = {
+  open: "Open",
+  "partially-paid": "Partially paid",
+  paid: "Paid",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+/**
+ * Actionable card for a PXL payment request
+ */
+export function PaymentRequestCard({ requestId, compact = false }: PaymentRequestCardProps) {
+  const { user } = useAuth();
+  const [request, setRequest] = React.useState<PaymentRequest | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState("");
+  const [copied, setCopied] = React.useState(false);
+
+  React.useEffect(() => {
+    return subscribeToPaymentRequest(
+      requestId,
+      (next) => {
+        setRequest(next);
+        setLoading(false);
+      },
+      (err) => {
+        console.error("Error loading payment request:", err);
+        setLoading(false);
+      }
+    );
+  }, [requestId]);
+
+  if (loading) {
+    return <div className="p-3 bg-gray-900 rounded-lg text-sm text-gray-400">Loading request...</div>;
+  }
+
+  if (!request) {
+    return <div className="p-3 bg-gray-900 rounded-lg text-sm text-gray-400">This request is no longer available</div>;
+  }
+
+  const isRequester = request.requesterId === user?.uid;
+  const isActive = (request.status === "open" || request.status === "partially-paid") &&
+    request.expiresAt.toMillis() > Date.now();
+  const myShare = request.shares.find(share => share.userId === user?.uid) ||
+    (request.shareable && !isRequester ? request.shares.find(share => share.userId === null && share.status === "pending") : undefined);
+  const canPay = isActive && !!myShare && myShare.status === "pending";
+  const progress = Math.min(100, Math.round((request.amountPaid / request.amount) * 100));
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || "Something went wrong. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(getPaymentRequestLink(request.id));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className={`bg-gray-900 border border-gray-800 rounded-lg text-left ${compact ? "p-3 w-72" : "p-4"}`}>
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <Receipt className="h-5 w-5 text-blue-400" />
+          <div>
+            <p className="text-sm text-gray-400">
+              {isRequester ? "You requested" : `${request.requesterUsername} requested`}
+            </p>
+            <p className="text-lg font-bold text-white">{formatPXL(request.amount)}</p>
+          </div>
+        </div>
+        <span className="text-xs px-2 py-0.5 rounded bg-gray-800 text-gray-300">
+          {STATUS_LABELS[request.status]}
+        </span>
+      </div>
+
+      {request.memo && (
+        <p className="text-sm text-gray-300 italic mb-2">"{request.memo}"</p>
+      )}
+
+      {/* Split progress */}
+      {request.shares.length > 1 && (
+        <div className="mb-3">
+          <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden mb-1">
+            <div className="h-full bg-green-500" style={{ width: `${progress}%` }} />
+          </div>
+          <p className="text-xs text-gray-400 mb-2">
+            {formatPXL(request.amountPaid)} of {formatPXL(request.amount)} paid
+          </p>
+          <div className="space-y-1">
+            {request.shares.map((share, index) => (
+              <div key={share.userId || index} className="flex items-center justify-between text-xs">
+                <span className="text-gray-300">{share.username || "Anyone with the link"}</span>
+                <span className={share.status === "paid" ? "text-green-400" : share.status === "declined" ? "text-red-400" : "text-gray-400"}>
+                  {formatPXL(share.amount)} · {share.status}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isActive && (
+        <p className="text-xs text-gray-500 mb-3 flex items-center">
+          <Clock className="h-3 w-3 mr-1" />
+          Expires {request.expiresAt.toDate().toLocaleString("en-US")}
+        </p>
+      )}
+
+      {myShare?.status === "held" && (
+        <p className="text-xs text-yellow-400 mb-2">Your payment is being reviewed and will count once it is released</p>
+      )}
+
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+
+      <div className="flex space-x-2">
+        {canPay && (
+          <>
+            <Button size="sm" className="flex-1" disabled={busy} onClick={() => runAction(() => payPaymentRequest(request.id))}>
+              <Check className="h-4 w-4 mr-1" />
+              Pay {formatPXL(myShare!.amount)}
+            </Button>
+            {myShare!.userId && (
+              <Button size="sm" variant="secondary" disabled={busy} onClick={() => runAction(() => declinePaymentRequest(request.id))}>
+                Decline
+              </Button>
+            )}
+          </>
+        )}
+        {isRequester && isActive && (
+          <>
+            {request.shareable && (
+              <Button size="sm" variant="secondary" className="flex-1" onClick={handleCopyLink}>
+                <Copy className="h-4 w-4 mr-1" />
+                {copied ? "Copied" : "Copy link"}
+              </Button>
+            )}
+            <Button size="sm" variant="secondary" disabled={busy} onClick={() => runAction(() => cancelPaymentRequest(request.id))}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
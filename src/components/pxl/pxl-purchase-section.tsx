@@ -9,6 +9,10 @@ import StripePayment from "@/components/payments/stripe-payment";
 import PayPalPayment from "@/components/payments/paypal-payment";
 import MyFatoorahPayment from "@/components/payments/myfatoorah-payment";
 import { usePXLCurrency } from "@/hooks/use-pxl-currency";
+import { useQuote } from "@/hooks/use-quote";
+import { quotePXLPurchase } from "@/services/quote-service";
+import { pxlCurrencyService } from "@/services/pxl-currency-service";
+import { QuoteLockTimer } from "@/components/pxl/quote-lock-timer";
 import { formatPXL, formatUSD } from "@/lib/pxl-currency";
 import { useAuth } from "@/contexts/auth-context";
 
@@ -39,12 +43,48 @@ export function PXLPurchaseSection() {
     loading: currencyLoading 
   } = usePXLCurrency();
   
-  const { refreshUserData } = useAuth();
+  const { user, refreshUserData } = useAuth();
   
   const parsedAmount = parseFormattedBalance(usdAmount || "0");
+
+  // Lock the rate and tier bonus shown here so the credited amount matches it
+  const {
+    quote,
+    loading: quoteLoading,
+    error: quoteError,
+    secondsLeft,
+    expired: quoteExpired,
+    refresh: refreshQuote,
+  } = useQuote(
+    user && parsedAmount >= 10 ? String(parsedAmount) : null,
+    () => quotePXLPurchase(parsedAmount)
+  );
+  const hasValidQuote = !!quote && !quoteExpired && quote.usdAmount === parsedAmount;
+
   const pxlCalculation = React.useMemo(() => {
-    return calculatePXLAmount(parsedAmount);
-  }, [parsedAmount, calculatePXLAmount]);
+    return hasValidQuote ? quote : calculatePXLAmount(parsedAmount);
+  }, [hasValidQuote, quote, parsedAmount, calculatePXLAmount]);
+  const displayRate = hasValidQuote ? quote.exchangeRate : currentRate;
+
+  // Each locked quote gets its own pending purchase; the payment is made against its ID
+  const [purchaseId, setPurchaseId] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setPurchaseId(null);
+    if (!hasValidQuote) return;
+
+    let cancelled = false;
+    pxlCurrencyService
+      .createPXLPurchase(quote.usdAmount, paymentMethod, `pxl-section_${quote.quoteId}_${paymentMethod}`, quote.quoteId)
+      .then(id => {
+        if (!cancelled) setPurchaseId(id);
+      })
+      .catch(error => console.error('Failed to start PXL purchase:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasValidQuote, quote, paymentMethod]);
 
   const presetAmounts = [25, 50, 100, 250, 500];
 
@@ -54,10 +94,13 @@ export function PXLPurchaseSection() {
     setPaymentResult(result);
     
     try {
-      // Process the PXL purchase and update balances
+      if (!purchaseId) {
+        throw new Error('Purchase was not started');
+      }
+
+      // Credit the purchase the payment was made for and update balances
       const txResult = await processPXLPurchase(
-        parsedAmount,
-        paymentMethod,
+        purchaseId,
         result.id || result.paymentIntentId || result.orderId
       );
       
@@ -198,7 +241,7 @@ export function PXLPurchaseSection() {
           <div className="mt-3 pt-3 border-t border-gray-800 space-y-1">
             <div className="flex items-center justify-between text-xs text-gray-400">
               <span>Exchange rate</span>
-              <span>1 USD = {currentRate.toFixed(2)} PXL</span>
+              <span>1 USD = {displayRate.toFixed(2)} PXL</span>
             </div>
             {purchaseDiscount > 0 && (
               <div className="flex items-center justify-between text-xs text-green-400">
@@ -206,6 +249,17 @@ export function PXLPurchaseSection() {
                 <span>1 USD = {pxlCalculation.effectiveRate.toFixed(2)} PXL</span>
               </div>
             )}
+            {parsedAmount >= 10 && (
+              <div className="pt-1">
+                <QuoteLockTimer
+                  secondsLeft={secondsLeft}
+                  expired={quoteExpired}
+                  loading={quoteLoading}
+                  error={quoteError}
+                  onRefresh={refreshQuote}
+                />
+              </div>
+            )}
           </div>
         </div>
 
@@ -304,11 +358,20 @@ export function PXLPurchaseSection() {
           </div>
         )}
 
-        {/* Payment Components */}
-        {paymentMethod === "stripe" ? (
+        {/* Payment Components - only offered while the quoted rate is locked */}
+        {!hasValidQuote ? (
+          <Button disabled className="w-full">
+            {parsedAmount < 10 ? "Enter at least $10" : quoteLoading ? "Locking rate..." : "Refresh the quote to continue"}
+          </Button>
+        ) : !purchaseId ? (
+          <Button disabled className="w-full">
+            Preparing payment...
+          </Button>
+        ) : paymentMethod === "stripe" ? (
           <StripePayment
             amount={parseFormattedBalance(usdAmount || "0")}
             currency="usd"
+            reference={purchaseId}
             description={`Purchase ${formatPXL(pxlCalculation.totalPxl)}`}
             onSuccess={handlePaymentSuccess}
             onError={handlePaymentError}
@@ -317,6 +380,7 @@ export function PXLPurchaseSection() {
         ) : paymentMethod === "paypal" ? (
           <PayPalPayment
             amount={parseFormattedBalance(usdAmount || "0")}
+            reference={purchaseId}
             onSuccess={handlePaymentSuccess}
             onError={handlePaymentError}
             onCancel={handlePaymentCancellation}
@@ -325,8 +389,8 @@ export function PXLPurchaseSection() {
         ) : (
           <MyFatoorahPayment
             amount={parseFormattedBalance(usdAmount || "0")}
+            reference={purchaseId}
             currency="USD"
-            description={`Purchase ${formatPXL(pxlCalculation.totalPxl)}`}
             onSuccess={handlePaymentSuccess}
             onError={handlePaymentError}
             onCancel={handlePaymentCancellation}
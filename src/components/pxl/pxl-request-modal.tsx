@@ -0,0 +1,255 @@
+"use client";
+
+import React, { useState } from 'react';
+import { X, Receipt, AlertCircle, CheckCircle, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ValidatedInput } from '@/components/ui/validated-input';
+import { createPaymentRequest, getPaymentRequestLink } from '@/services/payment-request-service';
+import { formatPXL } from '@/lib/pxl-currency';
+
+export interface CreatedPaymentRequest {
+  paymentRequestId: string;
+  amount: number;
+  memo: string | null;
+}
+
+interface PXLRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // When opened from a chat, the request is addressed to the other members by default
+  conversationId?: string;
+  defaultPayerIds?: string[];
+  onCreated?: (request: CreatedPaymentRequest) => Promise<void> | void;
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+];
+
+export function PXLRequestModal({ isOpen, onClose, conversationId, defaultPayerIds = [], onCreated }: PXLRequestModalProps) {
+  const [amount, setAmount] = useState('');
+  const [memo, setMemo] = useState('');
+  const [payers, setPayers] = useState('');
+  const [expiresInHours, setExpiresInHours] = useState(72);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [createdId, setCreatedId] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const parsedAmount = parseInt(amount, 10) || 0;
+  const usernames = payers
+    .split(/[\s,]+/)
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => (name.startsWith('@') ? name : `@${name}`));
+  const payerCount = usernames.length || defaultPayerIds.length;
+  const isShareable = payerCount === 0;
+
+  const resetForm = () => {
+    setAmount('');
+    setMemo('');
+    setPayers('');
+    setExpiresInHours(72);
+    setError('');
+    setCreatedId(null);
+    setCopied(false);
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const handleCreate = async () => {
+    if (!parsedAmount || parsedAmount < payerCount) {
+      setError('Please enter a whole PXL amount of at least 1 PXL per payer');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const paymentRequestId = await createPaymentRequest({
+        amount: parsedAmount,
+        memo: memo || null,
+        expiresInHours,
+        payers: usernames.length > 0
+          ? usernames.map(username => ({ username }))
+          : defaultPayerIds.map(userId => ({ userId })),
+        conversationId: conversationId || null,
+      });
+
+      await onCreated?.({ paymentRequestId, amount: parsedAmount, memo: memo || null });
+      setCreatedId(paymentRequestId);
+    } catch (err: any) {
+      console.error('Payment request failed:', err);
+      // Validation and lookup errors come back with a user-facing message
+      if (err.code === 'functions/invalid-argument' || err.code === 'functions/not-found') {
+        setError(err.message);
+      } else {
+        setError('Failed to create request. Please try again.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!createdId) return;
+    await navigator.clipboard.writeText(getPaymentRequestLink(createdId));
+    setCopied(true);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-900 rounded-lg max-w-md w-full p-6 relative">
+        <button
+          onClick={handleClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-white"
+          aria-label="Close modal"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <h2 className="text-xl font-semibold text-white mb-6">Request PXL</h2>
+
+        {createdId ? (
+          <div className="text-center py-8">
+            <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <p className="text-lg text-white mb-2">Request Created</p>
+            <p className="text-gray-400">
+              {isShareable
+                ? `Share the link below to collect ${formatPXL(parsedAmount)}`
+                : `${formatPXL(parsedAmount)} requested from ${payerCount} ${payerCount === 1 ? 'person' : 'people'}`}
+            </p>
+            {isShareable && (
+              <div className="mt-4 flex items-center space-x-2 p-3 bg-gray-800 rounded-lg">
+                <p className="flex-1 text-sm text-gray-300 truncate">{getPaymentRequestLink(createdId)}</p>
+                <Button size="sm" variant="secondary" onClick={handleCopyLink}>
+                  <Copy className="h-4 w-4 mr-1" />
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+              </div>
+            )}
+            <Button className="mt-6 w-full" onClick={handleClose}>
+              Done
+            </Button>
+          </div>
+        ) : (
+          <>
+            {/* Amount Input */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Amount (PXL)
+              </label>
+              <ValidatedInput
+                type="amount"
+                value={amount}
+                onChange={setAmount}
+                placeholder="0"
+                className="w-full bg-gray-800 border-gray-700"
+                disabled={loading}
+              />
+            </div>
+
+            {/* Payers Input */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Request From (Optional)
+              </label>
+              <ValidatedInput
+                type="text"
+                value={payers}
+                onChange={setPayers}
+                placeholder={defaultPayerIds.length > 0 ? 'Everyone in this conversation' : '@alice, @bob'}
+                className="w-full bg-gray-800 border-gray-700"
+                disabled={loading}
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                {isShareable
+                  ? 'Leave empty to create a shareable link anyone can pay'
+                  : payerCount > 1 && parsedAmount > 0
+                    ? `Split evenly: about ${formatPXL(Math.floor(parsedAmount / payerCount))} each`
+                    : `Requesting from ${payerCount} ${payerCount === 1 ? 'person' : 'people'}`}
+              </p>
+            </div>
+
+            {/* Memo Input */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Memo (Optional)
+              </label>
+              <textarea
+                value={memo}
+                onChange={(e) => setMemo(e.target.value)}
+                placeholder="What's it for?"
+                maxLength={200}
+                rows={2}
+                className="w-full bg-gray-800 border border-gray-700 rounded-md px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={loading}
+              />
+            </div>
+
+            {/* Expiry */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Expires After
+              </label>
+              <select
+                value={expiresInHours}
+                onChange={(e) => setExpiresInHours(Number(e.target.value))}
+                className="w-full bg-gray-800 border border-gray-700 rounded-md px-3 py-2 text-white"
+                disabled={loading}
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.hours} value={option.hours}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Error Message */}
+            {error && (
+              <div className="mb-4 p-3 bg-red-900/20 border border-red-800 rounded-md">
+                <div className="flex items-center space-x-2">
+                  <AlertCircle className="h-4 w-4 text-red-400" />
+                  <p className="text-sm text-red-400">{error}</p>
+                </div>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex space-x-3">
+              <Button
+                variant="secondary"
+                onClick={handleClose}
+                disabled={loading}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={loading || parsedAmount <= 0}
+                className="flex-1"
+              >
+                {loading ? (
+                  <span>Creating...</span>
+                ) : (
+                  <>
+                    <Receipt className="h-4 w-4 mr-2" />
+                    Request PXL
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,48 @@
 "use client";
 
 import React, { useState } from 'react';
-import { X, Send, AlertCircle, CheckCircle } from 'lucide-react';
+import { X, Send, AlertCircle, CheckCircle, CalendarClock } from 'lucide-react';
+import { httpsCallable } from 'firebase/functions';
 import { Button } from '@/components/ui/button';
 import { ValidatedInput } from '@/components/ui/validated-input';
 import { useAuth } from '@/contexts/auth-context';
-import { usePXLCurrency } from '@/hooks/use-pxl-currency';
 import { formatPXL } from '@/lib/pxl-currency';
-import { db } from '@/lib/firebase-config';
-import { collection, query, where, getDocs, doc, writeBatch, Timestamp, serverTimestamp } from 'firebase/firestore';
+import { db, functions } from '@/lib/firebase-config';
+import { collection, query, where, getDocs } from 'firebase/firestore';
 
 interface PXLTransferModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+interface TransferRequest {
+  recipientUserId: string;
+  amount: number;
+  message: string | null;
+  idempotencyKey: string;
+}
+
+interface TransferResult {
+  success: boolean;
+  transferId: string;
+  status: 'completed' | 'on-hold';
+  amount: number;
+}
+
+type TransferFrequency = 'once' | 'weekly' | 'monthly';
+
+interface ScheduledTransferRequest {
+  recipientUserId: string;
+  amount: number;
+  message: string | null;
+  runAt: number;
+  frequency: TransferFrequency;
+}
+
+const createTransferKey = () => `trf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
 export function PXLTransferModal({ isOpen, onClose }: PXLTransferModalProps) {
   const { user, platformUser } = useAuth();
-  const { currentRate } = usePXLCurrency();
   const [recipient, setRecipient] = useState('');
   const [amount, setAmount] = useState('');
   const [message, setMessage] = useState('');
@@ -26,6 +51,13 @@ export function PXLTransferModal({ isOpen, onClose }: PXLTransferModalProps) {
   const [success, setSuccess] = useState(false);
   const [verifyingRecipient, setVerifyingRecipient] = useState(false);
   const [recipientData, setRecipientData] = useState<any>(null);
+  const [transferStatus, setTransferStatus] = useState<TransferResult['status'] | null>(null);
+  // Reused across retries of the same transfer so it is never applied twice
+  const [transferKey, setTransferKey] = useState(createTransferKey);
+  const [sendLater, setSendLater] = useState(false);
+  const [runAt, setRunAt] = useState('');
+  const [frequency, setFrequency] = useState<TransferFrequency>('once');
+  const [scheduled, setScheduled] = useState(false);
 
   const userBalance = platformUser?.wallets?.pxl?.balance || 0;
   const parsedAmount = parseFloat(amount) || 0;
@@ -88,13 +120,34 @@ export function PXLTransferModal({ isOpen, onClose }: PXLTransferModalProps) {
     return () => clearTimeout(timer);
   }, [recipient]);
 
+  const resetForm = () => {
+    setRecipient('');
+    setAmount('');
+    setMessage('');
+    setSuccess(false);
+    setRecipientData(null);
+    setTransferStatus(null);
+    setTransferKey(createTransferKey());
+    setSendLater(false);
+    setRunAt('');
+    setFrequency('once');
+    setScheduled(false);
+  };
+
   const handleTransfer = async () => {
     if (!recipientData || !parsedAmount || parsedAmount <= 0) {
       setError('Please enter a valid recipient and amount');
       return;
     }
 
-    if (parsedAmount > userBalance) {
+    const runAtMs = new Date(runAt).getTime();
+    if (sendLater && (!runAt || runAtMs <= Date.now())) {
+      setError('Please choose a future date for this transfer');
+      return;
+    }
+
+    // Scheduled transfers check the balance when they run
+    if (!sendLater && parsedAmount > userBalance) {
       setError('Insufficient PXL balance');
       return;
     }
@@ -108,110 +161,50 @@ export function PXLTransferModal({ isOpen, onClose }: PXLTransferModalProps) {
     setError('');
 
     try {
-      const batch = writeBatch(db);
-      const transferId = `trf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const timestamp = Timestamp.now();
+      if (sendLater) {
+        const createScheduledTransfer = httpsCallable<ScheduledTransferRequest>(functions, 'createScheduledTransfer');
+        await createScheduledTransfer({
+          recipientUserId: recipientData.id,
+          amount: parsedAmount,
+          message: message || null,
+          runAt: runAtMs,
+          frequency,
+        });
+        setScheduled(true);
+        setSuccess(true);
+        setTimeout(() => {
+          resetForm();
+          onClose();
+        }, 2000);
+        return;
+      }
 
-      // Create transfer document
-      const transferRef = doc(db, 'pxl-transfers', transferId);
-      batch.set(transferRef, {
-        senderUserId: user!.uid,
-        senderUsername: platformUser!.username,
+      // Balances are moved server-side in a single ledger transaction
+      const transferPXL = httpsCallable<TransferRequest, TransferResult>(functions, 'transferPXL');
+      const result = await transferPXL({
         recipientUserId: recipientData.id,
-        recipientUsername: recipientData.username,
-        recipientEmail: recipientData.email,
         amount: parsedAmount,
         message: message || null,
-        status: 'completed',
-        createdAt: timestamp,
-        completedAt: timestamp,
-        senderTransactionId: `txn_${Date.now()}_sender`,
-        recipientTransactionId: `txn_${Date.now()}_recipient`,
+        idempotencyKey: transferKey,
       });
 
-      // Update sender's balance
-      const senderRef = doc(db, 'users', user!.uid);
-      batch.update(senderRef, {
-        'wallets.pxl.balance': userBalance - parsedAmount,
-        'wallets.pxl.totalSent': (platformUser?.wallets?.pxl?.totalSent || 0) + parsedAmount,
-        'timestamps.updated': serverTimestamp(),
-      });
-
-      // Update recipient's balance
-      const recipientRef = doc(db, 'users', recipientData.id);
-      const recipientBalance = recipientData.wallets?.pxl?.balance || 0;
-      const recipientTotalReceived = recipientData.wallets?.pxl?.totalReceived || 0;
-      
-      batch.update(recipientRef, {
-        'wallets.pxl.balance': recipientBalance + parsedAmount,
-        'wallets.pxl.totalReceived': recipientTotalReceived + parsedAmount,
-        'timestamps.updated': serverTimestamp(),
-      });
-
-      // Create transaction records
-      const senderTxnRef = doc(collection(db, 'transactions'));
-      batch.set(senderTxnRef, {
-        userId: user!.uid,
-        type: 'pxl-transfer-sent',
-        amounts: {
-          pxl: -parsedAmount,
-          usd: 0,
-          exchangeRate: currentRate,
-        },
-        transfer: {
-          recipientUserId: recipientData.id,
-          recipientUsername: recipientData.username,
-          recipientEmail: recipientData.email,
-          message: message || null,
-          transferStatus: 'completed',
-        },
-        status: 'completed',
-        timestamps: {
-          created: timestamp,
-          updated: timestamp,
-          completed: timestamp,
-        },
-      });
-
-      const recipientTxnRef = doc(collection(db, 'transactions'));
-      batch.set(recipientTxnRef, {
-        userId: recipientData.id,
-        type: 'pxl-transfer-received',
-        amounts: {
-          pxl: parsedAmount,
-          usd: 0,
-          exchangeRate: currentRate,
-        },
-        transfer: {
-          senderUserId: user!.uid,
-          senderUsername: platformUser!.username,
-          message: message || null,
-          transferStatus: 'completed',
-        },
-        status: 'completed',
-        timestamps: {
-          created: timestamp,
-          updated: timestamp,
-          completed: timestamp,
-        },
-      });
-
-      await batch.commit();
+      setTransferStatus(result.data.status);
       setSuccess(true);
       
       // Reset form after success
       setTimeout(() => {
-        setRecipient('');
-        setAmount('');
-        setMessage('');
-        setSuccess(false);
-        setRecipientData(null);
+        resetForm();
         onClose();
       }, 2000);
       
-    } catch (err) {
+    } catch (err: any) {
       console.error('Transfer failed:', err);
-      setError('Failed to complete transfer. Please try again.');
+      // Limit and balance errors come back with a user-facing message
+      if (err.code === 'functions/resource-exhausted' || err.code === 'functions/failed-precondition') {
+        setError(err.message);
+      } else {
+        setError('Failed to complete transfer. Please try again.');
+      }
     } finally {
       setLoading(false);
     }
@@ -235,10 +228,21 @@ export function PXLTransferModal({ isOpen, onClose }: PXLTransferModalProps) {
         {success ? (
           <div className="text-center py-8">
             <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
-            <p className="text-lg text-white mb-2">Transfer Successful!</p>
+            <p className="text-lg text-white mb-2">
+              {scheduled
+                ? 'Transfer Scheduled'
+                : transferStatus === 'on-hold' ? 'Transfer Submitted' : 'Transfer Successful!'}
+            </p>
             <p className="text-gray-400">
-              {formatPXL(parsedAmount)} sent to {recipientData.username}
+              {scheduled
+                ? `${formatPXL(parsedAmount)} will be sent to ${recipientData.username} on ${new Date(runAt).toLocaleString('en-US')}`
+                : `${formatPXL(parsedAmount)} sent to ${recipientData.username}`}
             </p>
+            {transferStatus === 'on-hold' && (
+              <p className="text-sm text-yellow-400 mt-2">
+                This transfer is being held for review and will be delivered once approved.
+              </p>
+            )}
             {message && (
               <div className="mt-4 p-3 bg-gray-800 rounded-lg">
                 <p className="text-sm text-gray-300 italic">Message: "{message}"</p>
@@ -291,7 +295,7 @@ export function PXLTransferModal({ isOpen, onClose }: PXLTransferModalProps) {
             </div>
 
             {/* Message Input */}
-            <div className="mb-6">
+            <div className="mb-4">
               <label className="block text-sm font-medium text-gray-300 mb-2">
                 Message (Optional)
               </label>
@@ -306,6 +310,43 @@ export function PXLTransferModal({ isOpen, onClose }: PXLTransferModalProps) {
               />
             </div>
 
+            {/* Schedule Options */}
+            <div className="mb-6">
+              <label className="flex items-center space-x-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={sendLater}
+                  onChange={(e) => setSendLater(e.target.checked)}
+                  disabled={loading}
+                />
+                <CalendarClock className="h-4 w-4" />
+                <span>Send later or repeat</span>
+              </label>
+              {sendLater && (
+                <div className="mt-3 flex space-x-2">
+                  <input
+                    type="datetime-local"
+                    value={runAt}
+                    onChange={(e) => setRunAt(e.target.value)}
+                    className="flex-1 bg-gray-800 border border-gray-700 rounded-md px-3 py-2 text-white"
+                    aria-label="Transfer date"
+                    disabled={loading}
+                  />
+                  <select
+                    value={frequency}
+                    onChange={(e) => setFrequency(e.target.value as TransferFrequency)}
+                    className="bg-gray-800 border border-gray-700 rounded-md px-3 py-2 text-white"
+                    aria-label="Repeat"
+                    disabled={loading}
+                  >
+                    <option value="once">Once</option>
+                    <option value="weekly">Weekly</option>
+                    <option value="monthly">Monthly</option>
+                  </select>
+                </div>
+              )}
+            </div>
+
             {/* Error Message */}
             {error && (
               <div className="mb-4 p-3 bg-red-900/20 border border-red-800 rounded-md">
@@ -328,15 +369,15 @@ export function PXLTransferModal({ isOpen, onClose }: PXLTransferModalProps) {
               </Button>
               <Button
                 onClick={handleTransfer}
-                disabled={loading || !recipientData || !parsedAmount || parsedAmount <= 0 || parsedAmount > userBalance}
+                disabled={loading || !recipientData || !parsedAmount || parsedAmount <= 0 || (!sendLater && parsedAmount > userBalance)}
                 className="flex-1"
               >
                 {loading ? (
-                  <span>Sending...</span>
+                  <span>{sendLater ? 'Scheduling...' : 'Sending...'}</span>
                 ) : (
                   <>
                     <Send className="h-4 w-4 mr-2" />
-                    Send PXL
+                    {sendLater ? 'Schedule Transfer' : 'Send PXL'}
                   </>
                 )}
               </Button>
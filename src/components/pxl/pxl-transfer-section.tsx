@@ -2,8 +2,10 @@
 
 import * as React from "react";
 import { Button } from "@/components/ui/button";
-import { Send, Users, Clock, ArrowUpRight, ArrowDownLeft } from "lucide-react";
+import { Send, Users, Clock, ArrowUpRight, ArrowDownLeft, Receipt } from "lucide-react";
 import { useAuth } from "@/contexts/auth-context";
+import { PaymentRequestCard } from "./payment-request-card";
+import { PXLRequestModal } from "./pxl-request-modal";
 import { formatPXL } from "@/lib/pxl-currency";
 import { PXLTransferModal } from "./pxl-transfer-modal";
 import { db } from "@/lib/firebase-config";
@@ -15,7 +17,9 @@ import { collection, query, where, orderBy, limit, onSnapshot, Timestamp } from
 export function PXLTransferSection() {
   const { user, platformUser } = useAuth();
   const [isModalOpen, setIsModalOpen] = React.useState(false);
+  const [isRequestModalOpen, setIsRequestModalOpen] = React.useState(false);
   const [recentTransfers, setRecentTransfers] = React.useState<any[]>([]);
+  const [incomingRequestIds, setIncomingRequestIds] = React.useState<string[]>([]);
   
   const userBalance = platformUser?.wallets?.pxl?.balance || 0;
 
@@ -93,6 +97,36 @@ export function PXLTransferSection() {
     };
   }, [user]);
 
+  // Load payment requests waiting on this user
+  React.useEffect(() => {
+    if (!user) return;
+
+    const requestsQuery = query(
+      collection(db, 'payment-requests'),
+      where('payerIds', 'array-contains', user.uid),
+      orderBy('createdAt', 'desc'),
+      limit(10)
+    );
+
+    const unsubscribe = onSnapshot(
+      requestsQuery,
+      (snapshot) => {
+        setIncomingRequestIds(snapshot.docs
+          .filter(doc => {
+            const data = doc.data();
+            return (data.status === 'open' || data.status === 'partially-paid') &&
+              data.shares.some((share: any) => share.userId === user.uid && share.status === 'pending');
+          })
+          .map(doc => doc.id));
+      },
+      (error) => {
+        console.error('Error loading payment requests:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
   const formatTimeAgo = (timestamp: Timestamp) => {
     const seconds = Math.floor((Date.now() - timestamp.toMillis()) / 1000);
     
@@ -119,15 +153,37 @@ export function PXLTransferSection() {
           <p className="text-2xl font-bold text-white">{formatPXL(userBalance)}</p>
         </div>
 
-        {/* Send Button */}
-        <Button
-          onClick={() => setIsModalOpen(true)}
-          className="w-full mb-6"
-          disabled={userBalance === 0}
-        >
-          <Send className="h-4 w-4 mr-2" />
-          Send PXL
-        </Button>
+        {/* Send and Request Buttons */}
+        <div className="flex space-x-3 mb-6">
+          <Button
+            onClick={() => setIsModalOpen(true)}
+            className="flex-1"
+            disabled={userBalance === 0}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Send PXL
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => setIsRequestModalOpen(true)}
+            className="flex-1"
+          >
+            <Receipt className="h-4 w-4 mr-2" />
+            Request PXL
+          </Button>
+        </div>
+
+        {/* Requests waiting on this user */}
+        {incomingRequestIds.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-white mb-3">Requests for You</h3>
+            <div className="space-y-2">
+              {incomingRequestIds.map(requestId => (
+                <PaymentRequestCard key={requestId} requestId={requestId} />
+              ))}
+            </div>
+          </div>
+        )}
 
         {/* Recent Transfers */}
         <div>
@@ -183,7 +239,8 @@ export function PXLTransferSection() {
         {/* Info */}
         <div className="mt-4 text-xs text-gray-400 text-center">
           <p>Transfers are instant and free</p>
-          <p className="mt-1">Min: 1 PXL • Max: 10,000 PXL per transfer</p>
+          <p className="mt-1">Min: 1 PXL • Daily and monthly limits depend on your tier</p>
+          <p className="mt-1">Large transfers may be held briefly for review</p>
         </div>
       </section>
 
@@ -192,6 +249,12 @@ export function PXLTransferSection() {
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
       />
+
+      {/* Request Modal */}
+      <PXLRequestModal
+        isOpen={isRequestModalOpen}
+        onClose={() => setIsRequestModalOpen(false)}
+      />
     </>
   );
 }
\ No newline at end of file
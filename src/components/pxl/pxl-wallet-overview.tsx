@@ -33,6 +33,8 @@ export function PXLWalletOverview() {
     totalSpent: platformUser?.wallets?.pxl?.totalSpent || 0,
     totalSent: platformUser?.wallets?.pxl?.totalSent || 0,
     totalReceived: platformUser?.wallets?.pxl?.totalReceived || 0,
+    pendingCashback: platformUser?.wallets?.pxl?.pendingCashback || 0,
+    availableCashback: platformUser?.wallets?.pxl?.vestedCashback || 0,
   };
 
   const usdEquivalent = walletData.pxlBalance / walletData.currentExchangeRate;
@@ -89,6 +91,18 @@ export function PXLWalletOverview() {
                 PXL {formatBalance(walletData.totalSpent)}
               </p>
             </div>
+            <div>
+              <p className="text-xs text-gray-400">Pending Cashback</p>
+              <p className="text-sm font-medium text-yellow-400">
+                PXL {formatBalance(walletData.pendingCashback)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-400">Available Cashback</p>
+              <p className="text-sm font-medium text-green-400">
+                PXL {formatBalance(walletData.availableCashback)}
+              </p>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,50 @@
+"use client";
+
+import * as React from "react";
+import { Lock, RefreshCw, AlertCircle } from "lucide-react";
+
+interface QuoteLockTimerProps {
+  secondsLeft: number;
+  expired: boolean;
+  loading: boolean;
+  error?: string | null;
+  onRefresh: () => void;
+}
+
+/**
+ * Remaining time on a rate-lock quote, with a refresh once it lapses
+ */
+export function QuoteLockTimer({ secondsLeft, expired, loading, error, onRefresh }: QuoteLockTimerProps) {
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = String(secondsLeft % 60).padStart(2, "0");
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-xs text-gray-400">
+        <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+        Locking rate...
+      </div>
+    );
+  }
+
+  if (error || expired) {
+    return (
+      <div className="flex items-center justify-between text-xs text-yellow-400">
+        <span className="flex items-center">
+          <AlertCircle className="h-3 w-3 mr-1" />
+          {error ? "Could not lock the rate" : "Rate lock expired"}
+        </span>
+        <button onClick={onRefresh} className="underline hover:text-yellow-300">
+          Refresh quote
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex items-center text-xs ${secondsLeft <= 15 ? "text-yellow-400" : "text-green-400"}`}>
+      <Lock className="h-3 w-3 mr-1" />
+      Rate locked for {minutes}:{seconds}
+    </div>
+  );
+}
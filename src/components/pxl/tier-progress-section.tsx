@@ -3,13 +3,16 @@
 import * as React from "react";
 import { Star, Zap, Crown, Trophy, Gem, CheckCircle } from "lucide-react";
 import { useAuth } from "@/contexts/auth-context";
-import { TIER_THRESHOLDS, DEFAULT_TIER_BENEFITS } from "@/lib/pxl-currency";
+import { usePXLCurrency } from "@/hooks/use-pxl-currency";
+import { resolveTierRules } from "@/services/tier-service";
+import { DEFAULT_TIER_BENEFITS } from "@/lib/pxl-currency";
 
 /**
  * Tier progression section showing current tier, progress, and benefits
  */
 export function TierProgressSection() {
   const { platformUser, loading } = useAuth();
+  const { currencyData } = usePXLCurrency();
   
   // Show loading state
   if (loading) {
@@ -37,11 +40,13 @@ export function TierProgressSection() {
     }
   };
 
+  const tierRules = resolveTierRules(currencyData?.tierConfig);
+
   const tiers = [
     {
       id: "starter",
       name: "Starter",
-      threshold: TIER_THRESHOLDS.starter,
+      threshold: tierRules.rules.starter.minBalance,
       icon: Star,
       color: "text-gray-400",
       bgColor: "bg-gray-800",
@@ -51,7 +56,7 @@ export function TierProgressSection() {
     {
       id: "rising",
       name: "Rising",
-      threshold: TIER_THRESHOLDS.rising,
+      threshold: tierRules.rules.rising.minBalance,
       icon: Zap,
       color: "text-blue-400",
       bgColor: "bg-blue-500/20",
@@ -61,7 +66,7 @@ export function TierProgressSection() {
     {
       id: "pro",
       name: "Pro",
-      threshold: TIER_THRESHOLDS.pro,
+      threshold: tierRules.rules.pro.minBalance,
       icon: Crown,
       color: "text-green-400",
       bgColor: "bg-green-500/20",
@@ -71,7 +76,7 @@ export function TierProgressSection() {
     {
       id: "pixlbeast",
       name: "Pixlbeast",
-      threshold: TIER_THRESHOLDS.pixlbeast,
+      threshold: tierRules.rules.pixlbeast.minBalance,
       icon: Trophy,
       color: "text-yellow-400",
       bgColor: "bg-yellow-500/20",
@@ -81,7 +86,7 @@ export function TierProgressSection() {
     {
       id: "pixlionaire",
       name: "Pixlionaire",
-      threshold: TIER_THRESHOLDS.pixlionaire,
+      threshold: tierRules.rules.pixlionaire.minBalance,
       icon: Gem,
       color: "text-purple-400",
       bgColor: "bg-purple-500/20",
@@ -3,6 +3,7 @@
 import * as React from "react";
 import { Button } from "@/components/ui/button";
 import { LoadingDots } from "@/components/ui/loader";
+import { UpcomingTransfers } from "@/components/pxl/upcoming-transfers";
 import { 
   ArrowUpRight, 
   ArrowDownLeft, 
@@ -23,12 +24,13 @@ import { collection, query, where, orderBy, limit, onSnapshot, Timestamp, QueryS
 
 interface Transaction {
   id: string;
-  type: "giftcard-purchase" | "pxl-purchase" | "pxl-transfer-sent" | "pxl-transfer-received" | "cashback" | "tier-bonus";
+  type: "giftcard-purchase" | "giftcard-refund" | "pxl-purchase" | "pxl-transfer-sent" | "pxl-transfer-received" | "cashback" | "cashback-clawback" | "tier-bonus";
   amount: number;
   currency: "PXL" | "USD";
   description: string;
   timestamp: Timestamp;
-  status: "completed" | "pending" | "failed";
+  // Reversed cashback was clawed back before or after it vested
+  status: "completed" | "pending" | "failed" | "reversed";
   metadata?: {
     recipient?: string;
     sender?: string;
@@ -41,7 +43,7 @@ interface Transaction {
  * Transaction History component showing all PXL-related transactions
  */
 export function TransactionHistory() {
-  const { user } = useAuth();
+  const { user, platformUser } = useAuth();
   const [filter, setFilter] = React.useState<"all" | "purchases" | "transfers" | "rewards">("all");
   const [showAll, setShowAll] = React.useState(false);
   const [transactions, setTransactions] = React.useState<Transaction[]>([]);
@@ -86,7 +88,15 @@ export function TransactionHistory() {
             metadata.giftcard = data.giftcard?.brand;
             break;
           case 'cashback':
-            description = 'Cashback reward';
+            description = data.status === 'pending' && data.cashback?.vestsAt
+              ? `Cashback reward, available ${data.cashback.vestsAt.toDate().toLocaleDateString('en-US')}`
+              : data.status === 'reversed' ? 'Cashback reward (reversed)' : 'Cashback reward';
+            break;
+          case 'cashback-clawback':
+            description = 'Cashback clawed back';
+            break;
+          case 'giftcard-refund':
+            description = 'Giftcard order refund';
             break;
           case 'tier-bonus':
             description = 'Tier progression bonus';
@@ -157,7 +167,10 @@ export function TransactionHistory() {
       case "pxl-transfer-received":
         return ArrowDownLeft;
       case "cashback":
+      case "cashback-clawback":
         return Zap;
+      case "giftcard-refund":
+        return RefreshCcw;
       case "tier-bonus":
         return Star;
       default:
@@ -169,10 +182,12 @@ export function TransactionHistory() {
     switch (type) {
       case "pxl-transfer-sent":
       case "giftcard-purchase":
+      case "cashback-clawback":
         return "text-red-400";
       case "pxl-transfer-received":
       case "pxl-purchase":
       case "cashback":
+      case "giftcard-refund":
       case "tier-bonus":
         return "text-green-400";
       default:
@@ -187,7 +202,7 @@ export function TransactionHistory() {
     switch (filter) {
       case "purchases":
         return transactions.filter(tx => 
-          tx.type === "giftcard-purchase" || tx.type === "pxl-purchase"
+          tx.type === "giftcard-purchase" || tx.type === "giftcard-refund" || tx.type === "pxl-purchase"
         );
       case "transfers":
         return transactions.filter(tx => 
@@ -195,7 +210,7 @@ export function TransactionHistory() {
         );
       case "rewards":
         return transactions.filter(tx => 
-          tx.type === "cashback" || tx.type === "tier-bonus"
+          tx.type === "cashback" || tx.type === "cashback-clawback" || tx.type === "tier-bonus"
         );
       default:
         return transactions;
@@ -276,6 +291,25 @@ export function TransactionHistory() {
         </div>
       </div>
 
+      {/* Cashback is pending during its hold period, then vests into the balance */}
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className="p-3 bg-gray-900 rounded-lg">
+          <p className="text-xs text-gray-400">Pending Cashback</p>
+          <p className="font-medium text-yellow-400">
+            {formatPXL(platformUser?.wallets?.pxl?.pendingCashback || 0)}
+          </p>
+        </div>
+        <div className="p-3 bg-gray-900 rounded-lg">
+          <p className="text-xs text-gray-400">Available Cashback</p>
+          <p className="font-medium text-green-400">
+            {formatPXL(platformUser?.wallets?.pxl?.vestedCashback || 0)}
+          </p>
+        </div>
+      </div>
+
+      {/* Scheduled and recurring transfers */}
+      <UpcomingTransfers />
+
       {/* Transaction List */}
       <div className="space-y-3">
         {displayedTransactions.length === 0 ? (
@@ -313,13 +347,18 @@ export function TransactionHistory() {
                 
                 <div className="text-right">
                   <p className={`font-medium ${
-                    isNegative ? "text-red-400" : "text-green-400"
+                    transaction.status === "reversed"
+                      ? "text-gray-500 line-through"
+                      : isNegative ? "text-red-400" : "text-green-400"
                   }`}>
                     {isNegative ? "-" : "+"}{formatPXL(Math.abs(transaction.amount))}
                   </p>
                   {transaction.status === "pending" && (
                     <p className="text-xs text-yellow-400">Pending</p>
                   )}
+                  {transaction.status === "reversed" && (
+                    <p className="text-xs text-gray-500">Reversed</p>
+                  )}
                 </div>
               </div>
             );
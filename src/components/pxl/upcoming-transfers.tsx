@@ -0,0 +1,213 @@
+"use client";
+
+import * as React from "react";
+import { collection, query, where, orderBy, onSnapshot, Timestamp } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { CalendarClock, Pencil, Repeat, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/auth-context";
+import { db, functions } from "@/lib/firebase-config";
+import { formatPXL } from "@/lib/pxl-currency";
+
+interface ScheduledTransfer {
+  id: string;
+  recipientUsername: string;
+  amount: number;
+  message: string | null;
+  frequency: "once" | "weekly" | "monthly";
+  nextRunAt: Timestamp;
+  attempt: number;
+  lastRun: {
+    status: string;
+    error: string | null;
+  } | null;
+}
+
+interface ScheduledTransferUpdate {
+  scheduledTransferId: string;
+  amount?: number;
+  runAt?: number;
+}
+
+const FREQUENCY_LABELS: Record<ScheduledTransfer["frequency"], string> = {
+  once: "One-time",
+  weekly: "Every week",
+  monthly: "Every month",
+};
+
+// datetime-local inputs work in local time without a timezone suffix
+const toDateTimeInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+/**
+ * Upcoming scheduled and recurring transfers with inline edit and cancel
+ */
+export function UpcomingTransfers() {
+  const { user } = useAuth();
+  const [scheduled, setScheduled] = React.useState<ScheduledTransfer[]>([]);
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [editAmount, setEditAmount] = React.useState("");
+  const [editRunAt, setEditRunAt] = React.useState("");
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+  const [error, setError] = React.useState("");
+
+  React.useEffect(() => {
+    if (!user) return;
+
+    const scheduledQuery = query(
+      collection(db, "scheduled-transfers"),
+      where("senderUserId", "==", user.uid),
+      where("status", "in", ["active", "running"]),
+      orderBy("nextRunAt", "asc")
+    );
+
+    const unsubscribe = onSnapshot(
+      scheduledQuery,
+      (snapshot) => {
+        setScheduled(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ScheduledTransfer)));
+      },
+      (err) => {
+        console.error("Error loading scheduled transfers:", err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  const startEditing = (transfer: ScheduledTransfer) => {
+    setEditingId(transfer.id);
+    setEditAmount(transfer.amount.toString());
+    setEditRunAt(toDateTimeInput(transfer.nextRunAt.toDate()));
+    setError("");
+  };
+
+  const handleSave = async (transfer: ScheduledTransfer) => {
+    const amount = parseFloat(editAmount);
+    const runAt = new Date(editRunAt).getTime();
+
+    if (!amount || amount <= 0 || Number.isNaN(runAt)) {
+      setError("Please enter a valid amount and date");
+      return;
+    }
+
+    setBusyId(transfer.id);
+    setError("");
+
+    try {
+      const updateScheduledTransfer = httpsCallable<ScheduledTransferUpdate>(functions, "updateScheduledTransfer");
+      await updateScheduledTransfer({
+        scheduledTransferId: transfer.id,
+        amount,
+        // Only reschedule when the date was actually changed
+        ...(editRunAt !== toDateTimeInput(transfer.nextRunAt.toDate()) ? { runAt } : {}),
+      });
+      setEditingId(null);
+    } catch (err: any) {
+      setError(err.message || "Failed to update scheduled transfer");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = async (transfer: ScheduledTransfer) => {
+    setBusyId(transfer.id);
+    setError("");
+
+    try {
+      const cancelScheduledTransfer = httpsCallable(functions, "cancelScheduledTransfer");
+      await cancelScheduledTransfer({ scheduledTransferId: transfer.id });
+    } catch (err: any) {
+      setError(err.message || "Failed to cancel scheduled transfer");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (scheduled.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-sm font-medium text-gray-300 mb-2">Upcoming Transfers</h3>
+
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+
+      <div className="space-y-2">
+        {scheduled.map((transfer) => (
+          <div key={transfer.id} className="p-3 bg-gray-900 rounded-lg">
+            {editingId === transfer.id ? (
+              <div className="space-y-2">
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    min="1"
+                    value={editAmount}
+                    onChange={(e) => setEditAmount(e.target.value)}
+                    className="w-28 bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-sm text-white"
+                    aria-label="Amount"
+                  />
+                  <input
+                    type="datetime-local"
+                    value={editRunAt}
+                    onChange={(e) => setEditRunAt(e.target.value)}
+                    className="flex-1 bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-sm text-white"
+                    aria-label="Next transfer date"
+                  />
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button variant="secondary" size="sm" onClick={() => setEditingId(null)} disabled={busyId === transfer.id}>
+                    Discard
+                  </Button>
+                  <Button size="sm" onClick={() => handleSave(transfer)} disabled={busyId === transfer.id}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-gray-800 text-blue-400">
+                    {transfer.frequency === "once" ? <CalendarClock className="h-5 w-5" /> : <Repeat className="h-5 w-5" />}
+                  </div>
+                  <div>
+                    <p className="font-medium text-white">
+                      {formatPXL(transfer.amount)} to {transfer.recipientUsername}
+                    </p>
+                    <p className="text-sm text-gray-400 mt-0.5">
+                      {FREQUENCY_LABELS[transfer.frequency]} · {transfer.nextRunAt.toDate().toLocaleString("en-US")}
+                    </p>
+                    {transfer.attempt > 0 && transfer.lastRun?.error && (
+                      <p className="text-xs text-yellow-400 mt-0.5">
+                        Retrying: {transfer.lastRun.error}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => startEditing(transfer)}
+                    disabled={busyId === transfer.id}
+                    className="p-2 text-gray-400 hover:text-white"
+                    aria-label="Edit scheduled transfer"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleCancel(transfer)}
+                    disabled={busyId === transfer.id}
+                    className="p-2 text-gray-400 hover:text-red-400"
+                    aria-label="Cancel scheduled transfer"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -13,8 +13,8 @@ import {
   sendPasswordResetEmail
 } from 'firebase/auth';
 import { doc, getDoc, setDoc, updateDoc, Timestamp } from 'firebase/firestore';
+import { AdminPermission, AdminRole, isAdminRole, roleHasPermission } from '@/services/admin-role-service';
 import { auth, db, googleProvider, facebookProvider, appleProvider } from '@/lib/firebase-config';
-import { calculateTier } from '@/lib/pxl-currency';
 
 // User profile interface based on PRD requirements
 export interface UserProfile {
@@ -35,6 +35,19 @@ export interface UserTier {
   current: 'starter' | 'rising' | 'pro' | 'pixlbeast' | 'pixlionaire';
   pxlBalance: number;             // Current PXL balance
   nextTierThreshold?: number;     // PXL needed for next tier
+  qualifiedTier?: UserTier['current']; // Tier the rules give, before grace or override
+  graceUntil?: any;               // Firestore Timestamp, set while keeping a tier after dropping below it
+  override?: {
+    tier: UserTier['current'];
+    expiresAt: any;               // Firestore Timestamp
+    reason: string;
+    setBy: string;
+  } | null;
+  metrics?: {
+    balance: number;
+    spend90d: number;
+    lifetimeEarned: number;
+  };
   tierBenefits: any;
   progressHistory: any[];
 }
@@ -47,6 +60,8 @@ export interface UserWallets {
     totalSpent: number;           // Total PXL spent on giftcards
     totalSent: number;            // Total PXL sent to other users
     totalReceived: number;        // Total PXL received from other users
+    pendingCashback?: number;     // Cashback still in its hold period
+    vestedCashback?: number;      // Cashback vested into the balance, net of clawbacks
   };
   usd: {
     balance: number;              // Store credit balance
@@ -73,6 +88,8 @@ interface AuthContextType {
   platformUser: PlatformUser | null;
   loading: boolean;
   isAdmin: boolean;
+  adminRole: AdminRole | null;
+  hasPermission: (permission: AdminPermission) => boolean;
   signUp: (email: string, password: string) => Promise<User>;
   signIn: (email: string, password: string) => Promise<User>;
   signInWithGoogle: () => Promise<User>;
@@ -95,14 +112,26 @@ export function useAuth() {
   return context;
 }
 
-// Admin email list - in production, this should come from Firestore admin-users collection
-const ADMIN_EMAILS = ['coco1@sample.com'];
-
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [platformUser, setPlatformUser] = useState<PlatformUser | null>(null);
   const [loading, setLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [adminRole, setAdminRole] = useState<AdminRole | null>(null);
+  const isAdmin = !!adminRole;
+
+  // Admin roles are custom claims, so they come from the ID token rather than Firestore
+  const loadAdminRole = async (firebaseUser: User, forceRefresh = false) => {
+    try {
+      const tokenResult = await firebaseUser.getIdTokenResult(forceRefresh);
+      const role = tokenResult.claims.adminRole;
+      setAdminRole(isAdminRole(role) ? role : null);
+    } catch (error) {
+      console.error('Error loading admin role:', error);
+      setAdminRole(null);
+    }
+  };
+
+  const hasPermission = (permission: AdminPermission): boolean => roleHasPermission(adminRole, permission);
 
   // Load platform user data from Firestore
   const loadPlatformUser = async (firebaseUser: User) => {
@@ -111,42 +140,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       if (userDoc.exists()) {
         const userData = userDoc.data() as PlatformUser;
         
-        // Recalculate tier based on actual PXL balance
-        const currentBalance = userData.wallets?.pxl?.balance || 0;
-        const correctTier = calculateTier(currentBalance);
-        
-        // If tier is incorrect, update it
-        const currentTier = typeof userData.tier === 'object' ? userData.tier?.current : userData.tier;
-        if (currentTier !== correctTier) {
-          console.log(`Tier mismatch detected. Current: ${currentTier}, Should be: ${correctTier}`);
-          
-          // Update in Firestore
-          await updateDoc(doc(db, 'users', firebaseUser.uid), {
-            'tier.current': correctTier,
-            'tier.pxlBalance': currentBalance,
-            'timestamps.updated': Timestamp.now()
-          });
-          
-          // Update local data
-          if (typeof userData.tier === 'object') {
-            userData.tier.current = correctTier;
-            userData.tier.pxlBalance = currentBalance;
-          } else {
-            userData.tier = {
-              current: correctTier,
-              pxlBalance: currentBalance
-            };
-          }
-        }
-        
         setPlatformUser(userData);
-        
-        // Check if user is admin
-        setIsAdmin(ADMIN_EMAILS.includes(userData.email));
       } else {
         // User exists in Firebase Auth but not in Firestore - needs profile setup
         setPlatformUser(null);
-        setIsAdmin(false);
       }
     } catch (error) {
       console.error('Error loading platform user:', error);
@@ -160,10 +157,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setUser(firebaseUser);
       
       if (firebaseUser) {
-        await loadPlatformUser(firebaseUser);
+        await Promise.all([loadPlatformUser(firebaseUser), loadAdminRole(firebaseUser)]);
       } else {
         setPlatformUser(null);
-        setIsAdmin(false);
+        setAdminRole(null);
       }
       
       setLoading(false);
@@ -209,7 +206,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   // Logout
   const logout = async (): Promise<void> => {
     await signOut(auth);
-    setIsAdmin(false);
+    setAdminRole(null);
   };
 
   // Reset password
@@ -217,10 +214,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await sendPasswordResetEmail(auth, email);
   };
   
-  // Refresh user data from Firestore
+  // Refresh user data from Firestore, and the admin role from a fresh token
   const refreshUserData = async (): Promise<void> => {
     if (user) {
-      await loadPlatformUser(user);
+      await Promise.all([loadPlatformUser(user), loadAdminRole(user, true)]);
     }
   };
 
@@ -324,6 +321,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     platformUser,
     loading,
     isAdmin,
+    adminRole,
+    hasPermission,
     signUp,
     signIn,
     signInWithGoogle,
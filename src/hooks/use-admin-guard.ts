@@ -0,0 +1,29 @@
+/**
+ * React hook guarding admin console pages by permission
+ */
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/auth-context';
+import { AdminPermission } from '@/services/admin-role-service';
+
+/**
+ * Allow the page for admins whose role grants `permission`
+ * Pass null to allow any admin. Non-admins are sent home and admins without the
+ * permission back to the dashboard.
+ */
+export function useAdminGuard(permission: AdminPermission | null) {
+  const { user, loading, isAdmin, hasPermission } = useAuth();
+  const router = useRouter();
+
+  const allowed = !!user && isAdmin && (!permission || hasPermission(permission));
+
+  useEffect(() => {
+    if (loading || allowed) {
+      return;
+    }
+    router.replace(user && isAdmin ? '/admin' : '/');
+  }, [loading, allowed, user, isAdmin, router]);
+
+  return { allowed, loading };
+}
@@ -57,33 +57,23 @@ export function usePXLCurrency() {
 
   // Calculate PXL amount for USD conversion
   const calculatePXLAmount = useCallback((usdAmount: number) => {
-    const userTier = platformUser?.tier.current || 'starter';
+    const userTier = platformUser?.tier?.current || 'starter';
     return pxlCurrencyService.calculatePXLPurchase(usdAmount, userTier);
-  }, [platformUser?.tier.current]);
+  }, [platformUser?.tier?.current]);
 
   // Calculate discounted price for giftcard purchase
   const calculateGiftcardPrice = useCallback((originalPrice: number) => {
-    const userTier = platformUser?.tier.current || 'starter';
+    const userTier = platformUser?.tier?.current || 'starter';
     return pxlCurrencyService.calculateGiftcardPrice(originalPrice, userTier);
-  }, [platformUser?.tier.current]);
+  }, [platformUser?.tier?.current]);
 
   // Process PXL purchase
-  const processPXLPurchase = useCallback(async (
-    usdAmount: number,
-    paymentMethod: string,
-    paymentId: string
-  ) => {
+  const processPXLPurchase = useCallback(async (purchaseId: string, paymentId: string) => {
     if (!platformUser) {
       throw new Error('User not authenticated');
     }
 
-    return pxlCurrencyService.processPXLPurchase(
-      platformUser.uid,
-      usdAmount,
-      platformUser.tier.current,
-      paymentMethod,
-      paymentId
-    );
+    return pxlCurrencyService.processPXLPurchase(purchaseId, paymentId);
   }, [platformUser]);
 
   // Provide default values when currency data is not available
@@ -101,11 +91,11 @@ export function usePXLCurrency() {
     volatility: currencyData?.marketData?.volatility || 0,
     
     // User tier benefits
-    userTier: platformUser?.tier.current || 'starter',
-    tierBenefits: currencyData?.tierMultipliers?.[platformUser?.tier.current || 'starter'] || 
-                  (platformUser?.tier.current ? DEFAULT_TIER_BENEFITS[platformUser.tier.current] : defaultTierBenefits),
-    purchaseDiscount: currencyData?.purchaseDiscounts?.[platformUser?.tier.current || 'starter'] || 
-                      (platformUser?.tier.current ? PURCHASE_DISCOUNTS[platformUser.tier.current] : 0),
+    userTier: platformUser?.tier?.current || 'starter',
+    tierBenefits: currencyData?.tierMultipliers?.[platformUser?.tier?.current || 'starter'] || 
+                  (platformUser?.tier?.current ? DEFAULT_TIER_BENEFITS[platformUser.tier.current] : defaultTierBenefits),
+    purchaseDiscount: currencyData?.purchaseDiscounts?.[platformUser?.tier?.current || 'starter'] || 
+                      (platformUser?.tier?.current ? PURCHASE_DISCOUNTS[platformUser.tier.current] : 0),
     
     // State
     loading: loading && !currencyData, // Don't show loading if we have cached data
@@ -0,0 +1,75 @@
+/**
+ * React hook for holding a rate-lock quote and counting down its lock
+ */
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { Quote } from '@/services/quote-service';
+
+/**
+ * Fetch a quote whenever `key` changes and track how long it stays locked
+ * Pass a null key when there is nothing to quote yet
+ */
+export function useQuote<T extends Quote>(key: string | null, fetchQuote: () => Promise<T>) {
+  const [quote, setQuote] = useState<T | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const fetchRef = useRef(fetchQuote);
+  const requestRef = useRef(0);
+
+  fetchRef.current = fetchQuote;
+
+  const refresh = useCallback(async () => {
+    const request = ++requestRef.current;
+
+    if (!key) {
+      setQuote(null);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const next = await fetchRef.current();
+      // A newer key may have been quoted while this request was in flight
+      if (request === requestRef.current) {
+        setQuote(next);
+        setNow(Date.now());
+      }
+    } catch (err) {
+      console.error('Failed to fetch quote:', err);
+      if (request === requestRef.current) {
+        setQuote(null);
+        setError(err instanceof Error ? err.message : 'Failed to lock the rate');
+      }
+    } finally {
+      if (request === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [key]);
+
+  // Debounced so typing an amount does not request a quote per keystroke
+  useEffect(() => {
+    const timer = setTimeout(refresh, 400);
+    return () => clearTimeout(timer);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!quote) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [quote]);
+
+  const secondsLeft = quote ? Math.max(0, Math.ceil((quote.expiresAt - now) / 1000)) : 0;
+
+  return {
+    quote,
+    loading,
+    error,
+    secondsLeft,
+    expired: !!quote && secondsLeft === 0,
+    refresh,
+  };
+}
@@ -1,5 +1,6 @@
 import * as admin from 'firebase-admin';
 import { NextRequest } from 'next/server';
+import { AdminPermission, AdminRole, isAdminRole, roleHasPermission } from '@/services/admin-role-service';
 
 // Initialize Firebase Admin SDK
 let firebaseAdminInitialized = false;
@@ -95,4 +96,57 @@ export async function getAuthenticatedUser(request: NextRequest): Promise<{ uid:
     uid: decodedToken.uid,
     email: decodedToken.email
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Get the authenticated admin from a request if their role grants a permission
+ * The role is the adminRole custom claim, so it comes from the verified token.
+ */
+export async function getAuthenticatedAdmin(
+  request: NextRequest,
+  permission: AdminPermission
+): Promise<{ uid: string; email?: string; role: AdminRole } | null> {
+  const decodedToken = await verifyAuthToken(request);
+  const role = decodedToken?.adminRole;
+  if (!decodedToken || !isAdminRole(role) || !roleHasPermission(role, permission)) {
+    return null;
+  }
+
+  return {
+    uid: decodedToken.uid,
+    email: decodedToken.email,
+    role
+  };
+}
+
+/**
+ * Call an HTTPS callable Cloud Function on behalf of the requesting user.
+ * The caller's Firebase ID token is forwarded so the function sees the same auth context.
+ */
+export async function callCloudFunction<T = unknown>(
+  request: NextRequest,
+  name: string,
+  data: Record<string, unknown>
+): Promise<T> {
+  const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'pxl-perfect-1';
+  const region = process.env.FIREBASE_FUNCTIONS_REGION || 'us-central1';
+  const baseUrl = process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATOR === 'true'
+    ? `http://localhost:5001/${projectId}/${region}`
+    : `https://${region}-${projectId}.cloudfunctions.net`;
+
+  const response = await fetch(`${baseUrl}/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': request.headers.get('authorization') || '',
+    },
+    body: JSON.stringify({ data }),
+  });
+
+  const payload = await response.json();
+  if (!response.ok || payload.error) {
+    throw new Error(payload.error?.message || `Cloud Function ${name} failed`);
+  }
+
+  return payload.result as T;
+}
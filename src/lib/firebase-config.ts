@@ -4,6 +4,7 @@ import { getAuth, GoogleAuthProvider, FacebookAuthProvider, OAuthProvider, conne
 import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
 import { getStorage, connectStorageEmulator } from 'firebase/storage';
 import { getDatabase, connectDatabaseEmulator } from 'firebase/database';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
 
 // Firebase configuration object
 // Note: These are placeholder values - replace with actual Firebase project config
@@ -31,6 +32,7 @@ export const auth = getAuth(app);
 export const db = getFirestore(app);
 export const storage = getStorage(app);
 export const database = getDatabase(app);
+export const functions = getFunctions(app);
 
 // BUG FIX: 2025-01-30 - Enable auth persistence to maintain login state
 // Problem: Auth tokens not persisting properly causing permission errors
@@ -122,6 +124,9 @@ if (typeof window !== 'undefined' && process.env.NODE_ENV === 'development') {
         connectDatabaseEmulator(database, 'localhost', 9000);
       }
       
+      // Connect to Functions emulator
+      connectFunctionsEmulator(functions, 'localhost', 5001);
+      
       console.log('🔧 Connected to Firebase emulators');
     } catch {
       console.log('⚠️ Firebase emulators already connected or not available');
@@ -0,0 +1,211 @@
+/**
+ * Admin Approval Service
+ * Sensitive admin changes are proposed here and applied by Cloud Functions
+ * only after a second admin approves them (maker-checker)
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { collection, getDocs, limit, orderBy, query, where, Timestamp } from 'firebase/firestore';
+import { db, functions } from '@/lib/firebase-config';
+import { AdminPermission } from '@/services/admin-role-service';
+import { NewGiftcardCode } from '@/services/giftcard-vault-service';
+import { RateModelConfig } from '@/services/rate-engine-service';
+import { TierName } from '@/services/tier-service';
+
+// Matches the per-proposal limit of the giftcard-codes change
+const MAX_CODES_PER_PROPOSAL = 400;
+const LIST_LIMIT = 100;
+
+export type AdminChangeType = 'exchange-rate' | 'rate-model' | 'tier-override' | 'balance-adjustment' | 'giftcard-codes' | 'catalog-import';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'failed';
+
+export const ADMIN_CHANGE_LABELS: Record<AdminChangeType, string> = {
+  'exchange-rate': 'Exchange rate',
+  'rate-model': 'Rate model',
+  'tier-override': 'Tier override',
+  'balance-adjustment': 'Balance adjustment',
+  'giftcard-codes': 'Giftcard codes',
+  'catalog-import': 'Catalog import',
+};
+
+export interface DiffLine {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface AdminApproval {
+  id: string;
+  type: AdminChangeType;
+  // Permission needed to approve the change
+  permission: AdminPermission;
+  target: string;
+  diff: DiffLine[];
+  reason: string;
+  status: ApprovalStatus;
+  proposedBy: string;
+  proposedByEmail: string | null;
+  proposedAt: Timestamp;
+  expiresAt: Timestamp;
+  reviewedBy: string | null;
+  reviewedAt: Timestamp | null;
+  reviewNote: string | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  // admin-actions entries for the proposal, decision and applied change
+  auditActionIds: string[];
+}
+
+export interface ProposalResult {
+  approvalId: string;
+  status: ApprovalStatus;
+  target: string;
+  diff: DiffLine[];
+  expiresAt: number;
+}
+
+export interface ProposalOptions {
+  // Hours the proposal stays open for review; defaults to 24
+  expiresInHours?: number;
+}
+
+async function propose(
+  type: AdminChangeType,
+  payload: Record<string, unknown>,
+  reason: string,
+  options: ProposalOptions = {}
+): Promise<ProposalResult> {
+  const callable = httpsCallable<
+    { type: AdminChangeType; payload: Record<string, unknown>; reason: string; expiresInHours?: number },
+    ProposalResult
+  >(functions, 'proposeAdminChange');
+  const result = await callable({ type, payload, reason, ...options });
+  return result.data;
+}
+
+/**
+ * Propose a new PXL exchange rate (finance:write)
+ */
+export function proposeExchangeRate(newRate: number, reason: string, options?: ProposalOptions): Promise<ProposalResult> {
+  return propose('exchange-rate', { newRate }, reason, options);
+}
+
+/**
+ * Propose a new exchange-rate model or new parameters for the active one (finance:write)
+ * Approving it also lifts a circuit-breaker halt
+ */
+export function proposeRateModel(model: RateModelConfig, reason: string, options?: ProposalOptions): Promise<ProposalResult> {
+  return propose('rate-model', { model }, reason, options);
+}
+
+/**
+ * Propose pinning a user to a tier until expiresAt (epoch ms), or pass null to clear the pin (users:write)
+ */
+export function proposeTierOverride(
+  userId: string,
+  tier: TierName | null,
+  expiresAt: number | null,
+  reason: string,
+  options?: ProposalOptions
+): Promise<ProposalResult> {
+  return propose('tier-override', { userId, tier, expiresAt }, reason, options);
+}
+
+/**
+ * Propose crediting (positive) or debiting (negative) a user's PXL balance (finance:write)
+ */
+export function proposeBalanceAdjustment(
+  userId: string,
+  amount: number,
+  reason: string,
+  options?: ProposalOptions
+): Promise<ProposalResult> {
+  return propose('balance-adjustment', { userId, amount }, reason, options);
+}
+
+async function proposeCodeBatches(
+  payload: { productId: string; denomination: number; purchaseOrderId?: string },
+  codes: Array<string | NewGiftcardCode>,
+  reason: string,
+  options?: ProposalOptions
+): Promise<ProposalResult[]> {
+  const proposals: ProposalResult[] = [];
+
+  for (let i = 0; i < codes.length; i += MAX_CODES_PER_PROPOSAL) {
+    proposals.push(await propose(
+      'giftcard-codes',
+      { ...payload, codes: codes.slice(i, i + MAX_CODES_PER_PROPOSAL) },
+      reason,
+      options
+    ));
+  }
+
+  return proposals;
+}
+
+/**
+ * Propose adding codes to a denomination's stock (catalog:write)
+ * Codes are sealed when proposed; large uploads become one proposal per chunk
+ */
+export function proposeGiftcardCodes(
+  productId: string,
+  denomination: number,
+  codes: Array<string | NewGiftcardCode>,
+  reason: string,
+  options?: ProposalOptions
+): Promise<ProposalResult[]> {
+  return proposeCodeBatches({ productId, denomination }, codes, reason, options);
+}
+
+/**
+ * Propose stocking a batch delivered against a purchase order line (catalog:write)
+ * The order's line is credited with the codes added once approved
+ */
+export function proposePurchaseOrderReceipt(
+  purchaseOrderId: string,
+  productId: string,
+  denomination: number,
+  codes: Array<string | NewGiftcardCode>,
+  reason: string,
+  options?: ProposalOptions
+): Promise<ProposalResult[]> {
+  return proposeCodeBatches({ productId, denomination, purchaseOrderId }, codes, reason, options);
+}
+
+/**
+ * Propose applying a catalog import that passed its dry-run (catalog:write)
+ * The approver must be someone other than the admin who uploaded the file
+ */
+export function proposeCatalogImport(jobId: string, reason: string, options?: ProposalOptions): Promise<ProposalResult> {
+  return propose('catalog-import', { jobId }, reason, options);
+}
+
+/**
+ * Approve (and apply) or reject a pending change
+ * Approvers must hold the change's permission and differ from the proposer
+ */
+export async function reviewAdminChange(
+  approvalId: string,
+  decision: 'approve' | 'reject',
+  note?: string
+): Promise<{ approvalId: string; status: ApprovalStatus; result?: Record<string, unknown> }> {
+  const callable = httpsCallable<
+    { approvalId: string; decision: 'approve' | 'reject'; note?: string },
+    { approvalId: string; status: ApprovalStatus; result?: Record<string, unknown> }
+  >(functions, 'reviewAdminChange');
+  const result = await callable({ approvalId, decision, note });
+  return result.data;
+}
+
+/**
+ * Most recent proposals, optionally with a single status
+ */
+export async function listAdminChanges(status?: ApprovalStatus): Promise<AdminApproval[]> {
+  const constraints = status
+    ? [where('status', '==', status), orderBy('proposedAt', 'desc'), limit(LIST_LIMIT)]
+    : [orderBy('proposedAt', 'desc'), limit(LIST_LIMIT)];
+  const snapshot = await getDocs(query(collection(db, 'admin-approvals'), ...constraints));
+
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AdminApproval));
+}
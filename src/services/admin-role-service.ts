@@ -0,0 +1,116 @@
+/**
+ * Admin Role Service
+ * An admin's role is the adminRole custom claim on their auth token; permissions
+ * are derived from the role. Mirrors functions/src/utils/admin-roles.ts and the
+ * table in firestore.rules, which are what actually enforce them.
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase-config';
+
+export type AdminRole = 'super-admin' | 'catalog-manager' | 'finance' | 'support-agent' | 'auditor';
+
+export type AdminPermission =
+  | 'catalog:read'
+  | 'catalog:write'
+  | 'giftcard-codes:reveal'
+  | 'orders:read'
+  | 'orders:write'
+  | 'finance:read'
+  | 'finance:write'
+  | 'users:read'
+  | 'users:write'
+  | 'support:read'
+  | 'support:write'
+  | 'audit:read'
+  | 'settings:read'
+  | 'settings:write'
+  | 'roles:manage';
+
+export const ADMIN_ROLES: AdminRole[] = ['super-admin', 'catalog-manager', 'finance', 'support-agent', 'auditor'];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  'super-admin': 'Super Admin',
+  'catalog-manager': 'Catalog Manager',
+  'finance': 'Finance',
+  'support-agent': 'Support Agent',
+  'auditor': 'Read-only Auditor',
+};
+
+export const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  'super-admin': [
+    'catalog:read', 'catalog:write', 'giftcard-codes:reveal',
+    'orders:read', 'orders:write', 'finance:read', 'finance:write',
+    'users:read', 'users:write', 'support:read', 'support:write',
+    'audit:read', 'settings:read', 'settings:write', 'roles:manage',
+  ],
+  'catalog-manager': ['catalog:read', 'catalog:write', 'orders:read'],
+  'finance': ['finance:read', 'finance:write', 'orders:read', 'orders:write', 'users:read', 'audit:read'],
+  'support-agent': ['support:read', 'support:write', 'users:read', 'orders:read'],
+  'auditor': ['catalog:read', 'orders:read', 'finance:read', 'users:read', 'support:read', 'audit:read', 'settings:read'],
+};
+
+// Permission needed to open each admin console page; the longest matching prefix wins
+export const ADMIN_ROUTE_PERMISSIONS: Record<string, AdminPermission | null> = {
+  '/admin': null,
+  '/admin/users': 'users:read',
+  '/admin/products': 'catalog:read',
+  '/admin/inventory': 'catalog:read',
+  '/admin/csv-import': 'catalog:write',
+  '/admin/csv-builder': 'catalog:write',
+  '/admin/artwork-logodev': 'catalog:write',
+  '/admin/suppliers': 'catalog:read',
+  '/admin/purchase-orders': 'catalog:read',
+  '/admin/settlements': 'finance:read',
+  '/admin/pxl-config': 'finance:read',
+  '/admin/support': 'support:read',
+  '/admin/security': 'audit:read',
+  '/admin/settings': 'settings:read',
+  // Each proposal is reviewed under its own permission
+  '/admin/approvals': null,
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as string[]).includes(value);
+}
+
+export function roleHasPermission(role: AdminRole | null, permission: AdminPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Permission an admin console path requires, or null when any admin may open it
+ */
+export function permissionForAdminPath(pathname: string): AdminPermission | null {
+  const match = Object.keys(ADMIN_ROUTE_PERMISSIONS)
+    .filter(route => pathname === route || pathname.startsWith(`${route}/`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? ADMIN_ROUTE_PERMISSIONS[match] : null;
+}
+
+/**
+ * Assign, change or remove a user's admin role (roles:manage)
+ * The user picks up the new role the next time their token refreshes
+ */
+export async function setAdminRole(
+  userId: string,
+  role: AdminRole | null,
+  reason: string
+): Promise<{ userId: string; role: AdminRole | null; previousRole: AdminRole | null }> {
+  const callable = httpsCallable<
+    { userId: string; role: AdminRole | null; reason: string },
+    { userId: string; role: AdminRole | null; previousRole: AdminRole | null }
+  >(functions, 'setAdminRole');
+  const result = await callable({ userId, role, reason });
+  return result.data;
+}
+
+/**
+ * Grant super-admin to the signed-in user if their email is a configured bootstrap admin
+ */
+export async function claimSuperAdmin(): Promise<{ role: AdminRole; duplicate: boolean }> {
+  const callable = httpsCallable<void, { role: AdminRole; duplicate: boolean }>(functions, 'claimSuperAdmin');
+  const result = await callable();
+  return result.data;
+}
@@ -0,0 +1,180 @@
+/**
+ * Catalog Import Service
+ * Bulk product imports run as jobs in Cloud Functions: the file is uploaded to
+ * Storage, dry-run against the catalog, then applied in chunks once a second
+ * catalog admin approves it (see proposeCatalogImport)
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { collection, doc, getDocs, limit, onSnapshot, orderBy, query, Timestamp } from 'firebase/firestore';
+import { ref, uploadBytes } from 'firebase/storage';
+import { db, functions, storage } from '@/lib/firebase-config';
+
+const LIST_LIMIT = 50;
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+export const IMPORT_FILE_TYPES = '.csv,.xlsx,.json';
+
+export const IMPORT_COLUMNS = [
+  'brand', 'name', 'description', 'category', 'featured', 'status', 'artwork',
+  'denominations', 'totalSold', 'createdAt', 'supplierId',
+];
+
+export type CatalogImportFormat = 'csv' | 'xlsx' | 'json';
+
+export type CatalogImportStatus =
+  | 'uploading'
+  | 'validating'
+  | 'validated'
+  | 'invalid'
+  | 'queued'
+  | 'applying'
+  | 'applied'
+  | 'failed'
+  | 'reverting'
+  | 'reverted';
+
+export interface ImportRowError {
+  // Line (CSV), sheet row (XLSX) or position (JSON); 0 for the file itself
+  row: number;
+  field: string | null;
+  message: string;
+}
+
+export interface ImportPreview {
+  row: number;
+  brand: string;
+  name: string;
+  category: string;
+  status: string;
+  denominations: Array<{ value: number; quantity: number }>;
+}
+
+export interface ImportSummary {
+  rows: number;
+  products: number;
+  codes: number;
+}
+
+export interface CatalogImportProgress {
+  appliedChunks: number;
+  totalChunks: number;
+  products: number;
+  codes: number;
+}
+
+export interface CatalogImport {
+  id: string;
+  fileName: string;
+  format: CatalogImportFormat;
+  status: CatalogImportStatus;
+  summary: ImportSummary | null;
+  // The first problems found, by row; errorCount has the total
+  errors: ImportRowError[];
+  errorCount: number;
+  preview: ImportPreview[];
+  progress: CatalogImportProgress;
+  createdBy: string;
+  createdAt: Timestamp;
+  validatedAt: Timestamp | null;
+  approvalId: string | null;
+  proposedBy: string | null;
+  approvedBy: string | null;
+  appliedAt: Timestamp | null;
+  revertedBy: string | null;
+  revertedAt: Timestamp | null;
+  revertReason: string | null;
+  failure: string | null;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Whether an import has anything written that can be reverted
+ */
+export function isRevertable(job: CatalogImport): boolean {
+  return job.status === 'applied' || (job.status === 'failed' && job.progress.appliedChunks > 0);
+}
+
+/**
+ * Dry-run an uploaded import again, e.g. after the catalog changed (catalog:write)
+ */
+export async function validateCatalogImport(
+  jobId: string
+): Promise<{ jobId: string; status: CatalogImportStatus; summary: ImportSummary; errorCount: number }> {
+  const callable = httpsCallable<
+    { jobId: string },
+    { jobId: string; status: CatalogImportStatus; summary: ImportSummary; errorCount: number }
+  >(functions, 'validateCatalogImport');
+  const result = await callable({ jobId });
+  return result.data;
+}
+
+/**
+ * Upload a CSV, XLSX or JSON file and dry-run it (catalog:write)
+ * Nothing reaches the catalog until the import is proposed and approved.
+ */
+export async function startCatalogImport(
+  file: File
+): Promise<{ jobId: string; status: CatalogImportStatus; summary: ImportSummary; errorCount: number }> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error('Import files are limited to 20MB');
+  }
+
+  const create = httpsCallable<{ fileName: string }, { jobId: string; storagePath: string }>(functions, 'createCatalogImport');
+  const { data } = await create({ fileName: file.name });
+
+  await uploadBytes(ref(storage, data.storagePath), file);
+  return validateCatalogImport(data.jobId);
+}
+
+/**
+ * Delete everything an import wrote (catalog:write)
+ * Refused while any imported code is reserved or sold.
+ */
+export async function revertCatalogImport(
+  jobId: string,
+  reason: string
+): Promise<{ jobId: string; status: CatalogImportStatus; products: number; codes: number }> {
+  const callable = httpsCallable<
+    { jobId: string; reason: string },
+    { jobId: string; status: CatalogImportStatus; products: number; codes: number }
+  >(functions, 'revertCatalogImport');
+  const result = await callable({ jobId, reason });
+  return result.data;
+}
+
+/**
+ * Subscribe to live updates of a single import, e.g. its progress while applying
+ */
+export function subscribeToCatalogImport(
+  jobId: string,
+  onChange: (job: CatalogImport | null) => void,
+  onError?: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    doc(db, 'catalog-imports', jobId),
+    (snapshot) => {
+      onChange(snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as CatalogImport) : null);
+    },
+    (error) => onError?.(error)
+  );
+}
+
+/**
+ * Most recent imports
+ */
+export async function listCatalogImports(): Promise<CatalogImport[]> {
+  const snapshot = await getDocs(query(collection(db, 'catalog-imports'), orderBy('createdAt', 'desc'), limit(LIST_LIMIT)));
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as CatalogImport));
+}
+
+/**
+ * A CSV template with the import columns and one example row
+ */
+export function catalogImportTemplate(): string {
+  const example = [
+    'Example Brand', 'Example Gift Card', '"Description of the card"', 'shopping', 'false', 'active', 'example-artwork',
+    '"10:3:EXMP10XXX001-EXMP10XXX003|25:2:EXMP25XXX001-EXMP25XXX002"', '0', '2024-01-15T10:00:00Z', '',
+  ];
+  return `${IMPORT_COLUMNS.join(',')}\n${example.join(',')}\n`;
+}
@@ -10,7 +10,7 @@ import nacl from 'tweetnacl';
 /**
  * Encode Uint8Array to base64 string using native browser functions
  */
-function encodeBase64(data: Uint8Array): string {
+export function encodeBase64(data: Uint8Array): string {
   const binaryString = Array.from(data, byte => String.fromCharCode(byte)).join('');
   return btoa(binaryString);
 }
@@ -18,7 +18,7 @@ function encodeBase64(data: Uint8Array): string {
 /**
  * Decode base64 string to Uint8Array using native browser functions
  */
-function decodeBase64(base64: string): Uint8Array {
+export function decodeBase64(base64: string): Uint8Array {
   const binaryString = atob(base64);
   return new Uint8Array(Array.from(binaryString, char => char.charCodeAt(0)));
 }
@@ -394,15 +394,19 @@ export class EncryptionService {
   }
 
   /**
-   * Generate prekeys for offline message exchange
+   * Generate one-time prekeys for offline session setup
+   * Only the public halves are published; the private halves stay on this device
    * @param count - Number of prekeys to generate
    */
-  generatePreKeys(count: number = 10): string[] {
-    const preKeys: string[] = [];
+  generatePreKeys(count: number = 10): KeyPair[] {
+    const preKeys: KeyPair[] = [];
     
     for (let i = 0; i < count; i++) {
       const keyPair = nacl.box.keyPair();
-      preKeys.push(encodeBase64(keyPair.publicKey));
+      preKeys.push({
+        publicKey: encodeBase64(keyPair.publicKey),
+        privateKey: encodeBase64(keyPair.secretKey)
+      });
     }
     
     return preKeys;
@@ -511,6 +515,97 @@ export class EncryptionService {
       throw new Error('Failed to decrypt binary data');
     }
   }
+
+  /**
+   * Generate a symmetric sender key for a group conversation
+   * @returns Random secretbox key (base64)
+   */
+  generateGroupKey(): string {
+    return encodeBase64(nacl.randomBytes(nacl.secretbox.keyLength));
+  }
+
+  /**
+   * Wrap a group key for one member so only their private key can open it
+   * @param groupKey - Group key (base64)
+   * @param memberPublicKey - Member's public key (base64)
+   * @returns Wrapped key with nonce
+   */
+  wrapGroupKey(groupKey: string, memberPublicKey: string): EncryptedData {
+    if (!this.keyPair) {
+      throw new Error('No key pair available. Generate or load keys first.');
+    }
+
+    const nonce = nacl.randomBytes(nacl.box.nonceLength);
+    const wrapped = nacl.box(
+      decodeBase64(groupKey),
+      nonce,
+      decodeBase64(memberPublicKey),
+      decodeBase64(this.keyPair.privateKey)
+    );
+
+    return {
+      content: encodeBase64(wrapped),
+      nonce: encodeBase64(nonce)
+    };
+  }
+
+  /**
+   * Unwrap a group key distributed to the current user
+   * @param wrappedKey - Wrapped key with nonce
+   * @param distributorPublicKey - Public key of the member who wrapped it (base64)
+   * @returns Group key (base64) or null if it was not wrapped for this user
+   */
+  unwrapGroupKey(wrappedKey: EncryptedData, distributorPublicKey: string): string | null {
+    if (!this.keyPair) {
+      throw new Error('No key pair available. Generate or load keys first.');
+    }
+
+    const groupKey = nacl.box.open(
+      decodeBase64(wrappedKey.content),
+      decodeBase64(wrappedKey.nonce),
+      decodeBase64(distributorPublicKey),
+      decodeBase64(this.keyPair.privateKey)
+    );
+
+    return groupKey ? encodeBase64(groupKey) : null;
+  }
+
+  /**
+   * Encrypt a group message with the group's sender key
+   * @param content - Plain text message to encrypt
+   * @param groupKey - Group key (base64)
+   * @returns Encrypted data with nonce
+   */
+  encryptGroupMessage(content: string, groupKey: string): EncryptedData {
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+    const encrypted = nacl.secretbox(new TextEncoder().encode(content), nonce, decodeBase64(groupKey));
+
+    return {
+      content: encodeBase64(encrypted),
+      nonce: encodeBase64(nonce)
+    };
+  }
+
+  /**
+   * Decrypt a group message with the group's sender key
+   * @param encryptedData - Encrypted message data
+   * @param groupKey - Group key (base64)
+   * @returns Decrypted plain text message or null if decryption fails
+   */
+  decryptGroupMessage(encryptedData: EncryptedData, groupKey: string): string | null {
+    try {
+      const decrypted = nacl.secretbox.open(
+        decodeBase64(encryptedData.content),
+        decodeBase64(encryptedData.nonce),
+        decodeBase64(groupKey)
+      );
+
+      return decrypted ? new TextDecoder().decode(decrypted) : null;
+    } catch (error) {
+      console.error('Group message decryption failed:', error);
+      return null;
+    }
+  }
 }
 
 // Export singleton instance
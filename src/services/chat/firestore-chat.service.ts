@@ -1,7 +1,6 @@
 "use client";
 
 import {
-  addDoc,
   collection,
   doc,
   getDoc,
@@ -14,17 +13,18 @@ import {
   setDoc,
   updateDoc,
   deleteField,
-  deleteDoc,
   where,
   Timestamp,
-  writeBatch,
+  DocumentData,
 } from "firebase/firestore";
-import { db, auth } from "@/lib/firebase-config";
+import { httpsCallable } from "firebase/functions";
+import { db, auth, functions } from "@/lib/firebase-config";
 import { authManager } from "@/lib/firebase-auth-manager";
 import { EncryptionService } from "./encryption.service";
 const encryptionService = EncryptionService.getInstance();
 import { keyExchangeService } from "./key-exchange.service";
 import { decryptMessage } from './message-decryption.service';
+import { ratchetService, RatchetEnvelope } from './ratchet.service';
 
 export interface ChatUser {
   uid: string;
@@ -33,6 +33,73 @@ export interface ChatUser {
   tier?: string;
 }
 
+export type DisappearingTimer = 'off' | '1h' | '24h' | '7d';
+
+// How long messages live with each disappearing-messages setting
+export const DISAPPEARING_TIMER_MS: Record<DisappearingTimer, number | null> = {
+  off: null,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+// How long after sending a message its sender can delete it for everyone
+export const DELETE_FOR_EVERYONE_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+// The markChatMessages function takes at most this many message IDs per call
+const MAX_RECEIPTS_PER_CALL = 100;
+
+export type DeleteScope = 'me' | 'everyone';
+
+/**
+ * Encrypted content of a message, as sent or edited
+ */
+export interface MessageContent {
+  text?: string;
+  nonce?: string;
+  senderText?: string;
+  senderNonce?: string;
+  keyVersion?: number;
+  senderDevice?: string;
+  envelopes?: Record<string, RatchetEnvelope>;
+}
+
+/**
+ * Content a message had before an edit
+ */
+export interface MessageRevision extends MessageContent {
+  editedAt: string; // When this content was written
+}
+
+interface SendChatMessageRequest extends MessageContent {
+  conversationId: string;
+  type: string;
+  preview: string;
+  metadata?: Record<string, unknown>;
+  clientMessageId?: string;
+  threadId?: string;
+}
+
+interface SendChatMessageResponse {
+  messageId: string;
+  seq: number;
+  duplicate: boolean;
+  thread: (Omit<ThreadSummary, 'lastReplyAt'> & { lastReplyAt: number }) | null;
+}
+
+export interface DecryptedRevision {
+  text: string;
+  editedAt: string;
+}
+
+export interface ThreadSummary {
+  replyCount: number;
+  lastReplyId: string;
+  lastReplySenderId: string;
+  lastReplyAt: Timestamp;
+  participants: string[]; // The root's sender and everyone who replied
+}
+
 export interface Conversation {
   id: string;
   type: "direct" | "group";
@@ -41,7 +108,10 @@ export interface Conversation {
     text: string;
     senderId: string;
     timestamp: Timestamp;
+    expiresAt?: Timestamp;
   };
+  // Messages sent while this is on are deleted by the chat server when they expire
+  disappearingMessages?: DisappearingTimer;
   groupInfo?: {
     name: string;
     description: string;
@@ -64,6 +134,9 @@ export interface ChatMessage {
   nonce?: string; // Encryption nonce
   senderText?: string; // Sender's version of encrypted text
   senderNonce?: string; // Sender's encryption nonce
+  keyVersion?: number; // Group sender key version the message is encrypted with
+  senderDevice?: string; // Device a direct message was sent from
+  envelopes?: Record<string, RatchetEnvelope>; // Direct message encrypted per recipient device
   timestamp: Timestamp;
   readBy?: string[]; // Array of user IDs who have read this message
   deliveredTo?: string[]; // Array of user IDs who have received this message
@@ -71,6 +144,42 @@ export interface ChatMessage {
   reactions?: { [emoji: string]: string[] }; // Reactions with emoji as key and array of user IDs
   type?: string; // Message type (text, image, file, etc.)
   metadata?: any; // Additional metadata for media messages
+  expiresAt?: Timestamp; // When a disappearing message is deleted
+  seq?: number; // Per-conversation sequence number
+  clientMessageId?: string; // Sender-generated ID, the same on every delivery path
+  deleted?: boolean; // Deleted for everyone; only a tombstone is left
+  deletedAt?: Timestamp;
+  threadId?: string; // Root message, for replies in a thread
+  threadSummary?: ThreadSummary; // Replies so far, for a thread's root message
+}
+
+/**
+ * Get when a message sent now in a conversation should disappear
+ */
+export function getMessageExpiry(conversation: Pick<Conversation, 'disappearingMessages'>): Date | null {
+  const timerMs = DISAPPEARING_TIMER_MS[conversation.disappearingMessages || 'off'];
+  return timerMs ? new Date(Date.now() + timerMs) : null;
+}
+
+const isExpired = (expiresAt?: Timestamp) => !!expiresAt && expiresAt.toMillis() <= Date.now();
+
+/**
+ * A message deleted for everyone keeps its place but none of its content
+ */
+function toTombstone(id: string, data: DocumentData): ChatMessage {
+  return {
+    id,
+    senderId: data.senderId,
+    text: '',
+    timestamp: data.timestamp,
+    type: data.type || 'text',
+    seq: data.seq,
+    clientMessageId: data.clientMessageId,
+    deleted: true,
+    deletedAt: data.deletedAt,
+    threadId: data.threadId,
+    threadSummary: data.threadSummary,
+  };
 }
 
 /**
@@ -103,6 +212,13 @@ export async function createGroupConversation(
   };
   
   await setDoc(convRef, conversationData);
+
+  // Distribute the first sender key; if this fails the first member to send distributes it
+  try {
+    await keyExchangeService.distributeGroupKey(convId, members, creatorId);
+  } catch (error) {
+    console.warn('⚠️ Failed to distribute group key, deferring to first message:', error);
+  }
   
   return {
     id: convId,
@@ -287,8 +403,15 @@ export async function sendMessage(
     encryptedContent?: string;
     senderEncryptedContent?: string;
     senderNonce?: string;
+    keyVersion?: number;
+    senderDevice?: string;
+    envelopes?: Record<string, RatchetEnvelope>;
+    // Reuse the ID of an earlier attempt so a retry cannot save the message twice
+    clientMessageId?: string;
+    // Root message, to reply in its thread
+    threadId?: string;
   }
-): Promise<void> {
+): Promise<{ messageId: string; seq: number; thread?: ThreadSummary }> {
   // Ensure auth is ready and token is fresh
   const authUser = await authManager.waitForAuth();
   if (!authUser || authUser.uid !== senderId) {
@@ -312,64 +435,61 @@ export async function sendMessage(
     }
 
     // Check if we already have encrypted content from the caller
-    let encryptedContent = options?.encryptedContent || text;
+    // Per-device messages carry their ciphertexts in `envelopes` only
+    let encryptedContent = options?.envelopes ? '' : (options?.encryptedContent || text);
     let nonce = options?.nonce || '';
-    let senderEncryptedContent = options?.senderEncryptedContent || '';
-    let senderNonce = options?.senderNonce || '';
+    const senderEncryptedContent = options?.senderEncryptedContent || '';
+    const senderNonce = options?.senderNonce || '';
+    let keyVersion = options?.keyVersion;
+    let senderDevice = options?.senderDevice;
+    let envelopes = options?.envelopes;
     
     // Skip encryption for media messages (they contain URLs, not sensitive content)
     // Media content itself is already encrypted separately
     const isMediaMessage = options?.type && ['image', 'file', 'voice', 'media'].includes(options.type);
     
     // Only encrypt if we don't already have encrypted content
-    if (conversation.type === 'direct' && !isMediaMessage && !options?.encryptedContent) {
+    if (conversation.type === 'direct' && !isMediaMessage && !options?.encryptedContent && !options?.envelopes) {
       const recipientId = conversation.members.find(id => id !== senderId);
       if (recipientId) {
         try {
-          // Get recipient's public key
-          const recipientPublicKey = await keyExchangeService.getPublicKey(recipientId);
-          
-          if (recipientPublicKey) {
-            // Encrypt the message for recipient
-            const encrypted = encryptionService.encryptMessage(text, recipientPublicKey);
-            encryptedContent = encrypted.content;
-            nonce = encrypted.nonce;
-            console.log('🔐 Message encrypted for recipient:', recipientId);
-            console.log('🔐 Encrypted content length (base64):', encryptedContent.length);
-            console.log('🔐 Nonce length (base64):', nonce.length);
-            console.log('🔐 Original text length:', text.length);
-            
-            // Store a self-encrypted copy for the sender (strict E2EE, no plaintext at rest)
-            const myPublicKey = encryptionService.getPublicKey();
-            if (myPublicKey) {
-              const selfEncrypted = encryptionService.encryptMessage(text, myPublicKey);
-              senderEncryptedContent = selfEncrypted.content;
-              senderNonce = selfEncrypted.nonce;
-              console.log('🔐 Stored self-encrypted sender copy');
-            } else {
-              console.warn('⚠️ Missing own public key; skipping self-encrypted sender copy');
-            }
-          } else {
-            console.warn('⚠️ Recipient public key not found, sending unencrypted');
-          }
+          // Encrypt with a double ratchet per linked device; the sending device
+          // reads its own copy with the message keys the ratchet keeps
+          const encrypted = await ratchetService.encrypt(senderId, conversationId, conversation.members, text);
+          senderDevice = encrypted.senderDevice;
+          envelopes = encrypted.envelopes;
+          encryptedContent = '';
+          console.log('🔐 Message encrypted for devices:', Object.keys(encrypted.envelopes).length);
         } catch (encryptionError) {
           console.error('Encryption failed, sending unencrypted:', encryptionError);
         }
       }
     }
 
+    // Group messages are encrypted once with the group's sender key
+    if (conversation.type === 'group' && !isMediaMessage && !options?.encryptedContent) {
+      try {
+        const groupKey = await keyExchangeService.getCurrentGroupKey(conversationId, senderId)
+          || await keyExchangeService.distributeGroupKey(conversationId, conversation.members, senderId);
+        const encrypted = encryptionService.encryptGroupMessage(text, groupKey.key);
+        encryptedContent = encrypted.content;
+        nonce = encrypted.nonce;
+        keyVersion = groupKey.version;
+        console.log(`🔐 Message encrypted with group key v${groupKey.version}`);
+      } catch (encryptionError) {
+        console.error('Group encryption failed, sending unencrypted:', encryptionError);
+      }
+    }
+
     // BUG FIX: 2025-01-28 - Store dual encryption for sender and recipient
     // Problem: Sender can't read their own messages because they were only encrypted for recipient
     // Solution: Store both recipient-encrypted and sender-encrypted versions
     // Impact: Both sender and recipient can decrypt and read the message
-    const messageData: any = {
-      senderId,
+    const messageData: SendChatMessageRequest = {
+      conversationId,
       text: encryptedContent, // Store encrypted content for recipient
-      timestamp: serverTimestamp(),
       type: options?.type || 'text',
-      reactions: {}, // Initialize reactions field to ensure it exists
-      deliveredTo: [], // Initialize delivered array
-      readBy: [], // Initialize read array
+      preview: text, // Store preview unencrypted
     };
     
     // Add metadata if provided (for media messages)
@@ -388,46 +508,132 @@ export async function sendMessage(
       messageData.senderNonce = senderNonce;
     }
 
+    if (keyVersion !== undefined) {
+      messageData.keyVersion = keyVersion;
+    }
+
+    if (senderDevice && envelopes) {
+      messageData.senderDevice = senderDevice;
+      messageData.envelopes = envelopes;
+    }
+
+    // Same ID and sequence numbering as the chat server, so a message sent
+    // on either path is saved once and ordered with the others
+    if (options?.clientMessageId) {
+      messageData.clientMessageId = options.clientMessageId;
+    }
+    if (options?.threadId) {
+      messageData.threadId = options.threadId;
+    }
+
     console.log('📤 SAVING MESSAGE TO FIRESTORE:', {
       conversationId,
       senderId,
       hasText: !!messageData.text,
       textLength: messageData.text?.length,
-      textPreview: messageData.text?.substring(0, 50),
       hasNonce: !!messageData.nonce,
-      nonceValue: messageData.nonce,
       hasSenderText: !!messageData.senderText,
-      senderTextLength: messageData.senderText?.length,
-      senderTextPreview: messageData.senderText?.substring(0, 50),
-      hasSenderNonce: !!messageData.senderNonce,
-      senderNonceValue: messageData.senderNonce,
       type: messageData.type
     });
     
-    const messagesRef = collection(db, "conversations", conversationId, "messages");
-    const docRef = await addDoc(messagesRef, messageData);
-    console.log('📤 Message saved with ID:', docRef.id);
-    
-    await setDoc(
-      doc(db, "conversations", conversationId),
-      {
-        lastMessage: { 
-          text: text.length > 50 ? text.substring(0, 50) + '...' : text, // Store preview unencrypted
-          senderId, 
-          timestamp: serverTimestamp() 
-        },
-        updatedAt: serverTimestamp(),
-      },
-      { merge: true }
-    );
+    // Messages are written server-side, which also stamps the disappearing-messages expiry
+    const sendChatMessage = httpsCallable<SendChatMessageRequest, SendChatMessageResponse>(functions, 'sendChatMessage');
+    const { data: saved } = await sendChatMessage(messageData);
+    const thread: ThreadSummary | undefined = saved.thread
+      ? { ...saved.thread, lastReplyAt: Timestamp.fromMillis(saved.thread.lastReplyAt) }
+      : undefined;
+
+    if (saved.duplicate) {
+      console.log('🔁 Message was already saved with ID:', saved.messageId);
+    } else {
+      console.log('📤 Message saved with ID:', saved.messageId, 'seq:', saved.seq);
+    }
     
     console.log('📨 Message sent successfully');
+    return { messageId: saved.messageId, seq: saved.seq, thread };
   } catch (error) {
     console.error('Failed to send message:', error);
     throw error;
   }
 }
 
+/**
+ * Edit a message through the editChatMessage function when the chat server
+ * is unreachable; it keeps the previous content in the edit history like the server does
+ * @returns The number of earlier revisions
+ */
+export async function editMessage(
+  conversationId: string,
+  messageId: string,
+  content: MessageContent
+): Promise<number> {
+  const editChatMessage = httpsCallable<
+    { conversationId: string; messageId: string; content: MessageContent },
+    { revisions: number; editedAt: string }
+  >(functions, 'editChatMessage');
+  const { data } = await editChatMessage({ conversationId, messageId, content });
+  return data.revisions;
+}
+
+/**
+ * Delete a message through the deleteChatMessage function when the chat
+ * server is unreachable, hiding it for the caller or leaving a tombstone for everyone
+ */
+export async function deleteMessage(
+  conversationId: string,
+  messageId: string,
+  scope: DeleteScope
+): Promise<void> {
+  const deleteChatMessage = httpsCallable<
+    { conversationId: string; messageId: string; scope: DeleteScope },
+    { success: boolean }
+  >(functions, 'deleteChatMessage');
+  await deleteChatMessage({ conversationId, messageId, scope });
+}
+
+/**
+ * Set the caller's reaction to a message, replacing any other, or remove it
+ * @returns The message's reactions after the change
+ */
+export async function reactToMessage(
+  conversationId: string,
+  messageId: string,
+  emoji: string,
+  remove = false
+): Promise<{ [emoji: string]: string[] }> {
+  const reactToChatMessage = httpsCallable<
+    { conversationId: string; messageId: string; emoji: string; remove: boolean },
+    { reactions: { [emoji: string]: string[] } }
+  >(functions, 'reactToChatMessage');
+  const { data } = await reactToChatMessage({ conversationId, messageId, emoji, remove });
+  return data.reactions;
+}
+
+/**
+ * Record that the caller received or read messages
+ */
+export async function markMessages(
+  conversationId: string,
+  messageIds: string[],
+  receipt: 'delivered' | 'read'
+): Promise<void> {
+  const markChatMessages = httpsCallable<
+    { conversationId: string; messageIds: string[]; receipt: 'delivered' | 'read' },
+    { updated: number }
+  >(functions, 'markChatMessages');
+  for (let i = 0; i < messageIds.length; i += MAX_RECEIPTS_PER_CALL) {
+    await markChatMessages({ conversationId, messageIds: messageIds.slice(i, i + MAX_RECEIPTS_PER_CALL), receipt });
+  }
+}
+
+/**
+ * Get the earlier revisions of an edited message, oldest first
+ */
+export async function getMessageHistory(conversationId: string, messageId: string): Promise<MessageRevision[]> {
+  const messageSnap = await getDoc(doc(db, "conversations", conversationId, "messages", messageId));
+  return messageSnap.data()?.editHistory || [];
+}
+
 /**
  * Subscribe to conversations for a user in real-time
  */
@@ -463,25 +669,39 @@ export function subscribeUserConversations(
  */
 export function subscribeMessages(
   conversationId: string,
-  onData: (messages: ChatMessage[]) => void
+  onData: (messages: ChatMessage[]) => void,
+  options?: {
+    // Subscribe to the replies in this message's thread instead
+    threadId?: string;
+  }
 ): () => void {
-  const q = query(
-    collection(db, "conversations", conversationId, "messages"),
-    orderBy("timestamp", "asc"),
-    limit(50)
-  );
+  const messagesRef = collection(db, "conversations", conversationId, "messages");
+  const q = options?.threadId
+    ? query(messagesRef, where("threadId", "==", options.threadId), orderBy("timestamp", "asc"))
+    : query(messagesRef, orderBy("timestamp", "asc"), limit(50));
   
   return onSnapshot(q, async (snapshot) => {
     // Get current user ID from auth or store
     const currentUserId = auth.currentUser?.uid || (window as any).chatStore?.getState?.()?.userId;
     
+    // Expired messages stay until the chat server sweeps them; never show them,
+    // nor messages this user deleted for themselves
+    const liveDocs = snapshot.docs.filter(docSnap => {
+      const data = docSnap.data();
+      return !isExpired(data.expiresAt) && !(data.hiddenFor || []).includes(currentUserId);
+    });
+
     // Process all messages and wait for decryption to complete
-    const messagePromises = snapshot.docs.map(async (docSnap) => {
+    const messagePromises = liveDocs.map(async (docSnap): Promise<ChatMessage & { decryptionSuccess?: boolean }> => {
       const data = docSnap.data();
+      if (data.deleted) {
+        return toTombstone(docSnap.id, data);
+      }
       
       // Use the new decryption service with current user ID
       const decryptionResult = await decryptMessage({
         id: docSnap.id,
+        conversationId,
         ...data
       }, currentUserId);
       
@@ -502,12 +722,20 @@ export function subscribeMessages(
         nonce: data.nonce,
         senderText: data.senderText,  // Include for debugging
         senderNonce: data.senderNonce, // Include for debugging
+        keyVersion: data.keyVersion,
+        senderDevice: data.senderDevice,
+        envelopes: data.envelopes,
         timestamp: data.timestamp,
         readBy: data.readBy,
         deliveredTo: data.deliveredTo,
         type: data.type || 'text',
         metadata: data.metadata || {},
         reactions: data.reactions || {},
+        expiresAt: data.expiresAt,
+        seq: data.seq,
+        clientMessageId: data.clientMessageId,
+        threadId: data.threadId,
+        threadSummary: data.threadSummary,
         decryptionSuccess: decryptionResult.success
       };
     });
@@ -520,6 +748,10 @@ export function subscribeMessages(
       for (const result of results) {
         if (result.status === 'fulfilled') {
           const msg = result.value;
+          if (msg.deleted) {
+            decryptedMessages.push(msg);
+            continue;
+          }
           // Check if msg.text exists before using includes
           if (!msg.text) {
             // Skip messages with null text (failed decryption)
@@ -557,10 +789,14 @@ export function subscribeMessages(
             console.log('🔄 Keys now available, re-processing messages');
             
             // Re-process all messages with keys now available
-            const reprocessedPromises = snapshot.docs.map(async (docSnap) => {
+            const reprocessedPromises = liveDocs.map(async (docSnap): Promise<ChatMessage & { decryptionSuccess?: boolean }> => {
               const data = docSnap.data();
+              if (data.deleted) {
+                return toTombstone(docSnap.id, data);
+              }
               const decryptionResult = await decryptMessage({
                 id: docSnap.id,
+                conversationId,
                 ...data
               }, currentUserId);
               
@@ -572,12 +808,20 @@ export function subscribeMessages(
                 nonce: data.nonce,
                 senderText: data.senderText,
                 senderNonce: data.senderNonce,
+                keyVersion: data.keyVersion,
+                senderDevice: data.senderDevice,
+                envelopes: data.envelopes,
                 timestamp: data.timestamp,
                 readBy: data.readBy,
                 deliveredTo: data.deliveredTo,
                 type: data.type || 'text',
                 metadata: data.metadata || {},
                 reactions: data.reactions || {},
+                expiresAt: data.expiresAt,
+                seq: data.seq,
+                clientMessageId: data.clientMessageId,
+                threadId: data.threadId,
+                threadSummary: data.threadSummary,
                 decryptionSuccess: decryptionResult.success
               };
             });
@@ -586,7 +830,7 @@ export function subscribeMessages(
             const reprocessedMessages: ChatMessage[] = [];
             
             for (const result of reprocessedResults) {
-              if (result.status === 'fulfilled' && result.value.text) {
+              if (result.status === 'fulfilled' && (result.value.text || result.value.deleted)) {
                 reprocessedMessages.push(result.value);
               }
             }
@@ -631,24 +875,17 @@ export async function startDirectByUsername(currentUserId: string, username: str
 /**
  * Mark a message as read by a user
  */
-export async function markMessageAsRead(conversationId: string, messageId: string, userId: string): Promise<void> {
-  const messageRef = doc(db, "conversations", conversationId, "messages", messageId);
-  const messageDoc = await getDoc(messageRef);
-  
-  if (messageDoc.exists()) {
-    const data = messageDoc.data();
-    const readBy = data.readBy || [];
-    
-    if (!readBy.includes(userId)) {
-      await setDoc(messageRef, {
-        readBy: [...readBy, userId]
-      }, { merge: true });
-    }
-  }
+export async function markMessageAsRead(conversationId: string, messageId: string): Promise<void> {
+  await markMessages(conversationId, [messageId], 'read');
+}
+
+function callDeleteChatConversation(conversationId: string) {
+  const deleteChatConversation = httpsCallable<{ conversationId: string }, { deleted: number }>(functions, 'deleteChatConversation');
+  return deleteChatConversation({ conversationId });
 }
 
 /**
- * Delete all messages in a conversation and the conversation document itself
+ * Delete all messages in a conversation, and the conversation itself for a group
  */
 export async function deleteConversationMessages(conversationId: string): Promise<void> {
   console.log(`🗑️ Starting deletion of conversation and messages: ${conversationId}`);
@@ -670,58 +907,14 @@ export async function deleteConversationMessages(conversationId: string): Promis
       return; // Exit gracefully if conversation doesn't exist
     }
 
-    // Get all messages in the conversation
-    const messagesRef = collection(db, 'conversations', conversationId, 'messages');
-    const q = query(messagesRef);
-    const snapshot = await getDocs(q);
-    
-    console.log(`📊 Found ${snapshot.size} messages to delete in conversation ${conversationId}`);
-    
-    if (snapshot.size === 0 && conversationSnap.exists()) {
-      // No messages but conversation exists, just delete the conversation
-      await deleteDoc(conversationRef);
-      console.log(`✅ Deleted empty conversation ${conversationId}`);
-      return;
-    }
-    
-    // Delete each message in batches
-    let batch = writeBatch(db);
-    let batchCount = 0;
-    let totalDeleted = 0;
-    const MAX_BATCH_SIZE = 499; // Leave room for conversation doc deletion
-
-    for (const docSnap of snapshot.docs) {
-      batch.delete(docSnap.ref);
-      batchCount++;
-      totalDeleted++;
-
-      // Commit batch if we reach the limit and create a new one
-      if (batchCount >= MAX_BATCH_SIZE) {
-        await batch.commit();
-        console.log(`📦 Committed batch of ${batchCount} deletions`);
-        batch = writeBatch(db); // Create new batch for next set
-        batchCount = 0;
-      }
-    }
-
-    // Delete the conversation document itself in the final batch
-    if (conversationSnap.exists()) {
-      batch.delete(conversationRef);
-      console.log(`🗑️ Adding conversation document to deletion batch`);
-    }
-
-    // Commit the final batch only if there are operations
-    if (batchCount > 0 || conversationSnap.exists()) {
-      await batch.commit();
-      console.log(`📦 Committed final batch with ${batchCount} message deletions and conversation document`);
-    }
-
-    console.log(`✅ Successfully deleted ${totalDeleted} messages and conversation document for ${conversationId}`);
+    // Messages are deleted server-side; clients cannot write them
+    const { data } = await callDeleteChatConversation(conversationId);
+    console.log(`✅ Successfully deleted ${data.deleted} messages for ${conversationId}`);
   } catch (error: any) {
     // Handle specific Firebase errors
     if (error.code === 'permission-denied') {
       console.error('❌ Permission denied to delete conversation:', conversationId);
-    } else if (error.code === 'not-found') {
+    } else if (error.code === 'not-found' || error.code === 'functions/not-found') {
       console.log('⚠️ Conversation or messages not found, may have been already deleted');
       return; // Don't throw, just return
     } else {
@@ -731,6 +924,11 @@ export async function deleteConversationMessages(conversationId: string): Promis
   }
 }
 
+function callChangeChatGroupMembers(request: { conversationId: string; add?: string[]; remove?: string[] }) {
+  const changeChatGroupMembers = httpsCallable<typeof request, { members: string[] }>(functions, 'changeChatGroupMembers');
+  return changeChatGroupMembers(request);
+}
+
 /**
  * Add members to a group conversation
  */
@@ -753,25 +951,18 @@ export async function addGroupMembers(conversationId: string, newMemberIds: stri
     return; // No new members to add
   }
 
-  const updatedMembers = [...conversation.members, ...membersToAdd];
+  // Membership changes go through a function, which checks the caller is a group admin
+  const { data: { members: updatedMembers } } = await callChangeChatGroupMembers({ conversationId, add: membersToAdd });
 
-  await setDoc(
-    doc(db, "conversations", conversationId),
-    {
-      members: updatedMembers,
-      updatedAt: serverTimestamp(),
-    },
-    { merge: true }
-  );
+  // Rotate the sender key so new members receive it along with the group history
+  try {
+    await keyExchangeService.distributeGroupKey(conversationId, updatedMembers, addedBy);
+  } catch (error) {
+    console.error('Failed to rotate group key after adding members:', error);
+    await keyExchangeService.invalidateGroupKey(conversationId);
+  }
 
-  // Add system message about new members
-  const memberNames = membersToAdd.join(', '); // In production, fetch actual names
-  await addDoc(collection(db, "conversations", conversationId, "messages"), {
-    senderId: 'system',
-    text: `${memberNames} joined the group`,
-    timestamp: serverTimestamp(),
-    type: 'system'
-  });
+  // The onConversationUpdated function posts the system message about new members
 }
 
 /**
@@ -795,25 +986,20 @@ export async function removeGroupMembers(conversationId: string, memberIdsToRemo
     throw new Error('Cannot remove group creator');
   }
 
-  const updatedMembers = conversation.members.filter(id => !memberIdsToRemove.includes(id));
+  const { data: { members: updatedMembers } } = await callChangeChatGroupMembers({
+    conversationId,
+    remove: memberIdsToRemove,
+  });
 
-  await setDoc(
-    doc(db, "conversations", conversationId),
-    {
-      members: updatedMembers,
-      updatedAt: serverTimestamp(),
-    },
-    { merge: true }
-  );
+  // Rotate the sender key so removed members can no longer read the group
+  try {
+    await keyExchangeService.distributeGroupKey(conversationId, updatedMembers, removedBy);
+  } catch (error) {
+    console.error('Failed to rotate group key after removing members:', error);
+    await keyExchangeService.invalidateGroupKey(conversationId, memberIdsToRemove);
+  }
 
-  // Add system message about removed members
-  const memberNames = memberIdsToRemove.join(', '); // In production, fetch actual names
-  await addDoc(collection(db, "conversations", conversationId, "messages"), {
-    senderId: 'system',
-    text: `${memberNames} left the group`,
-    timestamp: serverTimestamp(),
-    type: 'system'
-  });
+  // The onConversationUpdated function posts the system message about removed members
 }
 
 /**
@@ -825,6 +1011,7 @@ export async function updateGroupInfo(
     name?: string;
     description?: string;
     photoURL?: string;
+    disappearingMessages?: DisappearingTimer;
   },
   updatedBy: string
 ): Promise<void> {
@@ -839,29 +1026,19 @@ export async function updateGroupInfo(
     throw new Error('Only group admins can update group info');
   }
 
-  const updatedGroupInfo = {
-    ...conversation.groupInfo,
-    ...updates
-  };
+  const { disappearingMessages } = updates;
+  if (disappearingMessages && !Object.prototype.hasOwnProperty.call(DISAPPEARING_TIMER_MS, disappearingMessages)) {
+    throw new Error(`Invalid disappearing messages setting: ${disappearingMessages}`);
+  }
 
-  await setDoc(
-    doc(db, "conversations", conversationId),
-    {
-      groupInfo: updatedGroupInfo,
-      updatedAt: serverTimestamp(),
-    },
-    { merge: true }
-  );
+  // The timer decides how long every member's messages live, so the function checks the caller is a group admin
+  const updateChatGroup = httpsCallable<
+    { conversationId: string } & typeof updates,
+    { success: boolean }
+  >(functions, 'updateChatGroup');
+  await updateChatGroup({ conversationId, ...updates });
 
-  // Add system message about group update
-  if (updates.name) {
-    await addDoc(collection(db, "conversations", conversationId, "messages"), {
-      senderId: 'system',
-      text: `Group name changed to "${updates.name}"`,
-      timestamp: serverTimestamp(),
-      type: 'system'
-    });
-  }
+  // The onConversationUpdated function posts the system messages about the changes
 }
 
 /**
@@ -879,29 +1056,18 @@ export async function leaveGroup(conversationId: string, userId: string): Promis
     throw new Error('Group creator cannot leave. Transfer ownership first.');
   }
 
-  const updatedMembers = conversation.members.filter(id => id !== userId);
-  const updatedAdmins = conversation.groupInfo?.admins.filter(id => id !== userId) || [];
+  // A departing member must not know the next key, so the next remaining
+  // member to send rotates it. Revoke while still a member of the group.
+  try {
+    await keyExchangeService.invalidateGroupKey(conversationId, [userId]);
+  } catch (error) {
+    console.error('Failed to revoke group key before leaving:', error);
+  }
 
-  await setDoc(
-    doc(db, "conversations", conversationId),
-    {
-      members: updatedMembers,
-      groupInfo: {
-        ...conversation.groupInfo,
-        admins: updatedAdmins
-      },
-      updatedAt: serverTimestamp(),
-    },
-    { merge: true }
-  );
+  const leaveChatGroup = httpsCallable<{ conversationId: string }, { success: boolean }>(functions, 'leaveChatGroup');
+  await leaveChatGroup({ conversationId });
 
-  // Add system message
-  await addDoc(collection(db, "conversations", conversationId, "messages"), {
-    senderId: 'system',
-    text: `User left the group`, // In production, use actual username
-    timestamp: serverTimestamp(),
-    type: 'system'
-  });
+  // The onConversationUpdated function posts the system message
 }
 
 /**
@@ -931,52 +1097,10 @@ export async function deleteConversation(conversationId: string, userId: string)
       throw new Error('Permission denied: You are not a member of this conversation');
     }
     
-    // Delete all messages in the conversation
-    const messagesRef = collection(db, 'conversations', conversationId, 'messages');
-    const messagesQuery = query(messagesRef);
-    const messagesSnapshot = await getDocs(messagesQuery);
-    
-    console.log('🗑️ Deleting', messagesSnapshot.docs.length, 'messages');
-    
-    // Delete messages in batches (Firestore has a limit of 500 operations per batch)
-    const BATCH_SIZE = 499; // Leave room for the conversation document update
-    let batch = writeBatch(db);
-    let operationCount = 0;
-    
-    for (const messageDoc of messagesSnapshot.docs) {
-      batch.delete(messageDoc.ref);
-      operationCount++;
-      
-      // Commit current batch and start a new one if we reach the limit
-      if (operationCount >= BATCH_SIZE) {
-        await batch.commit();
-        batch = writeBatch(db);
-        operationCount = 0;
-      }
-    }
-    
-    // For P2P chats, keep the conversation but mark it as deleted by this user
-    // This ensures messages don't reappear when users reconnect
-    if (conversationData.type === 'direct') {
-      // Update conversation to track who deleted it and when
-      const deletedBy = conversationData.deletedBy || {};
-      deletedBy[userId] = serverTimestamp();
-      
-      batch.update(conversationRef, {
-        deletedBy: deletedBy,
-        lastMessage: null,
-        lastMessageTime: serverTimestamp()
-      });
-      
-      console.log('✅ P2P conversation messages deleted, conversation marked as deleted by user');
-    } else {
-      // For group chats, actually delete the conversation document
-      batch.delete(conversationRef);
-      console.log('✅ Group conversation and messages deleted completely');
-    }
-    
-    // Commit the final batch
-    await batch.commit();
+    // Deletes the messages; a P2P chat is kept but marked as deleted by this
+    // user so messages don't reappear when users reconnect, a group chat is deleted
+    const { data } = await callDeleteChatConversation(conversationId);
+    console.log('🗑️ Deleted', data.deleted, 'messages');
     
     console.log('✅ Conversation deletion completed successfully');
   } catch (error) {
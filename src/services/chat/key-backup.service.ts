@@ -0,0 +1,448 @@
+"use client";
+
+import {
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  collection,
+  serverTimestamp,
+  Timestamp,
+} from "firebase/firestore";
+import nacl from 'tweetnacl';
+import { db } from "@/lib/firebase-config";
+import { decodeBase64, encodeBase64 } from './encryption.service';
+import { keyExchangeService } from './key-exchange.service';
+import { storageService, StoredMessageKey } from './storage.service';
+
+/**
+ * Backup key sealed with a key derived from the passphrase or recovery code
+ */
+export interface WrappedBackupKey {
+  kdf: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+/**
+ * Backup settings of a user, stored at keyBackups/{userId}
+ * The backup key itself never leaves the devices unwrapped.
+ */
+export interface KeyBackupDocument {
+  passphrase: WrappedBackupKey;
+  recoveryCode: WrappedBackupKey;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Encrypted message keys of one device, stored at
+ * keyBackups/{userId}/bundles/{deviceId}
+ * The ciphertext is split over chunks/{index} to stay under the document size limit.
+ */
+export interface KeyBackupBundle {
+  deviceId: string;
+  nonce: string;
+  chunkCount: number;
+  messageKeyCount: number;
+  backedUpAt: Timestamp;
+}
+
+export type KeyBackupStatus = 'off' | 'locked' | 'ok' | 'stale';
+
+export interface KeyBackupHealth {
+  // locked: a backup exists but has not been unlocked on this device
+  status: KeyBackupStatus;
+  lastBackupAt: Date | null;
+  backedUpKeys: number;
+  pendingKeys: number;
+}
+
+// Costs about 32 MB of memory and half a second per derivation
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const MIN_PASSPHRASE_LENGTH = 12;
+const CHUNK_SIZE = 700_000;
+// No 0/O or 1/I, so a printed code can be typed back without guessing
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const RECOVERY_CODE_LENGTH = 24;
+
+/**
+ * Salsa20/8 core, applied in place to a 16-word block
+ */
+function salsa20_8(block: Uint32Array): void {
+  const x = block.slice();
+  const rotate = (value: number, bits: number) => (value << bits) | (value >>> (32 - bits));
+
+  for (let round = 0; round < 8; round += 2) {
+    x[4] ^= rotate(x[0] + x[12], 7); x[8] ^= rotate(x[4] + x[0], 9);
+    x[12] ^= rotate(x[8] + x[4], 13); x[0] ^= rotate(x[12] + x[8], 18);
+    x[9] ^= rotate(x[5] + x[1], 7); x[13] ^= rotate(x[9] + x[5], 9);
+    x[1] ^= rotate(x[13] + x[9], 13); x[5] ^= rotate(x[1] + x[13], 18);
+    x[14] ^= rotate(x[10] + x[6], 7); x[2] ^= rotate(x[14] + x[10], 9);
+    x[6] ^= rotate(x[2] + x[14], 13); x[10] ^= rotate(x[6] + x[2], 18);
+    x[3] ^= rotate(x[15] + x[11], 7); x[7] ^= rotate(x[3] + x[15], 9);
+    x[11] ^= rotate(x[7] + x[3], 13); x[15] ^= rotate(x[11] + x[7], 18);
+    x[1] ^= rotate(x[0] + x[3], 7); x[2] ^= rotate(x[1] + x[0], 9);
+    x[3] ^= rotate(x[2] + x[1], 13); x[0] ^= rotate(x[3] + x[2], 18);
+    x[6] ^= rotate(x[5] + x[4], 7); x[7] ^= rotate(x[6] + x[5], 9);
+    x[4] ^= rotate(x[7] + x[6], 13); x[5] ^= rotate(x[4] + x[7], 18);
+    x[11] ^= rotate(x[10] + x[9], 7); x[8] ^= rotate(x[11] + x[10], 9);
+    x[9] ^= rotate(x[8] + x[11], 13); x[10] ^= rotate(x[9] + x[8], 18);
+    x[12] ^= rotate(x[15] + x[14], 7); x[13] ^= rotate(x[12] + x[15], 9);
+    x[14] ^= rotate(x[13] + x[12], 13); x[15] ^= rotate(x[14] + x[13], 18);
+  }
+
+  for (let i = 0; i < 16; i++) {
+    block[i] += x[i];
+  }
+}
+
+/**
+ * scrypt BlockMix with Salsa20/8 on a block of 2r 64-byte chunks
+ */
+function blockMix(block: Uint32Array, scratch: Uint32Array, r: number): void {
+  const x = block.slice((2 * r - 1) * 16, 2 * r * 16);
+
+  for (let i = 0; i < 2 * r; i++) {
+    for (let j = 0; j < 16; j++) {
+      x[j] ^= block[i * 16 + j];
+    }
+    salsa20_8(x);
+    // Even chunks go to the first half of the output, odd ones to the second
+    scratch.set(x, (i % 2 === 0 ? i / 2 : r + (i - 1) / 2) * 16);
+  }
+
+  block.set(scratch);
+}
+
+/**
+ * Single-iteration PBKDF2-HMAC-SHA256, as used inside scrypt
+ */
+async function pbkdf2(password: Uint8Array, salt: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', password.slice(), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt.slice(), iterations: 1 },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * scrypt (RFC 7914), a memory-hard KDF; uses 128 * r * N bytes of memory
+ */
+async function scrypt(
+  password: Uint8Array,
+  salt: Uint8Array,
+  { N, r, p }: { N: number; r: number; p: number },
+  length: number
+): Promise<Uint8Array> {
+  const blockWords = 32 * r;
+  const bytes = await pbkdf2(password, salt, p * 128 * r);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const words = new Uint32Array(p * blockWords);
+  for (let i = 0; i < words.length; i++) {
+    words[i] = view.getUint32(i * 4, true);
+  }
+
+  const memory = new Uint32Array(blockWords * N);
+  const scratch = new Uint32Array(blockWords);
+
+  for (let chunk = 0; chunk < p; chunk++) {
+    const block = words.subarray(chunk * blockWords, (chunk + 1) * blockWords);
+
+    for (let i = 0; i < N; i++) {
+      memory.set(block, i * blockWords);
+      blockMix(block, scratch, r);
+    }
+    for (let i = 0; i < N; i++) {
+      const j = block[(2 * r - 1) * 16] & (N - 1);
+      for (let k = 0; k < blockWords; k++) {
+        block[k] ^= memory[j * blockWords + k];
+      }
+      blockMix(block, scratch, r);
+    }
+  }
+
+  for (let i = 0; i < words.length; i++) {
+    view.setUint32(i * 4, words[i], true);
+  }
+  return pbkdf2(password, bytes, length);
+}
+
+async function wrapBackupKey(backupKey: Uint8Array, secret: string): Promise<WrappedBackupKey> {
+  const salt = nacl.randomBytes(16);
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const wrappingKey = await scrypt(new TextEncoder().encode(secret), salt, SCRYPT_PARAMS, nacl.secretbox.keyLength);
+
+  return {
+    kdf: 'scrypt',
+    ...SCRYPT_PARAMS,
+    salt: encodeBase64(salt),
+    nonce: encodeBase64(nonce),
+    ciphertext: encodeBase64(nacl.secretbox(backupKey, nonce, wrappingKey)),
+  };
+}
+
+/**
+ * @returns The backup key, or null if the secret is wrong
+ */
+async function unwrapBackupKey(wrapped: WrappedBackupKey, secret: string): Promise<Uint8Array | null> {
+  const wrappingKey = await scrypt(
+    new TextEncoder().encode(secret),
+    decodeBase64(wrapped.salt),
+    { N: wrapped.N, r: wrapped.r, p: wrapped.p },
+    nacl.secretbox.keyLength
+  );
+  return nacl.secretbox.open(decodeBase64(wrapped.ciphertext), decodeBase64(wrapped.nonce), wrappingKey);
+}
+
+/**
+ * Random recovery code in groups of four, e.g. ABCD-EFGH-...
+ */
+function generateRecoveryCode(): string {
+  const bytes = nacl.randomBytes(RECOVERY_CODE_LENGTH);
+  const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+  return chars.join('').match(/.{4}/g)!.join('-');
+}
+
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Key backup service
+ * Keeps an encrypted copy of every device's message keys in Firestore so
+ * history stays readable after local storage is cleared or on a new device.
+ * A random backup key encrypts the bundles; it is stored wrapped with both
+ * the user's passphrase and a printable recovery code.
+ */
+export class KeyBackupService {
+  private static instance: KeyBackupService;
+
+  private constructor() {}
+
+  static getInstance(): KeyBackupService {
+    if (!KeyBackupService.instance) {
+      KeyBackupService.instance = new KeyBackupService();
+    }
+    return KeyBackupService.instance;
+  }
+
+  async hasBackup(userId: string): Promise<boolean> {
+    const backupDoc = await getDoc(doc(db, "keyBackups", userId));
+    return backupDoc.exists();
+  }
+
+  /**
+   * Whether to offer a restore at sign-in: a backup exists but this browser has no keys
+   */
+  async needsRestore(userId: string): Promise<boolean> {
+    if (await storageService.hasKeys(userId)) {
+      return false;
+    }
+    return this.hasBackup(userId);
+  }
+
+  /**
+   * Turn on key backup and back up this device
+   * @returns The recovery code, which is shown to the user once
+   */
+  async enableBackup(userId: string, passphrase: string): Promise<string> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    if (await this.hasBackup(userId)) {
+      throw new Error('Key backup is already enabled');
+    }
+
+    const backupKey = nacl.randomBytes(nacl.secretbox.keyLength);
+    const recoveryCode = generateRecoveryCode();
+
+    await setDoc(doc(db, "keyBackups", userId), {
+      passphrase: await wrapBackupKey(backupKey, passphrase),
+      recoveryCode: await wrapBackupKey(backupKey, normalizeRecoveryCode(recoveryCode)),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    await storageService.storeBackupKey(userId, encodeBase64(backupKey));
+    await this.backupNow(userId);
+
+    console.log('💾 Key backup enabled');
+    return recoveryCode;
+  }
+
+  /**
+   * Unlock an existing backup on this device so it backs up its own keys too
+   */
+  async enableOnThisDevice(userId: string, secret: string): Promise<void> {
+    const backupKey = await this.unlock(userId, secret);
+    await storageService.storeBackupKey(userId, encodeBase64(backupKey));
+    await this.backupNow(userId);
+  }
+
+  /**
+   * Encrypt this device's message keys and upload them
+   */
+  async backupNow(userId: string): Promise<void> {
+    const backupKey = await storageService.getBackupKey(userId);
+    const deviceId = await storageService.getDeviceId(userId);
+    if (!backupKey || !deviceId) {
+      throw new Error('Key backup is not unlocked on this device');
+    }
+    if (!(await this.hasBackup(userId))) {
+      // Turned off from another device
+      await storageService.storeBackupKey(userId, null);
+      throw new Error('Key backup is not enabled');
+    }
+
+    const messageKeys = await storageService.getAllMessageKeys(userId);
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+    const ciphertext = encodeBase64(nacl.secretbox(
+      new TextEncoder().encode(JSON.stringify(messageKeys)),
+      nonce,
+      decodeBase64(backupKey)
+    ));
+
+    const chunkCount = Math.max(1, Math.ceil(ciphertext.length / CHUNK_SIZE));
+    const bundleRef = doc(db, "keyBackups", userId, "bundles", deviceId);
+    const previous = await getDoc(bundleRef);
+    const previousChunkCount = previous.exists() ? (previous.data() as KeyBackupBundle).chunkCount : 0;
+
+    // Chunks first, so the bundle never points at a half-written backup
+    for (let index = 0; index < chunkCount; index++) {
+      await setDoc(doc(bundleRef, "chunks", String(index)), {
+        data: ciphertext.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE),
+      });
+    }
+    await setDoc(bundleRef, {
+      deviceId,
+      nonce: encodeBase64(nonce),
+      chunkCount,
+      messageKeyCount: messageKeys.length,
+      backedUpAt: serverTimestamp(),
+    });
+    for (let index = chunkCount; index < previousChunkCount; index++) {
+      await deleteDoc(doc(bundleRef, "chunks", String(index)));
+    }
+
+    console.log(`💾 Backed up ${messageKeys.length} message keys`);
+  }
+
+  /**
+   * Back up if this device has message keys the backup does not have yet
+   */
+  async backupIfStale(userId: string): Promise<void> {
+    const health = await this.getHealth(userId);
+    if (health.status === 'stale') {
+      await this.backupNow(userId);
+    }
+  }
+
+  /**
+   * Restore the message keys of all backed-up devices onto this browser
+   * This browser becomes a new linked device; sessions are not restored and
+   * are set up again with the next message.
+   * @returns Number of message keys restored
+   */
+  async restore(userId: string, secret: string): Promise<number> {
+    const backupKey = await this.unlock(userId, secret);
+
+    const bundles = await getDocs(collection(db, "keyBackups", userId, "bundles"));
+    const messageKeys: StoredMessageKey[] = [];
+    for (const bundleDoc of bundles.docs) {
+      const bundle = bundleDoc.data() as KeyBackupBundle;
+      const chunks = await Promise.all(
+        Array.from({ length: bundle.chunkCount }, (_, index) => getDoc(doc(bundleDoc.ref, "chunks", String(index))))
+      );
+      if (chunks.some(chunk => !chunk.exists())) {
+        console.warn(`⚠️ Skipping incomplete key backup of device ${bundle.deviceId}`);
+        continue;
+      }
+
+      const plaintext = nacl.secretbox.open(
+        decodeBase64(chunks.map(chunk => chunk.data()!.data).join('')),
+        decodeBase64(bundle.nonce),
+        backupKey
+      );
+      if (!plaintext) {
+        console.warn(`⚠️ Could not decrypt key backup of device ${bundle.deviceId}`);
+        continue;
+      }
+      messageKeys.push(...JSON.parse(new TextDecoder().decode(plaintext)));
+    }
+
+    await keyExchangeService.initializeUserKeys(userId);
+    for (const key of messageKeys) {
+      await storageService.storeMessageKey(userId, key.conversationId, key.messageKeyId, key.messageKey);
+    }
+    await storageService.storeBackupKey(userId, encodeBase64(backupKey));
+    await keyExchangeService.linkCurrentDeviceWithBackup(userId);
+    await this.backupNow(userId);
+
+    console.log(`💾 Restored ${messageKeys.length} message keys from ${bundles.size} devices`);
+    return messageKeys.length;
+  }
+
+  /**
+   * Turn off key backup for all devices and delete the backed-up keys
+   */
+  async disableBackup(userId: string): Promise<void> {
+    const bundles = await getDocs(collection(db, "keyBackups", userId, "bundles"));
+    for (const bundleDoc of bundles.docs) {
+      const chunks = await getDocs(collection(bundleDoc.ref, "chunks"));
+      await Promise.all(chunks.docs.map(chunk => deleteDoc(chunk.ref)));
+      await deleteDoc(bundleDoc.ref);
+    }
+    await deleteDoc(doc(db, "keyBackups", userId));
+    await storageService.storeBackupKey(userId, null);
+
+    console.log('💾 Key backup disabled');
+  }
+
+  async getHealth(userId: string): Promise<KeyBackupHealth> {
+    const health: KeyBackupHealth = { status: 'off', lastBackupAt: null, backedUpKeys: 0, pendingKeys: 0 };
+    if (!(await this.hasBackup(userId))) {
+      return health;
+    }
+
+    const deviceId = await storageService.getDeviceId(userId);
+    const backupKey = await storageService.getBackupKey(userId);
+    if (!deviceId || !backupKey) {
+      return { ...health, status: 'locked' };
+    }
+
+    const bundleDoc = await getDoc(doc(db, "keyBackups", userId, "bundles", deviceId));
+    const bundle = bundleDoc.exists() ? (bundleDoc.data() as KeyBackupBundle) : null;
+    const localKeys = (await storageService.getAllMessageKeys(userId)).length;
+
+    health.lastBackupAt = bundle?.backedUpAt?.toDate() || null;
+    health.backedUpKeys = bundle?.messageKeyCount || 0;
+    health.pendingKeys = Math.max(0, localKeys - health.backedUpKeys);
+    health.status = bundle && bundle.messageKeyCount === localKeys ? 'ok' : 'stale';
+    return health;
+  }
+
+  /**
+   * Unwrap the backup key with either the passphrase or the recovery code
+   */
+  private async unlock(userId: string, secret: string): Promise<Uint8Array> {
+    const backupDoc = await getDoc(doc(db, "keyBackups", userId));
+    if (!backupDoc.exists()) {
+      throw new Error('No key backup found');
+    }
+
+    const backup = backupDoc.data() as KeyBackupDocument;
+    const backupKey = await unwrapBackupKey(backup.passphrase, secret)
+      || await unwrapBackupKey(backup.recoveryCode, normalizeRecoveryCode(secret));
+    if (!backupKey) {
+      throw new Error('Incorrect passphrase or recovery code');
+    }
+    return backupKey;
+  }
+}
+
+export const keyBackupService = KeyBackupService.getInstance();
@@ -4,41 +4,121 @@ import {
   doc,
   getDoc,
   setDoc,
+  updateDoc,
+  deleteDoc,
   collection,
   query,
+  where,
   getDocs,
   serverTimestamp,
   Timestamp,
+  runTransaction,
+  writeBatch,
+  deleteField,
+  arrayUnion,
+  onSnapshot,
+  Unsubscribe,
 } from "firebase/firestore";
+import nacl from 'tweetnacl';
 import { db } from "@/lib/firebase-config";
-import { encryptionService, KeyPair } from './encryption.service';
+import { encryptionService, decodeBase64, EncryptedData, KeyPair } from './encryption.service';
 import { storageService } from './storage.service';
 
 export interface UserKeys {
   userId: string;
+  // Identity key of the user's first device, for clients without per-device keys
   publicKey: string;
-  preKeys: string[];
-  devices: Map<string, {
-    deviceId: string;
-    publicKey: string;
-    lastUpdated: Timestamp;
-  }>;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+export type DeviceStatus = 'pending' | 'active';
+
+/**
+ * One browser or app a user is signed in on, stored at
+ * userKeys/{userId}/devices/{deviceId}
+ * Every device has its own identity key and one-time prekeys.
+ */
 export interface DeviceInfo {
   deviceId: string;
+  name: string;
   publicKey: string;
+  preKeys: string[];
+  // New devices stay pending until a linked device confirms them
+  status: DeviceStatus;
+  linkedBy?: string;
+  linkedAt?: Timestamp;
+  createdAt: Timestamp;
   lastUpdated: Timestamp;
 }
 
+/**
+ * One version of a group's sender key, stored at
+ * conversations/{conversationId}/groupKeys/{version}
+ */
+export interface GroupKeyDocument {
+  version: number;
+  distributedBy: string;
+  // Public key the wrapped keys were sealed with
+  distributorPublicKey: string;
+  // Group key wrapped for each linked device of the current members,
+  // keyed by user ID and then device ID
+  keys: Record<string, Record<string, EncryptedData>>;
+  updatedAt: Timestamp;
+}
+
+export interface GroupKey {
+  version: number;
+  key: string;
+}
+
+/**
+ * Keys an initiator needs to set up a session with a user
+ */
+export interface PreKeyBundle {
+  identityKey: string;
+  // Null once the user has run out of published one-time prekeys
+  oneTimePreKey: string | null;
+}
+
+// Published one-time prekeys are topped up when fewer than this remain
+const MIN_PUBLISHED_PREKEYS = 5;
+const PREKEY_BATCH_SIZE = 10;
+
+/**
+ * Short label for the devices list, e.g. "Chrome on macOS"
+ */
+function describeDevice(): string {
+  if (typeof navigator === 'undefined') {
+    return 'Unknown device';
+  }
+
+  const agent = navigator.userAgent;
+  const browser = /Edg\//.test(agent) ? 'Edge'
+    : /Chrome\//.test(agent) ? 'Chrome'
+    : /Firefox\//.test(agent) ? 'Firefox'
+    : /Safari\//.test(agent) ? 'Safari'
+    : 'Browser';
+  const platform = /iPhone|iPad/.test(agent) ? 'iOS'
+    : /Android/.test(agent) ? 'Android'
+    : /Mac OS X/.test(agent) ? 'macOS'
+    : /Windows/.test(agent) ? 'Windows'
+    : /Linux/.test(agent) ? 'Linux'
+    : 'unknown OS';
+
+  return `${browser} on ${platform}`;
+}
+
 /**
  * Key exchange service for managing public keys and enabling E2EE
  * As specified in chat-architecture.mdc
  */
 export class KeyExchangeService {
   private static instance: KeyExchangeService;
+  // Unwrapped group keys for this session, keyed by `${conversationId}:${version}`
+  private groupKeyCache = new Map<string, string>();
+  // Registration of this device, refreshed while it is still pending
+  private currentDevice: DeviceInfo | null = null;
 
   private constructor() {}
 
@@ -64,6 +144,23 @@ export class KeyExchangeService {
       // Check if keys exist locally
       console.log('🔑 Checking for existing keys in IndexedDB...');
       let keyPair = await storageService.getKeyPair(userId);
+      let deviceId = await storageService.getDeviceId(userId);
+
+      if (keyPair && deviceId && !(await this.getDevice(userId, deviceId))) {
+        if ((await this.getDevices(userId)).length === 0) {
+          // Keys from before devices were registered become the first device
+          console.log('🔑 Registering existing keys as the first device');
+          const preKeys = await storageService.getPreKeys(userId);
+          await this.addDevice(userId, deviceId, keyPair.publicKey, preKeys.map(preKey => preKey.publicKey), 'active');
+        } else {
+          // This device was revoked; its keys and sessions must not be used again
+          console.warn('⚠️ This device was removed from the account, generating new keys');
+          await storageService.deleteRatchetSessions(userId);
+          await storageService.deleteMessageKeys(userId);
+          await storageService.deleteKeys(userId);
+          keyPair = null;
+        }
+      }
       
       if (!keyPair) {
         console.log('🔑 No existing keys found, generating new key pair...');
@@ -82,18 +179,25 @@ export class KeyExchangeService {
         // Store locally
         console.log('🔑 Storing key pair in IndexedDB...');
         await storageService.storeKeyPair(userId, keyPair);
-        console.log('🔑 Key pair stored successfully');
+        deviceId = await storageService.getDeviceId(userId);
+        console.log('🔑 Key pair stored successfully for device:', deviceId);
         
         // Generate prekeys
         console.log('🔑 Generating prekeys...');
-        const preKeys = encryptionService.generatePreKeys(10);
+        const preKeys = encryptionService.generatePreKeys(PREKEY_BATCH_SIZE);
         await storageService.storePreKeys(userId, preKeys);
         console.log('🔑 Prekeys generated and stored:', preKeys.length);
         
-        // Register public key and prekeys in Firestore
-        console.log('🔑 Registering public key in Firestore...');
-        await this.registerPublicKey(userId, keyPair.publicKey, preKeys);
-        console.log('🔑 Public key registered in Firestore');
+        if ((await this.getActiveDevices(userId)).length > 0) {
+          // A linked device has to confirm this one before it can read or send messages
+          console.log('🔑 Registering as a new device, waiting to be linked...');
+          await this.addDevice(userId, deviceId!, keyPair.publicKey, preKeys.map(preKey => preKey.publicKey), 'pending');
+        } else {
+          // Register public key and prekeys in Firestore
+          console.log('🔑 Registering public key in Firestore...');
+          await this.registerPublicKey(userId, keyPair.publicKey, preKeys.map(preKey => preKey.publicKey), deviceId!);
+          console.log('🔑 Public key registered in Firestore');
+        }
       } else {
         console.log('🔑 Existing keys found, loading into encryption service...');
         console.log('🔑 Loaded key pair, public key length:', keyPair.publicKey.length);
@@ -101,8 +205,18 @@ export class KeyExchangeService {
         // Load existing keys into encryption service
         encryptionService.setKeyPair(keyPair);
         console.log('🔑 Existing key pair loaded into encryption service');
+
+        // Other users consume our one-time prekeys as they start sessions
+        try {
+          await this.replenishPreKeys(userId);
+        } catch (error) {
+          console.warn('⚠️ Failed to replenish prekeys:', error);
+        }
       }
 
+      this.currentDevice = deviceId ? await this.getDevice(userId, deviceId) : null;
+      console.log('🔑 Device status:', this.currentDevice?.status);
+
       // Set current user ID for encryption service
       encryptionService.setCurrentUserId(userId);
       console.log('🔑 Current user ID set in encryption service:', userId);
@@ -124,31 +238,27 @@ export class KeyExchangeService {
   }
 
   /**
-   * Register user's public key and prekeys in Firestore
+   * Register user's public key in Firestore and this device's keys as a
+   * linked device
    */
   async registerPublicKey(userId: string, publicKey: string, preKeys: string[], deviceId?: string): Promise<void> {
-    const deviceInfo: DeviceInfo = {
-      deviceId: deviceId || `device_${Date.now()}`,
-      publicKey,
-      lastUpdated: serverTimestamp() as Timestamp,
-    };
+    const resolvedDeviceId = deviceId || await storageService.getDeviceId(userId) || `device_${Date.now()}`;
 
     const userKeysData: Partial<UserKeys> = {
       userId,
       publicKey,
-      preKeys,
-      devices: new Map([[deviceInfo.deviceId, deviceInfo]]),
       createdAt: serverTimestamp() as Timestamp,
       updatedAt: serverTimestamp() as Timestamp,
     };
 
-    // Convert Map to object for Firestore storage
-    const firestoreData = {
+    await setDoc(doc(db, "userKeys", userId), {
       ...userKeysData,
-      devices: Object.fromEntries(userKeysData.devices || new Map()),
-    };
+      // Prekeys and devices now live on the device documents
+      preKeys: deleteField(),
+      devices: deleteField(),
+    }, { merge: true });
 
-    await setDoc(doc(db, "userKeys", userId), firestoreData, { merge: true });
+    await this.addDevice(userId, resolvedDeviceId, publicKey, preKeys, 'active');
   }
 
   /**
@@ -182,24 +292,70 @@ export class KeyExchangeService {
   }
 
   /**
-   * Get prekeys for offline message exchange
+   * Get a device's prekeys for offline message exchange
    */
-  async getUserPreKeys(userId: string): Promise<string[]> {
+  async getUserPreKeys(userId: string, deviceId: string): Promise<string[]> {
     try {
-      const userKeysDoc = await getDoc(doc(db, "userKeys", userId));
-      
-      if (userKeysDoc.exists()) {
-        const data = userKeysDoc.data() as UserKeys;
-        return data.preKeys || [];
-      }
-      
-      return [];
+      const device = await this.getDevice(userId, deviceId);
+      return device?.preKeys || [];
     } catch (error) {
       console.error('Error fetching user prekeys:', error);
       return [];
     }
   }
 
+  /**
+   * Claim a linked device's identity key and one of its one-time prekeys
+   * The prekey is removed from the published list so no one else can use it
+   */
+  async claimPreKeyBundle(userId: string, deviceId: string): Promise<PreKeyBundle | null> {
+    const deviceRef = doc(db, "userKeys", userId, "devices", deviceId);
+
+    return runTransaction(db, async (transaction) => {
+      const deviceDoc = await transaction.get(deviceRef);
+      if (!deviceDoc.exists()) {
+        return null;
+      }
+
+      const device = deviceDoc.data() as DeviceInfo;
+      if (device.status !== 'active') {
+        return null;
+      }
+
+      const [oneTimePreKey, ...remaining] = device.preKeys || [];
+
+      if (oneTimePreKey) {
+        transaction.update(deviceRef, { preKeys: remaining });
+      }
+
+      return { identityKey: device.publicKey, oneTimePreKey: oneTimePreKey || null };
+    });
+  }
+
+  /**
+   * Publish a new batch of one-time prekeys for this device when too few remain
+   */
+  async replenishPreKeys(userId: string): Promise<void> {
+    const deviceId = await storageService.getDeviceId(userId);
+    if (!deviceId) {
+      return;
+    }
+
+    const published = await this.getUserPreKeys(userId, deviceId);
+    if (published.length >= MIN_PUBLISHED_PREKEYS) {
+      return;
+    }
+
+    const newPreKeys = encryptionService.generatePreKeys(PREKEY_BATCH_SIZE);
+    const existing = await storageService.getPreKeys(userId);
+    await storageService.storePreKeys(userId, [...existing, ...newPreKeys]);
+
+    await updateDoc(doc(db, "userKeys", userId, "devices", deviceId), {
+      preKeys: arrayUnion(...newPreKeys.map(preKey => preKey.publicKey)),
+      lastUpdated: serverTimestamp()
+    });
+  }
+
   /**
    * Get public keys for multiple users (for group chats)
    */
@@ -226,64 +382,203 @@ export class KeyExchangeService {
    * Rotate keys for forward secrecy
    */
   async rotateUserKeys(userId: string): Promise<KeyPair> {
+    const deviceId = await storageService.getDeviceId(userId);
+    const device = deviceId ? await this.getDevice(userId, deviceId) : null;
+
     // Generate new key pair
     const newKeyPair = encryptionService.generateKeyPair();
     
-    // Store new keys locally
-    await storageService.storeKeyPair(userId, newKeyPair);
+    // Store new keys locally under the same device
+    await storageService.storeKeyPair(userId, newKeyPair, deviceId || undefined);
     
     // Generate new prekeys
-    const newPreKeys = encryptionService.generatePreKeys(10);
+    const newPreKeys = encryptionService.generatePreKeys(PREKEY_BATCH_SIZE);
     await storageService.storePreKeys(userId, newPreKeys);
     
-    // Update Firestore with new public key
-    await this.registerPublicKey(userId, newKeyPair.publicKey, newPreKeys);
+    // Update Firestore with new public key, keeping the device's link status
+    if (device?.status === 'pending') {
+      await this.addDevice(userId, deviceId!, newKeyPair.publicKey, newPreKeys.map(preKey => preKey.publicKey), 'pending');
+    } else {
+      await this.registerPublicKey(userId, newKeyPair.publicKey, newPreKeys.map(preKey => preKey.publicKey), deviceId || undefined);
+    }
     
     return newKeyPair;
   }
 
   /**
-   * Add a new device for multi-device support
+   * Get every device registered for a user, linked or pending
    */
-  async addDevice(userId: string, deviceId: string, devicePublicKey: string): Promise<void> {
-    const userKeysRef = doc(db, "userKeys", userId);
-    const userKeysDoc = await getDoc(userKeysRef);
-    
-    if (userKeysDoc.exists()) {
-      const data = userKeysDoc.data() as any;
-      const devices = data.devices || {};
-      
-      devices[deviceId] = {
-        deviceId,
-        publicKey: devicePublicKey,
+  async getDevices(userId: string): Promise<DeviceInfo[]> {
+    const snapshot = await getDocs(collection(db, "userKeys", userId, "devices"));
+    return snapshot.docs.map(deviceDoc => deviceDoc.data() as DeviceInfo);
+  }
+
+  /**
+   * Listen to the devices registered for a user
+   */
+  subscribeDevices(userId: string, onChange: (devices: DeviceInfo[]) => void): Unsubscribe {
+    return onSnapshot(
+      collection(db, "userKeys", userId, "devices"),
+      (snapshot) => onChange(snapshot.docs.map(deviceDoc => deviceDoc.data() as DeviceInfo)),
+      (error) => console.error('Error listening to user devices:', error)
+    );
+  }
+
+  /**
+   * Get the linked devices of a user, which messages are encrypted for
+   */
+  async getActiveDevices(userId: string): Promise<DeviceInfo[]> {
+    const devices = await this.getDevices(userId);
+    return devices.filter(device => device.status === 'active');
+  }
+
+  /**
+   * Get one registered device of a user
+   */
+  async getDevice(userId: string, deviceId: string): Promise<DeviceInfo | null> {
+    const deviceDoc = await getDoc(doc(db, "userKeys", userId, "devices", deviceId));
+    return deviceDoc.exists() ? deviceDoc.data() as DeviceInfo : null;
+  }
+
+  /**
+   * Get the ID of the device this browser registered as
+   */
+  async getCurrentDeviceId(userId: string): Promise<string | null> {
+    return storageService.getDeviceId(userId);
+  }
+
+  /**
+   * Whether this browser is a linked device that can send and read messages
+   */
+  async isCurrentDeviceLinked(userId: string): Promise<boolean> {
+    if (this.currentDevice?.status !== 'active') {
+      const deviceId = await storageService.getDeviceId(userId);
+      this.currentDevice = deviceId ? await this.getDevice(userId, deviceId) : null;
+    }
+    return this.currentDevice?.status === 'active';
+  }
+
+  /**
+   * Register a device's identity key and one-time prekeys
+   */
+  async addDevice(
+    userId: string,
+    deviceId: string,
+    devicePublicKey: string,
+    preKeys: string[] = [],
+    status: DeviceStatus = 'active'
+  ): Promise<void> {
+    await setDoc(doc(db, "userKeys", userId, "devices", deviceId), {
+      deviceId,
+      name: describeDevice(),
+      publicKey: devicePublicKey,
+      preKeys,
+      status,
+      createdAt: serverTimestamp(),
+      lastUpdated: serverTimestamp(),
+    }, { merge: true });
+  }
+
+  /**
+   * Code a pending device shows for its owner to confirm from a linked device
+   * It is derived from the device's identity key, so a key swapped in
+   * Firestore produces a different code
+   */
+  getLinkCode(publicKey: string): string {
+    const digest = nacl.hash(decodeBase64(publicKey));
+    const value = new DataView(digest.buffer, digest.byteOffset, 4).getUint32(0) % 1000000;
+    return value.toString().padStart(6, '0');
+  }
+
+  /**
+   * Link a pending device after the user confirmed its code on this device
+   */
+  async linkDevice(userId: string, deviceId: string, code: string): Promise<void> {
+    if (!(await this.isCurrentDeviceLinked(userId))) {
+      throw new Error('Only a linked device can link new devices');
+    }
+
+    const device = await this.getDevice(userId, deviceId);
+    if (!device || device.status !== 'pending') {
+      throw new Error('This device is not waiting to be linked');
+    }
+
+    if (this.getLinkCode(device.publicKey) !== code.replace(/\s/g, '')) {
+      throw new Error('The code does not match the one shown on the new device');
+    }
+
+    await updateDoc(doc(db, "userKeys", userId, "devices", deviceId), {
+      status: 'active',
+      linkedBy: this.currentDevice!.deviceId,
+      linkedAt: serverTimestamp(),
+      lastUpdated: serverTimestamp(),
+    });
+
+    console.log('🔗 Linked device:', deviceId);
+
+    // The next group message rotates the key and wraps it for the new device
+    await this.flagGroupKeysForRotation(userId);
+  }
+
+  /**
+   * Link this device without a code once the user has unlocked their key
+   * backup on it, which proves they hold the passphrase or recovery code
+   */
+  async linkCurrentDeviceWithBackup(userId: string): Promise<void> {
+    const deviceId = await storageService.getDeviceId(userId);
+    const device = deviceId ? await this.getDevice(userId, deviceId) : null;
+    if (!device) {
+      throw new Error('This device has no registered keys');
+    }
+
+    if (device.status === 'pending') {
+      await updateDoc(doc(db, "userKeys", userId, "devices", device.deviceId), {
+        status: 'active',
+        linkedBy: 'backup',
+        linkedAt: serverTimestamp(),
         lastUpdated: serverTimestamp(),
-      };
-      
-      await setDoc(userKeysRef, { 
-        devices,
-        updatedAt: serverTimestamp()
-      }, { merge: true });
+      });
+      await this.flagGroupKeysForRotation(userId);
+      console.log('🔗 Linked this device with the key backup');
     }
+
+    this.currentDevice = await this.getDevice(userId, device.deviceId);
   }
 
   /**
-   * Remove a device
+   * Revoke a device so it no longer receives messages or group keys
+   * Groups the user is in rotate their key on the next message, since the
+   * device may still hold the current one
    */
   async removeDevice(userId: string, deviceId: string): Promise<void> {
-    const userKeysRef = doc(db, "userKeys", userId);
-    const userKeysDoc = await getDoc(userKeysRef);
-    
-    if (userKeysDoc.exists()) {
-      const data = userKeysDoc.data() as any;
-      const devices = data.devices || {};
-      
-      delete devices[deviceId];
-      
-      await setDoc(userKeysRef, { 
-        devices,
-        updatedAt: serverTimestamp()
-      }, { merge: true });
-    }
+    await deleteDoc(doc(db, "userKeys", userId, "devices", deviceId));
+    await this.flagGroupKeysForRotation(userId, deviceId);
+
+    console.log(`🔗 Removed device ${deviceId}`);
+  }
+
+  /**
+   * Mark the key of every group the user is in for rotation after their
+   * devices changed, optionally revoking a removed device's wrapped keys
+   */
+  private async flagGroupKeysForRotation(userId: string, removedDeviceId?: string): Promise<void> {
+    const conversations = await getDocs(
+      query(collection(db, "conversations"), where("members", "array-contains", userId))
+    );
+    const groups = conversations.docs.filter(conversation => conversation.data().type === 'group');
+
+    await Promise.all(groups.map(async (group) => {
+      const batch = writeBatch(db);
+      if (removedDeviceId) {
+        const keyDocs = await getDocs(collection(db, "conversations", group.id, "groupKeys"));
+        keyDocs.docs.forEach(keyDoc => {
+          batch.update(keyDoc.ref, { [`keys.${userId}.${removedDeviceId}`]: deleteField() });
+        });
+      }
+      batch.set(group.ref, { groupKeyStale: true }, { merge: true });
+      await batch.commit();
+      this.clearGroupKeys(group.id);
+    }));
   }
 
   /**
@@ -318,21 +613,26 @@ export class KeyExchangeService {
    * Cleanup old prekeys (security maintenance)
    */
   async cleanupOldPreKeys(userId: string, maxAge: number = 30 * 24 * 60 * 60 * 1000): Promise<void> {
-    const userKeysRef = doc(db, "userKeys", userId);
-    const userKeysDoc = await getDoc(userKeysRef);
+    const deviceId = await storageService.getDeviceId(userId);
+    if (!deviceId) {
+      return;
+    }
+
+    const deviceRef = doc(db, "userKeys", userId, "devices", deviceId);
+    const deviceDoc = await getDoc(deviceRef);
     
-    if (userKeysDoc.exists()) {
-      const data = userKeysDoc.data() as any;
+    if (deviceDoc.exists()) {
+      const data = deviceDoc.data() as any;
       const createdAt = data.createdAt?.toDate();
       
       if (createdAt && (Date.now() - createdAt.getTime()) > maxAge) {
         // Generate new prekeys
-        const newPreKeys = encryptionService.generatePreKeys(10);
+        const newPreKeys = encryptionService.generatePreKeys(PREKEY_BATCH_SIZE);
         
-        await setDoc(userKeysRef, {
-          preKeys: newPreKeys,
-          updatedAt: serverTimestamp()
-        }, { merge: true });
+        await updateDoc(deviceRef, {
+          preKeys: newPreKeys.map(preKey => preKey.publicKey),
+          lastUpdated: serverTimestamp()
+        });
         
         // Update local storage
         await storageService.storePreKeys(userId, newPreKeys);
@@ -353,14 +653,225 @@ export class KeyExchangeService {
   async verifyKeyIntegrity(userId: string): Promise<boolean> {
     try {
       const localKeys = await storageService.getKeyPair(userId);
-      const remotePublicKey = await this.getUserPublicKey(userId);
+      const deviceId = await storageService.getDeviceId(userId);
+      const device = deviceId ? await this.getDevice(userId, deviceId) : null;
       
-      return localKeys?.publicKey === remotePublicKey;
+      return !!localKeys && localKeys.publicKey === device?.publicKey;
     } catch (error) {
       console.error('Error verifying key integrity:', error);
       return false;
     }
   }
+
+  /**
+   * Get the sender key a group conversation currently encrypts with
+   * Returns null when the group has no key yet or its key is due for rotation
+   */
+  async getCurrentGroupKey(conversationId: string, userId: string): Promise<GroupKey | null> {
+    const conversationDoc = await getDoc(doc(db, "conversations", conversationId));
+    const data = conversationDoc.data();
+
+    if (!data?.groupKeyVersion || data.groupKeyStale) {
+      return null;
+    }
+
+    const key = await this.getGroupKey(conversationId, data.groupKeyVersion, userId);
+    return key ? { version: data.groupKeyVersion, key } : null;
+  }
+
+  /**
+   * Get one version of a group's sender key, unwrapped for a member on this device
+   * Returns null when the key was not distributed to that member's device
+   */
+  async getGroupKey(conversationId: string, version: number, userId: string): Promise<string | null> {
+    const cacheKey = `${conversationId}:${version}`;
+    const cached = this.groupKeyCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const keyDoc = await getDoc(doc(db, "conversations", conversationId, "groupKeys", String(version)));
+      if (!keyDoc.exists()) {
+        return null;
+      }
+
+      const data = keyDoc.data() as GroupKeyDocument;
+      const deviceId = await storageService.getDeviceId(userId);
+      const wrappedKey = deviceId ? data.keys?.[userId]?.[deviceId] : undefined;
+      if (!wrappedKey) {
+        return null;
+      }
+
+      const groupKey = encryptionService.unwrapGroupKey(wrappedKey, data.distributorPublicKey);
+      if (groupKey) {
+        this.groupKeyCache.set(cacheKey, groupKey);
+      }
+      return groupKey;
+    } catch (error) {
+      console.error('Error fetching group key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Rotate a group's sender key and distribute it to every linked device of
+   * the current members
+   * Earlier versions are re-wrapped for the same members, so current members
+   * can read the group history and removed members lose access to it.
+   * If another member rotated first, their key is returned instead.
+   */
+  async distributeGroupKey(conversationId: string, memberIds: string[], distributorId: string): Promise<GroupKey> {
+    const distributorPublicKey = encryptionService.getPublicKey();
+    if (!distributorPublicKey) {
+      throw new Error('No key pair available. Generate or load keys first.');
+    }
+    if (!(await this.isCurrentDeviceLinked(distributorId))) {
+      throw new Error('This device is not linked yet');
+    }
+
+    const conversationRef = doc(db, "conversations", conversationId);
+    const conversationDoc = await getDoc(conversationRef);
+    const currentVersion: number = conversationDoc.data()?.groupKeyVersion || 0;
+
+    const memberDevices = new Map<string, DeviceInfo[]>();
+    await Promise.all(memberIds.map(async (memberId) => {
+      try {
+        const devices = await this.getActiveDevices(memberId);
+        if (devices.length > 0) {
+          memberDevices.set(memberId, devices);
+        }
+      } catch (error) {
+        console.error('Error fetching member devices:', error);
+      }
+    }));
+
+    const missingKeys = memberIds.filter(id => !memberDevices.has(id));
+    if (missingKeys.length > 0) {
+      console.warn('⚠️ Group members without linked devices will not receive the group key:', missingKeys);
+    }
+
+    const wrapForMembers = (groupKey: string) => Object.fromEntries(
+      Array.from(memberDevices.entries()).map(([memberId, devices]) => [
+        memberId,
+        Object.fromEntries(devices.map(device => [
+          device.deviceId,
+          encryptionService.wrapGroupKey(groupKey, device.publicKey),
+        ])),
+      ])
+    );
+
+    // Re-wrap every earlier version; ones this member cannot open only drop removed members
+    const history = await Promise.all(
+      Array.from({ length: currentVersion }, (_, i) => i + 1).map(async (version) => {
+        const keyRef = doc(db, "conversations", conversationId, "groupKeys", String(version));
+        const groupKey = await this.getGroupKey(conversationId, version, distributorId);
+
+        if (groupKey) {
+          return {
+            ref: keyRef,
+            data: {
+              version,
+              distributedBy: distributorId,
+              distributorPublicKey,
+              keys: wrapForMembers(groupKey),
+              updatedAt: serverTimestamp(),
+            },
+          };
+        }
+
+        const keyDoc = await getDoc(keyRef);
+        if (!keyDoc.exists()) {
+          return null;
+        }
+
+        const existing = keyDoc.data() as GroupKeyDocument;
+        return {
+          ref: keyRef,
+          data: {
+            ...existing,
+            keys: Object.fromEntries(
+              Object.entries(existing.keys || {}).filter(([memberId]) => memberIds.includes(memberId))
+            ),
+            updatedAt: serverTimestamp(),
+          },
+        };
+      })
+    );
+
+    const groupKey = encryptionService.generateGroupKey();
+    const nextVersion = currentVersion + 1;
+
+    const rotated = await runTransaction(db, async (transaction) => {
+      const latest = await transaction.get(conversationRef);
+      if ((latest.data()?.groupKeyVersion || 0) !== currentVersion) {
+        return false;
+      }
+
+      history.forEach(entry => {
+        if (entry) {
+          transaction.set(entry.ref, entry.data);
+        }
+      });
+      transaction.set(doc(db, "conversations", conversationId, "groupKeys", String(nextVersion)), {
+        version: nextVersion,
+        distributedBy: distributorId,
+        distributorPublicKey,
+        keys: wrapForMembers(groupKey),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(conversationRef, { groupKeyVersion: nextVersion, groupKeyStale: false }, { merge: true });
+
+      return true;
+    });
+
+    if (!rotated) {
+      const current = await this.getCurrentGroupKey(conversationId, distributorId);
+      if (!current) {
+        throw new Error('Group key was rotated by another member but is not available');
+      }
+      return current;
+    }
+
+    this.groupKeyCache.set(`${conversationId}:${nextVersion}`, groupKey);
+    console.log(`🔑 Distributed group key v${nextVersion} to ${memberDevices.size} members of ${conversationId}`);
+
+    return { version: nextVersion, key: groupKey };
+  }
+
+  /**
+   * Flag a group's sender key for rotation by the next member who sends,
+   * optionally removing members' access to every key version right away
+   * Used when the caller cannot rotate the key itself, e.g. a member leaving
+   */
+  async invalidateGroupKey(conversationId: string, revokedUserIds: string[] = []): Promise<void> {
+    const batch = writeBatch(db);
+
+    if (revokedUserIds.length > 0) {
+      const snapshot = await getDocs(collection(db, "conversations", conversationId, "groupKeys"));
+      snapshot.docs.forEach(keyDoc => {
+        batch.update(keyDoc.ref, Object.fromEntries(
+          revokedUserIds.map(userId => [`keys.${userId}`, deleteField()])
+        ));
+      });
+    }
+
+    batch.set(doc(db, "conversations", conversationId), { groupKeyStale: true }, { merge: true });
+    await batch.commit();
+
+    this.clearGroupKeys(conversationId);
+  }
+
+  /**
+   * Forget the unwrapped group keys cached for a conversation
+   */
+  clearGroupKeys(conversationId: string): void {
+    for (const cacheKey of Array.from(this.groupKeyCache.keys())) {
+      if (cacheKey.startsWith(`${conversationId}:`)) {
+        this.groupKeyCache.delete(cacheKey);
+      }
+    }
+  }
 }
 
 // Export singleton instance
@@ -5,6 +5,7 @@
 
 import { EncryptionService } from './encryption.service';
 import { keyExchangeService } from './key-exchange.service';
+import { ratchetService } from './ratchet.service';
 import { auth } from '@/lib/firebase-config';
 
 const encryptionService = EncryptionService.getInstance();
@@ -60,6 +61,58 @@ export async function decryptMessage(
       return { success: true, text: messageData.text || messageData.url || '' };
     }
 
+    // Group messages are encrypted with a versioned sender key shared by the
+    // members, so the sender reads them the same way as everyone else
+    if (typeof messageData.keyVersion === 'number' && messageData.nonce) {
+      if (!messageData.conversationId) {
+        return { success: false, text: '[Decryption failed]', error: 'Missing conversation ID' };
+      }
+
+      const groupKey = await keyExchangeService.getGroupKey(
+        messageData.conversationId,
+        messageData.keyVersion,
+        userId
+      );
+
+      if (!groupKey) {
+        // Key versions are only wrapped for current members
+        return { success: false, text: '[Group key not available]', error: 'No group key' };
+      }
+
+      const decrypted = encryptionService.decryptGroupMessage(
+        { content: messageData.text, nonce: messageData.nonce },
+        groupKey
+      );
+
+      return decrypted !== null
+        ? { success: true, text: decrypted }
+        : { success: false, text: '[Decryption failed]', error: 'Group decryption failed' };
+    }
+
+    // Direct messages are encrypted per device with a double ratchet; the
+    // sending device reads its own copy with the message keys it kept
+    if (messageData.envelopes && messageData.senderDevice) {
+      if (!messageData.conversationId) {
+        return { success: false, text: '[Decryption failed]', error: 'Missing conversation ID' };
+      }
+
+      const decrypted = await ratchetService.decrypt(userId, messageData.conversationId, messageData.senderId, {
+        senderDevice: messageData.senderDevice,
+        envelopes: messageData.envelopes
+      });
+      if (decrypted !== null) {
+        return { success: true, text: decrypted };
+      }
+
+      const deviceId = await keyExchangeService.getCurrentDeviceId(userId);
+      if (!deviceId || (messageData.senderDevice !== deviceId && !messageData.envelopes[deviceId])) {
+        // Sent before this device was linked, or while it was revoked
+        return { success: false, text: '[Not encrypted for this device]', error: 'No envelope for device' };
+      }
+
+      return { success: false, text: '[Decryption failed]', error: 'Ratchet decryption failed' };
+    }
+
     // Determine if this is the sender's own message
     // Primary check: senderId matches current user
     // Fallback check: presence of sender plaintext copy per E2EE spec
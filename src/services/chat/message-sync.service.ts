@@ -0,0 +1,235 @@
+/**
+ * Message Sync Service - Exactly-once delivery across socket and Firestore
+ * Tracks the last contiguous sequence number received per conversation,
+ * fills gaps with `sync:since` and acknowledges what has been received
+ */
+
+"use client";
+
+import { Socket } from 'socket.io-client';
+
+const SYNC_CURSORS_KEY = 'pxl_chat_sync_cursors';
+const SYNC_PAGE_SIZE = 100;
+const ACK_DELAY_MS = 1000;
+
+export interface SyncedMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  seq: number;
+  clientMessageId?: string;
+  timestamp: string;
+  [field: string]: any;
+}
+
+export interface SyncResult {
+  messages: SyncedMessage[];
+  lastSeq: number;
+  hasMore: boolean;
+}
+
+export class MessageSyncService {
+  private static instance: MessageSyncService;
+  // Last contiguous sequence number received, per conversation
+  private cursors: Record<string, number> = {};
+  // Received sequence numbers beyond a gap, per conversation
+  private pending = new Map<string, Set<number>>();
+  private ackTimeouts = new Map<string, NodeJS.Timeout>();
+  private syncing = new Map<string, Promise<SyncedMessage[]>>();
+
+  private constructor() {
+    this.loadCursors();
+  }
+
+  static getInstance(): MessageSyncService {
+    if (!MessageSyncService.instance) {
+      MessageSyncService.instance = new MessageSyncService();
+    }
+    return MessageSyncService.instance;
+  }
+
+  /**
+   * Create the ID a message keeps on every path and retry; the server and
+   * the Firestore fallback use it as the message document ID
+   */
+  createClientMessageId(): string {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+      return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 12)}`;
+  }
+
+  /**
+   * Get the last contiguous sequence number received for a conversation
+   * @returns Undefined if nothing was received on this device yet
+   */
+  getCursor(conversationId: string): number | undefined {
+    return this.cursors[conversationId];
+  }
+
+  /**
+   * Record a received sequence number
+   * @returns True if earlier messages are missing and should be synced
+   */
+  track(conversationId: string, seq?: number): boolean {
+    if (typeof seq !== 'number') return false;
+
+    const cursor = this.cursors[conversationId];
+    // Nothing received on this device yet; history comes from Firestore
+    if (cursor === undefined) {
+      this.setCursor(conversationId, seq);
+      return false;
+    }
+    if (seq <= cursor) return false;
+
+    const pending = this.pending.get(conversationId) || new Set<number>();
+    pending.add(seq);
+    this.pending.set(conversationId, pending);
+
+    // Advance over everything now contiguous
+    let next = cursor;
+    while (pending.has(next + 1)) {
+      next++;
+      pending.delete(next);
+    }
+    if (next !== cursor) {
+      this.setCursor(conversationId, next);
+    }
+    return pending.size > 0;
+  }
+
+  /**
+   * Record the latest messages of a Firestore snapshot, which are authoritative
+   * for everything up to the highest sequence number in it
+   */
+  trackSnapshot(conversationId: string, seqs: Array<number | undefined>): void {
+    const highest = Math.max(...seqs.filter((seq): seq is number => typeof seq === 'number'));
+    if (!isFinite(highest)) return;
+
+    const cursor = this.cursors[conversationId];
+    if (cursor === undefined || highest > cursor) {
+      this.pending.delete(conversationId);
+      this.setCursor(conversationId, highest);
+    }
+  }
+
+  /**
+   * Fetch every message after the cursor from the chat server
+   * Concurrent calls for the same conversation share one request.
+   */
+  syncSince(socket: Socket, conversationId: string): Promise<SyncedMessage[]> {
+    const existing = this.syncing.get(conversationId);
+    if (existing) return existing;
+
+    const request = this.fetchAll(socket, conversationId).then(
+      messages => {
+        this.syncing.delete(conversationId);
+        return messages;
+      },
+      error => {
+        this.syncing.delete(conversationId);
+        throw error;
+      }
+    );
+    this.syncing.set(conversationId, request);
+    return request;
+  }
+
+  /**
+   * Acknowledge received messages, batched per conversation
+   */
+  scheduleAck(socket: Socket, conversationId: string): void {
+    if (this.ackTimeouts.has(conversationId)) return;
+
+    const timeout = setTimeout(() => {
+      this.ackTimeouts.delete(conversationId);
+      const seq = this.cursors[conversationId];
+      if (seq !== undefined && socket.connected) {
+        socket.emit('message:ack', { conversationId, seq });
+      }
+    }, ACK_DELAY_MS);
+    this.ackTimeouts.set(conversationId, timeout);
+  }
+
+  /**
+   * Conversations with a cursor, to sync after reconnecting
+   */
+  getTrackedConversations(): string[] {
+    return Object.keys(this.cursors);
+  }
+
+  private async fetchAll(socket: Socket, conversationId: string): Promise<SyncedMessage[]> {
+    const messages: SyncedMessage[] = [];
+    let since = this.cursors[conversationId];
+    if (since === undefined) return messages;
+
+    // Page until the server has nothing newer
+    let lastSeq = since;
+    for (;;) {
+      const result = await this.requestPage(socket, conversationId, since);
+      messages.push(...result.messages);
+      result.messages.forEach(message => this.track(conversationId, message.seq));
+      lastSeq = Math.max(lastSeq, result.lastSeq);
+
+      const last = result.messages[result.messages.length - 1];
+      if (!result.hasMore || !last) break;
+      since = last.seq;
+    }
+
+    // Everything up to the server's last sequence number has been returned,
+    // so any remaining gap is from deleted messages and can be skipped
+    this.pending.delete(conversationId);
+    if (lastSeq > (this.cursors[conversationId] || 0)) {
+      this.setCursor(conversationId, lastSeq);
+    }
+
+    console.log(`🔄 Synced ${messages.length} missed messages in ${conversationId}`);
+    return messages;
+  }
+
+  private requestPage(socket: Socket, conversationId: string, since: number): Promise<SyncResult> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Sync timed out')), 10000);
+
+      socket.emit('sync:since', { conversationId, since, limit: SYNC_PAGE_SIZE }, (err: any, result: SyncResult) => {
+        clearTimeout(timeout);
+        if (err) {
+          reject(new Error(typeof err === 'string' ? err : err.message || 'Sync failed'));
+        } else {
+          resolve(result);
+        }
+      });
+    });
+  }
+
+  private setCursor(conversationId: string, seq: number): void {
+    this.cursors[conversationId] = seq;
+    this.saveCursors();
+  }
+
+  private loadCursors(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(SYNC_CURSORS_KEY);
+      if (stored) {
+        this.cursors = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('Failed to load sync cursors:', error);
+      this.cursors = {};
+    }
+  }
+
+  private saveCursors(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(SYNC_CURSORS_KEY, JSON.stringify(this.cursors));
+    } catch (error) {
+      console.error('Failed to save sync cursors:', error);
+    }
+  }
+}
+
+export const messageSyncService = MessageSyncService.getInstance();
@@ -18,7 +18,8 @@ export interface NotificationPayload {
     conversationId?: string;
     messageId?: string;
     senderId?: string;
-    type?: 'message' | 'reaction' | 'mention';
+    threadId?: string; // Root message, for replies in a thread
+    type?: 'message' | 'reaction' | 'mention' | 'thread';
   };
 }
 
@@ -237,7 +238,7 @@ class NotificationService {
       
       // Navigate to conversation if data is provided
       if (payload.data?.conversationId) {
-        window.location.href = `/messages?conversation=${payload.data.conversationId}`;
+        window.location.href = this.getConversationUrl(payload);
       }
       
       notification.close();
@@ -273,7 +274,7 @@ class NotificationService {
     // Add click handler
     toast.onclick = () => {
       if (payload.data?.conversationId) {
-        window.location.href = `/messages?conversation=${payload.data.conversationId}`;
+        window.location.href = this.getConversationUrl(payload);
       }
       toast.remove();
     };
@@ -284,6 +285,14 @@ class NotificationService {
     setTimeout(() => toast.remove(), 4000);
   }
 
+  /**
+   * Link to the conversation of a notification, and the thread it is about
+   */
+  private getConversationUrl(payload: NotificationPayload): string {
+    const thread = payload.data?.threadId ? `&thread=${payload.data.threadId}` : '';
+    return `/messages?conversation=${payload.data?.conversationId}${thread}`;
+  }
+
   /**
    * Get unique device ID
    */
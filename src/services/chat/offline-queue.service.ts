@@ -162,14 +162,17 @@ export class OfflineQueueService {
         
         store.socket!.emit('message:send', {
           conversationId: message.conversationId,
+          // Same ID on every retry, so the server stores the message once
+          clientMessageId: message.clientMessageId || message.id,
           type: message.type,
+          text: message.content,
           content: message.content,
           nonce: message.nonce,
           replyTo: message.replyTo,
           metadata: message.metadata
-        }, (response: any) => {
+        }, (err: any, response: any) => {
           clearTimeout(timeout);
-          resolve(response?.success || false);
+          resolve(!err && !!response?.success);
         });
       });
     } catch (error) {
@@ -277,6 +280,23 @@ export class OfflineQueueService {
     this.saveQueue();
   }
 
+  /**
+   * Remove messages that expired on the server
+   */
+  removeMessages(messageIds: string[]): void {
+    messageIds.filter(id => this.isInQueue(id)).forEach(id => this.removeFromQueue(id));
+  }
+
+  /**
+   * Drop queued disappearing messages whose timer ran out before they were sent
+   */
+  purgeExpired(): void {
+    const now = Date.now();
+    this.queue
+      .filter(msg => msg.expiresAt && msg.expiresAt <= now)
+      .forEach(msg => this.removeFromQueue(msg.id));
+  }
+
   /**
    * Check if a message is in the queue
    */
@@ -0,0 +1,563 @@
+"use client";
+
+import nacl from 'tweetnacl';
+import { decodeBase64, encodeBase64, KeyPair } from './encryption.service';
+import { keyExchangeService } from './key-exchange.service';
+import { storageService } from './storage.service';
+
+/**
+ * X3DH-style session setup published in the header until the peer replies
+ * There is no signed prekey; the recipient's identity key stands in for it
+ */
+export interface X3DHHeader {
+  identityKey: string;
+  ephemeralKey: string;
+  // Recipient one-time prekey used, null if none were left
+  oneTimePreKey: string | null;
+}
+
+/**
+ * Double-ratchet header carried by every direct message
+ */
+export interface RatchetHeader {
+  // Sender's current ratchet public key
+  dh: string;
+  // Number of messages in the sender's previous sending chain
+  pn: number;
+  // Message number in the current sending chain
+  n: number;
+  x3dh?: X3DHHeader;
+}
+
+export interface RatchetEnvelope {
+  header: RatchetHeader;
+  content: string;
+  nonce: string;
+}
+
+/**
+ * A direct message encrypted separately for each linked device of the
+ * conversation members
+ */
+export interface DeviceEnvelopes {
+  senderDevice: string;
+  // Keyed by recipient device ID
+  envelopes: Record<string, RatchetEnvelope>;
+}
+
+/**
+ * Double-ratchet state between this device and one peer device in a
+ * conversation, kept in IndexedDB
+ */
+export interface RatchetSession {
+  id: string;
+  userId: string;
+  conversationId: string;
+  peerId: string;
+  peerDeviceId: string;
+  rootKey: string;
+  dhSelf: KeyPair;
+  dhRemote: string | null;
+  sendingChainKey: string | null;
+  receivingChainKey: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  // Keys of messages that have not arrived yet, keyed by `${dh}:${n}`
+  skippedKeys: Record<string, string>;
+  // Repeated in headers until the peer replies, set for the initiator only
+  pendingX3DH: X3DHHeader | null;
+  // Ephemeral key of the X3DH setup this session answered, set for the responder only
+  remoteEphemeralKey: string | null;
+  updatedAt: string;
+}
+
+// Most message keys skipped in one chain before a header is rejected
+const MAX_SKIP = 1000;
+
+const ROOT_INFO = new TextEncoder().encode('pxl-chat-ratchet-root');
+const X3DH_INFO = new TextEncoder().encode('pxl-chat-x3dh');
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function newKeyPair(): KeyPair {
+  const keyPair = nacl.box.keyPair();
+  return {
+    publicKey: encodeBase64(keyPair.publicKey),
+    privateKey: encodeBase64(keyPair.secretKey)
+  };
+}
+
+function dh(privateKey: string, publicKey: string): Uint8Array {
+  return nacl.scalarMult(decodeBase64(privateKey), decodeBase64(publicKey));
+}
+
+/**
+ * Root key KDF: returns the next root key and a new chain key
+ */
+function kdfRoot(rootKey: string, dhOutput: Uint8Array): [string, string] {
+  const output = nacl.hash(concatBytes(decodeBase64(rootKey), dhOutput, ROOT_INFO));
+  return [encodeBase64(output.slice(0, 32)), encodeBase64(output.slice(32, 64))];
+}
+
+/**
+ * Chain key KDF: returns the next chain key and the message key
+ */
+function kdfChain(chainKey: string): [string, string] {
+  const key = decodeBase64(chainKey);
+  const nextChainKey = nacl.hash(concatBytes(key, new Uint8Array([0x02]))).slice(0, 32);
+  const messageKey = nacl.hash(concatBytes(key, new Uint8Array([0x01]))).slice(0, 32);
+  return [encodeBase64(nextChainKey), encodeBase64(messageKey)];
+}
+
+/**
+ * Shared secret from the X3DH Diffie-Hellman outputs
+ */
+function x3dhSecret(dhOutputs: Uint8Array[]): string {
+  return encodeBase64(nacl.hash(concatBytes(X3DH_INFO, ...dhOutputs)).slice(0, 32));
+}
+
+/**
+ * ID of a message key, unique per sending chain and message number
+ */
+function messageKeyId(header: RatchetHeader): string {
+  return `${header.dh}:${header.n}`;
+}
+
+/**
+ * Bind the header to the ciphertext by mixing it into the secretbox key,
+ * so a tampered header fails to open
+ */
+function cipherKey(messageKey: string, header: RatchetHeader): Uint8Array {
+  const headerBytes = new TextEncoder().encode(`${header.dh}|${header.pn}|${header.n}`);
+  return nacl.hash(concatBytes(decodeBase64(messageKey), headerBytes)).slice(0, 32);
+}
+
+function seal(content: string, messageKey: string, header: RatchetHeader): { content: string; nonce: string } {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const encrypted = nacl.secretbox(new TextEncoder().encode(content), nonce, cipherKey(messageKey, header));
+  return { content: encodeBase64(encrypted), nonce: encodeBase64(nonce) };
+}
+
+function open(envelope: RatchetEnvelope, messageKey: string): string | null {
+  try {
+    const decrypted = nacl.secretbox.open(
+      decodeBase64(envelope.content),
+      decodeBase64(envelope.nonce),
+      cipherKey(messageKey, envelope.header)
+    );
+    return decrypted ? new TextDecoder().decode(decrypted) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Double-ratchet service for direct conversations
+ * Each pair of devices has its own session, set up X3DH-style with the peer
+ * device's one-time prekeys; every message then uses a fresh key, so a leaked
+ * identity key does not expose earlier messages. Keys of sent and read
+ * messages are kept in IndexedDB so history stays readable on this device.
+ */
+export class RatchetService {
+  private static instance: RatchetService;
+  // Session updates are serialised per conversation
+  private locks = new Map<string, Promise<unknown>>();
+
+  private constructor() {}
+
+  static getInstance(): RatchetService {
+    if (!RatchetService.instance) {
+      RatchetService.instance = new RatchetService();
+    }
+    return RatchetService.instance;
+  }
+
+  /**
+   * Encrypt a direct message for every linked device of the conversation
+   * members other than this one, including our own other devices
+   */
+  async encrypt(userId: string, conversationId: string, memberIds: string[], content: string): Promise<DeviceEnvelopes> {
+    const deviceId = await keyExchangeService.getCurrentDeviceId(userId);
+    if (!deviceId || !(await keyExchangeService.isCurrentDeviceLinked(userId))) {
+      throw new Error('This device is not linked yet');
+    }
+
+    const recipients = (await Promise.all(
+      memberIds.map(async (memberId) => {
+        const devices = await keyExchangeService.getActiveDevices(memberId);
+        return devices.map(device => ({ memberId, deviceId: device.deviceId }));
+      })
+    )).flat().filter(recipient => recipient.deviceId !== deviceId);
+
+    const envelopes: Record<string, RatchetEnvelope> = {};
+    for (const recipient of recipients) {
+      try {
+        envelopes[recipient.deviceId] = await this.encryptForDevice(
+          userId,
+          conversationId,
+          recipient.memberId,
+          recipient.deviceId,
+          content
+        );
+      } catch (error) {
+        // One device without keys should not stop delivery to the others
+        console.warn(`⚠️ Could not encrypt for device ${recipient.deviceId} of ${recipient.memberId}:`, error);
+      }
+    }
+
+    const delivered = recipients.filter(recipient => envelopes[recipient.deviceId]);
+    if (!delivered.some(recipient => recipient.memberId !== userId)) {
+      throw new Error('Recipient has no linked devices that can receive messages');
+    }
+
+    return { senderDevice: deviceId, envelopes };
+  }
+
+  /**
+   * Decrypt a direct message with the envelope addressed to this device
+   * Messages sent or read before, on this device or on one whose keys were
+   * restored from a backup, are opened with their stored key
+   * @returns Plain text, or null if the message cannot be decrypted on this device
+   */
+  async decrypt(userId: string, conversationId: string, senderId: string, message: DeviceEnvelopes): Promise<string | null> {
+    const deviceId = await keyExchangeService.getCurrentDeviceId(userId);
+    if (!deviceId) {
+      return null;
+    }
+
+    for (const kept of Object.values(message.envelopes)) {
+      const storedKey = await storageService.getMessageKey(userId, conversationId, messageKeyId(kept.header));
+      if (storedKey) {
+        return open(kept, storedKey);
+      }
+    }
+
+    // Messages sent from this device can only be read with a key kept when sending
+    const envelope = message.envelopes[deviceId];
+    if (message.senderDevice === deviceId || !envelope) {
+      return null;
+    }
+
+    const keyId = messageKeyId(envelope.header);
+
+    return this.withLock(conversationId, async () => {
+      // Another read of the same message may have finished while we waited
+      const keptKey = await storageService.getMessageKey(userId, conversationId, keyId);
+      if (keptKey) {
+        return open(envelope, keptKey);
+      }
+
+      const { header } = envelope;
+      let session = await storageService.getRatchetSession(userId, conversationId, message.senderDevice);
+      let usedPreKey: string | null = null;
+
+      if (header.x3dh && (!session || this.shouldAcceptSetup(
+        session,
+        header.x3dh,
+        `${userId}:${deviceId}`,
+        `${senderId}:${message.senderDevice}`
+      ))) {
+        session = await this.respondToSession(userId, conversationId, senderId, message.senderDevice, header.x3dh);
+        usedPreKey = header.x3dh.oneTimePreKey;
+      }
+
+      if (!session) {
+        return null;
+      }
+
+      const messageKey = this.receiveMessageKey(session, header);
+      if (!messageKey) {
+        return null;
+      }
+
+      // Session changes are only kept once the message has opened
+      const plaintext = open(envelope, messageKey);
+      if (plaintext === null) {
+        return null;
+      }
+
+      session.pendingX3DH = null;
+      session.updatedAt = new Date().toISOString();
+
+      await storageService.storeRatchetSession(session);
+      await storageService.storeMessageKey(userId, conversationId, keyId, messageKey);
+      if (usedPreKey) {
+        await storageService.removePreKey(userId, usedPreKey);
+      }
+
+      return plaintext;
+    });
+  }
+
+  /**
+   * Forget the session and stored message keys of a conversation
+   */
+  async deleteSession(userId: string, conversationId: string): Promise<void> {
+    await this.withLock(conversationId, async () => {
+      await storageService.deleteRatchetSessions(userId, conversationId);
+      await storageService.deleteMessageKeys(userId, conversationId);
+    });
+  }
+
+  private withLock<T>(conversationId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(conversationId) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.locks.set(conversationId, run);
+
+    const release = () => {
+      if (this.locks.get(conversationId) === run) {
+        this.locks.delete(conversationId);
+      }
+    };
+    run.then(release, release);
+
+    return run;
+  }
+
+  /**
+   * Encrypt a message for one peer device
+   * Sets up a session with the device's prekey bundle on first use
+   */
+  private async encryptForDevice(
+    userId: string,
+    conversationId: string,
+    peerId: string,
+    peerDeviceId: string,
+    content: string
+  ): Promise<RatchetEnvelope> {
+    return this.withLock(conversationId, async () => {
+      const session = await storageService.getRatchetSession(userId, conversationId, peerDeviceId)
+        || await this.initiateSession(userId, conversationId, peerId, peerDeviceId);
+
+      if (!session.sendingChainKey) {
+        throw new Error('Ratchet session has no sending chain');
+      }
+
+      const [nextChainKey, messageKey] = kdfChain(session.sendingChainKey);
+      const header: RatchetHeader = {
+        dh: session.dhSelf.publicKey,
+        pn: session.previousSendCount,
+        n: session.sendCount,
+        ...(session.pendingX3DH ? { x3dh: session.pendingX3DH } : {})
+      };
+
+      session.sendingChainKey = nextChainKey;
+      session.sendCount += 1;
+      session.updatedAt = new Date().toISOString();
+
+      await storageService.storeRatchetSession(session);
+      // Keep the key so this device can read its own message later
+      await storageService.storeMessageKey(userId, conversationId, messageKeyId(header), messageKey);
+
+      return { header, ...seal(content, messageKey, header) };
+    });
+  }
+
+  /**
+   * Start a session as the initiator with the peer device's claimed prekey bundle
+   */
+  private async initiateSession(
+    userId: string,
+    conversationId: string,
+    peerId: string,
+    peerDeviceId: string
+  ): Promise<RatchetSession> {
+    const identity = await storageService.getKeyPair(userId);
+    if (!identity) {
+      throw new Error('No key pair available. Generate or load keys first.');
+    }
+
+    const bundle = await keyExchangeService.claimPreKeyBundle(peerId, peerDeviceId);
+    if (!bundle) {
+      throw new Error('Recipient device has not published encryption keys');
+    }
+
+    const ephemeral = newKeyPair();
+    const sharedSecret = x3dhSecret([
+      dh(identity.privateKey, bundle.identityKey),
+      dh(ephemeral.privateKey, bundle.identityKey),
+      ...(bundle.oneTimePreKey ? [dh(ephemeral.privateKey, bundle.oneTimePreKey)] : [])
+    ]);
+
+    // The peer's identity key is their first ratchet key
+    const dhSelf = newKeyPair();
+    const [rootKey, sendingChainKey] = kdfRoot(sharedSecret, dh(dhSelf.privateKey, bundle.identityKey));
+
+    console.log(`🔑 Started ratchet session for ${conversationId} with device ${peerDeviceId}${bundle.oneTimePreKey ? '' : ' without a one-time prekey'}`);
+
+    return {
+      id: `${userId}:${conversationId}:${peerDeviceId}`,
+      userId,
+      conversationId,
+      peerId,
+      peerDeviceId,
+      rootKey,
+      dhSelf,
+      dhRemote: bundle.identityKey,
+      sendingChainKey,
+      receivingChainKey: null,
+      sendCount: 0,
+      receiveCount: 0,
+      previousSendCount: 0,
+      skippedKeys: {},
+      pendingX3DH: {
+        identityKey: identity.publicKey,
+        ephemeralKey: ephemeral.publicKey,
+        oneTimePreKey: bundle.oneTimePreKey
+      },
+      remoteEphemeralKey: null,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Answer a session a peer device started
+   */
+  private async respondToSession(
+    userId: string,
+    conversationId: string,
+    peerId: string,
+    peerDeviceId: string,
+    setup: X3DHHeader
+  ): Promise<RatchetSession | null> {
+    const identity = await storageService.getKeyPair(userId);
+    if (!identity) {
+      return null;
+    }
+
+    // The setup must come from the identity key a linked device of the peer published
+    const peerDevice = await keyExchangeService.getDevice(peerId, peerDeviceId);
+    if (peerDevice?.status !== 'active' || peerDevice.publicKey !== setup.identityKey) {
+      console.warn('⚠️ Ratchet setup does not match a linked device of', peerId);
+      return null;
+    }
+
+    const oneTimePreKey = setup.oneTimePreKey
+      ? await storageService.getPreKey(userId, setup.oneTimePreKey)
+      : null;
+    if (setup.oneTimePreKey && !oneTimePreKey) {
+      console.warn('⚠️ Ratchet setup used an unknown or already consumed prekey');
+      return null;
+    }
+
+    const sharedSecret = x3dhSecret([
+      dh(identity.privateKey, setup.identityKey),
+      dh(identity.privateKey, setup.ephemeralKey),
+      ...(oneTimePreKey ? [dh(oneTimePreKey.privateKey, setup.ephemeralKey)] : [])
+    ]);
+
+    return {
+      id: `${userId}:${conversationId}:${peerDeviceId}`,
+      userId,
+      conversationId,
+      peerId,
+      peerDeviceId,
+      rootKey: sharedSecret,
+      dhSelf: identity,
+      dhRemote: null,
+      sendingChainKey: null,
+      receivingChainKey: null,
+      sendCount: 0,
+      receiveCount: 0,
+      previousSendCount: 0,
+      skippedKeys: {},
+      pendingX3DH: null,
+      remoteEphemeralKey: setup.ephemeralKey,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Whether an incoming session setup replaces the current session
+   */
+  private shouldAcceptSetup(session: RatchetSession, setup: X3DHHeader, selfAddress: string, peerAddress: string): boolean {
+    if (session.remoteEphemeralKey === setup.ephemeralKey) {
+      return false;
+    }
+
+    // Both sides started a session before hearing from the other; the one
+    // started by the lower `${userId}:${deviceId}` wins on both devices
+    if (session.pendingX3DH) {
+      return peerAddress < selfAddress;
+    }
+
+    // The peer started over, e.g. after resetting their keys
+    return true;
+  }
+
+  /**
+   * Advance the receiving side of the session to the header and return its message key
+   */
+  private receiveMessageKey(session: RatchetSession, header: RatchetHeader): string | null {
+    const skippedKey = session.skippedKeys[messageKeyId(header)];
+    if (skippedKey) {
+      delete session.skippedKeys[messageKeyId(header)];
+      return skippedKey;
+    }
+
+    if (header.dh !== session.dhRemote) {
+      if (!this.skipMessageKeys(session, header.pn)) {
+        return null;
+      }
+      this.ratchetStep(session, header.dh);
+    }
+
+    if (!this.skipMessageKeys(session, header.n) || !session.receivingChainKey) {
+      return null;
+    }
+
+    const [nextChainKey, messageKey] = kdfChain(session.receivingChainKey);
+    session.receivingChainKey = nextChainKey;
+    session.receiveCount += 1;
+
+    return messageKey;
+  }
+
+  /**
+   * Keep the keys of messages up to `until` in the current receiving chain
+   */
+  private skipMessageKeys(session: RatchetSession, until: number): boolean {
+    if (!session.receivingChainKey || !session.dhRemote) {
+      return true;
+    }
+    if (until - session.receiveCount > MAX_SKIP) {
+      return false;
+    }
+
+    while (session.receiveCount < until) {
+      const [nextChainKey, messageKey] = kdfChain(session.receivingChainKey);
+      session.skippedKeys[`${session.dhRemote}:${session.receiveCount}`] = messageKey;
+      session.receivingChainKey = nextChainKey;
+      session.receiveCount += 1;
+    }
+
+    return true;
+  }
+
+  /**
+   * Diffie-Hellman ratchet step on a new ratchet key from the peer
+   */
+  private ratchetStep(session: RatchetSession, remoteKey: string): void {
+    session.previousSendCount = session.sendCount;
+    session.sendCount = 0;
+    session.receiveCount = 0;
+    session.dhRemote = remoteKey;
+
+    [session.rootKey, session.receivingChainKey] = kdfRoot(session.rootKey, dh(session.dhSelf.privateKey, remoteKey));
+
+    session.dhSelf = newKeyPair();
+    [session.rootKey, session.sendingChainKey] = kdfRoot(session.rootKey, dh(session.dhSelf.privateKey, remoteKey));
+  }
+}
+
+// Export singleton instance
+export const ratchetService = RatchetService.getInstance();
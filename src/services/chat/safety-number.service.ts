@@ -0,0 +1,219 @@
+"use client";
+
+import nacl from 'tweetnacl';
+import { decodeBase64, encodeBase64 } from './encryption.service';
+import { keyExchangeService, DeviceInfo } from './key-exchange.service';
+import { storageService } from './storage.service';
+
+/**
+ * unverified: trusted on first use or after acknowledging a change
+ * changed: the contact's keys changed since they were last seen or verified
+ */
+export type ContactIdentityStatus = 'unverified' | 'verified' | 'changed';
+
+/**
+ * A contact's identity keys as last seen on this device, kept in IndexedDB
+ * so a key swapped in Firestore cannot also rewrite what was trusted
+ */
+export interface ContactIdentity {
+  userId: string;
+  contactId: string;
+  // Hash of the contact's linked device keys
+  identityHash: string;
+  status: ContactIdentityStatus;
+  firstSeenAt: number;
+  changedAt?: number;
+  verifiedAt?: number;
+}
+
+export interface SafetyNumber {
+  // 60 digits in groups of five, the same on both sides
+  digits: string;
+  contactIdentityHash: string;
+}
+
+type IdentityListener = (contactId: string) => void;
+
+const FINGERPRINT_VERSION = 0;
+const FINGERPRINT_ITERATIONS = 5200;
+
+/**
+ * Identity keys of a user are the keys of all their linked devices
+ */
+function identityKeys(devices: DeviceInfo[]): Uint8Array[] {
+  return devices
+    .filter(device => device.status === 'active')
+    .map(device => device.publicKey)
+    .sort()
+    .map(decodeBase64);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function hashIdentity(keys: Uint8Array[]): string {
+  return encodeBase64(nacl.hash(concat(...keys)));
+}
+
+/**
+ * 30-digit fingerprint of one side, stretched so it is costly to find keys
+ * with a matching number
+ */
+function fingerprint(userId: string, keys: Uint8Array[]): string {
+  const input = concat(new Uint8Array([FINGERPRINT_VERSION]), new TextEncoder().encode(userId), ...keys);
+  let hash = input;
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = nacl.hash(concat(hash, input));
+  }
+
+  let digits = '';
+  for (let chunk = 0; chunk < 6; chunk++) {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      value = value * 256 + hash[chunk * 5 + i];
+    }
+    digits += String(value % 100000).padStart(5, '0');
+  }
+  return digits;
+}
+
+/**
+ * Safety number service
+ * Derives the numbers two users compare to verify each other's keys and
+ * tracks each contact's keys to warn when they change
+ */
+export class SafetyNumberService {
+  private static instance: SafetyNumberService;
+  private listeners = new Set<IdentityListener>();
+
+  private constructor() {}
+
+  static getInstance(): SafetyNumberService {
+    if (!SafetyNumberService.instance) {
+      SafetyNumberService.instance = new SafetyNumberService();
+    }
+    return SafetyNumberService.instance;
+  }
+
+  /**
+   * Get the safety number of a user and a contact
+   * @returns Null if either side has no linked device
+   */
+  async getSafetyNumber(userId: string, contactId: string): Promise<SafetyNumber | null> {
+    const [ownDevices, contactDevices] = await Promise.all([
+      keyExchangeService.getDevices(userId),
+      keyExchangeService.getDevices(contactId),
+    ]);
+    const ownKeys = identityKeys(ownDevices);
+    const contactKeys = identityKeys(contactDevices);
+    if (ownKeys.length === 0 || contactKeys.length === 0) {
+      return null;
+    }
+
+    // Lower user ID first, so both sides show the same number
+    const sides = [
+      { id: userId, digits: fingerprint(userId, ownKeys) },
+      { id: contactId, digits: fingerprint(contactId, contactKeys) },
+    ].sort((a, b) => a.id.localeCompare(b.id));
+
+    return {
+      digits: (sides[0].digits + sides[1].digits).match(/.{5}/g)!.join(' '),
+      contactIdentityHash: hashIdentity(contactKeys),
+    };
+  }
+
+  /**
+   * Compare a contact's current keys with the ones last seen on this device
+   * The first keys seen are trusted; any later change is flagged until the
+   * user acknowledges or verifies it.
+   * @param devices - The contact's devices, if already loaded
+   * @returns Null if the contact has no linked device
+   */
+  async checkContactIdentity(userId: string, contactId: string, devices?: DeviceInfo[]): Promise<ContactIdentity | null> {
+    const keys = identityKeys(devices || await keyExchangeService.getDevices(contactId));
+    if (keys.length === 0) {
+      return null;
+    }
+
+    const identityHash = hashIdentity(keys);
+    const known = await storageService.getContactIdentity(userId, contactId);
+    if (known?.identityHash === identityHash) {
+      return known;
+    }
+
+    const identity: ContactIdentity = known
+      ? { ...known, identityHash, status: 'changed', changedAt: Date.now(), verifiedAt: undefined }
+      : { userId, contactId, identityHash, status: 'unverified', firstSeenAt: Date.now() };
+    await storageService.storeContactIdentity(identity);
+
+    if (known) {
+      console.warn(`⚠️ Keys of ${contactId} changed`);
+      this.notify(contactId);
+    }
+    return identity;
+  }
+
+  /**
+   * Mark a contact as verified after comparing safety numbers
+   * @param contactIdentityHash - From the safety number the user compared
+   */
+  async markVerified(userId: string, contactId: string, contactIdentityHash: string): Promise<void> {
+    const known = await storageService.getContactIdentity(userId, contactId);
+    await storageService.storeContactIdentity({
+      userId,
+      contactId,
+      identityHash: contactIdentityHash,
+      status: 'verified',
+      firstSeenAt: known?.firstSeenAt || Date.now(),
+      changedAt: known?.changedAt,
+      verifiedAt: Date.now(),
+    });
+    this.notify(contactId);
+  }
+
+  /**
+   * Accept a contact's changed keys without verifying them
+   */
+  async acknowledgeChange(userId: string, contactId: string): Promise<void> {
+    const known = await storageService.getContactIdentity(userId, contactId);
+    if (known?.status !== 'changed') {
+      return;
+    }
+
+    await storageService.storeContactIdentity({ ...known, status: 'unverified' });
+    this.notify(contactId);
+  }
+
+  /**
+   * Throw if a contact's keys changed and the user has not acknowledged it yet
+   */
+  async assertSendable(userId: string, contactId: string): Promise<void> {
+    const identity = await this.checkContactIdentity(userId, contactId);
+    if (identity?.status === 'changed') {
+      throw new Error('The safety number with this contact changed. Review it in their profile before sending.');
+    }
+  }
+
+  /**
+   * Listen for contacts whose verification status changed on this device
+   */
+  onIdentityChange(listener: IdentityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(contactId: string): void {
+    this.listeners.forEach(listener => listener(contactId));
+  }
+}
+
+export const safetyNumberService = SafetyNumberService.getInstance();
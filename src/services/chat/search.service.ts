@@ -15,6 +15,7 @@ interface SearchIndex {
   timestamp: number;
   type?: string;
   metadata?: any;
+  expiresAt?: number; // Disappearing messages are purged from the index after this
 }
 
 interface SearchResult {
@@ -115,6 +116,9 @@ class MessageSearchService {
     if (!this.db) await this.initialize();
     if (!this.db) throw new Error('Database not initialized');
 
+    // Messages deleted for everyone must not stay searchable
+    if (message.deleted) return this.deleteMessages([message.id]);
+
     // Don't index encrypted messages that couldn't be decrypted
     if (!message.text && !message.decryptedContent) return;
 
@@ -130,6 +134,8 @@ class MessageSearchService {
       timestampMillis = Date.now();
     }
 
+    const expiresAtMillis = message.expiresAt?.toMillis?.();
+
     const searchIndex: SearchIndex = {
       messageId: message.id,
       conversationId,
@@ -137,7 +143,8 @@ class MessageSearchService {
       text: (message.text || message.decryptedContent || '').toLowerCase(),
       timestamp: timestampMillis,
       type: message.type,
-      metadata: message.metadata
+      metadata: message.metadata,
+      ...(expiresAtMillis ? { expiresAt: expiresAtMillis } : {})
     };
 
     const transaction = this.db.transaction([this.STORE_NAME], 'readwrite');
@@ -166,6 +173,10 @@ class MessageSearchService {
       
       await Promise.all(
         batch.map(message => {
+          if (message.deleted) {
+            store.delete(message.id);
+            return Promise.resolve();
+          }
           if (!message.text && !message.decryptedContent) return Promise.resolve();
           
           // Handle both Firestore Timestamp and regular Date objects
@@ -397,6 +408,79 @@ class MessageSearchService {
     });
   }
 
+  /**
+   * Delete indexed messages by ID
+   */
+  async deleteMessages(messageIds: string[]): Promise<void> {
+    if (!this.db) await this.initialize();
+    if (!this.db) throw new Error('Database not initialized');
+
+    const transaction = this.db.transaction([this.STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(this.STORE_NAME);
+    messageIds.forEach(messageId => store.delete(messageId));
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Replace the indexed text of an edited message
+   */
+  async updateMessageText(messageId: string, text: string): Promise<void> {
+    if (!this.db) await this.initialize();
+    if (!this.db) throw new Error('Database not initialized');
+
+    const transaction = this.db.transaction([this.STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(this.STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(messageId);
+      request.onsuccess = () => {
+        // Messages that were never indexed are picked up with their conversation
+        const indexed = request.result as SearchIndex | undefined;
+        if (indexed) {
+          store.put({ ...indexed, text: text.toLowerCase() });
+        }
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Delete indexed disappearing messages whose timer has run out
+   */
+  async deleteExpiredMessages(): Promise<void> {
+    if (!this.db) await this.initialize();
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = Date.now();
+    const transaction = this.db.transaction([this.STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(this.STORE_NAME);
+    
+    return new Promise((resolve, reject) => {
+      const request = store.openCursor();
+      
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest).result;
+        
+        if (cursor) {
+          const indexed = cursor.value as SearchIndex;
+          if (indexed.expiresAt && indexed.expiresAt <= now) {
+            cursor.delete();
+          }
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   /**
    * Clear all search indexes
    */
@@ -8,6 +8,8 @@
 
 import { io, Socket } from 'socket.io-client';
 import { auth } from '@/lib/firebase-config';
+import type { RatchetEnvelope } from './ratchet.service';
+import { messageSyncService } from './message-sync.service';
 
 export interface SocketMessage {
   id: string;
@@ -17,10 +19,17 @@ export interface SocketMessage {
   content: string; // Encrypted content
   text?: string; // Decrypted text for compatibility
   nonce: string;
+  keyVersion?: number; // Group sender key version
+  senderDevice?: string; // Device a direct message was sent from
+  envelopes?: Record<string, RatchetEnvelope>; // Direct message encrypted per recipient device
   timestamp: string;
   delivered: string[];
   read: string[];
   replyTo?: string;
+  expiresAt?: string; // When a disappearing message is deleted
+  seq?: number; // Position in the conversation, for gap detection
+  clientMessageId?: string; // ID chosen by the sender, for deduplication
+  threadId?: string; // Root message, for replies in a thread
   metadata?: {
     fileName?: string;
     fileSize?: number;
@@ -42,6 +51,7 @@ export interface SocketEvents {
   'message:sent': (data: { messageId: string; timestamp: string }) => void;
   'message:delivered': (data: { messageId: string; userId: string }) => void;
   'message:read': (data: { conversationId: string; messageIds: string[]; userId: string }) => void;
+  'message:expired': (data: { conversationId: string; messageIds: string[] }) => void;
   'typing:update': (data: { conversationId: string; userId: string; typing: boolean }) => void;
   'recording:update': (data: { conversationId: string; userId: string; recording: boolean }) => void;
   'presence:update': (data: { userId: string; online: boolean; lastSeen?: string }) => void;
@@ -213,6 +223,10 @@ export class SocketService {
       this.emit('message:read', data);
     });
 
+    this.socket.on('message:expired', (data) => {
+      this.emit('message:expired', data);
+    });
+
     // Presence events
     this.socket.on('typing:update', (data) => {
       this.emit('typing:update', data);
@@ -282,7 +296,11 @@ export class SocketService {
     senderNonce?: string;    // Sender nonce
     replyTo?: string;
     metadata?: any;
+    clientMessageId?: string; // Kept across retries and the Firestore fallback
   }): void {
+    if (!data.clientMessageId) {
+      data = { ...data, clientMessageId: messageSyncService.createClientMessageId() };
+    }
     if (this.isConnected && this.socket) {
       // Use Socket.IO v4 acknowledgements with timeout for reliable delivery
       this.socket.timeout(5000).emit('message:send', data, (err: any, response: any) => {
@@ -552,7 +570,8 @@ export class SocketService {
             await sendMessage(
               queuedItem.data.conversationId,
               user.uid,
-              messageText
+              messageText,
+              { clientMessageId: queuedItem.data.clientMessageId }
             );
             console.log('📤 Queued message sent via Firestore fallback');
           } else {
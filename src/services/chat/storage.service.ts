@@ -1,6 +1,17 @@
 "use client";
 
 import { KeyPair } from './encryption.service';
+import type { RatchetSession } from './ratchet.service';
+import type { ContactIdentity } from './safety-number.service';
+
+/**
+ * A kept message key, as listed for backups
+ */
+export interface StoredMessageKey {
+  conversationId: string;
+  messageKeyId: string;
+  messageKey: string;
+}
 
 /**
  * Secure storage service using IndexedDB for private key management
@@ -9,8 +20,11 @@ import { KeyPair } from './encryption.service';
 export class StorageService {
   private static instance: StorageService;
   private dbName = 'pxl-chat-keys';
-  private dbVersion = 1;
+  private dbVersion = 3;
   private storeName = 'keystore';
+  private sessionStoreName = 'ratchetSessions';
+  private messageKeyStoreName = 'messageKeys';
+  private identityStoreName = 'contactIdentities';
 
   private constructor() {}
 
@@ -26,7 +40,7 @@ export class StorageService {
    */
   private async openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
-      // Try to open with version 1 first
+      // Try to open with the current version first
       const request = indexedDB.open(this.dbName, this.dbVersion);
 
       request.onerror = () => {
@@ -50,6 +64,22 @@ export class StorageService {
           const store = db.createObjectStore(this.storeName, { keyPath: 'userId' });
           store.createIndex('deviceId', 'deviceId', { unique: false });
         }
+
+        // Double-ratchet session state, one per user and conversation
+        if (!db.objectStoreNames.contains(this.sessionStoreName)) {
+          db.createObjectStore(this.sessionStoreName, { keyPath: 'id' });
+        }
+
+        // Message keys kept so already-read messages stay decryptable
+        if (!db.objectStoreNames.contains(this.messageKeyStoreName)) {
+          const store = db.createObjectStore(this.messageKeyStoreName, { keyPath: 'id' });
+          store.createIndex('conversation', ['userId', 'conversationId'], { unique: false });
+        }
+
+        // Identity keys seen for each contact, to notice when they change
+        if (!db.objectStoreNames.contains(this.identityStoreName)) {
+          db.createObjectStore(this.identityStoreName, { keyPath: 'id' });
+        }
       };
     });
   }
@@ -111,9 +141,25 @@ export class StorageService {
   }
 
   /**
-   * Store prekeys for offline message exchange
+   * Get the ID this browser registered its keys under
    */
-  async storePreKeys(userId: string, preKeys: string[]): Promise<void> {
+  async getDeviceId(userId: string): Promise<string | null> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.storeName], 'readonly');
+    const store = transaction.objectStore(this.storeName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(userId);
+      request.onsuccess = () => resolve(request.result?.deviceId || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Store one-time prekeys, including their private halves, for offline session setup
+   */
+  async storePreKeys(userId: string, preKeys: KeyPair[]): Promise<void> {
     const db = await this.openDB();
     
     const transaction = db.transaction([this.storeName], 'readwrite');
@@ -143,7 +189,7 @@ export class StorageService {
   /**
    * Get prekeys for a user
    */
-  async getPreKeys(userId: string): Promise<string[]> {
+  async getPreKeys(userId: string): Promise<KeyPair[]> {
     const db = await this.openDB();
     
     const transaction = db.transaction([this.storeName], 'readonly');
@@ -161,6 +207,181 @@ export class StorageService {
     });
   }
 
+  /**
+   * Find the private half of a published prekey
+   */
+  async getPreKey(userId: string, publicKey: string): Promise<KeyPair | null> {
+    const preKeys = await this.getPreKeys(userId);
+    return preKeys.find(preKey => preKey.publicKey === publicKey) || null;
+  }
+
+  /**
+   * Delete a prekey once a session has been set up with it
+   */
+  async removePreKey(userId: string, publicKey: string): Promise<void> {
+    const preKeys = await this.getPreKeys(userId);
+    await this.storePreKeys(userId, preKeys.filter(preKey => preKey.publicKey !== publicKey));
+  }
+
+  /**
+   * Store the double-ratchet session for a conversation
+   */
+  async storeRatchetSession(session: RatchetSession): Promise<void> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.sessionStoreName], 'readwrite');
+    const store = transaction.objectStore(this.sessionStoreName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(session);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Get the double-ratchet session with one of the peer's devices in a conversation
+   */
+  async getRatchetSession(userId: string, conversationId: string, peerDeviceId: string): Promise<RatchetSession | null> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.sessionStoreName], 'readonly');
+    const store = transaction.objectStore(this.sessionStoreName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(`${userId}:${conversationId}:${peerDeviceId}`);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Delete the double-ratchet sessions of a conversation, or of every
+   * conversation when no conversation is given
+   */
+  async deleteRatchetSessions(userId: string, conversationId?: string): Promise<void> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.sessionStoreName], 'readwrite');
+    const store = transaction.objectStore(this.sessionStoreName);
+
+    // Session IDs are `${userId}:${conversationId}:${peerDeviceId}`
+    const prefix = conversationId ? `${userId}:${conversationId}:` : `${userId}:`;
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Keep the key of a message that was sent or read
+   * @param messageKeyId - Ratchet key ID of the message (`${ratchetPublicKey}:${messageNumber}`)
+   */
+  async storeMessageKey(userId: string, conversationId: string, messageKeyId: string, messageKey: string): Promise<void> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.messageKeyStoreName], 'readwrite');
+    const store = transaction.objectStore(this.messageKeyStoreName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put({
+        id: `${userId}:${conversationId}:${messageKeyId}`,
+        userId,
+        conversationId,
+        messageKey,
+        createdAt: new Date().toISOString()
+      });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Get the stored key of a message
+   */
+  async getMessageKey(userId: string, conversationId: string, messageKeyId: string): Promise<string | null> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.messageKeyStoreName], 'readonly');
+    const store = transaction.objectStore(this.messageKeyStoreName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(`${userId}:${conversationId}:${messageKeyId}`);
+      request.onsuccess = () => resolve(request.result?.messageKey || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Delete every stored message key of a conversation, or of every
+   * conversation when no conversation is given
+   */
+  async deleteMessageKeys(userId: string, conversationId?: string): Promise<void> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.messageKeyStoreName], 'readwrite');
+    const store = transaction.objectStore(this.messageKeyStoreName);
+
+    return new Promise((resolve, reject) => {
+      const range = conversationId
+        ? IDBKeyRange.only([userId, conversationId])
+        : IDBKeyRange.bound([userId, ''], [userId, '\uffff']);
+      const request = store.index('conversation').openCursor(range);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Store the identity last seen for a contact
+   */
+  async storeContactIdentity(identity: ContactIdentity): Promise<void> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.identityStoreName], 'readwrite');
+    const store = transaction.objectStore(this.identityStoreName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put({ ...identity, id: `${identity.userId}:${identity.contactId}` });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Get the identity last seen for a contact
+   */
+  async getContactIdentity(userId: string, contactId: string): Promise<ContactIdentity | null> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.identityStoreName], 'readonly');
+    const store = transaction.objectStore(this.identityStoreName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(`${userId}:${contactId}`);
+      request.onsuccess = () => {
+        if (!request.result) {
+          resolve(null);
+          return;
+        }
+        const identity = { ...request.result };
+        delete identity.id;
+        resolve(identity as ContactIdentity);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   /**
    * Delete user's keys (for logout/key rotation)
    */
@@ -212,35 +433,73 @@ export class StorageService {
   }
 
   /**
-   * Export keys for backup (encrypted with user password)
+   * Keep the key that encrypts this user's key backups, or forget it with null
    */
-  async exportKeys(userId: string, password: string): Promise<string> {
-    const keyPair = await this.getKeyPair(userId);
-    if (!keyPair) {
-      throw new Error('No keys found for user');
-    }
+  async storeBackupKey(userId: string, backupKey: string | null): Promise<void> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.storeName], 'readwrite');
+    const store = transaction.objectStore(this.storeName);
 
-    // Simple encryption with password (in production, use proper key derivation)
-    const data = JSON.stringify(keyPair);
-    const encrypted = btoa(data + password); // Simplified - use proper encryption in production
+    return new Promise((resolve, reject) => {
+      const request = store.get(userId);
+      
+      request.onsuccess = () => {
+        const keyData = request.result;
+        if (keyData) {
+          if (backupKey) {
+            keyData.backupKey = backupKey;
+          } else {
+            delete keyData.backupKey;
+          }
+          
+          const updateRequest = store.put(keyData);
+          updateRequest.onsuccess = () => resolve();
+          updateRequest.onerror = () => reject(updateRequest.error);
+        } else {
+          reject(new Error('User key data not found'));
+        }
+      };
+      
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Get the key that encrypts this user's key backups, if backup is enabled on this device
+   */
+  async getBackupKey(userId: string): Promise<string | null> {
+    const db = await this.openDB();
     
-    return encrypted;
+    const transaction = db.transaction([this.storeName], 'readonly');
+    const store = transaction.objectStore(this.storeName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(userId);
+      request.onsuccess = () => resolve(request.result?.backupKey || null);
+      request.onerror = () => reject(request.error);
+    });
   }
 
   /**
-   * Import keys from backup
+   * Get every stored message key of a user, for backups
    */
-  async importKeys(userId: string, encryptedData: string, password: string): Promise<void> {
-    try {
-      // Simple decryption (in production, use proper key derivation)
-      const decrypted = atob(encryptedData);
-      const data = decrypted.replace(password, '');
-      const keyPair = JSON.parse(data) as KeyPair;
-      
-      await this.storeKeyPair(userId, keyPair);
-    } catch {
-      throw new Error('Failed to import keys: Invalid data or password');
-    }
+  async getAllMessageKeys(userId: string): Promise<StoredMessageKey[]> {
+    const db = await this.openDB();
+    
+    const transaction = db.transaction([this.messageKeyStoreName], 'readonly');
+    const store = transaction.objectStore(this.messageKeyStoreName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.index('conversation').getAll(IDBKeyRange.bound([userId, ''], [userId, '\uffff']));
+      request.onsuccess = () => resolve(request.result.map(record => ({
+        conversationId: record.conversationId,
+        // Record IDs are `${userId}:${conversationId}:${messageKeyId}`
+        messageKeyId: record.id.slice(`${userId}:${record.conversationId}:`.length),
+        messageKey: record.messageKey
+      })));
+      request.onerror = () => reject(request.error);
+    });
   }
 
   /**
@@ -260,14 +519,14 @@ export class StorageService {
    */
   async clearAll(): Promise<void> {
     const db = await this.openDB();
+    const storeNames = [this.storeName, this.sessionStoreName, this.messageKeyStoreName];
     
-    const transaction = db.transaction([this.storeName], 'readwrite');
-    const store = transaction.objectStore(this.storeName);
+    const transaction = db.transaction(storeNames, 'readwrite');
 
     return new Promise((resolve, reject) => {
-      const request = store.clear();
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      storeNames.forEach(storeName => transaction.objectStore(storeName).clear());
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 }
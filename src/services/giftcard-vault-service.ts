@@ -0,0 +1,84 @@
+/**
+ * Giftcard Vault Service
+ * Codes are sealed server-side; orders and admin views only see references
+ * and redacted hints until a code is revealed through Cloud Functions
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase-config';
+
+export type SerialStatus = 'available' | 'reserved' | 'sold';
+
+// What an order item holds for each of its codes
+export interface CodeRef {
+  serialId: string;
+  // Last characters of the code, e.g. ••••AB12
+  hint: string;
+}
+
+export interface RevealedCode {
+  serialId: string;
+  code: string;
+  pin: string | null;
+}
+
+export interface NewGiftcardCode {
+  code: string;
+  pin?: string;
+}
+
+export interface DenominationInventory {
+  productId: string;
+  denomination: number;
+  available: number;
+  reserved: number;
+  sold: number;
+}
+
+export interface VaultSerialSummary {
+  serialId: string;
+  denomination: number;
+  status: SerialStatus;
+  orderId: string | null;
+  hint: string;
+}
+
+export interface GiftcardInventory {
+  denominations: DenominationInventory[];
+  // Only filled when a product ID is given
+  serials: VaultSerialSummary[];
+}
+
+/**
+ * Decrypt one code of an order; every reveal is logged
+ * Admins revealing a customer's code must give a reason
+ */
+export async function revealGiftcardCode(orderId: string, serialId: string, reason?: string): Promise<RevealedCode> {
+  const callable = httpsCallable<{ orderId: string; serialId: string; reason?: string }, RevealedCode>(
+    functions,
+    'revealGiftcardCode'
+  );
+  const result = await callable({ orderId, serialId, reason });
+  return result.data;
+}
+
+/**
+ * Vault stock per denomination, with redacted serials for a single product (admin only)
+ */
+export async function getGiftcardInventory(productId?: string): Promise<GiftcardInventory> {
+  const callable = httpsCallable<{ productId?: string }, GiftcardInventory>(functions, 'getGiftcardInventory');
+  const result = await callable({ productId });
+  return result.data;
+}
+
+/**
+ * Move plaintext serials out of product documents into the vault (admin only)
+ */
+export async function migrateSerialsToVault(): Promise<{ products: number; serials: number; orders: number }> {
+  const callable = httpsCallable<void, { products: number; serials: number; orders: number }>(
+    functions,
+    'migrateSerialsToVault'
+  );
+  const result = await callable();
+  return result.data;
+}
@@ -116,7 +116,8 @@ export class NotificationService {
         
         // Navigate to messages page if data contains conversationId
         if (options.data?.conversationId) {
-          window.location.href = `/messages?conversation=${options.data.conversationId}`;
+          const thread = options.data.threadId ? `&thread=${options.data.threadId}` : '';
+          window.location.href = `/messages?conversation=${options.data.conversationId}${thread}`;
         } else {
           window.location.href = '/messages';
         }
@@ -155,6 +156,29 @@ export class NotificationService {
     );
   }
 
+  /**
+   * Show a notification for a reply in a thread the user started or replied in
+   */
+  async showThreadReplyNotification(
+    senderName: string,
+    messageText: string,
+    senderAvatar?: string,
+    conversationId?: string,
+    threadId?: string
+  ): Promise<void> {
+    await this.showMessageNotification(
+      `${senderName} replied in a thread`,
+      {
+        body: messageText,
+        icon: senderAvatar || '/default-avatar.png',
+        tag: `thread-${threadId || 'default'}`,
+        data: { conversationId, threadId },
+        requireInteraction: false,
+        silent: false,
+      }
+    );
+  }
+
   /**
    * Play a notification sound
    */
@@ -0,0 +1,74 @@
+/**
+ * Giftcard Order Service
+ * Creates, confirms and cancels orders through Cloud Functions
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase-config';
+
+export type OrderPaymentMethod = 'pxl' | 'stripe' | 'paypal' | 'myfatoorah';
+
+// refund-due: paid after its codes sold out; the payment is refunded with the provider
+export type OrderStatus = 'pending-payment' | 'completed' | 'refund-due' | 'cancelled' | 'expired' | 'refunded' | 'charged-back';
+
+export interface OrderLine {
+  productId: string;
+  denomination: number;
+  quantity: number;
+}
+
+export interface CreateOrderInput {
+  items: OrderLine[];
+  paymentMethod: OrderPaymentMethod;
+  // Same key always resolves to the same order
+  idempotencyKey: string;
+  // Locks the quoted totals; see quote-service
+  quoteId?: string;
+}
+
+export interface CreateOrderResult {
+  orderId: string;
+  status: OrderStatus;
+  duplicate: boolean;
+  // Milliseconds since epoch until reserved codes are released, null once paid
+  reservedUntil: number | null;
+}
+
+/**
+ * Create an order; PXL orders are paid immediately, others hold their codes
+ */
+export async function createOrder(input: CreateOrderInput): Promise<CreateOrderResult> {
+  const callable = httpsCallable<CreateOrderInput, CreateOrderResult>(functions, 'createOrder');
+  const result = await callable(input);
+  return result.data;
+}
+
+/**
+ * Confirm an external payment for a pending order
+ * Resolves to refund-due when the order's codes sold out before the payment completed
+ */
+export async function confirmOrderPayment(
+  orderId: string,
+  paymentId: string
+): Promise<{ orderId: string; status: OrderStatus; duplicate: boolean }> {
+  const callable = httpsCallable<
+    { orderId: string; paymentId: string },
+    { orderId: string; status: OrderStatus; duplicate: boolean }
+  >(functions, 'confirmOrderPayment');
+  const result = await callable({ orderId, paymentId });
+  return result.data;
+}
+
+/**
+ * Cancel a pending order and release its codes
+ */
+export async function cancelOrder(orderId: string, reason?: string): Promise<void> {
+  await httpsCallable(functions, 'cancelOrder')({ orderId, reason });
+}
+
+/**
+ * Refund a completed order and claw back its cashback (admin only)
+ */
+export async function refundOrder(orderId: string, reason: string): Promise<void> {
+  await httpsCallable(functions, 'refundOrder')({ orderId, reason });
+}
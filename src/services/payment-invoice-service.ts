@@ -0,0 +1,25 @@
+/**
+ * Payment Invoice Service
+ * Hosted (MyFatoorah) payments are invoiced by Cloud Functions from the pending
+ * order or PXL purchase itself, never from an amount sent by the browser
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase-config';
+
+export interface PaymentInvoice {
+  reference: string;
+  invoiceId: string;
+  paymentUrl: string;
+}
+
+/**
+ * Create an invoice for a pending order (ord_*) or PXL purchase (pxp_*)
+ * Send the customer to paymentUrl; the payment webhook completes the order or
+ * credits the purchase once the invoice is paid
+ */
+export async function createPaymentInvoice(reference: string): Promise<PaymentInvoice> {
+  const callable = httpsCallable<{ reference: string }, PaymentInvoice>(functions, 'createPaymentInvoice');
+  const result = await callable({ reference });
+  return result.data;
+}
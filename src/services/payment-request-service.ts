@@ -0,0 +1,116 @@
+/**
+ * PXL Payment Request Service
+ * Creates, pays and tracks PXL payment requests through Cloud Functions
+ */
+
+import { doc, onSnapshot, Timestamp } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '@/lib/firebase-config';
+
+export type PaymentRequestStatus = 'open' | 'partially-paid' | 'paid' | 'cancelled' | 'expired';
+
+export interface PaymentShare {
+  userId: string | null;
+  username: string | null;
+  amount: number;
+  // held: paid with a transfer waiting for review; it counts as paid once released
+  status: 'pending' | 'processing' | 'held' | 'paid' | 'declined';
+  transferId: string | null;
+  paidAt: Timestamp | null;
+}
+
+export interface PaymentRequest {
+  id: string;
+  requesterId: string;
+  requesterUsername: string;
+  amount: number;
+  memo: string | null;
+  shares: PaymentShare[];
+  payerIds: string[];
+  shareable: boolean;
+  amountPaid: number;
+  status: PaymentRequestStatus;
+  conversationId: string | null;
+  expiresAt: Timestamp;
+  createdAt: Timestamp;
+}
+
+export interface CreatePaymentRequestInput {
+  amount: number;
+  memo?: string | null;
+  expiresInHours?: number;
+  // Leave empty for a shareable link anyone can pay
+  payers?: Array<{ username?: string; userId?: string; amount?: number }>;
+  conversationId?: string | null;
+}
+
+export interface PayPaymentRequestResult {
+  success: boolean;
+  transferId: string;
+  transferStatus: 'completed' | 'on-hold';
+  status: PaymentRequestStatus;
+  amountPaid: number;
+}
+
+/**
+ * Create a payment request and return its id
+ */
+export async function createPaymentRequest(input: CreatePaymentRequestInput): Promise<string> {
+  const callable = httpsCallable<CreatePaymentRequestInput, { paymentRequestId: string }>(
+    functions,
+    'createPaymentRequest'
+  );
+  const result = await callable(input);
+  return result.data.paymentRequestId;
+}
+
+/**
+ * Pay the current user's share of a request
+ */
+export async function payPaymentRequest(paymentRequestId: string): Promise<PayPaymentRequestResult> {
+  const callable = httpsCallable<{ paymentRequestId: string }, PayPaymentRequestResult>(
+    functions,
+    'payPaymentRequest'
+  );
+  const result = await callable({ paymentRequestId });
+  return result.data;
+}
+
+/**
+ * Decline the current user's share of a request
+ */
+export async function declinePaymentRequest(paymentRequestId: string): Promise<void> {
+  await httpsCallable(functions, 'declinePaymentRequest')({ paymentRequestId });
+}
+
+/**
+ * Cancel a request created by the current user
+ */
+export async function cancelPaymentRequest(paymentRequestId: string): Promise<void> {
+  await httpsCallable(functions, 'cancelPaymentRequest')({ paymentRequestId });
+}
+
+/**
+ * Subscribe to live updates of a single request
+ */
+export function subscribeToPaymentRequest(
+  paymentRequestId: string,
+  onChange: (request: PaymentRequest | null) => void,
+  onError?: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    doc(db, 'payment-requests', paymentRequestId),
+    (snapshot) => {
+      onChange(snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as PaymentRequest) : null);
+    },
+    (error) => onError?.(error)
+  );
+}
+
+/**
+ * Shareable link that opens the request on the PXL page
+ */
+export function getPaymentRequestLink(paymentRequestId: string): string {
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  return `${origin}/pxl/request/${paymentRequestId}`;
+}
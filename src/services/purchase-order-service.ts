@@ -0,0 +1,175 @@
+/**
+ * Purchase Order Service
+ * Codes are ordered from suppliers on purchase orders placed through Cloud
+ * Functions; batches are received against them through the giftcard-codes approval
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { collection, getDocs, limit, orderBy, query, where, Timestamp } from 'firebase/firestore';
+import { db, functions } from '@/lib/firebase-config';
+import { DenominationInventory } from '@/services/giftcard-vault-service';
+
+const LIST_LIMIT = 100;
+
+export type PurchaseOrderStatus = 'open' | 'partially-received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  denomination: number;
+  quantity: number;
+  received: number;
+}
+
+export interface PurchaseOrderReceipt {
+  // The giftcard-codes approval that stocked the batch
+  approvalId: string;
+  productId: string;
+  denomination: number;
+  quantity: number;
+  receivedAt: Timestamp;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseOrderReceipt[];
+  notes: string | null;
+  orderedBy: string;
+  orderedAt: Timestamp;
+  expectedAt: Timestamp | null;
+  receivedAt: Timestamp | null;
+  cancelledAt: Timestamp | null;
+  cancelReason?: string;
+}
+
+export interface NewPurchaseOrderLine {
+  productId: string;
+  denomination: number;
+  quantity: number;
+}
+
+export interface ReorderProduct {
+  id: string;
+  brand: string;
+  name: string;
+  supplierId?: string;
+  denominations: Array<{ value: number }>;
+}
+
+export interface ReorderLine extends NewPurchaseOrderLine {
+  productName: string;
+  available: number;
+  // Still to arrive on open purchase orders
+  onOrder: number;
+}
+
+export interface ReorderSuggestion {
+  // Null when the products have no supplier on file
+  supplierId: string | null;
+  lines: ReorderLine[];
+}
+
+export function isReceivable(order: PurchaseOrder): boolean {
+  return order.status === 'open' || order.status === 'partially-received';
+}
+
+/**
+ * Low-stock denominations grouped by supplier, each topped up to the target stock
+ * Codes already on order count towards the target, so reordering is not doubled up.
+ */
+export function buildReorderSuggestions(
+  products: ReorderProduct[],
+  inventory: DenominationInventory[],
+  openOrders: PurchaseOrder[],
+  threshold: number,
+  targetStock: number
+): ReorderSuggestion[] {
+  const onOrder = new Map<string, number>();
+  openOrders.filter(isReceivable).forEach(order => {
+    order.lines.forEach(line => {
+      const key = `${line.productId}:${line.denomination}`;
+      onOrder.set(key, (onOrder.get(key) || 0) + line.quantity - line.received);
+    });
+  });
+
+  const suggestions = new Map<string | null, ReorderLine[]>();
+  products.forEach(product => {
+    product.denominations.forEach(({ value }) => {
+      const key = `${product.id}:${value}`;
+      const available = inventory.find(entry => entry.productId === product.id && entry.denomination === value)?.available || 0;
+      const pending = onOrder.get(key) || 0;
+      const quantity = targetStock - available - pending;
+
+      if (available > threshold || quantity <= 0) return;
+
+      const supplierId = product.supplierId || null;
+      suggestions.set(supplierId, [...(suggestions.get(supplierId) || []), {
+        productId: product.id,
+        productName: `${product.brand} - ${product.name}`,
+        denomination: value,
+        quantity,
+        available,
+        onOrder: pending,
+      }]);
+    });
+  });
+
+  return [...suggestions].map(([supplierId, lines]) => ({ supplierId, lines }));
+}
+
+/**
+ * Place a purchase order with a supplier (catalog:write)
+ * expectedAt is the promised delivery in epoch ms
+ */
+export async function createPurchaseOrder(
+  supplierId: string,
+  lines: NewPurchaseOrderLine[],
+  expectedAt?: number | null,
+  notes?: string
+): Promise<{ purchaseOrderId: string; status: PurchaseOrderStatus }> {
+  const callable = httpsCallable<
+    { supplierId: string; lines: NewPurchaseOrderLine[]; expectedAt?: number | null; notes?: string },
+    { purchaseOrderId: string; status: PurchaseOrderStatus }
+  >(functions, 'createPurchaseOrder');
+  const result = await callable({ supplierId, lines, expectedAt, notes });
+  return result.data;
+}
+
+/**
+ * Cancel what is still outstanding on a purchase order (catalog:write)
+ */
+export async function cancelPurchaseOrder(purchaseOrderId: string, reason: string): Promise<void> {
+  const callable = httpsCallable<{ purchaseOrderId: string; reason: string }, { purchaseOrderId: string; status: PurchaseOrderStatus }>(
+    functions,
+    'cancelPurchaseOrder'
+  );
+  await callable({ purchaseOrderId, reason });
+}
+
+/**
+ * Most recent purchase orders, optionally with a single status
+ */
+export async function listPurchaseOrders(status?: PurchaseOrderStatus): Promise<PurchaseOrder[]> {
+  const constraints = status
+    ? [where('status', '==', status), orderBy('orderedAt', 'desc'), limit(LIST_LIMIT)]
+    : [orderBy('orderedAt', 'desc'), limit(LIST_LIMIT)];
+  const snapshot = await getDocs(query(collection(db, 'purchase-orders'), ...constraints));
+
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PurchaseOrder));
+}
+
+/**
+ * Purchase orders that can still receive codes
+ */
+export async function listOpenPurchaseOrders(): Promise<PurchaseOrder[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'purchase-orders'),
+    where('status', 'in', ['open', 'partially-received'])
+  ));
+
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PurchaseOrder));
+}
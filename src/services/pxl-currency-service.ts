@@ -9,17 +9,16 @@ import {
   onSnapshot, 
   setDoc, 
   getDoc, 
-  updateDoc,
   Timestamp,
   collection,
-  addDoc,
   query,
   where,
   orderBy,
   getDocs,
   limit
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase-config';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '@/lib/firebase-config';
 import { 
   PXLCurrency, 
   DEFAULT_TIER_BENEFITS, 
@@ -30,6 +29,14 @@ import {
   TierBenefits
 } from '@/lib/pxl-currency';
 
+export interface PXLPurchaseResult {
+  transactionId: string;
+  pxlReceived: number;
+  bonusPxl: number;
+  effectiveRate: number;
+  newBalance: number;
+}
+
 // Singleton instance
 let currencyInstance: PXLCurrencyService | null = null;
 
@@ -213,150 +220,43 @@ export class PXLCurrencyService {
   }
 
   /**
-   * Update exchange rate (admin function)
+   * Credit a card or PayPal payment made for a purchase from createPXLPurchase
+   * The payment must carry the purchase ID as its reference; the wallet is
+   * credited server-side through the PXL ledger at the purchase's locked rate
    */
-  async updateExchangeRate(newRate: number, reason?: string): Promise<void> {
-    const currencyRef = doc(db, 'pxl-currency', 'main');
-    
-    // Get current data to preserve history
-    const currentSnap = await getDoc(currencyRef);
-    if (!currentSnap.exists()) {
-      throw new Error('Currency data not found');
-    }
-    
-    const currentData = currentSnap.data() as PXLCurrency;
-    
-    // Add new rate point to hourly data
-    const newRatePoint = {
-      timestamp: Timestamp.now(),
-      rate: newRate,
-    };
-    
-    // Update hourly rates (keep last 24 hours)
-    const updatedHourlyRates = [...currentData.marketData.hourlyRates, newRatePoint]
-      .slice(-24);
-    
-    // Calculate new trend
-    const oldRate = currentData.currentRate;
-    const trend = newRate > oldRate ? 'up' : newRate < oldRate ? 'down' : 'stable';
-    
-    await updateDoc(currencyRef, {
-      currentRate: newRate,
-      'marketData.hourlyRates': updatedHourlyRates,
-      'marketData.trend': trend,
-      lastUpdated: Timestamp.now(),
-    });
-    
-    // Log the rate change
-    if (reason) {
-      await this.logRateChange(oldRate, newRate, reason);
-    }
-  }
+  async processPXLPurchase(purchaseId: string, paymentId: string): Promise<PXLPurchaseResult> {
+    try {
+      const processPurchase = httpsCallable<
+        { purchaseId: string; paymentId: string },
+        PXLPurchaseResult
+      >(functions, 'processPXLPurchase');
 
-  /**
-   * Log rate change for audit trail
-   */
-  private async logRateChange(oldRate: number, newRate: number, reason: string): Promise<void> {
-    await addDoc(collection(db, 'admin-actions'), {
-      type: 'exchange_rate_update',
-      oldRate,
-      newRate,
-      change: newRate - oldRate,
-      changePercent: ((newRate - oldRate) / oldRate) * 100,
-      reason,
-      timestamp: Timestamp.now(),
-    });
+      const result = await processPurchase({ purchaseId, paymentId });
+      return result.data;
+    } catch (error) {
+      console.error('Error in processPXLPurchase:', error);
+      throw error;
+    }
   }
 
   /**
-   * Process PXL purchase transaction
+   * Start a PXL purchase paid on the provider's page
+   * Returns the purchase ID to send as the payment's customer reference;
+   * the payment webhook credits the wallet once the provider confirms payment
    */
-  async processPXLPurchase(
-    userId: string,
+  async createPXLPurchase(
     usdAmount: number,
-    userTier: string,
-    paymentMethod: string,
-    paymentId: string
-  ): Promise<{
-    transactionId: string;
-    pxlReceived: number;
-    bonusPxl: number;
-    effectiveRate: number;
-  }> {
-    try {
-      // Calculate PXL amount with tier discount
-      const calculation = this.calculatePXLPurchase(usdAmount, userTier);
-      
-      // Create transaction record
-      const transaction = {
-        userId,
-        type: 'pxl-purchase',
-        amounts: {
-          usd: usdAmount,
-          pxl: calculation.totalPxl,
-          exchangeRate: this.getCurrentRate(),
-          bonusPxl: calculation.bonusPxl,
-          effectiveRate: calculation.effectiveRate,
-        },
-        payment: {
-          method: paymentMethod,
-          provider: paymentMethod === 'paypal' ? 'paypal' : 'stripe',
-          externalId: paymentId,
-        },
-        tier: {
-          userTier,
-          purchaseDiscountPercentage: calculation.appliedDiscount,
-        },
-        status: 'completed',
-        timestamps: {
-          created: Timestamp.now(),
-          updated: Timestamp.now(),
-          completed: Timestamp.now(),
-        },
-      };
-      
-      // Add transaction to Firestore
-      const docRef = await addDoc(collection(db, 'transactions'), transaction);
-      
-      // Update user's PXL balance
-      // Note: In production, this should be done in a Cloud Function for security
-      const userRef = doc(db, 'users', userId);
-      const userDoc = await getDoc(userRef);
-      
-      if (!userDoc.exists()) {
-        throw new Error('User not found');
-      }
-      
-      const userData = userDoc.data();
-      
-      // Ensure wallet structure exists
-      if (!userData.wallets) {
-        userData.wallets = { pxl: { balance: 0, totalEarned: 0, lockedBalance: 0, totalSpent: 0, totalSent: 0, totalReceived: 0 }, usd: { balance: 0 } };
-      }
-      if (!userData.wallets.pxl) {
-        userData.wallets.pxl = { balance: 0, totalEarned: 0, lockedBalance: 0, totalSpent: 0, totalSent: 0, totalReceived: 0 };
-      }
-      
-      const currentBalance = userData.wallets.pxl.balance || 0;
-      const currentTotalEarned = userData.wallets.pxl.totalEarned || 0;
-      
-      // Update the user's PXL balance and statistics
-      await updateDoc(userRef, {
-        'wallets.pxl.balance': currentBalance + calculation.totalPxl,
-        'wallets.pxl.totalEarned': currentTotalEarned + calculation.totalPxl,
-        'timestamps.updated': Timestamp.now()
-      });
-      
-      return {
-        transactionId: docRef.id,
-        pxlReceived: calculation.totalPxl,
-        bonusPxl: calculation.bonusPxl,
-        effectiveRate: calculation.effectiveRate,
-      };
-    } catch (error) {
-      console.error('Error in processPXLPurchase:', error);
-      throw error;
-    }
+    paymentMethod: 'myfatoorah' | 'stripe' | 'paypal',
+    idempotencyKey: string,
+    quoteId?: string
+  ): Promise<string> {
+    const createPurchase = httpsCallable<
+      { usdAmount: number; paymentMethod: string; idempotencyKey: string; quoteId?: string },
+      { purchaseId: string }
+    >(functions, 'createPXLPurchase');
+
+    const result = await createPurchase({ usdAmount, paymentMethod, idempotencyKey, quoteId });
+    return result.data.purchaseId;
   }
 
   /**
@@ -0,0 +1,55 @@
+/**
+ * Rate-lock Quote Service
+ * Locks the exchange rate and tier bonus for PXL purchases and giftcard
+ * checkouts through Cloud Functions. Quote IDs are signed by the server and
+ * passed back to the purchase and order endpoints unchanged.
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase-config';
+import { OrderLine } from '@/services/order-service';
+
+export interface Quote {
+  quoteId: string;
+  exchangeRate: number;
+  tier: string;
+  // Milliseconds since epoch after which the quote is rejected
+  expiresAt: number;
+}
+
+export interface PXLPurchaseQuote extends Quote {
+  usdAmount: number;
+  basePxl: number;
+  bonusPxl: number;
+  totalPxl: number;
+  appliedDiscount: number;
+  effectiveRate: number;
+}
+
+export interface OrderQuote extends Quote {
+  totals: {
+    usd: number;
+    pxlSubtotal: number;
+    discount: number;
+    pxl: number;
+    cashback: number;
+  };
+}
+
+/**
+ * Lock the rate and tier bonus for buying PXL with USD
+ */
+export async function quotePXLPurchase(usdAmount: number): Promise<PXLPurchaseQuote> {
+  const callable = httpsCallable<{ usdAmount: number }, PXLPurchaseQuote>(functions, 'quotePXLPurchase');
+  const result = await callable({ usdAmount });
+  return result.data;
+}
+
+/**
+ * Lock the price of a cart
+ */
+export async function quoteOrder(items: OrderLine[]): Promise<OrderQuote> {
+  const callable = httpsCallable<{ items: OrderLine[] }, OrderQuote>(functions, 'quoteOrder');
+  const result = await callable({ items });
+  return result.data;
+}
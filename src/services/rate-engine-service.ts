@@ -0,0 +1,69 @@
+/**
+ * PXL Rate Engine Service
+ * Previews exchange-rate models through Cloud Functions; activating one goes
+ * through proposeRateModel in the admin approval service
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase-config';
+
+export type RateModelType = 'fixed-peg' | 'supply-demand' | 'bounded-drift';
+
+export interface RateModelConfig {
+  type: RateModelType;
+  baseRate: number;
+  maxStepPercent: number;
+  bandPercent: number;
+  circuitBreaker: {
+    maxMovePercent: number;
+    windowHours: number;
+    haltMinutes: number;
+  };
+  sensitivityPercent?: number;
+  windowHours?: number;
+  targetRate?: number;
+  driftPercentPerRun?: number;
+}
+
+export interface RatePreviewPoint {
+  // Milliseconds since epoch
+  at: number;
+  rate: number;
+  targetRate: number;
+  clampedBy: 'none' | 'step' | 'band';
+  halted: boolean;
+}
+
+export interface RatePreview {
+  startRate: number;
+  finalRate: number;
+  minRate: number;
+  maxRate: number;
+  changePercent: number;
+  clampedSteps: number;
+  circuitBreakerTrips: number;
+  transactionCount: number;
+  points: RatePreviewPoint[];
+}
+
+export const DEFAULT_RATE_MODEL: RateModelConfig = {
+  type: 'fixed-peg',
+  baseRate: 100,
+  maxStepPercent: 0.5,
+  bandPercent: 5,
+  circuitBreaker: {
+    maxMovePercent: 3,
+    windowHours: 1,
+    haltMinutes: 60,
+  },
+};
+
+/**
+ * Replay the last few hours of volume through a model without activating it
+ */
+export async function previewRateModel(model: RateModelConfig, hours = 24): Promise<RatePreview> {
+  const callable = httpsCallable<{ model: RateModelConfig; hours: number }, RatePreview>(functions, 'previewRateModel');
+  const result = await callable({ model, hours });
+  return result.data;
+}
+
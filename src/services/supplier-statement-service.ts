@@ -0,0 +1,84 @@
+/**
+ * Supplier Statement Service
+ * Monthly commission statements are built by Cloud Functions from the codes
+ * each supplier sold in the month, then marked settled once paid out
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { collection, getDocs, limit, orderBy, query, where, Timestamp } from 'firebase/firestore';
+import { db, functions } from '@/lib/firebase-config';
+
+const LIST_LIMIT = 100;
+
+export type SupplierStatementStatus = 'issued' | 'settled';
+
+export interface SupplierStatementLine {
+  productId: string;
+  productName: string;
+  denomination: number;
+  quantity: number;
+  faceValue: number;
+}
+
+export interface SupplierStatement {
+  id: string;
+  supplierId: string;
+  supplierName: string;
+  // Calendar month, YYYY-MM (UTC)
+  period: string;
+  periodStart: Timestamp;
+  periodEnd: Timestamp;
+  lines: SupplierStatementLine[];
+  codesSold: number;
+  // Face value of the codes sold
+  grossSales: number;
+  // Percentage the platform keeps
+  commissionRate: number;
+  commission: number;
+  // Owed to the supplier
+  payable: number;
+  status: SupplierStatementStatus;
+  generatedBy: string;
+  generatedAt: Timestamp;
+  settledBy: string | null;
+  settledAt: Timestamp | null;
+  settlementReference: string | null;
+}
+
+/**
+ * Build or rebuild a supplier's statement for a closed month (finance:write)
+ */
+export async function generateSupplierStatement(
+  supplierId: string,
+  period: string
+): Promise<{ statementId: string; codesSold: number; grossSales: number; commission: number; payable: number }> {
+  const callable = httpsCallable<
+    { supplierId: string; period: string },
+    { statementId: string; codesSold: number; grossSales: number; commission: number; payable: number }
+  >(functions, 'generateSupplierStatement');
+  const result = await callable({ supplierId, period });
+  return result.data;
+}
+
+/**
+ * Record the payout of an issued statement (finance:write)
+ */
+export async function settleSupplierStatement(statementId: string, reference: string): Promise<void> {
+  const callable = httpsCallable<{ statementId: string; reference: string }, { statementId: string; status: SupplierStatementStatus }>(
+    functions,
+    'settleSupplierStatement'
+  );
+  await callable({ statementId, reference });
+}
+
+/**
+ * Most recent statements, optionally for a single supplier
+ */
+export async function listSupplierStatements(supplierId?: string): Promise<SupplierStatement[]> {
+  const constraints = supplierId
+    ? [where('supplierId', '==', supplierId), orderBy('period', 'desc'), limit(LIST_LIMIT)]
+    : [orderBy('period', 'desc'), limit(LIST_LIMIT)];
+  const snapshot = await getDocs(query(collection(db, 'supplier-statements'), ...constraints));
+
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SupplierStatement));
+}
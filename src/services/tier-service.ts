@@ -0,0 +1,71 @@
+/**
+ * Tier Service
+ * Tiers are computed only by the tier engine Cloud Functions; the client
+ * reads the rules for display and asks the server to re-evaluate
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase-config';
+
+export type TierName = 'starter' | 'rising' | 'pro' | 'pixlbeast' | 'pixlionaire';
+
+export const TIER_ORDER: TierName[] = ['starter', 'rising', 'pro', 'pixlbeast', 'pixlionaire'];
+
+export interface TierRule {
+  minBalance: number;
+  // PXL spent on giftcards over the last 90 days
+  minSpend90d: number;
+  minLifetimeEarned: number;
+  // 'any' qualifies on one met requirement, 'all' needs every non-zero one
+  match: 'any' | 'all';
+}
+
+// Stored on pxl-currency/main as tierConfig
+export interface TierRulesConfig {
+  graceDays: number;
+  rules: Record<TierName, TierRule>;
+}
+
+export const DEFAULT_TIER_RULES: TierRulesConfig = {
+  graceDays: 30,
+  rules: {
+    starter: { minBalance: 0, minSpend90d: 0, minLifetimeEarned: 0, match: 'any' },
+    rising: { minBalance: 1000, minSpend90d: 0, minLifetimeEarned: 0, match: 'any' },
+    pro: { minBalance: 5000, minSpend90d: 0, minLifetimeEarned: 0, match: 'any' },
+    pixlbeast: { minBalance: 10000, minSpend90d: 0, minLifetimeEarned: 0, match: 'any' },
+    pixlionaire: { minBalance: 50000, minSpend90d: 0, minLifetimeEarned: 0, match: 'any' },
+  },
+};
+
+export interface TierEvaluation {
+  userId: string;
+  fromTier: TierName;
+  tier: TierName;
+  qualifiedTier: TierName;
+  changed: boolean;
+  reason: 'qualified' | 'grace-expired' | 'override' | 'override-expired' | null;
+  // Milliseconds since epoch the current tier is kept until, while in grace
+  graceUntil: number | null;
+}
+
+/**
+ * Stored rules merged over the defaults
+ */
+export function resolveTierRules(stored?: Partial<TierRulesConfig> | null): TierRulesConfig {
+  return {
+    graceDays: stored?.graceDays ?? DEFAULT_TIER_RULES.graceDays,
+    rules: TIER_ORDER.reduce((rules, tier) => ({
+      ...rules,
+      [tier]: { ...DEFAULT_TIER_RULES.rules[tier], ...(stored?.rules?.[tier] || {}) },
+    }), {} as Record<TierName, TierRule>),
+  };
+}
+
+/**
+ * Re-evaluate the signed-in user's tier, or another user's for admins
+ */
+export async function recalculateTier(userId?: string): Promise<TierEvaluation> {
+  const callable = httpsCallable<{ userId?: string }, TierEvaluation>(functions, 'recalculateTier');
+  const result = await callable({ userId });
+  return result.data;
+}
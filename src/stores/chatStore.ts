@@ -9,23 +9,31 @@ import { immer } from 'zustand/middleware/immer';
 import { enableMapSet } from 'immer';
 import { Socket } from 'socket.io-client';
 import { EncryptionService } from '@/services/chat/encryption.service';
-import { Timestamp, doc, updateDoc, arrayUnion, arrayRemove, getDoc, setDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase-config';
+import type { DeviceEnvelopes, RatchetEnvelope } from '@/services/chat/ratchet.service';
+import { Timestamp } from 'firebase/firestore';
 import { authManager } from '@/lib/firebase-auth-manager';
 import { notificationService } from '@/services/notification.service';
+import { messageSyncService, SyncedMessage } from '@/services/chat/message-sync.service';
+import type { ChatMessage, DisappearingTimer, DeleteScope, MessageContent, DecryptedRevision, ThreadSummary } from '@/services/chat/firestore-chat.service';
 
 // Enable MapSet support for Immer to work with Maps and Sets
 enableMapSet();
 
+// How long to wait for the chat server to confirm a send before using Firestore
+const SEND_ACK_TIMEOUT_MS = 10000;
+
 // Types
 export interface Message {
   id: string;
   conversationId: string;
   senderId: string;
-  type: 'text' | 'image' | 'file' | 'voice';
+  type: 'text' | 'image' | 'file' | 'voice' | 'payment-request';
   content: string; // Always encrypted
   decryptedContent?: string; // Decrypted on client
   nonce: string;
+  keyVersion?: number; // Group sender key version, for group messages
+  senderDevice?: string; // Sending device, for direct messages
+  envelopes?: Record<string, RatchetEnvelope>; // Per-device ciphertexts, for direct messages
   timestamp: Timestamp;
   delivered: string[];
   read: string[];
@@ -38,8 +46,15 @@ export interface Message {
     duration?: number; // For voice notes
     edited?: boolean;
     editedAt?: Timestamp;
+    editedBy?: string;
   };
   status?: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+  expiresAt?: number; // Epoch ms when a disappearing message is deleted
+  seq?: number; // Per-conversation sequence number, once saved
+  clientMessageId?: string; // Sender-generated ID, the same on every delivery path
+  deleted?: boolean; // Deleted for everyone; only a tombstone is left
+  threadId?: string; // Root message, for replies in a thread
+  threadSummary?: ThreadSummary; // Replies so far, for a thread's root message
 }
 
 export interface Conversation {
@@ -67,6 +82,7 @@ export interface Conversation {
     createdBy: string;
     admins: string[];
   };
+  disappearingMessages?: DisappearingTimer;
   unreadCount?: number;
   createdAt: Timestamp;
   updatedAt: Timestamp;
@@ -108,6 +124,8 @@ export interface ChatState {
   searchQuery: string;
   selectedMessageIds: Set<string>;
   replyingTo: Message | null;
+  activeThreadId: string | null; // Root message of the open thread panel
+  threadUnread: Map<string, number>; // root messageId -> unread replies
   
   // Pagination
   hasMore: Map<string, boolean>; // conversationId -> hasMore
@@ -121,15 +139,23 @@ export interface ChatState {
   markConversationAsRead: (conversationId: string) => void;
   
   // Actions - Messages
-  sendMessage: (content: string, type: Message['type'], metadata?: any) => Promise<void>;
+  sendMessage: (content: string, type: Message['type'], metadata?: any, threadId?: string) => Promise<void>;
   loadMessages: (conversationId: string, pagination?: { limit: number; before?: string }) => Promise<void>;
   loadMoreMessages: (conversationId: string) => Promise<void>;
-  deleteMessage: (messageId: string) => void;
+  deleteMessage: (messageId: string, scope: DeleteScope) => Promise<void>;
+  purgeExpiredMessages: (expired?: { conversationId: string; messageIds: string[] }) => void;
+  syncMessages: (conversationId?: string) => Promise<void>;
   editMessage: (messageId: string, newContent: string) => Promise<void>;
+  getEditHistory: (messageId: string) => Promise<DecryptedRevision[]>;
   addReaction: (messageId: string, emoji: string) => Promise<void>;
   removeReaction: (messageId: string, emoji: string) => Promise<void>;
   setReplyingTo: (message: Message | null) => void;
   
+  // Actions - Threads
+  openThread: (rootId: string) => Promise<void>;
+  closeThread: () => void;
+  loadThread: (conversationId: string, rootId: string) => Promise<void>;
+  
   // Actions - Real-time
   updateTyping: (conversationId: string, isTyping: boolean) => void;
   setTypingUser: (conversationId: string, userId: string, isTyping: boolean) => void;
@@ -165,6 +191,197 @@ export interface ChatState {
   reset: () => void;
 }
 
+/**
+ * Convert a message from the chat server, e.g. from a sync, to the store format
+ */
+function fromServerMessage(message: SyncedMessage, decryptedContent: string): Message {
+  return {
+    id: message.id,
+    conversationId: message.conversationId,
+    senderId: message.senderId,
+    type: message.type || 'text',
+    content: message.text || message.senderText || message.content,
+    decryptedContent,
+    nonce: message.nonce || '',
+    keyVersion: message.keyVersion,
+    senderDevice: message.senderDevice,
+    envelopes: message.envelopes,
+    timestamp: message.timestamp as any,
+    delivered: message.delivered || [],
+    read: message.read || [],
+    reactions: message.reactions || {},
+    status: 'sent',
+    metadata: message.metadata || {},
+    expiresAt: message.expiresAt ? new Date(message.expiresAt).getTime() : undefined,
+    seq: message.seq,
+    clientMessageId: message.clientMessageId,
+    deleted: message.deleted,
+    threadId: message.threadId,
+    threadSummary: message.threadSummary
+  };
+}
+
+/**
+ * Convert a message from a Firestore subscription, already decrypted, to the store format
+ */
+function fromFirestoreMessage(conversationId: string, msg: ChatMessage): Message {
+  return {
+    id: msg.id,
+    conversationId,
+    senderId: msg.senderId,
+    type: (msg as any).type || 'text' as const,
+    content: msg.encryptedContent || msg.text,
+    decryptedContent: msg.text, // Already decrypted by subscribeMessages
+    nonce: msg.nonce || '',
+    keyVersion: msg.keyVersion,
+    senderDevice: msg.senderDevice,
+    envelopes: msg.envelopes,
+    timestamp: msg.timestamp,
+    delivered: (msg as any).deliveredTo || [],
+    read: (msg as any).readBy || [],
+    reactions: (msg as any).reactions || {},
+    status: 'sent' as const,
+    metadata: (msg as any).metadata || {},
+    expiresAt: msg.expiresAt?.toMillis(),
+    seq: msg.seq,
+    clientMessageId: msg.clientMessageId,
+    deleted: msg.deleted,
+    threadId: msg.threadId,
+    threadSummary: msg.threadSummary
+  };
+}
+
+/**
+ * Find the conversation a message is in
+ */
+function findConversationId(state: ChatState, messageId: string): string | undefined {
+  for (const [conversationId, messages] of state.messages) {
+    if (messages.some((m: Message) => m.id === messageId)) {
+      return conversationId;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Emit to the chat server and wait for its callback
+ */
+function emitWithAck<T = any>(socket: Socket, event: string, data: any): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`${event} timed out`)), SEND_ACK_TIMEOUT_MS);
+    socket.emit(event, data, (error: any, response: T) => {
+      clearTimeout(timeout);
+      if (error) {
+        reject(new Error(typeof error === 'string' ? error : error.message || `${event} failed`));
+      } else {
+        resolve(response);
+      }
+    });
+  });
+}
+
+/**
+ * Encrypt the new text of an edit the same way a new message is encrypted
+ * Unlike sending, a failure is thrown rather than sent as plaintext.
+ */
+async function encryptEdit(state: ChatState, conversationId: string, content: string): Promise<MessageContent> {
+  const conversation = state.conversations.get(conversationId);
+  if (!state.encryption || !state.userId || !conversation) {
+    return { text: content, senderText: content };
+  }
+  
+  const { keyExchangeService, getUserPublicKey } = await import('@/services/chat/key-exchange.service');
+  if (conversation.type === 'group') {
+    const groupKey = await keyExchangeService.getCurrentGroupKey(conversationId, state.userId)
+      || await keyExchangeService.distributeGroupKey(conversationId, conversation.members, state.userId);
+    const encrypted = state.encryption.encryptGroupMessage(content, groupKey.key);
+    return {
+      text: encrypted.content,
+      nonce: encrypted.nonce,
+      senderText: encrypted.content,
+      senderNonce: encrypted.nonce,
+      keyVersion: groupKey.version
+    };
+  }
+  
+  const recipientId = conversation.members.find(id => id !== state.userId);
+  if (!recipientId || !(await getUserPublicKey(recipientId))) {
+    // Like sending, conversations without the recipient's key are plaintext
+    return { text: content, senderText: content };
+  }
+  
+  const { safetyNumberService } = await import('@/services/chat/safety-number.service');
+  await safetyNumberService.assertSendable(state.userId, recipientId);
+  
+  const { ratchetService } = await import('@/services/chat/ratchet.service');
+  const { senderDevice, envelopes } = await ratchetService.encrypt(state.userId, conversationId, conversation.members, content);
+  return { text: '', senderDevice, envelopes };
+}
+
+/**
+ * Hide a message deleted for this user, or replace one deleted for everyone with a tombstone
+ */
+function applyDeletion(state: Pick<ChatState, 'messages'>, conversationId: string, messageId: string, scope: DeleteScope): void {
+  const messages = state.messages.get(conversationId);
+  if (!messages) return;
+  
+  const remaining = scope === 'me'
+    ? messages.filter((m: Message) => m.id !== messageId)
+    : messages.map((m: Message) => m.id !== messageId ? m : {
+        id: m.id,
+        conversationId: m.conversationId,
+        senderId: m.senderId,
+        type: m.type,
+        content: '',
+        nonce: '',
+        timestamp: m.timestamp,
+        delivered: m.delivered,
+        read: m.read,
+        reactions: {},
+        status: m.status,
+        seq: m.seq,
+        clientMessageId: m.clientMessageId,
+        deleted: true,
+        threadId: m.threadId,
+        threadSummary: m.threadSummary
+      });
+  state.messages.set(conversationId, remaining);
+  
+  try {
+    localStorage.setItem(`chat_messages_${conversationId}`, JSON.stringify(remaining));
+  } catch (error) {
+    console.warn('Failed to save messages to localStorage:', error);
+  }
+}
+
+/**
+ * Replace a thread root's summary, unless it already has the same or a newer one
+ * The chat server sends the whole summary with every reply, so receiving a
+ * reply twice does not count it twice.
+ */
+function applyThreadSummary(state: Pick<ChatState, 'messages'>, conversationId: string, threadId: string, summary: ThreadSummary): void {
+  const messages = state.messages.get(conversationId) || [];
+  const root = messages.find((m: Message) => m.id === threadId);
+  if (!root || (root.threadSummary && root.threadSummary.replyCount >= summary.replyCount)) return;
+  
+  root.threadSummary = summary;
+  try {
+    localStorage.setItem(`chat_messages_${conversationId}`, JSON.stringify(messages));
+  } catch (error) {
+    console.warn('Failed to save thread summary to localStorage:', error);
+  }
+}
+
+// Firestore subscription to the replies of the open thread
+let threadUnsubscribe: (() => void) | null = null;
+
+/**
+ * Milliseconds of a Firestore Timestamp, Date or ISO string
+ */
+function timestampMillis(timestamp: any): number {
+  return timestamp?.toMillis?.() ?? new Date(timestamp?.seconds ? timestamp.seconds * 1000 : timestamp).getTime();
+}
+
 // Create store with middleware
 export const useChatStore = create<ChatState>()(
   devtools(
@@ -189,6 +406,8 @@ export const useChatStore = create<ChatState>()(
         searchQuery: '',
         selectedMessageIds: new Set(),
         replyingTo: null,
+        activeThreadId: null,
+        threadUnread: new Map(),
         hasMore: new Map(),
         loadingMore: new Map(),
 
@@ -206,6 +425,11 @@ export const useChatStore = create<ChatState>()(
             state.activeConversationId = id;
           });
           
+          // Threads belong to the conversation they were opened in
+          if (get().activeThreadId) {
+            get().closeThread();
+          }
+          
           // Ensure member public keys are loaded for this conversation
           if (id) {
             const conversation = get().conversations.get(id);
@@ -377,6 +601,7 @@ export const useChatStore = create<ChatState>()(
             console.log('🧹 Cleaned groupInfo:', cleanGroupInfo);
             
             const conversation = await createGroupConversation(
+              cleanGroupInfo.createdBy,
               members,
               cleanGroupInfo
             );
@@ -536,7 +761,7 @@ export const useChatStore = create<ChatState>()(
         }),
 
         // Message actions
-        sendMessage: async (content, type, metadata) => {
+        sendMessage: async (content, type, metadata, threadId) => {
           const state = get();
           const conversationId = state.activeConversationId;
           
@@ -554,12 +779,53 @@ export const useChatStore = create<ChatState>()(
           let nonce: string | undefined;
           let senderEncryptedContent: string | undefined;
           let senderNonce: string | undefined;
+          let keyVersion: number | undefined;
+          let deviceEnvelopes: DeviceEnvelopes | undefined;
           
           const conversation = state.conversations.get(conversationId);
           const recipientId = conversation?.members.find(id => id !== state.userId);
+          const isMediaMessage = ['image', 'file', 'voice'].includes(type);
           
-          // Always fetch fresh public key from Firestore to ensure synchronization
-          if (state.encryption && recipientId) {
+          // A device waiting to be linked must not fall back to sending plaintext
+          if (state.encryption && state.userId && !isMediaMessage) {
+            const { keyExchangeService } = await import('@/services/chat/key-exchange.service');
+            if (!(await keyExchangeService.isCurrentDeviceLinked(state.userId))) {
+              throw new Error('This device is not linked yet. Confirm it from a linked device under Profile → Linked devices.');
+            }
+          }
+
+          // Keys that changed since they were last seen must be acknowledged first
+          if (state.encryption && state.userId && conversation?.type !== 'group' && recipientId && !isMediaMessage) {
+            const { safetyNumberService } = await import('@/services/chat/safety-number.service');
+            await safetyNumberService.assertSendable(state.userId, recipientId);
+          }
+
+          if (state.encryption && conversation?.type === 'group' && state.userId && !isMediaMessage) {
+            try {
+              // Encrypt once with the group's sender key, distributing a new one if it is missing or due for rotation
+              const { keyExchangeService } = await import('@/services/chat/key-exchange.service');
+              const groupKey = await keyExchangeService.getCurrentGroupKey(conversationId, state.userId)
+                || await keyExchangeService.distributeGroupKey(conversationId, conversation.members, state.userId);
+              
+              const encrypted = state.encryption.encryptGroupMessage(content, groupKey.key);
+              encryptedContent = encrypted.content;
+              nonce = encrypted.nonce;
+              keyVersion = groupKey.version;
+              
+              // The sender reads the message with the group key like every other member
+              senderEncryptedContent = encrypted.content;
+              senderNonce = encrypted.nonce;
+              console.log(`✅ Message encrypted with group key v${groupKey.version}`);
+            } catch (error) {
+              console.error('❌ Group encryption failed:', error);
+              encryptedContent = content;
+              nonce = undefined;
+              senderEncryptedContent = content;
+              senderNonce = undefined;
+              keyVersion = undefined;
+            }
+          } else if (state.encryption && recipientId) {
+            // Always fetch fresh public key from Firestore to ensure synchronization
             try {
               // Always fetch the latest public key from Firestore
               const { getUserPublicKey } = await import('@/services/chat/key-exchange.service');
@@ -582,15 +848,16 @@ export const useChatStore = create<ChatState>()(
                   }
                 });
                 
-                // Encrypt for recipient with fresh key
-                const encrypted = await state.encryption.encryptMessage(content, recipientPublicKey);
-                encryptedContent = encrypted.content;
-                nonce = encrypted.nonce;
-                console.log('✅ Message encrypted with fresh recipient key');
+                // Encrypt with a double ratchet for every linked device, setting sessions up on first use
+                const { ratchetService } = await import('@/services/chat/ratchet.service');
+                deviceEnvelopes = await ratchetService.encrypt(state.userId!, conversationId, conversation!.members, content);
+                encryptedContent = '';
+                nonce = undefined;
+                console.log('✅ Message encrypted for devices:', Object.keys(deviceEnvelopes.envelopes).length);
                 
-                // For sender: Store as base64-encoded plaintext with marker
-                senderEncryptedContent = btoa(content);
-                senderNonce = 'plaintext'; // Special marker for plaintext
+                // This device reads its copy with the message keys the ratchet kept
+                senderEncryptedContent = '';
+                senderNonce = undefined;
               } else {
                 console.log('⚠️ No recipient public key - sending unencrypted');
                 // When recipient has no key, send plaintext for both
@@ -606,6 +873,7 @@ export const useChatStore = create<ChatState>()(
               nonce = undefined;
               senderEncryptedContent = content;
               senderNonce = undefined;
+              deviceEnvelopes = undefined;
             }
           } else {
             // No encryption available - send plaintext
@@ -615,31 +883,50 @@ export const useChatStore = create<ChatState>()(
             senderNonce = undefined;
           }
 
-          // Get reply ID before clearing
-          const replyToId = state.replyingTo?.id;
+          // Get reply ID before clearing; thread replies leave the main input's reply alone
+          const replyToId = threadId ? undefined : state.replyingTo?.id;
           
           // Clear reply state immediately
-          set((state) => {
-            state.replyingTo = null;
-          });
+          if (!threadId) {
+            set((state) => {
+              state.replyingTo = null;
+            });
+          }
 
+          // Kept across retries and transports so the message is saved and shown once
+          const clientMessageId = messageSyncService.createClientMessageId();
+          
           // Create a temporary message to show immediately in UI
           const tempMessage: Message = {
             id: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, // Unique temporary ID
+            clientMessageId,
             conversationId,
             senderId: state.userId!,
             type: type || 'text',
             content: senderEncryptedContent,  // Use sender's encrypted version for display
             decryptedContent: content,
             nonce: senderNonce,
+            keyVersion,
+            senderDevice: deviceEnvelopes?.senderDevice,
+            envelopes: deviceEnvelopes?.envelopes,
             timestamp: { seconds: Math.floor(Date.now() / 1000), nanoseconds: 0, toDate: () => new Date(), toMillis: () => Date.now(), isEqual: () => false } as any,
             delivered: [],
             read: [],
             reactions: {},
             status: 'sending' as const,
-            metadata: metadata || {}
+            metadata: metadata || {},
+            threadId
           };
           
+          // The server stamps the real expiry; this one drives the local purge until then
+          if (conversation) {
+            const { getMessageExpiry } = await import('@/services/chat/firestore-chat.service');
+            const expiry = getMessageExpiry(conversation);
+            if (expiry) {
+              tempMessage.expiresAt = expiry.getTime();
+            }
+          }
+          
           // Add temporary message to local state immediately
           set((state) => {
             const messages = state.messages.get(conversationId) || [];
@@ -655,11 +942,64 @@ export const useChatStore = create<ChatState>()(
             }
           });
           
+          // Update the temporary message and its localStorage copy
+          const updateTempMessage = (update: (message: Message) => void) => set((state) => {
+            const messages = state.messages.get(conversationId) || [];
+            const index = messages.findIndex((m: any) => m.id === tempMessage.id);
+            if (index >= 0) {
+              update(messages[index]);
+              const updatedMessages = [...messages];
+              state.messages.set(conversationId, updatedMessages);
+              
+              // Update localStorage
+              try {
+                const storageKey = `chat_messages_${conversationId}`;
+                localStorage.setItem(storageKey, JSON.stringify(updatedMessages));
+              } catch (error) {
+                console.warn('Failed to update localStorage:', error);
+              }
+            }
+          });
+          
+          const confirmSent = (saved: { messageId: string; seq?: number; thread?: ThreadSummary }) => {
+            updateTempMessage((message) => {
+              message.id = saved.messageId;
+              message.seq = saved.seq;
+              message.status = 'sent';
+            });
+            if (threadId && saved.thread) {
+              set((state) => applyThreadSummary(state, conversationId, threadId, saved.thread!));
+            }
+            messageSyncService.track(conversationId, saved.seq);
+          };
+          
+          const sendViaFirestore = async () => {
+            const { sendMessage: sendFirestoreMessage } = await import('@/services/chat/firestore-chat.service');
+            const userId = state.userId;
+            
+            if (!userId) {
+              throw new Error('User ID not set in store');
+            }
+            
+            // Pass the full message data including type and metadata, and the
+            // ciphertext when it is already encrypted so the ratchet is not advanced twice
+            return sendFirestoreMessage(conversationId, userId, content, {
+              type: type || 'text',
+              metadata: metadata || {},
+              nonce: nonce,
+              clientMessageId,
+              threadId,
+              ...(nonce ? { encryptedContent, keyVersion } : {}),
+              ...(deviceEnvelopes || {})
+            });
+          };
+          
           // Send via socket if available, otherwise use Firestore
           if (state.socket && state.isConnected) {
             // Socket.io v4 callback format: (err, response)
             const messageData: any = {
               conversationId,
+              clientMessageId,
               type: type || 'text',
               metadata: metadata || {},
               tempId: tempMessage.id // Include temp ID for correlation
@@ -671,6 +1011,13 @@ export const useChatStore = create<ChatState>()(
               if (nonce) {
                 messageData.nonce = nonce;
               }
+              if (keyVersion !== undefined) {
+                messageData.keyVersion = keyVersion;
+              }
+            }
+            if (deviceEnvelopes) {
+              messageData.senderDevice = deviceEnvelopes.senderDevice;
+              messageData.envelopes = deviceEnvelopes.envelopes;
             }
             
             // Do NOT send sender plaintext/self-copy over socket (strict E2EE)
@@ -679,66 +1026,44 @@ export const useChatStore = create<ChatState>()(
             if (replyToId) {
               messageData.replyTo = replyToId;
             }
+            if (threadId) {
+              messageData.threadId = threadId;
+            }
+            
+            // Without an ack in time, send through Firestore instead; the shared
+            // client message ID means a late socket save is not a second copy
+            let fellBack = false;
+            const ackTimeout = setTimeout(() => {
+              fellBack = true;
+              console.warn('⚠️ No ack from chat server, sending via Firestore');
+              sendViaFirestore().then(confirmSent).catch((error) => {
+                console.error('❌ Failed to send message via Firestore:', error);
+                updateTempMessage((message) => {
+                  message.status = 'failed';
+                });
+              });
+            }, SEND_ACK_TIMEOUT_MS);
             
             state.socket.emit('message:send', messageData, (err: any, response: any) => {
+              clearTimeout(ackTimeout);
               if (err) {
                 console.error('❌ Failed to send message:', err);
-                // Update message status to failed
-                set((state) => {
-                  const messages = state.messages.get(conversationId) || [];
-                  const index = messages.findIndex((m: any) => m.id === tempMessage.id);
-                  if (index >= 0) {
-                    messages[index].status = 'failed';
-                    const updatedMessages = [...messages];
-                    state.messages.set(conversationId, updatedMessages);
-                    
-                    // Update localStorage
-                    try {
-                      const storageKey = `chat_messages_${conversationId}`;
-                      localStorage.setItem(storageKey, JSON.stringify(updatedMessages));
-                    } catch (error) {
-                      console.warn('Failed to update localStorage:', error);
-                    }
-                  }
-                });
+                // Update message status to failed, unless the Firestore fallback has it
+                if (!fellBack) {
+                  updateTempMessage((message) => {
+                    message.status = 'failed';
+                  });
+                }
               } else if (response && response.messageId) {
                 console.log('✅ Message sent successfully:', response);
                 // Replace temp message with real message
-                set((state) => {
-                  const messages = state.messages.get(conversationId) || [];
-                  const index = messages.findIndex((m: any) => m.id === tempMessage.id);
-                  if (index >= 0) {
-                    messages[index].id = response.messageId;
-                    messages[index].status = 'sent';
-                    const updatedMessages = [...messages];
-                    state.messages.set(conversationId, updatedMessages);
-                    
-                    // Update localStorage
-                    try {
-                      const storageKey = `chat_messages_${conversationId}`;
-                      localStorage.setItem(storageKey, JSON.stringify(updatedMessages));
-                    } catch (error) {
-                      console.warn('Failed to update localStorage:', error);
-                    }
-                  }
-                });
+                confirmSent(response);
               }
             });
           } else {
             // Use Firestore as fallback
-            const { sendMessage: sendFirestoreMessage } = await import('@/services/chat/firestore-chat.service');
-            const userId = state.userId;
-            
-            if (!userId) {
-              throw new Error('User ID not set in store');
-            }
-            
-            // Pass the full message data including type and metadata
-            await sendFirestoreMessage(conversationId, userId, content, {
-              type: type || 'text',
-              metadata: metadata || {},
-              nonce: nonce
-            });
+            const saved = await sendViaFirestore();
+            confirmSent(saved);
           }
         },
 
@@ -776,23 +1101,12 @@ export const useChatStore = create<ChatState>()(
                   deliveredTo: (msg as any).deliveredTo,
                   readBy: (msg as any).readBy
                 });
-                return {
-                  id: msg.id,
-                  conversationId,
-                  senderId: msg.senderId,
-                  type: (msg as any).type || 'text' as const,
-                  content: msg.encryptedContent || msg.text,
-                  decryptedContent: msg.text, // Already decrypted by subscribeMessages
-                  nonce: msg.nonce || '',
-                  timestamp: msg.timestamp,
-                  delivered: (msg as any).deliveredTo || [],
-                  read: (msg as any).readBy || [],
-                  reactions: (msg as any).reactions || {},
-                  status: 'sent' as const,
-                  metadata: (msg as any).metadata || {}
-                };
+                return fromFirestoreMessage(conversationId, msg);
               });
               
+              // The snapshot holds everything up to its newest message
+              messageSyncService.trackSnapshot(conversationId, messages.map(m => m.seq));
+              
               set((state) => {
                 // Get existing messages (from WebSocket)
                 const existingMessages = state.messages.get(conversationId) || [];
@@ -806,9 +1120,14 @@ export const useChatStore = create<ChatState>()(
                 
                 // Merge messages: keep WebSocket messages that aren't in Firestore yet
                 const firestoreMessageIds = new Set(messages.map(m => m.id));
-                const webSocketOnlyMessages = existingMessages.filter(m => 
-                  !firestoreMessageIds.has(m.id) && !m.id.startsWith('temp-') && !m.id.startsWith('temp_')
-                );
+                const firestoreClientIds = new Set(messages.map(m => m.clientMessageId).filter(Boolean));
+                const webSocketOnlyMessages = existingMessages.filter(m => {
+                  if (firestoreMessageIds.has(m.id) || (m.clientMessageId && firestoreClientIds.has(m.clientMessageId))) {
+                    return false;
+                  }
+                  // Unsent messages stay until Firestore has them; legacy temp messages cannot be matched
+                  return !!m.clientMessageId || (!m.id.startsWith('temp-') && !m.id.startsWith('temp_'));
+                });
                 
                 // Combine Firestore messages with WebSocket-only messages and deduplicate
                 const allMessages = [...messages, ...webSocketOnlyMessages];
@@ -828,8 +1147,9 @@ export const useChatStore = create<ChatState>()(
                 const conversation = state.conversations.get(conversationId);
                 if (conversation) {
                   const userId = state.userId || (state.socket as any)?.data?.userId || 'current-user';
+                  // Thread replies are counted per thread instead
                   const unreadCount = combinedMessages.filter(
-                    m => m.senderId !== userId && !m.read.includes(userId)
+                    m => m.senderId !== userId && !m.read.includes(userId) && !m.threadId
                   ).length;
                   
                   conversation.unreadCount = unreadCount;
@@ -878,95 +1198,199 @@ export const useChatStore = create<ChatState>()(
           });
         },
 
-        deleteMessage: (messageId) => set((state) => {
-          for (const [conversationId, messages] of state.messages) {
-            const filtered = messages.filter((m: any) => m.id !== messageId);
-            if (filtered.length !== messages.length) {
-              state.messages.set(conversationId, filtered);
-              break;
-            }
+        deleteMessage: async (messageId, scope) => {
+          const { socket, userId } = get();
+          const conversationId = findConversationId(get(), messageId);
+          if (!conversationId || !userId) {
+            console.error('❌ Message not found for deleting:', messageId);
+            return;
           }
-        }),
-
-        editMessage: async (messageId, newContent) => {
-          console.log('🔄 editMessage called with:', { messageId, newContent });
-          const state = get();
-          const { socket, userId } = state;
           
-          let conversationId: string | null = null;
-          let messageFound = false;
+          // Unsent messages only exist on this device
+          if (!messageId.startsWith('temp')) {
+            try {
+              if (socket?.connected) {
+                await emitWithAck(socket, 'message:delete', { conversationId, messageId, scope });
+              } else {
+                const { deleteMessage: deleteFirestoreMessage } = await import('@/services/chat/firestore-chat.service');
+                await deleteFirestoreMessage(conversationId, messageId, scope);
+              }
+            } catch (error) {
+              console.error('❌ Failed to delete message:', error);
+              throw error;
+            }
+          }
           
-          // Update local state immediately and find the conversation ID
+          set((state) => applyDeletion(state, conversationId, messageId, scope));
+          import('@/services/chat/search.service').then(({ messageSearchService }) =>
+            messageSearchService.deleteMessages([messageId])
+          ).catch(error => console.warn('Failed to remove deleted message from search index:', error));
+        },
+
+        purgeExpiredMessages: (expired) => {
+          const now = Date.now();
+          const expiredIds = new Set(expired?.messageIds || []);
+          const isGone = (message: Message) =>
+            expiredIds.has(message.id) || (!!message.expiresAt && message.expiresAt <= now);
+
           set((state) => {
-            for (const [convId, messages] of state.messages) {
-              const messageIndex = messages.findIndex((m: any) => m.id === messageId);
-              if (messageIndex !== -1) {
-                conversationId = convId;
-                messageFound = true;
-                
-                // Update the message locally
-                const message = messages[messageIndex];
-                message.text = newContent;
-                message.decryptedContent = newContent;
-                message.content = newContent;
-                message.metadata = {
-                  ...message.metadata,
-                  edited: true,
-                  editedAt: Timestamp.now(),
-                  editedBy: userId
-                };
-                
-                console.log('📝 Updated message locally:', message);
-                break;
+            const conversationIds = expired ? [expired.conversationId] : Array.from(state.messages.keys());
+            conversationIds.forEach(conversationId => {
+              const messages = state.messages.get(conversationId) || [];
+              const remaining = messages.filter((m: Message) => !isGone(m));
+              if (remaining.length === messages.length) return;
+
+              state.messages.set(conversationId, remaining);
+              try {
+                const storageKey = `chat_messages_${conversationId}`;
+                localStorage.setItem(storageKey, JSON.stringify(remaining));
+              } catch (error) {
+                console.warn('Failed to update localStorage:', error);
               }
-            }
+              console.log(`🧹 Purged ${messages.length - remaining.length} expired messages from ${conversationId}`);
+            });
+            state.offlineQueue = state.offlineQueue.filter((m: Message) => !isGone(m));
           });
+
+          // Local caches outside the store
+          import('@/services/chat/search.service').then(({ messageSearchService }) =>
+            expired
+              ? messageSearchService.deleteMessages(expired.messageIds)
+              : messageSearchService.deleteExpiredMessages()
+          ).catch(error => console.warn('Failed to purge expired messages from search index:', error));
+          import('@/services/chat/offline-queue.service').then(({ offlineQueue }) => {
+            if (expired) {
+              offlineQueue.removeMessages(expired.messageIds);
+            }
+            offlineQueue.purgeExpired();
+          }).catch(error => console.warn('Failed to purge expired messages from offline queue:', error));
+        },
+
+        syncMessages: async (conversationId) => {
+          const { socket } = get();
+          if (!socket?.connected) return;
+          
+          const { decryptMessage } = await import('@/services/chat/message-decryption.service');
+          const conversationIds = conversationId ? [conversationId] : messageSyncService.getTrackedConversations();
+          
+          for (const id of conversationIds) {
+            let missed: SyncedMessage[];
+            try {
+              missed = await messageSyncService.syncSince(socket, id);
+            } catch (error) {
+              console.warn(`⚠️ Failed to sync ${id}:`, error);
+              continue;
+            }
+            // Messages this user deleted for themselves stay hidden
+            const userId = get().userId;
+            const visible = missed.filter(message => !userId || !(message.hiddenFor || []).includes(userId));
+            if (visible.length === 0) continue;
+            
+            const received = await Promise.all(visible.map(async (message) => {
+              const decryptionResult = await decryptMessage(message);
+              return fromServerMessage(message, decryptionResult.text);
+            }));
+            
+            set((state) => {
+              const existing = state.messages.get(id) || [];
+              const knownIds = new Set(existing.map((m: Message) => m.id));
+              const knownClientIds = new Set(existing.map((m: Message) => m.clientMessageId).filter(Boolean));
+              const fresh = received.filter(m => 
+                !knownIds.has(m.id) && !(m.clientMessageId && knownClientIds.has(m.clientMessageId))
+              );
+              if (fresh.length === 0) return;
+              
+              const updatedMessages = [...existing, ...fresh].sort(
+                (a, b) => timestampMillis(a.timestamp) - timestampMillis(b.timestamp)
+              );
+              state.messages.set(id, updatedMessages);
+              try {
+                localStorage.setItem(`chat_messages_${id}`, JSON.stringify(updatedMessages));
+              } catch (error) {
+                console.warn('Failed to save synced messages to localStorage:', error);
+              }
+              
+              const conversation = state.conversations.get(id);
+              if (conversation && state.activeConversationId !== id) {
+                const unread = fresh.filter(m => m.senderId !== state.userId && !m.threadId).length;
+                conversation.unreadCount = (conversation.unreadCount || 0) + unread;
+              }
+            });
+            messageSyncService.scheduleAck(socket, id);
+          }
+        },
+
+        editMessage: async (messageId, newContent) => {
+          console.log('🔄 editMessage called with:', { messageId, newContent });
+          const { socket, userId } = get();
+          const conversationId = findConversationId(get(), messageId);
+          const original = conversationId
+            ? get().messages.get(conversationId)?.find((m: Message) => m.id === messageId)
+            : undefined;
           
-          if (!messageFound || !conversationId) {
+          if (!conversationId || !original || !userId) {
             console.error('❌ Message not found for editing:', messageId);
             return;
           }
           
-          // For now, send unencrypted content to server
-          // The server will handle encryption if needed
-          const editData = {
-            conversationId,
-            messageId,
-            text: newContent,  // Send plain text
-            editedAt: new Date().toISOString()
-          };
+          const updateLocal = (text: string | undefined, metadata: Message['metadata']) => set((state) => {
+            const message = state.messages.get(conversationId)?.find((m: Message) => m.id === messageId);
+            if (message) {
+              (message as any).text = text;
+              message.decryptedContent = text;
+              message.metadata = metadata;
+            }
+          });
           
-          // Emit socket event
-          if (socket) {
-            socket.emit('message:edit', editData, (error: any, response: any) => {
-              if (error) {
-                console.error('❌ Server rejected edit:', error);
-              } else {
-                console.log('✅ Edit acknowledged by server:', response);
-              }
-            });
-          } else {
-            console.warn('⚠️ No socket connection available');
-          }
+          // Show the edit right away and undo it if it fails
+          const editedAt = new Date().toISOString();
+          updateLocal(newContent, {
+            ...original.metadata,
+            edited: true,
+            editedAt: Timestamp.fromDate(new Date(editedAt)),
+            editedBy: userId
+          });
           
-          // Update Firestore
-          if (conversationId) {
-            try {
-              const messageRef = doc(db, 'conversations', conversationId, 'messages', messageId);
-              const updateData: any = {
-                text: newContent,
-                decryptedContent: newContent,
-                'metadata.edited': true,
-                'metadata.editedAt': Timestamp.now(),
-                'metadata.editedBy': userId
-              };
-              
-              await updateDoc(messageRef, updateData);
-              console.log('✅ Message edited in Firestore');
-            } catch (error) {
-              console.error('❌ Failed to update message in Firestore:', error);
+          try {
+            const content = await encryptEdit(get(), conversationId, newContent);
+            if (socket?.connected) {
+              await emitWithAck(socket, 'message:edit', { conversationId, messageId, ...content, editedAt });
+            } else {
+              const { editMessage: editFirestoreMessage } = await import('@/services/chat/firestore-chat.service');
+              await editFirestoreMessage(conversationId, messageId, content);
             }
+            console.log('✅ Message edited');
+          } catch (error) {
+            console.error('❌ Failed to edit message:', error);
+            updateLocal((original as any).text ?? original.decryptedContent, original.metadata);
+            return;
           }
+          
+          import('@/services/chat/search.service').then(({ messageSearchService }) =>
+            messageSearchService.updateMessageText(messageId, newContent)
+          ).catch(error => console.warn('Failed to update search index after edit:', error));
+        },
+
+        getEditHistory: async (messageId) => {
+          const conversationId = findConversationId(get(), messageId);
+          const message = conversationId
+            ? get().messages.get(conversationId)?.find((m: Message) => m.id === messageId)
+            : undefined;
+          if (!conversationId || !message) return [];
+          
+          const { getMessageHistory } = await import('@/services/chat/firestore-chat.service');
+          const { decryptMessage } = await import('@/services/chat/message-decryption.service');
+          const revisions = await getMessageHistory(conversationId, messageId);
+          
+          return Promise.all(revisions.map(async (revision) => {
+            const decryptionResult = await decryptMessage({
+              ...revision,
+              conversationId,
+              senderId: message.senderId,
+              type: 'text'
+            }, get().userId);
+            return { text: decryptionResult.text, editedAt: revision.editedAt };
+          }));
         },
 
         addReaction: async (messageId, emoji) => {
@@ -1022,78 +1446,14 @@ export const useChatStore = create<ChatState>()(
             }
           });
           
-          // Update Firebase - Simplified approach (skip if message doesn't exist)
-          if (activeConvId) {
+          // Reactions are written server-side (skip messages that were never saved)
+          if (activeConvId && !messageId.startsWith('temp')) {
             try {
-              const messageRef = doc(db, 'conversations', activeConvId, 'messages', messageId);
-              
-              // Get current message document
-              const messageDoc = await getDoc(messageRef);
-              if (!messageDoc.exists()) {
-                console.warn('Message not in Firebase - using local state only');
-                // Message only exists in WebSocket/local state, skip Firebase update
-                return;
-              }
-              
-              const data = messageDoc.data();
-              let reactions = data.reactions || {};
-              
-              console.log('📥 Current reactions from Firebase:', JSON.stringify(reactions));
-              
-              // Remove user from ALL reactions first (one reaction per user)
-              Object.keys(reactions).forEach(emojiKey => {
-                if (Array.isArray(reactions[emojiKey])) {
-                  reactions[emojiKey] = reactions[emojiKey].filter((u: string) => u !== userId);
-                  // Clean up empty arrays
-                  if (reactions[emojiKey].length === 0) {
-                    delete reactions[emojiKey];
-                  }
-                }
-              });
-              
-              // Add user to the new reaction
-              if (!reactions[emoji]) {
-                reactions[emoji] = [];
-              }
-              reactions[emoji].push(userId);
-              
-              console.log('📤 Updating Firebase with reactions:', JSON.stringify(reactions));
-              
-              // Update the entire reactions field
-              try {
-                // First ensure the document exists and has the reactions field
-                const currentDoc = await getDoc(messageRef);
-                if (!currentDoc.exists()) {
-                  console.error('Message document does not exist');
-                  return;
-                }
-                
-                // Use updateDoc to specifically update the reactions field
-                await updateDoc(messageRef, {
-                  'reactions': reactions
-                });
-                
-                console.log('✅ Reaction added to Firebase successfully');
-                
-                // Optional: Verify the update worked by reading back
-                if (process.env.NODE_ENV === 'development') {
-                  const verifyDoc = await getDoc(messageRef);
-                  const verifyData = verifyDoc.data();
-                  console.log('🔍 Verification - reactions after update:', verifyData?.reactions);
-                }
-              } catch (updateError) {
-                console.error('❌ Failed to update reactions:', updateError);
-                throw updateError;
-              }
-            } catch (error: any) {
-              console.error('❌ Failed to add reaction to Firebase:', error);
-              console.error('Error details:', {
-                code: error.code,
-                message: error.message,
-                messageId,
-                emoji,
-                userId
-              });
+              const { reactToMessage } = await import('@/services/chat/firestore-chat.service');
+              await reactToMessage(activeConvId, messageId, emoji);
+              console.log('✅ Reaction added to Firebase successfully');
+            } catch (error) {
+              console.error('❌ Failed to add reaction to Firebase:', error, { messageId, emoji, userId });
             }
           }
         },
@@ -1127,40 +1487,11 @@ export const useChatStore = create<ChatState>()(
             }
           });
           
-          // Update Firebase (skip if message doesn't exist)
-          if (activeConvId) {
+          // Reactions are written server-side (skip messages that were never saved)
+          if (activeConvId && !messageId.startsWith('temp')) {
             try {
-              const messageRef = doc(db, 'conversations', activeConvId, 'messages', messageId);
-              
-              // Get current reactions
-              const messageDoc = await getDoc(messageRef);
-              if (!messageDoc.exists()) {
-                console.warn('Message not in Firebase - using local state only');
-                // Message only exists in WebSocket/local state, skip Firebase update
-                return;
-              }
-              
-              const data = messageDoc.data();
-              let reactions = data.reactions || {};
-              
-              // Remove user from the specified emoji
-              if (reactions[emoji] && Array.isArray(reactions[emoji])) {
-                reactions[emoji] = reactions[emoji].filter((u: string) => u !== userId);
-                // Remove emoji entirely if no users left
-                if (reactions[emoji].length === 0) {
-                  delete reactions[emoji];
-                }
-              }
-              
-              // Ensure reactions is at least an empty object
-              if (Object.keys(reactions).length === 0) {
-                reactions = {};
-              }
-              
-              // Update with the complete reactions object using merge
-              await setDoc(messageRef, {
-                reactions: reactions
-              }, { merge: true });
+              const { reactToMessage } = await import('@/services/chat/firestore-chat.service');
+              await reactToMessage(activeConvId, messageId, emoji, true);
               console.log('Reaction removed from Firebase successfully');
             } catch (error) {
               console.error('Failed to remove reaction from Firebase:', error);
@@ -1168,6 +1499,65 @@ export const useChatStore = create<ChatState>()(
           }
         },
 
+        // Thread actions
+        openThread: async (rootId) => {
+          const conversationId = findConversationId(get(), rootId);
+          if (!conversationId) {
+            console.error('❌ Thread root not found:', rootId);
+            return;
+          }
+          
+          set((state) => {
+            state.activeThreadId = rootId;
+            state.threadUnread.delete(rootId);
+          });
+          await get().loadThread(conversationId, rootId);
+        },
+
+        closeThread: () => {
+          threadUnsubscribe?.();
+          threadUnsubscribe = null;
+          set((state) => {
+            state.activeThreadId = null;
+          });
+        },
+
+        loadThread: async (conversationId, rootId) => {
+          threadUnsubscribe?.();
+          threadUnsubscribe = null;
+          
+          try {
+            const { subscribeMessages } = await import('@/services/chat/firestore-chat.service');
+            // The thread may have been closed or switched while loading
+            if (get().activeThreadId !== rootId) return;
+            
+            threadUnsubscribe = subscribeMessages(conversationId, (firestoreReplies) => {
+              const replies = firestoreReplies.map(reply => fromFirestoreMessage(conversationId, reply));
+              
+              set((state) => {
+                // Replies live with the conversation's messages, replacing unsent copies
+                const replyIds = new Set(replies.map(m => m.id));
+                const replyClientIds = new Set(replies.map(m => m.clientMessageId).filter(Boolean));
+                const existing = (state.messages.get(conversationId) || []).filter((m: Message) =>
+                  !replyIds.has(m.id) && !(m.clientMessageId && replyClientIds.has(m.clientMessageId))
+                );
+                const updatedMessages = [...existing, ...replies].sort(
+                  (a, b) => timestampMillis(a.timestamp) - timestampMillis(b.timestamp)
+                );
+                state.messages.set(conversationId, updatedMessages);
+                
+                try {
+                  localStorage.setItem(`chat_messages_${conversationId}`, JSON.stringify(updatedMessages));
+                } catch (error) {
+                  console.warn('Failed to save thread replies to localStorage:', error);
+                }
+              });
+            }, { threadId: rootId });
+          } catch (error: any) {
+            console.warn('⚠️ Failed to load thread from Firestore:', error.message);
+          }
+        },
+
         setReplyingTo: (message) => set((state) => {
           state.replyingTo = message;
         }),
@@ -1257,24 +1647,12 @@ export const useChatStore = create<ChatState>()(
             });
           }
           
-          // Update Firebase
+          // Receipts are written server-side, and only by the user they belong to
           const activeConvId = state.activeConversationId;
-          if (activeConvId) {
+          if (activeConvId && userId === state.userId && !messageId.startsWith('temp')) {
             try {
-              const messageRef = doc(db, 'conversations', activeConvId, 'messages', messageId);
-              const messageDoc = await getDoc(messageRef);
-              
-              if (messageDoc.exists()) {
-                const data = messageDoc.data();
-                const deliveredTo = data.deliveredTo || [];
-                
-                if (!deliveredTo.includes(userId)) {
-                  deliveredTo.push(userId);
-                  await updateDoc(messageRef, {
-                    deliveredTo: deliveredTo
-                  });
-                }
-              }
+              const { markMessages } = await import('@/services/chat/firestore-chat.service');
+              await markMessages(activeConvId, [messageId], 'delivered');
             } catch (error) {
               console.error('Failed to update delivered status in Firebase:', error);
             }
@@ -1296,37 +1674,16 @@ export const useChatStore = create<ChatState>()(
             }
           });
           
-          // Update Firebase for each message
+          // Receipts are written server-side, and only by the user they belong to
           const activeConvId = state.activeConversationId;
-          if (activeConvId) {
-            for (const messageId of messageIds) {
-              try {
-                const messageRef = doc(db, 'conversations', activeConvId, 'messages', messageId);
-                const messageDoc = await getDoc(messageRef);
-                
-                if (messageDoc.exists()) {
-                  const data = messageDoc.data();
-                  const readBy = data.readBy || [];
-                  const deliveredTo = data.deliveredTo || [];
-                  
-                  // Update both readBy and deliveredTo
-                  if (!readBy.includes(userId)) {
-                    readBy.push(userId);
-                  }
-                  if (!deliveredTo.includes(userId)) {
-                    deliveredTo.push(userId);
-                  }
-                  
-                  await updateDoc(messageRef, {
-                    readBy: readBy,
-                    deliveredTo: deliveredTo
-                  });
-                  
-                  console.log(`✅ Marked message ${messageId} as read by ${userId}`);
-                }
-              } catch (error) {
-                console.error(`Failed to update read status for message ${messageId}:`, error);
-              }
+          const savedIds = messageIds.filter((id) => !id.startsWith('temp'));
+          if (activeConvId && userId === state.userId && savedIds.length > 0) {
+            try {
+              const { markMessages } = await import('@/services/chat/firestore-chat.service');
+              await markMessages(activeConvId, savedIds, 'read');
+              console.log(`✅ Marked ${savedIds.length} messages as read by ${userId}`);
+            } catch (error) {
+              console.error('Failed to update read status in Firebase:', error);
             }
           }
         },
@@ -1338,6 +1695,14 @@ export const useChatStore = create<ChatState>()(
             state.socket = socket;
           });
           
+          // Fetch whatever was missed while disconnected
+          socket.on('connect', () => {
+            get().syncMessages();
+          });
+          if (socket.connected) {
+            get().syncMessages();
+          }
+          
           // Listen for auth success to get user data
           socket.on('auth:success', (userData: any) => {
             console.log('🔑 Auth success received:', userData);
@@ -1376,6 +1741,11 @@ export const useChatStore = create<ChatState>()(
                 // This handles the case where we sent a message and now receive it back via WebSocket
                 if (message.senderId === state.userId) {
                   messages = messages.filter((m: any) => {
+                    // Remove the temp message sent with the same client ID
+                    if (message.clientMessageId && m.clientMessageId === message.clientMessageId) {
+                      console.log('🔄 Removing temporary message:', m.id);
+                      return false;
+                    }
                     // Remove temp messages that match this content
                     if (m.id.startsWith('temp-') && m.decryptedContent === decryptedContent) {
                       console.log('🔄 Removing temporary message:', m.id);
@@ -1393,12 +1763,19 @@ export const useChatStore = create<ChatState>()(
                   content: message.text || message.senderText || message.content,
                   decryptedContent: decryptedContent,
                   nonce: message.nonce || '',
+                  keyVersion: message.keyVersion,
+                  senderDevice: message.senderDevice,
+                  envelopes: message.envelopes,
                   timestamp: message.timestamp || new Date(),
                   delivered: message.delivered || message.deliveredTo || [],
                   read: message.read || message.readBy || [],
                   reactions: message.reactions || {},
                   status: 'sent' as const,
                   metadata: message.metadata || {},
+                  expiresAt: message.expiresAt ? new Date(message.expiresAt).getTime() : undefined,
+                  seq: message.seq,
+                  clientMessageId: message.clientMessageId,
+                  threadId: message.threadId,
                   sender: message.sender || {
                     displayName: message.senderId === 'test-user-1' ? 'Test User 1' : 'Test User 2',
                     photoURL: '/default-avatar.png',
@@ -1419,9 +1796,26 @@ export const useChatStore = create<ChatState>()(
                   console.warn('Failed to save messages to localStorage:', error);
                 }
                 
-                // Update conversation's last message
+                // Thread replies count towards their thread, and notify those taking part in it
                 const conversation = state.conversations.get(conversationId);
-                if (conversation) {
+                if (message.threadId) {
+                  if (message.senderId !== state.userId && state.activeThreadId !== message.threadId) {
+                    state.threadUnread.set(message.threadId, (state.threadUnread.get(message.threadId) || 0) + 1);
+                    
+                    const participants: string[] = message.threadSummary?.participants || [];
+                    if (state.userId && participants.includes(state.userId)) {
+                      const senderInfo = conversation?.memberDetails?.get(message.senderId);
+                      notificationService.showThreadReplyNotification(
+                        message.sender?.displayName || senderInfo?.displayName || 'Someone',
+                        decryptedContent,
+                        message.sender?.photoURL || senderInfo?.photoURL,
+                        conversationId,
+                        message.threadId
+                      );
+                      notificationService.playNotificationSound();
+                    }
+                  }
+                } else if (conversation) {
                   conversation.lastMessage = newMessage;
                   (conversation as any).lastMessageAt = newMessage.timestamp;
                   
@@ -1452,6 +1846,17 @@ export const useChatStore = create<ChatState>()(
               }
             });
             
+            // Every copy of a reply carries the thread's whole summary, so apply it even for duplicates
+            if (message.threadId && message.threadSummary) {
+              set((state) => applyThreadSummary(state, message.conversationId, message.threadId, message.threadSummary));
+            }
+            
+            // Fill any gap before this message, then acknowledge what we have
+            if (messageSyncService.track(message.conversationId, message.seq)) {
+              get().syncMessages(message.conversationId);
+            }
+            messageSyncService.scheduleAck(socket, message.conversationId);
+            
             // Send delivery confirmation AFTER state update if this is not our own message
             if (shouldSendDelivery) {
               console.log('📮 Sending delivery confirmation for message:', message.id);
@@ -1462,6 +1867,11 @@ export const useChatStore = create<ChatState>()(
             }
           });
           
+          socket.on('message:expired', (data: { conversationId: string; messageIds: string[] }) => {
+            console.log('🧹 Messages expired:', data);
+            get().purgeExpiredMessages(data);
+          });
+          
           socket.on('message:sent', (data: any) => {
             console.log('✅ Message sent confirmation:', data);
             
@@ -1512,32 +1922,49 @@ export const useChatStore = create<ChatState>()(
           
           socket.on('message:updated', async (data: any) => {
             console.log('✏️ Message updated event received:', data);
-            const { conversationId, messageId, text, editedBy, metadata } = data;
+            const { conversationId, messageId, editedBy, metadata } = data;
+            
+            // Edits are encrypted like new messages
+            const { decryptMessage } = await import('@/services/chat/message-decryption.service');
+            const decryptionResult = await decryptMessage({
+              ...data,
+              id: messageId,
+              senderId: editedBy,
+              type: 'text'
+            }, get().userId);
             
-            // For now, just use the plain text
-            // We'll add encryption later
-            const decryptedContent = text || '[Unable to decrypt]';
+            // This device already shows its own edit
+            if (!decryptionResult.success && editedBy === get().userId) return;
+            const decryptedContent = decryptionResult.text;
             
             // Update the message in state
             set((state) => {
               const messages = state.messages.get(conversationId);
-              if (messages) {
-                const messageIndex = messages.findIndex((m: any) => m.id === messageId);
-                if (messageIndex !== -1) {
-                  const message = messages[messageIndex];
-                  message.text = decryptedContent;
-                  message.decryptedContent = decryptedContent;
-                  message.content = decryptedContent;
-                  message.metadata = {
-                    ...message.metadata,
-                    ...metadata,
-                    editedAt: metadata?.editedAt ? Timestamp.fromDate(new Date(metadata.editedAt)) : Timestamp.now()
-                  };
-                  
-                  console.log('📝 Updated message from broadcast:', message);
-                }
+              const message = messages?.find((m: Message) => m.id === messageId);
+              if (message) {
+                (message as any).text = decryptedContent;
+                message.decryptedContent = decryptedContent;
+                message.metadata = {
+                  ...message.metadata,
+                  ...metadata,
+                  editedAt: metadata?.editedAt ? Timestamp.fromDate(new Date(metadata.editedAt)) : Timestamp.now()
+                };
+                
+                console.log('📝 Updated message from broadcast:', message.id);
               }
             });
+            
+            import('@/services/chat/search.service').then(({ messageSearchService }) =>
+              messageSearchService.updateMessageText(messageId, decryptedContent)
+            ).catch(error => console.warn('Failed to update search index after edit:', error));
+          });
+          
+          socket.on('message:deleted', (data: { conversationId: string; messageId: string; scope: DeleteScope }) => {
+            console.log('🗑️ Message deleted event received:', data);
+            set((state) => applyDeletion(state, data.conversationId, data.messageId, data.scope));
+            import('@/services/chat/search.service').then(({ messageSearchService }) =>
+              messageSearchService.deleteMessages([data.messageId])
+            ).catch(error => console.warn('Failed to remove deleted message from search index:', error));
           });
           
           // Listen for presence updates
@@ -1671,7 +2098,12 @@ export const useChatStore = create<ChatState>()(
               state.encryption = encryption;
               console.log('🔐 Encryption service set in store');
             });
-            
+
+            // Catch the key backup up with keys kept since the last session
+            import('@/services/chat/key-backup.service')
+              .then(({ keyBackupService }) => keyBackupService.backupIfStale(userId))
+              .catch(error => console.warn('⚠️ Key backup failed:', error));
+
           } catch (error) {
             console.error('🔥 Failed to initialize encryption:', error);
             throw error;
@@ -1744,6 +2176,8 @@ export const useChatStore = create<ChatState>()(
         // Cleanup
         reset: () => set((state) => {
           // Clean up message subscriptions
+          threadUnsubscribe?.();
+          threadUnsubscribe = null;
           if ((state as any).messageUnsubscribers instanceof Map) {
             for (const unsubscribe of (state as any).messageUnsubscribers.values()) {
               unsubscribe();
@@ -1770,8 +2204,12 @@ export const useChatStore = create<ChatState>()(
           if (state.selectedMessageIds instanceof Set) {
             state.selectedMessageIds.clear();
           }
+          if (state.threadUnread instanceof Map) {
+            state.threadUnread.clear();
+          }
           
           state.activeConversationId = null;
+          state.activeThreadId = null;
           state.offlineQueue = [];
           state.socket?.disconnect();
           state.socket = null;
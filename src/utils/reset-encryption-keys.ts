@@ -18,8 +18,12 @@ export async function resetEncryptionKeys(): Promise<void> {
   console.log('🔄 Resetting encryption keys for user:', userId);
 
   try {
-    // 1. Clear local storage
+    // 1. Clear local storage, revoking this device's old registration
     console.log('1️⃣ Clearing local keys...');
+    const oldDeviceId = await storageService.getDeviceId(userId);
+    if (oldDeviceId) {
+      await keyExchangeService.removeDevice(userId, oldDeviceId);
+    }
     await storageService.clearAll();
     
     // 2. Generate new key pair
@@ -42,7 +46,7 @@ export async function resetEncryptionKeys(): Promise<void> {
     
     // 6. Register in Firestore
     console.log('6️⃣ Registering in Firestore...');
-    await keyExchangeService.registerPublicKey(userId, newKeyPair.publicKey, preKeys);
+    await keyExchangeService.registerPublicKey(userId, newKeyPair.publicKey, preKeys.map(preKey => preKey.publicKey));
     
     console.log('✅ Encryption keys reset successfully!');
     console.log('📝 New public key:', newKeyPair.publicKey.substring(0, 30) + '...');